@@ -0,0 +1,177 @@
+// 🎯 LectureScript - Application Shell
+// Single routed entry point composing live recording, study mode, library, billing and settings
+// Author: Peter Levler
+
+import React, { useState, useEffect } from 'react';
+import { useRouter, buildPath } from './hooks/useRouter';
+import type { RouteName } from './hooks/useRouter';
+import { ThemeToggle } from './components/ui/ThemeToggle';
+import { PendingChunksIndicator } from './components/recording/PendingChunksIndicator';
+import { backgroundTranscription } from './services/backgroundTranscription';
+import { StudyWorkspace } from './components/study/StudyWorkspace';
+import { LiveRoute } from './routes/LiveRoute';
+import { LibraryRoute } from './routes/LibraryRoute';
+import { BillingRoute } from './routes/BillingRoute';
+import { SettingsRoute } from './routes/SettingsRoute';
+
+const NAV_ITEMS: Array<{ route: RouteName; label: string; activeFor: RouteName[] }> = [
+  { route: 'live', label: 'Live', activeFor: ['live'] },
+  { route: 'study', label: 'Study', activeFor: ['study', 'studyViewer'] },
+  { route: 'library', label: 'Library', activeFor: ['library', 'recording'] },
+  { route: 'billing', label: 'Billing', activeFor: ['billing'] },
+  { route: 'settings', label: 'Settings', activeFor: ['settings'] },
+];
+
+/**
+ * ThemeToggle owns the data-theme attribute; mirror it for components that take a theme object
+ */
+const useDocumentDarkMode = (): boolean => {
+  const [isDark, setIsDark] = useState(
+    () => document.documentElement.getAttribute('data-theme') === 'dark'
+  );
+
+  useEffect(() => {
+    const observer = new MutationObserver(() => {
+      setIsDark(document.documentElement.getAttribute('data-theme') === 'dark');
+    });
+    observer.observe(document.documentElement, { attributes: true, attributeFilter: ['data-theme'] });
+    return () => observer.disconnect();
+  }, []);
+
+  return isDark;
+};
+
+export const AppShell: React.FC = () => {
+  const { route, navigate } = useRouter();
+  const isDarkMode = useDocumentDarkMode();
+
+  // Recordings saved offline are transcribed in the background from any route
+  useEffect(() => {
+    backgroundTranscription.start().catch(err => console.error('Failed to start background transcription:', err));
+    return () => backgroundTranscription.stop();
+  }, []);
+
+  const renderRoute = () => {
+    switch (route.name) {
+      case 'study':
+      case 'studyViewer':
+        return (
+          <StudyWorkspace
+            transcriptId={route.params.transcriptId || null}
+            onTranscriptIdChange={(transcriptId) =>
+              transcriptId ? navigate('studyViewer', { transcriptId }) : navigate('study')
+            }
+          />
+        );
+      case 'library':
+      case 'recording':
+        return (
+          <LibraryRoute
+            isDarkMode={isDarkMode}
+            recordingId={route.params.recordingId || null}
+            onSelectRecording={(recordingId) =>
+              recordingId ? navigate('recording', { recordingId }) : navigate('library')
+            }
+            onOpenInStudy={(transcriptId) => navigate('studyViewer', { transcriptId })}
+          />
+        );
+      case 'billing':
+        return <BillingRoute />;
+      case 'settings':
+        return <SettingsRoute />;
+      case 'live':
+      default:
+        return (
+          <LiveRoute onRecordingSaved={(recordingId) => navigate('recording', { recordingId })} />
+        );
+    }
+  };
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        backgroundColor: 'var(--bg-secondary)',
+        fontFamily: 'var(--font-primary)',
+      }}
+    >
+      <header
+        className="glass elevation-2"
+        style={{
+          backgroundColor: 'rgba(255, 255, 255, 0.85)',
+          backdropFilter: 'var(--blur-md)',
+          borderBottom: '1px solid var(--color-gray-200)',
+          padding: 'var(--space-md) var(--space-xl)',
+          position: 'sticky',
+          top: 0,
+          zIndex: 1000,
+        }}
+      >
+        <div
+          style={{
+            maxWidth: '1440px',
+            margin: '0 auto',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: 'var(--space-lg)',
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-md)' }}>
+            <span style={{ fontSize: 'var(--text-lg)' }}>📚</span>
+            <h1
+              style={{
+                fontSize: 'var(--text-md)',
+                fontWeight: 'var(--font-semibold)',
+                color: 'var(--text-primary)',
+                margin: 0,
+                letterSpacing: '-0.02em',
+              }}
+            >
+              LectureScript
+            </h1>
+          </div>
+
+          <nav style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-xs)' }}>
+            {NAV_ITEMS.map(item => {
+              const isActive = item.activeFor.includes(route.name);
+              return (
+                <a
+                  key={item.route}
+                  href={buildPath(item.route)}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    navigate(item.route);
+                  }}
+                  className="focus-ring transition-spring"
+                  aria-current={isActive ? 'page' : undefined}
+                  style={{
+                    padding: 'var(--space-xs) var(--space-md)',
+                    fontSize: 'var(--text-sm)',
+                    fontWeight: 'var(--font-medium)',
+                    color: isActive ? 'var(--color-primary)' : 'var(--text-secondary)',
+                    backgroundColor: isActive ? 'rgba(0, 122, 255, 0.08)' : 'transparent',
+                    borderRadius: 'var(--radius-lg)',
+                    textDecoration: 'none',
+                    transition: 'var(--transition-base)',
+                  }}
+                >
+                  {item.label}
+                </a>
+              );
+            })}
+          </nav>
+
+          <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-md)' }}>
+            <PendingChunksIndicator />
+            <ThemeToggle />
+          </div>
+        </div>
+      </header>
+
+      <main>{renderRoute()}</main>
+    </div>
+  );
+};
+
+export default AppShell;
@@ -19,6 +19,7 @@ function IntelligentRealtimeApp() {
   const [rmsLevel, setRmsLevel] = useState(0);
   const [isSpeechDetected, setIsSpeechDetected] = useState(false);
   const [silenceDuration, setSilenceDuration] = useState(0);
+  const [isCalibrating, setIsCalibrating] = useState(false);
 
   const vadProcessorRef = useRef<IntelligentVADProcessor | null>(null);
   const transcriptRef = useRef<HTMLDivElement>(null);
@@ -153,7 +154,6 @@ function IntelligentRealtimeApp() {
 
       // Initialize VAD processor with optimized settings
       vadProcessorRef.current = createVADProcessor({
-        silenceThreshold: 0.01,     // 1% threshold
         silenceDuration: 2000,      // 2 seconds for lecture context
         minChunkDuration: 1500,     // 1.5 seconds minimum
         maxChunkDuration: 25000,    // 25 seconds maximum
@@ -169,6 +169,7 @@ function IntelligentRealtimeApp() {
           setRmsLevel(metrics.rmsLevel);
           setIsSpeechDetected(!metrics.isInSilence);
           setSilenceDuration(metrics.silenceDuration);
+          setIsCalibrating(metrics.isCalibrating);
           requestAnimationFrame(updateMetrics);
         }
       };
@@ -293,7 +294,7 @@ function IntelligentRealtimeApp() {
           }}>
             <div style={{ fontSize: '14px', color: theme.textSecondary }}>Speech Status</div>
             <div style={{ fontSize: '18px', fontWeight: '600', color: isSpeechDetected ? theme.success : theme.warning }}>
-              {isSpeechDetected ? '🎤 Speaking' : '🔇 Silent'}
+              {isCalibrating ? '🎚️ Measuring room noise...' : isSpeechDetected ? '🎤 Speaking' : '🔇 Silent'}
             </div>
           </div>
           <div style={{
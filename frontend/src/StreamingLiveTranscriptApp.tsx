@@ -1,6 +1,17 @@
 import { useState, useRef, useEffect } from 'react';
 import { pdfBackendService } from './services/pdfBackendAPI';
 import { streamingService } from './services/streamingAPI';
+import { chunkQueue } from './services/chunkQueue';
+import { PcmCapture, isPcmCaptureSupported } from './services/pcmCapture';
+import { UniversalAudioProcessor } from './services/audioProcessor';
+import { getTranscriptionProvider } from './services/providers';
+import { useChunkQueue } from './hooks/useChunkQueue';
+import { PendingChunksIndicator } from './components/recording/PendingChunksIndicator';
+import type { ChunkTiming } from './types/chunkQueue';
+
+const SESSION_STORAGE_KEY = 'lecturescript-streaming-session';
+// MediaRecorder fallback: one chunk every 3 seconds
+const RECORDER_CHUNK_MS = 3000;
 
 function StreamingLiveTranscriptApp() {
   // Core states
@@ -14,10 +25,11 @@ function StreamingLiveTranscriptApp() {
   // Real-time streaming states
   const [isStreamingMode, setIsStreamingMode] = useState(true);
   const [chunkIndex, setChunkIndex] = useState(0);
-  const [sessionId, setSessionId] = useState('');
+  // Restore the last session so its queued chunks reassemble after a reload
+  const [sessionId, setSessionId] = useState(() => localStorage.getItem(SESSION_STORAGE_KEY) || '');
   const [streamingTranscripts, setStreamingTranscripts] = useState<string[]>([]);
-  const [isProcessingChunk, setIsProcessingChunk] = useState(false);
   const [activeChunks, setActiveChunks] = useState<Set<number>>(new Set());
+  const queue = useChunkQueue(sessionId || undefined);
 
   // PDF states
   const [pdfContext, setPdfContext] = useState<{
@@ -31,12 +43,13 @@ function StreamingLiveTranscriptApp() {
 
   // Refs
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const pcmCaptureRef = useRef<PcmCapture | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const transcriptRef = useRef<HTMLDivElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const chunkIndexRef = useRef(0);
-  const sessionIdRef = useRef('');
+  const sessionIdRef = useRef(sessionId);
   const streamingIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
   // Auto-scroll transcript
@@ -46,6 +59,13 @@ function StreamingLiveTranscriptApp() {
     }
   }, [liveTranscript]);
 
+  // Mirror the queue's ordered view of the session
+  useEffect(() => {
+    if (!queue.session) return;
+    setStreamingTranscripts(queue.session.chunkTexts);
+    setActiveChunks(new Set(queue.session.pendingIndexes));
+  }, [queue.session]);
+
   // Update transcript from streaming chunks
   useEffect(() => {
     if (streamingTranscripts.length > 0) {
@@ -81,42 +101,13 @@ function StreamingLiveTranscriptApp() {
     }
   };
 
-  const processAudioChunk = async (audioBlob: Blob, chunkIdx: number) => {
+  const processAudioChunk = async (audioBlob: Blob, chunkIdx: number, overlap?: number, timing?: ChunkTiming) => {
     try {
-      setIsProcessingChunk(true);
-      setActiveChunks(prev => new Set(prev).add(chunkIdx));
-
-      const result = await streamingService.transcribeStreamChunk(
-        audioBlob,
-        pdfContext?.contextId || '',
-        chunkIdx,
-        sessionIdRef.current,
-        chunkIdx === 0
-      );
-
-      // Update streaming transcripts with new chunk
-      setStreamingTranscripts(prev => {
-        const newTranscripts = [...prev];
-        newTranscripts[chunkIdx] = result.text;
-        return newTranscripts;
-      });
-
-      setActiveChunks(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(chunkIdx);
-        return newSet;
-      });
-
+      // Persisted and retried by the queue; results come back through useChunkQueue in order
+      await chunkQueue.enqueue(sessionIdRef.current, chunkIdx, audioBlob, pdfContext?.contextId || '', overlap, timing);
     } catch (err) {
-      console.error(`Error processing chunk ${chunkIdx}:`, err);
+      console.error(`Error queueing chunk ${chunkIdx}:`, err);
       setError(`轉錄片段 ${chunkIdx} 失敗: ${err instanceof Error ? err.message : '未知錯誤'}`);
-      setActiveChunks(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(chunkIdx);
-        return newSet;
-      });
-    } finally {
-      setIsProcessingChunk(false);
     }
   };
 
@@ -134,6 +125,7 @@ function StreamingLiveTranscriptApp() {
       const newSessionId = streamingService.generateSessionId();
       setSessionId(newSessionId);
       sessionIdRef.current = newSessionId;
+      localStorage.setItem(SESSION_STORAGE_KEY, newSessionId);
 
       const stream = await navigator.mediaDevices.getUserMedia({
         audio: {
@@ -145,6 +137,32 @@ function StreamingLiveTranscriptApp() {
 
       streamRef.current = stream;
 
+      if (isPcmCaptureSupported()) {
+        // Chunks end at pauses and repeat a little of the previous one, so no word is lost at a cut
+        const capture = new PcmCapture({
+          onChunk: chunk => {
+            chunkIndexRef.current = chunk.index + 1;
+            const { uploadFormats } = getTranscriptionProvider();
+            UniversalAudioProcessor.encodeForUpload(chunk.samples, chunk.sampleRate, uploadFormats)
+              .then(audio => processAudioChunk(audio, chunk.index, chunk.overlapMs / 1000, {
+                startTime: chunk.startMs / 1000,
+                duration: (chunk.endMs - chunk.startMs) / 1000,
+              }))
+              .catch(err => {
+                console.error(`Error encoding chunk ${chunk.index}:`, err);
+                setError(`轉錄片段 ${chunk.index} 失敗: ${err instanceof Error ? err.message : '未知錯誤'}`);
+              });
+          },
+        });
+        await capture.start(stream);
+        pcmCaptureRef.current = capture;
+
+        setIsRecording(true);
+        setIsTranscribing(true);
+        console.log(`🌊 Started PCM streaming with session: ${newSessionId}`);
+        return;
+      }
+
       const mediaRecorder = new MediaRecorder(stream, {
         mimeType: 'audio/webm;codecs=opus'
       });
@@ -156,7 +174,10 @@ function StreamingLiveTranscriptApp() {
           console.log(`📦 Processing chunk ${currentChunk}, size: ${event.data.size} bytes`);
 
           // Process chunk immediately in parallel
-          processAudioChunk(event.data, currentChunk);
+          processAudioChunk(event.data, currentChunk, 0, {
+            startTime: (currentChunk * RECORDER_CHUNK_MS) / 1000,
+            duration: RECORDER_CHUNK_MS / 1000,
+          });
           chunkIndexRef.current++;
         }
       };
@@ -170,7 +191,7 @@ function StreamingLiveTranscriptApp() {
       };
 
       // Start recording with 3-second chunks for real-time processing
-      mediaRecorder.start(3000);
+      mediaRecorder.start(RECORDER_CHUNK_MS);
       setIsRecording(true);
       setIsTranscribing(true);
 
@@ -183,13 +204,27 @@ function StreamingLiveTranscriptApp() {
   };
 
   const stopStreamingRecording = () => {
+    if (pcmCaptureRef.current && isRecording) {
+      const capture = pcmCaptureRef.current;
+      pcmCaptureRef.current = null;
+      setIsRecording(false);
+      setIsTranscribing(false);
+
+      // The last chunk is emitted on stop, before the microphone is released
+      capture.stop().finally(() => {
+        streamRef.current?.getTracks().forEach(track => track.stop());
+        streamRef.current = null;
+      });
+      console.log('🛑 Stopped PCM streaming');
+      return;
+    }
+
     if (mediaRecorderRef.current && isRecording) {
       mediaRecorderRef.current.stop();
       setIsRecording(false);
       setIsTranscribing(false);
 
-      // Clear any remaining processing
-      setActiveChunks(new Set());
+      // Chunks still in flight stay queued and keep retrying in the background
       console.log('🛑 Stopped streaming recording');
     }
   };
@@ -326,6 +361,8 @@ function StreamingLiveTranscriptApp() {
         </div>
 
         <div className="flex items-center gap-4">
+          <PendingChunksIndicator />
+
           {/* Mode Toggle */}
           <button
             onClick={toggleMode}
@@ -1,7 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import type { LectureSession, BatchExportOptions, ExportProgress } from '../../types';
 import { EnhancedExportService } from '../../services/enhancedExportService';
+import { ExportProgressModal } from './ExportProgressModal';
 import { Button } from '../ui/Button';
+import { SubtitleOptionsFields } from './SubtitleOptionsFields';
+import { TemplatePicker } from './TemplatePicker';
+import { SubtitleFormatter } from '../../utils/formatters/subtitleFormatter';
+import { supportsBilingual } from '../../utils/bilingual';
 
 interface BatchExportModalProps {
   isOpen: boolean;
@@ -32,9 +37,11 @@ export const BatchExportModal: React.FC<BatchExportModalProps> = ({
 
   const [isExporting, setIsExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
+  const [showProgress, setShowProgress] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const exportService = new EnhancedExportService();
+  // One instance for the modal's lifetime, so the progress callback stays attached
+  const [exportService] = useState(() => new EnhancedExportService());
 
   useEffect(() => {
     exportService.setProgressCallback(setExportProgress);
@@ -69,22 +76,27 @@ export const BatchExportModal: React.FC<BatchExportModalProps> = ({
     setIsExporting(true);
     setError(null);
     setExportProgress(null);
+    setShowProgress(true);
 
     try {
       const result = await exportService.batchExport(exportOptions);
       exportService.downloadFile(result.data, result.filename, result.mimeType);
-
-      // Auto-close modal after successful export
-      setTimeout(() => {
-        onClose();
-        setIsExporting(false);
-        setExportProgress(null);
-      }, 1500);
-
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Batch export failed');
+    } finally {
       setIsExporting(false);
-      setExportProgress(null);
+    }
+  };
+
+  /**
+   * Progress stays open until dismissed so failed lectures can be read; a finished export closes both
+   */
+  const handleProgressClose = () => {
+    const completed = exportProgress?.status === 'completed';
+    setShowProgress(false);
+    setExportProgress(null);
+    if (completed) {
+      onClose();
     }
   };
 
@@ -232,7 +244,18 @@ export const BatchExportModal: React.FC<BatchExportModalProps> = ({
                 <option value="txt">📃 Text Files</option>
                 <option value="md">📋 Markdown Files</option>
                 <option value="json">💾 JSON Data Files</option>
+                <option value="notion">📚 Notion Database</option>
+                <option value="gdocs">📄 Google Docs (HTML)</option>
+                <option value="odt">📄 OpenDocument (ODT)</option>
+                <option value="srt">💬 SRT Captions</option>
+                <option value="vtt">💬 WebVTT Captions</option>
+                <option value="ttml">💬 TTML Captions</option>
               </select>
+              {exportOptions.format === 'notion' && (
+                <p className="text-xs text-gray-500 mt-2">
+                  One database with a row per lecture. Import the ZIP with Notion's Markdown &amp; CSV importer.
+                </p>
+              )}
             </div>
 
             {/* Layout Selection */}
@@ -253,6 +276,25 @@ export const BatchExportModal: React.FC<BatchExportModalProps> = ({
             </div>
           </div>
 
+          {/* Template Selection (for document formats) */}
+          {['pdf', 'gdocs', 'md', 'notion'].includes(exportOptions.format) && (
+            <TemplatePicker
+              idPrefix="batch"
+              format={exportOptions.format}
+              value={exportOptions.templateId}
+              onChange={(templateId) => setExportOptions(prev => ({ ...prev, templateId }))}
+            />
+          )}
+
+          {/* Caption Settings (for subtitle formats) */}
+          {SubtitleFormatter.isSubtitleFormat(exportOptions.format) && (
+            <SubtitleOptionsFields
+              idPrefix="batch-subtitle"
+              value={exportOptions.subtitles}
+              onChange={(subtitles) => setExportOptions(prev => ({ ...prev, subtitles }))}
+            />
+          )}
+
           {/* Archive Name */}
           <div>
             <label htmlFor="zipName" className="block text-sm font-medium text-gray-700 mb-2">
@@ -377,27 +419,21 @@ export const BatchExportModal: React.FC<BatchExportModalProps> = ({
                 </label>
               </div>
             </div>
-          </div>
-
-          {/* Progress Display */}
-          {exportProgress && (
-            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-              <div className="flex items-center justify-between mb-2">
-                <span className="text-sm font-medium text-blue-700">
-                  {exportProgress.message}
-                </span>
-                <span className="text-sm text-blue-600">
-                  {exportProgress.progress}%
-                </span>
-              </div>
-              <div className="w-full bg-blue-200 rounded-full h-2">
-                <div
-                  className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                  style={{ width: `${exportProgress.progress}%` }}
-                />
-              </div>
+          {exportOptions.language === 'both' && supportsBilingual(exportOptions.format) && (
+            <div className="flex items-center mt-3">
+              <input
+                type="checkbox"
+                id="batch-bilingual"
+                checked={Boolean(exportOptions.bilingual)}
+                onChange={(e) => setExportOptions(prev => ({ ...prev, bilingual: e.target.checked }))}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <label htmlFor="batch-bilingual" className="ml-3 text-sm text-gray-700">
+                📖 Side-by-side 中文 / English <span className="text-gray-500">(translates segments that need it)</span>
+              </label>
             </div>
           )}
+          </div>
 
           {/* Error Display */}
           {error && (
@@ -450,6 +486,13 @@ export const BatchExportModal: React.FC<BatchExportModalProps> = ({
           </div>
         </div>
       </div>
+
+      <ExportProgressModal
+        isOpen={showProgress}
+        onClose={handleProgressClose}
+        progress={exportProgress}
+        title="Exporting Lectures"
+      />
     </div>
   );
 };
\ No newline at end of file
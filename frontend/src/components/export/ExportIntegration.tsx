@@ -4,6 +4,7 @@ import type { LectureSession } from '../../types';
 import { ExportModal } from './ExportModal';
 import { BatchExportModal } from './BatchExportModal';
 import { Button } from '../ui/Button';
+import { fromTranscriptionSegments, toTranscriptSegments } from '../../utils/transcriptDocument';
 
 interface ExportIntegrationProps {
   children: React.ReactNode;
@@ -27,7 +28,7 @@ export const ExportIntegration: React.FC<ExportIntegrationProps> = ({
       name: recording.title,
       startTime: recording.timestamp,
       endTime: recording.timestamp + (recording.duration * 1000),
-      segments: recording.segments || [],
+      segments: toTranscriptSegments(fromTranscriptionSegments(recording.segments || [])),
       summary: recording.summary,
       language: recording.language as 'zh' | 'en' | 'mixed',
       duration: recording.duration,
@@ -145,7 +146,7 @@ export const QuickExportButton: React.FC<QuickExportButtonProps> = ({
       name: recording.title,
       startTime: recording.timestamp,
       endTime: recording.timestamp + (recording.duration * 1000),
-      segments: recording.segments || [],
+      segments: toTranscriptSegments(fromTranscriptionSegments(recording.segments || [])),
       summary: recording.summary,
       language: recording.language as 'zh' | 'en' | 'mixed',
       duration: recording.duration,
@@ -330,7 +331,7 @@ export const ExportMenu: React.FC<ExportMenuProps> = ({
             name: recording.title,
             startTime: recording.timestamp,
             endTime: recording.timestamp + (recording.duration * 1000),
-            segments: recording.segments || [],
+            segments: toTranscriptSegments(fromTranscriptionSegments(recording.segments || [])),
             summary: recording.summary,
             language: recording.language as 'zh' | 'en' | 'mixed',
             duration: recording.duration,
@@ -2,6 +2,10 @@ import React, { useState, useEffect } from 'react';
 import type { LectureSession, ExportOptions, ExportProgress } from '../../types';
 import { EnhancedExportService } from '../../services/enhancedExportService';
 import { Button } from '../ui/Button';
+import { SubtitleOptionsFields } from './SubtitleOptionsFields';
+import { TemplatePicker } from './TemplatePicker';
+import { SubtitleFormatter } from '../../utils/formatters/subtitleFormatter';
+import { supportsBilingual } from '../../utils/bilingual';
 
 interface ExportModalProps {
   isOpen: boolean;
@@ -89,8 +93,12 @@ export const ExportModal: React.FC<ExportModalProps> = ({
     { value: 'txt', label: '📃 Plain Text', description: 'Simple text file for basic use' },
     { value: 'md', label: '📋 Markdown', description: 'Formatted text for documentation' },
     { value: 'json', label: '💾 JSON', description: 'Structured data for developers' },
-    { value: 'notion', label: '📚 Notion', description: 'Optimized for Notion workspace' },
-    { value: 'gdocs', label: '📄 Google Docs', description: 'HTML format for Google Docs import' }
+    { value: 'notion', label: '📚 Notion', description: 'ZIP for Notion import: a database row with date, duration and tags' },
+    { value: 'gdocs', label: '📄 Google Docs', description: 'HTML that keeps headings, timestamp links and tables' },
+    { value: 'odt', label: '📄 OpenDocument', description: 'ODT for Google Docs, Word and LibreOffice' },
+    { value: 'srt', label: '💬 SRT Captions', description: 'Subtitles for video players and LMS uploads' },
+    { value: 'vtt', label: '💬 WebVTT Captions', description: 'Subtitles for web video and YouTube' },
+    { value: 'ttml', label: '💬 TTML Captions', description: 'XML captions for broadcast and Panopto' }
   ];
 
   const layoutOptions = [
@@ -102,8 +110,8 @@ export const ExportModal: React.FC<ExportModalProps> = ({
 
   const languageOptions = [
     { value: 'both', label: '🌐 Both Languages', description: 'Include all content' },
-    { value: 'zh', label: '🇭🇰 Chinese Only', description: 'Chinese text only' },
-    { value: 'en', label: '🇺🇸 English Only', description: 'English text only' }
+    { value: 'zh', label: '🇭🇰 Chinese Only', description: 'Chinese text, using translations where available' },
+    { value: 'en', label: '🇺🇸 English Only', description: 'English text, using translations where available' }
   ];
 
   if (!isOpen) return null;
@@ -172,7 +180,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({
           </div>
 
           {/* Layout Selection (for PDF/HTML formats) */}
-          {(exportOptions.format === 'pdf' || exportOptions.format === 'gdocs') && (
+          {['pdf', 'gdocs', 'odt'].includes(exportOptions.format) && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-3">
                 Document Layout
@@ -206,6 +214,24 @@ export const ExportModal: React.FC<ExportModalProps> = ({
             </div>
           )}
 
+          {/* Template Selection (for document formats) */}
+          {['pdf', 'gdocs', 'md', 'notion'].includes(exportOptions.format) && (
+            <TemplatePicker
+              format={exportOptions.format}
+              value={exportOptions.templateId}
+              onChange={(templateId) => setExportOptions(prev => ({ ...prev, templateId }))}
+              session={session}
+            />
+          )}
+
+          {/* Caption Settings (for subtitle formats) */}
+          {SubtitleFormatter.isSubtitleFormat(exportOptions.format) && (
+            <SubtitleOptionsFields
+              value={exportOptions.subtitles}
+              onChange={(subtitles) => setExportOptions(prev => ({ ...prev, subtitles }))}
+            />
+          )}
+
           {/* Language Selection */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-3">
@@ -229,6 +255,20 @@ export const ExportModal: React.FC<ExportModalProps> = ({
                   </label>
                 </div>
               ))}
+              {exportOptions.language === 'both' && supportsBilingual(exportOptions.format) && (
+                <div className="flex items-center pt-2 border-t border-gray-100">
+                  <input
+                    type="checkbox"
+                    id="bilingual"
+                    checked={Boolean(exportOptions.bilingual)}
+                    onChange={(e) => setExportOptions(prev => ({ ...prev, bilingual: e.target.checked }))}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <label htmlFor="bilingual" className="ml-3 text-sm text-gray-700">
+                    📖 Side-by-side 中文 / English <span className="text-gray-500">(translates segments that need it)</span>
+                  </label>
+                </div>
+              )}
             </div>
           </div>
 
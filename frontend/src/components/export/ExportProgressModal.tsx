@@ -1,11 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import type { ExportProgress } from '../../types';
+import type { ExportProgress, ExportFileProgress } from '../../types';
 import { Button } from '../ui/Button';
 
 interface ExportProgressModalProps {
   isOpen: boolean;
   onClose: () => void;
-  jobId: string;
+  jobId?: string;  // Server-side export job to poll
+  progress?: ExportProgress | null;  // Client-side export progress, shown instead of polling
   serverUrl?: string;
   title?: string;
 }
@@ -14,22 +15,27 @@ export const ExportProgressModal: React.FC<ExportProgressModalProps> = ({
   isOpen,
   onClose,
   jobId,
+  progress: localProgress,
   serverUrl = 'http://localhost:3001',
   title = 'Export Progress'
 }) => {
-  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [polledProgress, setProgress] = useState<ExportProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isPolling, setIsPolling] = useState(false);
 
+  const isLocal = localProgress !== undefined;
+  const progress = isLocal ? localProgress : polledProgress;
+  const isFinished = progress?.status === 'completed' || progress?.status === 'error';
+
   useEffect(() => {
-    if (isOpen && jobId) {
+    if (isOpen && jobId && !isLocal) {
       startPolling();
     }
 
     return () => {
       setIsPolling(false);
     };
-  }, [isOpen, jobId]);
+  }, [isOpen, jobId, isLocal]);
 
   const startPolling = () => {
     setIsPolling(true);
@@ -107,6 +113,19 @@ export const ExportProgressModal: React.FC<ExportProgressModalProps> = ({
     }
   };
 
+  const getFileStatusIcon = (status: ExportFileProgress['status']) => {
+    switch (status) {
+      case 'processing':
+        return '🔄';
+      case 'completed':
+        return '✅';
+      case 'error':
+        return '❌';
+      default:
+        return '⏳';
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'preparing':
@@ -159,7 +178,7 @@ export const ExportProgressModal: React.FC<ExportProgressModalProps> = ({
         <div className="border-b border-gray-200 px-6 py-4 rounded-t-xl">
           <div className="flex items-center justify-between">
             <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
-            {!isPolling && (
+            {!isPolling && (!isLocal || isFinished) && (
               <button
                 onClick={onClose}
                 className="text-gray-400 hover:text-gray-600 transition-colors"
@@ -174,9 +193,11 @@ export const ExportProgressModal: React.FC<ExportProgressModalProps> = ({
 
         <div className="p-6">
           {/* Job ID */}
-          <div className="mb-4 text-xs text-gray-500 font-mono bg-gray-100 px-2 py-1 rounded">
-            Job ID: {jobId}
-          </div>
+          {jobId && (
+            <div className="mb-4 text-xs text-gray-500 font-mono bg-gray-100 px-2 py-1 rounded">
+              Job ID: {jobId}
+            </div>
+          )}
 
           {/* Progress Display */}
           {progress && (
@@ -210,8 +231,8 @@ export const ExportProgressModal: React.FC<ExportProgressModalProps> = ({
               {/* Additional Info */}
               <div className="flex items-center justify-between text-xs opacity-75">
                 <div>
-                  {(progress as any).startTime && (
-                    <span>Duration: {formatDuration((progress as any).startTime, (progress as any).endTime)}</span>
+                  {progress.startTime && (
+                    <span>Duration: {formatDuration(progress.startTime, progress.endTime)}</span>
                   )}
                 </div>
                 {progress.fileSize && (
@@ -223,6 +244,30 @@ export const ExportProgressModal: React.FC<ExportProgressModalProps> = ({
             </div>
           )}
 
+          {/* Per-file Progress */}
+          {progress?.files && progress.files.length > 0 && (
+            <div className="border border-gray-200 rounded-lg mb-4 max-h-48 overflow-y-auto">
+              {progress.files.map((file, index) => (
+                <div
+                  key={`${file.name}-${index}`}
+                  className="flex items-center gap-2 px-3 py-2 text-sm border-b border-gray-100 last:border-b-0"
+                >
+                  <span>{getFileStatusIcon(file.status)}</span>
+                  <span className="flex-1 truncate text-gray-800" title={file.path || file.name}>
+                    {file.name}
+                  </span>
+                  {file.status === 'error' ? (
+                    <span className="text-xs text-red-600 truncate max-w-[40%]" title={file.error}>
+                      {file.error}
+                    </span>
+                  ) : file.size !== undefined && (
+                    <span className="text-xs text-gray-500">{(file.size / 1024).toFixed(1)}KB</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Error Display */}
           {error && (
             <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
@@ -239,13 +284,13 @@ export const ExportProgressModal: React.FC<ExportProgressModalProps> = ({
           )}
 
           {/* Loading State */}
-          {!progress && !error && isPolling && (
+          {!progress && !error && (isPolling || isLocal) && (
             <div className="text-center py-8">
               <svg className="animate-spin h-8 w-8 text-blue-600 mx-auto mb-4" fill="none" viewBox="0 0 24 24">
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
               </svg>
-              <p className="text-gray-600">Connecting to export service...</p>
+              <p className="text-gray-600">{isLocal ? 'Preparing export...' : 'Connecting to export service...'}</p>
             </div>
           )}
 
@@ -258,7 +303,9 @@ export const ExportProgressModal: React.FC<ExportProgressModalProps> = ({
                 </svg>
                 <div>
                   <div className="font-medium text-green-800">Export Completed!</div>
-                  <div className="text-sm text-green-700">Your file is ready for download.</div>
+                  <div className="text-sm text-green-700">
+                    {isLocal ? 'Your download has started.' : 'Your file is ready for download.'}
+                  </div>
                 </div>
               </div>
             </div>
@@ -277,11 +324,11 @@ export const ExportProgressModal: React.FC<ExportProgressModalProps> = ({
         <div className="border-t border-gray-200 px-6 py-4 rounded-b-xl bg-gray-50">
           <div className="flex items-center justify-between">
             <div className="text-xs text-gray-500">
-              {progress?.status === 'completed' ? 'Download should start automatically' : 'Please keep this window open'}
+              {isFinished ? (isLocal ? '' : 'Download should start automatically') : 'Please keep this window open'}
             </div>
 
             <div className="flex items-center gap-3">
-              {progress?.status === 'completed' && (
+              {progress?.status === 'completed' && !isLocal && (
                 <Button
                   onClick={downloadResult}
                   className="text-sm bg-green-600 hover:bg-green-700 text-white"
@@ -290,7 +337,7 @@ export const ExportProgressModal: React.FC<ExportProgressModalProps> = ({
                 </Button>
               )}
 
-              {!isPolling && (
+              {!isPolling && (!isLocal || isFinished) && (
                 <Button
                   onClick={onClose}
                   variant="secondary"
@@ -0,0 +1,96 @@
+import React from 'react';
+import type { SubtitleOptions } from '../../types';
+import { DEFAULT_SUBTITLE_OPTIONS } from '../../utils/formatters/subtitleFormatter';
+
+interface SubtitleOptionsFieldsProps {
+  value?: Partial<SubtitleOptions>;
+  onChange: (value: Partial<SubtitleOptions>) => void;
+  idPrefix?: string;
+}
+
+/**
+ * Caption settings shared by the single and batch export modals
+ */
+export const SubtitleOptionsFields: React.FC<SubtitleOptionsFieldsProps> = ({
+  value = {},
+  onChange,
+  idPrefix = 'subtitle'
+}) => {
+  const settings = { ...DEFAULT_SUBTITLE_OPTIONS, ...value };
+
+  const update = (patch: Partial<SubtitleOptions>) => onChange({ ...value, ...patch });
+
+  const toNumber = (input: string, fallback: number) => {
+    const parsed = Number(input);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-3">
+        Caption Settings
+      </label>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label htmlFor={`${idPrefix}-line-length`} className="block text-xs text-gray-500 mb-1">
+            Max characters per line <span className="text-gray-400">(中文字計兩格)</span>
+          </label>
+          <input
+            type="number"
+            id={`${idPrefix}-line-length`}
+            min={16}
+            max={80}
+            value={settings.maxLineLength}
+            onChange={(e) => update({ maxLineLength: toNumber(e.target.value, DEFAULT_SUBTITLE_OPTIONS.maxLineLength) })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+
+        <div>
+          <label htmlFor={`${idPrefix}-lines`} className="block text-xs text-gray-500 mb-1">
+            Lines per caption
+          </label>
+          <select
+            id={`${idPrefix}-lines`}
+            value={settings.maxLines}
+            onChange={(e) => update({ maxLines: Number(e.target.value) })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value={1}>1 line</option>
+            <option value={2}>2 lines</option>
+            <option value={3}>3 lines</option>
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor={`${idPrefix}-duration`} className="block text-xs text-gray-500 mb-1">
+            Max caption duration (seconds)
+          </label>
+          <input
+            type="number"
+            id={`${idPrefix}-duration`}
+            min={1}
+            max={15}
+            step={0.5}
+            value={settings.maxCueDuration}
+            onChange={(e) => update({ maxCueDuration: toNumber(e.target.value, DEFAULT_SUBTITLE_OPTIONS.maxCueDuration) })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center mt-3">
+        <input
+          type="checkbox"
+          id={`${idPrefix}-speakers`}
+          checked={settings.includeSpeakers}
+          onChange={(e) => update({ includeSpeakers: e.target.checked })}
+          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+        />
+        <label htmlFor={`${idPrefix}-speakers`} className="ml-3 text-sm text-gray-700">
+          🗣️ Speaker labels <span className="text-gray-500">(when the speaker changes)</span>
+        </label>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,340 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { LectureSession, ExportOptions } from '../../types';
+import type { ExportTemplate, TemplateSyntax } from '../../types/templates';
+import { templateService } from '../../services/templateService';
+import { TemplateEngine } from '../../utils/formatters/templateEngine';
+import { TemplateLanguage, TemplateError } from '../../utils/formatters/templateLanguage';
+import { Button } from '../ui/Button';
+
+interface TemplateManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  session?: LectureSession; // Previewed when given, otherwise a short sample lecture
+  initialTemplateId?: string;
+  onSaved?: (template: ExportTemplate) => void;
+}
+
+interface Draft {
+  id?: string;
+  name: string;
+  description: string;
+  syntax: TemplateSyntax;
+  body: string;
+}
+
+const SAMPLE_SESSION: LectureSession = {
+  id: 'sample',
+  name: 'ECON1001 Lecture 3: Elasticity 彈性',
+  startTime: Date.UTC(2024, 8, 12, 2, 30),
+  endTime: Date.UTC(2024, 8, 12, 3, 20),
+  duration: 3000,
+  wordCount: 42,
+  cost: 0.3,
+  language: 'mixed',
+  status: 'completed',
+  summary: 'Price elasticity of demand measures how strongly quantity demanded responds to price changes.',
+  keyTopics: ['Price elasticity of demand', '需求彈性', 'Total revenue test'],
+  segments: [
+    { id: '1', timestamp: 0, end: 12, text: 'Good morning everyone, today we look at elasticity.', speaker: 'Professor', language: 'en' },
+    { id: '2', timestamp: 12, end: 25, text: '需求彈性即係價格變動對需求量嘅影響。', speaker: 'Professor', language: 'zh' },
+    { id: '3', timestamp: 25, end: 31, text: 'Is that the same as the slope of the demand curve?', speaker: 'Student', language: 'en' },
+    { id: '4', timestamp: 31, end: 44, text: 'Not quite: elasticity uses percentage changes, so it has no units.', speaker: 'Professor', language: 'en' },
+  ],
+};
+
+const PREVIEW_OPTIONS: Omit<ExportOptions, 'format'> = {
+  includeTimestamps: true,
+  includeSummary: true,
+  includeMetadata: true,
+  language: 'both',
+  layout: 'professional',
+  includeBranding: true,
+  includeWatermark: false,
+};
+
+const EMPTY_DRAFT: Draft = {
+  name: '',
+  description: '',
+  syntax: 'markdown',
+  body: '# {{ title }}\n\n{% for segment in segments %}\n**[{{ segment.start | timestamp }}]** {{ segment.text }}\n\n{% endfor %}\n',
+};
+
+/**
+ * Create, edit and preview export templates. Built-in templates are read-only and can be duplicated.
+ */
+export const TemplateManager: React.FC<TemplateManagerProps> = ({
+  isOpen,
+  onClose,
+  session,
+  initialTemplateId,
+  onSaved
+}) => {
+  const [templates, setTemplates] = useState<ExportTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<string | undefined>(initialTemplateId);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showHelp, setShowHelp] = useState(false);
+
+  const selected = templates.find(template => template.id === selectedId);
+  const isReadOnly = !!selected?.builtIn;
+
+  const loadTemplates = async () => {
+    try {
+      setTemplates(await templateService.listTemplates());
+    } catch (err) {
+      console.error('Failed to load templates:', err);
+      setError('Could not load your templates.');
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      loadTemplates();
+      setSelectedId(initialTemplateId);
+    }
+  }, [isOpen, initialTemplateId]);
+
+  useEffect(() => {
+    if (selected) {
+      setDraft({
+        id: selected.id,
+        name: selected.name,
+        description: selected.description || '',
+        syntax: selected.syntax,
+        body: selected.body,
+      });
+    } else if (!selectedId) {
+      setDraft(EMPTY_DRAFT);
+    }
+    setIsDirty(false);
+    setError(null);
+  }, [selectedId, selected]);
+
+  // Re-rendered on every keystroke; the language is fast and output is capped
+  const preview = useMemo(() => {
+    const syntaxError = TemplateLanguage.validate(draft.body);
+    if (syntaxError) return { error: syntaxError.message, output: '' };
+
+    const previewSession = session || SAMPLE_SESSION;
+    try {
+      const output = TemplateEngine.renderTemplate(
+        { ...draft, id: draft.id || 'draft', createdAt: 0, updatedAt: 0 },
+        previewSession,
+        previewSession.segments,
+        { ...PREVIEW_OPTIONS, format: draft.syntax === 'html' ? 'gdocs' : 'md' }
+      );
+      return { error: null, output };
+    } catch (err) {
+      return { error: err instanceof TemplateError ? err.message : 'Template could not be rendered', output: '' };
+    }
+  }, [draft, session]);
+
+  const updateDraft = (patch: Partial<Draft>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setIsDirty(true);
+  };
+
+  const confirmDiscard = () => !isDirty || window.confirm('Discard unsaved changes to this template?');
+
+  const handleSelect = (id?: string) => {
+    if (id === selectedId || !confirmDiscard()) return;
+    setSelectedId(id);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await templateService.saveTemplate({
+        id: draft.id,
+        name: draft.name,
+        description: draft.description,
+        syntax: draft.syntax,
+        body: draft.body,
+      });
+      await loadTemplates();
+      setSelectedId(saved.id);
+      onSaved?.(saved);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Saving failed');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDuplicate = async () => {
+    if (!selectedId || !confirmDiscard()) return;
+    try {
+      const copy = await templateService.duplicateTemplate(selectedId);
+      await loadTemplates();
+      setSelectedId(copy.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Duplicating failed');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || selected.builtIn) return;
+    if (!window.confirm(`Delete the template "${selected.name}"?`)) return;
+    try {
+      await templateService.deleteTemplate(selected.id);
+      setSelectedId(undefined);
+      await loadTemplates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Deleting failed');
+    }
+  };
+
+  const handleClose = () => {
+    if (confirmDiscard()) onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-6xl w-full h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Export Templates</h2>
+            <p className="text-sm text-gray-500">HTML templates work for Google Docs and PDF; Markdown templates for Markdown, Notion and PDF.</p>
+          </div>
+          <button onClick={handleClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Template List */}
+          <div className="w-60 border-r border-gray-200 overflow-y-auto p-3 space-y-1">
+            <button
+              onClick={() => handleSelect(undefined)}
+              className={`w-full text-left px-3 py-2 rounded-md text-sm font-medium ${
+                !selectedId ? 'bg-blue-50 text-blue-700' : 'text-blue-600 hover:bg-gray-50'
+              }`}
+            >
+              ＋ New template
+            </button>
+            {templates.map(template => (
+              <button
+                key={template.id}
+                onClick={() => handleSelect(template.id)}
+                className={`w-full text-left px-3 py-2 rounded-md text-sm ${
+                  template.id === selectedId ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <div className="font-medium truncate">{template.name}</div>
+                <div className="text-xs text-gray-500">
+                  {template.syntax === 'html' ? 'HTML' : 'Markdown'}{template.builtIn ? ' · built-in' : ''}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 flex flex-col min-w-0 p-4 space-y-3 border-r border-gray-200">
+            <div className="grid grid-cols-3 gap-3">
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder="Template name"
+                disabled={isReadOnly}
+                className="col-span-2 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+              />
+              <select
+                value={draft.syntax}
+                onChange={(e) => updateDraft({ syntax: e.target.value as TemplateSyntax })}
+                disabled={isReadOnly}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+              >
+                <option value="markdown">Markdown</option>
+                <option value="html">HTML</option>
+              </select>
+            </div>
+            <input
+              type="text"
+              value={draft.description}
+              onChange={(e) => updateDraft({ description: e.target.value })}
+              placeholder="Description (optional)"
+              disabled={isReadOnly}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+            />
+            <textarea
+              value={draft.body}
+              onChange={(e) => updateDraft({ body: e.target.value })}
+              readOnly={isReadOnly}
+              spellCheck={false}
+              className="flex-1 min-h-0 px-3 py-2 border border-gray-300 rounded-md font-mono text-xs leading-5 resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+
+            {showHelp && (
+              <div className="text-xs text-gray-600 bg-gray-50 border border-gray-200 rounded-md p-3 space-y-1 max-h-40 overflow-y-auto">
+                <p><code>{'{{ title }}'}</code> prints a value (escaped in HTML templates). Values: title, date, exportDate, duration, wordCount, language, cost, summary, keyTopics, speakers, segments, options.*, branding.*</p>
+                <p><code>{'{% for segment in segments %}'}</code> … <code>{'{% else %}'}</code> … <code>{'{% endfor %}'}</code>, with segment.start, end, text, speaker, language, zh, en, index and loop.first / loop.last / loop.previous.</p>
+                <p><code>{"{% if segment.speaker == 'Professor' and segment.language != 'en' %}"}</code> … <code>{'{% elif … %}'}</code> … <code>{'{% else %}'}</code> … <code>{'{% endif %}'}</code></p>
+                <p>Filters: {TemplateLanguage.filters.map(filter => <code key={filter} className="mr-1">{filter}</code>)} e.g. <code>{'{{ segment.start | timestamp }}'}</code>, <code>{"{{ date | date: 'date' }}"}</code>, <code>{'{{ text | truncate: 80 }}'}</code></p>
+              </div>
+            )}
+
+            {error && (
+              <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md px-3 py-2">{error}</div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <button onClick={() => setShowHelp(!showHelp)} className="text-sm text-blue-600 hover:text-blue-800">
+                {showHelp ? 'Hide syntax help' : 'Syntax help'}
+              </button>
+              <div className="flex items-center gap-2">
+                {selected && !selected.builtIn && (
+                  <Button variant="ghost" size="sm" onClick={handleDelete}>Delete</Button>
+                )}
+                {selected && (
+                  <Button variant="outline" size="sm" onClick={handleDuplicate}>Duplicate</Button>
+                )}
+                {!isReadOnly && (
+                  <Button
+                    size="sm"
+                    onClick={handleSave}
+                    disabled={isSaving || !!preview.error || !draft.name.trim()}
+                    isLoading={isSaving}
+                  >
+                    Save Template
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="w-[40%] flex flex-col min-w-0 p-4">
+            <div className="text-sm font-medium text-gray-700 mb-2">
+              Preview {session ? '' : <span className="text-gray-400 font-normal">(sample lecture)</span>}
+            </div>
+            {preview.error ? (
+              <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md px-3 py-2 font-mono">{preview.error}</div>
+            ) : draft.syntax === 'html' ? (
+              <iframe
+                title="Template preview"
+                sandbox=""
+                srcDoc={preview.output}
+                className="flex-1 w-full border border-gray-200 rounded-md bg-white"
+              />
+            ) : (
+              <pre className="flex-1 overflow-auto text-xs leading-5 whitespace-pre-wrap bg-gray-50 border border-gray-200 rounded-md p-3">
+                {preview.output}
+              </pre>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateManager;
@@ -0,0 +1,111 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { ExportFormat, LectureSession } from '../../types';
+import type { ExportTemplate } from '../../types/templates';
+import { templateService } from '../../services/templateService';
+import { TemplateManager } from './TemplateManager';
+
+interface TemplatePickerProps {
+  format: ExportFormat;
+  value?: string;
+  onChange: (templateId: string | undefined) => void;
+  session?: LectureSession; // For the template editor's preview
+  idPrefix?: string;
+}
+
+/**
+ * Template choice for the HTML, PDF, Markdown and Notion exports, shared by the single and batch export modals
+ */
+export const TemplatePicker: React.FC<TemplatePickerProps> = ({
+  format,
+  value,
+  onChange,
+  session,
+  idPrefix = 'export'
+}) => {
+  const [templates, setTemplates] = useState<ExportTemplate[]>([]);
+  const [isManagerOpen, setIsManagerOpen] = useState(false);
+
+  const loadTemplates = async () => {
+    try {
+      const compatible = await templateService.listTemplates(format);
+      setTemplates(compatible);
+
+      // A Markdown template can't drive an HTML export and vice versa
+      if (value && !compatible.some(template => template.id === value)) {
+        onChange(undefined);
+      }
+    } catch (error) {
+      console.error('Failed to load export templates:', error);
+    }
+  };
+
+  // Reloads when the format changes, checking the selection current at that point
+  const loadTemplatesRef = useRef(loadTemplates);
+  loadTemplatesRef.current = loadTemplates;
+
+  useEffect(() => {
+    loadTemplatesRef.current();
+  }, [format]);
+
+  const selected = templates.find(template => template.id === value);
+
+  return (
+    <div>
+      <label htmlFor={`${idPrefix}-template`} className="block text-sm font-medium text-gray-700 mb-3">
+        Template
+      </label>
+      <div className="flex items-center gap-2">
+        <select
+          id={`${idPrefix}-template`}
+          value={value || ''}
+          onChange={(e) => onChange(e.target.value || undefined)}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">Standard layout</option>
+          {templates.some(template => template.builtIn) && (
+            <optgroup label="Built-in">
+              {templates.filter(template => template.builtIn).map(template => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </optgroup>
+          )}
+          {templates.some(template => !template.builtIn) && (
+            <optgroup label="My templates">
+              {templates.filter(template => !template.builtIn).map(template => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        <button
+          type="button"
+          onClick={() => setIsManagerOpen(true)}
+          className="px-3 py-2 text-sm text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50"
+        >
+          ✏️ Manage
+        </button>
+      </div>
+      {selected?.description && (
+        <p className="text-xs text-gray-500 mt-2">{selected.description}</p>
+      )}
+      {selected && format === 'pdf' && (
+        <p className="text-xs text-gray-500 mt-2">PDFs keep the template's headings, lists and paragraphs in the chosen layout's colours.</p>
+      )}
+      {selected && format === 'notion' && (
+        <p className="text-xs text-gray-500 mt-2">The template becomes the lecture's page; date, duration and tags stay database properties.</p>
+      )}
+
+      <TemplateManager
+        isOpen={isManagerOpen}
+        onClose={() => {
+          setIsManagerOpen(false);
+          loadTemplates();
+        }}
+        session={session}
+        initialTemplateId={value}
+      />
+    </div>
+  );
+};
+
+export default TemplatePicker;
@@ -5,6 +5,9 @@
 export { ExportModal } from './ExportModal';
 export { BatchExportModal } from './BatchExportModal';
 export { ExportProgressModal } from './ExportProgressModal';
+export { SubtitleOptionsFields } from './SubtitleOptionsFields';
+export { TemplatePicker } from './TemplatePicker';
+export { TemplateManager } from './TemplateManager';
 
 // Integration Components
 export {
@@ -19,19 +22,30 @@ export { default as ExportExample } from './ExportExample';
 
 // Services
 export { EnhancedExportService } from '../../services/enhancedExportService';
+export { templateService } from '../../services/templateService';
 
 // Formatters
 export { PDFFormatter } from '../../utils/formatters/pdfFormatter';
 export { DOCXFormatter } from '../../utils/formatters/docxFormatter';
 export { JSONFormatter } from '../../utils/formatters/jsonFormatter';
 export { TemplateEngine } from '../../utils/formatters/templateEngine';
+export { TemplateLanguage, TemplateError } from '../../utils/formatters/templateLanguage';
+export { SubtitleFormatter } from '../../utils/formatters/subtitleFormatter';
+export { AnkiFormatter } from '../../utils/formatters/ankiFormatter';
+export { NotionFormatter } from '../../utils/formatters/notionFormatter';
+export { GoogleDocsFormatter } from '../../utils/formatters/googleDocsFormatter';
+export { ImportValidator } from '../../utils/formatters/importValidator';
 
 // Types (re-export for convenience)
 export type {
   ExportOptions,
   ExportProgress,
-  BatchExportOptions
+  BatchExportOptions,
+  SubtitleFormat,
+  SubtitleOptions
 } from '../../types';
+export type { ExportTemplate, TemplateSyntax, TemplateContext } from '../../types/templates';
+export type { ImportTarget, ImportValidationResult } from '../../utils/formatters/importValidator';
 
 /*
 Usage Examples:
@@ -82,8 +96,11 @@ Export Formats Supported:
 - 📃 TXT (Plain text with formatting)
 - 📋 Markdown (Technical documentation)
 - 💾 JSON (Structured data, API format, JSONL)
-- 📚 Notion (Optimized for Notion import)
-- 📄 Google Docs (HTML format)
+- 📚 Notion (Markdown & CSV database ZIP with date, duration and tag properties)
+- 📄 Google Docs (HTML with headings, timestamp links and tables)
+- 📄 OpenDocument Text (ODT for Google Docs, Word and LibreOffice)
+- 💬 SRT / WebVTT / TTML captions (CJK-aware line breaking)
+- 🃏 Anki flashcards (concepts, review questions, cloze; linked to timestamps)
 - 📦 Batch ZIP (Multiple files archived)
 
 Features:
@@ -97,4 +114,5 @@ Features:
 - ✅ Error handling and recovery
 - ✅ Watermarking and branding options
 - ✅ Multiple layout templates
+- ✅ User-defined templates with loops, conditionals and filters
 */
\ No newline at end of file
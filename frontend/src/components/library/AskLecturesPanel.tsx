@@ -0,0 +1,233 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { LectureAnswer, LectureCitation } from '../../types/library';
+import { lectureQAService } from '../../services/lectureQAService';
+
+interface Theme {
+  primary: string;
+  secondary: string;
+  accent: string;
+  background: string;
+  surface: string;
+  text: string;
+  textSecondary: string;
+  border: string;
+  hover: string;
+  shadow: string;
+}
+
+interface AskLecturesPanelProps {
+  theme: Theme;
+  onOpenCitation: (citation: LectureCitation) => void;
+  onClose: () => void;
+}
+
+const AskLecturesPanel: React.FC<AskLecturesPanelProps> = ({
+  theme,
+  onOpenCitation,
+  onClose
+}) => {
+  const [question, setQuestion] = useState('');
+  const [answer, setAnswer] = useState<LectureAnswer | null>(null);
+  const [isAsking, setIsAsking] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop embedding when the panel closes mid-question
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const formatTime = (seconds: number): string => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const secs = Math.floor(seconds % 60);
+
+    if (hours > 0) {
+      return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+    }
+    return `${minutes}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  const handleAsk = async () => {
+    if (!question.trim() || isAsking) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setIsAsking(true);
+    setError(null);
+    setProgress(null);
+
+    try {
+      const result = await lectureQAService.ask(question, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress(total > 0 ? { done, total } : null)
+      });
+      setAnswer(result);
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      console.error('Failed to answer question:', err);
+      setError(err instanceof Error ? err.message : 'Could not search your lectures. Please try again.');
+    } finally {
+      if (abortRef.current === controller) {
+        setIsAsking(false);
+        setProgress(null);
+      }
+    }
+  };
+
+  // "[2]" markers in the answer open the cited passage
+  const renderAnswer = (result: LectureAnswer): React.ReactNode =>
+    result.answer.split('\n').map((line, lineIndex) => (
+      <p key={lineIndex} className="mb-2">
+        {line.split(/(\[\d+\])/).map((part, partIndex) => {
+          const marker = part.match(/^\[(\d+)\]$/);
+          const citation = marker && result.citations.find(c => c.number === Number(marker[1]));
+          if (!citation) return part;
+
+          return (
+            <button
+              key={partIndex}
+              onClick={() => onOpenCitation(citation)}
+              className="text-xs font-medium align-super hover:underline"
+              style={{ color: theme.accent }}
+              title={citation.recordingTitle}
+            >
+              [{citation.number}]
+            </button>
+          );
+        })}
+      </p>
+    ));
+
+  return (
+    <div
+      className="w-96 border-l flex flex-col h-full"
+      style={{
+        backgroundColor: theme.surface,
+        borderColor: theme.border
+      }}
+    >
+      {/* Header */}
+      <div
+        className="px-4 py-3 border-b flex items-center justify-between"
+        style={{ borderColor: theme.border }}
+      >
+        <h3 className="font-medium" style={{ color: theme.text }}>
+          Ask your lectures
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1 rounded hover:bg-opacity-60 transition-colors"
+          style={{
+            color: theme.textSecondary,
+            backgroundColor: theme.hover
+          }}
+        >
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <line x1="18" y1="6" x2="6" y2="18"/>
+            <line x1="6" y1="6" x2="18" y2="18"/>
+          </svg>
+        </button>
+      </div>
+
+      {/* Question */}
+      <div className="p-4 border-b" style={{ borderColor: theme.border }}>
+        <textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleAsk();
+            }
+          }}
+          placeholder="Where did the professor explain the Black-Scholes assumptions?"
+          rows={3}
+          className="w-full px-3 py-2 text-sm rounded border resize-none focus:outline-none focus:ring-2"
+          style={{
+            backgroundColor: theme.background,
+            borderColor: theme.border,
+            color: theme.text
+          }}
+        />
+        <div className="mt-2 flex items-center justify-between">
+          <span className="text-xs" style={{ color: theme.textSecondary }}>
+            {progress
+              ? `Indexing recordings ${progress.done}/${progress.total}...`
+              : isAsking ? 'Searching...' : 'Answers quote your lectures'}
+          </span>
+          <button
+            onClick={handleAsk}
+            disabled={isAsking || !question.trim()}
+            className="px-3 py-1.5 rounded-md text-sm font-medium disabled:opacity-50"
+            style={{
+              backgroundColor: theme.accent,
+              color: '#ffffff'
+            }}
+          >
+            Ask
+          </button>
+        </div>
+      </div>
+
+      {/* Answer and citations */}
+      <div className="flex-1 overflow-y-auto p-4">
+        {error && (
+          <div
+            className="mb-4 px-3 py-2 rounded text-sm"
+            style={{ backgroundColor: '#ef444415', color: '#ef4444' }}
+          >
+            {error}
+          </div>
+        )}
+
+        {answer && (
+          <>
+            <div className="text-sm leading-relaxed mb-4" style={{ color: theme.text }}>
+              {renderAnswer(answer)}
+            </div>
+
+            {answer.citations.length > 0 && (
+              <h4 className="text-xs font-medium uppercase tracking-wide mb-2" style={{ color: theme.textSecondary }}>
+                Sources
+              </h4>
+            )}
+            <div className="space-y-2">
+              {answer.citations.map(citation => (
+                <button
+                  key={citation.chunk.id}
+                  onClick={() => onOpenCitation(citation)}
+                  className="w-full text-left p-3 rounded border transition-colors hover:shadow-sm"
+                  style={{
+                    backgroundColor: theme.background,
+                    borderColor: theme.border
+                  }}
+                >
+                  <div className="flex items-center justify-between gap-2 mb-1 text-xs">
+                    <span className="font-medium truncate" style={{ color: theme.text }}>
+                      [{citation.number}] {citation.recordingTitle}
+                    </span>
+                    <span className="flex-shrink-0" style={{ color: theme.accent }}>
+                      {citation.chunk.source === 'slides'
+                        ? 'Slides'
+                        : citation.chunk.start !== undefined ? formatTime(citation.chunk.start) : 'Transcript'}
+                    </span>
+                  </div>
+                  <div className="text-xs mb-1" style={{ color: theme.textSecondary }}>
+                    {new Date(citation.dateCreated).toLocaleDateString()}
+                  </div>
+                  <p className="text-xs leading-relaxed line-clamp-3" style={{ color: theme.textSecondary }}>
+                    {citation.chunk.text}
+                  </p>
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AskLecturesPanel;
@@ -0,0 +1,145 @@
+import React, { useMemo } from 'react';
+import type { RecordingEntry, Course, Term } from '../../types/library';
+import { courseProgress, formatSchedule } from '../../utils/courseSchedule';
+
+interface Theme {
+  primary: string;
+  secondary: string;
+  accent: string;
+  background: string;
+  surface: string;
+  text: string;
+  textSecondary: string;
+  border: string;
+  hover: string;
+  shadow: string;
+}
+
+interface CourseBarProps {
+  theme: Theme;
+  courses: Course[];
+  terms: Term[];
+  recordings: RecordingEntry[];
+  selectedCourseId?: string;
+  onSelectCourse: (courseId: string | undefined) => void;
+  onManageCourses: () => void;
+}
+
+const CourseBar: React.FC<CourseBarProps> = ({
+  theme,
+  courses,
+  terms,
+  recordings,
+  selectedCourseId,
+  onSelectCourse,
+  onManageCourses
+}) => {
+  const selectedCourse = courses.find(course => course.id === selectedCourseId);
+  const selectedTerm = selectedCourse?.termId ? terms.find(term => term.id === selectedCourse.termId) : undefined;
+
+  const progress = useMemo(() => {
+    if (!selectedCourse) return null;
+    const lectures = recordings.filter(recording => recording.courseId === selectedCourse.id);
+    return courseProgress(selectedCourse, selectedTerm, lectures);
+  }, [selectedCourse, selectedTerm, recordings]);
+
+  const chipStyle = (active: boolean, color: string): React.CSSProperties => ({
+    backgroundColor: active ? color + '20' : 'transparent',
+    borderColor: active ? color : theme.border,
+    color: active ? color : theme.textSecondary
+  });
+
+  return (
+    <div className="px-6 py-3 border-b" style={{ borderColor: theme.border, backgroundColor: theme.surface }}>
+      {/* Course selector */}
+      <div className="flex items-center gap-2 overflow-x-auto">
+        <button
+          onClick={() => onSelectCourse(undefined)}
+          className="px-3 py-1 rounded-full border text-xs font-medium whitespace-nowrap transition-colors"
+          style={chipStyle(!selectedCourseId, theme.accent)}
+        >
+          All recordings
+        </button>
+        {courses.map(course => (
+          <button
+            key={course.id}
+            onClick={() => onSelectCourse(course.id)}
+            className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full border text-xs font-medium whitespace-nowrap transition-colors"
+            style={chipStyle(course.id === selectedCourseId, course.color)}
+            title={course.name}
+          >
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: course.color }} />
+            {course.code}
+          </button>
+        ))}
+        <button
+          onClick={onManageCourses}
+          className="px-3 py-1 rounded-full text-xs font-medium whitespace-nowrap hover:underline"
+          style={{ color: theme.accent }}
+        >
+          {courses.length === 0 ? '+ Add a course' : 'Manage courses'}
+        </button>
+      </div>
+
+      {/* Course dashboard */}
+      {selectedCourse && progress && (
+        <div className="mt-3 flex flex-wrap items-start gap-6">
+          <div>
+            <div className="text-sm font-medium" style={{ color: theme.text }}>
+              {selectedCourse.code} · {selectedCourse.name}
+            </div>
+            <div className="text-xs" style={{ color: theme.textSecondary }}>
+              {[selectedCourse.instructor, selectedTerm?.name, formatSchedule(selectedCourse.schedule)]
+                .filter(Boolean)
+                .join(' · ')}
+            </div>
+          </div>
+
+          <div className="flex gap-6 text-xs" style={{ color: theme.textSecondary }}>
+            <div>
+              <div className="text-lg font-semibold" style={{ color: theme.text }}>{progress.lectureCount}</div>
+              lectures
+            </div>
+            <div>
+              <div className="text-lg font-semibold" style={{ color: theme.text }}>{progress.totalHours.toFixed(1)}</div>
+              hours
+            </div>
+            {progress.scheduledMeetings > 0 && (
+              <div>
+                <div className="text-lg font-semibold" style={{ color: selectedCourse.color }}>
+                  {Math.round(progress.coverage * 100)}%
+                </div>
+                {progress.recordedMeetings}/{progress.scheduledMeetings} meetings
+              </div>
+            )}
+          </div>
+
+          {progress.missingWeeks.length > 0 && (
+            <div className="text-xs" style={{ color: theme.textSecondary }}>
+              <div className="mb-1">Missing weeks</div>
+              <div className="flex flex-wrap gap-1">
+                {progress.missingWeeks.map(week => (
+                  <span
+                    key={week}
+                    className="px-1.5 py-0.5 rounded"
+                    style={{ backgroundColor: '#ef444415', color: '#ef4444' }}
+                  >
+                    W{week}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {!selectedTerm && (
+            <div className="text-xs self-center" style={{ color: theme.textSecondary }}>
+              Add this course to a term to track coverage
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CourseBar;
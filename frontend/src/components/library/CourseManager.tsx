@@ -0,0 +1,486 @@
+import React, { useState, useEffect } from 'react';
+import type { Course, CourseMeeting, Term } from '../../types/library';
+import { libraryStorage } from '../../utils/libraryStorage';
+import { WEEKDAY_LABELS, formatSchedule } from '../../utils/courseSchedule';
+
+interface Theme {
+  primary: string;
+  secondary: string;
+  accent: string;
+  background: string;
+  surface: string;
+  text: string;
+  textSecondary: string;
+  border: string;
+  hover: string;
+  shadow: string;
+}
+
+interface CourseManagerProps {
+  theme: Theme;
+  courses: Course[];
+  terms: Term[];
+  onChange: () => void;
+  onClose: () => void;
+}
+
+const COURSE_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316'];
+
+type CourseDraft = Omit<Course, 'id' | 'createdAt'> & { id?: string };
+type TermDraft = { id?: string; name: string; startDate: string; endDate: string; breakWeeks: string };
+
+const emptyMeeting = (): CourseMeeting => ({ dayOfWeek: 1, startTime: '09:00', endTime: '10:30' });
+
+// <input type="date"> values are local calendar days
+const toDateInput = (time: number): string => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const fromDateInput = (value: string): number => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+};
+
+const CourseManager: React.FC<CourseManagerProps> = ({
+  theme,
+  courses,
+  terms,
+  onChange,
+  onClose
+}) => {
+  const [courseDraft, setCourseDraft] = useState<CourseDraft | null>(null);
+  const [termDraft, setTermDraft] = useState<TermDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const inputStyle: React.CSSProperties = {
+    backgroundColor: theme.surface,
+    borderColor: theme.border,
+    color: theme.text
+  };
+  const inputClass = 'px-2 py-1.5 text-sm rounded border focus:outline-none focus:ring-2';
+
+  const newCourse = () => setCourseDraft({
+    code: '',
+    name: '',
+    instructor: '',
+    termId: terms[0]?.id,
+    schedule: [emptyMeeting()],
+    color: COURSE_COLORS[courses.length % COURSE_COLORS.length]
+  });
+
+  const newTerm = () => {
+    const start = new Date();
+    setTermDraft({
+      name: '',
+      startDate: toDateInput(start.getTime()),
+      endDate: toDateInput(new Date(start.getFullYear(), start.getMonth() + 4, start.getDate()).getTime()),
+      breakWeeks: ''
+    });
+  };
+
+  const updateMeeting = (index: number, updates: Partial<CourseMeeting>) => {
+    if (!courseDraft) return;
+    setCourseDraft({
+      ...courseDraft,
+      schedule: courseDraft.schedule.map((meeting, i) => (i === index ? { ...meeting, ...updates } : meeting))
+    });
+  };
+
+  const handleSaveCourse = async () => {
+    if (!courseDraft) return;
+    if (!courseDraft.code.trim() || !courseDraft.name.trim()) {
+      setError('A course needs a code and a name.');
+      return;
+    }
+    if (courseDraft.schedule.some(meeting => meeting.startTime >= meeting.endTime)) {
+      setError('Each meeting has to end after it starts.');
+      return;
+    }
+
+    const { id, ...fields } = courseDraft;
+    const cleaned = {
+      ...fields,
+      code: fields.code.trim(),
+      name: fields.name.trim(),
+      instructor: fields.instructor?.trim() || undefined,
+      termId: fields.termId || undefined
+    };
+    const existing = courses.find(course => course.id === id);
+
+    try {
+      await libraryStorage.saveCourse(existing ? { ...existing, ...cleaned } : libraryStorage.createCourse(cleaned));
+      setCourseDraft(null);
+      setError(null);
+      onChange();
+    } catch (err) {
+      console.error('Failed to save course:', err);
+      setError('Could not save the course. Please try again.');
+    }
+  };
+
+  const handleSaveTerm = async () => {
+    if (!termDraft) return;
+    if (!termDraft.name.trim() || !termDraft.startDate || !termDraft.endDate) {
+      setError('A term needs a name, a first day and a last day.');
+      return;
+    }
+
+    const fields = {
+      name: termDraft.name.trim(),
+      startDate: fromDateInput(termDraft.startDate),
+      endDate: fromDateInput(termDraft.endDate),
+      breakWeeks: termDraft.breakWeeks
+        .split(',')
+        .map(week => parseInt(week.trim(), 10))
+        .filter(week => week > 0)
+    };
+    if (fields.endDate < fields.startDate) {
+      setError('The term has to end after it starts.');
+      return;
+    }
+
+    try {
+      await libraryStorage.saveTerm(termDraft.id ? { id: termDraft.id, ...fields } : libraryStorage.createTerm(fields));
+      setTermDraft(null);
+      setError(null);
+      onChange();
+    } catch (err) {
+      console.error('Failed to save term:', err);
+      setError('Could not save the term. Please try again.');
+    }
+  };
+
+  const handleDeleteCourse = async (course: Course) => {
+    if (!window.confirm(`Delete ${course.code}? Its recordings stay in your library.`)) return;
+    try {
+      await libraryStorage.deleteCourse(course.id);
+      onChange();
+    } catch (err) {
+      console.error('Failed to delete course:', err);
+    }
+  };
+
+  const handleDeleteTerm = async (term: Term) => {
+    if (!window.confirm(`Delete ${term.name}? Its courses are kept.`)) return;
+    try {
+      await libraryStorage.deleteTerm(term.id);
+      onChange();
+    } catch (err) {
+      console.error('Failed to delete term:', err);
+    }
+  };
+
+  const sectionTitle = (title: string, onAdd: () => void) => (
+    <div className="flex items-center justify-between mb-3">
+      <h3 className="text-sm font-medium" style={{ color: theme.text }}>{title}</h3>
+      <button onClick={onAdd} className="text-xs font-medium hover:underline" style={{ color: theme.accent }}>
+        + Add
+      </button>
+    </div>
+  );
+
+  const formButtons = (onSave: () => void, onCancel: () => void) => (
+    <div className="flex justify-end gap-2">
+      <button
+        onClick={onCancel}
+        className="px-3 py-1.5 text-sm rounded"
+        style={{ backgroundColor: theme.hover, color: theme.text }}
+      >
+        Cancel
+      </button>
+      <button
+        onClick={onSave}
+        className="px-3 py-1.5 text-sm rounded font-medium"
+        style={{ backgroundColor: theme.accent, color: 'white' }}
+      >
+        Save
+      </button>
+    </div>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div
+        className="w-full max-w-2xl max-h-screen overflow-y-auto rounded-lg shadow-2xl"
+        style={{
+          backgroundColor: theme.background,
+          border: `1px solid ${theme.border}`
+        }}
+      >
+        {/* Header */}
+        <div
+          className="px-6 py-4 border-b flex items-center justify-between"
+          style={{ borderColor: theme.border }}
+        >
+          <h2 className="text-lg font-semibold" style={{ color: theme.text }}>
+            Courses and terms
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-opacity-60 transition-colors"
+            style={{ color: theme.textSecondary, backgroundColor: theme.hover }}
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-8">
+          {error && (
+            <div className="px-3 py-2 rounded text-sm" style={{ backgroundColor: '#ef444415', color: '#ef4444' }}>
+              {error}
+            </div>
+          )}
+
+          {/* Terms */}
+          <div>
+            {sectionTitle('📅 Terms', newTerm)}
+            <div className="space-y-2">
+              {terms.map(term => (
+                <div
+                  key={term.id}
+                  className="flex items-center justify-between px-3 py-2 rounded border text-sm"
+                  style={{ borderColor: theme.border, color: theme.text }}
+                >
+                  <span>
+                    {term.name}
+                    <span className="ml-2 text-xs" style={{ color: theme.textSecondary }}>
+                      {new Date(term.startDate).toLocaleDateString()} - {new Date(term.endDate).toLocaleDateString()}
+                    </span>
+                  </span>
+                  <span className="flex gap-3 text-xs">
+                    <button
+                      onClick={() => setTermDraft({
+                        id: term.id,
+                        name: term.name,
+                        startDate: toDateInput(term.startDate),
+                        endDate: toDateInput(term.endDate),
+                        breakWeeks: (term.breakWeeks || []).join(', ')
+                      })}
+                      style={{ color: theme.accent }}
+                    >
+                      Edit
+                    </button>
+                    <button onClick={() => handleDeleteTerm(term)} className="text-red-500">Delete</button>
+                  </span>
+                </div>
+              ))}
+              {terms.length === 0 && !termDraft && (
+                <p className="text-xs" style={{ color: theme.textSecondary }}>
+                  Add your semester to track which weeks you recorded.
+                </p>
+              )}
+            </div>
+
+            {termDraft && (
+              <div className="mt-3 p-3 rounded border space-y-3" style={{ borderColor: theme.border }}>
+                <input
+                  type="text"
+                  placeholder="Fall 2026"
+                  value={termDraft.name}
+                  onChange={(e) => setTermDraft({ ...termDraft, name: e.target.value })}
+                  className={`w-full ${inputClass}`}
+                  style={inputStyle}
+                />
+                <div className="flex gap-2 items-center text-xs" style={{ color: theme.textSecondary }}>
+                  <input
+                    type="date"
+                    value={termDraft.startDate}
+                    onChange={(e) => setTermDraft({ ...termDraft, startDate: e.target.value })}
+                    className={inputClass}
+                    style={inputStyle}
+                  />
+                  to
+                  <input
+                    type="date"
+                    value={termDraft.endDate}
+                    onChange={(e) => setTermDraft({ ...termDraft, endDate: e.target.value })}
+                    className={inputClass}
+                    style={inputStyle}
+                  />
+                </div>
+                <input
+                  type="text"
+                  placeholder="Break weeks, e.g. 7, 8"
+                  value={termDraft.breakWeeks}
+                  onChange={(e) => setTermDraft({ ...termDraft, breakWeeks: e.target.value })}
+                  className={`w-full ${inputClass}`}
+                  style={inputStyle}
+                />
+                {formButtons(handleSaveTerm, () => setTermDraft(null))}
+              </div>
+            )}
+          </div>
+
+          {/* Courses */}
+          <div>
+            {sectionTitle('🎓 Courses', newCourse)}
+            <div className="space-y-2">
+              {courses.map(course => (
+                <div
+                  key={course.id}
+                  className="flex items-center justify-between px-3 py-2 rounded border text-sm"
+                  style={{ borderColor: theme.border, color: theme.text }}
+                >
+                  <span className="flex items-center gap-2 min-w-0">
+                    <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: course.color }} />
+                    <span className="font-medium">{course.code}</span>
+                    <span className="truncate">{course.name}</span>
+                    <span className="text-xs truncate" style={{ color: theme.textSecondary }}>
+                      {formatSchedule(course.schedule)}
+                    </span>
+                  </span>
+                  <span className="flex gap-3 text-xs flex-shrink-0">
+                    <button onClick={() => setCourseDraft({ ...course })} style={{ color: theme.accent }}>Edit</button>
+                    <button onClick={() => handleDeleteCourse(course)} className="text-red-500">Delete</button>
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {courseDraft && (
+              <div className="mt-3 p-3 rounded border space-y-3" style={{ borderColor: theme.border }}>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    placeholder="FINA 3080"
+                    value={courseDraft.code}
+                    onChange={(e) => setCourseDraft({ ...courseDraft, code: e.target.value })}
+                    className={`w-32 ${inputClass}`}
+                    style={inputStyle}
+                  />
+                  <input
+                    type="text"
+                    placeholder="Options and Futures"
+                    value={courseDraft.name}
+                    onChange={(e) => setCourseDraft({ ...courseDraft, name: e.target.value })}
+                    className={`flex-1 ${inputClass}`}
+                    style={inputStyle}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    placeholder="Instructor"
+                    value={courseDraft.instructor || ''}
+                    onChange={(e) => setCourseDraft({ ...courseDraft, instructor: e.target.value })}
+                    className={`flex-1 ${inputClass}`}
+                    style={inputStyle}
+                  />
+                  <select
+                    value={courseDraft.termId || ''}
+                    onChange={(e) => setCourseDraft({ ...courseDraft, termId: e.target.value || undefined })}
+                    className={inputClass}
+                    style={inputStyle}
+                  >
+                    <option value="">No term</option>
+                    {terms.map(term => (
+                      <option key={term.id} value={term.id}>{term.name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Colour */}
+                <div className="flex gap-2">
+                  {COURSE_COLORS.map(color => (
+                    <button
+                      key={color}
+                      onClick={() => setCourseDraft({ ...courseDraft, color })}
+                      className="w-6 h-6 rounded-full border-2"
+                      style={{
+                        backgroundColor: color,
+                        borderColor: courseDraft.color === color ? theme.text : 'transparent'
+                      }}
+                      title={color}
+                    />
+                  ))}
+                </div>
+
+                {/* Timetable */}
+                <div className="space-y-2">
+                  {courseDraft.schedule.map((meeting, index) => (
+                    <div key={index} className="flex gap-2 items-center">
+                      <select
+                        value={meeting.dayOfWeek}
+                        onChange={(e) => updateMeeting(index, { dayOfWeek: Number(e.target.value) })}
+                        className={inputClass}
+                        style={inputStyle}
+                      >
+                        {WEEKDAY_LABELS.map((label, day) => (
+                          <option key={day} value={day}>{label}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="time"
+                        value={meeting.startTime}
+                        onChange={(e) => updateMeeting(index, { startTime: e.target.value })}
+                        className={inputClass}
+                        style={inputStyle}
+                      />
+                      <input
+                        type="time"
+                        value={meeting.endTime}
+                        onChange={(e) => updateMeeting(index, { endTime: e.target.value })}
+                        className={inputClass}
+                        style={inputStyle}
+                      />
+                      <input
+                        type="text"
+                        placeholder="Room"
+                        value={meeting.location || ''}
+                        onChange={(e) => updateMeeting(index, { location: e.target.value || undefined })}
+                        className={`flex-1 min-w-0 ${inputClass}`}
+                        style={inputStyle}
+                      />
+                      <button
+                        onClick={() => setCourseDraft({
+                          ...courseDraft,
+                          schedule: courseDraft.schedule.filter((_, i) => i !== index)
+                        })}
+                        className="text-xs text-red-500"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => setCourseDraft({ ...courseDraft, schedule: [...courseDraft.schedule, emptyMeeting()] })}
+                    className="text-xs font-medium hover:underline"
+                    style={{ color: theme.accent }}
+                  >
+                    + Add meeting
+                  </button>
+                </div>
+
+                {formButtons(handleSaveCourse, () => setCourseDraft(null))}
+              </div>
+            )}
+
+            <p className="mt-3 text-xs" style={{ color: theme.textSecondary }}>
+              New recordings made during a meeting, or with slides named after the course, are filed automatically.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CourseManager;
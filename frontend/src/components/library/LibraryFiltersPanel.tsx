@@ -75,7 +75,9 @@ const LibraryFiltersPanel: React.FC<LibraryFiltersPanelProps> = ({
       minDuration: undefined,
       maxDuration: undefined,
       showArchived: false,
-      showFavorites: false
+      showFavorites: false,
+      // "Best match" has nothing to rank once the search is cleared
+      ...(filters.sortBy === 'relevance' ? { sortBy: 'dateCreated' as const, sortOrder: 'desc' as const } : {})
     });
   };
 
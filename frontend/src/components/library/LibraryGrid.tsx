@@ -1,5 +1,5 @@
 import React from 'react';
-import type { RecordingEntry } from '../../types/library';
+import type { RecordingEntry, SearchSnippet, Course } from '../../types/library';
 import RecordingCard from './RecordingCard';
 
 interface Theme {
@@ -21,6 +21,9 @@ interface LibraryGridProps {
   onRecordingAction: (action: string, recording: RecordingEntry) => void;
   onAddTag: (recordingId: string, tag: string) => void;
   onRemoveTag: (recordingId: string, tag: string) => void;
+  snippets?: Record<string, SearchSnippet>;
+  onJumpTo?: (recording: RecordingEntry, seconds: number) => void;
+  courses?: Course[];
 }
 
 const LibraryGrid: React.FC<LibraryGridProps> = ({
@@ -28,8 +31,13 @@ const LibraryGrid: React.FC<LibraryGridProps> = ({
   recordings,
   onRecordingAction,
   onAddTag,
-  onRemoveTag
+  onRemoveTag,
+  snippets,
+  onJumpTo,
+  courses = []
 }) => {
+  const coursesById = new Map(courses.map(course => [course.id, course]));
+
   return (
     <div className="p-6">
       <div className="grid gap-4 grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-4">
@@ -41,6 +49,9 @@ const LibraryGrid: React.FC<LibraryGridProps> = ({
             onAction={onRecordingAction}
             onAddTag={onAddTag}
             onRemoveTag={onRemoveTag}
+            snippet={snippets?.[recording.id]}
+            onJumpTo={onJumpTo}
+            course={recording.courseId ? coursesById.get(recording.courseId) : undefined}
           />
         ))}
       </div>
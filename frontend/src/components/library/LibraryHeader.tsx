@@ -21,6 +21,8 @@ interface LibraryHeaderProps {
   onFilterChange: (filters: Partial<LibraryFilters>) => void;
   onToggleFilters: () => void;
   showFilters: boolean;
+  onToggleAsk?: () => void;
+  showAsk?: boolean;
   recordingsCount: number;
   totalRecordings: number;
 }
@@ -32,6 +34,8 @@ const LibraryHeader: React.FC<LibraryHeaderProps> = ({
   onFilterChange,
   onToggleFilters,
   showFilters,
+  onToggleAsk,
+  showAsk = false,
   recordingsCount,
   totalRecordings
 }) => {
@@ -113,6 +117,27 @@ const LibraryHeader: React.FC<LibraryHeaderProps> = ({
             </svg>
             Filters
           </button>
+
+          {/* Ask your lectures */}
+          {onToggleAsk && (
+            <button
+              onClick={onToggleAsk}
+              className={`
+                px-3 py-2 rounded-md text-sm font-medium transition-all duration-200
+                flex items-center gap-2
+              `}
+              style={{
+                backgroundColor: showAsk ? theme.accent + '15' : theme.surface,
+                color: showAsk ? theme.accent : theme.text,
+                border: `1px solid ${showAsk ? theme.accent + '30' : theme.border}`
+              }}
+            >
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"/>
+              </svg>
+              Ask
+            </button>
+          )}
         </div>
       </div>
 
@@ -136,9 +161,19 @@ const LibraryHeader: React.FC<LibraryHeaderProps> = ({
           </div>
           <input
             type="text"
-            placeholder="Search recordings, transcripts, topics..."
+            placeholder='Search transcripts, "exact phrases", tag:, before:2026-03, has:pdf...'
             value={filters.search}
-            onChange={(e) => onFilterChange({ search: e.target.value })}
+            onChange={(e) => {
+              const search = e.target.value;
+              // Rank matches while searching, and go back to newest first once the box is cleared
+              if (search.trim() && !filters.search.trim() && filters.sortBy === 'dateCreated' && filters.sortOrder === 'desc') {
+                onFilterChange({ search, sortBy: 'relevance' });
+              } else if (!search.trim() && filters.sortBy === 'relevance') {
+                onFilterChange({ search, sortBy: 'dateCreated', sortOrder: 'desc' });
+              } else {
+                onFilterChange({ search });
+              }
+            }}
             className="w-full pl-10 pr-4 py-2 rounded-md text-sm transition-all duration-200 border focus:outline-none focus:ring-2"
             style={{
               backgroundColor: theme.surface,
@@ -163,6 +198,8 @@ const LibraryHeader: React.FC<LibraryHeaderProps> = ({
             color: theme.text
           }}
         >
+          {filters.search.trim() && <option value="relevance-desc">Best match</option>}
+          {filters.courseId && <option value="lectureNumber-asc">Lecture order</option>}
           <option value="dateCreated-desc">Newest first</option>
           <option value="dateCreated-asc">Oldest first</option>
           <option value="duration-desc">Longest first</option>
@@ -1,8 +1,14 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import type { RecordingEntry, LibraryFilters, LibraryStats } from '../../types/library';
+import type { RecordingEntry, LibraryFilters, LibraryStats, SearchSnippet, LectureCitation, Course, Term } from '../../types/library';
 import { libraryStorage } from '../../utils/libraryStorage';
+import { buildPath, navigate } from '../../hooks/useRouter';
+import { backgroundTranscription } from '../../services/backgroundTranscription';
+import { flashcardExportService } from '../../services/flashcardExportService';
 import LibraryHeader from './LibraryHeader';
 import LibraryFiltersPanel from './LibraryFiltersPanel';
+import AskLecturesPanel from './AskLecturesPanel';
+import CourseBar from './CourseBar';
+import CourseManager from './CourseManager';
 import LibraryGrid from './LibraryGrid';
 import RecordingModal from './RecordingModal';
 
@@ -22,6 +28,11 @@ interface Theme {
 interface LibraryViewProps {
   theme: Theme;
   onExportRecording?: (recording: RecordingEntry) => void;
+  // Deep link support: the open recording is driven by the URL when provided
+  selectedRecordingId?: string | null;
+  onSelectRecording?: (recordingId: string | null) => void;
+  // Study sessions reopen in the split-screen viewer with their slides
+  onOpenInStudy?: (transcriptId: string) => void;
 }
 
 const defaultFilters: LibraryFilters = {
@@ -34,21 +45,57 @@ const defaultFilters: LibraryFilters = {
   showFavorites: false
 };
 
-const LibraryView: React.FC<LibraryViewProps> = ({ theme, onExportRecording }) => {
+const LibraryView: React.FC<LibraryViewProps> = ({
+  theme,
+  onExportRecording,
+  selectedRecordingId,
+  onSelectRecording,
+  onOpenInStudy
+}) => {
   const [recordings, setRecordings] = useState<RecordingEntry[]>([]);
   const [filteredRecordings, setFilteredRecordings] = useState<RecordingEntry[]>([]);
+  const [snippets, setSnippets] = useState<Record<string, SearchSnippet>>({});
   const [filters, setFilters] = useState<LibraryFilters>(defaultFilters);
   const [stats, setStats] = useState<LibraryStats | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedRecording, setSelectedRecording] = useState<RecordingEntry | null>(null);
   const [showFilters, setShowFilters] = useState(false);
+  const [showAsk, setShowAsk] = useState(false);
+  const [modalStartTime, setModalStartTime] = useState<number | undefined>(undefined);
   const [availableTags, setAvailableTags] = useState<string[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [terms, setTerms] = useState<Term[]>([]);
+  const [showCourseManager, setShowCourseManager] = useState(false);
 
   // Load data on mount
   useEffect(() => {
     loadLibraryData();
   }, []);
 
+  // Background transcription finished or changed state: swap the card in place, no reload
+  useEffect(() => {
+    return backgroundTranscription.subscribe(updated => {
+      setRecordings(prev => prev.some(r => r.id === updated.id)
+        ? prev.map(r => (r.id === updated.id ? updated : r))
+        : [updated, ...prev]);
+      setSelectedRecording(prev => (prev && prev.id === updated.id ? updated : prev));
+    });
+  }, []);
+
+  // Open the recording named by the route (e.g. /library/:recordingId)
+  useEffect(() => {
+    if (selectedRecordingId === undefined) return;
+
+    if (!selectedRecordingId) {
+      setSelectedRecording(null);
+      return;
+    }
+
+    libraryStorage.getRecording(selectedRecordingId)
+      .then(recording => setSelectedRecording(recording || null))
+      .catch(error => console.error('Failed to open recording:', error));
+  }, [selectedRecordingId]);
+
   // Apply filters when they change
   useEffect(() => {
     applyFilters();
@@ -57,15 +104,24 @@ const LibraryView: React.FC<LibraryViewProps> = ({ theme, onExportRecording }) =
   const loadLibraryData = async () => {
     try {
       setIsLoading(true);
-      const [recordingsData, statsData, tagsData] = await Promise.all([
+      const [recordingsData, statsData, tagsData, coursesData, termsData] = await Promise.all([
         libraryStorage.getAllRecordings(),
         libraryStorage.getLibraryStats(),
-        libraryStorage.getAllTags()
+        libraryStorage.getAllTags(),
+        libraryStorage.getCourses(),
+        libraryStorage.getTerms()
       ]);
 
       setRecordings(recordingsData);
       setStats(statsData);
       setAvailableTags(tagsData);
+      setCourses(coursesData);
+      setTerms(termsData);
+
+      // The selected course may have been deleted
+      setFilters(prev => (prev.courseId && !coursesData.some(course => course.id === prev.courseId)
+        ? { ...prev, courseId: undefined, ...(prev.sortBy === 'lectureNumber' ? { sortBy: 'dateCreated' as const, sortOrder: 'desc' as const } : {}) }
+        : prev));
     } catch (error) {
       console.error('Failed to load library data:', error);
     } finally {
@@ -75,18 +131,47 @@ const LibraryView: React.FC<LibraryViewProps> = ({ theme, onExportRecording }) =
 
   const applyFilters = async () => {
     try {
-      const filtered = await libraryStorage.getFilteredRecordings(filters);
-      setFilteredRecordings(filtered);
+      const results = await libraryStorage.getSearchResults(filters);
+      setFilteredRecordings(results.map(result => result.recording));
+      setSnippets(Object.fromEntries(results
+        .filter(result => result.snippet)
+        .map(result => [result.recording.id, result.snippet!])));
     } catch (error) {
       console.error('Failed to apply filters:', error);
       setFilteredRecordings(recordings);
+      setSnippets({});
+    }
+  };
+
+  // Search snippets open the lecture at the matching passage with "?t="
+  const handleJumpTo = (recording: RecordingEntry, seconds: number) => {
+    if (selectedRecordingId === undefined) {
+      // Not routed: the recording opens at the start
+      handleRecordingAction('view', recording);
+      return;
     }
+
+    const path = recording.transcriptId
+      ? buildPath('studyViewer', { transcriptId: recording.transcriptId })
+      : buildPath('recording', { recordingId: recording.id });
+    navigate(`${path}?t=${Math.floor(seconds)}`);
   };
 
   const handleFilterChange = (newFilters: Partial<LibraryFilters>) => {
     setFilters(prev => ({ ...prev, ...newFilters }));
   };
 
+  // A course lists its lectures in order; leaving it goes back to newest first
+  const handleSelectCourse = (courseId: string | undefined) => {
+    setFilters(prev => ({
+      ...prev,
+      courseId,
+      ...(courseId
+        ? { sortBy: 'lectureNumber' as const, sortOrder: 'asc' as const }
+        : prev.sortBy === 'lectureNumber' ? { sortBy: 'dateCreated' as const, sortOrder: 'desc' as const } : {})
+    }));
+  };
+
   const handleRecordingAction = async (action: string, recording: RecordingEntry) => {
     try {
       switch (action) {
@@ -101,22 +186,47 @@ const LibraryView: React.FC<LibraryViewProps> = ({ theme, onExportRecording }) =
             await libraryStorage.deleteRecording(recording.id);
           }
           break;
+        case 'retryTranscription':
+          await backgroundTranscription.retry(recording.id);
+          break;
         case 'export':
           if (onExportRecording) {
             onExportRecording(recording);
           }
           break;
+        case 'exportAnki': {
+          const result = await flashcardExportService.exportRecording(recording);
+          console.log(`🃏 Exported ${result.cardCount} flashcards to ${result.filename}`);
+
+          // Keep the open modal in step so a second export reuses the generated insights
+          if (selectedRecording && selectedRecording.id === recording.id) {
+            const updated = await libraryStorage.getRecording(recording.id);
+            if (updated) {
+              setSelectedRecording(updated);
+            }
+          }
+          break;
+        }
+        case 'openInStudy':
+          if (onOpenInStudy && recording.transcriptId) {
+            onOpenInStudy(recording.transcriptId);
+          }
+          break;
         case 'view':
           setSelectedRecording(recording);
+          onSelectRecording?.(recording.id);
           break;
       }
 
       // Reload data after actions
-      if (action !== 'view' && action !== 'export') {
+      if (!['view', 'export', 'retryTranscription', 'openInStudy'].includes(action)) {
         await loadLibraryData();
       }
     } catch (error) {
       console.error(`Failed to ${action} recording:`, error);
+      if (action === 'exportAnki') {
+        alert(error instanceof Error ? error.message : 'Flashcard export failed. Please try again.');
+      }
     }
   };
 
@@ -138,6 +248,20 @@ const LibraryView: React.FC<LibraryViewProps> = ({ theme, onExportRecording }) =
     }
   };
 
+  // Citations open in the recording modal, cued to the cited passage
+  const handleOpenCitation = async (citation: LectureCitation) => {
+    try {
+      const recording = await libraryStorage.getRecording(citation.chunk.recordingId);
+      if (!recording) return;
+
+      setModalStartTime(citation.chunk.start);
+      setSelectedRecording(recording);
+      onSelectRecording?.(recording.id);
+    } catch (error) {
+      console.error('Failed to open citation:', error);
+    }
+  };
+
   const handleUpdateRecording = async (recordingId: string, updates: Partial<RecordingEntry>) => {
     try {
       await libraryStorage.updateRecording(recordingId, updates);
@@ -182,10 +306,23 @@ const LibraryView: React.FC<LibraryViewProps> = ({ theme, onExportRecording }) =
         onFilterChange={handleFilterChange}
         onToggleFilters={() => setShowFilters(!showFilters)}
         showFilters={showFilters}
+        onToggleAsk={() => setShowAsk(!showAsk)}
+        showAsk={showAsk}
         recordingsCount={filteredRecordings.length}
         totalRecordings={recordings.length}
       />
 
+      {/* Courses */}
+      <CourseBar
+        theme={theme}
+        courses={courses}
+        terms={terms}
+        recordings={recordings}
+        selectedCourseId={filters.courseId}
+        onSelectCourse={handleSelectCourse}
+        onManageCourses={() => setShowCourseManager(true)}
+      />
+
       <div className="flex-1 flex overflow-hidden">
         {/* Filters Panel */}
         {showFilters && (
@@ -238,9 +375,21 @@ const LibraryView: React.FC<LibraryViewProps> = ({ theme, onExportRecording }) =
               onRecordingAction={handleRecordingAction}
               onAddTag={handleAddTag}
               onRemoveTag={handleRemoveTag}
+              snippets={snippets}
+              onJumpTo={handleJumpTo}
+              courses={courses}
             />
           )}
         </div>
+
+        {/* Ask your lectures */}
+        {showAsk && (
+          <AskLecturesPanel
+            theme={theme}
+            onOpenCitation={handleOpenCitation}
+            onClose={() => setShowAsk(false)}
+          />
+        )}
       </div>
 
       {/* Recording Detail Modal */}
@@ -248,11 +397,28 @@ const LibraryView: React.FC<LibraryViewProps> = ({ theme, onExportRecording }) =
         <RecordingModal
           theme={theme}
           recording={selectedRecording}
-          onClose={() => setSelectedRecording(null)}
+          onClose={() => {
+            setSelectedRecording(null);
+            setModalStartTime(undefined);
+            onSelectRecording?.(null);
+          }}
           onUpdate={handleUpdateRecording}
           onAction={handleRecordingAction}
           onAddTag={handleAddTag}
           onRemoveTag={handleRemoveTag}
+          startTime={modalStartTime}
+          courses={courses}
+        />
+      )}
+
+      {/* Course and term editor */}
+      {showCourseManager && (
+        <CourseManager
+          theme={theme}
+          courses={courses}
+          terms={terms}
+          onChange={loadLibraryData}
+          onClose={() => setShowCourseManager(false)}
         />
       )}
     </div>
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import type { RecordingEntry } from '../../types/library';
+import type { RecordingEntry, SearchSnippet, Course } from '../../types/library';
 
 interface Theme {
   primary: string;
@@ -20,6 +20,10 @@ interface RecordingCardProps {
   onAction: (action: string, recording: RecordingEntry) => void;
   onAddTag: (recordingId: string, tag: string) => void;
   onRemoveTag: (recordingId: string, tag: string) => void;
+  // Where the current search matched the transcript
+  snippet?: SearchSnippet;
+  onJumpTo?: (recording: RecordingEntry, seconds: number) => void;
+  course?: Course;
 }
 
 const RecordingCard: React.FC<RecordingCardProps> = ({
@@ -27,7 +31,10 @@ const RecordingCard: React.FC<RecordingCardProps> = ({
   recording,
   onAction,
   onAddTag,
-  onRemoveTag
+  onRemoveTag,
+  snippet,
+  onJumpTo,
+  course
 }) => {
   const [showFullTranscript, setShowFullTranscript] = useState(false);
 
@@ -64,6 +71,28 @@ const RecordingCard: React.FC<RecordingCardProps> = ({
     return text.substring(0, maxLength).trim() + '...';
   };
 
+  const renderSnippet = (match: SearchSnippet): React.ReactNode[] => {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+
+    match.highlights.forEach(([start, end], index) => {
+      if (start > cursor) parts.push(match.text.slice(cursor, start));
+      parts.push(
+        <mark
+          key={index}
+          className="rounded px-0.5"
+          style={{ backgroundColor: theme.accent + '25', color: theme.text }}
+        >
+          {match.text.slice(start, end)}
+        </mark>
+      );
+      cursor = end;
+    });
+    parts.push(match.text.slice(cursor));
+
+    return parts;
+  };
+
   return (
     <div
       className="rounded-lg border transition-all duration-200 hover:shadow-lg cursor-pointer group"
@@ -135,6 +164,51 @@ const RecordingCard: React.FC<RecordingCardProps> = ({
           <span>{recording.wordCount} words</span>
         </div>
 
+        {/* Course and lecture number */}
+        {course && (
+          <div
+            className="mt-2 inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-medium mr-2"
+            style={{
+              backgroundColor: course.color + '20',
+              color: course.color
+            }}
+            title={course.name}
+          >
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: course.color }} />
+            {course.code}
+            {recording.lectureNumber !== undefined && ` · Lecture ${recording.lectureNumber}`}
+          </div>
+        )}
+
+        {/* Transcription Status */}
+        {recording.transcriptionStatus && recording.transcriptionStatus !== 'completed' && (
+          <div
+            className="mt-2 inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-medium mr-2"
+            style={{
+              backgroundColor: recording.transcriptionStatus === 'failed' ? '#ef444415' : '#f59e0b15',
+              color: recording.transcriptionStatus === 'failed' ? '#ef4444' : '#d97706'
+            }}
+            title={recording.transcriptionError}
+          >
+            {recording.transcriptionStatus === 'pending' && 'Pending transcription'}
+            {recording.transcriptionStatus === 'transcribing' && 'Transcribing...'}
+            {recording.transcriptionStatus === 'failed' && (
+              <>
+                Transcription failed
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onAction('retryTranscription', recording);
+                  }}
+                  className="underline ml-1"
+                >
+                  Retry
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
         {/* PDF Context Indicator */}
         {recording.pdfContext && (
           <div
@@ -189,13 +263,42 @@ const RecordingCard: React.FC<RecordingCardProps> = ({
           </div>
         )}
 
-        {/* Transcript Preview */}
-        <p
-          className="text-sm leading-relaxed line-clamp-3"
-          style={{ color: theme.textSecondary }}
-        >
-          {getPreviewText(recording.transcript)}
-        </p>
+        {/* Transcript Preview, or the passage the search matched */}
+        {snippet ? (
+          <div>
+            <p
+              className="text-sm leading-relaxed line-clamp-3"
+              style={{ color: theme.textSecondary }}
+            >
+              {renderSnippet(snippet)}
+            </p>
+            {snippet.timestamp !== undefined && onJumpTo && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onJumpTo(recording, snippet.timestamp!);
+                }}
+                className="mt-1 inline-flex items-center gap-1 text-xs font-medium hover:underline"
+                style={{ color: theme.accent }}
+                title="Play from this passage"
+              >
+                <svg width="10" height="10" viewBox="0 0 24 24" fill="currentColor">
+                  <polygon points="5 3 19 12 5 21 5 3"/>
+                </svg>
+                {formatDuration(snippet.timestamp)}
+              </button>
+            )}
+          </div>
+        ) : (
+          <p
+            className="text-sm leading-relaxed line-clamp-3"
+            style={{ color: theme.textSecondary }}
+          >
+            {recording.transcriptionStatus && recording.transcriptionStatus !== 'completed' && !recording.transcript
+              ? 'Audio saved. The transcript will appear here once transcription finishes.'
+              : getPreviewText(recording.transcript)}
+          </p>
+        )}
 
         {/* Tags */}
         {recording.tags.length > 0 && (
@@ -1,5 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
-import type { RecordingEntry } from '../../types/library';
+import type { RecordingEntry, Course } from '../../types/library';
+import { getStartTimeParam } from '../../hooks/useRouter';
 
 interface Theme {
   primary: string;
@@ -22,6 +23,9 @@ interface RecordingModalProps {
   onAction: (action: string, recording: RecordingEntry) => void;
   onAddTag: (recordingId: string, tag: string) => void;
   onRemoveTag: (recordingId: string, tag: string) => void;
+  // Seconds to cue the audio at, e.g. a cited passage; falls back to a "?t=" deep link
+  startTime?: number;
+  courses?: Course[];
 }
 
 const RecordingModal: React.FC<RecordingModalProps> = ({
@@ -31,7 +35,9 @@ const RecordingModal: React.FC<RecordingModalProps> = ({
   onUpdate,
   onAction,
   onAddTag,
-  onRemoveTag
+  onRemoveTag,
+  startTime,
+  courses = []
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editTitle, setEditTitle] = useState(recording.title);
@@ -57,11 +63,17 @@ const RecordingModal: React.FC<RecordingModalProps> = ({
       const audioUrl = URL.createObjectURL(recording.audioBlob);
       audioRef.current.src = audioUrl;
 
+      // Flashcard links open the recording at a moment with "?t="
+      const startAt = startTime ?? getStartTimeParam();
+      if (startAt !== null) {
+        audioRef.current.currentTime = startAt;
+      }
+
       return () => {
         URL.revokeObjectURL(audioUrl);
       };
     }
-  }, [recording.audioBlob]);
+  }, [recording.audioBlob, startTime]);
 
   const formatDate = (timestamp: number): string => {
     return new Date(timestamp).toLocaleString('en-US', {
@@ -377,6 +389,39 @@ const RecordingModal: React.FC<RecordingModalProps> = ({
               </div>
             )}
 
+            {/* Course */}
+            {courses.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium mb-3" style={{ color: theme.text }}>
+                  🎓 Course
+                </h3>
+                <div className="flex items-center gap-3">
+                  <select
+                    value={recording.courseId || ''}
+                    onChange={(e) => onUpdate(recording.id, { courseId: e.target.value || undefined })}
+                    className="flex-1 px-3 py-2 text-sm rounded border focus:outline-none focus:ring-2"
+                    style={{
+                      backgroundColor: theme.surface,
+                      borderColor: theme.border,
+                      color: theme.text
+                    }}
+                  >
+                    <option value="">No course</option>
+                    {courses.map(course => (
+                      <option key={course.id} value={course.id}>
+                        {course.code} - {course.name}
+                      </option>
+                    ))}
+                  </select>
+                  {recording.lectureNumber !== undefined && (
+                    <span className="text-sm" style={{ color: theme.textSecondary }}>
+                      Lecture {recording.lectureNumber}
+                    </span>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Tags */}
             <div>
               <h3 className="text-sm font-medium mb-3" style={{ color: theme.text }}>
@@ -482,6 +527,34 @@ const RecordingModal: React.FC<RecordingModalProps> = ({
               </svg>
               Export
             </button>
+
+            <button
+              onClick={() => onAction('exportAnki', recording)}
+              disabled={!recording.transcript}
+              title="Anki deck from key concepts and review questions, linked to the lecture"
+              className="px-4 py-2 text-sm rounded transition-colors disabled:opacity-50"
+              style={{
+                backgroundColor: theme.surface,
+                color: theme.text,
+                border: `1px solid ${theme.border}`
+              }}
+            >
+              Flashcards (Anki)
+            </button>
+
+            {recording.source === 'study' && recording.transcriptId && (
+              <button
+                onClick={() => onAction('openInStudy', recording)}
+                className="px-4 py-2 text-sm rounded transition-colors"
+                style={{
+                  backgroundColor: theme.surface,
+                  color: theme.text,
+                  border: `1px solid ${theme.border}`
+                }}
+              >
+                {recording.hasPdf ? 'Open with slides' : 'Open in Study Viewer'}
+              </button>
+            )}
           </div>
 
           <div className="flex items-center gap-2">
@@ -0,0 +1,49 @@
+import React from 'react';
+import { CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { cn } from '../../utils/cn';
+import { useChunkQueue } from '../../hooks/useChunkQueue';
+
+interface PendingChunksIndicatorProps {
+  className?: string;
+}
+
+/**
+ * "N chunks pending" badge backed by the persistent chunk queue, so it reappears after a reload
+ */
+export const PendingChunksIndicator: React.FC<PendingChunksIndicatorProps> = ({ className }) => {
+  const { pendingCount, failedCount, isOnline, retryFailed } = useChunkQueue();
+
+  if (pendingCount === 0 && failedCount === 0) return null;
+
+  return (
+    <div
+      className={cn('flex items-center gap-2 text-sm font-medium', className)}
+      role="status"
+      aria-live="polite"
+    >
+      {pendingCount > 0 && (
+        <span
+          className={cn(
+            'flex items-center gap-1 px-2 py-1 rounded-full',
+            isOnline ? 'bg-blue-50 text-blue-700' : 'bg-yellow-50 text-yellow-700'
+          )}
+        >
+          {isOnline ? <RefreshCw className="w-3 h-3 animate-spin" /> : <CloudOff className="w-3 h-3" />}
+          {pendingCount} {pendingCount === 1 ? 'chunk' : 'chunks'} pending
+          {!isOnline && ' (offline)'}
+        </span>
+      )}
+      {failedCount > 0 && (
+        <button
+          type="button"
+          onClick={() => retryFailed()}
+          className="flex items-center gap-1 px-2 py-1 rounded-full bg-red-50 text-red-700 hover:bg-red-100"
+          title="Retry failed chunks"
+        >
+          <AlertTriangle className="w-3 h-3" />
+          {failedCount} failed · retry
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,464 @@
+// 🎯 LectureScript MVP - Study Workspace
+// Upload, transcription polling and split-screen viewer for study mode.
+// Finished sessions are saved to the library and reopened from it on refresh.
+// Author: Peter Levler
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { FileUploadZone } from '../upload/FileUploadZone';
+import { SplitScreenViewer } from '../viewer/SplitScreenViewer';
+import { transcriptionService } from '../../services/transcriptionService';
+import { fromStudyModeTranscription, toTranscriptionSegments } from '../../utils/transcriptDocument';
+import { libraryStorage } from '../../utils/libraryStorage';
+import { getStartTimeParam } from '../../hooks/useRouter';
+import type { AudioFile, PDFFile } from '../../types/upload';
+import type { TranscriptionSegment } from '../../types/transcription';
+import type { RecordingEntry, StudyViewState } from '../../types/library';
+
+type WorkspaceState = 'upload' | 'processing' | 'viewer';
+
+/**
+ * Rebuild the viewer's file objects from blobs stored in the library
+ */
+const restoreFiles = (recording: RecordingEntry, objectUrls: string[]) => {
+  let audio: AudioFile | null = null;
+  let pdf: PDFFile | null = null;
+
+  if (recording.audioBlob) {
+    const name = recording.audioFileName || `${recording.title}.webm`;
+    const url = URL.createObjectURL(recording.audioBlob);
+    objectUrls.push(url);
+    audio = {
+      id: `audio-${recording.id}`,
+      file: new File([recording.audioBlob], name, { type: recording.audioBlob.type }),
+      type: 'audio',
+      size: recording.audioBlob.size,
+      name,
+      uploadProgress: 100,
+      status: 'ready',
+      transcriptId: recording.transcriptId,
+      url,
+      duration: recording.duration,
+      format: recording.audioBlob.type,
+    };
+  }
+
+  if (recording.pdfBlob) {
+    const name = recording.pdfFileName || `${recording.title}.pdf`;
+    const url = URL.createObjectURL(recording.pdfBlob);
+    objectUrls.push(url);
+    pdf = {
+      id: `pdf-${recording.id}`,
+      file: new File([recording.pdfBlob], name, { type: 'application/pdf' }),
+      type: 'pdf',
+      size: recording.pdfBlob.size,
+      name,
+      uploadProgress: 100,
+      status: 'ready',
+      url,
+    };
+  }
+
+  return { audio, pdf };
+};
+
+interface StudyWorkspaceProps {
+  /** Transcript to show; when omitted the workspace tracks it internally */
+  transcriptId?: string | null;
+  onTranscriptIdChange?: (transcriptId: string | null) => void;
+}
+
+export const StudyWorkspace: React.FC<StudyWorkspaceProps> = ({
+  transcriptId: controlledTranscriptId,
+  onTranscriptIdChange,
+}) => {
+  const [localTranscriptId, setLocalTranscriptId] = useState<string | null>(null);
+  const [audioFile, setAudioFile] = useState<AudioFile | null>(null);
+  const [pdfFile, setPDFFile] = useState<PDFFile | null>(null);
+  const [transcription, setTranscription] = useState<TranscriptionSegment[]>([]);
+  const [loadedTranscriptId, setLoadedTranscriptId] = useState<string | null>(null);
+  const [libraryRecordingId, setLibraryRecordingId] = useState<string | null>(null);
+  const [initialViewState, setInitialViewState] = useState<StudyViewState | undefined>(undefined);
+
+  // Latest uploads for the async save after polling; object URLs to revoke on reset
+  const audioFileRef = useRef<AudioFile | null>(null);
+  const pdfFileRef = useRef<PDFFile | null>(null);
+  audioFileRef.current = audioFile;
+  pdfFileRef.current = pdfFile;
+  const objectUrlsRef = useRef<string[]>([]);
+
+  const isControlled = controlledTranscriptId !== undefined;
+  const transcriptId = isControlled ? controlledTranscriptId : localTranscriptId;
+
+  const setTranscriptId = (id: string | null) => {
+    if (!isControlled) {
+      setLocalTranscriptId(id);
+    }
+    onTranscriptIdChange?.(id);
+  };
+
+  // Read by the load effect, which re-runs only when the transcript id changes
+  const loadedTranscriptIdRef = useRef(loadedTranscriptId);
+  loadedTranscriptIdRef.current = loadedTranscriptId;
+  const setTranscriptIdRef = useRef(setTranscriptId);
+  setTranscriptIdRef.current = setTranscriptId;
+
+  const workspaceState: WorkspaceState = !transcriptId
+    ? 'upload'
+    : loadedTranscriptId === transcriptId ? 'viewer' : 'processing';
+
+  const revokeObjectUrls = () => {
+    objectUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+    objectUrlsRef.current = [];
+  };
+
+  useEffect(() => revokeObjectUrls, []);
+
+  /**
+   * Save a freshly transcribed session with its audio, slides and word timings
+   */
+  const saveToLibrary = async (id: string, segments: TranscriptionSegment[]) => {
+    const audio = audioFileRef.current;
+    if (!audio) return;
+
+    const pdf = pdfFileRef.current;
+    const entry = libraryStorage.createStudyRecordingEntry(
+      id,
+      segments,
+      { name: audio.name, blob: audio.file, duration: audio.duration },
+      pdf ? { name: pdf.name, blob: pdf.file, pageCount: pdf.pageCount } : undefined
+    );
+
+    await libraryStorage.saveRecording(entry);
+    setLibraryRecordingId(entry.id);
+    console.log('💾 Study session saved to library:', entry.id);
+  };
+
+  /**
+   * Open a transcript: from the library when it was saved before, otherwise poll the backend
+   */
+  useEffect(() => {
+    if (!transcriptId) {
+      // Back to upload: drop the previous lecture
+      setAudioFile(null);
+      setPDFFile(null);
+      setTranscription([]);
+      setLoadedTranscriptId(null);
+      setLibraryRecordingId(null);
+      setInitialViewState(undefined);
+      revokeObjectUrls();
+      return;
+    }
+
+    if (transcriptId === loadedTranscriptIdRef.current) return;
+
+    const abortController = new AbortController();
+
+    // Flashcard links open the lecture at a moment with "?t="
+    const startAt = getStartTimeParam();
+
+    const load = async () => {
+      const saved = await libraryStorage.getStudyRecording(transcriptId).catch(() => undefined);
+      if (abortController.signal.aborted) return;
+
+      if (saved?.segments) {
+        console.log(`📚 Reopening study session from library: ${saved.id}`);
+        const { audio, pdf } = restoreFiles(saved, objectUrlsRef.current);
+        setAudioFile(audio);
+        setPDFFile(pdf);
+        setTranscription(saved.segments);
+        setLibraryRecordingId(saved.id);
+        setInitialViewState(
+          startAt !== null
+            ? { pdfPage: saved.studyState?.pdfPage ?? 1, playbackPosition: startAt, bilingual: saved.studyState?.bilingual }
+            : saved.studyState
+        );
+        setLoadedTranscriptId(transcriptId);
+        return;
+      }
+
+      console.log(`🔍 Starting transcription poll for ID: ${transcriptId}`);
+      const result = await transcriptionService.pollTranscriptionStatus(
+        transcriptId,
+        undefined,
+        abortController.signal
+      );
+      if (abortController.signal.aborted) return;
+
+      if (result.status !== 'completed' || !result.transcription) {
+        console.error('❌ Transcription error:', result.error);
+        alert(result.error || 'Failed to get transcription. Please try again.');
+        setTranscriptIdRef.current(null);
+        return;
+      }
+
+      const document = fromStudyModeTranscription(result.transcription, transcriptId);
+      const segments = toTranscriptionSegments(document);
+      setTranscription(segments);
+      setInitialViewState(startAt !== null ? { pdfPage: 1, playbackPosition: startAt } : undefined);
+      setLoadedTranscriptId(transcriptId);
+      console.log('✅ Transcription completed:', segments.length, 'segments');
+
+      // Nothing worth reopening; the viewer says so instead
+      if (segments.length === 0) return;
+
+      saveToLibrary(transcriptId, segments).catch(error => {
+        console.error('❌ Failed to save study session to library:', error);
+      });
+    };
+
+    load();
+
+    return () => abortController.abort();
+  }, [transcriptId]);
+
+  /**
+   * Remember where the reader is, so reopening restores playback position and slide
+   */
+  const handleViewStateChange = useCallback((state: StudyViewState) => {
+    if (!libraryRecordingId) return;
+    libraryStorage.updateStudyState(libraryRecordingId, state).catch(error => {
+      console.error('❌ Failed to save study position:', error);
+    });
+  }, [libraryRecordingId]);
+
+  /**
+   * Keep translations with the lecture, so the bilingual view and exports don't translate again
+   */
+  const handleTranscriptionChange = useCallback((segments: TranscriptionSegment[]) => {
+    setTranscription(segments);
+    if (!libraryRecordingId) return;
+    libraryStorage.updateRecording(libraryRecordingId, { segments }).catch(error => {
+      console.error('❌ Failed to save translations:', error);
+    });
+  }, [libraryRecordingId]);
+
+  /**
+   * Handle upload completion - hand the transcriptId to the poller
+   */
+  const handleUploadComplete = (audio: AudioFile, pdf: PDFFile | null) => {
+    console.log('✅ Files uploaded:', { audio, pdf });
+
+    setAudioFile(audio);
+    setPDFFile(pdf);
+
+    if (audio.transcriptId) {
+      setTranscriptId(audio.transcriptId);
+    } else {
+      console.error('❌ No transcriptId found in audio file:', audio);
+      alert('Upload error: No transcript ID received. Please try again.');
+    }
+  };
+
+  return (
+    <>
+      {workspaceState === 'upload' && (
+        <FileUploadZone onUploadComplete={handleUploadComplete} />
+      )}
+
+      {workspaceState === 'processing' && (
+        <div
+          style={{
+            maxWidth: '600px',
+            margin: '80px auto',
+            padding: '48px 24px',
+            textAlign: 'center',
+          }}
+        >
+          <div
+            style={{
+              fontSize: '64px',
+              marginBottom: '24px',
+              animation: 'pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite',
+            }}
+          >
+            🎯
+          </div>
+          <h2
+            style={{
+              fontSize: '28px',
+              fontWeight: '700',
+              color: '#1f2937',
+              marginBottom: '12px',
+            }}
+          >
+            Processing Your Lecture
+          </h2>
+          <p
+            style={{
+              fontSize: '16px',
+              color: '#6b7280',
+              marginBottom: '32px',
+              lineHeight: '1.6',
+            }}
+          >
+            We're transcribing your audio using AI. This may take a few minutes depending on the length of your recording.
+          </p>
+
+          {/* Processing Steps */}
+          <div
+            style={{
+              backgroundColor: 'white',
+              borderRadius: '12px',
+              padding: '24px',
+              textAlign: 'left',
+              border: '1px solid #e5e7eb',
+            }}
+          >
+            <div style={{ marginBottom: '16px' }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+                <span
+                  style={{
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    width: '24px',
+                    height: '24px',
+                    borderRadius: '50%',
+                    backgroundColor: '#10b981',
+                    color: 'white',
+                    fontSize: '12px',
+                    fontWeight: 'bold',
+                  }}
+                >
+                  ✓
+                </span>
+                <span style={{ fontSize: '14px', color: '#1f2937' }}>
+                  Files uploaded successfully
+                </span>
+              </div>
+            </div>
+
+            <div style={{ marginBottom: '16px' }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+                <div
+                  style={{
+                    width: '24px',
+                    height: '24px',
+                    borderRadius: '50%',
+                    border: '3px solid #3b82f6',
+                    borderTopColor: 'transparent',
+                    animation: 'spin 1s linear infinite',
+                  }}
+                />
+                <span style={{ fontSize: '14px', color: '#1f2937', fontWeight: '500' }}>
+                  Transcribing audio with AI...
+                </span>
+              </div>
+            </div>
+
+            <div>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+                <span
+                  style={{
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    width: '24px',
+                    height: '24px',
+                    borderRadius: '50%',
+                    backgroundColor: '#e5e7eb',
+                    color: '#9ca3af',
+                    fontSize: '12px',
+                  }}
+                >
+                  ○
+                </span>
+                <span style={{ fontSize: '14px', color: '#6b7280' }}>
+                  Preparing study viewer
+                </span>
+              </div>
+            </div>
+          </div>
+
+          <p
+            style={{
+              fontSize: '12px',
+              color: '#9ca3af',
+              marginTop: '24px',
+            }}
+          >
+            Please don't close this window. Processing time: ~1 minute per 10 minutes of audio.
+          </p>
+        </div>
+      )}
+
+      {workspaceState === 'viewer' && transcription.length > 0 && (
+        <SplitScreenViewer
+          pdfUrl={pdfFile?.url}
+          transcription={transcription}
+          audioFile={audioFile}
+          alignmentKey={loadedTranscriptId || undefined}
+          initialViewState={initialViewState}
+          onViewStateChange={handleViewStateChange}
+          onTranscriptionChange={handleTranscriptionChange}
+        />
+      )}
+
+      {workspaceState === 'viewer' && transcription.length === 0 && (
+        <div
+          style={{
+            maxWidth: '600px',
+            margin: '80px auto',
+            padding: '48px 24px',
+            textAlign: 'center',
+          }}
+        >
+          <div style={{ fontSize: '64px', marginBottom: '24px' }}>🔇</div>
+          <h2
+            style={{
+              fontSize: '28px',
+              fontWeight: '700',
+              color: '#1f2937',
+              marginBottom: '12px',
+            }}
+          >
+            No Speech Found
+          </h2>
+          <p
+            style={{
+              fontSize: '16px',
+              color: '#6b7280',
+              marginBottom: '32px',
+              lineHeight: '1.6',
+            }}
+          >
+            The transcription finished, but it contains no text. The recording may be silent or too quiet to transcribe.
+          </p>
+          <button
+            type="button"
+            onClick={() => setTranscriptId(null)}
+            style={{
+              padding: '12px 24px',
+              fontSize: '14px',
+              fontWeight: '600',
+              color: 'white',
+              backgroundColor: '#3b82f6',
+              border: 'none',
+              borderRadius: '8px',
+              cursor: 'pointer',
+            }}
+          >
+            Upload Another Lecture
+          </button>
+        </div>
+      )}
+
+      {/* CSS Animations */}
+      <style>
+        {`
+          @keyframes spin {
+            from { transform: rotate(0deg); }
+            to { transform: rotate(360deg); }
+          }
+
+          @keyframes pulse {
+            0%, 100% { opacity: 1; }
+            50% { opacity: 0.5; }
+          }
+        `}
+      </style>
+    </>
+  );
+};
+
+export default StudyWorkspace;
@@ -20,6 +20,8 @@ export const FileUploadZone: React.FC<FileUploadZoneProps> = ({
     pdfFile,
     isUploading,
     uploadProgress,
+    audioProgress,
+    pdfProgress,
     errors,
     processingStatus,
     uploadAudio,
@@ -27,6 +29,8 @@ export const FileUploadZone: React.FC<FileUploadZoneProps> = ({
     validateAudioFile,
     validatePDFFile,
     cancelUpload,
+    pauseUpload,
+    resumeUpload,
     clearAudio,
     clearPDF,
     canUpload,
@@ -251,6 +255,14 @@ export const FileUploadZone: React.FC<FileUploadZoneProps> = ({
               type="audio"
               fileName={audioFile.name}
               progress={uploadProgress.audio}
+              speed={audioProgress?.speed}
+              remainingTime={audioProgress?.remainingTime}
+              stage={audioProgress?.stage}
+              part={audioProgress?.part}
+              totalParts={audioProgress?.totalParts}
+              paused={audioProgress?.paused}
+              onPause={audioProgress?.resumable ? () => pauseUpload('audio') : undefined}
+              onResume={() => resumeUpload('audio')}
               onCancel={() => cancelUpload('audio')}
             />
           ) : (
@@ -356,6 +368,11 @@ export const FileUploadZone: React.FC<FileUploadZoneProps> = ({
               type="pdf"
               fileName={pdfFile.name}
               progress={uploadProgress.pdf}
+              speed={pdfProgress?.speed}
+              remainingTime={pdfProgress?.remainingTime}
+              paused={pdfProgress?.paused}
+              onPause={pdfProgress?.resumable ? () => pauseUpload('pdf') : undefined}
+              onResume={() => resumeUpload('pdf')}
               onCancel={() => cancelUpload('pdf')}
             />
           ) : (
@@ -11,6 +11,12 @@ interface UploadProgressProps {
   progress: number;
   speed?: number;
   remainingTime?: number;
+  stage?: 'preparing' | 'uploading';
+  part?: number;
+  totalParts?: number;
+  paused?: boolean;
+  onPause?: () => void;
+  onResume?: () => void;
   onCancel?: () => void;
 }
 
@@ -20,6 +26,12 @@ export const UploadProgress: React.FC<UploadProgressProps> = ({
   progress,
   speed,
   remainingTime,
+  stage,
+  part,
+  totalParts,
+  paused,
+  onPause,
+  onResume,
   onCancel,
 }) => {
   const formatSpeed = (bytesPerSecond: number): string => {
@@ -39,11 +51,29 @@ export const UploadProgress: React.FC<UploadProgressProps> = ({
     return `${minutes}m ${secs}s`;
   };
 
+  const getStatusText = () => {
+    if (paused) {
+      return part && totalParts && totalParts > 1
+        ? `Paused at part ${part} of ${totalParts}`
+        : 'Paused';
+    }
+    if (stage === 'preparing') {
+      return part && totalParts
+        ? `Encoding part ${part} of ${totalParts}...`
+        : `Splitting ${type} into parts...`;
+    }
+    if (part && totalParts && totalParts > 1) {
+      return `Uploading ${type} part ${part} of ${totalParts}...`;
+    }
+    return `Uploading ${type}...`;
+  };
+
   const getIcon = () => {
     return type === 'audio' ? '🎵' : '📄';
   };
 
   const getColor = () => {
+    if (paused) return '#9ca3af'; // gray
     if (progress < 30) return '#3b82f6'; // blue
     if (progress < 70) return '#8b5cf6'; // purple
     return '#10b981'; // green
@@ -82,34 +112,60 @@ export const UploadProgress: React.FC<UploadProgressProps> = ({
               {fileName}
             </div>
             <div style={{ fontSize: '12px', color: '#6b7280' }}>
-              Uploading {type}...
+              {getStatusText()}
             </div>
           </div>
         </div>
 
-        {onCancel && (
-          <button
-            onClick={onCancel}
-            style={{
-              padding: '4px 12px',
-              fontSize: '12px',
-              color: '#ef4444',
-              backgroundColor: 'transparent',
-              border: '1px solid #fecaca',
-              borderRadius: '6px',
-              cursor: 'pointer',
-              transition: 'all 0.2s',
-            }}
-            onMouseEnter={(e) => {
-              e.currentTarget.style.backgroundColor = '#fee2e2';
-            }}
-            onMouseLeave={(e) => {
-              e.currentTarget.style.backgroundColor = 'transparent';
-            }}
-          >
-            Cancel
-          </button>
-        )}
+        <div style={{ display: 'flex', gap: '8px' }}>
+          {(paused ? onResume : onPause) && (
+            <button
+              onClick={paused ? onResume : onPause}
+              style={{
+                padding: '4px 12px',
+                fontSize: '12px',
+                color: '#3b82f6',
+                backgroundColor: 'transparent',
+                border: '1px solid #bfdbfe',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                transition: 'all 0.2s',
+              }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.backgroundColor = '#dbeafe';
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.backgroundColor = 'transparent';
+              }}
+            >
+              {paused ? 'Resume' : 'Pause'}
+            </button>
+          )}
+
+          {onCancel && (
+            <button
+              onClick={onCancel}
+              style={{
+                padding: '4px 12px',
+                fontSize: '12px',
+                color: '#ef4444',
+                backgroundColor: 'transparent',
+                border: '1px solid #fecaca',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                transition: 'all 0.2s',
+              }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.backgroundColor = '#fee2e2';
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.backgroundColor = 'transparent';
+              }}
+            >
+              Cancel
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Progress Bar */}
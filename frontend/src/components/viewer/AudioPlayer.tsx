@@ -5,19 +5,29 @@
 import React, { useState, useRef, useEffect } from 'react';
 import type { AudioFile } from '../../types/upload';
 import type { TranscriptionSegment } from '../../types/transcription';
+import { findWordPositionAt } from '../../utils/wordTiming';
 
 interface AudioPlayerProps {
   audioFile: AudioFile | null;
   transcription: TranscriptionSegment[];
-  onTimeUpdate?: (currentTime: number, currentSegment: TranscriptionSegment | null) => void;
+  // wordIndex is -1 when the current segment has no word timings
+  onTimeUpdate?: (currentTime: number, currentSegment: TranscriptionSegment | null, wordIndex: number) => void;
+  // Shared with the transcript so clicking a word can seek this player
+  audioRef?: React.RefObject<HTMLAudioElement>;
+  // Resume position, e.g. where the session was left last time
+  initialTime?: number;
 }
 
 export const AudioPlayer: React.FC<AudioPlayerProps> = ({
   audioFile,
   transcription,
   onTimeUpdate,
+  audioRef: externalAudioRef,
+  initialTime,
 }) => {
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const internalAudioRef = useRef<HTMLAudioElement>(null);
+  const audioRef = externalAudioRef || internalAudioRef;
+  const animationFrameRef = useRef<number | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
@@ -38,12 +48,12 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
   const togglePlayPause = () => {
     if (!audioRef.current) return;
 
+    // isPlaying follows the element's play/pause events, which also fire when the transcript seeks
     if (isPlaying) {
       audioRef.current.pause();
     } else {
       audioRef.current.play();
     }
-    setIsPlaying(!isPlaying);
   };
 
   /**
@@ -55,23 +65,55 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
     const time = audioRef.current.currentTime;
     setCurrentTime(time);
 
-    // Find current segment
-    const currentSegment = transcription.find(
-      seg => time >= seg.start && time < seg.end
-    );
+    // Find current segment and word
+    const position = findWordPositionAt(transcription, time);
 
     // Notify parent component
     if (onTimeUpdate) {
-      onTimeUpdate(time, currentSegment || null);
+      onTimeUpdate(
+        time,
+        position ? transcription[position.segmentIndex] : null,
+        position ? position.wordIndex : -1
+      );
     }
   };
 
+  // The frame loop reads the latest handler, so a new transcript or callback doesn't restart it
+  const handleTimeUpdateRef = useRef(handleTimeUpdate);
+  handleTimeUpdateRef.current = handleTimeUpdate;
+
+  /**
+   * The timeupdate event only fires ~4 times a second, too slow for word highlighting,
+   * so poll the playhead every animation frame while playing
+   */
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const tick = () => {
+      handleTimeUpdateRef.current();
+      animationFrameRef.current = requestAnimationFrame(tick);
+    };
+    animationFrameRef.current = requestAnimationFrame(tick);
+
+    return () => {
+      if (animationFrameRef.current !== null) {
+        cancelAnimationFrame(animationFrameRef.current);
+        animationFrameRef.current = null;
+      }
+    };
+  }, [isPlaying]);
+
   /**
    * Handle audio loaded metadata
    */
   const handleLoadedMetadata = () => {
     if (audioRef.current) {
       setDuration(audioRef.current.duration);
+
+      if (initialTime && initialTime < audioRef.current.duration) {
+        audioRef.current.currentTime = initialTime;
+        setCurrentTime(initialTime);
+      }
     }
   };
 
@@ -145,6 +187,8 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
         src={audioFile.url}
         onTimeUpdate={handleTimeUpdate}
         onLoadedMetadata={handleLoadedMetadata}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
         onEnded={() => setIsPlaying(false)}
       />
 
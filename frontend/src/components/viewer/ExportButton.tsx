@@ -5,16 +5,25 @@
 import React, { useState } from 'react';
 import type { TranscriptionSegment } from '../../types/transcription';
 import type { AudioFile } from '../../types/upload';
+import type { SubtitleFormat } from '../../types';
 import { exportService } from '../../services/studyModeExportService';
 
+const SUBTITLE_FORMATS: { format: SubtitleFormat; label: string }[] = [
+  { format: 'srt', label: 'SRT' },
+  { format: 'vtt', label: 'WebVTT' },
+  { format: 'ttml', label: 'TTML' },
+];
+
 interface ExportButtonProps {
   transcription: TranscriptionSegment[];
   audioFile: AudioFile | null;
+  bilingual?: boolean;  // Export the 中文 / English columns shown in the viewer
 }
 
 export const ExportButton: React.FC<ExportButtonProps> = ({
   transcription,
   audioFile,
+  bilingual = false,
 }) => {
   const [isExporting, setIsExporting] = useState(false);
   const [showMenu, setShowMenu] = useState(false);
@@ -37,6 +46,7 @@ export const ExportButton: React.FC<ExportButtonProps> = ({
         title: audioFile?.name || 'Lecture Transcript',
         includeTimestamps: true,
         includeSpeakers: true,
+        bilingual,
       });
 
       console.log('✅ HTML export completed');
@@ -65,6 +75,7 @@ export const ExportButton: React.FC<ExportButtonProps> = ({
       await exportService.exportText(transcription, filename, {
         includeTimestamps: true,
         includeSpeakers: true,
+        bilingual,
       });
 
       console.log('✅ Text export completed');
@@ -76,6 +87,35 @@ export const ExportButton: React.FC<ExportButtonProps> = ({
     }
   };
 
+  /**
+   * Handle caption export
+   */
+  const handleExportSubtitles = async (format: SubtitleFormat) => {
+    try {
+      setIsExporting(true);
+      setShowMenu(false);
+
+      console.log(`📤 Exporting ${format.toUpperCase()} captions...`);
+
+      const filename = audioFile?.name
+        ? `${audioFile.name.replace(/\.[^/.]+$/, '')}.${format}`
+        : `lecture_captions.${format}`;
+
+      await exportService.exportSubtitles(transcription, filename, format, {
+        title: audioFile?.name || 'Lecture Transcript',
+        language: transcription.find(segment => segment.language)?.language,
+        includeSpeakers: true,
+      });
+
+      console.log('✅ Caption export completed');
+    } catch (error) {
+      console.error('❌ Export error:', error);
+      alert('Export failed. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   /**
    * Handle copy to clipboard
    */
@@ -86,6 +126,7 @@ export const ExportButton: React.FC<ExportButtonProps> = ({
       const text = exportService.generatePlainText(transcription, {
         includeTimestamps: true,
         includeSpeakers: true,
+        bilingual,
       });
 
       await navigator.clipboard.writeText(text);
@@ -251,6 +292,41 @@ export const ExportButton: React.FC<ExportButtonProps> = ({
               </div>
             </button>
 
+            {/* Captions */}
+            <div
+              style={{
+                padding: '12px 16px',
+                borderTop: '1px solid #f3f4f6',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '12px',
+              }}
+            >
+              <span style={{ fontSize: '20px' }}>💬</span>
+              <div style={{ flex: 1 }}>
+                <div style={{ fontSize: '14px', fontWeight: '500', color: '#1f2937' }}>Captions</div>
+                <div style={{ display: 'flex', gap: '6px', marginTop: '6px' }}>
+                  {SUBTITLE_FORMATS.map(({ format, label }) => (
+                    <button
+                      key={format}
+                      onClick={() => handleExportSubtitles(format)}
+                      style={{
+                        padding: '4px 8px',
+                        fontSize: '12px',
+                        color: '#1f2937',
+                        backgroundColor: '#f3f4f6',
+                        border: '1px solid #e5e7eb',
+                        borderRadius: '6px',
+                        cursor: 'pointer',
+                      }}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
             {/* Copy to Clipboard */}
             <button
               onClick={handleCopyToClipboard}
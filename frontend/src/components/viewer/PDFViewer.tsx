@@ -12,12 +12,16 @@ interface PDFViewerProps {
   pdfUrl: string;
   currentPage?: number;
   onPageChange?: (page: number) => void;
+  onTextExtracted?: (pageTexts: string[]) => void;  // Slide text for transcript alignment
+  onSlideClick?: (page: number) => void;
 }
 
 export const PDFViewer: React.FC<PDFViewerProps> = ({
   pdfUrl,
   currentPage = 1,
   onPageChange,
+  onTextExtracted,
+  onSlideClick,
 }) => {
   const [pdf, setPdf] = useState<any>(null);
   const [pageNum, setPageNum] = useState(currentPage);
@@ -29,6 +33,9 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  // Extraction runs once per document, whichever callback the parent passes on later renders
+  const onTextExtractedRef = useRef(onTextExtracted);
+  onTextExtractedRef.current = onTextExtracted;
 
   /**
    * Load PDF document
@@ -61,6 +68,43 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
     }
   }, [pdfUrl]);
 
+  /**
+   * Follow page changes driven by the parent (e.g. transcript sync)
+   */
+  useEffect(() => {
+    if (currentPage >= 1 && (numPages === 0 || currentPage <= numPages)) {
+      setPageNum(currentPage);
+    }
+  }, [currentPage, numPages]);
+
+  /**
+   * Extract the text of every page once the document is loaded
+   */
+  useEffect(() => {
+    if (!pdf || !onTextExtractedRef.current) return;
+
+    let cancelled = false;
+
+    const extractText = async () => {
+      const pageTexts: string[] = [];
+      for (let i = 1; i <= pdf.numPages; i++) {
+        const page = await pdf.getPage(i);
+        const content = await page.getTextContent();
+        pageTexts.push(content.items.map((item: { str?: string }) => item.str || '').join(' '));
+      }
+      if (!cancelled) {
+        console.log('✅ Extracted slide text:', pageTexts.length, 'pages');
+        onTextExtractedRef.current?.(pageTexts);
+      }
+    };
+
+    extractText().catch(err => console.error('❌ Slide text extraction error:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf]);
+
   /**
    * Render current page
    */
@@ -394,9 +438,12 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
       >
         <canvas
           ref={canvasRef}
+          onClick={onSlideClick ? () => onSlideClick(pageNum) : undefined}
+          title={onSlideClick ? 'Jump to where this slide was discussed' : undefined}
           style={{
             boxShadow: '0 4px 6px rgba(0, 0, 0, 0.3)',
             backgroundColor: 'white',
+            cursor: onSlideClick ? 'pointer' : 'default',
           }}
         />
       </div>
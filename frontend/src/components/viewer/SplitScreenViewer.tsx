@@ -2,31 +2,85 @@
 // Split-screen layout with PDF on left, transcript on right
 // Author: Peter Levler
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
 import Split from 'react-split';
 import { PDFViewer } from './PDFViewer';
 import { TranscriptPanel } from './TranscriptPanel';
 import { AudioPlayer } from './AudioPlayer';
 import { ExportButton } from './ExportButton';
+import { useSlideAlignment } from '../../hooks/useSlideAlignment';
+import { pageAtTime, timestampForPage } from '../../utils/slideAlignment';
+import { isTranslated } from '../../utils/bilingual';
+import { translateSegments } from '../../services/translation';
 import type { TranscriptionSegment } from '../../types/transcription';
 import type { AudioFile } from '../../types/upload';
+import type { StudyViewState } from '../../types/library';
+
+// How often the playback position is reported while listening
+const VIEW_STATE_INTERVAL_MS = 5000;
 
 interface SplitScreenViewerProps {
   pdfUrl?: string;
   transcription: TranscriptionSegment[];
   audioFile: AudioFile | null;
+  alignmentKey?: string;  // Persists manual slide corrections, e.g. the transcriptId
+  initialViewState?: StudyViewState;  // Where the reader left off
+  onViewStateChange?: (state: StudyViewState) => void;
+  onTranscriptionChange?: (transcription: TranscriptionSegment[]) => void;  // Translations were attached
 }
 
 export const SplitScreenViewer: React.FC<SplitScreenViewerProps> = ({
   pdfUrl,
   transcription,
   audioFile,
+  alignmentKey,
+  initialViewState,
+  onViewStateChange,
+  onTranscriptionChange,
 }) => {
-  const [currentPage, setCurrentPage] = useState(1);
+  const [currentPage, setCurrentPage] = useState(initialViewState?.pdfPage || 1);
   const [currentSegmentId, setCurrentSegmentId] = useState<string | null>(null);
+  const [currentWordIndex, setCurrentWordIndex] = useState(-1);
   const [searchQuery, setSearchQuery] = useState('');
+  const [slideTexts, setSlideTexts] = useState<string[]>([]);
+  const [followAudio, setFollowAudio] = useState(true);
+  const [bilingual, setBilingual] = useState(Boolean(initialViewState?.bilingual));
+  const [translationProgress, setTranslationProgress] = useState<{ done: number; total: number } | null>(null);
+  const [translationError, setTranslationError] = useState<string | null>(null);
   const audioPlayerRef = useRef<HTMLAudioElement>(null);
 
+  // 🎯 Slide ↔ transcript alignment
+  const { mapping, anchors, pinPage, resetAnchors } = useSlideAlignment(slideTexts, transcription, alignmentKey);
+  const mappingRef = useRef(mapping);
+  mappingRef.current = mapping;
+  const followAudioRef = useRef(followAudio);
+  followAudioRef.current = followAudio;
+  // Last page chosen by the sync, so browsing slides by hand isn't undone on every frame
+  const lastSyncedPageRef = useRef<number | null>(null);
+
+  // 💾 Report playback position and page: on page change, every few seconds while playing, and on close
+  const viewStateRef = useRef<StudyViewState>({
+    playbackPosition: initialViewState?.playbackPosition || 0,
+    pdfPage: initialViewState?.pdfPage || 1,
+    bilingual: Boolean(initialViewState?.bilingual),
+  });
+  const lastReportRef = useRef(0);
+  const onViewStateChangeRef = useRef(onViewStateChange);
+  onViewStateChangeRef.current = onViewStateChange;
+
+  const reportViewState = useCallback(() => {
+    lastReportRef.current = Date.now();
+    onViewStateChangeRef.current?.({ ...viewStateRef.current });
+  }, []);
+
+  useEffect(() => {
+    if (viewStateRef.current.pdfPage === currentPage) return;
+    viewStateRef.current.pdfPage = currentPage;
+    reportViewState();
+  }, [currentPage, reportViewState]);
+
+  useEffect(() => reportViewState, [reportViewState]);
+
   /**
    * Handle page change from PDF viewer
    */
@@ -42,9 +96,62 @@ export const SplitScreenViewer: React.FC<SplitScreenViewerProps> = ({
     setCurrentSegmentId(segmentId);
     console.log('🎯 Segment clicked:', segmentId, 'at', timestamp);
 
-    // TODO: Sync with PDF page if mapping exists
+    // Sync with PDF page if mapping exists
+    const page = pageAtTime(mappingRef.current, timestamp);
+    if (page) {
+      lastSyncedPageRef.current = page;
+      setCurrentPage(page);
+    }
+  }, []);
+
+  /**
+   * Handle slide click - jump to where the slide was discussed
+   */
+  const handleSlideClick = useCallback((page: number) => {
+    const entry = timestampForPage(mappingRef.current, page);
+    if (!entry) return;
+
+    lastSyncedPageRef.current = page;
+    setCurrentSegmentId(entry.segmentId);
+    if (audioPlayerRef.current) {
+      audioPlayerRef.current.currentTime = entry.timestamp;
+      audioPlayerRef.current.play();
+    }
   }, []);
 
+  /**
+   * Toggle the 中文 / English columns, translating the segments that still need it first.
+   * A failed translation still shows the columns, with the missing side marked.
+   */
+  const handleToggleBilingual = useCallback(async () => {
+    if (bilingual) {
+      setBilingual(false);
+      viewStateRef.current.bilingual = false;
+      reportViewState();
+      return;
+    }
+
+    setTranslationError(null);
+    if (!transcription.every(isTranslated)) {
+      try {
+        setTranslationProgress({ done: 0, total: 0 });
+        const translated = await translateSegments(transcription, {
+          onProgress: (done, total) => setTranslationProgress({ done, total }),
+        });
+        onTranscriptionChange?.(translated);
+      } catch (error) {
+        console.error('❌ Translation failed:', error);
+        setTranslationError(error instanceof Error ? error.message : 'Translation failed');
+      } finally {
+        setTranslationProgress(null);
+      }
+    }
+
+    setBilingual(true);
+    viewStateRef.current.bilingual = true;
+    reportViewState();
+  }, [bilingual, transcription, onTranscriptionChange, reportViewState]);
+
   /**
    * Handle search in transcript
    */
@@ -53,13 +160,31 @@ export const SplitScreenViewer: React.FC<SplitScreenViewerProps> = ({
   }, []);
 
   /**
-   * Handle audio time update - auto-highlight current segment
+   * Handle audio time update - auto-highlight current segment and word.
+   * Runs every animation frame during playback; React skips renders when nothing changed.
    */
-  const handleAudioTimeUpdate = useCallback((currentTime: number, currentSegment: TranscriptionSegment | null) => {
-    if (currentSegment && currentSegment.id !== currentSegmentId) {
+  const handleAudioTimeUpdate = useCallback((
+    currentTime: number,
+    currentSegment: TranscriptionSegment | null,
+    wordIndex: number
+  ) => {
+    viewStateRef.current.playbackPosition = currentTime;
+    if (Date.now() - lastReportRef.current >= VIEW_STATE_INTERVAL_MS) {
+      reportViewState();
+    }
+
+    if (currentSegment) {
       setCurrentSegmentId(currentSegment.id);
     }
-  }, [currentSegmentId]);
+    setCurrentWordIndex(currentSegment ? wordIndex : -1);
+
+    // PDF follows the audio
+    const page = pageAtTime(mappingRef.current, currentTime);
+    if (followAudioRef.current && page && page !== lastSyncedPageRef.current) {
+      lastSyncedPageRef.current = page;
+      setCurrentPage(page);
+    }
+  }, [reportViewState]);
 
   return (
     <div
@@ -136,7 +261,96 @@ export const SplitScreenViewer: React.FC<SplitScreenViewerProps> = ({
 
         {/* Export Button - Apple Style */}
         <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-md)' }}>
-          <ExportButton transcription={transcription} audioFile={audioFile} />
+          {/* Slide Sync Controls */}
+          {pdfUrl && mapping.length > 0 && (
+            <>
+              <label
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 'var(--space-xs)',
+                  fontSize: 'var(--text-xs)',
+                  color: 'var(--text-secondary)',
+                  cursor: 'pointer',
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={followAudio}
+                  onChange={(e) => setFollowAudio(e.target.checked)}
+                />
+                Slides follow audio
+              </label>
+
+              <button
+                onClick={() => currentSegmentId && pinPage(currentPage, currentSegmentId)}
+                disabled={!currentSegmentId}
+                className="focus-ring transition-smooth"
+                style={{
+                  padding: 'var(--space-xs) var(--space-sm)',
+                  fontSize: 'var(--text-xs)',
+                  color: 'var(--text-primary)',
+                  backgroundColor: 'transparent',
+                  border: '1px solid var(--border-secondary)',
+                  borderRadius: 'var(--radius-md)',
+                  cursor: currentSegmentId ? 'pointer' : 'not-allowed',
+                  opacity: currentSegmentId ? 1 : 0.5,
+                }}
+                title="Mark the current transcript position as the start of this slide"
+              >
+                📌 Pin page {currentPage} here
+              </button>
+
+              {anchors.length > 0 && (
+                <button
+                  onClick={resetAnchors}
+                  className="focus-ring transition-smooth"
+                  style={{
+                    padding: 'var(--space-xs) var(--space-sm)',
+                    fontSize: 'var(--text-xs)',
+                    color: 'var(--text-secondary)',
+                    backgroundColor: 'transparent',
+                    border: 'none',
+                    cursor: 'pointer',
+                  }}
+                  title="Discard manual slide corrections"
+                >
+                  Reset alignment
+                </button>
+              )}
+            </>
+          )}
+
+          {translationError && (
+            <span
+              style={{ fontSize: 'var(--text-xs)', color: 'var(--color-error)' }}
+              title={translationError}
+            >
+              Translation unavailable
+            </span>
+          )}
+
+          <button
+            onClick={handleToggleBilingual}
+            disabled={translationProgress !== null}
+            className="focus-ring transition-smooth"
+            style={{
+              padding: 'var(--space-xs) var(--space-sm)',
+              fontSize: 'var(--text-xs)',
+              color: bilingual ? 'var(--color-white)' : 'var(--text-primary)',
+              backgroundColor: bilingual ? 'var(--color-primary)' : 'transparent',
+              border: '1px solid var(--border-secondary)',
+              borderRadius: 'var(--radius-md)',
+              cursor: translationProgress ? 'wait' : 'pointer',
+            }}
+            title={bilingual ? 'Show the transcript as spoken' : 'Show 中文 and English side by side'}
+          >
+            {translationProgress
+              ? `Translating ${translationProgress.done}/${translationProgress.total}…`
+              : '🌐 中 / EN'}
+          </button>
+
+          <ExportButton transcription={transcription} audioFile={audioFile} bilingual={bilingual} />
         </div>
       </div>
 
@@ -166,6 +380,8 @@ export const SplitScreenViewer: React.FC<SplitScreenViewerProps> = ({
               pdfUrl={pdfUrl}
               currentPage={currentPage}
               onPageChange={handlePageChange}
+              onTextExtracted={setSlideTexts}
+              onSlideClick={handleSlideClick}
             />
           </div>
 
@@ -180,10 +396,12 @@ export const SplitScreenViewer: React.FC<SplitScreenViewerProps> = ({
             <TranscriptPanel
               transcription={transcription}
               currentSegmentId={currentSegmentId}
+              currentWordIndex={currentWordIndex}
               searchQuery={searchQuery}
               onSegmentClick={handleSegmentClick}
               onSearch={handleSearch}
               audioPlayerRef={audioPlayerRef}
+              bilingual={bilingual}
             />
           </div>
         </Split>
@@ -200,10 +418,12 @@ export const SplitScreenViewer: React.FC<SplitScreenViewerProps> = ({
           <TranscriptPanel
             transcription={transcription}
             currentSegmentId={currentSegmentId}
+            currentWordIndex={currentWordIndex}
             searchQuery={searchQuery}
             onSegmentClick={handleSegmentClick}
             onSearch={handleSearch}
             audioPlayerRef={audioPlayerRef}
+            bilingual={bilingual}
           />
         </div>
       )}
@@ -213,6 +433,8 @@ export const SplitScreenViewer: React.FC<SplitScreenViewerProps> = ({
         audioFile={audioFile}
         transcription={transcription}
         onTimeUpdate={handleAudioTimeUpdate}
+        audioRef={audioPlayerRef}
+        initialTime={initialViewState?.playbackPosition}
       />
 
       {/* Styles for Split */}
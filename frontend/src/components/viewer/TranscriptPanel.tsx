@@ -2,106 +2,171 @@
 // High-performance transcript display using react-window
 // Author: Peter Levler
 
-import React, { useState, useMemo, useCallback, useRef } from 'react';
-import { FixedSizeList as List } from 'react-window';
+import React, { useState, useMemo, useCallback, useRef, useEffect, useLayoutEffect, memo } from 'react';
+import { VariableSizeList as List, areEqual } from 'react-window';
+import type { ListChildComponentProps } from 'react-window';
 import type { TranscriptionSegment } from '../../types/transcription';
+import { needsSpaceBefore } from '../../utils/transcriptDocument';
+import { bilingualPair } from '../../utils/bilingual';
 
 interface TranscriptPanelProps {
   transcription: TranscriptionSegment[];
   currentSegmentId: string | null;
+  currentWordIndex?: number;  // Word being spoken in the current segment, -1 for none
   searchQuery: string;
   onSegmentClick: (segmentId: string, timestamp: number) => void;
   onSearch: (query: string) => void;
   audioPlayerRef?: React.RefObject<HTMLAudioElement>;  // 新增：音訊播放器引用
+  bilingual?: boolean;  // 中文 / English columns from segment translations
 }
 
-export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({
-  transcription,
-  currentSegmentId,
-  searchQuery,
-  onSegmentClick,
-  onSearch,
-  audioPlayerRef,
-}) => {
-  const [localSearch, setLocalSearch] = useState('');
-  const listRef = useRef<List>(null);
-  const containerRef = useRef<HTMLDivElement>(null);
-  const activeSegmentRef = useRef<HTMLDivElement>(null);
+interface RowData {
+  segments: TranscriptionSegment[];
+  currentSegmentId: string | null;
+  currentWordIndex: number;
+  searchQuery: string;
+  bilingual: boolean;
+  onSeek: (segment: TranscriptionSegment, time: number) => void;
+  setRowHeight: (index: number, height: number) => void;
+  activeWordRef: React.MutableRefObject<HTMLSpanElement | null>;
+}
 
-  /**
-   * Format timestamp to MM:SS
-   */
-  const formatTime = (seconds: number): string => {
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
-  };
+const ESTIMATED_ROW_HEIGHT = 100;
+const BILINGUAL_HEADER_HEIGHT = 33;
+// Keep the highlighted word at least this far from the list edges
+const WORD_SCROLL_MARGIN = 48;
+// Don't fight the user: pause auto-follow for a while after a manual scroll
+const MANUAL_SCROLL_PAUSE_MS = 4000;
 
-  /**
-   * Filter and highlight segments based on search
-   */
-  const filteredSegments = useMemo(() => {
-    if (!searchQuery) return transcription;
+/**
+ * Format timestamp to MM:SS
+ */
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
 
-    const query = searchQuery.toLowerCase();
-    return transcription.filter(seg =>
-      seg.text.toLowerCase().includes(query)
-    );
-  }, [transcription, searchQuery]);
+/**
+ * Highlight search term in text
+ */
+const highlightText = (text: string, query: string): React.ReactNode => {
+  if (!query) return text;
 
-  /**
-   * Highlight search term in text
-   */
-  const highlightText = (text: string, query: string): React.ReactNode => {
-    if (!query) return text;
-
-    const parts = text.split(new RegExp(`(${query})`, 'gi'));
-    return parts.map((part, idx) =>
-      part.toLowerCase() === query.toLowerCase() ? (
-        <mark
-          key={idx}
-          style={{
-            backgroundColor: '#fef08a',
-            color: '#1f2937',
-            padding: '2px 0',
-          }}
-        >
-          {part}
-        </mark>
-      ) : (
-        part
-      )
-    );
-  };
+  const parts = text.split(new RegExp(`(${query})`, 'gi'));
+  return parts.map((part, idx) =>
+    part.toLowerCase() === query.toLowerCase() ? (
+      <mark
+        key={idx}
+        style={{
+          backgroundColor: '#fef08a',
+          color: '#1f2937',
+          padding: '2px 0',
+        }}
+      >
+        {part}
+      </mark>
+    ) : (
+      part
+    )
+  );
+};
 
-  /**
-   * Handle search submit
-   */
-  const handleSearchSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    onSearch(localSearch);
-  };
+/**
+ * Render individual segment row. Defined outside the panel so rows survive playback
+ * re-renders instead of remounting on every highlighted word.
+ */
+const TranscriptRow = memo(({ index, style, data }: ListChildComponentProps<RowData>) => {
+  const { segments, currentSegmentId, currentWordIndex, searchQuery, bilingual, onSeek, setRowHeight, activeWordRef } = data;
+  const segment = segments[index];
+  const isActive = segment.id === currentSegmentId;
+  const words = segment.words || [];
+  const contentRef = useRef<HTMLDivElement>(null);
 
-  /**
-   * Clear search
-   */
-  const clearSearch = () => {
-    setLocalSearch('');
-    onSearch('');
+  // Rows are as tall as their text; report the measured height back to the list
+  useLayoutEffect(() => {
+    if (contentRef.current) {
+      setRowHeight(index, contentRef.current.offsetHeight);
+    }
+  });
+
+  const renderText = () => {
+    // Search highlighting works on the plain text
+    if (searchQuery || words.length === 0) {
+      return highlightText(segment.text, searchQuery);
+    }
+
+    return words.map((word, wordIndex) => {
+      const isCurrentWord = isActive && wordIndex === currentWordIndex;
+      const isSpoken = isActive && wordIndex < currentWordIndex;
+      const spaced = wordIndex > 0 && (/^\s/.test(word.word) || needsSpaceBefore(word.word));
+
+      return (
+        <React.Fragment key={wordIndex}>
+          {spaced && ' '}
+          <span
+            ref={isCurrentWord ? activeWordRef : undefined}
+            onClick={(e) => {
+              e.stopPropagation();
+              onSeek(segment, word.start);
+            }}
+            style={{
+              cursor: 'pointer',
+              borderRadius: '3px',
+              padding: '1px 0',
+              backgroundColor: isCurrentWord ? 'rgba(255, 200, 0, 0.55)' : 'transparent',
+              color: isActive && !isSpoken && !isCurrentWord ? '#4b5563' : '#1f2937',
+              transition: 'background-color 0.1s linear',
+            }}
+          >
+            {word.word.trim()}
+          </span>
+        </React.Fragment>
+      );
+    });
   };
 
   /**
-   * Render individual segment row
+   * 中文 and English side by side; the column holding the spoken text keeps the word highlighting
    */
-  const Row = ({ index, style }: { index: number; style: React.CSSProperties }) => {
-    const segment = filteredSegments[index];
-    const isActive = segment.id === currentSegmentId;
+  const renderColumns = () => {
+    const pair = bilingualPair(segment);
+
+    const column = (language: 'zh' | 'en') => {
+      const text = pair[language];
+      return (
+        <div
+          lang={language === 'zh' ? 'zh-HK' : 'en'}
+          style={{
+            fontSize: pair.original === language ? '15px' : '14px',
+            lineHeight: '1.6',
+            color: pair.original === language ? '#1f2937' : '#4b5563',
+            wordBreak: 'break-word',
+            minWidth: 0,
+          }}
+        >
+          {pair.original === language
+            ? renderText()
+            : text
+              ? highlightText(text, searchQuery)
+              : <span style={{ color: '#9ca3af', fontStyle: 'italic' }}>Not translated</span>}
+        </div>
+      );
+    };
 
     return (
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px' }}>
+        {column('zh')}
+        {column('en')}
+      </div>
+    );
+  };
+
+  return (
+    <div style={style}>
       <div
-        ref={isActive ? activeSegmentRef : null}
+        ref={contentRef}
         style={{
-          ...style,
           padding: 'var(--space-md) var(--space-lg)',
           cursor: 'pointer',
           backgroundColor: isActive ? 'rgba(255, 200, 0, 0.15)' : 'transparent',
@@ -110,14 +175,7 @@ export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({
           transition: 'all var(--transition-base)',
           boxShadow: isActive ? 'inset 0 0 20px rgba(0, 122, 255, 0.1)' : 'none',
         }}
-        onClick={() => {
-          onSegmentClick(segment.id, segment.start);
-          // 點擊時跳轉音訊時間
-          if (audioPlayerRef?.current) {
-            audioPlayerRef.current.currentTime = segment.start;
-            audioPlayerRef.current.play();
-          }
-        }}
+        onClick={() => onSeek(segment, segment.start)}
         onMouseEnter={(e) => {
           if (!isActive) {
             e.currentTarget.style.backgroundColor = 'var(--bg-tertiary)';
@@ -161,47 +219,159 @@ export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({
             )}
 
             {/* Text */}
-            <div
-              style={{
-                fontSize: '15px',
-                lineHeight: '1.6',
-                color: '#1f2937',
-                wordBreak: 'break-word',
-              }}
-            >
-              {highlightText(segment.text, searchQuery)}
-            </div>
+            {bilingual ? renderColumns() : (
+              <div
+                style={{
+                  fontSize: '15px',
+                  lineHeight: '1.6',
+                  color: '#1f2937',
+                  wordBreak: 'break-word',
+                }}
+              >
+                {renderText()}
+              </div>
+            )}
           </div>
         </div>
       </div>
+    </div>
+  );
+}, areEqual);
+
+export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({
+  transcription,
+  currentSegmentId,
+  currentWordIndex = -1,
+  searchQuery,
+  onSegmentClick,
+  onSearch,
+  audioPlayerRef,
+  bilingual = false,
+}) => {
+  const [localSearch, setLocalSearch] = useState('');
+  const listRef = useRef<List>(null);
+  const listOuterRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeWordRef = useRef<HTMLSpanElement | null>(null);
+  const rowHeightsRef = useRef<Record<number, number>>({});
+  const lastManualScrollRef = useRef(0);
+
+  /**
+   * Filter and highlight segments based on search
+   */
+  const filteredSegments = useMemo(() => {
+    if (!searchQuery) return transcription;
+
+    const query = searchQuery.toLowerCase();
+    return transcription.filter(seg =>
+      seg.text.toLowerCase().includes(query) ||
+      Object.values(seg.translations || {}).some(text => text?.toLowerCase().includes(query))
     );
+  }, [transcription, searchQuery]);
+
+  /**
+   * Handle search submit
+   */
+  const handleSearchSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSearch(localSearch);
   };
 
+  /**
+   * Clear search
+   */
+  const clearSearch = () => {
+    setLocalSearch('');
+    onSearch('');
+  };
+
+  /**
+   * Seek audio to a segment or word - 點擊時跳轉音訊時間
+   */
+  const seekTo = useCallback((segment: TranscriptionSegment, time: number) => {
+    onSegmentClick(segment.id, time);
+    if (audioPlayerRef?.current) {
+      audioPlayerRef.current.currentTime = time;
+      audioPlayerRef.current.play();
+    }
+  }, [onSegmentClick, audioPlayerRef]);
+
+  const setRowHeight = useCallback((index: number, height: number) => {
+    if (rowHeightsRef.current[index] === height) return;
+    rowHeightsRef.current[index] = height;
+    listRef.current?.resetAfterIndex(index);
+  }, []);
+
+  const getItemSize = (index: number) => rowHeightsRef.current[index] || ESTIMATED_ROW_HEIGHT;
+
+  // Row indexes shift when the search filter changes, and rows reflow when the columns are
+  // toggled, so measured heights no longer apply
+  useEffect(() => {
+    rowHeightsRef.current = {};
+    listRef.current?.resetAfterIndex(0);
+  }, [filteredSegments, bilingual]);
+
+  const itemData = useMemo<RowData>(() => ({
+    segments: filteredSegments,
+    currentSegmentId,
+    currentWordIndex,
+    searchQuery,
+    bilingual,
+    onSeek: seekTo,
+    setRowHeight,
+    activeWordRef,
+  }), [filteredSegments, currentSegmentId, currentWordIndex, searchQuery, bilingual, seekTo, setRowHeight]);
+
   /**
    * Get container height for virtual list
    */
   const getContainerHeight = () => {
     if (containerRef.current) {
-      return containerRef.current.clientHeight - 73; // minus search bar
+      return containerRef.current.clientHeight - 73 - (bilingual ? BILINGUAL_HEADER_HEIGHT : 0); // minus search bar and column headings
     }
     return 600;
   };
 
+  const isFollowPaused = () => Date.now() - lastManualScrollRef.current < MANUAL_SCROLL_PAUSE_MS;
+
   /**
-   * Auto-scroll to active segment when currentSegmentId changes
+   * Bring the active segment into the virtual list when currentSegmentId changes
    */
-  React.useEffect(() => {
-    if (currentSegmentId && activeSegmentRef.current) {
-      activeSegmentRef.current.scrollIntoView({
+  useEffect(() => {
+    if (!currentSegmentId || isFollowPaused()) return;
+
+    const index = filteredSegments.findIndex(seg => seg.id === currentSegmentId);
+    if (index !== -1) {
+      listRef.current?.scrollToItem(index, 'smart');
+    }
+  }, [currentSegmentId, filteredSegments]);
+
+  /**
+   * Keep the spoken word visible inside long segments
+   */
+  useEffect(() => {
+    const word = activeWordRef.current;
+    const outer = listOuterRef.current;
+    if (!word || !outer || currentWordIndex < 0 || isFollowPaused()) return;
+
+    const wordRect = word.getBoundingClientRect();
+    const outerRect = outer.getBoundingClientRect();
+    const isAbove = wordRect.top < outerRect.top + WORD_SCROLL_MARGIN;
+    const isBelow = wordRect.bottom > outerRect.bottom - WORD_SCROLL_MARGIN;
+
+    if (isAbove || isBelow) {
+      outer.scrollTo({
+        top: outer.scrollTop + (wordRect.top - outerRect.top) - outer.clientHeight / 3,
         behavior: 'smooth',
-        block: 'center',
       });
     }
-  }, [currentSegmentId]);
+  }, [currentSegmentId, currentWordIndex]);
 
   return (
     <div
       ref={containerRef}
+      onWheel={() => { lastManualScrollRef.current = Date.now(); }}
+      onTouchMove={() => { lastManualScrollRef.current = Date.now(); }}
       style={{
         height: '100%',
         display: 'flex',
@@ -293,19 +463,47 @@ export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({
         )}
       </div>
 
+      {/* Column Headings */}
+      {bilingual && filteredSegments.length > 0 && (
+        <div
+          style={{
+            display: 'flex',
+            gap: '16px',
+            height: `${BILINGUAL_HEADER_HEIGHT}px`,
+            alignItems: 'center',
+            padding: '0 var(--space-lg)',
+            borderBottom: '1px solid #e5e7eb',
+            backgroundColor: '#f9fafb',
+            fontSize: '12px',
+            fontWeight: '600',
+            color: '#6b7280',
+            boxSizing: 'border-box',
+          }}
+        >
+          <div style={{ minWidth: '60px', marginLeft: '4px' }}>Time</div>
+          <div style={{ flex: 1, display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px' }}>
+            <span>中文</span>
+            <span>English</span>
+          </div>
+        </div>
+      )}
+
       {/* Transcript List */}
       {filteredSegments.length > 0 ? (
         <List
           ref={listRef}
+          outerRef={listOuterRef}
           height={getContainerHeight()}
           itemCount={filteredSegments.length}
-          itemSize={100} // Approximate height per segment
+          itemSize={getItemSize}
+          estimatedItemSize={ESTIMATED_ROW_HEIGHT}
+          itemData={itemData}
           width="100%"
           style={{
             overflow: 'auto',
           }}
         >
-          {Row}
+          {TranscriptRow}
         </List>
       ) : (
         // Empty State
@@ -1,8 +1,18 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import type { AudioRecordingState } from '../types';
 import { AudioProcessor, createOptimizedMediaRecorder } from '../utils/audioProcessor';
-
-export const useAudioRecording = () => {
+import { PcmCapture, isPcmCaptureSupported } from '../services/pcmCapture';
+import type { PcmChunk } from '../utils/pcmChunker';
+
+interface UseAudioRecordingOptions {
+  /**
+   * Receives the recording cut into chunks at pauses while it runs, where AudioWorklet is supported.
+   * The recorder still produces the whole recording as one blob.
+   */
+  onChunk?: (chunk: PcmChunk) => void;
+}
+
+export const useAudioRecording = (options: UseAudioRecordingOptions = {}) => {
   const [state, setState] = useState<AudioRecordingState>({
     isRecording: false,
     isPaused: false,
@@ -18,6 +28,11 @@ export const useAudioRecording = () => {
   const startTimeRef = useRef<number>(0);
   const pausedDurationRef = useRef<number>(0);
   const audioChunks = useRef<Blob[]>([]);
+  const pcmCaptureRef = useRef<PcmCapture | null>(null);
+  const onChunkRef = useRef(options.onChunk);
+  onChunkRef.current = options.onChunk;
+  // Whether the current or last recording was also delivered in chunks
+  const [isChunked, setIsChunked] = useState(false);
 
   const updateDuration = useCallback(() => {
     if (state.isRecording && !state.isPaused) {
@@ -67,10 +82,23 @@ export const useAudioRecording = () => {
   const startRecording = useCallback(async () => {
     try {
       setState(prev => ({ ...prev, error: null }));
+      setIsChunked(false);
 
       const stream = await requestMicrophonePermission();
       await audioProcessor.current.initialize(stream);
 
+      if (onChunkRef.current && isPcmCaptureSupported()) {
+        const capture = new PcmCapture({ onChunk: chunk => onChunkRef.current?.(chunk) });
+        try {
+          await capture.start(stream);
+          pcmCaptureRef.current = capture;
+          setIsChunked(true);
+        } catch (error) {
+          // The recorder alone still captures the whole lecture
+          console.warn('⚠️ PCM capture unavailable, recording without chunks:', error);
+        }
+      }
+
       audioChunks.current = [];
       startTimeRef.current = Date.now();
       pausedDurationRef.current = 0;
@@ -116,6 +144,7 @@ export const useAudioRecording = () => {
   const pauseRecording = useCallback(() => {
     if (state.mediaRecorder && state.isRecording && !state.isPaused) {
       state.mediaRecorder.pause();
+      pcmCaptureRef.current?.pause().catch(error => console.warn('⚠️ Failed to pause PCM capture:', error));
       pausedDurationRef.current += Date.now() - startTimeRef.current;
       setState(prev => ({ ...prev, isPaused: true }));
     }
@@ -124,6 +153,7 @@ export const useAudioRecording = () => {
   const resumeRecording = useCallback(() => {
     if (state.mediaRecorder && state.isRecording && state.isPaused) {
       state.mediaRecorder.resume();
+      pcmCaptureRef.current?.resume().catch(error => console.warn('⚠️ Failed to resume PCM capture:', error));
       startTimeRef.current = Date.now();
       setState(prev => ({ ...prev, isPaused: false }));
     }
@@ -131,12 +161,22 @@ export const useAudioRecording = () => {
 
   const stopRecording = useCallback(() => {
     if (state.mediaRecorder && state.isRecording) {
-      state.mediaRecorder.stop();
-
-      // Stop all tracks to release microphone
-      if (state.stream) {
-        state.stream.getTracks().forEach(track => track.stop());
-      }
+      const mediaRecorder = state.mediaRecorder;
+      const stream = state.stream;
+      const capture = pcmCaptureRef.current;
+      pcmCaptureRef.current = null;
+
+      // The last chunk is emitted as capture stops, so it arrives before the recorder's blob
+      (capture ? capture.stop() : Promise.resolve())
+        .catch(error => console.warn('⚠️ Failed to stop PCM capture:', error))
+        .finally(() => {
+          mediaRecorder.stop();
+
+          // Stop all tracks to release microphone
+          if (stream) {
+            stream.getTracks().forEach(track => track.stop());
+          }
+        });
 
       // Cleanup audio processor
       audioProcessor.current.cleanup();
@@ -157,6 +197,7 @@ export const useAudioRecording = () => {
     audioChunks.current = [];
     startTimeRef.current = 0;
     pausedDurationRef.current = 0;
+    setIsChunked(false);
 
     setState({
       isRecording: false,
@@ -186,6 +227,7 @@ export const useAudioRecording = () => {
         state.stream.getTracks().forEach(track => track.stop());
       }
       audioProcessor.current.cleanup();
+      pcmCaptureRef.current?.stop();
       if (intervalRef.current) {
         clearInterval(intervalRef.current);
       }
@@ -194,6 +236,7 @@ export const useAudioRecording = () => {
 
   return {
     ...state,
+    isChunked,
     startRecording,
     pauseRecording,
     resumeRecording,
@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import { chunkQueue } from '../services/chunkQueue';
+import type { ChunkQueueState, AssembledSession, ChunkTiming } from '../types/chunkQueue';
+
+interface UseChunkQueueResult extends ChunkQueueState {
+  session: AssembledSession | null;
+  enqueue: (chunkIndex: number, audio: Blob, contextId?: string, overlap?: number, timing?: ChunkTiming) => Promise<void>;
+  retryFailed: () => Promise<void>;
+  clearSession: () => Promise<void>;
+}
+
+/**
+ * Queue-wide pending/failed counts, plus the in-order transcript of one session when given
+ */
+export const useChunkQueue = (sessionId?: string): UseChunkQueueResult => {
+  const [state, setState] = useState<ChunkQueueState>(chunkQueue.getState());
+  const [session, setSession] = useState<AssembledSession | null>(null);
+
+  useEffect(() => {
+    chunkQueue.start().catch(err => console.error('Failed to start chunk queue:', err));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const refreshSession = async () => {
+      if (!sessionId) {
+        setSession(null);
+        return;
+      }
+      const assembled = await chunkQueue.assemble(sessionId);
+      if (!cancelled) setSession(assembled);
+    };
+
+    refreshSession();
+
+    const unsubscribe = chunkQueue.subscribe((nextState, changedSessionId) => {
+      setState(nextState);
+      if (sessionId && (!changedSessionId || changedSessionId === sessionId)) {
+        refreshSession();
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [sessionId]);
+
+  const enqueue = useCallback(async (chunkIndex: number, audio: Blob, contextId?: string, overlap?: number, timing?: ChunkTiming) => {
+    if (!sessionId) throw new Error('No active session');
+    await chunkQueue.enqueue(sessionId, chunkIndex, audio, contextId, overlap, timing);
+  }, [sessionId]);
+
+  const retryFailed = useCallback(() => chunkQueue.retryFailed(sessionId), [sessionId]);
+
+  const clearSession = useCallback(async () => {
+    if (sessionId) await chunkQueue.clearSession(sessionId);
+  }, [sessionId]);
+
+  return { ...state, session, enqueue, retryFailed, clearSession };
+};
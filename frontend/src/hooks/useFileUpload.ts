@@ -22,6 +22,9 @@ interface UseFileUploadReturn {
     audio: number;
     pdf: number;
   };
+  // Speed, ETA, pause state and, for a split recording, the part being prepared or uploaded
+  audioProgress: UploadProgress | null;
+  pdfProgress: UploadProgress | null;
   errors: {
     audio?: string;
     pdf?: string;
@@ -34,6 +37,8 @@ interface UseFileUploadReturn {
   validateAudioFile: (file: File) => ValidationResult;
   validatePDFFile: (file: File) => ValidationResult;
   cancelUpload: (type: 'audio' | 'pdf') => void;
+  pauseUpload: (type: 'audio' | 'pdf') => void;
+  resumeUpload: (type: 'audio' | 'pdf') => void;
   clearAudio: () => void;
   clearPDF: () => void;
   clearAll: () => void;
@@ -51,6 +56,8 @@ export const useFileUpload = (): UseFileUploadReturn => {
     audio: 0,
     pdf: 0,
   });
+  const [audioProgress, setAudioProgress] = useState<UploadProgress | null>(null);
+  const [pdfProgress, setPDFProgress] = useState<UploadProgress | null>(null);
   const [errors, setErrors] = useState<{
     audio?: string;
     pdf?: string;
@@ -107,6 +114,7 @@ export const useFileUpload = (): UseFileUploadReturn => {
       setAudioFile(audioFileObj);
       setIsUploading(true);
       setUploadProgress(prev => ({ ...prev, audio: 0 }));
+      setAudioProgress(null);
 
       // Upload with progress tracking
       const response = await uploadService.uploadAudio(
@@ -116,12 +124,14 @@ export const useFileUpload = (): UseFileUploadReturn => {
             ...prev,
             audio: progress.percentage,
           }));
+          setAudioProgress(progress);
 
           setAudioFile(prev => prev ? {
             ...prev,
             uploadProgress: progress.percentage,
           } : null);
-        }
+        },
+        fileId
       );
 
       // Update file object with response - now in processing state
@@ -218,6 +228,7 @@ export const useFileUpload = (): UseFileUploadReturn => {
       setPDFFile(pdfFileObj);
       setIsUploading(true);
       setUploadProgress(prev => ({ ...prev, pdf: 0 }));
+      setPDFProgress(null);
 
       // Upload with progress tracking
       const response = await uploadService.uploadPDF(
@@ -227,12 +238,14 @@ export const useFileUpload = (): UseFileUploadReturn => {
             ...prev,
             pdf: progress.percentage,
           }));
+          setPDFProgress(progress);
 
           setPDFFile(prev => prev ? {
             ...prev,
             uploadProgress: progress.percentage,
           } : null);
-        }
+        },
+        fileId
       );
 
       // Update file object with response
@@ -287,6 +300,26 @@ export const useFileUpload = (): UseFileUploadReturn => {
     }
   }, []);
 
+  /**
+   * Pause a chunked upload by type; uploads sent in one request keep going
+   */
+  const pauseUpload = useCallback((type: 'audio' | 'pdf') => {
+    const fileId = type === 'audio' ? audioFileIdRef.current : pdfFileIdRef.current;
+    if (fileId && !uploadService.pauseUpload(fileId)) {
+      console.warn(`⚠️ ${type} upload cannot be paused`);
+    }
+  }, []);
+
+  /**
+   * Resume a paused upload by type
+   */
+  const resumeUpload = useCallback((type: 'audio' | 'pdf') => {
+    const fileId = type === 'audio' ? audioFileIdRef.current : pdfFileIdRef.current;
+    if (fileId) {
+      uploadService.resumeUpload(fileId);
+    }
+  }, []);
+
   /**
    * Clear audio file
    */
@@ -296,6 +329,7 @@ export const useFileUpload = (): UseFileUploadReturn => {
     }
     setAudioFile(null);
     setUploadProgress(prev => ({ ...prev, audio: 0 }));
+    setAudioProgress(null);
     setErrors(prev => ({ ...prev, audio: undefined }));
   }, [audioFile, cancelUpload]);
 
@@ -308,6 +342,7 @@ export const useFileUpload = (): UseFileUploadReturn => {
     }
     setPDFFile(null);
     setUploadProgress(prev => ({ ...prev, pdf: 0 }));
+    setPDFProgress(null);
     setErrors(prev => ({ ...prev, pdf: undefined }));
   }, [pdfFile, cancelUpload]);
 
@@ -339,6 +374,8 @@ export const useFileUpload = (): UseFileUploadReturn => {
     pdfFile,
     isUploading,
     uploadProgress,
+    audioProgress,
+    pdfProgress,
     errors,
     processingStatus,
 
@@ -348,6 +385,8 @@ export const useFileUpload = (): UseFileUploadReturn => {
     validateAudioFile,
     validatePDFFile,
     cancelUpload,
+    pauseUpload,
+    resumeUpload,
     clearAudio,
     clearPDF,
     clearAll,
@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback } from 'react';
+
+export type RouteName = 'live' | 'study' | 'studyViewer' | 'library' | 'recording' | 'billing' | 'settings';
+
+export interface RouteMatch {
+  name: RouteName;
+  params: Record<string, string>;
+}
+
+// Order matters: the first pattern that matches wins
+const ROUTES: Array<{ name: RouteName; pattern: string }> = [
+  { name: 'live', pattern: '/live' },
+  { name: 'studyViewer', pattern: '/study/:transcriptId' },
+  { name: 'study', pattern: '/study' },
+  { name: 'recording', pattern: '/library/:recordingId' },
+  { name: 'library', pattern: '/library' },
+  { name: 'billing', pattern: '/billing' },
+  { name: 'settings', pattern: '/settings' },
+];
+
+const DEFAULT_ROUTE: RouteMatch = { name: 'live', params: {} };
+
+// pushState does not fire popstate, so in-app navigation announces itself with this event
+const NAVIGATE_EVENT = 'lecturescript:navigate';
+
+const splitPath = (path: string): string[] => path.split('/').filter(Boolean);
+
+export const matchRoute = (pathname: string): RouteMatch | null => {
+  const pathParts = splitPath(pathname);
+
+  for (const route of ROUTES) {
+    const patternParts = splitPath(route.pattern);
+    if (patternParts.length !== pathParts.length) continue;
+
+    const params: Record<string, string> = {};
+    const matches = patternParts.every((part, index) => {
+      if (part.startsWith(':')) {
+        params[part.slice(1)] = decodeURIComponent(pathParts[index]);
+        return true;
+      }
+      return part === pathParts[index];
+    });
+
+    if (matches) {
+      return { name: route.name, params };
+    }
+  }
+
+  return null;
+};
+
+export const buildPath = (name: RouteName, params: Record<string, string> = {}): string => {
+  const route = ROUTES.find(r => r.name === name);
+  if (!route) return '/';
+
+  return route.pattern.replace(/:([a-zA-Z]+)/g, (_, key: string) => encodeURIComponent(params[key] || ''));
+};
+
+/**
+ * Playback position from a "?t=" deep link (seconds, or h:mm:ss), as used by flashcard links
+ */
+export const getStartTimeParam = (): number | null => {
+  const value = new URLSearchParams(window.location.search).get('t');
+  if (!value) return null;
+
+  const seconds = value.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+};
+
+export const navigate = (path: string, options: { replace?: boolean } = {}): void => {
+  if (path === window.location.pathname) return;
+
+  if (options.replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+};
+
+export const useRouter = () => {
+  const [pathname, setPathname] = useState(() => window.location.pathname);
+  const matched = matchRoute(pathname);
+
+  useEffect(() => {
+    const handleLocationChange = () => setPathname(window.location.pathname);
+
+    window.addEventListener('popstate', handleLocationChange);
+    window.addEventListener(NAVIGATE_EVENT, handleLocationChange);
+
+    return () => {
+      window.removeEventListener('popstate', handleLocationChange);
+      window.removeEventListener(NAVIGATE_EVENT, handleLocationChange);
+    };
+  }, []);
+
+  // Unknown paths (including "/") fall back to live recording
+  useEffect(() => {
+    if (!matched) {
+      navigate(buildPath(DEFAULT_ROUTE.name), { replace: true });
+    }
+  }, [matched]);
+
+  const navigateTo = useCallback((name: RouteName, params: Record<string, string> = {}, options: { replace?: boolean } = {}) => {
+    navigate(buildPath(name, params), options);
+  }, []);
+
+  return {
+    route: matched || DEFAULT_ROUTE,
+    navigate: navigateTo,
+  };
+};
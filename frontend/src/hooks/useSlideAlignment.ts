@@ -0,0 +1,57 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { alignSlidesToTranscript, addAnchor } from '../utils/slideAlignment';
+import type { AlignmentAnchor } from '../utils/slideAlignment';
+import type { PageTimestamp, TranscriptionSegment } from '../types/transcription';
+
+interface UseSlideAlignmentResult {
+  mapping: PageTimestamp[];
+  anchors: AlignmentAnchor[];
+  pinPage: (pageNumber: number, segmentId: string) => void;
+  resetAnchors: () => void;
+}
+
+const anchorStorageKey = (key: string) => `lecturescript-slide-anchors-${key}`;
+
+const loadAnchors = (key?: string): AlignmentAnchor[] => {
+  if (!key) return [];
+  try {
+    return JSON.parse(localStorage.getItem(anchorStorageKey(key)) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Slide/transcript mapping with manual corrections, persisted per transcript when a key is given
+ */
+export const useSlideAlignment = (
+  slideTexts: string[],
+  segments: TranscriptionSegment[],
+  storageKey?: string
+): UseSlideAlignmentResult => {
+  const [anchors, setAnchors] = useState<AlignmentAnchor[]>(() => loadAnchors(storageKey));
+
+  useEffect(() => {
+    setAnchors(loadAnchors(storageKey));
+  }, [storageKey]);
+
+  const mapping = useMemo(
+    () => alignSlidesToTranscript(slideTexts, segments, anchors),
+    [slideTexts, segments, anchors]
+  );
+
+  const saveAnchors = useCallback((next: AlignmentAnchor[]) => {
+    setAnchors(next);
+    if (storageKey) {
+      localStorage.setItem(anchorStorageKey(storageKey), JSON.stringify(next));
+    }
+  }, [storageKey]);
+
+  const pinPage = useCallback((pageNumber: number, segmentId: string) => {
+    saveAnchors(addAnchor(anchors, { pageNumber, segmentId }, segments));
+  }, [anchors, segments, saveAnchors]);
+
+  const resetAnchors = useCallback(() => saveAnchors([]), [saveAnchors]);
+
+  return { mapping, anchors, pinPage, resetAnchors };
+};
@@ -1,10 +1,10 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
-import StudyModeApp from './StudyModeApp.tsx'
+import AppShell from './AppShell.tsx'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <StudyModeApp />
+    <AppShell />
   </StrictMode>,
 )
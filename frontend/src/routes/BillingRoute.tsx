@@ -0,0 +1,29 @@
+// 🎯 LectureScript - Billing Route
+// Usage and payments for the local user
+// Author: Peter Levler
+
+import React, { useState } from 'react';
+import { BillingDashboard } from '../components/billing';
+
+const USER_ID_KEY = 'lecturescript-user-id';
+
+const getLocalUserId = (): string => {
+  const existing = localStorage.getItem(USER_ID_KEY);
+  if (existing) return existing;
+
+  const userId = `user-${Date.now()}`;
+  localStorage.setItem(USER_ID_KEY, userId);
+  return userId;
+};
+
+export const BillingRoute: React.FC = () => {
+  const [userId] = useState(getLocalUserId);
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-6xl">
+      <BillingDashboard userId={userId} />
+    </div>
+  );
+};
+
+export default BillingRoute;
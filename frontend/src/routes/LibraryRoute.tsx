@@ -0,0 +1,82 @@
+// 🎯 LectureScript - Library Route
+// Recording library with deep links to individual recordings
+// Author: Peter Levler
+
+import React from 'react';
+import LibraryView from '../components/library/LibraryView';
+import type { RecordingEntry } from '../types/library';
+
+const lightTheme = {
+  primary: '#37352f',
+  secondary: '#787774',
+  accent: '#2383e2',
+  background: '#ffffff',
+  surface: '#f7f6f3',
+  text: '#37352f',
+  textSecondary: '#787774',
+  border: '#e9e9e7',
+  hover: '#f1f1ef',
+  shadow: 'rgba(15, 15, 15, 0.05)'
+};
+
+const darkTheme = {
+  primary: '#ffffff',
+  secondary: '#9b9a97',
+  accent: '#529cca',
+  background: '#191919',
+  surface: '#2f3437',
+  text: '#ffffff',
+  textSecondary: '#9b9a97',
+  border: '#373737',
+  hover: '#404040',
+  shadow: 'rgba(0, 0, 0, 0.3)'
+};
+
+interface LibraryRouteProps {
+  isDarkMode: boolean;
+  recordingId: string | null;
+  onSelectRecording: (recordingId: string | null) => void;
+  onOpenInStudy: (transcriptId: string) => void;
+}
+
+export const LibraryRoute: React.FC<LibraryRouteProps> = ({
+  isDarkMode,
+  recordingId,
+  onSelectRecording,
+  onOpenInStudy
+}) => {
+  const handleExportRecording = (recording: RecordingEntry) => {
+    const content = [
+      `Title: ${recording.title}`,
+      `Date: ${new Date(recording.dateCreated).toLocaleString()}`,
+      `Duration: ${Math.floor(recording.duration / 60)}:${String(recording.duration % 60).padStart(2, '0')}`,
+      '',
+      recording.keyTopics.length > 0 ? `Key Topics: ${recording.keyTopics.join(', ')}` : '',
+      '',
+      'Transcript:',
+      recording.transcript
+    ].filter(Boolean).join('\n');
+
+    const blob = new Blob([content], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${recording.title.replace(/[^a-zA-Z0-9]/g, '_')}.txt`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <LibraryView
+      theme={isDarkMode ? darkTheme : lightTheme}
+      onExportRecording={handleExportRecording}
+      selectedRecordingId={recordingId}
+      onSelectRecording={onSelectRecording}
+      onOpenInStudy={onOpenInStudy}
+    />
+  );
+};
+
+export default LibraryRoute;
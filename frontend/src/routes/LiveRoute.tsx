@@ -0,0 +1,288 @@
+// 🎯 LectureScript - Live Recording Route
+// Record a lecture, transcribe it through the active provider and save it to the library.
+// Where the provider streams, chunks cut at pauses go through the chunk queue while recording.
+// When the provider is unreachable or offline mode is on, the audio is saved for background transcription.
+// Author: Peter Levler
+
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Save, CloudOff } from 'lucide-react';
+import { useAudioRecording } from '../hooks/useAudioRecording';
+import { useChunkQueue } from '../hooks/useChunkQueue';
+import { getTranscriptionProvider } from '../services/providers';
+import { UniversalAudioProcessor } from '../services/audioProcessor';
+import { backgroundTranscription } from '../services/backgroundTranscription';
+import { chunkQueue } from '../services/chunkQueue';
+import { streamingService } from '../services/streamingAPI';
+import { libraryStorage } from '../utils/libraryStorage';
+import { RecordingControls } from '../components/recording/RecordingControls';
+import { AudioVisualizer } from '../components/recording/AudioVisualizer';
+import { TranscriptDisplay } from '../components/transcript/TranscriptDisplay';
+import { Button } from '../components/ui/Button';
+import { toTranscriptSegments } from '../utils/transcriptDocument';
+import type { TranscriptSegment } from '../types';
+import type { PcmChunk } from '../utils/pcmChunker';
+
+interface LiveRouteProps {
+  onRecordingSaved: (recordingId: string) => void;
+}
+
+type TranscriptionOutcome =
+  | { kind: 'transcribed'; segments: TranscriptSegment[]; transcript: string; cost: number }
+  | { kind: 'streamed' }
+  | { kind: 'saved-offline'; recordingId: string }
+  | { kind: 'failed'; error: string };
+
+/**
+ * Transcribe a finished recording, or save it for background transcription when the provider
+ * can't be reached. Free of component state, so a re-run effect can wait on the same attempt.
+ */
+const transcribeOrSave = async (audioBlob: Blob, duration: number): Promise<TranscriptionOutcome> => {
+  const saveForLater = async (): Promise<TranscriptionOutcome> => {
+    const entry = await backgroundTranscription.savePendingRecording(audioBlob, duration);
+    return { kind: 'saved-offline', recordingId: entry.id };
+  };
+
+  try {
+    if (!(await backgroundTranscription.canTranscribeNow())) {
+      return await saveForLater();
+    }
+
+    const provider = getTranscriptionProvider();
+    const audio = await UniversalAudioProcessor.prepareForUpload(audioBlob, provider.uploadFormats);
+    const result = await provider.transcribe({ audio });
+    return {
+      kind: 'transcribed',
+      segments: toTranscriptSegments(result.document),
+      transcript: result.document.text,
+      cost: result.cost,
+    };
+  } catch (err) {
+    // Connection dropped mid-request: keep the audio rather than losing the lecture
+    if (!(await backgroundTranscription.canTranscribeNow())) {
+      return await saveForLater().catch(saveErr => {
+        console.error('Failed to save recording offline:', saveErr);
+        return { kind: 'failed', error: 'Transcription failed and the recording could not be saved' } as const;
+      });
+    }
+    return { kind: 'failed', error: err instanceof Error ? err.message : 'Transcription failed' };
+  }
+};
+
+/**
+ * Finish a recording whose chunks were queued while it ran. The queue fills in the transcript; if the
+ * provider can't be reached, the whole recording is saved for background transcription instead.
+ */
+const finishChunkedRecording = async (
+  sessionId: string,
+  queued: Promise<void>[],
+  audioBlob: Blob,
+  duration: number
+): Promise<TranscriptionOutcome> => {
+  await Promise.all(queued);
+  if (await backgroundTranscription.canTranscribeNow()) return { kind: 'streamed' };
+
+  const outcome = await transcribeOrSave(audioBlob, duration);
+  // The recording is handled as a whole now, so its chunks mustn't be sent as well
+  if (outcome.kind !== 'failed') await chunkQueue.clearSession(sessionId);
+  return outcome;
+};
+
+export const LiveRoute: React.FC<LiveRouteProps> = ({ onRecordingSaved }) => {
+  const [sessionId, setSessionId] = useState('');
+  const sessionIdRef = useRef(sessionId);
+  const queue = useChunkQueue(sessionId || undefined);
+  // Chunks of the current recording still being encoded and queued
+  const queuedChunksRef = useRef<Promise<void>[]>([]);
+
+  const queueChunk = (chunk: PcmChunk) => {
+    const { uploadFormats } = getTranscriptionProvider();
+    const queued = UniversalAudioProcessor.encodeForUpload(chunk.samples, chunk.sampleRate, uploadFormats)
+      .then(audio => chunkQueue.enqueue(sessionIdRef.current, chunk.index, audio, undefined, chunk.overlapMs / 1000, {
+        startTime: chunk.startMs / 1000,
+        duration: (chunk.endMs - chunk.startMs) / 1000,
+      }))
+      .catch(err => {
+        console.error(`Failed to queue chunk ${chunk.index}:`, err);
+        setError(`Part of the recording could not be queued: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      });
+    queuedChunksRef.current.push(queued);
+  };
+
+  const recording = useAudioRecording({
+    onChunk: getTranscriptionProvider().modes.includes('stream') ? queueChunk : undefined,
+  });
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [transcript, setTranscript] = useState('');
+  const [cost, setCost] = useState(0);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [error, setError] = useState('');
+  const [offlineRecordingId, setOfflineRecordingId] = useState<string | null>(null);
+  const durationRef = useRef(0);
+  durationRef.current = recording.duration;
+  // The blob last sent off and its pending outcome: a blob is transcribed (or saved) once, however often the effect runs
+  const handledRef = useRef<{ audioBlob: Blob; outcome: Promise<TranscriptionOutcome> } | null>(null);
+
+  /**
+   * Transcribe once the recorder has produced the final blob
+   */
+  useEffect(() => {
+    const audioBlob = recording.audioBlob;
+    if (!audioBlob || recording.isRecording) return;
+
+    if (handledRef.current?.audioBlob !== audioBlob) {
+      handledRef.current = {
+        audioBlob,
+        outcome: recording.isChunked
+          ? finishChunkedRecording(sessionIdRef.current, queuedChunksRef.current, audioBlob, durationRef.current)
+          : transcribeOrSave(audioBlob, durationRef.current),
+      };
+    }
+
+    let cancelled = false;
+    setIsTranscribing(true);
+    setError('');
+
+    handledRef.current.outcome.then(outcome => {
+      // Unmounted, or a new recording replaced this one
+      if (cancelled) return;
+
+      if (outcome.kind === 'transcribed') {
+        setSegments(outcome.segments);
+        setTranscript(outcome.transcript);
+        setCost(outcome.cost);
+      } else if (outcome.kind === 'saved-offline') {
+        setOfflineRecordingId(outcome.recordingId);
+      } else if (outcome.kind === 'failed') {
+        setError(outcome.error);
+      }
+      setIsTranscribing(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recording.audioBlob, recording.isRecording, recording.isChunked]);
+
+  // A chunked recording shows the queue's in-order transcript, filling in as chunks finish
+  const streamed = recording.isChunked && !offlineRecordingId ? queue.session : null;
+  const streamedSegments = useMemo(
+    () => (streamed ? toTranscriptSegments(streamed.document) : []),
+    [streamed]
+  );
+  const shownSegments = streamed ? streamedSegments : segments;
+  const shownTranscript = streamed ? streamed.document.text : transcript;
+  const shownCost = streamed ? streamed.cost : cost;
+  const isWaitingForChunks = !!streamed && !recording.isRecording && streamed.pendingIndexes.length > 0;
+  const isBusy = isTranscribing || isWaitingForChunks;
+
+  const handleStart = async () => {
+    setSegments([]);
+    setTranscript('');
+    setCost(0);
+    setError('');
+    setOfflineRecordingId(null);
+
+    const newSessionId = streamingService.generateSessionId();
+    sessionIdRef.current = newSessionId;
+    setSessionId(newSessionId);
+    queuedChunksRef.current = [];
+
+    await recording.startRecording();
+  };
+
+  const handleSave = async () => {
+    if (!shownTranscript.trim()) return;
+
+    try {
+      const entry = libraryStorage.createRecordingEntry(
+        shownTranscript,
+        'Untitled Recording',
+        [],
+        recording.duration,
+        shownCost,
+        undefined,
+        recording.audioBlob || undefined
+      );
+
+      await libraryStorage.saveRecording(entry);
+      // The transcript lives in the library now
+      if (streamed) await queue.clearSession();
+      recording.resetRecording();
+      onRecordingSaved(entry.id);
+    } catch (err) {
+      console.error('Failed to save recording:', err);
+      setError('Failed to save recording');
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-6xl">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Left Column - Recording Controls */}
+        <div className="space-y-6">
+          <div className="bg-white rounded-xl p-6 shadow-lg">
+            <RecordingControls
+              isRecording={recording.isRecording}
+              isPaused={recording.isPaused}
+              duration={recording.duration}
+              onStart={handleStart}
+              onPause={recording.pauseRecording}
+              onResume={recording.resumeRecording}
+              onStop={recording.stopRecording}
+              disabled={isBusy}
+            />
+          </div>
+
+          <div className="bg-white rounded-xl p-6 shadow-lg">
+            <h3 className="text-lg font-semibold mb-4">Audio Level</h3>
+            <AudioVisualizer
+              audioLevel={recording.getAudioLevel()}
+              waveformData={recording.getWaveformData()}
+              isActive={recording.isRecording && !recording.isPaused}
+              className="h-24"
+            />
+          </div>
+
+          {offlineRecordingId && (
+            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-start gap-3">
+              <CloudOff className="w-5 h-5 text-yellow-700 flex-shrink-0 mt-0.5" />
+              <div className="space-y-2">
+                <p className="text-yellow-800 text-sm">
+                  Saved to your library. It will be transcribed automatically once the server is reachable.
+                </p>
+                <Button size="sm" variant="outline" onClick={() => onRecordingSaved(offlineRecordingId)}>
+                  View in Library
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {(error || recording.error) && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-800 text-sm">{error || recording.error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Right Column - Transcript */}
+        <div className="space-y-6">
+          <TranscriptDisplay
+            segments={shownSegments}
+            isTranscribing={isBusy}
+            className="h-[600px]"
+          />
+
+          {shownTranscript && !isBusy && !recording.isRecording && (
+            <div className="flex justify-end">
+              <Button leftIcon={<Save className="w-4 h-4" />} onClick={handleSave}>
+                Save to Library
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LiveRoute;
@@ -0,0 +1,102 @@
+// 🎯 LectureScript - Settings Route
+// Edit AppSettings persisted through the storage manager
+// Author: Peter Levler
+
+import React, { useState, useEffect } from 'react';
+import { Input } from '../components/ui/Input';
+import { storage } from '../utils/storage';
+import { backgroundTranscription } from '../services/backgroundTranscription';
+import type { AppSettings } from '../types';
+
+export const SettingsRoute: React.FC = () => {
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      await storage.initialize();
+      const saved = await storage.getSettings();
+      setSettings(saved || storage.getDefaultSettings());
+    };
+
+    loadSettings();
+  }, []);
+
+  const updateSettings = async (updates: Partial<AppSettings>) => {
+    if (!settings) return;
+
+    const updated = { ...settings, ...updates };
+    setSettings(updated);
+    await storage.saveSettings(updated);
+
+    // Leaving offline mode releases recordings that were held back for transcription
+    if (updates.offlineMode === false) {
+      backgroundTranscription.processPending();
+    }
+  };
+
+  if (!settings) {
+    return null;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-3xl">
+      <div className="bg-white rounded-xl p-6 shadow-lg">
+        <h2 className="text-xl font-semibold mb-6">Settings</h2>
+
+        <div className="space-y-6">
+          <Input
+            label="OpenAI API Key"
+            type="password"
+            defaultValue={settings.apiSettings.openaiApiKey}
+            onBlur={(e) => updateSettings({
+              apiSettings: { ...settings.apiSettings, openaiApiKey: e.target.value },
+            })}
+            placeholder="sk-..."
+            helper="Your API key is stored locally and never sent to our servers"
+          />
+
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-gray-700">Default Language</label>
+            <select
+              value={settings.defaultLanguage}
+              onChange={(e) => updateSettings({ defaultLanguage: e.target.value as AppSettings['defaultLanguage'] })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            >
+              <option value="mixed">中英文混合 (Mixed)</option>
+              <option value="zh">中文 (Chinese)</option>
+              <option value="en">English</option>
+            </select>
+          </div>
+
+          <Input
+            label="Chunk Duration (seconds)"
+            type="number"
+            min={5}
+            max={120}
+            value={settings.chunkDuration}
+            onChange={(e) => updateSettings({ chunkDuration: Number(e.target.value) })}
+          />
+
+          <div className="pt-4 border-t space-y-3">
+            {([
+              { key: 'autoSave', label: 'Auto-save sessions' },
+              { key: 'offlineMode', label: 'Offline mode (save recordings, transcribe later)' },
+              { key: 'notifications', label: 'Notifications' },
+            ] as const).map(({ key, label }) => (
+              <label key={key} className="flex items-center gap-3 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={settings[key]}
+                  onChange={(e) => updateSettings({ [key]: e.target.checked })}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsRoute;
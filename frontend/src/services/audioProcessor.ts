@@ -1,5 +1,22 @@
 // 🍎 Steve Jobs 2025 Universal Audio Processor
-// Converts ANY audio format to OpenAI-compatible WAV
+// Converts ANY audio format to 16 kHz mono, encoded as WAV, FLAC or Ogg/Opus for upload
+
+import { UPLOAD_LIMITS } from '../types/upload';
+import { encodeWav } from '../utils/wav';
+import { encodeFlac } from '../utils/audioEncoding/flac';
+import { encodeOggOpus, isOpusEncodingSupported } from '../utils/audioEncoding/oggOpus';
+import { downmixToMono, resample } from '../utils/audioEncoding/resample';
+import type { AudioUploadFormat } from '../utils/audioEncoding/formats';
+
+// Whisper optimal
+const TARGET_SAMPLE_RATE = 16000;
+// Already compressed: re-encoding these rarely makes them smaller
+const COMPRESSED_TYPES = /^audio\/(webm|ogg|mpeg|mp3|mp4|m4a|x-m4a|aac)/;
+
+export interface DecodedAudio {
+  samples: Float32Array;
+  sampleRate: number;
+}
 
 export class UniversalAudioProcessor {
 
@@ -8,23 +25,10 @@ export class UniversalAudioProcessor {
     console.log(`🎵 Converting ${audioBlob.size} bytes from ${audioBlob.type} to WAV...`);
 
     try {
-      // Create audio buffer from blob (preserve original sample rate)
-      const arrayBuffer = await audioBlob.arrayBuffer();
-      const audioContext = new AudioContext(); // Use native sample rate
-      const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-
-      // Resample to 16kHz if needed (Whisper optimal)
-      const targetSampleRate = 16000;
-      const resampledBuffer = audioBuffer.sampleRate !== targetSampleRate
-        ? this.resampleAudioBuffer(audioContext, audioBuffer, targetSampleRate)
-        : audioBuffer;
-
-      // Convert to WAV format
-      const wavBlob = this.audioBufferToWAV(resampledBuffer);
-
-      console.log(`✅ Converted to WAV: ${wavBlob.size} bytes (${audioBuffer.sampleRate}Hz → ${targetSampleRate}Hz)`);
-      await audioContext.close();
+      const { samples, sampleRate } = await this.decodeToMono(audioBlob);
+      const wavBlob = encodeWav(samples, sampleRate);
 
+      console.log(`✅ Converted to WAV: ${wavBlob.size} bytes (${sampleRate}Hz mono)`);
       return wavBlob;
 
     } catch (error) {
@@ -33,73 +37,115 @@ export class UniversalAudioProcessor {
     }
   }
 
-  // 🎯 Resample AudioBuffer to target sample rate
-  private static resampleAudioBuffer(
-    audioContext: AudioContext,
-    audioBuffer: AudioBuffer,
-    targetSampleRate: number
-  ): AudioBuffer {
-    const offlineContext = new OfflineAudioContext(
-      1, // Mono
-      audioBuffer.duration * targetSampleRate,
-      targetSampleRate
-    );
-
-    const source = offlineContext.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(offlineContext.destination);
-    source.start();
-
-    // This returns a Promise, but we'll handle it synchronously for now
-    // In production, this should be properly awaited
-    return audioBuffer; // Fallback - in real implementation, use OfflineAudioContext.startRendering()
+  // 🎯 Whether this browser can decode audio files at all
+  static canDecode(): boolean {
+    return typeof OfflineAudioContext !== 'undefined' || typeof AudioContext !== 'undefined';
   }
 
-  // 🔥 Convert AudioBuffer to WAV Blob
-  private static audioBufferToWAV(audioBuffer: AudioBuffer): Blob {
-    const length = audioBuffer.length;
-    const numberOfChannels = Math.min(audioBuffer.numberOfChannels, 1); // Force mono
-    const sampleRate = audioBuffer.sampleRate; // Use buffer's actual sample rate
-    const bytesPerSample = 2; // 16-bit
-
-    // Calculate buffer size
-    const arrayBuffer = new ArrayBuffer(44 + length * numberOfChannels * bytesPerSample);
-    const view = new DataView(arrayBuffer);
-
-    // Write WAV header
-    const writeString = (offset: number, string: string) => {
-      for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i));
+  // 🎯 Decode anything the browser can play into mono samples at the target rate
+  static async decodeToMono(audioBlob: Blob, targetSampleRate = TARGET_SAMPLE_RATE): Promise<DecodedAudio> {
+    const arrayBuffer = await audioBlob.arrayBuffer();
+
+    // decodeAudioData resamples to its context's rate, so decoding at the target rate keeps a
+    // two-hour lecture from ever being held at 48 kHz stereo
+    if (typeof OfflineAudioContext !== 'undefined') {
+      const decodingContext = new OfflineAudioContext(1, 1, targetSampleRate);
+      const audioBuffer = await decodingContext.decodeAudioData(arrayBuffer);
+      const samples = await this.resampleAudioBuffer(audioBuffer, targetSampleRate);
+      return { samples, sampleRate: targetSampleRate };
+    }
+
+    const audioContext = new AudioContext(); // Use native sample rate
+
+    try {
+      const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+      const samples = await this.resampleAudioBuffer(audioBuffer, targetSampleRate);
+      return { samples, sampleRate: targetSampleRate };
+    } finally {
+      await audioContext.close();
+    }
+  }
+
+  // 🎯 Downmix and resample an AudioBuffer; OfflineAudioContext when available, the polyphase filter otherwise
+  static async resampleAudioBuffer(audioBuffer: AudioBuffer, targetSampleRate: number): Promise<Float32Array> {
+    const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, i) => audioBuffer.getChannelData(i));
+
+    if (audioBuffer.sampleRate === targetSampleRate) {
+      return downmixToMono(channels);
+    }
+
+    if (typeof OfflineAudioContext !== 'undefined') {
+      try {
+        // A mono destination averages the channels ("speakers" downmix)
+        const offlineContext = new OfflineAudioContext(
+          1,
+          Math.ceil(audioBuffer.duration * targetSampleRate),
+          targetSampleRate
+        );
+
+        const source = offlineContext.createBufferSource();
+        source.buffer = audioBuffer;
+        source.connect(offlineContext.destination);
+        source.start();
+
+        const rendered = await offlineContext.startRendering();
+        return rendered.getChannelData(0);
+      } catch (error) {
+        console.warn(`⚠️ OfflineAudioContext resampling failed, using the JS resampler: ${error}`);
       }
-    };
-
-    // WAV header
-    writeString(0, 'RIFF');
-    view.setUint32(4, 36 + length * numberOfChannels * bytesPerSample, true);
-    writeString(8, 'WAVE');
-    writeString(12, 'fmt ');
-    view.setUint32(16, 16, true); // PCM format
-    view.setUint16(20, 1, true);  // PCM
-    view.setUint16(22, numberOfChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, sampleRate * numberOfChannels * bytesPerSample, true);
-    view.setUint16(32, numberOfChannels * bytesPerSample, true);
-    view.setUint16(34, 16, true); // 16-bit
-    writeString(36, 'data');
-    view.setUint32(40, length * numberOfChannels * bytesPerSample, true);
-
-    // Write audio data
-    const channelData = audioBuffer.getChannelData(0); // Use first channel only
-    let offset = 44;
-
-    for (let i = 0; i < length; i++) {
-      const sample = Math.max(-1, Math.min(1, channelData[i]));
-      const intSample = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
-      view.setInt16(offset, intSample, true);
-      offset += 2;
     }
 
-    return new Blob([arrayBuffer], { type: 'audio/wav' });
+    return resample(downmixToMono(channels), audioBuffer.sampleRate, targetSampleRate);
+  }
+
+  // 🔥 Encode mono samples in one upload format
+  static async encodeSamples(samples: Float32Array, sampleRate: number, format: AudioUploadFormat): Promise<Blob> {
+    switch (format) {
+      case 'opus':
+        return encodeOggOpus(samples, sampleRate);
+      case 'flac':
+        return encodeFlac(samples, sampleRate);
+      case 'wav':
+      default:
+        return encodeWav(samples, sampleRate);
+    }
+  }
+
+  // 🎯 Encode in the first of a provider's formats this browser can produce, falling back to WAV
+  static async encodeForUpload(samples: Float32Array, sampleRate: number, formats: AudioUploadFormat[]): Promise<Blob> {
+    for (const format of formats) {
+      if (format === 'opus' && !isOpusEncodingSupported()) continue;
+
+      try {
+        return await this.encodeSamples(samples, sampleRate, format);
+      } catch (error) {
+        console.warn(`⚠️ ${format} encoding failed, trying the next format: ${error}`);
+      }
+    }
+
+    return encodeWav(samples, sampleRate);
+  }
+
+  // 🎯 Re-encode a recording for a provider when it is uncompressed or over the upload limit
+  static async prepareForUpload(audioBlob: Blob, formats: AudioUploadFormat[]): Promise<Blob> {
+    if (COMPRESSED_TYPES.test(audioBlob.type) && audioBlob.size <= UPLOAD_LIMITS.MAX_AUDIO_SIZE) {
+      return audioBlob;
+    }
+
+    try {
+      const { samples, sampleRate } = await this.decodeToMono(audioBlob);
+      const encoded = await this.encodeForUpload(samples, sampleRate, formats);
+
+      console.log(`🗜️ Re-encoded ${audioBlob.size} bytes of ${audioBlob.type || 'audio'} as ${encoded.size} bytes of ${encoded.type}`);
+      if (encoded.size > UPLOAD_LIMITS.MAX_AUDIO_SIZE) {
+        console.warn(`⚠️ Still over the ${UPLOAD_LIMITS.MAX_AUDIO_SIZE} byte upload limit after re-encoding`);
+      }
+
+      return encoded.size < audioBlob.size ? encoded : audioBlob;
+    } catch (error) {
+      console.warn(`⚠️ Re-encoding failed, uploading the original: ${error}`);
+      return audioBlob;
+    }
   }
 
   // 🎯 Ensure minimum viable audio size
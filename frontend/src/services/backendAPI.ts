@@ -1,4 +1,7 @@
 import type { TranscriptSegment } from '../types';
+import type { TranscriptDocument } from '../types/transcription';
+import { fromBackendTranscription, toTranscriptSegments } from '../utils/transcriptDocument';
+import { audioFileExtension } from '../utils/audioEncoding/formats';
 
 const BACKEND_URL = 'http://localhost:3001';
 
@@ -21,11 +24,12 @@ export class BackendService {
     duration: number;
     language: string;
     cost: number;
+    document: TranscriptDocument;
   }> {
     try {
       // Create FormData to send audio file
       const formData = new FormData();
-      formData.append('audio', audioBlob, 'recording.webm');
+      formData.append('audio', audioBlob, `recording.${audioFileExtension(audioBlob.type)}`);
 
       if (options.language) {
         formData.append('language', options.language);
@@ -55,25 +59,16 @@ export class BackendService {
 
       console.log('✅ Transcription completed:', result.data);
 
-      // Convert response to expected format
-      const segments: TranscriptSegment[] = result.data.segments?.map((seg: any, index: number) => ({
-        id: `segment-${index}`,
-        text: seg.text || '',
-        timestamp: seg.start || 0,
-        confidence: seg.confidence || 1,
-      })) || [{
-        id: 'segment-0',
-        text: result.data.text,
-        timestamp: 0,
-        confidence: 1,
-      }];
+      // Convert response to the canonical document, keeping word timings
+      const document = fromBackendTranscription(result.data);
 
       return {
         text: result.data.text,
-        segments,
+        segments: toTranscriptSegments(document),
         duration: result.data.duration || 0,
         language: result.data.language || 'unknown',
         cost: result.data.cost || 0,
+        document,
       };
 
     } catch (error) {
@@ -0,0 +1,181 @@
+// 🎯 LectureScript - Background Transcription
+// Offline-first recording: keep the audio in the library now, transcribe once the backend is reachable
+// Author: Peter Levler
+
+import { storage } from '../utils/storage';
+import { libraryStorage } from '../utils/libraryStorage';
+import { getTranscriptionProvider } from './providers';
+import { UniversalAudioProcessor } from './audioProcessor';
+import { toTranscriptionSegments } from '../utils/transcriptDocument';
+import type { RecordingEntry } from '../types/library';
+
+const HEALTH_CHECK_INTERVAL_MS = 30000;
+const MAX_TRANSCRIPTION_ATTEMPTS = 5;
+
+type RecordingUpdateListener = (recording: RecordingEntry) => void;
+
+export class BackgroundTranscriptionService {
+  private listeners: Set<RecordingUpdateListener> = new Set();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isProcessing = false;
+  private started = false;
+
+  /**
+   * Resume pending recordings from earlier visits and start watching for the backend
+   */
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    window.addEventListener('online', this.handleOnline);
+    this.timer = setInterval(() => this.processPending(), HEALTH_CHECK_INTERVAL_MS);
+
+    // A reload during transcription leaves the recording marked 'transcribing'
+    const interrupted = await libraryStorage.getRecordingsByTranscriptionStatus('transcribing');
+    for (const recording of interrupted) {
+      await libraryStorage.updateRecording(recording.id, { transcriptionStatus: 'pending' });
+    }
+
+    await this.processPending();
+  }
+
+  stop(): void {
+    window.removeEventListener('online', this.handleOnline);
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.started = false;
+  }
+
+  /**
+   * Called whenever a recording's transcription state changes, so library cards can update in place
+   */
+  subscribe(listener: RecordingUpdateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Whether a fresh recording should be transcribed right away.
+   * False when the user has turned on offline mode or the provider cannot be reached.
+   */
+  async canTranscribeNow(): Promise<boolean> {
+    const settings = await storage.getSettings();
+    if (settings?.offlineMode) return false;
+    if (!navigator.onLine) return false;
+
+    return getTranscriptionProvider().isAvailable();
+  }
+
+  /**
+   * Save a recording without a transcript; it will be picked up by the next processing pass
+   */
+  async savePendingRecording(
+    audioBlob: Blob,
+    duration: number,
+    title?: string,
+    pdfContext?: RecordingEntry['pdfContext']
+  ): Promise<RecordingEntry> {
+    const entry = libraryStorage.createPendingRecordingEntry(audioBlob, duration, title, pdfContext);
+    await libraryStorage.saveRecording(entry);
+    this.notify(entry);
+    return entry;
+  }
+
+  async retry(recordingId: string): Promise<void> {
+    await this.updateStatus(recordingId, {
+      transcriptionStatus: 'pending',
+      transcriptionAttempts: 0,
+      transcriptionError: undefined,
+    });
+    this.processPending();
+  }
+
+  /**
+   * Transcribe pending recordings one at a time, oldest first
+   */
+  async processPending(): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      const pending = await libraryStorage.getRecordingsByTranscriptionStatus('pending');
+      if (pending.length === 0 || !(await this.canTranscribeNow())) return;
+
+      console.log(`🔄 Transcribing ${pending.length} recording(s) saved offline...`);
+
+      for (const recording of pending) {
+        await this.transcribeRecording(recording);
+      }
+    } catch (error) {
+      console.error('❌ Background transcription pass failed:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async transcribeRecording(recording: RecordingEntry): Promise<void> {
+    if (!recording.audioBlob) {
+      await this.updateStatus(recording.id, {
+        transcriptionStatus: 'failed',
+        transcriptionError: 'No audio saved for this recording',
+      });
+      return;
+    }
+
+    await this.updateStatus(recording.id, { transcriptionStatus: 'transcribing' });
+
+    try {
+      const provider = getTranscriptionProvider();
+      const result = await provider.transcribe({
+        audio: await UniversalAudioProcessor.prepareForUpload(recording.audioBlob, provider.uploadFormats),
+        sessionName: recording.title,
+      });
+      const transcript = result.document.text.trim();
+
+      await this.updateStatus(recording.id, {
+        transcript,
+        // Keep the segment and word timings, not just the text
+        segments: toTranscriptionSegments(result.document),
+        wordCount: transcript.split(/\s+/).filter(Boolean).length,
+        duration: recording.duration || result.document.duration,
+        cost: result.cost,
+        transcriptionStatus: 'completed',
+        transcriptionError: undefined,
+      });
+    } catch (error) {
+      // Failures during an outage say nothing about the recording, so only those while the provider is reachable count
+      const reachable = await this.canTranscribeNow().catch(() => false);
+      const attempts = (recording.transcriptionAttempts || 0) + (reachable ? 1 : 0);
+      const message = error instanceof Error ? error.message : 'Transcription failed';
+
+      console.error(`❌ Background transcription failed for ${recording.id}:`, error);
+
+      await this.updateStatus(recording.id, {
+        transcriptionStatus: attempts >= MAX_TRANSCRIPTION_ATTEMPTS ? 'failed' : 'pending',
+        transcriptionAttempts: attempts,
+        transcriptionError: message,
+      });
+    }
+  }
+
+  private async updateStatus(recordingId: string, updates: Partial<RecordingEntry>): Promise<void> {
+    await libraryStorage.updateRecording(recordingId, updates);
+    const updated = await libraryStorage.getRecording(recordingId);
+    if (updated) this.notify(updated);
+  }
+
+  private notify(recording: RecordingEntry): void {
+    this.listeners.forEach(listener => listener(recording));
+  }
+
+  private handleOnline = () => {
+    this.processPending();
+  };
+}
+
+// Export singleton instance
+export const backgroundTranscription = new BackgroundTranscriptionService();
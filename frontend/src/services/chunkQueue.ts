@@ -0,0 +1,295 @@
+// 🎯 LectureScript - Chunk Upload Queue
+// Persists streaming chunks in IndexedDB and retries them with exponential backoff,
+// so a dropped connection delays the transcript instead of leaving gaps in it
+// Author: Peter Levler
+
+import { storage } from '../utils/storage';
+import { concatTranscriptDocuments } from '../utils/transcriptDocument';
+import { stitchTranscriptDocuments } from '../utils/transcriptStitching';
+import { getTranscriptionProvider } from './providers';
+import type { QueuedChunk, ChunkQueueState, AssembledSession, ChunkTiming } from '../types/chunkQueue';
+import type { TranscriptDocument } from '../types/transcription';
+
+const MAX_CONCURRENT_UPLOADS = 2;
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+
+type ChunkQueueListener = (state: ChunkQueueState, sessionId?: string) => void;
+
+const chunkKey = (sessionId: string, chunkIndex: number) => `${sessionId}:${chunkIndex}`;
+
+export class ChunkUploadQueue {
+  private listeners: Set<ChunkQueueListener> = new Set();
+  private inFlight: Set<string> = new Set();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private started = false;
+  private state: ChunkQueueState = { pendingCount: 0, failedCount: 0, isOnline: true };
+
+  /**
+   * Resume chunks left over from a previous page load. Safe to call more than once.
+   */
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    this.state.isOnline = navigator.onLine;
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+
+    // Anything still marked uploading was cut off by the reload and must be sent again
+    const interrupted = await storage.getQueuedChunksByStatus('uploading');
+    for (const chunk of interrupted) {
+      await storage.putQueuedChunk({ ...chunk, status: 'pending', nextAttemptAt: Date.now() });
+    }
+
+    await this.refreshCounts();
+    this.process();
+  }
+
+  subscribe(listener: ChunkQueueListener): () => void {
+    this.listeners.add(listener);
+    listener(this.state);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getState(): ChunkQueueState {
+    return { ...this.state };
+  }
+
+  /**
+   * Queue a chunk for transcription. Re-enqueuing an existing (sessionId, chunkIndex) is a no-op.
+   * `overlap` is how many seconds of the previous chunk's audio this one repeats, and `timing`
+   * where the chunk sits in the recording, so a missing chunk before it leaves a gap of the right length.
+   */
+  async enqueue(
+    sessionId: string,
+    chunkIndex: number,
+    audio: Blob,
+    contextId?: string,
+    overlap?: number,
+    timing?: ChunkTiming
+  ): Promise<void> {
+    await this.start();
+
+    const existing = await storage.getQueuedChunk(sessionId, chunkIndex);
+    if (existing) return;
+
+    await storage.putQueuedChunk({
+      sessionId,
+      chunkIndex,
+      audio,
+      contextId,
+      overlap,
+      startTime: timing?.startTime,
+      duration: timing?.duration,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      createdAt: Date.now(),
+    });
+
+    await this.refreshCounts(sessionId);
+    this.process();
+  }
+
+  /**
+   * Give chunks that ran out of attempts another round
+   */
+  async retryFailed(sessionId?: string): Promise<void> {
+    const failed = await storage.getQueuedChunksByStatus('failed');
+
+    for (const chunk of failed) {
+      if (sessionId && chunk.sessionId !== sessionId) continue;
+      await storage.putQueuedChunk({ ...chunk, status: 'pending', attempts: 0, nextAttemptAt: Date.now() });
+    }
+
+    await this.refreshCounts(sessionId);
+    this.process();
+  }
+
+  /**
+   * Join the completed chunks of a session in chunkIndex order, whatever order they finished in.
+   * Words a chunk repeats from the overlap with the one before it are dropped, and each chunk is
+   * placed where it was recorded, so pending or failed chunks leave a gap rather than pulling later ones earlier.
+   */
+  async assemble(sessionId: string): Promise<AssembledSession> {
+    const chunks = await storage.getQueuedChunks(sessionId);
+    const done = chunks.filter(chunk => chunk.status === 'done' && chunk.document);
+
+    const stitched = new Map<number, TranscriptDocument>();
+    for (const chunk of done) {
+      const previous = stitched.get(chunk.chunkIndex - 1) ?? null;
+      const result = stitchTranscriptDocuments(previous, chunk.document!, chunk.overlap || 0);
+      if (result.previous) stitched.set(chunk.chunkIndex - 1, result.previous);
+      stitched.set(chunk.chunkIndex, result.next);
+    }
+
+    const offsets = this.chunkOffsets(chunks, stitched);
+
+    return {
+      sessionId,
+      document: concatTranscriptDocuments(done.map(chunk => stitched.get(chunk.chunkIndex)!), {
+        documentId: sessionId,
+        source: done[0]?.document?.source,
+        offsets: done.map(chunk => offsets.get(chunk.chunkIndex)!),
+      }),
+      chunkTexts: chunks.map(chunk => stitched.get(chunk.chunkIndex)?.text.trim() || ''),
+      pendingIndexes: chunks
+        .filter(chunk => chunk.status === 'pending' || chunk.status === 'uploading')
+        .map(chunk => chunk.chunkIndex),
+      failedIndexes: chunks.filter(chunk => chunk.status === 'failed').map(chunk => chunk.chunkIndex),
+      cost: done.reduce((sum, chunk) => sum + (chunk.cost || 0), 0),
+    };
+  }
+
+  /**
+   * Seconds from the start of the recording to where each chunk's new audio (past its overlap)
+   * begins. Chunks with a recorded start use it; older ones follow the chunk before, whose length
+   * is its recorded duration, its transcript's duration, or failing both the typical chunk length.
+   */
+  private chunkOffsets(chunks: QueuedChunk[], stitched: Map<number, TranscriptDocument>): Map<number, number> {
+    // Length of the audio a chunk adds after the overlap it repeats
+    const lengthOf = (chunk: QueuedChunk): number | undefined =>
+      chunk.duration !== undefined
+        ? Math.max(0, chunk.duration - (chunk.overlap || 0))
+        : stitched.get(chunk.chunkIndex)?.duration;
+
+    const known = chunks.map(lengthOf).filter((length): length is number => length !== undefined);
+    const typicalLength = known.length ? known.reduce((sum, length) => sum + length, 0) / known.length : 0;
+
+    const offsets = new Map<number, number>();
+    let next = 0;
+    let previousIndex = -1;
+    for (const chunk of chunks) {
+      // Indexes never queued at all are gaps too
+      next += Math.max(0, chunk.chunkIndex - previousIndex - 1) * typicalLength;
+      const offset = chunk.startTime !== undefined ? chunk.startTime + (chunk.overlap || 0) : next;
+      offsets.set(chunk.chunkIndex, offset);
+      next = offset + (lengthOf(chunk) ?? typicalLength);
+      previousIndex = chunk.chunkIndex;
+    }
+    return offsets;
+  }
+
+  async clearSession(sessionId: string): Promise<void> {
+    await storage.deleteQueuedChunks(sessionId);
+    await this.refreshCounts(sessionId);
+  }
+
+  private async process(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (!navigator.onLine) return;
+
+    const now = Date.now();
+    const pending = (await storage.getQueuedChunksByStatus('pending'))
+      .filter(chunk => !this.inFlight.has(chunkKey(chunk.sessionId, chunk.chunkIndex)))
+      .sort((a, b) => a.createdAt - b.createdAt || a.chunkIndex - b.chunkIndex);
+
+    const due = pending.filter(chunk => chunk.nextAttemptAt <= now);
+    const slots = MAX_CONCURRENT_UPLOADS - this.inFlight.size;
+
+    due.slice(0, Math.max(0, slots)).forEach(chunk => {
+      // Nobody awaits the upload, so a failed IndexedDB write must not become an unhandled rejection
+      this.upload(chunk).catch(error => {
+        console.error(`❌ Chunk ${chunk.chunkIndex} of ${chunk.sessionId} could not be saved:`, error);
+      });
+    });
+
+    const waiting = pending.filter(chunk => chunk.nextAttemptAt > now);
+    if (waiting.length > 0) {
+      const nextAt = Math.min(...waiting.map(chunk => chunk.nextAttemptAt));
+      this.timer = setTimeout(() => this.process(), nextAt - now);
+    }
+  }
+
+  private async upload(chunk: QueuedChunk): Promise<void> {
+    const key = chunkKey(chunk.sessionId, chunk.chunkIndex);
+    this.inFlight.add(key);
+
+    try {
+      await storage.putQueuedChunk({ ...chunk, status: 'uploading' });
+
+      const result = await getTranscriptionProvider().transcribeChunk({
+        audio: chunk.audio,
+        sessionId: chunk.sessionId,
+        chunkIndex: chunk.chunkIndex,
+        contextId: chunk.contextId,
+        isFirst: chunk.chunkIndex === 0,
+      });
+
+      await storage.putQueuedChunk({
+        ...chunk,
+        status: 'done',
+        document: result.document,
+        cost: result.cost,
+        lastError: undefined,
+        completedAt: Date.now(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      // Attempts made while offline say nothing about the chunk, so they don't count
+      const attempts = navigator.onLine ? chunk.attempts + 1 : chunk.attempts;
+
+      console.warn(`⚠️ Chunk ${chunk.chunkIndex} of ${chunk.sessionId} failed (attempt ${attempts}):`, message);
+
+      await storage.putQueuedChunk({
+        ...chunk,
+        status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+        attempts,
+        nextAttemptAt: Date.now() + this.backoff(attempts),
+        lastError: message,
+      });
+    } finally {
+      this.inFlight.delete(key);
+      // Counts that can't be read back shouldn't stop the rest of the queue
+      await this.refreshCounts(chunk.sessionId).catch(error => console.warn('⚠️ Failed to refresh chunk counts:', error));
+      this.process();
+    }
+  }
+
+  private backoff(attempts: number): number {
+    const delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempts);
+    // ±20% jitter so chunks from a dropped connection don't all retry at the same instant
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+  }
+
+  private async refreshCounts(sessionId?: string): Promise<void> {
+    const [pending, uploading, failed] = await Promise.all([
+      storage.getQueuedChunksByStatus('pending'),
+      storage.getQueuedChunksByStatus('uploading'),
+      storage.getQueuedChunksByStatus('failed'),
+    ]);
+
+    this.state = {
+      pendingCount: pending.length + uploading.length,
+      failedCount: failed.length,
+      isOnline: navigator.onLine,
+    };
+    this.notify(sessionId);
+  }
+
+  private notify(sessionId?: string): void {
+    this.listeners.forEach(listener => listener(this.getState(), sessionId));
+  }
+
+  private handleOnline = () => {
+    this.state.isOnline = true;
+    this.notify();
+    this.process();
+  };
+
+  private handleOffline = () => {
+    this.state.isOnline = false;
+    this.notify();
+  };
+}
+
+// Export singleton instance
+export const chunkQueue = new ChunkUploadQueue();
@@ -0,0 +1,57 @@
+// 🎯 LectureScript - Backend Embeddings
+// Adapter over /api/embeddings
+// Author: Peter Levler
+
+import { BackendService } from '../backendAPI';
+import { normalizeVector } from './vectorMath';
+import type { EmbeddingProvider } from './types';
+
+const BACKEND_URL = 'http://localhost:3001';
+
+export class BackendEmbeddingProvider implements EmbeddingProvider {
+  readonly kind = 'backend' as const;
+  readonly model: string;
+
+  private baseUrl: string;
+  private backend: BackendService;
+
+  constructor(baseUrl?: string, model: string = 'backend-default') {
+    this.baseUrl = baseUrl || BACKEND_URL;
+    this.backend = new BackendService(baseUrl);
+    this.model = model;
+  }
+
+  isAvailable(): Promise<boolean> {
+    return this.backend.checkHealth();
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    if (texts.length === 0) return [];
+
+    console.log(`🧭 Embedding ${texts.length} passages...`);
+
+    const response = await fetch(`${this.baseUrl}/api/embeddings`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ texts }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error || 'Embedding failed');
+    }
+
+    const embeddings: unknown = result.data?.embeddings;
+    if (!Array.isArray(embeddings) || embeddings.length !== texts.length) {
+      throw new Error('Embedding response does not match the request');
+    }
+
+    return embeddings.map(values => normalizeVector(Float32Array.from(values as number[])));
+  }
+}
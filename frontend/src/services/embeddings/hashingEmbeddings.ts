@@ -0,0 +1,62 @@
+// 🎯 LectureScript - Hashing Embeddings
+// Offline fallback: the search index's terms hashed into a fixed-size vector
+// Author: Peter Levler
+
+import { isStopword, tokenize } from '../../utils/searchIndex';
+import { normalizeVector } from './vectorMath';
+import type { EmbeddingProvider } from './types';
+
+const DEFAULT_DIMENSIONS = 512;
+
+// FNV-1a; the top bit picks the sign so colliding terms tend to cancel rather than pile up
+const hashTerm = (term: string): number => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < term.length; index++) {
+    hash ^= term.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Bag-of-terms vectors: no network and no model, so related wording only matches when it shares
+ * terms. Good enough to find where a lecture covered a named topic.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly kind = 'hashing' as const;
+  readonly model: string;
+
+  private dimensions: number;
+
+  constructor(dimensions: number = DEFAULT_DIMENSIONS) {
+    this.dimensions = dimensions;
+    this.model = `hashing-${dimensions}`;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): Float32Array {
+    const counts = new Map<string, number>();
+    tokenize(text).forEach(({ term }) => {
+      if (isStopword(term)) return;
+      counts.set(term, (counts.get(term) || 0) + 1);
+    });
+
+    const vector = new Float32Array(this.dimensions);
+    counts.forEach((count, term) => {
+      const hash = hashTerm(term);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      // Chinese bigrams carry the meaning; single characters only back them up
+      const weight = (1 + Math.log(count)) * (term.length === 1 && term.charCodeAt(0) > 0x2fff ? 0.5 : 1);
+      vector[hash % this.dimensions] += sign * weight;
+    });
+
+    return normalizeVector(vector);
+  }
+}
@@ -0,0 +1,58 @@
+// 🎯 LectureScript - Text Embeddings
+// Select the active provider with VITE_EMBEDDING_PROVIDER (backend | hashing)
+// Author: Peter Levler
+
+import { BackendEmbeddingProvider } from './backendEmbeddings';
+import { HashingEmbeddingProvider } from './hashingEmbeddings';
+import type { EmbeddingProvider, EmbeddingProviderKind } from './types';
+
+export { BackendEmbeddingProvider } from './backendEmbeddings';
+export { HashingEmbeddingProvider } from './hashingEmbeddings';
+export { normalizeVector, dotProduct } from './vectorMath';
+export type * from './types';
+
+const PROVIDER_KINDS: EmbeddingProviderKind[] = ['backend', 'hashing'];
+
+export const createEmbeddingProvider = (kind: EmbeddingProviderKind): EmbeddingProvider => {
+  switch (kind) {
+    case 'hashing':
+      return new HashingEmbeddingProvider();
+    case 'backend':
+    default:
+      return new BackendEmbeddingProvider();
+  }
+};
+
+const resolveDefaultKind = (): EmbeddingProviderKind => {
+  const configured = import.meta.env.VITE_EMBEDDING_PROVIDER as EmbeddingProviderKind | undefined;
+  return configured && PROVIDER_KINDS.includes(configured) ? configured : 'backend';
+};
+
+let activeProvider: EmbeddingProvider | null = null;
+
+export const getEmbeddingProvider = (): EmbeddingProvider => {
+  if (!activeProvider) {
+    activeProvider = createEmbeddingProvider(resolveDefaultKind());
+  }
+  return activeProvider;
+};
+
+/**
+ * Swap the active provider, e.g. a HashingEmbeddingProvider with fewer dimensions in tests
+ */
+export const setEmbeddingProvider = (provider: EmbeddingProvider): void => {
+  activeProvider = provider;
+};
+
+/**
+ * The configured provider when it can be reached, otherwise the offline hashing fallback
+ */
+export const resolveEmbeddingProvider = async (): Promise<EmbeddingProvider> => {
+  const provider = getEmbeddingProvider();
+  if (provider.kind === 'hashing' || await provider.isAvailable().catch(() => false)) {
+    return provider;
+  }
+
+  console.warn(`⚠️ ${provider.kind} embeddings unavailable, using the local hashing fallback`);
+  return createEmbeddingProvider('hashing');
+};
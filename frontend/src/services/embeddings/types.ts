@@ -0,0 +1,21 @@
+// 🎯 LectureScript - Embedding Provider Types
+// Common contract for text embeddings (server endpoint, local hashing fallback)
+// Author: Peter Levler
+
+export type EmbeddingProviderKind = 'backend' | 'hashing';
+
+export interface EmbeddingProvider {
+  readonly kind: EmbeddingProviderKind;
+
+  /**
+   * Identifies the vector space; vectors stored under another model are re-embedded
+   * rather than compared
+   */
+  readonly model: string;
+
+  /** Whether the provider can currently be reached */
+  isAvailable(): Promise<boolean>;
+
+  /** One unit-length vector per text, in input order */
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
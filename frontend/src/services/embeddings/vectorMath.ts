@@ -0,0 +1,25 @@
+// 🎯 LectureScript - Vector Math
+// Helpers shared by the embedding providers and the lecture vector search
+// Author: Peter Levler
+
+/**
+ * Scale to unit length, so cosine similarity becomes a dot product
+ */
+export const normalizeVector = (vector: Float32Array): Float32Array => {
+  let sumOfSquares = 0;
+  for (let index = 0; index < vector.length; index++) {
+    sumOfSquares += vector[index] * vector[index];
+  }
+
+  const norm = Math.sqrt(sumOfSquares);
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+};
+
+export const dotProduct = (a: Float32Array, b: Float32Array): number => {
+  const length = Math.min(a.length, b.length);
+  let sum = 0;
+  for (let index = 0; index < length; index++) {
+    sum += a[index] * b[index];
+  }
+  return sum;
+};
@@ -1,8 +1,24 @@
-import type { LectureSession, ExportOptions, TranscriptSegment, BatchExportOptions, ExportProgress } from '../types';
+import type { LectureSession, ExportOptions, TranscriptSegment, BatchExportOptions, ExportProgress, ExportFileProgress, TimestampLinker } from '../types';
+import type { RecordingEntry } from '../types/library';
 import { formatDuration } from '../utils/audioProcessor';
+import { storage } from '../utils/storage';
+import { libraryStorage } from '../utils/libraryStorage';
+import { ZipWriter } from '../utils/zipWriter';
+import { fromTranscriptSegments, fromTranscriptionSegments, toLectureSession } from '../utils/transcriptDocument';
 import { PDFFormatter } from '../utils/formatters/pdfFormatter';
 import { DOCXFormatter } from '../utils/formatters/docxFormatter';
 import { JSONFormatter } from '../utils/formatters/jsonFormatter';
+import { SubtitleFormatter } from '../utils/formatters/subtitleFormatter';
+import { TemplateEngine } from '../utils/formatters/templateEngine';
+import { NotionFormatter } from '../utils/formatters/notionFormatter';
+import type { NotionPage } from '../utils/formatters/notionFormatter';
+import { GoogleDocsFormatter } from '../utils/formatters/googleDocsFormatter';
+import { ImportValidator } from '../utils/formatters/importValidator';
+import type { ImportTarget } from '../utils/formatters/importValidator';
+import { bilingualPair, isTranslated, segmentsInLanguage } from '../utils/bilingual';
+import { buildPath } from '../hooks/useRouter';
+import { templateService } from './templateService';
+import { translateSegments } from './translation';
 
 export class EnhancedExportService {
   private progressCallback?: (progress: ExportProgress) => void;
@@ -22,41 +38,9 @@ export class EnhancedExportService {
   ): Promise<{ data: string | Blob; filename: string; mimeType: string }> {
     this.updateProgress('preparing', 0, 'Preparing export...');
 
-    const { format, includeTimestamps, includeSummary, includeMetadata, language } = options;
-
     try {
-      this.updateProgress('processing', 20, 'Filtering segments...');
-      const filteredSegments = this.filterSegmentsByLanguage(session.segments, language);
-
-      this.updateProgress('generating', 40, `Generating ${format.toUpperCase()} export...`);
-
-      let result: { data: string | Blob; filename: string; mimeType: string };
-
-      switch (format) {
-        case 'txt':
-          result = this.exportAsText(session, filteredSegments, options);
-          break;
-        case 'md':
-          result = this.exportAsMarkdown(session, filteredSegments, options);
-          break;
-        case 'pdf':
-          result = await this.exportAsPDF(session, filteredSegments, options);
-          break;
-        case 'docx':
-          result = await this.exportAsDOCX(session, filteredSegments, options);
-          break;
-        case 'json':
-          result = this.exportAsJSON(session, filteredSegments, options);
-          break;
-        case 'notion':
-          result = this.exportForNotion(session, filteredSegments, options);
-          break;
-        case 'gdocs':
-          result = this.exportForGoogleDocs(session, filteredSegments, options);
-          break;
-        default:
-          throw new Error(`Unsupported export format: ${format}`);
-      }
+      this.updateProgress('generating', 40, `Generating ${options.format.toUpperCase()} export...`);
+      const result = await this.renderSession(session, options);
 
       this.updateProgress('completed', 100, 'Export completed successfully');
       return result;
@@ -67,39 +51,177 @@ export class EnhancedExportService {
     }
   }
 
+  /**
+   * Produce one export file without reporting progress, so batch exports can report per file
+   */
+  private async renderSession(
+    session: LectureSession,
+    options: ExportOptions
+  ): Promise<{ data: string | Blob; filename: string; mimeType: string }> {
+    session = await this.withTranslations(session, options);
+    const filteredSegments = segmentsInLanguage(session.segments, options.language);
+
+    if (options.templateId && ['gdocs', 'md', 'pdf'].includes(options.format)) {
+      return await this.exportWithTemplate(session, filteredSegments, options, options.templateId);
+    }
+
+    switch (options.format) {
+      case 'txt':
+        return this.exportAsText(session, filteredSegments, options);
+      case 'md':
+        return this.exportAsMarkdown(session, filteredSegments, options);
+      case 'pdf':
+        return await this.exportAsPDF(session, filteredSegments, options);
+      case 'docx':
+        return await this.exportAsDOCX(session, filteredSegments, options);
+      case 'json':
+        return this.exportAsJSON(session, filteredSegments, options);
+      case 'notion':
+        return await this.exportForNotion(session, options);
+      case 'gdocs':
+        return await this.exportForGoogleDocs(session, filteredSegments, options);
+      case 'odt':
+        return await this.exportAsODT(session, filteredSegments, options);
+      case 'srt':
+      case 'vtt':
+      case 'ttml':
+        return SubtitleFormatter.generateSubtitles(session, filteredSegments, options.format, options);
+      default:
+        throw new Error(`Unsupported export format: ${options.format}`);
+    }
+  }
+
+  /**
+   * Export several lectures into one ZIP: a folder per lecture plus manifest.json.
+   * A lecture that fails to export is recorded in the manifest instead of failing the batch.
+   * Notion batches are a single database instead, with a row per lecture.
+   */
   async batchExport(options: BatchExportOptions): Promise<{ data: Blob; filename: string; mimeType: string }> {
-    this.updateProgress('preparing', 0, 'Preparing batch export...');
+    const startTime = Date.now();
+    this.updateProgress('preparing', 0, 'Loading lectures...', { startTime });
 
     const { sessions: sessionIds, zipName, ...exportOptions } = options;
-    const exportedFiles: Array<{ name: string; data: string | Blob; mimeType: string }> = [];
 
     try {
-      // Load sessions (this would typically come from your storage service)
       const sessions = await this.loadSessions(sessionIds);
+      if (sessions.length === 0) {
+        throw new Error('None of the selected lectures could be found');
+      }
 
-      let progress = 0;
-      const progressStep = 80 / sessions.length;
+      const files: ExportFileProgress[] = sessions.map(session => ({ name: session.name, status: 'pending' }));
+      const report = (status: ExportProgress['status'], progress: number, message: string, extra: Partial<ExportProgress> = {}) => {
+        this.updateProgress(status, progress, message, { files: files.map(file => ({ ...file })), startTime, ...extra });
+      };
 
-      for (const session of sessions) {
-        this.updateProgress('processing', progress, `Exporting ${session.name}...`);
+      const zip = new ZipWriter();
+      const usedFolders = new Set<string>();
+      const manifestEntries: Array<Record<string, unknown>> = [];
+      const notionPages: NotionPage[] = [];
+
+      for (let i = 0; i < sessions.length; i++) {
+        const session = sessions[i];
+        files[i].status = 'processing';
+        report('processing', Math.round((i / sessions.length) * 80), `Exporting ${session.name} (${i + 1}/${sessions.length})...`);
+
+        if (exportOptions.format === 'notion') {
+          try {
+            const page = await this.notionPage(session, exportOptions);
+            notionPages.push(page);
+            files[i] = { ...files[i], status: 'completed', size: new Blob([page.markdown]).size };
+          } catch (error) {
+            console.error(`Batch export failed for ${session.id}:`, error);
+            files[i] = { ...files[i], status: 'error', error: error instanceof Error ? error.message : 'Unknown error' };
+          }
+          continue;
+        }
 
-        const result = await this.exportSession(session, exportOptions);
-        exportedFiles.push({
-          name: result.filename,
-          data: result.data,
-          mimeType: result.mimeType
-        });
+        const folder = this.uniqueFolderName(session, usedFolders);
+
+        try {
+          const result = await this.renderSession(session, exportOptions);
+          const path = `${folder}/${result.filename}`;
+          zip.addFile(path, result.data, { date: new Date(session.startTime) });
+
+          files[i] = {
+            ...files[i],
+            status: 'completed',
+            path,
+            size: typeof result.data === 'string' ? new Blob([result.data]).size : result.data.size,
+          };
+          manifestEntries.push({
+            id: session.id,
+            name: session.name,
+            folder,
+            files: [result.filename],
+            date: new Date(session.startTime).toISOString(),
+            duration: session.duration,
+            language: session.language,
+            wordCount: session.wordCount,
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          console.error(`Batch export failed for ${session.id}:`, error);
+          files[i] = { ...files[i], status: 'error', error: message };
+          manifestEntries.push({ id: session.id, name: session.name, error: message });
+        }
+      }
+
+      if (!files.some(file => file.status === 'completed')) {
+        throw new Error('No lectures could be exported');
+      }
 
-        progress += progressStep;
+      if (exportOptions.format === 'notion') {
+        report('generating', 85, 'Creating Notion database...');
+        const archive = await NotionFormatter.generateDatabase(notionPages);
+        await this.checkImport('notion', archive);
+
+        const failedPages = files.filter(file => file.status === 'error').length;
+        report(
+          'completed',
+          100,
+          failedPages > 0 ? `Batch export completed, ${failedPages} lecture(s) failed` : 'Batch export completed',
+          { fileSize: archive.size, endTime: Date.now() }
+        );
+
+        return {
+          data: archive,
+          filename: this.ensureZipExtension(zipName || `notion_lectures_${new Date().toISOString().split('T')[0]}.zip`),
+          mimeType: 'application/zip'
+        };
       }
 
-      this.updateProgress('generating', 90, 'Creating archive...');
+      zip.addFile('manifest.json', JSON.stringify({
+        generator: 'LectureScript',
+        exportedAt: new Date().toISOString(),
+        format: exportOptions.format,
+        options: {
+          layout: exportOptions.layout,
+          language: exportOptions.language,
+          includeTimestamps: exportOptions.includeTimestamps,
+          includeSummary: exportOptions.includeSummary,
+          includeMetadata: exportOptions.includeMetadata,
+          subtitles: exportOptions.subtitles,
+          templateId: exportOptions.templateId,
+          bilingual: exportOptions.bilingual,
+        },
+        missing: sessionIds.filter(id => !sessions.some(session => session.id === id)),
+        recordings: manifestEntries,
+      }, null, 2));
+
+      report('generating', 85, 'Creating archive...');
+      const zipBlob = await zip.generate((done, total) => {
+        report('generating', 85 + Math.round((done / total) * 14), `Compressing ${done}/${total} files...`);
+      });
 
-      // Create ZIP file
-      const zipBlob = await this.createZipArchive(exportedFiles);
-      const filename = zipName || `lecture_exports_${new Date().toISOString().split('T')[0]}.zip`;
+      const filename = this.ensureZipExtension(zipName || `lecture_exports_${new Date().toISOString().split('T')[0]}.zip`);
+      const failed = files.filter(file => file.status === 'error').length;
 
-      this.updateProgress('completed', 100, 'Batch export completed');
+      report(
+        'completed',
+        100,
+        failed > 0 ? `Batch export completed, ${failed} lecture(s) failed` : 'Batch export completed',
+        { fileSize: zipBlob.size, endTime: Date.now() }
+      );
 
       return {
         data: zipBlob,
@@ -108,67 +230,136 @@ export class EnhancedExportService {
       };
 
     } catch (error) {
-      this.updateProgress('error', 0, `Batch export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.updateProgress('error', 0, `Batch export failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { startTime, endTime: Date.now() });
       throw error;
     }
   }
 
+  /**
+   * Look ids up in the live session store first, then in the recording library
+   */
   private async loadSessions(sessionIds: string[]): Promise<LectureSession[]> {
-    // This would typically load from your storage service
-    // For now, return empty array
-    return [];
-  }
-
-  private async createZipArchive(files: Array<{ name: string; data: string | Blob; mimeType: string }>): Promise<Blob> {
-    // Simple ZIP creation using JSZip library (would need to be installed)
-    // For now, create a simple text-based archive
+    const sessions: LectureSession[] = [];
 
-    let archiveContent = 'LECTURE EXPORTS ARCHIVE\n';
-    archiveContent += '='.repeat(50) + '\n\n';
-
-    for (const file of files) {
-      archiveContent += `File: ${file.name}\n`;
-      archiveContent += `Type: ${file.mimeType}\n`;
-      archiveContent += '-'.repeat(30) + '\n';
+    for (const id of sessionIds) {
+      const session = await storage.getSession(id);
+      if (session) {
+        sessions.push(session);
+        continue;
+      }
 
-      if (typeof file.data === 'string') {
-        archiveContent += file.data;
+      const recording = await libraryStorage.getRecording(id);
+      if (recording) {
+        sessions.push(this.recordingToSession(recording));
       } else {
-        archiveContent += '[Binary file content]\n';
+        console.warn(`Batch export: lecture ${id} not found`);
       }
+    }
+
+    return sessions;
+  }
+
+  private recordingToSession(recording: RecordingEntry): LectureSession {
+    // Study recordings keep timed segments; live recordings only keep the transcript text
+    const document = recording.segments?.length
+      ? fromTranscriptionSegments(recording.segments)
+      : fromTranscriptSegments(
+          [{ id: `${recording.id}_full`, text: recording.transcript, timestamp: 0, end: recording.duration }],
+          { duration: recording.duration }
+        );
+
+    return {
+      ...toLectureSession(document, {
+        name: recording.title,
+        startTime: recording.dateCreated,
+        cost: recording.cost,
+        summary: recording.description,
+        keyTopics: recording.keyTopics,
+      }),
+      id: recording.id,
+    };
+  }
+
+  private uniqueFolderName(session: LectureSession, used: Set<string>): string {
+    const date = new Date(session.startTime).toISOString().split('T')[0];
+    const base = `${date}_${this.sanitizeFilename(session.name) || session.id}`;
 
-      archiveContent += '\n\n';
+    let folder = base;
+    for (let n = 2; used.has(folder); n++) {
+      folder = `${base}_${n}`;
     }
+    used.add(folder);
+    return folder;
+  }
 
-    return new Blob([archiveContent], { type: 'text/plain' });
+  private ensureZipExtension(filename: string): string {
+    return /\.zip$/i.test(filename) ? filename : `${filename}.zip`;
   }
 
-  private updateProgress(status: ExportProgress['status'], progress: number, message: string) {
+  private updateProgress(
+    status: ExportProgress['status'],
+    progress: number,
+    message: string,
+    extra: Partial<ExportProgress> = {}
+  ) {
     if (this.progressCallback) {
-      this.progressCallback({ status, progress, message });
+      this.progressCallback({ ...extra, status, progress, message });
     }
   }
 
-  private filterSegmentsByLanguage(
-    segments: TranscriptSegment[],
-    language: 'zh' | 'en' | 'both'
-  ): TranscriptSegment[] {
-    if (language === 'both') {
-      return segments;
+  /**
+   * Bilingual exports need both columns, so untranslated segments are translated first. If the
+   * translator can't be reached the export still goes ahead with whatever translations exist.
+   */
+  private async withTranslations(session: LectureSession, options: ExportOptions): Promise<LectureSession> {
+    if (!this.isBilingual(options) || session.segments.every(isTranslated)) {
+      return session;
     }
 
-    return segments.filter(segment => {
-      const isChineseText = /[\u4e00-\u9fff]/.test(segment.text);
-      const isEnglishText = /[a-zA-Z]/.test(segment.text);
+    try {
+      return { ...session, segments: await translateSegments(session.segments) };
+    } catch (error) {
+      console.warn('Translation failed, exporting without the missing translations:', error);
+      return session;
+    }
+  }
 
-      if (language === 'zh') {
-        return isChineseText;
-      } else if (language === 'en') {
-        return isEnglishText && !isChineseText;
-      }
+  private isBilingual(options: ExportOptions): boolean {
+    return options.language === 'both' && Boolean(options.bilingual);
+  }
 
-      return true;
-    });
+  /**
+   * Render a built-in or user template. PDFs are laid out client-side from the rendered blocks.
+   */
+  private async exportWithTemplate(
+    session: LectureSession,
+    segments: TranscriptSegment[],
+    options: ExportOptions,
+    templateId: string
+  ): Promise<{ data: string | Blob; filename: string; mimeType: string }> {
+    const template = await this.loadTemplate(templateId, options.format);
+    const rendered = TemplateEngine.renderTemplate(template, session, segments, options);
+    const baseName = this.sanitizeFilename(session.name);
+
+    switch (options.format) {
+      case 'pdf':
+        return await PDFFormatter.generateTemplatePDF(session, segments, options, rendered, template.syntax);
+      case 'gdocs':
+        return { data: rendered, filename: `${baseName}.html`, mimeType: 'text/html;charset=utf-8' };
+      default:
+        return { data: rendered, filename: `${baseName}.md`, mimeType: 'text/markdown;charset=utf-8' };
+    }
+  }
+
+  private async loadTemplate(templateId: string, format: ExportOptions['format']) {
+    const template = await templateService.getTemplate(templateId);
+    if (!template) {
+      throw new Error('The selected export template no longer exists.');
+    }
+    if (!TemplateEngine.supportsFormat(template, format)) {
+      throw new Error(`"${template.name}" is a ${template.syntax === 'html' ? 'HTML' : 'Markdown'} template and cannot be used for ${format.toUpperCase()} exports.`);
+    }
+    return template;
   }
 
   private exportAsText(
@@ -206,21 +397,25 @@ export class EnhancedExportService {
     // Add transcript
     markdown += `## 🎙️ Transcript\n\n`;
 
-    segments.forEach((segment, index) => {
-      if (layout === 'academic') {
-        markdown += `### Segment ${index + 1}\n\n`;
-      }
+    if (this.isBilingual(options)) {
+      markdown += this.generateMarkdownBilingualTable(segments, options);
+    } else {
+      segments.forEach((segment, index) => {
+        if (layout === 'academic') {
+          markdown += `### Segment ${index + 1}\n\n`;
+        }
 
-      if (includeTimestamps) {
-        markdown += `**[${this.formatTimestamp(segment.timestamp)}]** `;
-      }
+        if (includeTimestamps) {
+          markdown += `**[${this.formatTimestamp(segment.timestamp)}]** `;
+        }
 
-      if (segment.speaker) {
-        markdown += `**${segment.speaker}:** `;
-      }
+        if (segment.speaker) {
+          markdown += `**${segment.speaker}:** `;
+        }
 
-      markdown += `${segment.text}\n\n`;
-    });
+        markdown += `${segment.text}\n\n`;
+      });
+    }
 
     // Add footer
     if (options.includeBranding) {
@@ -243,6 +438,11 @@ export class EnhancedExportService {
     segments: TranscriptSegment[],
     options: ExportOptions
   ): Promise<{ data: Blob; filename: string; mimeType: string }> {
+    // The server layouts have no parallel columns
+    if (!navigator.onLine || this.isBilingual(options)) {
+      return await PDFFormatter.generatePDF(session, segments, options);
+    }
+
     try {
       // Try server-side PDF generation first
       return await PDFFormatter.generateServerPDF(session, segments, options, this.serverUrl);
@@ -280,157 +480,90 @@ export class EnhancedExportService {
     }
   }
 
-  private exportForNotion(
+  /**
+   * A single lecture as a one-row Notion database, so it imports with its properties
+   */
+  private async exportForNotion(
     session: LectureSession,
-    segments: TranscriptSegment[],
     options: ExportOptions
-  ): { data: string; filename: string; mimeType: string } {
-    let notionMarkdown = `# ${session.name}\n\n`;
-
-    if (options.includeMetadata) {
-      notionMarkdown += `> **Lecture Information**\n`;
-      notionMarkdown += `> 📅 Date: ${new Date(session.startTime).toLocaleString('zh-HK')}\n`;
-      notionMarkdown += `> ⏱️ Duration: ${this.formatDuration(session.duration)}\n`;
-      notionMarkdown += `> 🗣️ Language: ${this.getLanguageDisplay(session.language)}\n`;
-      notionMarkdown += `> 📝 Words: ${session.wordCount}\n`;
-      notionMarkdown += `> 💰 Cost: $${session.cost.toFixed(4)}\n\n`;
-    }
-
-    if (options.includeSummary && session.summary) {
-      notionMarkdown += `## 📝 Summary\n\n`;
-      notionMarkdown += `<aside>\n💡 ${session.summary}\n</aside>\n\n`;
-    }
-
-    notionMarkdown += `## 📢 Full Transcript\n\n`;
-
-    segments.forEach(segment => {
-      if (options.includeTimestamps) {
-        notionMarkdown += `**[${this.formatTimestamp(segment.timestamp)}]** `;
-      }
+  ): Promise<{ data: Blob; filename: string; mimeType: string }> {
+    const archive = await NotionFormatter.generateDatabase([await this.notionPage(session, options)]);
+    await this.checkImport('notion', archive);
 
-      if (segment.speaker) {
-        notionMarkdown += `**${segment.speaker}:** `;
-      }
+    return {
+      data: archive,
+      filename: `${this.sanitizeFilename(session.name)}_notion.zip`,
+      mimeType: 'application/zip',
+    };
+  }
 
-      notionMarkdown += `${segment.text}\n\n`;
-    });
+  /**
+   * A lecture as a Notion database row: the page body, standard or from a Markdown template,
+   * plus the recording's tags and a link back to it
+   */
+  private async notionPage(session: LectureSession, options: ExportOptions): Promise<NotionPage> {
+    session = await this.withTranslations(session, options);
+    const segments = segmentsInLanguage(session.segments, options.language);
+    const source = await this.linkSource(session);
 
-    notionMarkdown += `---\n\n`;
-    notionMarkdown += `📱 *Generated by Lecture Transcription PWA*\n`;
+    const markdown = options.templateId
+      ? TemplateEngine.renderTemplate(await this.loadTemplate(options.templateId, options.format), session, segments, options)
+      : NotionFormatter.generatePage(session, segments, options, source.linkFor);
 
-    return {
-      data: notionMarkdown,
-      filename: `${this.sanitizeFilename(session.name)}_notion.md`,
-      mimeType: 'text/markdown;charset=utf-8',
-    };
+    return { session, markdown, tags: source.tags, url: source.url };
   }
 
-  private exportForGoogleDocs(
+  private async exportForGoogleDocs(
     session: LectureSession,
     segments: TranscriptSegment[],
     options: ExportOptions
-  ): { data: string; filename: string; mimeType: string } {
-    let html = `<!DOCTYPE html>
-<html lang="zh-HK">
-<head>
-    <meta charset="UTF-8">
-    <title>${session.name}</title>
-    <style>
-        body {
-            font-family: 'Times New Roman', serif;
-            line-height: 1.6;
-            margin: 40px;
-            color: #333;
-        }
-        h1 {
-            color: #1a73e8;
-            border-bottom: 2px solid #1a73e8;
-            padding-bottom: 10px;
-        }
-        .metadata {
-            background-color: #f8f9fa;
-            padding: 15px;
-            border-left: 4px solid #1a73e8;
-            margin: 20px 0;
-        }
-        .timestamp {
-            color: #666;
-            font-weight: bold;
-            background: #e3f2fd;
-            padding: 2px 6px;
-            border-radius: 4px;
-            font-size: 0.9em;
-        }
-        .speaker {
-            font-weight: bold;
-            color: #d32f2f;
-        }
-        .summary {
-            background-color: #e8f5e8;
-            padding: 20px;
-            border-radius: 8px;
-            margin: 20px 0;
-            border-left: 4px solid #4caf50;
-        }
-        .transcript-segment {
-            margin: 15px 0;
-            padding: 10px 0;
-            border-bottom: 1px solid #f0f0f0;
-        }
-    </style>
-</head>
-<body>`;
-
-    html += `<h1>${session.name}</h1>`;
+  ): Promise<{ data: string; filename: string; mimeType: string }> {
+    const { linkFor } = await this.linkSource(session);
+    const result = GoogleDocsFormatter.generateHTML(session, segments, options, linkFor);
+    await this.checkImport('gdocs', result.data);
+    return result;
+  }
 
-    if (options.includeMetadata) {
-      html += `<div class="metadata">
-        <h2>Lecture Information</h2>
-        <p><strong>Date:</strong> ${new Date(session.startTime).toLocaleString('zh-HK')}</p>
-        <p><strong>Duration:</strong> ${this.formatDuration(session.duration)}</p>
-        <p><strong>Language:</strong> ${this.getLanguageDisplay(session.language)}</p>
-        <p><strong>Word Count:</strong> ${session.wordCount}</p>
-        <p><strong>Cost:</strong> $${session.cost.toFixed(4)}</p>
-      </div>`;
-    }
+  private async exportAsODT(
+    session: LectureSession,
+    segments: TranscriptSegment[],
+    options: ExportOptions
+  ): Promise<{ data: Blob; filename: string; mimeType: string }> {
+    const { linkFor } = await this.linkSource(session);
+    const result = await GoogleDocsFormatter.generateODT(session, segments, options, linkFor);
+    await this.checkImport('odt', result.data);
+    return result;
+  }
 
-    if (options.includeSummary && session.summary) {
-      html += `<div class="summary">
-        <h2>📋 Summary</h2>
-        <p>${session.summary}</p>
-      </div>`;
+  /**
+   * Library recordings can be opened at a timestamp; live sessions that were never saved to the
+   * library have nothing to link to
+   */
+  private async linkSource(session: LectureSession): Promise<{ tags: string[]; url?: string; linkFor?: TimestampLinker }> {
+    const recording = await libraryStorage.getRecording(session.id).catch(() => undefined);
+    if (!recording) {
+      return { tags: [] };
     }
 
-    html += `<h2>🎙️ Transcript</h2><div class="transcript">`;
-
-    segments.forEach(segment => {
-      html += `<div class="transcript-segment">`;
-
-      if (options.includeTimestamps) {
-        html += `<span class="timestamp">[${this.formatTimestamp(segment.timestamp)}]</span> `;
-      }
-
-      if (segment.speaker) {
-        html += `<span class="speaker">${segment.speaker}:</span> `;
-      }
+    const path = recording.transcriptId
+      ? buildPath('studyViewer', { transcriptId: recording.transcriptId })
+      : buildPath('recording', { recordingId: recording.id });
+    const url = `${window.location.origin}${path}`;
 
-      html += `${segment.text}`;
-      html += `</div>`;
-    });
+    return { tags: recording.tags || [], url, linkFor: seconds => `${url}?t=${Math.floor(seconds)}` };
+  }
 
-    html += `</div>`;
+  /**
+   * Development builds check import formats against the importing app's rules, so a formatter
+   * change that breaks Notion or Google Docs imports shows up in the console
+   */
+  private async checkImport(target: ImportTarget, data: string | Blob) {
+    if (!import.meta.env.DEV) return;
 
-    if (options.includeBranding) {
-      html += `<hr><p><em>Generated by Lecture Transcription PWA on ${new Date().toLocaleString('zh-HK')}</em></p>`;
+    const result = await ImportValidator.validate(target, data);
+    if (!result.valid) {
+      console.warn(`${target} export will not import cleanly:`, result.errors);
     }
-
-    html += `</body></html>`;
-
-    return {
-      data: html,
-      filename: `${this.sanitizeFilename(session.name)}.html`,
-      mimeType: 'text/html;charset=utf-8',
-    };
   }
 
   private generateTextContent(
@@ -462,6 +595,15 @@ export class EnhancedExportService {
 
       const speaker = segment.speaker ? `${segment.speaker}: ` : '';
 
+      if (this.isBilingual(options)) {
+        // Plain text has no columns, so each segment is a 中文 line followed by its English line
+        const pair = bilingualPair(segment);
+        const indent = ' '.repeat(timestamp.length);
+        text += `${timestamp}中 ${speaker}${(pair.zh || '').trim()}\n`;
+        text += `${indent}EN ${speaker}${(pair.en || '').trim()}\n\n`;
+        return;
+      }
+
       text += `${timestamp}${speaker}${segment.text.trim()}\n\n`;
     });
 
@@ -472,6 +614,26 @@ export class EnhancedExportService {
     return text;
   }
 
+  /**
+   * Parallel 中文 / English columns as a pipe table; cells hold a single line
+   */
+  private generateMarkdownBilingualTable(segments: TranscriptSegment[], options: ExportOptions): string {
+    const cell = (segment: TranscriptSegment, text?: string) => {
+      if (!text) return '';
+      const speaker = segment.speaker ? `**${segment.speaker}:** ` : '';
+      return `${speaker}${text.trim().replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|')}`;
+    };
+    const header = options.includeTimestamps ? ['Time', '中文', 'English'] : ['中文', 'English'];
+
+    const rows = segments.map(segment => {
+      const pair = bilingualPair(segment);
+      const cells = [cell(segment, pair.zh), cell(segment, pair.en)];
+      return `| ${(options.includeTimestamps ? [`**${this.formatTimestamp(segment.timestamp)}**`, ...cells] : cells).join(' | ')} |`;
+    });
+
+    return `| ${header.join(' | ')} |\n|${header.map(() => '------').join('|')}|\n${rows.join('\n')}\n\n`;
+  }
+
   private generateMarkdownMetadata(session: LectureSession): string {
     return `## 📊 Lecture Information
 
@@ -1,5 +1,6 @@
 import type { LectureSession, ExportOptions, TranscriptSegment } from '../types';
 import { formatDuration } from '../utils/audioProcessor';
+import { segmentsInLanguage } from '../utils/bilingual';
 
 export class ExportService {
   async exportSession(
@@ -8,7 +9,7 @@ export class ExportService {
   ): Promise<{ data: string | Blob; filename: string; mimeType: string }> {
     const { format, includeTimestamps, includeSummary, includeMetadata, language } = options;
 
-    const filteredSegments = this.filterSegmentsByLanguage(session.segments, language);
+    const filteredSegments = segmentsInLanguage(session.segments, language);
     const content = this.generateContent(session, filteredSegments, {
       includeTimestamps,
       includeSummary,
@@ -31,28 +32,6 @@ export class ExportService {
     }
   }
 
-  private filterSegmentsByLanguage(
-    segments: TranscriptSegment[],
-    language: 'zh' | 'en' | 'both'
-  ): TranscriptSegment[] {
-    if (language === 'both') {
-      return segments;
-    }
-
-    return segments.filter(segment => {
-      const isChineseText = /[\u4e00-\u9fff]/.test(segment.text);
-      const isEnglishText = /[a-zA-Z]/.test(segment.text);
-
-      if (language === 'zh') {
-        return isChineseText;
-      } else if (language === 'en') {
-        return isEnglishText && !isChineseText;
-      }
-
-      return true;
-    });
-  }
-
   private generateContent(
     session: LectureSession,
     segments: TranscriptSegment[],
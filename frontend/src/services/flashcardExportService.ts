@@ -0,0 +1,138 @@
+// 🎯 LectureScript - Flashcard Export Service
+// Turns lecture insights into an Anki deck whose cards link back to the moment in the lecture
+// Author: Peter Levler
+
+import { storage } from '../utils/storage';
+import { libraryStorage } from '../utils/libraryStorage';
+import { buildPath } from '../hooks/useRouter';
+import { SummaryService } from './summaryService';
+import { AnkiFormatter } from '../utils/formatters/ankiFormatter';
+import type { RecordingEntry, LectureInsights } from '../types/library';
+import type { TranscriptionSegment } from '../types/transcription';
+import type { TranscriptSegment } from '../types';
+
+export interface FlashcardExportResult {
+  filename: string;
+  cardCount: number;
+  generatedInsights: boolean;
+}
+
+class FlashcardExportService {
+  /**
+   * Download the recording's deck as an Anki text import file
+   */
+  async exportRecording(recording: RecordingEntry): Promise<FlashcardExportResult> {
+    const segments = this.getSegments(recording);
+    const { insights, generated } = await this.getInsights(recording, segments);
+
+    const notes = AnkiFormatter.buildNotes({
+      title: recording.title,
+      segments,
+      concepts: insights.concepts.length > 0 ? insights.concepts : recording.keyTopics,
+      questions: insights.questions,
+      linkFor: seconds => this.buildLink(recording, seconds),
+    });
+
+    if (notes.length === 0) {
+      throw new Error('No concepts or review questions to turn into flashcards yet.');
+    }
+
+    const tsv = AnkiFormatter.toTSV(notes, AnkiFormatter.deckName(recording.title));
+    const filename = `${recording.title.replace(/[\\/:*?"<>|]/g, '_').trim() || 'lecture'}_anki.txt`;
+
+    const blob = new Blob([tsv], { type: 'text/plain;charset=utf-8' });
+    this.downloadBlob(blob, filename);
+
+    await libraryStorage.updateRecording(recording.id, {
+      lastExported: Date.now(),
+      exportCount: (recording.exportCount || 0) + 1,
+    });
+
+    return { filename, cardCount: notes.length, generatedInsights: generated };
+  }
+
+  /**
+   * Stored insights, else generate them once and keep them on the recording. Without an API key
+   * the deck falls back to the recording's key topics.
+   */
+  private async getInsights(
+    recording: RecordingEntry,
+    segments: TranscriptionSegment[]
+  ): Promise<{ insights: LectureInsights; generated: boolean }> {
+    if (recording.insights) {
+      return { insights: recording.insights, generated: false };
+    }
+
+    const empty: LectureInsights = { insights: [], concepts: [], questions: [], generatedAt: 0 };
+
+    const settings = await storage.getSettings();
+    const apiKey = settings?.apiSettings.openaiApiKey;
+    if (!apiKey || !navigator.onLine) {
+      return { insights: empty, generated: false };
+    }
+
+    const summaryService = new SummaryService(apiKey);
+    const result = await summaryService.generateKeyInsights(segments.map(this.toSummarySegment));
+
+    // generateKeyInsights reports failures as a single placeholder insight; don't cache those
+    if (result.concepts.length === 0 && result.questions.length === 0) {
+      return { insights: empty, generated: false };
+    }
+
+    const insights: LectureInsights = { ...result, generatedAt: Date.now() };
+    await libraryStorage.updateRecording(recording.id, { insights });
+    return { insights, generated: true };
+  }
+
+  /**
+   * Timed segments when the recording has them; live recordings only keep the text
+   */
+  private getSegments(recording: RecordingEntry): TranscriptionSegment[] {
+    if (recording.segments && recording.segments.length > 0) {
+      return recording.segments;
+    }
+
+    return [{
+      id: `${recording.id}-transcript`,
+      text: recording.transcript,
+      start: 0,
+      end: recording.duration,
+    }];
+  }
+
+  private toSummarySegment(segment: TranscriptionSegment): TranscriptSegment {
+    return {
+      id: segment.id,
+      text: segment.text,
+      timestamp: segment.start,
+      end: segment.end,
+    };
+  }
+
+  /**
+   * Study recordings open in the split-screen viewer, the rest in the library
+   */
+  private buildLink(recording: RecordingEntry, seconds: number): string {
+    const path = recording.transcriptId
+      ? buildPath('studyViewer', { transcriptId: recording.transcriptId })
+      : buildPath('recording', { recordingId: recording.id });
+    return `${window.location.origin}${path}?t=${Math.floor(seconds)}`;
+  }
+
+  /**
+   * Download blob as file
+   */
+  private downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+}
+
+export const flashcardExportService = new FlashcardExportService();
+export default flashcardExportService;
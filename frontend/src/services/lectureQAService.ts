@@ -0,0 +1,186 @@
+// 🎯 LectureScript - Lecture Q&A Service
+// "Ask your lectures": embed library passages, retrieve the closest ones and quote them with citations
+// Author: Peter Levler
+
+import { libraryStorage } from '../utils/libraryStorage';
+import { chunkRecording, chunksHash, splitSentences, type LectureChunkRecord } from '../utils/lectureChunks';
+import { isStopword, tokenize } from '../utils/searchIndex';
+import { dotProduct, resolveEmbeddingProvider, type EmbeddingProvider } from './embeddings';
+import type { RecordingEntry, LectureAnswer, LectureCitation } from '../types/library';
+
+export interface AskLecturesOptions {
+  /** Passages to cite */
+  limit?: number;
+  /** Recordings embedded so far while the vector store catches up with the library */
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_LIMIT = 5;
+
+// A semester-wide question should cite several lectures, not one lecture's neighbouring passages
+const MAX_CITATIONS_PER_RECORDING = 2;
+
+// Passages sharing nothing with the question score ~0 with hashing vectors
+const MIN_SIMILARITY = 0.05;
+
+const EMBED_BATCH_SIZE = 32;
+
+// The answer quotes one sentence from each of the best passages
+const QUOTED_PASSAGES = 3;
+const MAX_QUOTE_LENGTH = 240;
+
+class LectureQAService {
+  async ask(question: string, options: AskLecturesOptions = {}): Promise<LectureAnswer> {
+    const trimmed = question.trim();
+    if (!trimmed) {
+      throw new Error('Type a question about your lectures first.');
+    }
+
+    const provider = await resolveEmbeddingProvider();
+    const [records, recordings] = await this.syncVectors(provider, options);
+    const [questionVector] = await provider.embed([trimmed]);
+
+    const titles = new Map(recordings.map(recording => [recording.id, recording]));
+    const perRecording = new Map<string, number>();
+    const limit = options.limit ?? DEFAULT_LIMIT;
+
+    const ranked = records
+      .map(record => ({ record, score: dotProduct(questionVector, record.vector) }))
+      .filter(({ score }) => score >= MIN_SIMILARITY)
+      .sort((a, b) => b.score - a.score);
+
+    const citations: LectureCitation[] = [];
+    for (const { record, score } of ranked) {
+      if (citations.length >= limit) break;
+
+      const cited = perRecording.get(record.recordingId) || 0;
+      const recording = titles.get(record.recordingId);
+      if (cited >= MAX_CITATIONS_PER_RECORDING || !recording) continue;
+      perRecording.set(record.recordingId, cited + 1);
+
+      citations.push({
+        number: citations.length + 1,
+        chunk: {
+          id: record.id,
+          recordingId: record.recordingId,
+          source: record.source,
+          text: record.text,
+          start: record.start,
+          end: record.end,
+          segmentId: record.segmentId,
+        },
+        recordingTitle: recording.title,
+        dateCreated: recording.dateCreated,
+        score,
+      });
+    }
+
+    return {
+      question: trimmed,
+      answer: this.composeAnswer(trimmed, citations),
+      citations,
+      model: provider.model,
+    };
+  }
+
+  /**
+   * Embed every recording whose passages changed (or were embedded by another model) since the
+   * last question, and return the vectors for the whole library
+   */
+  private async syncVectors(
+    provider: EmbeddingProvider,
+    options: AskLecturesOptions
+  ): Promise<[LectureChunkRecord[], RecordingEntry[]]> {
+    const [recordings, stored] = await Promise.all([
+      libraryStorage.getAllRecordings(),
+      libraryStorage.getLectureChunks(),
+    ]);
+
+    const storedByRecording = new Map<string, LectureChunkRecord[]>();
+    stored.forEach(record => {
+      storedByRecording.set(record.recordingId, [...(storedByRecording.get(record.recordingId) || []), record]);
+    });
+
+    const current: LectureChunkRecord[] = [];
+    const stale: { recording: RecordingEntry; chunks: ReturnType<typeof chunkRecording>; contentHash: string }[] = [];
+
+    recordings.forEach(recording => {
+      const chunks = chunkRecording(recording);
+      const contentHash = chunksHash(chunks);
+      const existing = storedByRecording.get(recording.id) || [];
+
+      const upToDate = existing.length === chunks.length &&
+        existing.every(record => record.model === provider.model && record.contentHash === contentHash);
+
+      if (upToDate) {
+        current.push(...existing);
+      } else {
+        stale.push({ recording, chunks, contentHash });
+      }
+    });
+
+    options.onProgress?.(0, stale.length);
+
+    for (let index = 0; index < stale.length; index++) {
+      if (options.signal?.aborted) {
+        throw new DOMException('Question cancelled', 'AbortError');
+      }
+
+      const { recording, chunks, contentHash } = stale[index];
+      const vectors: Float32Array[] = [];
+      for (let offset = 0; offset < chunks.length; offset += EMBED_BATCH_SIZE) {
+        const batch = chunks.slice(offset, offset + EMBED_BATCH_SIZE);
+        vectors.push(...await provider.embed(batch.map(chunk => chunk.text)));
+      }
+
+      const records = chunks.map((chunk, position) => ({
+        ...chunk,
+        model: provider.model,
+        contentHash,
+        vector: vectors[position],
+      }));
+
+      await libraryStorage.replaceLectureChunks(recording.id, records);
+      current.push(...records);
+      options.onProgress?.(index + 1, stale.length);
+    }
+
+    if (stale.length > 0) {
+      console.log(`🧭 Embedded ${stale.length} recordings with ${provider.model}`);
+    }
+
+    return [current, recordings];
+  }
+
+  /**
+   * Quote the sentence of each top passage that shares the most terms with the question.
+   * Nothing is generated, so the answer never says more than the lectures did.
+   */
+  private composeAnswer(question: string, citations: LectureCitation[]): string {
+    if (citations.length === 0) {
+      return 'Nothing in your library seems to cover this yet.';
+    }
+
+    const questionTerms = new Set(
+      tokenize(question, 0, true).map(token => token.term).filter(term => !isStopword(term))
+    );
+
+    return citations.slice(0, QUOTED_PASSAGES).map(citation => {
+      const sentences = splitSentences(citation.chunk.text);
+      const best = sentences.reduce<{ sentence: string; overlap: number }>((winner, sentence) => {
+        const terms = new Set(tokenize(sentence).map(token => token.term));
+        const overlap = Array.from(questionTerms).filter(term => terms.has(term)).length;
+        return overlap > winner.overlap ? { sentence, overlap } : winner;
+      }, { sentence: sentences[0] || citation.chunk.text, overlap: 0 });
+
+      const quote = best.sentence.length > MAX_QUOTE_LENGTH
+        ? `${best.sentence.slice(0, MAX_QUOTE_LENGTH).trim()}\u2026`
+        : best.sentence;
+      return `${quote} [${citation.number}]`;
+    }).join('\n');
+  }
+}
+
+export const lectureQAService = new LectureQAService();
+export default lectureQAService;
@@ -0,0 +1,194 @@
+// 🎯 LectureScript - Local Upload Server
+// In-memory stand-in for the resumable upload endpoints, so upload flows and tests run without a backend
+// Author: Peter Levler
+
+import { CHECKSUM_HEADER, partChecksum, type UploadRequest, type UploadTransport, type UploadedPart } from './resumableUpload';
+
+export interface LocalUploadServerOptions {
+  /** Path the endpoints live under; only the path of a request URL is matched */
+  endpoint?: string;
+  /** Part indexes whose first request fails as a dropped connection, to exercise retries */
+  dropPartIndexes?: number[];
+  /** Part indexes whose first request arrives damaged, to exercise checksum mismatches */
+  corruptPartIndexes?: number[];
+  /** Artificial latency per request, in milliseconds */
+  latencyMs?: number;
+  /** Answer init with 404 like a backend without resumable uploads */
+  unsupported?: boolean;
+}
+
+export interface LocalUpload {
+  uploadId: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  kind: 'audio' | 'pdf';
+  totalParts: number;
+  fields: Record<string, string>;
+  parts: Map<number, { data: Blob; checksum: string }>;
+  completed?: Blob;
+}
+
+const json = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+export class LocalUploadServer {
+  private options: Required<LocalUploadServerOptions>;
+  private uploads: Map<string, LocalUpload> = new Map();
+  private failedOnce: Set<string> = new Set();
+  private nextId = 1;
+
+  /** Every request that reached the server, for asserting which parts were actually sent */
+  readonly requests: { method: string; path: string }[] = [];
+
+  constructor(options: LocalUploadServerOptions = {}) {
+    this.options = {
+      endpoint: options.endpoint ?? '/api/upload/resumable',
+      dropPartIndexes: options.dropPartIndexes ?? [],
+      corruptPartIndexes: options.corruptPartIndexes ?? [],
+      latencyMs: options.latencyMs ?? 0,
+      unsupported: options.unsupported ?? false,
+    };
+  }
+
+  getUpload(uploadId: string): LocalUpload | undefined {
+    return this.uploads.get(uploadId);
+  }
+
+  /**
+   * Drop an unfinished upload, as a backend does once it expires
+   */
+  expire(uploadId: string): void {
+    this.uploads.delete(uploadId);
+  }
+
+  /**
+   * Answer one request; pass as the `transport` of a ResumableUpload
+   */
+  readonly handle: UploadTransport = async request => {
+    if (this.options.latencyMs > 0) await this.delay(this.options.latencyMs, request.signal);
+    if (request.signal?.aborted) throw new DOMException('Upload aborted', 'AbortError');
+
+    const path = new URL(request.url, 'http://localhost').pathname;
+    this.requests.push({ method: request.method, path });
+
+    if (!path.startsWith(`${this.options.endpoint}/`)) {
+      return json({ success: false, error: 'Not found' }, 404);
+    }
+    const route = path.slice(this.options.endpoint.length + 1).split('/').map(decodeURIComponent);
+
+    if (request.method === 'POST' && route.length === 1 && route[0] === 'init') {
+      return this.init(request);
+    }
+
+    const upload = this.uploads.get(route[0]);
+    if (!upload) {
+      return json({ success: false, error: 'Upload not found' }, 404);
+    }
+
+    if (request.method === 'GET' && route.length === 1) {
+      return json({ uploadId: upload.uploadId, parts: this.receivedParts(upload) });
+    }
+    if (request.method === 'PUT' && route.length === 3 && route[1] === 'parts') {
+      return this.receivePart(upload, Number(route[2]), request);
+    }
+    if (request.method === 'POST' && route.length === 2 && route[1] === 'complete') {
+      return this.complete(upload, request);
+    }
+
+    return json({ success: false, error: 'Not found' }, 404);
+  };
+
+  private init(request: UploadRequest): Response {
+    if (this.options.unsupported) {
+      return json({ success: false, error: 'Not found' }, 404);
+    }
+
+    const body = JSON.parse(String(request.body));
+    const uploadId = `local-upload-${this.nextId++}`;
+    this.uploads.set(uploadId, {
+      uploadId,
+      fileName: body.fileName,
+      fileSize: body.fileSize,
+      mimeType: body.mimeType,
+      kind: body.kind,
+      totalParts: body.totalParts,
+      fields: body.fields || {},
+      parts: new Map(),
+    });
+
+    return json({ uploadId });
+  }
+
+  private async receivePart(upload: LocalUpload, index: number, request: UploadRequest): Promise<Response> {
+    if (!Number.isInteger(index) || index < 0 || index >= upload.totalParts || !(request.body instanceof Blob)) {
+      return json({ success: false, error: 'Invalid part' }, 400);
+    }
+
+    const attempt = `${upload.uploadId}:${index}`;
+    if (this.options.dropPartIndexes.includes(index) && !this.failedOnce.has(`drop:${attempt}`)) {
+      this.failedOnce.add(`drop:${attempt}`);
+      request.onUploadProgress?.(Math.floor(request.body.size / 2), request.body.size);
+      throw new Error('Network error during upload');
+    }
+
+    let data: Blob = request.body;
+    if (this.options.corruptPartIndexes.includes(index) && !this.failedOnce.has(`corrupt:${attempt}`)) {
+      this.failedOnce.add(`corrupt:${attempt}`);
+      data = new Blob([data.slice(1), new Uint8Array([0])]);
+    }
+
+    const expected = request.headers?.[CHECKSUM_HEADER]?.replace(/^sha-256=/, '');
+    const checksum = await partChecksum(data);
+    if (expected !== checksum) {
+      return json({ success: false, error: `Checksum mismatch for part ${index}` }, 422);
+    }
+
+    request.onUploadProgress?.(data.size, data.size);
+    upload.parts.set(index, { data, checksum });
+    return json({ index, checksum });
+  }
+
+  private complete(upload: LocalUpload, request: UploadRequest): Response {
+    const { parts }: { parts: UploadedPart[] } = JSON.parse(String(request.body));
+
+    for (let index = 0; index < upload.totalParts; index++) {
+      const listed = parts.find(part => part.index === index);
+      const received = upload.parts.get(index);
+      if (!received) {
+        return json({ success: false, error: `Part ${index} was never received` }, 400);
+      }
+      if (listed?.checksum !== received.checksum) {
+        return json({ success: false, error: `Checksum mismatch for part ${index}` }, 400);
+      }
+    }
+
+    const ordered = Array.from({ length: upload.totalParts }, (_, index) => upload.parts.get(index)!.data);
+    upload.completed = new Blob(ordered, { type: upload.mimeType });
+    if (upload.completed.size !== upload.fileSize) {
+      return json({ success: false, error: `Received ${upload.completed.size} of ${upload.fileSize} bytes` }, 400);
+    }
+
+    const fileId = upload.fields.fileId || upload.uploadId;
+    return json({
+      success: true,
+      fileId,
+      fileUrl: `/uploads/${fileId}/${encodeURIComponent(upload.fileName)}`,
+      transcriptId: upload.kind === 'audio' ? `local-transcript-${upload.uploadId}` : undefined,
+    });
+  }
+
+  private receivedParts(upload: LocalUpload): UploadedPart[] {
+    return Array.from(upload.parts.entries(), ([index, part]) => ({ index, checksum: part.checksum }));
+  }
+
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+}
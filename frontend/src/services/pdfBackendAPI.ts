@@ -1,5 +1,8 @@
 import type { TranscriptSegment } from '../types';
+import type { TranscriptDocument } from '../types/transcription';
 import { backendService } from './backendAPI';
+import { fromEnhancedTranscription, toTranscriptSegments } from '../utils/transcriptDocument';
+import { audioFileExtension } from '../utils/audioEncoding/formats';
 
 const BACKEND_URL = 'http://localhost:3001';
 
@@ -72,10 +75,11 @@ export class PdfBackendService {
     cost: number;
     intelligentTitle: string;
     keyTopics: string[];
+    document: TranscriptDocument;
   }> {
     try {
       const formData = new FormData();
-      formData.append('audio', audioBlob, 'recording.webm');
+      formData.append('audio', audioBlob, `recording.${audioFileExtension(audioBlob.type)}`);
       formData.append('contextId', contextId);
 
       if (options.language) {
@@ -106,26 +110,17 @@ export class PdfBackendService {
 
       console.log('✅ Enhanced transcription completed:', result.data);
 
-      const segments: TranscriptSegment[] = result.data.segments?.map((seg: any, index: number) => ({
-        id: `segment-${index}`,
-        text: seg.text || '',
-        timestamp: seg.start || 0,
-        confidence: seg.confidence || 1,
-      })) || [{
-        id: 'segment-0',
-        text: result.data.text,
-        timestamp: 0,
-        confidence: 1,
-      }];
+      const document = fromEnhancedTranscription(result.data);
 
       return {
         text: result.data.text,
-        segments,
+        segments: toTranscriptSegments(document),
         duration: result.data.duration || 0,
         language: result.data.language || 'unknown',
         cost: result.data.cost || 0,
         intelligentTitle: result.data.intelligentTitle || '',
         keyTopics: result.data.keyTopics || [],
+        document,
       };
 
     } catch (error) {
@@ -0,0 +1,72 @@
+// 🎯 LectureScript - Backend Transcription Provider
+// Adapter over /api/transcribe, /api/transcribe/stream and /api/transcribe/enhanced
+// Author: Peter Levler
+
+import { BackendService } from '../backendAPI';
+import { StreamingTranscriptionService } from '../streamingAPI';
+import { PdfBackendService } from '../pdfBackendAPI';
+import type {
+  TranscriptionProvider,
+  TranscriptionMode,
+  TranscriptionRequest,
+  StreamChunkRequest,
+  ContextTranscriptionRequest,
+  TranscriptionResult,
+} from './types';
+import type { AudioUploadFormat } from '../../utils/audioEncoding/formats';
+
+export class BackendTranscriptionProvider implements TranscriptionProvider {
+  readonly kind = 'backend' as const;
+  readonly modes: TranscriptionMode[] = ['batch', 'stream', 'enhanced'];
+  // The server accepts .ogg and .wav but not .flac
+  readonly uploadFormats: AudioUploadFormat[] = ['opus', 'wav'];
+
+  private backend: BackendService;
+  private streaming: StreamingTranscriptionService;
+  private pdfBackend: PdfBackendService;
+
+  constructor(baseUrl?: string) {
+    this.backend = new BackendService(baseUrl);
+    this.streaming = new StreamingTranscriptionService(baseUrl);
+    this.pdfBackend = new PdfBackendService(baseUrl);
+  }
+
+  isAvailable(): Promise<boolean> {
+    return this.backend.checkHealth();
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const result = await this.backend.transcribeAudio(request.audio, {
+      language: request.language,
+      sessionName: request.sessionName,
+    });
+
+    return { document: result.document, cost: result.cost };
+  }
+
+  async transcribeChunk(request: StreamChunkRequest): Promise<TranscriptionResult> {
+    const result = await this.streaming.transcribeStreamChunk(
+      request.audio,
+      request.contextId || '',
+      request.chunkIndex,
+      request.sessionId,
+      request.isFirst
+    );
+
+    return { document: result.document, cost: result.cost };
+  }
+
+  async transcribeWithContext(request: ContextTranscriptionRequest): Promise<TranscriptionResult> {
+    const result = await this.pdfBackend.transcribeWithPdfContext(request.audio, request.contextId, {
+      language: request.language,
+      sessionName: request.sessionName,
+    });
+
+    return {
+      document: result.document,
+      cost: result.cost,
+      intelligentTitle: result.intelligentTitle,
+      keyTopics: result.keyTopics,
+    };
+  }
+}
@@ -0,0 +1,49 @@
+// 🎯 LectureScript - Transcription Providers
+// Select the active provider with VITE_TRANSCRIPTION_PROVIDER (backend | openai | mock)
+// Author: Peter Levler
+
+import { BackendTranscriptionProvider } from './backendProvider';
+import { OpenAITranscriptionProvider } from './openaiProvider';
+import { MockTranscriptionProvider } from './mockProvider';
+import type { TranscriptionProvider, TranscriptionProviderKind } from './types';
+
+export { BackendTranscriptionProvider } from './backendProvider';
+export { OpenAITranscriptionProvider } from './openaiProvider';
+export { MockTranscriptionProvider } from './mockProvider';
+export type { MockProviderOptions } from './mockProvider';
+export type * from './types';
+
+const PROVIDER_KINDS: TranscriptionProviderKind[] = ['backend', 'openai', 'mock'];
+
+export const createTranscriptionProvider = (kind: TranscriptionProviderKind): TranscriptionProvider => {
+  switch (kind) {
+    case 'openai':
+      return new OpenAITranscriptionProvider();
+    case 'mock':
+      return new MockTranscriptionProvider();
+    case 'backend':
+    default:
+      return new BackendTranscriptionProvider();
+  }
+};
+
+const resolveDefaultKind = (): TranscriptionProviderKind => {
+  const configured = import.meta.env.VITE_TRANSCRIPTION_PROVIDER as TranscriptionProviderKind | undefined;
+  return configured && PROVIDER_KINDS.includes(configured) ? configured : 'backend';
+};
+
+let activeProvider: TranscriptionProvider | null = null;
+
+export const getTranscriptionProvider = (): TranscriptionProvider => {
+  if (!activeProvider) {
+    activeProvider = createTranscriptionProvider(resolveDefaultKind());
+  }
+  return activeProvider;
+};
+
+/**
+ * Swap the active provider, e.g. a MockTranscriptionProvider with latency or failures in tests
+ */
+export const setTranscriptionProvider = (provider: TranscriptionProvider): void => {
+  activeProvider = provider;
+};
@@ -0,0 +1,148 @@
+// 🎯 LectureScript - Mock Transcription Provider
+// Deterministic offline provider so recording flows and tests run without a backend or network
+// Author: Peter Levler
+
+import { fromRawPayload } from '../../utils/transcriptDocument';
+import type { RawTranscriptSegment, RawTranscriptWord } from '../../utils/transcriptDocument';
+import type {
+  TranscriptionProvider,
+  TranscriptionMode,
+  TranscriptionRequest,
+  StreamChunkRequest,
+  ContextTranscriptionRequest,
+  TranscriptionResult,
+} from './types';
+import type { AudioUploadFormat } from '../../utils/audioEncoding/formats';
+
+// Code-switched sample lines, like a typical HK university lecture
+const SCRIPT = [
+  'Good morning everyone, 今日我哋會講 option pricing.',
+  'First, let us review the Black-Scholes assumptions.',
+  '呢個 model 假設 volatility 係 constant.',
+  'The underlying asset follows a geometric Brownian motion.',
+  '大家記住 risk-free rate 都係 constant 嘅.',
+  'There are no transaction costs and no dividends.',
+  '跟住我哋睇吓 put-call parity.',
+  'Please read chapter five before next week.',
+];
+
+export interface MockProviderOptions {
+  /** Seconds of speech assumed per segment */
+  segmentSeconds?: number;
+  /** Artificial latency per request, in milliseconds */
+  latencyMs?: number;
+  /** Chunk indexes that fail on their first attempt, to exercise retry paths */
+  failChunkIndexes?: number[];
+  /** Report unavailable, to exercise offline paths */
+  offline?: boolean;
+}
+
+// webm/opus at the 16 kbps MediaRecorder setting in utils/audioProcessor
+const ASSUMED_BYTES_PER_SECOND = 2000;
+// 16 kHz 16-bit mono, as UniversalAudioProcessor encodes it
+const WAV_BYTES_PER_SECOND = 32000;
+
+export class MockTranscriptionProvider implements TranscriptionProvider {
+  readonly kind = 'mock' as const;
+  readonly modes: TranscriptionMode[] = ['batch', 'stream', 'enhanced'];
+  // estimateDuration only knows WAV's byte rate
+  readonly uploadFormats: AudioUploadFormat[] = ['wav'];
+
+  private options: Required<MockProviderOptions>;
+  private failedOnce: Set<string> = new Set();
+
+  constructor(options: MockProviderOptions = {}) {
+    this.options = {
+      segmentSeconds: options.segmentSeconds ?? 5,
+      latencyMs: options.latencyMs ?? 0,
+      failChunkIndexes: options.failChunkIndexes ?? [],
+      offline: options.offline ?? false,
+    };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return !this.options.offline;
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    await this.delay();
+    return this.buildResult(this.estimateDuration(request.audio), 0);
+  }
+
+  async transcribeChunk(request: StreamChunkRequest): Promise<TranscriptionResult> {
+    await this.delay();
+
+    const key = `${request.sessionId}:${request.chunkIndex}`;
+    if (this.options.failChunkIndexes.includes(request.chunkIndex) && !this.failedOnce.has(key)) {
+      this.failedOnce.add(key);
+      throw new Error(`Mock network error for chunk ${request.chunkIndex}`);
+    }
+
+    // Chunk documents are timed from zero, like /api/transcribe/stream responses
+    const duration = this.estimateDuration(request.audio);
+    return this.buildResult(duration, request.chunkIndex, `chunk-${request.chunkIndex}-segment-`);
+  }
+
+  async transcribeWithContext(request: ContextTranscriptionRequest): Promise<TranscriptionResult> {
+    const result = await this.transcribe(request);
+    return {
+      ...result,
+      intelligentTitle: 'Option Pricing and the Black-Scholes Model',
+      keyTopics: ['Black-Scholes', 'Volatility', 'Put-Call Parity'],
+    };
+  }
+
+  private estimateDuration(audio: Blob): number {
+    const bytesPerSecond = audio.type === 'audio/wav' ? WAV_BYTES_PER_SECOND : ASSUMED_BYTES_PER_SECOND;
+    return Math.max(1, Math.round(audio.size / bytesPerSecond));
+  }
+
+  private buildResult(
+    duration: number,
+    scriptOffset: number,
+    idPrefix?: string
+  ): TranscriptionResult {
+    const { segmentSeconds } = this.options;
+    const segmentCount = Math.max(1, Math.ceil(duration / segmentSeconds));
+    const segments: RawTranscriptSegment[] = [];
+
+    for (let i = 0; i < segmentCount; i++) {
+      const text = SCRIPT[(scriptOffset + i) % SCRIPT.length];
+      const start = i * segmentSeconds;
+      const end = Math.min(duration, start + segmentSeconds);
+      segments.push({ text, start, end, words: this.spreadWords(text, start, end) });
+    }
+
+    const document = fromRawPayload(
+      {
+        text: segments.map(seg => seg.text).join(' '),
+        language: 'mixed',
+        duration,
+        segments,
+      },
+      { source: 'mock', idPrefix }
+    );
+
+    return { document, cost: 0 };
+  }
+
+  /**
+   * Evenly distribute word timings across a segment (CJK characters count as words)
+   */
+  private spreadWords(text: string, start: number, end: number): RawTranscriptWord[] {
+    const tokens = text.match(/[\u4e00-\u9fff]|[^\s\u4e00-\u9fff]+/g) || [];
+    const step = (end - start) / Math.max(1, tokens.length);
+
+    return tokens.map((token, index) => ({
+      word: token,
+      start: Number((start + index * step).toFixed(3)),
+      end: Number((start + (index + 1) * step).toFixed(3)),
+      confidence: 0.95,
+    }));
+  }
+
+  private delay(): Promise<void> {
+    if (this.options.latencyMs <= 0) return Promise.resolve();
+    return new Promise(resolve => setTimeout(resolve, this.options.latencyMs));
+  }
+}
@@ -0,0 +1,65 @@
+// 🎯 LectureScript - OpenAI Transcription Provider
+// Adapter over the browser-side WhisperService (direct OpenAI path)
+// Author: Peter Levler
+
+import { WhisperService } from '../whisperAPI';
+import type {
+  TranscriptionProvider,
+  TranscriptionMode,
+  TranscriptionRequest,
+  StreamChunkRequest,
+  TranscriptionResult,
+} from './types';
+import type { AudioUploadFormat } from '../../utils/audioEncoding/formats';
+
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  readonly kind = 'openai' as const;
+  readonly modes: TranscriptionMode[] = ['batch', 'stream'];
+  readonly uploadFormats: AudioUploadFormat[] = ['opus', 'flac', 'wav'];
+
+  private whisper: WhisperService;
+  private hasApiKey: boolean;
+  // Tail of the previous chunk's text per session, used as the Whisper prompt for continuity
+  private previousText: Map<string, string> = new Map();
+
+  constructor(apiKey?: string) {
+    this.whisper = new WhisperService(apiKey);
+    this.hasApiKey = !!apiKey;
+  }
+
+  setApiKey(apiKey: string): void {
+    this.whisper.setApiKey(apiKey);
+    this.hasApiKey = !!apiKey;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.hasApiKey && navigator.onLine;
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const result = await this.whisper.transcribeAudio(request.audio, {
+      language: request.language,
+    });
+
+    return { document: result.document, cost: result.cost };
+  }
+
+  async transcribeChunk(request: StreamChunkRequest): Promise<TranscriptionResult> {
+    const result = await this.whisper.transcribeChunk(
+      request.audio,
+      request.chunkIndex,
+      request.chunkIndex + 1,
+      this.previousText.get(request.sessionId),
+      // Chunk documents are timed from zero; the queue places them in the recording
+      0
+    );
+
+    this.previousText.set(request.sessionId, result.text);
+
+    return { document: result.document, cost: result.cost };
+  }
+
+  async transcribeWithContext(): Promise<TranscriptionResult> {
+    throw new Error('PDF-enhanced transcription requires the backend provider');
+  }
+}
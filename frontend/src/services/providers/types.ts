@@ -0,0 +1,58 @@
+// 🎯 LectureScript - Transcription Provider Types
+// Common contract for every transcription backend (server, OpenAI, offline mock)
+// Author: Peter Levler
+
+import type { TranscriptDocument } from '../../types/transcription';
+import type { AudioUploadFormat } from '../../utils/audioEncoding/formats';
+
+export type TranscriptionMode = 'batch' | 'stream' | 'enhanced';
+
+export type TranscriptionProviderKind = 'backend' | 'openai' | 'mock';
+
+/**
+ * One-shot transcription of a complete recording
+ */
+export interface TranscriptionRequest {
+  audio: Blob;
+  language?: string;
+  sessionName?: string;
+}
+
+/**
+ * One chunk of a live recording; (sessionId, chunkIndex) identifies it across retries
+ */
+export interface StreamChunkRequest {
+  audio: Blob;
+  sessionId: string;
+  chunkIndex: number;
+  contextId?: string;
+  isFirst?: boolean;
+}
+
+/**
+ * Transcription that uses uploaded lecture slides as vocabulary context
+ */
+export interface ContextTranscriptionRequest extends TranscriptionRequest {
+  contextId: string;
+}
+
+export interface TranscriptionResult {
+  document: TranscriptDocument;
+  cost: number;
+  intelligentTitle?: string;
+  keyTopics?: string[];
+}
+
+export interface TranscriptionProvider {
+  readonly kind: TranscriptionProviderKind;
+  readonly modes: TranscriptionMode[];
+  /** Formats re-encoded audio may be sent in, smallest first */
+  readonly uploadFormats: AudioUploadFormat[];
+
+  /** Whether the provider can currently be reached */
+  isAvailable(): Promise<boolean>;
+
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+  transcribeChunk(request: StreamChunkRequest): Promise<TranscriptionResult>;
+  transcribeWithContext(request: ContextTranscriptionRequest): Promise<TranscriptionResult>;
+}
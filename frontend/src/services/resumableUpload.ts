@@ -0,0 +1,477 @@
+// 🎯 LectureScript - Resumable Uploads
+// Chunked uploads with per-part checksums that survive dropped connections, pauses and tab reloads
+// Author: Peter Levler
+
+import type { UploadProgress } from '../types/upload';
+import { UPLOAD_LIMITS } from '../types/upload';
+
+/*
+ * Protocol, relative to one endpoint such as /api/upload/resumable:
+ *
+ *   POST {endpoint}/init                       JSON { fileName, fileSize, mimeType, kind, chunkSize, totalParts, fields }
+ *                                              → { uploadId }; 404 when the backend predates resumable uploads
+ *   GET  {endpoint}/{uploadId}                 → { uploadId, parts: [{ index, checksum }] } received so far; 404 once expired
+ *   PUT  {endpoint}/{uploadId}/parts/{index}   raw bytes with X-Part-Checksum: sha-256=<hex>
+ *                                              → { index, checksum }; 422 when the bytes do not match the checksum
+ *   POST {endpoint}/{uploadId}/complete        JSON { parts: [{ index, checksum }] }
+ *                                              → the same body as the single-request upload endpoints
+ */
+
+export interface UploadRequest {
+  method: 'GET' | 'POST' | 'PUT';
+  url: string;
+  body?: Blob | string;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  onUploadProgress?: (loaded: number, total: number) => void;
+}
+
+/**
+ * Sends one protocol request. XHR in the browser, for upload progress; LocalUploadServer in tests.
+ */
+export type UploadTransport = (request: UploadRequest) => Promise<Response>;
+
+export type ResumableSessionStore = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export interface UploadedPart {
+  index: number;
+  checksum: string;
+}
+
+export interface ResumableUploadOptions {
+  endpoint: string;
+  kind: 'audio' | 'pdf';
+  /** Sent with init and available to the backend on completion, e.g. fileId and originalName */
+  fields?: Record<string, string>;
+  chunkSize?: number;
+  /** Consecutive failures of one request before giving up; the session stays resumable */
+  maxRetries?: number;
+  /** First retry delay, doubled after each further failure */
+  retryDelayMs?: number;
+  transport?: UploadTransport;
+  /** Where sessions are remembered across reloads; localStorage by default */
+  sessionStore?: ResumableSessionStore | null;
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+interface StoredSession {
+  uploadId: string;
+  chunkSize: number;
+  updatedAt: number;
+}
+
+export const CHECKSUM_HEADER = 'X-Part-Checksum';
+
+const SESSION_STORAGE_KEY = 'lecturescript-resumable-uploads';
+// Backends are expected to keep unfinished uploads at least this long
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+// A 5MB part takes about 80s at the 0.5 Mbps of a weak mobile connection
+const REQUEST_TIMEOUT_MS = 120000;
+// Statuses after which the same request may succeed: network failure, server trouble, or a part
+// whose bytes were damaged on the way
+const RETRYABLE_STATUSES = [0, 408, 422, 429];
+const UNSUPPORTED_STATUSES = [404, 405, 501];
+
+export class ResumableUploadError extends Error {
+  status: number;
+  /** The backend has no resumable endpoints; send the file in one request instead */
+  unsupported: boolean;
+
+  constructor(message: string, status = 0, unsupported = false) {
+    super(message);
+    this.name = 'ResumableUploadError';
+    this.status = status;
+    this.unsupported = unsupported;
+  }
+
+  get retryable(): boolean {
+    return !this.unsupported && (RETRYABLE_STATUSES.includes(this.status) || this.status >= 500);
+  }
+}
+
+export const isResumableUploadSupported = (): boolean =>
+  typeof crypto !== 'undefined' && typeof crypto.subtle !== 'undefined';
+
+/**
+ * Hex SHA-256 of a part, as sent in the checksum header and the complete request
+ */
+export const partChecksum = async (part: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await part.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Statuses whose Response may not carry a body
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+export const xhrTransport: UploadTransport = request =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+    request.signal?.addEventListener('abort', abort);
+
+    xhr.upload.addEventListener('progress', event => {
+      if (event.lengthComputable) request.onUploadProgress?.(event.loaded, event.total);
+    });
+    xhr.addEventListener('load', () => {
+      resolve(new Response(NULL_BODY_STATUSES.includes(xhr.status) ? null : xhr.responseText, {
+        status: xhr.status,
+        statusText: xhr.statusText,
+      }));
+    });
+    xhr.addEventListener('error', () => reject(new Error('Network error during upload')));
+    xhr.addEventListener('timeout', () => reject(new Error('Upload timeout')));
+    xhr.addEventListener('abort', () => reject(new DOMException('Upload aborted', 'AbortError')));
+    xhr.addEventListener('loadend', () => request.signal?.removeEventListener('abort', abort));
+
+    xhr.open(request.method, request.url);
+    Object.entries(request.headers || {}).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.timeout = REQUEST_TIMEOUT_MS;
+    xhr.send(request.body ?? null);
+  });
+
+const defaultSessionStore = (): ResumableSessionStore | null =>
+  typeof localStorage !== 'undefined' ? localStorage : null;
+
+/**
+ * Resolve after `ms`, or as soon as `signal` aborts
+ */
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+
+/**
+ * Resolve when the browser reports it is back online, or as soon as `signal` aborts
+ */
+const waitForOnline = (signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    const done = () => {
+      window.removeEventListener('online', done);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    window.addEventListener('online', done);
+    signal?.addEventListener('abort', done);
+  });
+
+/**
+ * One file's trip through the resumable protocol. Parts go up one at a time; a part that fails
+ * is retried with backoff, and a part the server already holds with a matching checksum (from
+ * before a reload, say) is skipped. The session is remembered by file name, size and modification
+ * time, so choosing the same file again picks up where the last attempt stopped.
+ */
+export class ResumableUpload {
+  private file: File;
+  private options: ResumableUploadOptions;
+  private chunkSize: number;
+  private transport: UploadTransport;
+  private sessionStore: ResumableSessionStore | null;
+
+  private paused = false;
+  private resumeWaiters: (() => void)[] = [];
+  private requestController: AbortController | null = null;
+
+  // Bytes the server has confirmed, and bytes sent by this page, for percentage and speed
+  private confirmedBytes = 0;
+  private sentBytes = 0;
+  private activeMs = 0;
+  private activeSince: number | null = null;
+
+  constructor(file: File, options: ResumableUploadOptions) {
+    this.file = file;
+    this.options = options;
+    this.chunkSize = options.chunkSize ?? UPLOAD_LIMITS.CHUNK_SIZE;
+    this.transport = options.transport ?? xhrTransport;
+    this.sessionStore = options.sessionStore === undefined ? defaultSessionStore() : options.sessionStore;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Stop sending. The part in flight is abandoned and sent again on resume.
+   */
+  pause(): void {
+    if (this.paused) return;
+    this.paused = true;
+    this.stopClock();
+    this.requestController?.abort();
+    this.report(0);
+    console.log(`⏸️ Paused upload of ${this.file.name}`);
+  }
+
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    this.resumeWaiters.splice(0).forEach(resolve => resolve());
+    console.log(`▶️ Resuming upload of ${this.file.name}`);
+  }
+
+  /**
+   * Upload every part and complete the upload, resolving with the backend's completion body
+   */
+  async start<T>(): Promise<T> {
+    if (!isResumableUploadSupported()) {
+      throw new ResumableUploadError('Checksums need WebCrypto, which is unavailable here', 0, true);
+    }
+
+    const { signal } = this.options;
+    const cancel = () => {
+      this.requestController?.abort();
+      this.resumeWaiters.splice(0).forEach(resolve => resolve());
+    };
+    signal?.addEventListener('abort', cancel);
+
+    try {
+      return await this.run<T>();
+    } catch (error) {
+      if (error instanceof ResumableUploadError && error.status === 404 && !error.unsupported && this.loadSession()) {
+        // The server dropped a session it had confirmed; the parts have to go up again
+        console.warn(`⚠️ Upload session for ${this.file.name} expired, starting over`);
+        this.forgetSession();
+        this.confirmedBytes = 0;
+        return await this.run<T>();
+      }
+      if (signal?.aborted) this.forgetSession();
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', cancel);
+      this.stopClock();
+    }
+  }
+
+  private async run<T>(): Promise<T> {
+    const { endpoint } = this.options;
+    const { uploadId, parts: received } = await this.openSession();
+    const receivedChecksums = new Map(received.map(part => [part.index, part.checksum]));
+    const totalParts = Math.max(1, Math.ceil(this.file.size / this.chunkSize));
+    const parts: UploadedPart[] = [];
+
+    for (let index = 0; index < totalParts; index++) {
+      this.throwIfCancelled();
+      const part = this.file.slice(index * this.chunkSize, Math.min(this.file.size, (index + 1) * this.chunkSize));
+      const checksum = await partChecksum(part);
+
+      if (receivedChecksums.get(index) !== checksum) {
+        await this.withRetries(requestSignal => this.send({
+          method: 'PUT',
+          url: `${endpoint}/${encodeURIComponent(uploadId)}/parts/${index}`,
+          body: part,
+          headers: { 'Content-Type': 'application/octet-stream', [CHECKSUM_HEADER]: `sha-256=${checksum}` },
+          signal: requestSignal,
+          onUploadProgress: loaded => this.report(Math.min(loaded, part.size)),
+        }));
+        this.sentBytes += part.size;
+        this.touchSession(uploadId);
+      }
+
+      parts.push({ index, checksum });
+      this.confirmedBytes += part.size;
+      this.report(0);
+    }
+
+    const response = await this.withRetries(requestSignal => this.send({
+      method: 'POST',
+      url: `${endpoint}/${encodeURIComponent(uploadId)}/complete`,
+      body: JSON.stringify({ parts }),
+      headers: { 'Content-Type': 'application/json' },
+      signal: requestSignal,
+    }));
+
+    this.forgetSession();
+    console.log(`✅ Resumable upload of ${this.file.name} complete (${totalParts} parts)`);
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Reopen the session remembered for this file if the server still has it, otherwise start one
+   */
+  private async openSession(): Promise<{ uploadId: string; parts: UploadedPart[] }> {
+    const { endpoint, kind, fields } = this.options;
+    const stored = this.loadSession();
+
+    if (stored && stored.chunkSize === this.chunkSize) {
+      try {
+        const response = await this.withRetries(signal => this.send({
+          method: 'GET',
+          url: `${endpoint}/${encodeURIComponent(stored.uploadId)}`,
+          signal,
+        }));
+        const status: { parts?: UploadedPart[] } = await response.json();
+        console.log(`🔁 Resuming upload of ${this.file.name}: ${status.parts?.length ?? 0} parts already on the server`);
+        return { uploadId: stored.uploadId, parts: status.parts || [] };
+      } catch (error) {
+        if (!(error instanceof ResumableUploadError && error.status === 404)) throw error;
+        this.forgetSession();
+      }
+    }
+
+    const response = await this.withRetries(signal => this.send({
+      method: 'POST',
+      url: `${endpoint}/init`,
+      body: JSON.stringify({
+        fileName: this.file.name,
+        fileSize: this.file.size,
+        mimeType: this.file.type,
+        kind,
+        chunkSize: this.chunkSize,
+        totalParts: Math.max(1, Math.ceil(this.file.size / this.chunkSize)),
+        fields: fields || {},
+      }),
+      headers: { 'Content-Type': 'application/json' },
+      signal,
+    })).catch(error => {
+      if (error instanceof ResumableUploadError && UNSUPPORTED_STATUSES.includes(error.status)) {
+        throw new ResumableUploadError('Backend does not support resumable uploads', error.status, true);
+      }
+      throw error;
+    });
+
+    const { uploadId }: { uploadId: string } = await response.json();
+    this.touchSession(uploadId);
+    return { uploadId, parts: [] };
+  }
+
+  private async send(request: UploadRequest): Promise<Response> {
+    const response = await this.transport(request);
+    if (!response.ok) {
+      const body: { error?: string } | null = await response.json().catch(() => null);
+      throw new ResumableUploadError(body?.error || `HTTP ${response.status}: ${response.statusText}`, response.status);
+    }
+    return response;
+  }
+
+  /**
+   * Run a request until it succeeds. A pause abandons the attempt without counting it as a failure;
+   * network errors and retryable statuses back off and try again, offline waits for the connection.
+   */
+  private async withRetries<T>(attempt: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const maxRetries = this.options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const retryDelayMs = this.options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    let failures = 0;
+
+    for (;;) {
+      await this.waitUntilRunnable();
+
+      const controller = new AbortController();
+      this.requestController = controller;
+
+      try {
+        return await attempt(controller.signal);
+      } catch (error) {
+        this.throwIfCancelled();
+        if (this.paused && controller.signal.aborted) continue;
+        if (error instanceof ResumableUploadError && !error.retryable) throw error;
+
+        failures++;
+        if (failures > maxRetries) throw error;
+
+        const delay = Math.min(MAX_RETRY_DELAY_MS, retryDelayMs * 2 ** (failures - 1));
+        console.warn(`⚠️ Upload request failed (${failures}/${maxRetries}), retrying in ${delay}ms: ${error}`);
+        await wait(delay, this.options.signal);
+      } finally {
+        if (this.requestController === controller) this.requestController = null;
+      }
+    }
+  }
+
+  private async waitUntilRunnable(): Promise<void> {
+    while (this.paused && !this.options.signal?.aborted) {
+      await new Promise<void>(resolve => this.resumeWaiters.push(resolve));
+    }
+    this.throwIfCancelled();
+
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      console.log('📴 Offline, waiting for the connection to return...');
+      await waitForOnline(this.options.signal);
+      this.throwIfCancelled();
+    }
+
+    this.startClock();
+  }
+
+  private throwIfCancelled(): void {
+    if (this.options.signal?.aborted) throw new Error('Upload cancelled');
+  }
+
+  private report(partLoaded: number): void {
+    if (!this.options.onProgress) return;
+
+    const total = this.file.size;
+    const loaded = Math.min(total, this.confirmedBytes + partLoaded);
+    const seconds = (this.activeMs + (this.activeSince !== null ? Date.now() - this.activeSince : 0)) / 1000;
+    // Parts confirmed before a reload did not travel in this session, so they do not count toward speed
+    const speed = !this.paused && seconds > 0 ? (this.sentBytes + partLoaded) / seconds : 0;
+
+    this.options.onProgress({
+      loaded,
+      total,
+      percentage: total > 0 ? Math.round((loaded / total) * 100) : 100,
+      speed,
+      remainingTime: speed > 0 ? (total - loaded) / speed : 0,
+      stage: 'uploading',
+      resumable: true,
+      paused: this.paused,
+    });
+  }
+
+  private startClock(): void {
+    this.activeSince ??= Date.now();
+  }
+
+  private stopClock(): void {
+    if (this.activeSince === null) return;
+    this.activeMs += Date.now() - this.activeSince;
+    this.activeSince = null;
+  }
+
+  private get sessionKey(): string {
+    return `${this.options.kind}:${this.file.name}:${this.file.size}:${this.file.lastModified}`;
+  }
+
+  private readSessions(): Record<string, StoredSession> {
+    try {
+      const sessions: Record<string, StoredSession> = JSON.parse(this.sessionStore?.getItem(SESSION_STORAGE_KEY) || '{}');
+      const now = Date.now();
+      return Object.fromEntries(Object.entries(sessions).filter(([, session]) => now - session.updatedAt < SESSION_TTL_MS));
+    } catch {
+      return {};
+    }
+  }
+
+  private writeSessions(sessions: Record<string, StoredSession>): void {
+    if (Object.keys(sessions).length === 0) {
+      this.sessionStore?.removeItem(SESSION_STORAGE_KEY);
+    } else {
+      this.sessionStore?.setItem(SESSION_STORAGE_KEY, JSON.stringify(sessions));
+    }
+  }
+
+  private loadSession(): StoredSession | undefined {
+    return this.readSessions()[this.sessionKey];
+  }
+
+  private touchSession(uploadId: string): void {
+    this.writeSessions({
+      ...this.readSessions(),
+      [this.sessionKey]: { uploadId, chunkSize: this.chunkSize, updatedAt: Date.now() },
+    });
+  }
+
+  private forgetSession(): void {
+    const sessions = this.readSessions();
+    delete sessions[this.sessionKey];
+    this.writeSessions(sessions);
+  }
+}
@@ -1,4 +1,7 @@
 import type { TranscriptSegment } from '../types';
+import type { TranscriptDocument } from '../types/transcription';
+import { fromStreamChunk, toTranscriptSegments } from '../utils/transcriptDocument';
+import { audioFileExtension } from '../utils/audioEncoding/formats';
 
 const BACKEND_URL = 'http://localhost:3001';
 
@@ -24,10 +27,11 @@ export class StreamingTranscriptionService {
     language: string;
     cost: number;
     timestamp: string;
+    document: TranscriptDocument;
   }> {
     try {
       const formData = new FormData();
-      formData.append('audio', audioBlob, `chunk_${chunkIndex}.webm`);
+      formData.append('audio', audioBlob, `chunk_${chunkIndex}.${audioFileExtension(audioBlob.type)}`);
       formData.append('contextId', contextId);
       formData.append('chunkIndex', chunkIndex.toString());
       formData.append('sessionId', sessionId);
@@ -53,27 +57,18 @@ export class StreamingTranscriptionService {
 
       console.log(`✅ Chunk ${chunkIndex} transcribed:`, result.data.text.substring(0, 50) + '...');
 
-      const segments: TranscriptSegment[] = result.data.segments?.map((seg: any, index: number) => ({
-        id: `chunk-${chunkIndex}-segment-${index}`,
-        text: seg.text || '',
-        timestamp: seg.start || 0,
-        confidence: seg.confidence || 1,
-      })) || [{
-        id: `chunk-${chunkIndex}-segment-0`,
-        text: result.data.text,
-        timestamp: 0,
-        confidence: 1,
-      }];
+      const document = fromStreamChunk(result.data, chunkIndex);
 
       return {
         text: result.data.text,
         chunkIndex: result.data.chunkIndex,
         sessionId: result.data.sessionId,
-        segments,
+        segments: toTranscriptSegments(document),
         duration: result.data.duration || 0,
         language: result.data.language || 'unknown',
         cost: result.data.cost || 0,
         timestamp: result.data.timestamp,
+        document,
       };
 
     } catch (error) {
@@ -3,11 +3,15 @@
 // Author: Peter Levler
 
 import type { TranscriptionSegment } from '../types/transcription';
+import type { SubtitleFormat, SubtitleOptions } from '../types';
+import { SubtitleFormatter } from '../utils/formatters/subtitleFormatter';
+import { bilingualPair } from '../utils/bilingual';
 
 interface ExportOptions {
   title?: string;
   includeTimestamps?: boolean;
   includeSpeakers?: boolean;
+  bilingual?: boolean; // 中文 / English side by side, as in the viewer
 }
 
 class StudyModeExportService {
@@ -27,7 +31,7 @@ class StudyModeExportService {
     segments: TranscriptionSegment[],
     options: ExportOptions = {}
   ): string {
-    const { includeTimestamps = true, includeSpeakers = true } = options;
+    const { includeTimestamps = true, includeSpeakers = true, bilingual = false } = options;
 
     let text = '';
 
@@ -42,7 +46,12 @@ class StudyModeExportService {
         line += `${segment.speaker}: `;
       }
 
-      line += segment.text;
+      if (bilingual) {
+        const pair = bilingualPair(segment);
+        line += `${pair.zh || ''}\n${' '.repeat(includeTimestamps ? this.formatTime(segment.start).length + 3 : 0)}${pair.en || ''}`;
+      } else {
+        line += segment.text;
+      }
 
       text += line + '\n\n';
     });
@@ -64,6 +73,21 @@ class StudyModeExportService {
     this.downloadBlob(blob, filename);
   }
 
+  /**
+   * Export as SRT, WebVTT or TTML captions
+   */
+  async exportSubtitles(
+    segments: TranscriptionSegment[],
+    filename: string,
+    format: SubtitleFormat,
+    options: Partial<SubtitleOptions> & { title?: string; language?: string } = {}
+  ): Promise<void> {
+    const captions = SubtitleFormatter.render(format, segments, options);
+
+    const blob = new Blob([captions], { type: SubtitleFormatter.mimeType(format) });
+    this.downloadBlob(blob, filename);
+  }
+
   /**
    * Export as HTML file with embedded CSS
    */
@@ -76,12 +100,14 @@ class StudyModeExportService {
       title = 'Lecture Transcript',
       includeTimestamps = true,
       includeSpeakers = true,
+      bilingual = false,
     } = options;
 
     const html = this.generateHTML(segments, {
       title,
       includeTimestamps,
       includeSpeakers,
+      bilingual,
     });
 
     const blob = new Blob([html], { type: 'text/html;charset=utf-8' });
@@ -95,7 +121,7 @@ class StudyModeExportService {
     segments: TranscriptionSegment[],
     options: ExportOptions
   ): string {
-    const { title, includeTimestamps, includeSpeakers } = options;
+    const { title, includeTimestamps, includeSpeakers, bilingual } = options;
 
     const totalDuration = segments.length > 0
       ? this.formatTime(segments[segments.length - 1].end)
@@ -103,13 +129,21 @@ class StudyModeExportService {
 
     const segmentsHTML = segments
       .map((segment, idx) => {
+        const pair = bilingualPair(segment);
+        const textHTML = bilingual
+          ? `<div class="segment-columns">
+            <div class="segment-text" lang="zh-HK">${this.escapeHTML(pair.zh || '')}</div>
+            <div class="segment-text" lang="en">${this.escapeHTML(pair.en || '')}</div>
+          </div>`
+          : `<div class="segment-text">${this.escapeHTML(segment.text)}</div>`;
+
         return `
         <div class="segment" id="segment-${idx}">
           <div class="segment-header">
             ${includeTimestamps ? `<span class="timestamp">${this.formatTime(segment.start)}</span>` : ''}
             ${includeSpeakers && segment.speaker ? `<span class="speaker">${segment.speaker}</span>` : ''}
           </div>
-          <div class="segment-text">${this.escapeHTML(segment.text)}</div>
+          ${textHTML}
         </div>
       `;
       })
@@ -263,6 +297,12 @@ class StudyModeExportService {
       padding-left: 0;
     }
 
+    .segment-columns {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 24px;
+    }
+
     .footer {
       text-align: center;
       padding: 32px 24px;
@@ -314,7 +354,8 @@ class StudyModeExportService {
         padding: 24px 16px;
       }
 
-      .info-grid {
+      .info-grid,
+      .segment-columns {
         grid-template-columns: 1fr;
       }
     }
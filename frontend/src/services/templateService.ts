@@ -0,0 +1,83 @@
+// 🎯 LectureScript - Export Template Service
+// Built-in templates plus the user's own, saved in IndexedDB
+// Author: Peter Levler
+
+import { storage } from '../utils/storage';
+import { TemplateEngine } from '../utils/formatters/templateEngine';
+import { TemplateLanguage } from '../utils/formatters/templateLanguage';
+import type { ExportFormat } from '../types';
+import type { ExportTemplate, TemplateSyntax } from '../types/templates';
+
+class TemplateService {
+  /**
+   * Built-in templates first, then the user's, most recently edited first
+   */
+  async listTemplates(format?: ExportFormat): Promise<ExportTemplate[]> {
+    const templates = [...TemplateEngine.getBuiltInTemplates(), ...await storage.getAllTemplates()];
+    return format ? templates.filter(template => TemplateEngine.supportsFormat(template, format)) : templates;
+  }
+
+  async getTemplate(id: string): Promise<ExportTemplate | undefined> {
+    const builtIn = TemplateEngine.getBuiltInTemplates().find(template => template.id === id);
+    return builtIn || await storage.getTemplate(id);
+  }
+
+  /**
+   * Create or update a user template. Templates that don't parse are rejected with the
+   * syntax error, so a saved template always renders.
+   */
+  async saveTemplate(template: {
+    id?: string;
+    name: string;
+    description?: string;
+    syntax: TemplateSyntax;
+    body: string;
+  }): Promise<ExportTemplate> {
+    if (template.id?.startsWith('builtin-')) {
+      throw new Error('Built-in templates cannot be changed. Duplicate it to make your own.');
+    }
+    if (!template.name.trim()) {
+      throw new Error('Give the template a name.');
+    }
+
+    const error = TemplateLanguage.validate(template.body);
+    if (error) throw error;
+
+    const existing = template.id ? await storage.getTemplate(template.id) : undefined;
+    const now = Date.now();
+    const saved: ExportTemplate = {
+      id: existing?.id || `template_${now}_${Math.random().toString(36).slice(2, 8)}`,
+      name: template.name.trim(),
+      description: template.description?.trim() || undefined,
+      syntax: template.syntax,
+      body: template.body,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+
+    await storage.saveTemplate(saved);
+    return saved;
+  }
+
+  async duplicateTemplate(id: string): Promise<ExportTemplate> {
+    const source = await this.getTemplate(id);
+    if (!source) throw new Error('Template not found.');
+
+    return this.saveTemplate({
+      name: `${source.name} (copy)`,
+      description: source.description,
+      syntax: source.syntax,
+      body: source.body,
+    });
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    if (id.startsWith('builtin-')) {
+      throw new Error('Built-in templates cannot be deleted.');
+    }
+    await storage.deleteTemplate(id);
+  }
+}
+
+export const templateService = new TemplateService();
+export default templateService;
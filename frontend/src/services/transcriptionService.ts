@@ -2,31 +2,80 @@
 // Handles transcription status polling with excellent UX
 // Author: Peter Levler (as Steve Jobs would demand)
 
-const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+import { mergeTranscriptPayloads, type RawTranscriptPayload } from '../utils/transcriptDocument';
+
+const BACKEND_URL = import.meta.env.VITE_API_URL || import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+
+// Part lists of split uploads, so /study/split-... still resolves after a reload or from a link
+const SPLIT_TRANSCRIPTS_KEY = 'lecturescript-split-transcripts';
+// A finished lecture reopens from the library, so only recent uploads need their parts
+const MAX_SAVED_SPLIT_TRANSCRIPTS = 50;
 
 export interface TranscriptionStatus {
   status: 'processing' | 'completed' | 'error';
-  transcription?: {
-    text: string;
-    segments: any[];
-    language: string;
-    duration: number;
-  };
+  transcription?: RawTranscriptPayload;
   error?: string;
 }
 
+/**
+ * One separately uploaded part of a recording that was split to fit the upload limit
+ */
+export interface TranscriptPart {
+  transcriptId: string;
+  /** Seconds into the original recording where the part starts */
+  offset: number;
+}
+
+interface SavedSplitTranscript {
+  parts: TranscriptPart[];
+  savedAt: number;
+}
+
 class TranscriptionService {
+  // Transcript IDs that stand for several part transcripts, merged once all of them complete
+  private splitTranscripts: Map<string, TranscriptPart[]> = new Map();
+  private mergedTranscripts: Map<string, RawTranscriptPayload> = new Map();
+
+  /**
+   * Make `transcriptId` resolve to the parts' transcripts merged in order
+   */
+  registerSplitTranscript(transcriptId: string, parts: TranscriptPart[]): void {
+    this.splitTranscripts.set(transcriptId, parts);
+    this.mergedTranscripts.delete(transcriptId);
+
+    const saved = { ...this.readSavedSplitTranscripts(), [transcriptId]: { parts, savedAt: Date.now() } };
+    const newest = Object.entries(saved)
+      .sort(([, a], [, b]) => b.savedAt - a.savedAt)
+      .slice(0, MAX_SAVED_SPLIT_TRANSCRIPTS);
+    try {
+      localStorage.setItem(SPLIT_TRANSCRIPTS_KEY, JSON.stringify(Object.fromEntries(newest)));
+    } catch (error) {
+      console.warn('⚠️ Could not save the parts of split transcript', transcriptId, error);
+    }
+  }
+
   /**
    * Poll for transcription status with user-friendly feedback
    */
   async pollTranscriptionStatus(
     transcriptId: string,
-    onProgress?: (status: string, attempt: number, maxAttempts: number) => void
+    onProgress?: (status: string, attempt: number, maxAttempts: number) => void,
+    signal?: AbortSignal
   ): Promise<TranscriptionStatus> {
+    const parts = this.splitTranscripts.get(transcriptId) ?? this.readSavedSplitTranscripts()[transcriptId]?.parts;
+    if (parts) {
+      this.splitTranscripts.set(transcriptId, parts);
+      return this.pollSplitTranscript(transcriptId, parts, onProgress, signal);
+    }
+
     const maxAttempts = 120; // 10 minutes max (120 * 5s = 600s)
     const pollInterval = 5000; // 5 seconds
 
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (signal?.aborted) {
+        return { status: 'error', error: 'Transcription polling cancelled' };
+      }
+
       try {
         // Update progress callback
         if (onProgress) {
@@ -59,6 +108,7 @@ class TranscriptionService {
             headers: {
               'Content-Type': 'application/json',
             },
+            signal,
           }
         );
 
@@ -118,6 +168,56 @@ class TranscriptionService {
     };
   }
 
+  /**
+   * Wait for every part in turn and merge them with their time offsets. The backend transcribes
+   * the parts concurrently, so by the time the first completes the rest are usually done too.
+   */
+  private async pollSplitTranscript(
+    transcriptId: string,
+    parts: TranscriptPart[],
+    onProgress?: (status: string, attempt: number, maxAttempts: number) => void,
+    signal?: AbortSignal
+  ): Promise<TranscriptionStatus> {
+    const merged = this.mergedTranscripts.get(transcriptId);
+    if (merged) {
+      return { status: 'completed', transcription: merged };
+    }
+
+    const payloads: { payload: RawTranscriptPayload; offset: number }[] = [];
+
+    for (const [index, part] of parts.entries()) {
+      const result = await this.pollTranscriptionStatus(
+        part.transcriptId,
+        onProgress
+          ? (status, attempt, maxAttempts) => onProgress(`[${index + 1}/${parts.length}] ${status}`, attempt, maxAttempts)
+          : undefined,
+        signal
+      );
+
+      if (result.status !== 'completed' || !result.transcription) {
+        return {
+          status: 'error',
+          error: `Part ${index + 1} of ${parts.length}: ${result.error || 'Transcription failed'}`,
+        };
+      }
+      payloads.push({ payload: result.transcription, offset: part.offset });
+    }
+
+    const transcription = mergeTranscriptPayloads(payloads);
+    this.mergedTranscripts.set(transcriptId, transcription);
+    console.log(`✅ Merged ${parts.length} part transcripts into ${transcriptId}`);
+
+    return { status: 'completed', transcription };
+  }
+
+  private readSavedSplitTranscripts(): Record<string, SavedSplitTranscript> {
+    try {
+      return JSON.parse(localStorage.getItem(SPLIT_TRANSCRIPTS_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
   /**
    * Sleep helper
    */
@@ -0,0 +1,58 @@
+// 🎯 LectureScript - Backend Translator
+// Adapter over /api/translate
+// Author: Peter Levler
+
+import { BackendService } from '../backendAPI';
+import type { Translator, TranslationRequest } from './types';
+
+const BACKEND_URL = 'http://localhost:3001';
+
+export class BackendTranslator implements Translator {
+  readonly kind = 'backend' as const;
+
+  private baseUrl: string;
+  private backend: BackendService;
+
+  constructor(baseUrl?: string) {
+    this.baseUrl = baseUrl || BACKEND_URL;
+    this.backend = new BackendService(baseUrl);
+  }
+
+  isAvailable(): Promise<boolean> {
+    return this.backend.checkHealth();
+  }
+
+  async translate(request: TranslationRequest): Promise<string[]> {
+    if (request.texts.length === 0) return [];
+
+    console.log(`🌐 Translating ${request.texts.length} segments to ${request.target}...`);
+
+    const response = await fetch(`${this.baseUrl}/api/translate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        texts: request.texts,
+        target: request.target,
+        source: request.source,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error || 'Translation failed');
+    }
+
+    const translations: unknown = result.data?.translations;
+    if (!Array.isArray(translations) || translations.length !== request.texts.length) {
+      throw new Error('Translation response does not match the request');
+    }
+
+    return translations.map(text => String(text ?? ''));
+  }
+}
@@ -0,0 +1,109 @@
+// 🎯 LectureScript - Segment Translation
+// Select the active translator with VITE_TRANSLATION_PROVIDER (backend | stub)
+// Author: Peter Levler
+
+import { BackendTranslator } from './backendTranslator';
+import { StubTranslator } from './stubTranslator';
+import { segmentLanguage, translationTargets } from '../../utils/bilingual';
+import type { TranslatableSegment } from '../../utils/bilingual';
+import type { TranslationLanguage } from '../../types/transcription';
+import type { Translator, TranslatorKind, TranslateSegmentsOptions } from './types';
+
+export { BackendTranslator } from './backendTranslator';
+export { StubTranslator } from './stubTranslator';
+export type { StubTranslatorOptions } from './stubTranslator';
+export type * from './types';
+
+const TRANSLATOR_KINDS: TranslatorKind[] = ['backend', 'stub'];
+
+const DEFAULT_BATCH_SIZE = 20;
+
+export const createTranslator = (kind: TranslatorKind): Translator => {
+  switch (kind) {
+    case 'stub':
+      return new StubTranslator();
+    case 'backend':
+    default:
+      return new BackendTranslator();
+  }
+};
+
+const resolveDefaultKind = (): TranslatorKind => {
+  const configured = import.meta.env.VITE_TRANSLATION_PROVIDER as TranslatorKind | undefined;
+  return configured && TRANSLATOR_KINDS.includes(configured) ? configured : 'backend';
+};
+
+let activeTranslator: Translator | null = null;
+
+export const getTranslator = (): Translator => {
+  if (!activeTranslator) {
+    activeTranslator = createTranslator(resolveDefaultKind());
+  }
+  return activeTranslator;
+};
+
+/**
+ * Swap the active translator, e.g. a StubTranslator with latency or failures in tests
+ */
+export const setTranslator = (translator: Translator): void => {
+  activeTranslator = translator;
+};
+
+/**
+ * Attach translations to every segment that lacks one, batching requests per target language.
+ * Returns new segment objects; segments that needed nothing are returned as they were.
+ */
+export const translateSegments = async <T extends TranslatableSegment>(
+  segments: T[],
+  options: TranslateSegmentsOptions = {},
+  translator: Translator = getTranslator()
+): Promise<T[]> => {
+  const batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+  const result = [...segments];
+
+  const pending: { target: TranslationLanguage; indexes: number[] }[] = (['en', 'zh'] as TranslationLanguage[]).map(target => ({
+    target,
+    indexes: segments
+      .map((segment, index) => ({ segment, index }))
+      .filter(({ segment }) =>
+        segment.text.trim() &&
+        translationTargets(segment).includes(target) &&
+        (options.force || !segment.translations?.[target])
+      )
+      .map(({ index }) => index),
+  }));
+
+  const total = pending.reduce((sum, { indexes }) => sum + indexes.length, 0);
+  let done = 0;
+  options.onProgress?.(done, total);
+
+  for (const { target, indexes } of pending) {
+    for (let offset = 0; offset < indexes.length; offset += batchSize) {
+      if (options.signal?.aborted) {
+        throw new DOMException('Translation cancelled', 'AbortError');
+      }
+
+      const batch = indexes.slice(offset, offset + batchSize);
+      // Batches are grouped by target only, so 'mixed' is the honest source when they disagree
+      const sources = new Set(batch.map(index => segmentLanguage(segments[index])));
+      const translations = await translator.translate({
+        texts: batch.map(index => segments[index].text),
+        target,
+        source: sources.size === 1 ? [...sources][0] : 'mixed',
+      });
+
+      batch.forEach((index, position) => {
+        const current = result[index];
+        result[index] = {
+          ...current,
+          translations: { ...current.translations, [target]: translations[position] },
+        };
+      });
+
+      done += batch.length;
+      options.onProgress?.(done, total);
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,110 @@
+// 🎯 LectureScript - Stub Translator
+// Deterministic offline translator so the bilingual view and exports work without a backend
+// Author: Peter Levler
+
+import type { TranslationLanguage } from '../../types/transcription';
+import type { Translator, TranslationRequest } from './types';
+
+// Cantonese lecture phrases and their English; longer entries win over the words inside them
+const GLOSSARY: [string, string][] = [
+  ['今日我哋會講', 'today we will talk about'],
+  ['今日我哋講', 'today we talk about'],
+  ['跟住我哋睇吓', 'next let us look at'],
+  ['大家記住', 'everyone remember'],
+  ['即係', 'that is'],
+  ['呢個', 'this'],
+  ['我哋', 'we'],
+  ['大家', 'everyone'],
+  ['今日', 'today'],
+  ['假設', 'assumes'],
+  ['供求關係', 'supply and demand'],
+  ['價格上限', 'price ceiling'],
+  ['政府', 'government'],
+  ['市場', 'market'],
+  ['價格', 'price'],
+  ['模型', 'model'],
+  ['波動率', 'volatility'],
+  ['無風險利率', 'risk-free rate'],
+  ['係', 'is'],
+  ['都', 'also'],
+  ['嘅', ''],
+  ['呢', ''],
+];
+
+const FULL_WIDTH_PUNCTUATION: Record<string, string> = { '\uFF0C': ',', '\u3002': '.', '\uFF01': '!', '\uFF1F': '?' };
+
+const CJK = /[\u3400-\u9fff\uf900-\ufaff]/;
+
+export interface StubTranslatorOptions {
+  /** Artificial latency per request, in milliseconds */
+  latencyMs?: number;
+  /** Number of translate() calls that fail before one succeeds, to exercise retry paths */
+  failFirstRequests?: number;
+  /** Report unavailable, to exercise offline paths */
+  offline?: boolean;
+}
+
+export class StubTranslator implements Translator {
+  readonly kind = 'stub' as const;
+
+  private options: Required<StubTranslatorOptions>;
+  private failuresLeft: number;
+
+  constructor(options: StubTranslatorOptions = {}) {
+    this.options = {
+      latencyMs: options.latencyMs ?? 0,
+      failFirstRequests: options.failFirstRequests ?? 0,
+      offline: options.offline ?? false,
+    };
+    this.failuresLeft = this.options.failFirstRequests;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return !this.options.offline;
+  }
+
+  async translate(request: TranslationRequest): Promise<string[]> {
+    await this.delay();
+
+    if (this.failuresLeft > 0) {
+      this.failuresLeft--;
+      throw new Error('Stub translation failure');
+    }
+
+    return request.texts.map(text => this.translateText(text, request.target));
+  }
+
+  /**
+   * Glossary substitution; anything the glossary doesn't cover is kept and tagged with the target
+   * language so stub output is never mistaken for a real translation
+   */
+  private translateText(text: string, target: TranslationLanguage): string {
+    const entries = [...GLOSSARY].sort((a, b) => (target === 'en' ? b[0].length - a[0].length : b[1].length - a[1].length));
+    let translated = text;
+
+    for (const [zh, en] of entries) {
+      if (target === 'en') {
+        translated = translated.split(zh).join(en ? ` ${en} ` : ' ');
+      } else if (en) {
+        translated = translated.replace(new RegExp(`\\b${en}\\b`, 'gi'), zh);
+      }
+    }
+
+    if (target === 'en') {
+      translated = translated.replace(/[\uFF0C\u3002\uFF01\uFF1F]/g, char => `${FULL_WIDTH_PUNCTUATION[char]} `);
+    }
+
+    translated = translated
+      .replace(/\s+([,.!?;:\uFF0C\u3002\uFF01\uFF1F])/g, '$1')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    const untouched = target === 'en' ? CJK.test(translated) : translated === text.trim();
+    return untouched ? `[${target}] ${translated}` : translated;
+  }
+
+  private delay(): Promise<void> {
+    if (this.options.latencyMs <= 0) return Promise.resolve();
+    return new Promise(resolve => setTimeout(resolve, this.options.latencyMs));
+  }
+}
@@ -0,0 +1,34 @@
+// 🎯 LectureScript - Translator Types
+// Common contract for segment translation (server endpoint, offline stub)
+// Author: Peter Levler
+
+import type { TranscriptLanguage, TranslationLanguage } from '../../types/transcription';
+
+export type TranslatorKind = 'backend' | 'stub';
+
+/**
+ * A batch of texts translated into one target language; results keep the input order
+ */
+export interface TranslationRequest {
+  texts: string[];
+  target: TranslationLanguage;
+  source?: TranscriptLanguage;
+}
+
+export interface Translator {
+  readonly kind: TranslatorKind;
+
+  /** Whether the translator can currently be reached */
+  isAvailable(): Promise<boolean>;
+
+  translate(request: TranslationRequest): Promise<string[]>;
+}
+
+export interface TranslateSegmentsOptions {
+  /** Segments per translate() call */
+  batchSize?: number;
+  /** Translate again even when a segment already has a translation */
+  force?: boolean;
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
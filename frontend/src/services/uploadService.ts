@@ -8,14 +8,46 @@ import type {
   PDFFile,
   UploadResponse,
   UploadProgress,
+  UploadedAudioPart,
   ValidationResult,
 } from '../types/upload';
 import { UPLOAD_LIMITS } from '../types/upload';
+import { UniversalAudioProcessor } from './audioProcessor';
+import { transcriptionService } from './transcriptionService';
+import { planAudioParts, type AudioPart } from '../utils/audioSplitting';
+import { audioFileExtension, type AudioUploadFormat } from '../utils/audioEncoding/formats';
+import { isOpusEncodingSupported } from '../utils/audioEncoding/oggOpus';
+import { ResumableUpload, ResumableUploadError, isResumableUploadSupported } from './resumableUpload';
 
 const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
 
+// Parts are encoded a little under the limit, as Opus is variable-rate
+const PART_SIZE_MARGIN = 0.9;
+// Long enough for few parts, short enough that each transcribes well within the ten-minute poll
+const MAX_PART_SECONDS = 20 * 60;
+// Expected size of 16 kHz mono speech: 16-bit WAV, and 24 kbps Opus plus Ogg framing
+const PART_BYTES_PER_SECOND: Record<AudioUploadFormat, number> = {
+  wav: 32000,
+  flac: 18000,
+  opus: 3300,
+};
+
+// Body of the single-request endpoints and of a completed resumable upload
+interface UploadResult {
+  success: boolean;
+  fileId: string;
+  fileUrl: string;
+  duration?: number;
+  pageCount?: number;
+  transcriptId?: string;
+  error?: string;
+}
+
 class UploadService {
   private abortControllers: Map<string, AbortController> = new Map();
+  private resumableUploads: Map<string, ResumableUpload> = new Map();
+  // Cleared the first time the backend turns out to lack the resumable endpoints
+  private resumableSupported = true;
 
   /**
    * Validate file before upload
@@ -25,11 +57,16 @@ class UploadService {
       ? { maxSize: UPLOAD_LIMITS.MAX_AUDIO_SIZE, formats: UPLOAD_LIMITS.ALLOWED_AUDIO_FORMATS }
       : { maxSize: UPLOAD_LIMITS.MAX_PDF_SIZE, formats: UPLOAD_LIMITS.ALLOWED_PDF_FORMATS };
 
+    // Audio over the limit is split in the browser, provided the browser can decode it
+    const maxSize = type === 'audio' && UniversalAudioProcessor.canDecode()
+      ? UPLOAD_LIMITS.MAX_SPLIT_AUDIO_SIZE
+      : limits.maxSize;
+
     // Check file size
-    if (file.size > limits.maxSize) {
+    if (file.size > maxSize) {
       return {
         valid: false,
-        error: `File size must be under ${this.formatBytes(limits.maxSize)}. Current: ${this.formatBytes(file.size)}`,
+        error: `File size must be under ${this.formatBytes(maxSize)}. Current: ${this.formatBytes(file.size)}`,
       };
     }
 
@@ -51,8 +88,8 @@ class UploadService {
 
     // Warnings for large files
     const warnings: string[] = [];
-    if (type === 'audio' && file.size > 50 * 1024 * 1024) {
-      warnings.push('Large file detected. Upload may take several minutes.');
+    if (type === 'audio' && file.size > limits.maxSize) {
+      warnings.push(`Large file detected. It will be split into parts under ${this.formatBytes(limits.maxSize)} before upload, which may take several minutes.`);
     }
 
     return {
@@ -62,15 +99,18 @@ class UploadService {
   }
 
   /**
-   * Upload audio file with progress tracking
+   * Upload audio file with progress tracking. `uploadKey` names the upload for
+   * cancelUpload, pauseUpload and resumeUpload; the backend file ID otherwise.
    */
   async uploadAudio(
     file: File,
-    onProgress?: (progress: UploadProgress) => void
+    onProgress?: (progress: UploadProgress) => void,
+    uploadKey?: string
   ): Promise<UploadResponse> {
     const fileId = this.generateFileId();
+    const key = uploadKey ?? fileId;
     const abortController = new AbortController();
-    this.abortControllers.set(fileId, abortController);
+    this.abortControllers.set(key, abortController);
 
     try {
       // Validate first
@@ -79,50 +119,12 @@ class UploadService {
         throw new Error(validation.error);
       }
 
-      // Create form data
-      const formData = new FormData();
-      formData.append('audio', file);
-      formData.append('fileId', fileId);
-      formData.append('originalName', file.name);
-
-      // Track upload progress
-      const startTime = Date.now();
-      let lastLoaded = 0;
-      let lastTime = startTime;
-
-      const response = await this.uploadWithProgress(
-        `${BACKEND_URL}/api/upload/audio`,
-        formData,
-        (loaded, total) => {
-          const now = Date.now();
-          const timeElapsed = (now - lastTime) / 1000; // seconds
-          const bytesUploaded = loaded - lastLoaded;
-          const speed = timeElapsed > 0 ? bytesUploaded / timeElapsed : 0;
-          const remainingBytes = total - loaded;
-          const remainingTime = speed > 0 ? remainingBytes / speed : 0;
-
-          lastLoaded = loaded;
-          lastTime = now;
-
-          if (onProgress) {
-            onProgress({
-              loaded,
-              total,
-              percentage: Math.round((loaded / total) * 100),
-              speed,
-              remainingTime,
-            });
-          }
-        },
-        abortController.signal
-      );
-
-      const result = await response.json();
-
-      if (!result.success) {
-        throw new Error(result.error || 'Upload failed');
+      if (file.size > UPLOAD_LIMITS.MAX_AUDIO_SIZE) {
+        return await this.uploadAudioInParts(file, fileId, key, abortController.signal, onProgress);
       }
 
+      const result = await this.sendFile('audio', file, fileId, key, abortController.signal, onProgress);
+
       return {
         success: true,
         fileId: result.fileId,
@@ -138,56 +140,269 @@ class UploadService {
       console.error('Audio upload error:', error);
       throw this.handleUploadError(error);
     } finally {
-      this.abortControllers.delete(fileId);
+      this.abortControllers.delete(key);
     }
   }
 
   /**
-   * Upload PDF file with progress tracking
+   * Decode a recording over the upload limit, cut it at pauses into parts that fit, and upload
+   * them one after another. The returned transcriptId resolves to the parts' transcripts merged.
    */
-  async uploadPDF(
+  private async uploadAudioInParts(
     file: File,
+    fileId: string,
+    uploadKey: string,
+    signal: AbortSignal,
     onProgress?: (progress: UploadProgress) => void
   ): Promise<UploadResponse> {
-    const fileId = this.generateFileId();
-    const abortController = new AbortController();
-    this.abortControllers.set(fileId, abortController);
+    console.log(`✂️ ${file.name} is over ${this.formatBytes(UPLOAD_LIMITS.MAX_AUDIO_SIZE)}, splitting it into parts...`);
+    onProgress?.({ loaded: 0, total: file.size, percentage: 0, stage: 'preparing' });
 
-    try {
-      // Validate first
-      const validation = this.validateFile(file, 'pdf');
-      if (!validation.valid) {
-        throw new Error(validation.error);
+    const { samples, sampleRate } = await UniversalAudioProcessor.decodeToMono(file).catch(error => {
+      console.error('Audio decoding error:', error);
+      throw new Error(`Files over ${this.formatBytes(UPLOAD_LIMITS.MAX_AUDIO_SIZE)} are split in the browser, but this browser could not decode this one.`);
+    });
+    if (signal.aborted) throw new Error('Upload cancelled');
+    if (samples.length === 0) throw new Error(`${file.name} contains no audio.`);
+
+    const encoded = await this.encodeAudioParts(samples, sampleRate, signal, (part, totalParts) => {
+      onProgress?.({ loaded: 0, total: file.size, percentage: 0, stage: 'preparing', part, totalParts });
+    });
+
+    const total = encoded.reduce((sum, { blob }) => sum + blob.size, 0);
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+    const startTime = Date.now();
+    const uploaded: UploadedAudioPart[] = [];
+    let uploadedBytes = 0;
+
+    for (const { part, blob } of encoded) {
+      const partNumber = part.index + 1;
+      const partFile = new File([blob], `${baseName}.part${partNumber}.${audioFileExtension(blob.type)}`, { type: blob.type });
+
+      const result = await this.sendFile(
+        'audio',
+        partFile,
+        `${fileId}-part${partNumber}`,
+        uploadKey,
+        signal,
+        (progress) => {
+          // Single-request totals include the multipart framing, so progress is counted against the parts' own sizes
+          const done = uploadedBytes + Math.min(progress.loaded, blob.size);
+          const elapsed = (Date.now() - startTime) / 1000;
+          const speed = elapsed > 0 && !progress.paused ? done / elapsed : 0;
+
+          onProgress?.({
+            loaded: done,
+            total,
+            percentage: Math.round((done / total) * 100),
+            speed,
+            remainingTime: speed > 0 ? (total - done) / speed : 0,
+            stage: 'uploading',
+            part: partNumber,
+            totalParts: encoded.length,
+            resumable: progress.resumable,
+            paused: progress.paused,
+          });
+        }
+      );
+
+      if (!result.transcriptId) {
+        throw new Error(`Part ${partNumber} of ${encoded.length} was uploaded, but no transcription was started`);
       }
 
-      // Create form data
+      uploaded.push({
+        fileId: result.fileId,
+        transcriptId: result.transcriptId,
+        startTime: part.startTime,
+        duration: part.duration,
+        size: blob.size,
+      });
+      uploadedBytes += blob.size;
+      console.log(`✅ Uploaded part ${partNumber}/${encoded.length} (${this.formatBytes(blob.size)}, from ${part.startTime.toFixed(1)}s)`);
+    }
+
+    const transcriptId = `split-${fileId}`;
+    transcriptionService.registerSplitTranscript(
+      transcriptId,
+      uploaded.map(part => ({ transcriptId: part.transcriptId, offset: part.startTime }))
+    );
+
+    return {
+      success: true,
+      fileId,
+      fileUrl: '',
+      metadata: {
+        size: file.size,
+        duration: samples.length / sampleRate,
+        format: this.getFileExtension(file.name),
+      },
+      transcriptId,
+      parts: uploaded,
+    };
+  }
+
+  /**
+   * Encode each planned part, as Opus where the browser can and WAV otherwise. Opus sizes are
+   * only estimates, so a part that still comes out over the limit makes every part shorter.
+   */
+  private async encodeAudioParts(
+    samples: Float32Array,
+    sampleRate: number,
+    signal: AbortSignal,
+    onPart: (part: number, totalParts: number) => void
+  ): Promise<{ part: AudioPart; blob: Blob }[]> {
+    const sizeLimit = UPLOAD_LIMITS.MAX_AUDIO_SIZE * PART_SIZE_MARGIN;
+    let format: AudioUploadFormat = isOpusEncodingSupported() ? 'opus' : 'wav';
+    let maxPartSeconds = Math.min(MAX_PART_SECONDS, sizeLimit / PART_BYTES_PER_SECOND[format]);
+
+    for (;;) {
+      const plan = planAudioParts(samples, sampleRate, { maxPartSeconds });
+      const encoded: { part: AudioPart; blob: Blob }[] = [];
+      let replan = false;
+
+      for (const part of plan) {
+        if (signal.aborted) throw new Error('Upload cancelled');
+        onPart(part.index + 1, plan.length);
+
+        let blob: Blob;
+        try {
+          blob = await UniversalAudioProcessor.encodeSamples(samples.subarray(part.start, part.end), sampleRate, format);
+        } catch (error) {
+          if (format === 'wav') throw error;
+          console.warn(`⚠️ ${format} encoding failed, splitting for WAV instead: ${error}`);
+          format = 'wav';
+          maxPartSeconds = Math.min(MAX_PART_SECONDS, sizeLimit / PART_BYTES_PER_SECOND[format]);
+          replan = true;
+          break;
+        }
+
+        if (blob.size > UPLOAD_LIMITS.MAX_AUDIO_SIZE) {
+          maxPartSeconds = (part.duration * sizeLimit) / blob.size;
+          console.warn(`⚠️ Part ${part.index + 1} encoded to ${this.formatBytes(blob.size)}, re-splitting into ${Math.round(maxPartSeconds)}s parts`);
+          replan = true;
+          break;
+        }
+
+        encoded.push({ part, blob });
+      }
+
+      if (!replan) {
+        console.log(`✂️ Split into ${encoded.length} ${format} parts of up to ${Math.round(maxPartSeconds)}s`);
+        return encoded;
+      }
+    }
+  }
+
+  /**
+   * Send one file to the backend: in resumable chunks when it spans more than one, otherwise (or
+   * when the backend lacks the resumable endpoints) as a single request. Audio starts transcribing
+   * as soon as it is stored.
+   */
+  private async sendFile(
+    kind: 'audio' | 'pdf',
+    file: File,
+    fileId: string,
+    uploadKey: string,
+    signal: AbortSignal,
+    onProgress?: (progress: UploadProgress) => void
+  ): Promise<UploadResult> {
+    let result: UploadResult | null = null;
+
+    if (file.size > UPLOAD_LIMITS.CHUNK_SIZE && this.resumableSupported && isResumableUploadSupported()) {
+      const upload = new ResumableUpload(file, {
+        endpoint: `${BACKEND_URL}/api/upload/resumable`,
+        kind,
+        fields: { fileId, originalName: file.name },
+        signal,
+        onProgress,
+      });
+      this.resumableUploads.set(uploadKey, upload);
+
+      try {
+        result = await upload.start<UploadResult>();
+      } catch (error) {
+        if (!(error instanceof ResumableUploadError && error.unsupported)) throw error;
+        console.warn('⚠️ Backend has no resumable uploads, sending the file in one request');
+        this.resumableSupported = false;
+      } finally {
+        this.resumableUploads.delete(uploadKey);
+      }
+    }
+
+    if (!result) {
       const formData = new FormData();
-      formData.append('pdf', file);
+      formData.append(kind, file);
       formData.append('fileId', fileId);
       formData.append('originalName', file.name);
 
-      // Track upload progress
       const response = await this.uploadWithProgress(
-        `${BACKEND_URL}/api/upload/pdf`,
+        `${BACKEND_URL}/api/upload/${kind}`,
         formData,
-        (loaded, total) => {
-          if (onProgress) {
-            onProgress({
-              loaded,
-              total,
-              percentage: Math.round((loaded / total) * 100),
-            });
-          }
-        },
-        abortController.signal
+        this.trackProgress(onProgress),
+        signal
       );
+      result = (await response.json()) as UploadResult;
+    }
 
-      const result = await response.json();
+    if (!result.success) {
+      throw new Error(result.error || `${kind === 'pdf' ? 'PDF upload' : 'Upload'} failed`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Turn XHR progress events into UploadProgress with speed and remaining time
+   */
+  private trackProgress(onProgress?: (progress: UploadProgress) => void): (loaded: number, total: number) => void {
+    let lastLoaded = 0;
+    let lastTime = Date.now();
+
+    return (loaded, total) => {
+      const now = Date.now();
+      const timeElapsed = (now - lastTime) / 1000; // seconds
+      const bytesUploaded = loaded - lastLoaded;
+      const speed = timeElapsed > 0 ? bytesUploaded / timeElapsed : 0;
+      const remainingBytes = total - loaded;
+      const remainingTime = speed > 0 ? remainingBytes / speed : 0;
+
+      lastLoaded = loaded;
+      lastTime = now;
+
+      if (onProgress) {
+        onProgress({
+          loaded,
+          total,
+          percentage: Math.round((loaded / total) * 100),
+          speed,
+          remainingTime,
+        });
+      }
+    };
+  }
 
-      if (!result.success) {
-        throw new Error(result.error || 'PDF upload failed');
+  /**
+   * Upload PDF file with progress tracking
+   */
+  async uploadPDF(
+    file: File,
+    onProgress?: (progress: UploadProgress) => void,
+    uploadKey?: string
+  ): Promise<UploadResponse> {
+    const fileId = this.generateFileId();
+    const key = uploadKey ?? fileId;
+    const abortController = new AbortController();
+    this.abortControllers.set(key, abortController);
+
+    try {
+      // Validate first
+      const validation = this.validateFile(file, 'pdf');
+      if (!validation.valid) {
+        throw new Error(validation.error);
       }
 
+      const result = await this.sendFile('pdf', file, fileId, key, abortController.signal, onProgress);
+
       return {
         success: true,
         fileId: result.fileId,
@@ -202,7 +417,7 @@ class UploadService {
       console.error('PDF upload error:', error);
       throw this.handleUploadError(error);
     } finally {
-      this.abortControllers.delete(fileId);
+      this.abortControllers.delete(key);
     }
   }
 
@@ -272,6 +487,24 @@ class UploadService {
     }
   }
 
+  /**
+   * Pause a chunked upload; false when the upload is sent in one request and cannot pause
+   */
+  pauseUpload(uploadKey: string): boolean {
+    const upload = this.resumableUploads.get(uploadKey);
+    upload?.pause();
+    return !!upload;
+  }
+
+  /**
+   * Resume a paused chunked upload
+   */
+  resumeUpload(uploadKey: string): boolean {
+    const upload = this.resumableUploads.get(uploadKey);
+    upload?.resume();
+    return !!upload;
+  }
+
   /**
    * Cancel all active uploads
    */
@@ -1,12 +1,15 @@
 // 🍎 Steve Jobs 2025 Industrial-Grade VAD Audio Processor
-// Based on industry research: WebRTC VAD + RMS silence detection
+// Adaptive noise floor + spectral speech detection (see utils/speechDetector)
+
+import { SpeechDetector, type SpeechDecision, type SpeechDetectorConfig } from '../utils/speechDetector';
 
 export interface VADConfig {
-  silenceThreshold: number;      // RMS threshold (1% of max amplitude)
+  silenceThreshold: number;      // Absolute RMS floor: quieter frames are never speech
   silenceDuration: number;       // 3 seconds industry standard
   minChunkDuration: number;      // Minimum viable chunk
   maxChunkDuration: number;      // Prevent oversized chunks
   sampleRate: number;           // 16kHz standard
+  detector?: Partial<Omit<SpeechDetectorConfig, 'sampleRate'>>; // Calibration, SNR and hangover tuning
 }
 
 export interface AudioChunk {
@@ -77,13 +80,17 @@ export class IntelligentVADProcessor {
   private sessionId: string;
   private sessionManager: VADSessionManager;
 
-  // Industry-standard RMS buffer for real-time analysis
-  private rmsBuffer: Float32Array = new Float32Array(1024);
+  // Latest analyser samples; the detector reads its frame from the end
+  private rmsBuffer: Float32Array = new Float32Array(2048);
   private animationFrameId: number = 0;
 
+  // Created once the audio context's sample rate is known
+  private speechDetector: SpeechDetector | null = null;
+  private lastDecision: SpeechDecision | null = null;
+
   constructor(config: Partial<VADConfig> = {}) {
     this.config = {
-      silenceThreshold: 0.01,      // 1% threshold (industry standard)
+      silenceThreshold: 0.001,     // Only true digital silence; the noise floor adapts above it
       silenceDuration: 3000,       // 3 seconds (industry standard)
       minChunkDuration: 1000,      // 1 second minimum
       maxChunkDuration: 30000,     // 30 seconds maximum (Whisper window)
@@ -121,6 +128,14 @@ export class IntelligentVADProcessor {
       const source = this.audioContext.createMediaStreamSource(this.stream);
       source.connect(this.analyser);
 
+      // Frames come from the analyser at the context's rate, whatever the stream was asked for
+      this.speechDetector = new SpeechDetector({
+        ...this.config.detector,
+        sampleRate: this.audioContext.sampleRate,
+        minRms: this.config.silenceThreshold
+      });
+      this.rmsBuffer = new Float32Array(Math.max(this.analyser.fftSize, this.speechDetector.frameSize));
+
       // Setup MediaRecorder with optimized settings
       const mimeType = this.getBestMimeType();
       this.mediaRecorder = new MediaRecorder(this.stream, {
@@ -269,7 +284,7 @@ export class IntelligentVADProcessor {
   private calculateRMS(): number {
     if (!this.analyser) return 0;
 
-    this.analyser.getFloatTimeDomainData(this.rmsBuffer);
+    this.analyser.getFloatTimeDomainData(this.rmsBuffer.subarray(0, this.analyser.fftSize));
 
     let sum = 0;
     for (let i = 0; i < this.rmsBuffer.length; i++) {
@@ -279,12 +294,16 @@ export class IntelligentVADProcessor {
     return Math.sqrt(sum / this.rmsBuffer.length);
   }
 
-  // 🎯 Intelligent speech detection algorithm
+  // 🎯 Intelligent speech detection: the analyser's latest frame against the room's noise floor
   private detectSpeech(): boolean {
-    const rmsLevel = this.calculateRMS();
-    const isSpeech = rmsLevel > this.config.silenceThreshold;
+    if (!this.analyser || !this.speechDetector) return false;
 
+    this.analyser.getFloatTimeDomainData(this.rmsBuffer.subarray(0, this.analyser.fftSize));
     const currentTime = Date.now();
+    this.lastDecision = this.speechDetector.processFrame(this.rmsBuffer.subarray(0, this.analyser.fftSize), currentTime);
+
+    // While calibrating the room, keep the chunk going rather than cutting on a guess
+    const isSpeech = this.lastDecision.isSpeech || this.lastDecision.calibrating;
 
     if (!isSpeech) {
       if (!this.isInSilence) {
@@ -397,6 +416,9 @@ export class IntelligentVADProcessor {
       this.audioContext.close();
     }
 
+    this.speechDetector?.reset();
+    this.lastDecision = null;
+
     // 🛡️ End session securely
     this.sessionManager.endSession(this.sessionId);
   }
@@ -478,7 +500,10 @@ export class IntelligentVADProcessor {
       config: this.config,
       audioQuality: qualityInfo.quality,
       averageRms: this.audioQualityMetrics.averageRms,
-      qualityAlert: qualityInfo.shouldAlert
+      qualityAlert: qualityInfo.shouldAlert,
+      isCalibrating: this.lastDecision?.calibrating ?? true,
+      noiseFloorDb: this.lastDecision?.noiseFloorDb ?? -Infinity,
+      snrDb: this.lastDecision?.snrDb ?? 0
     };
   }
 }
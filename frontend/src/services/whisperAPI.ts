@@ -1,6 +1,10 @@
 import OpenAI from 'openai';
 import type { TranscriptSegment } from '../types';
+import type { TranscriptDocument } from '../types/transcription';
 import { calculateAudioDuration } from '../utils/audioProcessor';
+import { audioFileExtension } from '../utils/audioEncoding/formats';
+import { fromWhisperResponse, toTranscriptSegments } from '../utils/transcriptDocument';
+import type { RawTranscriptPayload } from '../utils/transcriptDocument';
 
 export class WhisperService {
   private openai: OpenAI | null = null;
@@ -40,6 +44,7 @@ export class WhisperService {
     duration: number;
     language: string;
     cost: number;
+    document: TranscriptDocument;
   }> {
     this.validateApiKey();
 
@@ -49,7 +54,7 @@ export class WhisperService {
       const durationMinutes = duration / 60;
 
       // Convert blob to file
-      const file = new File([audioBlob], 'audio.webm', { type: audioBlob.type });
+      const file = new File([audioBlob], `audio.${audioFileExtension(audioBlob.type)}`, { type: audioBlob.type });
 
       const response = await this.openai!.audio.transcriptions.create({
         file,
@@ -61,18 +66,19 @@ export class WhisperService {
         timestamp_granularities: ['word'],
       });
 
-      // Parse the response and create segments
-      const segments = this.parseTranscriptionResponse(response);
+      // Parse the response into the canonical document, keeping word timings
+      const document = this.parseTranscriptionResponse(response);
 
       // Calculate cost (Whisper API charges $0.006 per minute)
       const cost = durationMinutes * 0.006;
 
       return {
         text: response.text,
-        segments,
+        segments: toTranscriptSegments(document),
         duration,
         language: response.language || 'unknown',
         cost: Number(cost.toFixed(4)),
+        document,
       };
     } catch (error) {
       console.error('Transcription failed:', error);
@@ -93,22 +99,28 @@ export class WhisperService {
     }
   }
 
+  /**
+   * Transcribe one chunk of a longer recording. Timings are shifted by `timeOffset` seconds,
+   * by default where a 30 s chunk at `chunkIndex` would start.
+   */
   async transcribeChunk(
     audioBlob: Blob,
     chunkIndex: number,
     totalChunks: number,
-    previousContext?: string
+    previousContext?: string,
+    timeOffset: number = chunkIndex * 30
   ): Promise<{
     text: string;
     segments: TranscriptSegment[];
     cost: number;
+    document: TranscriptDocument;
   }> {
     this.validateApiKey();
 
     try {
       const duration = await calculateAudioDuration(audioBlob);
       const durationMinutes = duration / 60;
-      const file = new File([audioBlob], `chunk-${chunkIndex}.webm`, { type: audioBlob.type });
+      const file = new File([audioBlob], `chunk-${chunkIndex}.${audioFileExtension(audioBlob.type)}`, { type: audioBlob.type });
 
       // Create context-aware prompt for better continuity
       const contextPrompt = this.createContextPrompt(previousContext, chunkIndex, totalChunks);
@@ -122,13 +134,14 @@ export class WhisperService {
         timestamp_granularities: ['word'],
       });
 
-      const segments = this.parseTranscriptionResponse(response, chunkIndex * 30); // Offset for chunk timing
+      const document = this.parseTranscriptionResponse(response, timeOffset);
       const cost = durationMinutes * 0.006;
 
       return {
         text: response.text,
-        segments,
+        segments: toTranscriptSegments(document),
         cost: Number(cost.toFixed(4)),
+        document,
       };
     } catch (error) {
       console.error(`Chunk ${chunkIndex} transcription failed:`, error);
@@ -137,56 +150,10 @@ export class WhisperService {
   }
 
   private parseTranscriptionResponse(
-    response: any,
+    response: RawTranscriptPayload,
     timeOffset: number = 0
-  ): TranscriptSegment[] {
-    const segments: TranscriptSegment[] = [];
-
-    if (response.words && Array.isArray(response.words)) {
-      // Group words into sentences/segments
-      let currentSegment: TranscriptSegment | null = null;
-
-      for (const word of response.words) {
-        const timestamp = (word.start || 0) + timeOffset;
-
-        if (!currentSegment) {
-          currentSegment = {
-            id: `segment-${timestamp}`,
-            text: word.word,
-            timestamp,
-            confidence: word.confidence,
-          };
-        } else {
-          // End segment on punctuation or after 10 seconds
-          const shouldEndSegment =
-            /[.!?]$/.test(word.word) ||
-            (timestamp - currentSegment.timestamp) > 10;
-
-          if (shouldEndSegment) {
-            currentSegment.text += word.word;
-            segments.push(currentSegment);
-            currentSegment = null;
-          } else {
-            currentSegment.text += word.word;
-          }
-        }
-      }
-
-      // Add final segment if exists
-      if (currentSegment) {
-        segments.push(currentSegment);
-      }
-    } else {
-      // Fallback: create single segment
-      segments.push({
-        id: `segment-${timeOffset}`,
-        text: response.text,
-        timestamp: timeOffset,
-        confidence: 1,
-      });
-    }
-
-    return segments;
+  ): TranscriptDocument {
+    return fromWhisperResponse(response, timeOffset);
   }
 
   private getOptimizedPrompt(): string {
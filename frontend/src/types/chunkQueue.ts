@@ -0,0 +1,57 @@
+// 🎯 LectureScript - Chunk Queue Types
+// Persistent upload queue for streaming transcription chunks
+// Author: Peter Levler
+
+import type { TranscriptDocument } from './transcription';
+
+export type QueuedChunkStatus = 'pending' | 'uploading' | 'done' | 'failed';
+
+/**
+ * Where a chunk's audio sits in the recording, in seconds, overlap included
+ */
+export interface ChunkTiming {
+  startTime: number;
+  duration: number;
+}
+
+/**
+ * One recorded chunk, keyed by (sessionId, chunkIndex) so retries never create duplicates
+ */
+export interface QueuedChunk {
+  sessionId: string;
+  chunkIndex: number;
+  audio: Blob;
+  contextId?: string;
+  /** Seconds at the start of `audio` repeated from the end of the previous chunk */
+  overlap?: number;
+  /** Seconds from the start of the recording to the start of `audio`; chunks queued before this was recorded lack it */
+  startTime?: number;
+  /** Length of `audio` in seconds */
+  duration?: number;
+  status: QueuedChunkStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  document?: TranscriptDocument;
+  cost?: number;
+  createdAt: number;
+  completedAt?: number;
+}
+
+export interface ChunkQueueState {
+  pendingCount: number;
+  failedCount: number;
+  isOnline: boolean;
+}
+
+/**
+ * Ordered view of one session: completed chunks joined by chunkIndex, plus the gaps still in flight
+ */
+export interface AssembledSession {
+  sessionId: string;
+  document: TranscriptDocument;
+  chunkTexts: string[];
+  pendingIndexes: number[];
+  failedIndexes: number[];
+  cost: number;
+}
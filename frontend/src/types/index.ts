@@ -1,10 +1,15 @@
+import type { TranscriptionWord, SegmentTranslations } from './transcription';
+
 export interface TranscriptSegment {
   id: string;
   text: string;
   timestamp: number;
+  end?: number;
   confidence?: number;
   language?: 'zh' | 'en' | 'mixed';
   speaker?: string;
+  words?: TranscriptionWord[];
+  translations?: SegmentTranslations;
 }
 
 export interface LectureSession {
@@ -14,6 +19,7 @@ export interface LectureSession {
   endTime?: number;
   segments: TranscriptSegment[];
   summary?: string;
+  keyTopics?: string[];
   language: 'zh' | 'en' | 'mixed';
   duration: number;
   wordCount: number;
@@ -47,12 +53,58 @@ export interface UsageStats {
   currentMonthCost: number;
 }
 
+export type ExportFormat = 'txt' | 'md' | 'pdf' | 'docx' | 'json' | 'notion' | 'gdocs' | 'odt' | 'srt' | 'vtt' | 'ttml';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ttml';
+
+export interface SubtitleOptions {
+  maxLineLength: number; // Columns per line; CJK characters count as two
+  maxLines: number; // Lines per cue
+  maxCueDuration: number; // Seconds
+  minCueDuration: number; // Seconds; short cues are held longer when the next cue allows it
+  includeSpeakers: boolean;
+}
+
 export interface ExportOptions {
-  format: 'txt' | 'md' | 'docx' | 'notion' | 'gdocs';
+  format: ExportFormat;
   includeTimestamps: boolean;
   includeSummary: boolean;
   includeMetadata: boolean;
   language: 'zh' | 'en' | 'both';
+  layout?: 'professional' | 'academic' | 'clean' | 'meeting' | 'standard';
+  includeBranding?: boolean;
+  includeWatermark?: boolean;
+  subtitles?: Partial<SubtitleOptions>; // Caption formats only
+  templateId?: string; // Built-in or user template; HTML, PDF, Markdown and Notion formats only
+  bilingual?: boolean; // With language 'both': parallel 中文 / English columns from segment translations
+}
+
+/**
+ * URL that opens a lecture at the given second, or undefined when the lecture can't be linked to
+ */
+export type TimestampLinker = (seconds: number) => string | undefined;
+
+export interface BatchExportOptions extends ExportOptions {
+  sessions: string[]; // Session or library recording ids
+  zipName?: string;
+}
+
+export interface ExportFileProgress {
+  name: string;
+  status: 'pending' | 'processing' | 'completed' | 'error';
+  path?: string; // Location inside the archive
+  size?: number;
+  error?: string;
+}
+
+export interface ExportProgress {
+  status: 'preparing' | 'processing' | 'generating' | 'completed' | 'error';
+  progress: number; // 0-100
+  message: string;
+  fileSize?: number;
+  files?: ExportFileProgress[]; // Batch exports only
+  startTime?: number;
+  endTime?: number;
 }
 
 export interface APISettings {
@@ -1,5 +1,10 @@
 // Recording Library Types
 
+import type { TranscriptionSegment } from './transcription';
+
+// Recordings captured while the backend was unreachable wait as 'pending' until it comes back
+export type TranscriptionStatus = 'pending' | 'transcribing' | 'completed' | 'failed';
+
 export interface RecordingEntry {
   id: string;
   title: string; // AI-generated or manually edited
@@ -27,6 +32,28 @@ export interface RecordingEntry {
   audioBlob?: Blob; // Optional, for playback
   hasAudio: boolean;
 
+  // Study mode (uploaded audio + slides)
+  source?: 'live' | 'study';
+  transcriptId?: string; // Backend transcript id, also the /study/:transcriptId route
+  segments?: TranscriptionSegment[]; // With word timings, for the split-screen viewer
+  pdfBlob?: Blob;
+  hasPdf?: boolean;
+  audioFileName?: string;
+  pdfFileName?: string;
+  studyState?: StudyViewState;
+
+  // AI study aids, kept so flashcard exports don't regenerate them
+  insights?: LectureInsights;
+
+  // Background transcription (absent on recordings saved already transcribed)
+  transcriptionStatus?: TranscriptionStatus;
+  transcriptionAttempts?: number;
+  transcriptionError?: string;
+
+  // Course organization (see Course); lectureNumber follows the course's recordings by date
+  courseId?: string;
+  lectureNumber?: number;
+
   // Tags and Organization
   tags: string[];
   isFavorited: boolean;
@@ -37,6 +64,25 @@ export interface RecordingEntry {
   exportCount: number;
 }
 
+/**
+ * Output of SummaryService.generateKeyInsights
+ */
+export interface LectureInsights {
+  insights: string[];
+  concepts: string[];
+  questions: string[];
+  generatedAt: number;
+}
+
+/**
+ * Where the reader left off in the split-screen viewer
+ */
+export interface StudyViewState {
+  playbackPosition: number; // seconds
+  pdfPage: number;
+  bilingual?: boolean; // 中文 / English columns were showing
+}
+
 export interface LibraryFilters {
   search: string;
   dateRange: {
@@ -48,12 +94,98 @@ export interface LibraryFilters {
   tags: string[];
   minDuration?: number;
   maxDuration?: number;
-  sortBy: 'dateCreated' | 'duration' | 'title' | 'wordCount';
+  courseId?: string; // only this course's recordings
+  sortBy: 'dateCreated' | 'duration' | 'title' | 'wordCount' | 'relevance' | 'lectureNumber'; // relevance ranks search matches
   sortOrder: 'asc' | 'desc';
   showArchived: boolean;
   showFavorites: boolean;
 }
 
+/**
+ * A weekly class meeting; times are local "HH:MM"
+ */
+export interface CourseMeeting {
+  dayOfWeek: number; // 0 = Sunday, as Date.getDay()
+  startTime: string;
+  endTime: string;
+  location?: string;
+}
+
+export interface Term {
+  id: string;
+  name: string; // e.g. "2026 Spring"
+  startDate: number; // local midnight of the first teaching day
+  endDate: number; // local midnight of the last teaching day
+  breakWeeks?: number[]; // 1-based weeks without classes, e.g. reading week
+}
+
+export interface Course {
+  id: string;
+  termId?: string;
+  code: string; // e.g. "FINA3080"
+  name: string;
+  instructor?: string;
+  schedule: CourseMeeting[];
+  color: string; // hex, for cards and the course bar
+  createdAt: number;
+}
+
+/**
+ * Progress through a course's timetable, for the course dashboard
+ */
+export interface CourseProgress {
+  lectureCount: number;
+  totalHours: number;
+  scheduledMeetings: number; // meetings held so far (through today or the end of term)
+  recordedMeetings: number; // of those, meetings with a recording
+  coverage: number; // recordedMeetings / scheduledMeetings, 0-1
+  missingWeeks: number[]; // 1-based term weeks with a meeting but no recording
+}
+
+/**
+ * Transcript passage around a search match, with character ranges to highlight
+ */
+export interface SearchSnippet {
+  text: string;
+  highlights: Array<[number, number]>;
+  timestamp?: number; // seconds; absent for live recordings without timed segments
+  segmentId?: string;
+}
+
+export interface LibrarySearchResult {
+  recording: RecordingEntry;
+  score: number; // BM25; 0 when the search only used operators
+  snippet?: SearchSnippet;
+}
+
+/**
+ * A passage of a recording that the "ask your lectures" retrieval embeds and cites
+ */
+export interface LectureChunk {
+  id: string; // `${recordingId}:${index}`
+  recordingId: string;
+  source: 'transcript' | 'slides';
+  text: string;
+  start?: number; // seconds; only recordings with timed segments have them
+  end?: number;
+  segmentId?: string;
+}
+
+export interface LectureCitation {
+  number: number; // [n] in the answer
+  chunk: LectureChunk;
+  recordingTitle: string;
+  dateCreated: number;
+  score: number; // cosine similarity to the question
+}
+
+export interface LectureAnswer {
+  question: string;
+  answer: string; // sentences quoted from the cited passages, each followed by its [n]
+  citations: LectureCitation[];
+  model: string; // embedding model the passages were ranked with
+}
+
 export interface LibraryStats {
   totalRecordings: number;
   totalDuration: number; // in seconds
@@ -0,0 +1,62 @@
+// 🎯 LectureScript - Export Template Types
+// User-defined templates for the HTML, PDF, Markdown and Notion exporters
+// Author: Peter Levler
+
+/**
+ * HTML templates feed the HTML (Google Docs) and PDF exporters; Markdown templates feed the
+ * Markdown, Notion and PDF exporters
+ */
+export type TemplateSyntax = 'html' | 'markdown';
+
+export interface ExportTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  syntax: TemplateSyntax;
+  body: string;
+  builtIn?: boolean; // Shipped with the app; can be duplicated but not edited
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Data a template can read. Times are raw numbers so templates choose the formatting with
+ * filters: `{{ segment.start | timestamp }}`, `{{ date | date: 'date' }}`, `{{ duration | duration }}`
+ */
+export interface TemplateContext {
+  [key: string]: unknown;
+  title: string;
+  date: number; // ms since epoch
+  exportDate: number; // ms since epoch
+  duration: number; // seconds
+  wordCount: number;
+  language: string; // 'zh' | 'en' | 'mixed'
+  cost: number;
+  summary?: string;
+  keyTopics: string[];
+  speakers: string[];
+  segments: {
+    index: number; // 1-based
+    start: number; // seconds
+    end?: number;
+    text: string;
+    speaker?: string;
+    language?: string;
+    zh?: string; // 中文 column: the original or its translation
+    en?: string; // English column: the original or its translation
+  }[];
+  options: {
+    format: string;
+    layout: string;
+    includeTimestamps: boolean;
+    includeSummary: boolean;
+    includeMetadata: boolean;
+    includeBranding: boolean;
+    includeWatermark: boolean;
+    bilingual: boolean;
+  };
+  branding: {
+    appName: string;
+    watermark?: string;
+  };
+}
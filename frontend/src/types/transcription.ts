@@ -2,6 +2,21 @@
 // TypeScript definitions for transcription data structures
 // Author: Peter Levler
 
+/**
+ * Language of a transcript segment (code-switched lectures are 'mixed')
+ */
+export type TranscriptLanguage = 'zh' | 'en' | 'mixed';
+
+/**
+ * Language a segment can be translated into
+ */
+export type TranslationLanguage = 'zh' | 'en';
+
+/**
+ * Translations of a segment's text, keyed by target language
+ */
+export type SegmentTranslations = Partial<Record<TranslationLanguage, string>>;
+
 /**
  * Word-level timing information
  */
@@ -21,7 +36,10 @@ export interface TranscriptionSegment {
   start: number;
   end: number;
   speaker?: string;
+  language?: TranscriptLanguage;
+  confidence?: number;
   words?: TranscriptionWord[];
+  translations?: SegmentTranslations;
 }
 
 /**
@@ -34,6 +52,38 @@ export interface Transcription {
   text: string;
 }
 
+/**
+ * Producer a canonical transcript document was converted from
+ */
+export type TranscriptSource =
+  | 'backend'
+  | 'stream'
+  | 'enhanced'
+  | 'whisper'
+  | 'study-mode'
+  | 'mock'
+  | 'legacy';
+
+/**
+ * Canonical transcript segment: time range, speaker, language and word timings
+ */
+export interface TranscriptDocumentSegment extends TranscriptionSegment {
+  words: TranscriptionWord[];
+}
+
+/**
+ * Canonical transcript document shared by every viewer and exporter
+ */
+export interface TranscriptDocument {
+  id: string;
+  source: TranscriptSource;
+  language: string;
+  duration: number;
+  text: string;
+  segments: TranscriptDocumentSegment[];
+  createdAt: number;
+}
+
 /**
  * PDF page to timestamp mapping
  */
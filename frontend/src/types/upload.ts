@@ -40,15 +40,30 @@ export interface UploadResponse {
     format: string;
   };
   transcriptId?: string;
+  /** Set when a long recording was split and uploaded in parts; `transcriptId` then merges them */
+  parts?: UploadedAudioPart[];
   error?: string;
 }
 
+export interface UploadedAudioPart {
+  fileId: string;
+  transcriptId: string;
+  startTime: number; // seconds into the original recording
+  duration: number; // seconds
+  size: number;
+}
+
 export interface UploadProgress {
   loaded: number;
   total: number;
   percentage: number;
   speed?: number; // bytes per second
   remainingTime?: number; // seconds
+  stage?: 'preparing' | 'uploading'; // preparing: decoding and splitting a file over the limit
+  part?: number; // 1-based part being uploaded, when split
+  totalParts?: number;
+  resumable?: boolean; // sent in checksummed chunks that can be paused and resumed
+  paused?: boolean;
 }
 
 export interface UploadOptions {
@@ -63,6 +78,7 @@ export interface UploadOptions {
 
 export const UPLOAD_LIMITS = {
   MAX_AUDIO_SIZE: 25 * 1024 * 1024,  // 25MB (OpenAI Whisper API limit)
+  MAX_SPLIT_AUDIO_SIZE: 500 * 1024 * 1024, // 500MB (decoded in the browser and split into parts)
   MAX_PDF_SIZE: 50 * 1024 * 1024,    // 50MB (increased for large slide decks)
   ALLOWED_AUDIO_FORMATS: ['.mp3', '.wav', '.m4a', '.webm', '.ogg'],
   ALLOWED_PDF_FORMATS: ['.pdf'],
@@ -0,0 +1,26 @@
+// 🎯 LectureScript - Upload Formats
+// Audio formats the encoders produce, and the file names transcription APIs expect for them
+// Author: Peter Levler
+
+export type AudioUploadFormat = 'opus' | 'flac' | 'wav';
+
+export const AUDIO_FORMAT_MIME_TYPES: Record<AudioUploadFormat, string> = {
+  opus: 'audio/ogg; codecs=opus',
+  flac: 'audio/flac',
+  wav: 'audio/wav',
+};
+
+const EXTENSIONS: [RegExp, string][] = [
+  [/^audio\/(x-)?wav/, 'wav'],
+  [/^audio\/(x-)?flac/, 'flac'],
+  [/^audio\/ogg/, 'ogg'],
+  [/^audio\/(mpeg|mp3)/, 'mp3'],
+  [/^audio\/(mp4|m4a|x-m4a|aac)/, 'm4a'],
+];
+
+/**
+ * File extension for a blob's MIME type. Whisper decides the format by extension, so an Ogg
+ * upload named .webm is rejected; MediaRecorder's webm stays the default.
+ */
+export const audioFileExtension = (mimeType: string): string =>
+  EXTENSIONS.find(([pattern]) => pattern.test(mimeType))?.[1] ?? 'webm';
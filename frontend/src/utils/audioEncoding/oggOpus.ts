@@ -0,0 +1,224 @@
+// 🎯 LectureScript - Ogg/Opus Encoding
+// Opus packets from the browser's WebCodecs AudioEncoder, muxed into an Ogg stream Whisper accepts
+// Author: Peter Levler
+
+import { resample } from './resample';
+
+export interface OggOpusOptions {
+  /** 24 kbps keeps lecture speech clear at roughly a tenth of 16 kHz WAV */
+  bitrate?: number;
+}
+
+const DEFAULT_BITRATE = 24000;
+// Ogg Opus granule positions always count 48 kHz samples, whatever the input rate
+const GRANULE_RATE = 48000;
+const OPUS_RATES = [8000, 12000, 16000, 24000, 48000];
+// libopus encoder lookahead at 48 kHz, used when the encoder does not report its own
+const DEFAULT_PRE_SKIP = 312;
+const MAX_SEGMENTS_PER_PAGE = 255;
+
+const HEADER_TYPE_BOS = 0x02;
+const HEADER_TYPE_EOS = 0x04;
+
+let crcTable: Uint32Array | null = null;
+
+// Ogg's CRC-32: polynomial 0x04c11db7, unreflected, zero initial value
+const oggCrc = (data: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      let r = i << 24;
+      for (let j = 0; j < 8; j++) r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+      crcTable[i] = r >>> 0;
+    }
+  }
+
+  let crc = 0;
+  for (const byte of data) crc = ((crc << 8) ^ crcTable[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  return crc;
+};
+
+export const isOpusEncodingSupported = (): boolean => typeof AudioEncoder !== 'undefined';
+
+class OggWriter {
+  private pages: Uint8Array[] = [];
+  private sequence = 0;
+  private serial = Math.floor(Math.random() * 0xffffffff);
+
+  /**
+   * Write packets that all finish on one page. `granule` is the position after the last of them.
+   */
+  writePage(packets: Uint8Array[], granule: number, headerType = 0): void {
+    const lacing: number[] = [];
+    for (const packet of packets) {
+      let remaining = packet.length;
+      while (remaining >= 255) {
+        lacing.push(255);
+        remaining -= 255;
+      }
+      lacing.push(remaining);
+    }
+
+    const bodyLength = packets.reduce((sum, packet) => sum + packet.length, 0);
+    const page = new Uint8Array(27 + lacing.length + bodyLength);
+    const view = new DataView(page.buffer);
+
+    page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+    page[4] = 0;
+    page[5] = headerType;
+    view.setUint32(6, granule % 2 ** 32, true);
+    view.setUint32(10, Math.floor(granule / 2 ** 32), true);
+    view.setUint32(14, this.serial, true);
+    view.setUint32(18, this.sequence++, true);
+    page[26] = lacing.length;
+    page.set(lacing, 27);
+
+    let offset = 27 + lacing.length;
+    for (const packet of packets) {
+      page.set(packet, offset);
+      offset += packet.length;
+    }
+
+    view.setUint32(22, oggCrc(page), true);
+    this.pages.push(page);
+  }
+
+  toBlob(): Blob {
+    return new Blob(this.pages, { type: 'audio/ogg; codecs=opus' });
+  }
+}
+
+const segmentsFor = (packet: Uint8Array) => Math.floor(packet.length / 255) + 1;
+
+const opusHead = (sampleRate: number, preSkip: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  head[8] = 1; // version
+  head[9] = 1; // channels
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, sampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  head[18] = 0; // mono/stereo mapping
+  return head;
+};
+
+const opusTags = (): Uint8Array => {
+  const vendor = new TextEncoder().encode('LectureScript');
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(new TextEncoder().encode('OpusTags'));
+  view.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  view.setUint32(12 + vendor.length, 0, true);
+  return tags;
+};
+
+/**
+ * Pre-skip from the encoder's own OpusHead, when it hands one over as decoder config
+ */
+const preSkipFrom = (description: AllowSharedBufferSource | undefined): number | null => {
+  if (!description) return null;
+  const bytes = ArrayBuffer.isView(description)
+    ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+    : new Uint8Array(description);
+  if (bytes.length < 19 || new TextDecoder().decode(bytes.subarray(0, 8)) !== 'OpusHead') return null;
+  return bytes[10] | (bytes[11] << 8);
+};
+
+/**
+ * Encode mono samples (-1..1) as Ogg/Opus. Needs WebCodecs; check isOpusEncodingSupported first.
+ */
+export const encodeOggOpus = async (
+  samples: Float32Array,
+  sampleRate: number,
+  options: OggOpusOptions = {}
+): Promise<Blob> => {
+  if (!isOpusEncodingSupported()) {
+    throw new Error('Opus encoding needs WebCodecs, which this browser lacks');
+  }
+
+  const config: AudioEncoderConfig = {
+    codec: 'opus',
+    sampleRate,
+    numberOfChannels: 1,
+    bitrate: options.bitrate ?? DEFAULT_BITRATE,
+  };
+
+  // Opus only runs at a handful of rates; anything else is brought up to 48 kHz first
+  let input = samples;
+  if (!OPUS_RATES.includes(sampleRate) || !(await AudioEncoder.isConfigSupported(config)).supported) {
+    input = resample(samples, sampleRate, GRANULE_RATE);
+    config.sampleRate = GRANULE_RATE;
+  }
+
+  const packets: { data: Uint8Array; duration: number }[] = [];
+  let preSkip: number | null = null;
+  let failure: Error | null = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      // Default Opus frames are 20 ms
+      packets.push({ data, duration: chunk.duration ?? 20000 });
+      preSkip ??= preSkipFrom(metadata?.decoderConfig?.description);
+    },
+    error: error => {
+      failure = error;
+    },
+  });
+
+  try {
+    encoder.configure(config);
+    // A second at a time, so an hour-long lecture is never copied into the encoder in one piece
+    for (let offset = 0; offset < input.length; offset += config.sampleRate) {
+      const data = input.subarray(offset, offset + config.sampleRate);
+      const audio = new AudioData({
+        format: 'f32',
+        sampleRate: config.sampleRate,
+        numberOfFrames: data.length,
+        numberOfChannels: 1,
+        timestamp: Math.round((offset / config.sampleRate) * 1_000_000),
+        data,
+      });
+      encoder.encode(audio);
+      audio.close();
+    }
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+
+  if (failure) throw failure;
+
+  const skip = preSkip ?? DEFAULT_PRE_SKIP;
+  const writer = new OggWriter();
+  writer.writePage([opusHead(sampleRate, skip)], 0, HEADER_TYPE_BOS);
+  writer.writePage([opusTags()], 0);
+
+  // The last page's granule marks where the real audio ends, so players drop the encoder's padding
+  const endGranule = skip + Math.round((samples.length * GRANULE_RATE) / sampleRate);
+  let granule = skip;
+  let page: Uint8Array[] = [];
+  let segments = 0;
+
+  packets.forEach((packet, i) => {
+    if (segments + segmentsFor(packet.data) > MAX_SEGMENTS_PER_PAGE) {
+      writer.writePage(page, Math.min(granule, endGranule));
+      page = [];
+      segments = 0;
+    }
+
+    page.push(packet.data);
+    segments += segmentsFor(packet.data);
+    granule += Math.round((packet.duration * GRANULE_RATE) / 1_000_000);
+
+    if (i === packets.length - 1) {
+      writer.writePage(page, endGranule, HEADER_TYPE_EOS);
+    }
+  });
+  if (packets.length === 0) writer.writePage([], endGranule, HEADER_TYPE_EOS);
+
+  return writer.toBlob();
+};
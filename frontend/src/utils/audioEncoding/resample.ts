@@ -0,0 +1,102 @@
+// 🎯 LectureScript - Resampling
+// Mono downmix and a windowed-sinc polyphase resampler, for when OfflineAudioContext is unavailable
+// Author: Peter Levler
+
+export interface ResampleOptions {
+  /** Filter reach on each side, in samples at the lower rate; more is sharper and slower */
+  halfTaps?: number;
+}
+
+const DEFAULT_HALF_TAPS = 16;
+
+// Polyphase filters keyed by "from:to:halfTaps", since a session resamples many chunks at the same rates
+const filterCache = new Map<string, Float32Array[]>();
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+/**
+ * Average every channel into one
+ */
+export const downmixToMono = (channels: Float32Array[]): Float32Array => {
+  if (channels.length === 1) return channels[0];
+
+  const length = Math.min(...channels.map(channel => channel.length));
+  const mono = new Float32Array(length);
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) mono[i] += channel[i];
+  }
+  for (let i = 0; i < length; i++) mono[i] /= channels.length;
+  return mono;
+};
+
+/**
+ * Split a Blackman-windowed sinc low-pass at the upsampled rate into `up` phases. Phase p holds
+ * taps p, p + up, p + 2·up, ...; each phase sums to roughly 1, so the output keeps the input's level.
+ */
+const buildPhases = (up: number, down: number, halfTaps: number): Float32Array[] => {
+  // `halfTaps` periods of the lower rate on each side, so downsampling gets as sharp a filter as upsampling
+  const length = 2 * halfTaps * Math.max(up, down) + 1;
+  const center = halfTaps * Math.max(up, down);
+  // Cutoff at the lower of the two Nyquist frequencies, in cycles per upsampled sample
+  const cutoff = 0.5 / Math.max(up, down);
+
+  const taps = new Float64Array(length);
+  for (let k = 0; k < length; k++) {
+    const x = k - center;
+    const sinc = x === 0 ? 1 : Math.sin(2 * Math.PI * cutoff * x) / (2 * Math.PI * cutoff * x);
+    const window = 0.42 - 0.5 * Math.cos((2 * Math.PI * k) / (length - 1)) + 0.08 * Math.cos((4 * Math.PI * k) / (length - 1));
+    taps[k] = 2 * cutoff * up * sinc * window;
+  }
+
+  const phases: Float32Array[] = [];
+  for (let p = 0; p < up; p++) {
+    const phase = new Float32Array(Math.ceil((length - p) / up));
+    for (let j = 0; j < phase.length; j++) phase[j] = taps[p + j * up];
+    phases.push(phase);
+  }
+  return phases;
+};
+
+/**
+ * Resample by the rational factor to/from: conceptually upsample by `up`, low-pass, and keep every
+ * `down`-th sample, but only the taps that land on real input samples are ever computed.
+ */
+export const resample = (
+  samples: Float32Array,
+  fromRate: number,
+  toRate: number,
+  options: ResampleOptions = {}
+): Float32Array => {
+  if (fromRate === toRate) return samples;
+
+  const halfTaps = options.halfTaps ?? DEFAULT_HALF_TAPS;
+  const divisor = gcd(fromRate, toRate);
+  const up = toRate / divisor;
+  const down = fromRate / divisor;
+
+  const key = `${fromRate}:${toRate}:${halfTaps}`;
+  let phases = filterCache.get(key);
+  if (!phases) {
+    phases = buildPhases(up, down, halfTaps);
+    filterCache.set(key, phases);
+  }
+
+  const center = halfTaps * Math.max(up, down);
+  const output = new Float32Array(Math.floor((samples.length * up) / down));
+
+  for (let n = 0; n < output.length; n++) {
+    const position = n * down + center;
+    const newest = Math.floor(position / up);
+    const phase = phases[position - newest * up];
+
+    let sum = 0;
+    for (let j = 0; j < phase.length; j++) {
+      const index = newest - j;
+      if (index < 0) break;
+      if (index < samples.length) sum += phase[j] * samples[index];
+    }
+    output[n] = sum;
+  }
+
+  return output;
+};
@@ -0,0 +1,100 @@
+// 🎯 LectureScript - Audio Splitting
+// Plans where to cut a long recording so each part fits the upload limit, preferring the quietest moments
+// Author: Peter Levler
+
+export interface AudioSplitOptions {
+  /** Longest a part may be */
+  maxPartSeconds: number;
+  /** How far before the limit to look for a pause; a cut with no pause in reach falls at the limit */
+  searchSeconds?: number;
+  /** Length of the quiet stretch a cut is centred in */
+  pauseMs?: number;
+}
+
+export interface AudioPart {
+  index: number;
+  /** Sample range [start, end) in the source */
+  start: number;
+  end: number;
+  /** Where the part begins in the source, which is the time offset of its transcript */
+  startTime: number;
+  duration: number;
+}
+
+const DEFAULT_SEARCH_SECONDS = 30;
+const DEFAULT_PAUSE_MS = 400;
+// Energy is measured over 20 ms frames, fine enough to land a cut between words
+const FRAME_MS = 20;
+
+/**
+ * Running sum of per-frame energy, so the energy of any run of frames is one subtraction
+ */
+const cumulativeFrameEnergy = (samples: Float32Array, frameSize: number): Float64Array => {
+  const frameCount = Math.ceil(samples.length / frameSize);
+  const cumulative = new Float64Array(frameCount + 1);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const end = Math.min(samples.length, (frame + 1) * frameSize);
+    let energy = 0;
+    for (let i = frame * frameSize; i < end; i++) energy += samples[i] * samples[i];
+    cumulative[frame + 1] = cumulative[frame] + energy;
+  }
+
+  return cumulative;
+};
+
+/**
+ * Split mono samples into consecutive parts no longer than `maxPartSeconds`. Each cut is placed in
+ * the middle of the quietest `pauseMs` stretch within `searchSeconds` before the limit, so a word
+ * is rarely cut in two and neither part's transcript loses it. Empty audio has no parts.
+ */
+export const planAudioParts = (
+  samples: Float32Array,
+  sampleRate: number,
+  options: AudioSplitOptions
+): AudioPart[] => {
+  if (samples.length === 0) return [];
+
+  const frameSize = Math.round((sampleRate * FRAME_MS) / 1000);
+  const maxFrames = Math.max(1, Math.floor((options.maxPartSeconds * 1000) / FRAME_MS));
+  const searchFrames = Math.min(
+    maxFrames - 1,
+    Math.floor(((options.searchSeconds ?? DEFAULT_SEARCH_SECONDS) * 1000) / FRAME_MS)
+  );
+  const pauseFrames = Math.max(1, Math.round((options.pauseMs ?? DEFAULT_PAUSE_MS) / FRAME_MS));
+
+  const energy = cumulativeFrameEnergy(samples, frameSize);
+  const frameCount = energy.length - 1;
+  const cuts: number[] = [];
+
+  let startFrame = 0;
+  while (frameCount - startFrame > maxFrames) {
+    const limit = startFrame + maxFrames;
+    let bestFrame = limit;
+    let bestEnergy = Infinity;
+
+    // Windows that end by the limit, starting no earlier than the search reach
+    for (let from = limit - searchFrames; from + pauseFrames <= limit; from++) {
+      const windowEnergy = energy[from + pauseFrames] - energy[from];
+      if (windowEnergy < bestEnergy) {
+        bestEnergy = windowEnergy;
+        bestFrame = from + Math.floor(pauseFrames / 2);
+      }
+    }
+
+    cuts.push(bestFrame * frameSize);
+    startFrame = bestFrame;
+  }
+
+  const boundaries = [0, ...cuts, samples.length];
+  return boundaries.slice(0, -1).map((start, index) => {
+    const end = boundaries[index + 1];
+    return {
+      index,
+      start,
+      end,
+      startTime: start / sampleRate,
+      duration: (end - start) / sampleRate,
+    };
+  });
+};
@@ -0,0 +1,104 @@
+// 🎯 LectureScript - Bilingual Transcript Helpers
+// Read a segment as 中文 / English columns from its original text and attached translations
+// Author: Peter Levler
+
+import type { ExportFormat } from '../types';
+import type { TranscriptLanguage, TranslationLanguage, SegmentTranslations, TranscriptionWord } from '../types/transcription';
+import { detectTranscriptLanguage } from './transcriptDocument';
+
+/**
+ * The fields the helpers need; shared by TranscriptSegment and TranscriptionSegment
+ */
+export interface TranslatableSegment {
+  text: string;
+  language?: TranscriptLanguage;
+  translations?: SegmentTranslations;
+}
+
+// Exporters that can lay the transcript out as parallel 中文 / English columns
+const BILINGUAL_FORMATS: ExportFormat[] = ['txt', 'md', 'pdf', 'docx', 'notion', 'gdocs', 'odt'];
+
+export const supportsBilingual = (format: ExportFormat): boolean => BILINGUAL_FORMATS.includes(format);
+
+export interface BilingualPair {
+  zh?: string;
+  en?: string;
+  /** Which column shows the transcribed text rather than a translation */
+  original: TranslationLanguage;
+}
+
+export const segmentLanguage = (segment: TranslatableSegment): TranscriptLanguage =>
+  segment.language ?? detectTranscriptLanguage(segment.text);
+
+/**
+ * Languages a segment still needs for both columns. Code-switched segments are kept as spoken
+ * in the 中文 column and get a full English translation, plus a Chinese one for the 中文-only export.
+ */
+export const translationTargets = (segment: TranslatableSegment): TranslationLanguage[] => {
+  switch (segmentLanguage(segment)) {
+    case 'zh':
+      return ['en'];
+    case 'en':
+      return ['zh'];
+    case 'mixed':
+    default:
+      return ['zh', 'en'];
+  }
+};
+
+export const bilingualPair = (segment: TranslatableSegment): BilingualPair => {
+  const language = segmentLanguage(segment);
+  const translations = segment.translations || {};
+
+  if (language === 'en') {
+    return { zh: translations.zh, en: segment.text, original: 'en' };
+  }
+  return { zh: segment.text, en: translations.en, original: 'zh' };
+};
+
+/**
+ * Text of a segment in one language: the original when it's already in that language, otherwise
+ * its translation. Undefined when neither is available.
+ */
+export const textIn = (segment: TranslatableSegment, language: TranslationLanguage): string | undefined => {
+  const own = segmentLanguage(segment);
+  if (own === language) return segment.text;
+  if (segment.translations?.[language]) return segment.translations[language];
+  // A code-switched segment without translations still has to appear in the 中文 export
+  return own === 'mixed' && language === 'zh' ? segment.text : undefined;
+};
+
+export const isTranslated = (segment: TranslatableSegment): boolean =>
+  translationTargets(segment).every(target => Boolean(segment.translations?.[target]));
+
+export const hasTranslations = (segments: TranslatableSegment[]): boolean =>
+  segments.some(segment => segment.translations && Object.values(segment.translations).some(Boolean));
+
+/**
+ * Segments for a 中文-only or English-only export. Translated segments appear in the requested
+ * language, so code-switched lectures keep every segment; untranslated transcripts fall back to
+ * keeping the segments written in it.
+ */
+export const segmentsInLanguage = <T extends TranslatableSegment & { words?: TranscriptionWord[] }>(
+  segments: T[],
+  language: TranslationLanguage | 'both'
+): T[] => {
+  if (language === 'both') {
+    return segments;
+  }
+
+  if (segments.some(segment => segment.translations?.[language])) {
+    return segments.flatMap(segment => {
+      const text = textIn(segment, language);
+      if (!text) return [];
+      // Word timings belong to the spoken text, not to a translation of it
+      return [text === segment.text ? segment : { ...segment, text, words: undefined }];
+    });
+  }
+
+  return segments.filter(segment => {
+    const isChineseText = /[\u4e00-\u9fff]/.test(segment.text);
+    const isEnglishText = /[a-zA-Z]/.test(segment.text);
+    return language === 'zh' ? isChineseText : isEnglishText && !isChineseText;
+  });
+};
@@ -0,0 +1,191 @@
+// 🎯 LectureScript - Course Timetable
+// Match new recordings to a course by timetable and slide title, and measure a course's coverage
+// Author: Peter Levler
+
+import type { RecordingEntry, Course, CourseMeeting, CourseProgress, Term } from '../types/library';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Lectures start late and overrun; a recording this close to a meeting still belongs to it
+const MEETING_GRACE_MINUTES = 15;
+
+// Codes shorter than this ("EC") would match inside unrelated words
+const MIN_CODE_LENGTH = 4;
+const MIN_NAME_LENGTH = 6;
+
+export type CourseMatchReason = 'timetable' | 'slides' | 'timetable+slides';
+
+export interface CourseMatch {
+  courseId: string;
+  reason: CourseMatchReason;
+}
+
+const minutesOf = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+const startOfDay = (time: number): number => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+};
+
+/**
+ * Recordings are saved when they stop, so the lecture began `duration` earlier. Study uploads are
+ * dated when they were uploaded and rarely fall inside a meeting; slide titles catch those.
+ */
+export const lectureInterval = (recording: Pick<RecordingEntry, 'dateCreated' | 'duration'>): [number, number] =>
+  [recording.dateCreated - recording.duration * 1000, recording.dateCreated];
+
+export const isWithinTerm = (term: Term, time: number): boolean =>
+  time >= term.startDate && time < term.endDate + DAY_MS;
+
+/**
+ * The meeting of this course that the interval overlaps, if any
+ */
+export const meetingDuring = (course: Course, [start, end]: [number, number]): CourseMeeting | undefined => {
+  const day = new Date(start);
+  const dayStart = startOfDay(start);
+  const grace = MEETING_GRACE_MINUTES * 60 * 1000;
+
+  return course.schedule.find(meeting => {
+    if (meeting.dayOfWeek !== day.getDay()) return false;
+    const meetingStart = dayStart + minutesOf(meeting.startTime) * 60 * 1000 - grace;
+    const meetingEnd = dayStart + minutesOf(meeting.endTime) * 60 * 1000 + grace;
+    return start < meetingEnd && end > meetingStart;
+  });
+};
+
+const normalizeCode = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Slide decks are usually named after the course: "FINA 3080 Lecture 5.pdf", "Options Pricing - Week 3"
+ */
+export const slidesMention = (course: Course, slideTitle: string): boolean => {
+  const code = normalizeCode(course.code);
+  if (code.length >= MIN_CODE_LENGTH && normalizeCode(slideTitle).includes(code)) return true;
+
+  const name = course.name.trim().toLowerCase();
+  return name.length >= MIN_NAME_LENGTH && slideTitle.toLowerCase().includes(name);
+};
+
+/**
+ * Pick the course a new recording belongs to. The timetable and the slide title are each enough
+ * on their own when they point at a single course; when both match, they have to agree.
+ */
+export const matchCourse = (
+  recording: Pick<RecordingEntry, 'dateCreated' | 'duration' | 'pdfContext' | 'pdfFileName'>,
+  courses: Course[],
+  terms: Term[]
+): CourseMatch | null => {
+  const interval = lectureInterval(recording);
+  const termsById = new Map(terms.map(term => [term.id, term]));
+
+  // Courses of other terms can share a timetable slot
+  const active = courses.filter(course => {
+    const term = course.termId ? termsById.get(course.termId) : undefined;
+    return !term || isWithinTerm(term, interval[0]);
+  });
+
+  const byTimetable = active.filter(course => meetingDuring(course, interval));
+
+  const slideTitles = [recording.pdfContext?.title, recording.pdfFileName].filter((title): title is string => Boolean(title));
+  const bySlides = active.filter(course => slideTitles.some(title => slidesMention(course, title)));
+
+  const both = byTimetable.filter(course => bySlides.includes(course));
+  if (both.length === 1) return { courseId: both[0].id, reason: 'timetable+slides' };
+  if (byTimetable.length === 1 && bySlides.length === 0) return { courseId: byTimetable[0].id, reason: 'timetable' };
+  if (bySlides.length === 1 && byTimetable.length === 0) return { courseId: bySlides[0].id, reason: 'slides' };
+  return null;
+};
+
+/**
+ * 1-based teaching week of a time; week 1 is the seven days from the term's first day
+ */
+export const termWeek = (term: Term, time: number): number =>
+  Math.floor(Math.round((startOfDay(time) - startOfDay(term.startDate)) / DAY_MS) / 7) + 1;
+
+/**
+ * Number of scheduled meetings per teaching week, from the start of term until `until`
+ */
+export const scheduledMeetingsByWeek = (course: Course, term: Term, until: number): Map<number, number> => {
+  const weeks = new Map<number, number>();
+  const first = new Date(term.startDate);
+  const last = Math.min(term.endDate, until);
+
+  // Step by calendar day rather than 24h, which drifts across daylight saving changes
+  for (let offset = 0; ; offset++) {
+    const day = new Date(first.getFullYear(), first.getMonth(), first.getDate() + offset);
+    if (day.getTime() > last) break;
+
+    const week = termWeek(term, day.getTime());
+    if (term.breakWeeks?.includes(week)) continue;
+
+    const meetings = course.schedule.filter(meeting => meeting.dayOfWeek === day.getDay()).length;
+    if (meetings > 0) {
+      weeks.set(week, (weeks.get(week) || 0) + meetings);
+    }
+  }
+
+  return weeks;
+};
+
+/**
+ * Hours recorded, and how many of the meetings held so far have a recording. A week counts as
+ * covered up to the number of recordings made in it, so an uploaded make-up lecture still counts.
+ */
+export const courseProgress = (
+  course: Course,
+  term: Term | undefined,
+  recordings: RecordingEntry[],
+  now: number = Date.now()
+): CourseProgress => {
+  const totalHours = recordings.reduce((sum, recording) => sum + recording.duration, 0) / 3600;
+
+  if (!term || course.schedule.length === 0) {
+    return {
+      lectureCount: recordings.length,
+      totalHours,
+      scheduledMeetings: 0,
+      recordedMeetings: 0,
+      coverage: 0,
+      missingWeeks: [],
+    };
+  }
+
+  const scheduled = scheduledMeetingsByWeek(course, term, now);
+  const recordedByWeek = new Map<number, number>();
+  recordings.forEach(recording => {
+    const week = termWeek(term, lectureInterval(recording)[0]);
+    recordedByWeek.set(week, (recordedByWeek.get(week) || 0) + 1);
+  });
+
+  let scheduledMeetings = 0;
+  let recordedMeetings = 0;
+  const missingWeeks: number[] = [];
+
+  Array.from(scheduled.entries())
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([week, meetings]) => {
+      const recorded = Math.min(meetings, recordedByWeek.get(week) || 0);
+      scheduledMeetings += meetings;
+      recordedMeetings += recorded;
+      if (recorded === 0) missingWeeks.push(week);
+    });
+
+  return {
+    lectureCount: recordings.length,
+    totalHours,
+    scheduledMeetings,
+    recordedMeetings,
+    coverage: scheduledMeetings > 0 ? recordedMeetings / scheduledMeetings : 0,
+    missingWeeks,
+  };
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const formatSchedule = (schedule: CourseMeeting[]): string =>
+  schedule
+    .map(meeting => `${WEEKDAY_LABELS[meeting.dayOfWeek]} ${meeting.startTime}-${meeting.endTime}`)
+    .join(', ');
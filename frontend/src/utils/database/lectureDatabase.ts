@@ -0,0 +1,294 @@
+// 🎯 LectureScript - Lecture Database
+// Opens the single LectureScript IndexedDB database, running pending migrations with a backup and rollback
+// Author: Peter Levler
+
+import { openDB, deleteDB, type IDBPDatabase } from 'idb';
+import {
+  MIGRATIONS,
+  LEGACY_DATABASES,
+  type DatabaseSnapshot,
+  type Migration,
+  type MigrationContext
+} from './migrations';
+
+export const DATABASE_NAME = 'LectureScriptDB';
+
+const BACKUP_STORE = 'snapshot';
+const BACKUP_KEY = 'latest';
+
+export interface LectureDatabaseOptions {
+  name?: string;
+  /** Databases whose records move into this one when it is first created */
+  legacyNames?: string[];
+  migrations?: Migration[];
+}
+
+export class MigrationError extends Error {
+  fromVersion: number;
+  toVersion: number;
+  cause?: unknown;
+
+  constructor(message: string, fromVersion: number, toVersion: number, cause?: unknown) {
+    super(cause instanceof Error ? `${message}: ${cause.message}` : message);
+    this.name = 'MigrationError';
+    this.fromVersion = fromVersion;
+    this.toVersion = toVersion;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Version of an existing database, or 0 when there is none. Opening without a version would
+ * create a missing database, so that upgrade is aborted before it commits.
+ */
+export const peekVersion = async (name: string): Promise<number> => {
+  if (typeof indexedDB.databases === 'function') {
+    const databases = await indexedDB.databases();
+    return databases.find(database => database.name === name)?.version ?? 0;
+  }
+
+  try {
+    const db = await openDB(name, undefined, {
+      upgrade(_db, _oldVersion, _newVersion, transaction) {
+        transaction.done.catch(() => undefined);
+        transaction.abort();
+      },
+    });
+    const version = db.version;
+    db.close();
+    return version;
+  } catch {
+    return 0;
+  }
+};
+
+export const takeSnapshot = async (name: string): Promise<DatabaseSnapshot> => {
+  const db = await openDB(name);
+  try {
+    const stores: Record<string, unknown[]> = {};
+    const storeNames = Array.from(db.objectStoreNames);
+
+    if (storeNames.length > 0) {
+      const tx = db.transaction(storeNames, 'readonly');
+      for (const storeName of storeNames) {
+        stores[storeName] = await tx.objectStore(storeName).getAll();
+      }
+      await tx.done;
+    }
+
+    return { name, version: db.version, stores };
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Create object stores the way `migrations` up to `version` leave them, without their transforms
+ */
+const openAtVersion = (name: string, version: number, migrations: Migration[]) =>
+  openDB(name, version, {
+    upgrade(db, oldVersion, _newVersion, transaction) {
+      migrations
+        .filter(migration => migration.version > oldVersion && migration.version <= version)
+        .forEach(migration => migration.schema?.(db, transaction));
+    },
+  });
+
+export class LectureDatabase {
+  private name: string;
+  private legacyNames: string[];
+  private migrations: Migration[];
+  private opening: Promise<IDBPDatabase> | null = null;
+
+  constructor(options: LectureDatabaseOptions = {}) {
+    this.name = options.name ?? DATABASE_NAME;
+    this.legacyNames = options.legacyNames ?? LEGACY_DATABASES;
+    this.migrations = [...(options.migrations ?? MIGRATIONS)].sort((a, b) => a.version - b.version);
+  }
+
+  get version(): number {
+    return this.migrations[this.migrations.length - 1].version;
+  }
+
+  /**
+   * The open database, migrated to the latest version. Every storage manager shares this connection.
+   */
+  open(): Promise<IDBPDatabase> {
+    if (!this.opening) {
+      this.opening = this.openAndMigrate().catch(error => {
+        // Let the next caller try again, e.g. once other tabs have closed
+        this.opening = null;
+        throw error;
+      });
+    }
+    return this.opening;
+  }
+
+  private get backupName(): string {
+    return `${this.name}-backup`;
+  }
+
+  private async openAndMigrate(): Promise<IDBPDatabase> {
+    const target = this.version;
+    const fromVersion = await peekVersion(this.name);
+
+    if (fromVersion === target) {
+      return openDB(this.name, target);
+    }
+    if (fromVersion > target) {
+      // Opened by a newer build; reading its data is better than refusing to start
+      console.warn(`⚠️ ${this.name} is at v${fromVersion}, newer than this build (v${target})`);
+      return openDB(this.name);
+    }
+
+    const context: MigrationContext = { legacy: [] };
+    if (fromVersion === 0) {
+      // The old databases are left alone until their records are verified here, so they are the backup
+      for (const legacyName of this.legacyNames) {
+        if (await peekVersion(legacyName) > 0) {
+          context.legacy.push(await takeSnapshot(legacyName));
+        }
+      }
+    } else {
+      await this.writeBackup(await takeSnapshot(this.name));
+    }
+
+    console.log(`🗄️ Migrating ${this.name} from v${fromVersion} to v${target}`);
+
+    const db = await this.runMigrations(fromVersion, target, context);
+
+    const failed = await this.verify(db, fromVersion, context);
+    if (failed) {
+      db.close();
+      await this.rollback(fromVersion);
+      throw new MigrationError(`Migration ${failed.version} (${failed.description}) failed verification`, fromVersion, target);
+    }
+
+    // Neither the backup nor the old databases are needed once the migrated data checks out
+    const obsolete = [
+      ...(fromVersion > 0 ? [this.backupName] : []),
+      ...context.legacy.map(snapshot => snapshot.name),
+    ];
+    obsolete.forEach(name => {
+      deleteDB(name).catch(error => console.warn(`Could not delete ${name}:`, error));
+    });
+
+    console.log(`✅ ${this.name} is at v${target}`);
+    return db;
+  }
+
+  /**
+   * Run every pending step in one upgrade transaction. If a step throws, the transaction aborts
+   * and IndexedDB leaves the database exactly as it was at `fromVersion`.
+   */
+  private async runMigrations(fromVersion: number, target: number, context: MigrationContext): Promise<IDBPDatabase> {
+    const pending = this.migrations.filter(migration => migration.version > fromVersion);
+    // Set from inside the upgrade callback, which the compiler cannot follow
+    const outcome: { failure: unknown } = { failure: null };
+
+    try {
+      return await openDB(this.name, target, {
+        upgrade(db, _oldVersion, _newVersion, transaction) {
+          // An aborted upgrade is reported by openDB rejecting, not as an unhandled rejection
+          transaction.done.catch(() => undefined);
+
+          const migrate = async () => {
+            for (const migration of pending) {
+              try {
+                migration.schema?.(db, transaction);
+                await migration.transform?.(transaction, context);
+              } catch (error) {
+                throw new MigrationError(`Migration ${migration.version} (${migration.description}) failed`, fromVersion, target, error);
+              }
+            }
+          };
+
+          migrate().catch(error => {
+            outcome.failure = error;
+            try {
+              transaction.abort();
+            } catch {
+              // Already finished or aborted
+            }
+          });
+        },
+        blocked() {
+          console.warn('⏳ Database upgrade is waiting for other LectureScript tabs to close');
+        },
+      });
+    } catch (error) {
+      if (outcome.failure instanceof MigrationError) throw outcome.failure;
+      throw new MigrationError(`Could not migrate ${this.name} to v${target}`, fromVersion, target, outcome.failure ?? error);
+    }
+  }
+
+  /**
+   * First applied migration whose check fails (or throws), if any
+   */
+  private async verify(db: IDBPDatabase, fromVersion: number, context: MigrationContext): Promise<Migration | undefined> {
+    for (const migration of this.migrations.filter(m => m.version > fromVersion && m.verify)) {
+      try {
+        if (!(await migration.verify!(db, context))) return migration;
+      } catch (error) {
+        console.error(`Verifying migration ${migration.version} threw:`, error);
+        return migration;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Put the database back the way the backup found it; a first migration has nothing to restore,
+   * since the old databases were never touched
+   */
+  private async rollback(fromVersion: number): Promise<void> {
+    await deleteDB(this.name);
+    if (fromVersion === 0) return;
+
+    const backup = await this.readBackup();
+    if (!backup) {
+      console.error(`❌ No backup of ${this.name} to restore`);
+      return;
+    }
+
+    const db = await openAtVersion(this.name, backup.version, this.migrations);
+    const storeNames = Object.keys(backup.stores).filter(name => db.objectStoreNames.contains(name));
+    if (storeNames.length > 0) {
+      const tx = db.transaction(storeNames, 'readwrite');
+      for (const storeName of storeNames) {
+        const store = tx.objectStore(storeName);
+        for (const record of backup.stores[storeName]) {
+          await store.put(record);
+        }
+      }
+      await tx.done;
+    }
+    db.close();
+
+    console.log(`↩️ Restored ${this.name} v${backup.version} from backup`);
+  }
+
+  private async writeBackup(snapshot: DatabaseSnapshot): Promise<void> {
+    const db = await openDB(this.backupName, 1, {
+      upgrade(backupDb) {
+        backupDb.createObjectStore(BACKUP_STORE);
+      },
+    });
+    await db.put(BACKUP_STORE, snapshot, BACKUP_KEY);
+    db.close();
+  }
+
+  private async readBackup(): Promise<DatabaseSnapshot | undefined> {
+    if (await peekVersion(this.backupName) === 0) return undefined;
+
+    const db = await openDB(this.backupName);
+    try {
+      return db.objectStoreNames.contains(BACKUP_STORE) ? await db.get(BACKUP_STORE, BACKUP_KEY) : undefined;
+    } finally {
+      db.close();
+    }
+  }
+}
+
+export const lectureDatabase = new LectureDatabase();
+export default lectureDatabase;
@@ -0,0 +1,188 @@
+// 🎯 LectureScript - Database Migrations
+// Ordered schema steps and record transforms for the LectureScript IndexedDB database
+// Author: Peter Levler
+
+import type { IDBPDatabase, IDBPTransaction } from 'idb';
+import type { LectureSession } from '../../types';
+import type { RecordingEntry } from '../../types/library';
+
+export type UpgradeTransaction = IDBPTransaction<unknown, string[], 'versionchange'>;
+
+/**
+ * Every record of a database by store name, read before a migration (backups) or from the
+ * databases that came before this one (legacy import)
+ */
+export interface DatabaseSnapshot {
+  name: string;
+  version: number;
+  stores: Record<string, unknown[]>;
+}
+
+export interface MigrationContext {
+  /** LectureTranscriptionDB and LectureLibraryDB, when they existed before the merged database */
+  legacy: DatabaseSnapshot[];
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  /** Create or change object stores and indexes */
+  schema?: (db: IDBPDatabase<unknown>, tx: UpgradeTransaction) => void;
+  /**
+   * Rewrite existing records. Runs in the upgrade transaction, so it may only await requests on
+   * `tx`: any other await lets the transaction commit underneath it. A throw rolls the whole upgrade back.
+   */
+  transform?: (tx: UpgradeTransaction, context: MigrationContext) => Promise<void>;
+  /** Check the migrated data once the database is open; false restores the backup */
+  verify?: (db: IDBPDatabase<unknown>, context: MigrationContext) => Promise<boolean>;
+}
+
+export const LEGACY_DATABASES = ['LectureTranscriptionDB', 'LectureLibraryDB'];
+
+const createStore = (db: IDBPDatabase<unknown>, name: string, options: IDBObjectStoreParameters) =>
+  db.objectStoreNames.contains(name) ? null : db.createObjectStore(name, options);
+
+/**
+ * Append new steps at the end with the next version number; never edit a step that has shipped,
+ * since databases that already ran it will not run it again
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Sessions, settings, usage stats and temporary audio',
+    schema: db => {
+      const sessionStore = createStore(db, 'sessions', { keyPath: 'id' });
+      sessionStore?.createIndex('timestamp', 'startTime');
+      sessionStore?.createIndex('status', 'status');
+
+      createStore(db, 'settings', { keyPath: 'key' });
+      createStore(db, 'usage', { keyPath: 'id' });
+      createStore(db, 'audio', { keyPath: 'sessionId' });
+    },
+  },
+  {
+    version: 2,
+    description: 'Streaming chunk upload queue, one record per (sessionId, chunkIndex)',
+    schema: db => {
+      const chunkStore = createStore(db, 'chunkQueue', { keyPath: ['sessionId', 'chunkIndex'] });
+      chunkStore?.createIndex('sessionId', 'sessionId');
+      chunkStore?.createIndex('status', 'status');
+    },
+  },
+  {
+    version: 3,
+    description: 'User-defined export templates',
+    schema: db => {
+      const templateStore = createStore(db, 'templates', { keyPath: 'id' });
+      templateStore?.createIndex('updatedAt', 'updatedAt');
+    },
+  },
+  {
+    version: 4,
+    description: 'Library recordings, stats, and recording audio and slide blobs',
+    schema: db => {
+      const recordingStore = createStore(db, 'recordings', { keyPath: 'id' });
+      recordingStore?.createIndex('dateCreated', 'dateCreated');
+      recordingStore?.createIndex('title', 'title');
+      recordingStore?.createIndex('duration', 'duration');
+      recordingStore?.createIndex('wordCount', 'wordCount');
+      recordingStore?.createIndex('tags', 'tags', { multiEntry: true });
+      recordingStore?.createIndex('hasPdfContext', 'pdfContext', { unique: false });
+      recordingStore?.createIndex('hasAudio', 'hasAudio');
+      recordingStore?.createIndex('isFavorited', 'isFavorited');
+      recordingStore?.createIndex('isArchived', 'isArchived');
+
+      createStore(db, 'libraryStats', { keyPath: 'id' });
+      createStore(db, 'recordingAudio', { keyPath: 'recordingId' });
+      createStore(db, 'recordingPdf', { keyPath: 'recordingId' });
+    },
+  },
+  {
+    version: 5,
+    description: 'Full-text search postings per term, and the terms each recording contributed',
+    schema: db => {
+      createStore(db, 'searchTerms', { keyPath: 'term' });
+      createStore(db, 'searchDocs', { keyPath: 'recordingId' });
+    },
+  },
+  {
+    version: 6,
+    description: 'Embedded lecture passages for "ask your lectures"',
+    schema: db => {
+      const chunkStore = createStore(db, 'lectureChunks', { keyPath: 'id' });
+      chunkStore?.createIndex('recordingId', 'recordingId');
+    },
+  },
+  {
+    version: 7,
+    description: 'Courses and terms, with recordings indexed by course',
+    schema: (db, tx) => {
+      const courseStore = createStore(db, 'courses', { keyPath: 'id' });
+      courseStore?.createIndex('termId', 'termId');
+      createStore(db, 'terms', { keyPath: 'id' });
+
+      const recordingStore = tx.objectStore('recordings');
+      if (!recordingStore.indexNames.contains('courseId')) {
+        recordingStore.createIndex('courseId', 'courseId');
+      }
+    },
+  },
+  {
+    version: 8,
+    description: 'Copy LectureTranscriptionDB and LectureLibraryDB into the merged database',
+    transform: async (tx, { legacy }) => {
+      for (const snapshot of legacy) {
+        for (const [storeName, records] of Object.entries(snapshot.stores)) {
+          // Stores an older build created and later dropped have nowhere to go
+          if (!tx.objectStoreNames.contains(storeName)) continue;
+
+          const store = tx.objectStore(storeName);
+          for (const record of records) {
+            await store.put(record);
+          }
+        }
+      }
+    },
+    verify: async (db, { legacy }) => {
+      for (const snapshot of legacy) {
+        for (const [storeName, records] of Object.entries(snapshot.stores)) {
+          if (!db.objectStoreNames.contains(storeName)) continue;
+          if (await db.count(storeName) < records.length) return false;
+        }
+      }
+      return true;
+    },
+  },
+  {
+    version: 9,
+    description: 'Fill in fields that recordings and sessions saved by early builds lack',
+    transform: async tx => {
+      let cursor = await tx.objectStore('recordings').openCursor();
+      while (cursor) {
+        const recording = cursor.value as RecordingEntry;
+        await cursor.update({
+          ...recording,
+          tags: Array.isArray(recording.tags) ? recording.tags : [],
+          keyTopics: Array.isArray(recording.keyTopics) ? recording.keyTopics : [],
+          isFavorited: Boolean(recording.isFavorited),
+          isArchived: Boolean(recording.isArchived),
+          exportCount: recording.exportCount || 0,
+          source: recording.source || (recording.transcriptId ? 'study' : 'live'),
+        });
+        cursor = await cursor.continue();
+      }
+
+      let sessionCursor = await tx.objectStore('sessions').openCursor();
+      while (sessionCursor) {
+        const session = sessionCursor.value as LectureSession;
+        await sessionCursor.update({
+          ...session,
+          segments: Array.isArray(session.segments) ? session.segments : [],
+        });
+        sessionCursor = await sessionCursor.continue();
+      }
+    },
+  },
+];
+
+export const DATABASE_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
@@ -0,0 +1,273 @@
+import type { TranscriptionSegment } from '../../types/transcription';
+
+// Anki text import (2.1.55+): file headers pick the separator, note type and deck per row, so
+// Basic and Cloze notes share one file. Import via File > Import.
+
+export type AnkiNoteType = 'Basic' | 'Cloze';
+
+export interface AnkiNote {
+  type: AnkiNoteType;
+  fields: [string, string]; // Basic: Front, Back. Cloze: Text, Back Extra. HTML.
+  tags: string[];
+}
+
+export interface AnkiDeckInput {
+  title: string;
+  segments: TranscriptionSegment[];
+  concepts: string[];
+  questions: string[];
+  // URL that opens the recording at `seconds`
+  linkFor: (seconds: number) => string;
+}
+
+export interface TranscriptExcerpt {
+  text: string;
+  start: number;
+}
+
+const MAX_EXCERPT_LENGTH = 220;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'her', 'was', 'one', 'our',
+  'out', 'has', 'his', 'how', 'its', 'may', 'new', 'now', 'see', 'way', 'who', 'did', 'get',
+  'let', 'use', 'that', 'with', 'have', 'this', 'will', 'your', 'from', 'they', 'what', 'when',
+  'which', 'their', 'there', 'about', 'would', 'these', 'other', 'into', 'more', 'some', 'than',
+  'then', 'them', 'does', 'explain', 'describe', 'why', 'between', 'difference',
+]);
+
+const CJK_CHAR = /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/;
+const SENTENCE = /[^.!?\u3002\uff01\uff1f]+[.!?\u3002\uff01\uff1f]*/g;
+
+const escapeHTML = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Latin words (3+ letters, no stop words) and CJK bigrams, lower-cased
+ */
+const searchTerms = (text: string): string[] => {
+  const terms: string[] = [];
+  const lower = text.toLowerCase();
+
+  for (const word of lower.match(/[a-z][a-z0-9'-]{2,}/g) || []) {
+    if (!STOP_WORDS.has(word)) terms.push(word);
+  }
+
+  const cjk = Array.from(lower).filter(char => CJK_CHAR.test(char));
+  for (let i = 0; i < cjk.length - 1; i++) {
+    terms.push(cjk[i] + cjk[i + 1]);
+  }
+  if (cjk.length === 1) terms.push(cjk[0]);
+
+  return Array.from(new Set(terms));
+};
+
+const formatTimestamp = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  const mm = hours > 0 ? minutes.toString().padStart(2, '0') : String(minutes);
+  return `${hours > 0 ? `${hours}:` : ''}${mm}:${secs.toString().padStart(2, '0')}`;
+};
+
+export class AnkiFormatter {
+  /**
+   * Concept cards (term -> definition and where it was said), question cards (question ->
+   * the passage that answers it) and cloze cards (the passage with the term blanked out)
+   */
+  static buildNotes(input: AnkiDeckInput): AnkiNote[] {
+    const notes: AnkiNote[] = [];
+    const baseTags = ['lecturescript', this.tagFor(input.title)];
+    const seen = new Set<string>();
+
+    for (const concept of input.concepts) {
+      const { term, definition } = this.splitConcept(concept);
+      const key = term.toLowerCase();
+      if (!term || seen.has(key)) continue;
+      seen.add(key);
+
+      const literal = this.findLiteral(input.segments, term);
+      const excerpt = literal || this.findExcerpt(input.segments, `${term} ${definition}`);
+
+      const back = [
+        definition ? escapeHTML(definition) : '',
+        excerpt ? this.renderExcerpt(excerpt, input) : '',
+      ].filter(Boolean).join('<br><br>');
+
+      if (back) {
+        notes.push({
+          type: 'Basic',
+          fields: [`<b>${escapeHTML(term)}</b>`, back],
+          tags: [...baseTags, 'concept'],
+        });
+      }
+
+      if (literal) {
+        const pattern = new RegExp(escapeRegExp(escapeHTML(term)), 'i');
+        const cloze = escapeHTML(literal.text).replace(pattern, match => `{{c1::${match}}}`);
+        notes.push({
+          type: 'Cloze',
+          fields: [cloze, this.renderLink(literal.start, input)],
+          tags: [...baseTags, 'cloze'],
+        });
+      }
+    }
+
+    for (const question of input.questions) {
+      const text = question.trim();
+      if (!text || seen.has(text.toLowerCase())) continue;
+      seen.add(text.toLowerCase());
+
+      const excerpt = this.findExcerpt(input.segments, text);
+      notes.push({
+        type: 'Basic',
+        fields: [
+          escapeHTML(text),
+          excerpt ? this.renderExcerpt(excerpt, input) : '<i>Review this question against your notes.</i>',
+        ],
+        tags: [...baseTags, 'question'],
+      });
+    }
+
+    return notes;
+  }
+
+  /**
+   * Tab-separated note file with Anki's import headers
+   */
+  static toTSV(notes: AnkiNote[], deckName: string): string {
+    const header = [
+      '#separator:tab',
+      '#html:true',
+      '#notetype column:1',
+      '#deck column:2',
+      '#tags column:5',
+    ];
+
+    const rows = notes.map(note => [
+      note.type,
+      deckName,
+      ...note.fields,
+      note.tags.join(' '),
+    ].map(field => this.cleanField(field)).join('\t'));
+
+    return `${[...header, ...rows].join('\n')}\n`;
+  }
+
+  static deckName(title: string): string {
+    // "::" makes a sub-deck, so every lecture lands under one parent deck
+    return `LectureScript::${title.replace(/::/g, ':').replace(/[\t\n\r]/g, ' ').trim() || 'Lecture'}`;
+  }
+
+  /**
+   * The sentence containing `term`, so the cloze blanks a real use of it
+   */
+  static findLiteral(segments: TranscriptionSegment[], term: string): TranscriptExcerpt | null {
+    const needle = term.toLowerCase();
+
+    for (const segment of segments) {
+      const index = segment.text.toLowerCase().indexOf(needle);
+      if (index === -1) continue;
+
+      for (const match of segment.text.matchAll(SENTENCE)) {
+        const from = match.index ?? 0;
+        if (index >= from && index < from + match[0].length) {
+          return this.excerptAt(segment, from, match[0]);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * The sentence sharing the most search terms with `query`
+   */
+  static findExcerpt(segments: TranscriptionSegment[], query: string): TranscriptExcerpt | null {
+    const terms = searchTerms(query);
+    if (terms.length === 0) return null;
+
+    let best: { segment: TranscriptionSegment; from: number; text: string; score: number } | null = null;
+
+    for (const segment of segments) {
+      for (const match of segment.text.matchAll(SENTENCE)) {
+        const sentence = match[0].toLowerCase();
+        const score = terms.filter(term => sentence.includes(term)).length;
+        if (score > 0 && (!best || score > best.score)) {
+          best = { segment, from: match.index ?? 0, text: match[0], score };
+        }
+      }
+    }
+
+    // One shared word out of many is a coincidence, not an answer
+    if (!best || (terms.length > 3 && best.score < 2)) return null;
+    return this.excerptAt(best.segment, best.from, best.text);
+  }
+
+  /**
+   * Excerpt timing comes from word timings when available, else from the position in the segment
+   */
+  private static excerptAt(segment: TranscriptionSegment, offset: number, sentence: string): TranscriptExcerpt {
+    let text = sentence.trim();
+    if (text.length > MAX_EXCERPT_LENGTH) {
+      text = `${text.slice(0, MAX_EXCERPT_LENGTH).trimEnd()}…`;
+    }
+
+    let start = segment.start;
+    const words = segment.words || [];
+    if (words.length > 0) {
+      // Find each word in the text in turn, so `offset` maps to the word written there;
+      // words the text spells differently are skipped
+      const text = segment.text.toLowerCase();
+      let position = 0;
+      const word = words.find(candidate => {
+        const token = candidate.word.trim().toLowerCase();
+        const at = token ? text.indexOf(token, position) : -1;
+        if (at === -1) return false;
+        position = at + token.length;
+        return position > offset;
+      });
+      start = word?.start ?? segment.start;
+    } else if (segment.text.length > 0) {
+      start = segment.start + ((segment.end - segment.start) * offset) / segment.text.length;
+    }
+
+    return { text, start: Math.max(0, Math.floor(start)) };
+  }
+
+  private static renderExcerpt(excerpt: TranscriptExcerpt, input: AnkiDeckInput): string {
+    return `<i>“${escapeHTML(excerpt.text)}”</i><br>${this.renderLink(excerpt.start, input)}`;
+  }
+
+  private static renderLink(seconds: number, input: AnkiDeckInput): string {
+    return `<a href="${escapeHTML(input.linkFor(seconds))}">▶ ${formatTimestamp(seconds)} · ${escapeHTML(input.title)}</a>`;
+  }
+
+  /**
+   * "Term: definition", "Term - definition" or just "Term"
+   */
+  private static splitConcept(concept: string): { term: string; definition: string } {
+    const match = concept.trim().match(/^(.{1,80}?)\s*(?:[:\uff1a]|\s[-\u2013\u2014]\s)\s*(.+)$/);
+    if (match) {
+      return { term: match[1].replace(/^\*\*|\*\*$/g, '').trim(), definition: match[2].trim() };
+    }
+    return { term: concept.replace(/^\*\*|\*\*$/g, '').trim(), definition: '' };
+  }
+
+  private static tagFor(title: string): string {
+    return title.trim().replace(/\s+/g, '_').replace(/[^\w\u3400-\u9fff-]/g, '').slice(0, 40) || 'lecture';
+  }
+
+  /**
+   * Fields may not contain the separator or raw line breaks
+   */
+  private static cleanField(field: string): string {
+    return field.replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+  }
+}
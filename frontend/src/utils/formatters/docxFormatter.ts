@@ -1,4 +1,38 @@
 import type { LectureSession, ExportOptions, TranscriptSegment } from '../../types';
+import { ZipWriter } from '../zipWriter';
+import { bilingualPair } from '../bilingual';
+
+// OOXML namespaces
+const NS_W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_PKG_REL = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Latin text in Calibri, Chinese in JhengHei (Traditional, as used in Hong Kong) with PMingLiU
+// as the fallback Word picks on machines without it
+const LATIN_FONT = 'Calibri';
+const EAST_ASIA_FONT = 'Microsoft JhengHei';
+
+// Twentieths of a point; A4 with 2.54cm margins
+const PAGE_WIDTH = 11906;
+const PAGE_HEIGHT = 16838;
+const PAGE_MARGIN = 1440;
+const TEXT_WIDTH = PAGE_WIDTH - PAGE_MARGIN * 2;
+const TIMESTAMP_COLUMN = 1300;
+const LABEL_COLUMN = 2600;
+
+const BULLET_NUM_ID = 1;
+
+interface DocxOptions {
+  includeTimestamps: boolean;
+  includeSummary: boolean;
+  includeMetadata: boolean;
+  includeBranding: boolean;
+  layout: string;
+  bilingual: boolean;
+}
 
 export class DOCXFormatter {
   static async generateDOCX(
@@ -6,18 +40,18 @@ export class DOCXFormatter {
     segments: TranscriptSegment[],
     options: ExportOptions
   ): Promise<{ data: Blob; filename: string; mimeType: string }> {
-    const { includeTimestamps, includeSummary, includeMetadata, layout = 'professional' } = options;
+    const { includeTimestamps, includeSummary, includeMetadata, includeBranding = true, layout = 'professional' } = options;
 
-    // Generate Word-compatible XML content
-    const wordXML = this.generateWordXML(session, segments, {
+    const documentXML = this.generateWordXML(session, segments, {
       includeTimestamps,
       includeSummary,
       includeMetadata,
-      layout
+      includeBranding,
+      layout,
+      bilingual: options.language === 'both' && Boolean(options.bilingual)
     });
 
-    // Create DOCX file structure
-    const docxBlob = await this.createDOCXBlob(wordXML, session.name);
+    const docxBlob = await this.createDOCXBlob(documentXML, session);
 
     return {
       data: docxBlob,
@@ -26,324 +60,370 @@ export class DOCXFormatter {
     };
   }
 
+  /**
+   * word/document.xml
+   */
   private static generateWordXML(
     session: LectureSession,
     segments: TranscriptSegment[],
-    options: {
-      includeTimestamps: boolean;
-      includeSummary: boolean;
-      includeMetadata: boolean;
-      layout: string;
-    }
+    options: DocxOptions
   ): string {
-    const { includeTimestamps, includeSummary, includeMetadata, layout } = options;
-
-    // Word document XML structure
-    let xml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
-<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
-  <w:body>`;
+    const { includeTimestamps, includeSummary, includeMetadata, includeBranding, layout, bilingual } = options;
+    const body: string[] = [];
 
-    // Title
-    xml += this.createWordTitle(session.name);
+    body.push(this.paragraph(session.name, { style: 'Title' }));
+    body.push(this.paragraph(new Date(session.startTime).toLocaleString('zh-HK'), { style: 'Subtitle' }));
 
-    // Metadata
     if (includeMetadata) {
-      xml += this.createWordMetadata(session);
+      body.push(this.paragraph('講座資訊 Lecture Information', { style: 'Heading1' }));
+      body.push(this.createMetadataTable(session));
     }
 
-    // Summary
     if (includeSummary && session.summary) {
-      xml += this.createWordSummary(session.summary);
+      body.push(this.paragraph('講座摘要 Summary', { style: 'Heading1' }));
+      session.summary
+        .split(/\n{2,}/)
+        .filter(text => text.trim())
+        .forEach(text => body.push(this.paragraph(text.trim(), { style: 'Summary' })));
     }
 
-    // Transcript header
-    xml += this.createWordHeader('完整逐字稿 Full Transcript');
+    if (includeSummary && session.keyTopics && session.keyTopics.length > 0) {
+      body.push(this.paragraph('重點 Key Topics', { style: 'Heading1' }));
+      session.keyTopics.forEach(topic => body.push(this.paragraph(topic, { style: 'ListParagraph', bullet: true })));
+    }
 
-    // Transcript content
-    segments.forEach(segment => {
-      xml += this.createWordParagraph(
-        segment,
-        includeTimestamps,
-        layout
-      );
-    });
+    body.push(this.paragraph('完整逐字稿 Full Transcript', { style: 'Heading1' }));
+
+    if (segments.length === 0) {
+      body.push(this.paragraph('(No transcript content)', { style: 'Caption' }));
+    } else if (bilingual) {
+      body.push(this.createBilingualTable(segments, layout, includeTimestamps));
+    } else if (includeTimestamps) {
+      body.push(this.createTranscriptTable(segments, layout));
+    } else {
+      segments.forEach((segment, index) => {
+        if (layout === 'academic') {
+          body.push(this.paragraph(`Segment ${index + 1}`, { style: 'Heading2' }));
+        }
+        body.push(this.segmentParagraph(segment));
+      });
+    }
 
-    // Footer
-    xml += this.createWordFooter();
+    if (includeBranding) {
+      body.push(this.paragraph(
+        `Generated by LectureScript on ${new Date().toLocaleString('zh-HK')}`,
+        { style: 'Caption', align: 'center', spaceBefore: 480 }
+      ));
+    }
 
-    xml += `
+    return `${XML_HEADER}<w:document xmlns:w="${NS_W}" xmlns:r="${NS_R}">
+  <w:body>
+${body.join('\n')}
+    <w:sectPr>
+      <w:footerReference w:type="default" r:id="rIdFooter1"/>
+      <w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/>
+      <w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="708" w:footer="708" w:gutter="0"/>
+      <w:cols w:space="708"/>
+    </w:sectPr>
   </w:body>
 </w:document>`;
-
-    return xml;
-  }
-
-  private static createWordTitle(title: string): string {
-    return `
-    <w:p>
-      <w:pPr>
-        <w:jc w:val="center"/>
-        <w:spacing w:after="240"/>
-      </w:pPr>
-      <w:r>
-        <w:rPr>
-          <w:sz w:val="32"/>
-          <w:szCs w:val="32"/>
-          <w:b/>
-          <w:color w:val="1F4E79"/>
-        </w:rPr>
-        <w:t>${this.escapeXML(title)}</w:t>
-      </w:r>
-    </w:p>`;
   }
 
-  private static createWordMetadata(session: LectureSession): string {
-    const startDate = new Date(session.startTime).toLocaleString('zh-HK');
-    const duration = this.formatDuration(session.duration);
-    const wordCount = session.segments.reduce((acc, seg) => acc + seg.text.split(' ').length, 0);
+  private static createMetadataTable(session: LectureSession): string {
     const languageMap = {
       'zh': '中文',
       'en': 'English',
       'mixed': '中英文混合'
     };
 
-    return `
-    <w:p>
-      <w:pPr>
-        <w:spacing w:after="160"/>
-        <w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/>
-        <w:ind w:left="144" w:right="144"/>
-      </w:pPr>
-      <w:r>
-        <w:rPr>
-          <w:b/>
-          <w:color w:val="2F5496"/>
-        </w:rPr>
-        <w:t>講座資訊 Lecture Information</w:t>
-      </w:r>
-    </w:p>
-    <w:p>
-      <w:pPr>
-        <w:spacing w:after="80"/>
-        <w:ind w:left="288"/>
-      </w:pPr>
-      <w:r>
-        <w:rPr>
-          <w:b/>
-        </w:rPr>
-        <w:t>日期 Date: </w:t>
-      </w:r>
-      <w:r>
-        <w:t>${this.escapeXML(startDate)}</w:t>
-      </w:r>
-    </w:p>
-    <w:p>
-      <w:pPr>
-        <w:spacing w:after="80"/>
-        <w:ind w:left="288"/>
-      </w:pPr>
-      <w:r>
-        <w:rPr>
-          <w:b/>
-        </w:rPr>
-        <w:t>時長 Duration: </w:t>
-      </w:r>
-      <w:r>
-        <w:t>${duration}</w:t>
-      </w:r>
-    </w:p>
-    <w:p>
-      <w:pPr>
-        <w:spacing w:after="80"/>
-        <w:ind w:left="288"/>
-      </w:pPr>
-      <w:r>
-        <w:rPr>
-          <w:b/>
-        </w:rPr>
-        <w:t>字數 Word Count: </w:t>
-      </w:r>
-      <w:r>
-        <w:t>${wordCount} words</w:t>
-      </w:r>
-    </w:p>
-    <w:p>
-      <w:pPr>
-        <w:spacing w:after="80"/>
-        <w:ind w:left="288"/>
-      </w:pPr>
-      <w:r>
-        <w:rPr>
-          <w:b/>
-        </w:rPr>
-        <w:t>語言 Language: </w:t>
-      </w:r>
-      <w:r>
-        <w:t>${languageMap[session.language] || session.language}</w:t>
-      </w:r>
-    </w:p>
-    <w:p>
-      <w:pPr>
-        <w:spacing w:after="240"/>
-        <w:ind w:left="288"/>
-      </w:pPr>
-      <w:r>
-        <w:rPr>
-          <w:b/>
-        </w:rPr>
-        <w:t>成本 Cost: </w:t>
-      </w:r>
-      <w:r>
-        <w:t>$${session.cost.toFixed(4)}</w:t>
-      </w:r>
-    </w:p>`;
+    const rows: Array<[string, string]> = [
+      ['日期 Date', new Date(session.startTime).toLocaleString('zh-HK')],
+      ['時長 Duration', this.formatDuration(session.duration)],
+      ['字數 Word Count', `${session.wordCount.toLocaleString()} words`],
+      ['語言 Language', languageMap[session.language] || session.language],
+      ['成本 Cost', `$${session.cost.toFixed(4)}`],
+    ];
+
+    return this.table(
+      [LABEL_COLUMN, TEXT_WIDTH - LABEL_COLUMN],
+      rows.map(([label, value]) => [
+        this.paragraph(label, { style: 'TableLabel' }),
+        this.paragraph(value, { style: 'TableText' }),
+      ]),
+      { style: 'LectureTable' }
+    );
   }
 
-  private static createWordSummary(summary: string): string {
-    return `
-    <w:p>
-      <w:pPr>
-        <w:spacing w:after="160"/>
-      </w:pPr>
-      <w:r>
-        <w:rPr>
-          <w:sz w:val="24"/>
-          <w:szCs w:val="24"/>
-          <w:b/>
-          <w:color w:val="2F5496"/>
-        </w:rPr>
-        <w:t>📋 講座摘要 Summary</w:t>
-      </w:r>
-    </w:p>
-    <w:p>
-      <w:pPr>
-        <w:spacing w:after="240"/>
-        <w:shd w:val="clear" w:color="auto" w:fill="E7F3FF"/>
-        <w:ind w:left="144" w:right="144"/>
-      </w:pPr>
-      <w:r>
-        <w:t>${this.escapeXML(summary)}</w:t>
-      </w:r>
-    </w:p>`;
+  /**
+   * Two-column transcript: timestamps on the left, text on the right. The header row repeats
+   * on every page.
+   */
+  private static createTranscriptTable(segments: TranscriptSegment[], layout: string): string {
+    const header = [
+      this.paragraph('時間 Time', { style: 'TableLabel' }),
+      this.paragraph('內容 Transcript', { style: 'TableLabel' }),
+    ];
+
+    const rows = segments.map(segment => [
+      this.paragraph(this.formatTimestamp(segment.timestamp), { style: 'Timestamp' }),
+      this.segmentParagraph(segment, 'TableText'),
+    ]);
+
+    return this.table(
+      [TIMESTAMP_COLUMN, TEXT_WIDTH - TIMESTAMP_COLUMN],
+      rows,
+      { style: layout === 'clean' ? 'TranscriptPlain' : 'LectureTable', header }
+    );
   }
 
-  private static createWordHeader(text: string): string {
-    return `
-    <w:p>
-      <w:pPr>
-        <w:spacing w:after="160"/>
-        <w:pBdr>
-          <w:bottom w:val="single" w:sz="6" w:space="1" w:color="2F5496"/>
-        </w:pBdr>
-      </w:pPr>
-      <w:r>
-        <w:rPr>
-          <w:sz w:val="24"/>
-          <w:szCs w:val="24"/>
-          <w:b/>
-          <w:color w:val="2F5496"/>
-        </w:rPr>
-        <w:t>${this.escapeXML(text)}</w:t>
-      </w:r>
-    </w:p>`;
+  /**
+   * Parallel 中文 / English columns, with the timestamp column when timestamps are on. A segment
+   * without a translation leaves its cell empty rather than repeating the original.
+   */
+  private static createBilingualTable(segments: TranscriptSegment[], layout: string, includeTimestamps: boolean): string {
+    const timeColumn = includeTimestamps ? [TIMESTAMP_COLUMN] : [];
+    const textColumn = Math.floor((TEXT_WIDTH - (includeTimestamps ? TIMESTAMP_COLUMN : 0)) / 2);
+
+    const header = [
+      ...(includeTimestamps ? [this.paragraph('時間 Time', { style: 'TableLabel' })] : []),
+      this.paragraph('中文', { style: 'TableLabel' }),
+      this.paragraph('English', { style: 'TableLabel' }),
+    ];
+
+    const rows = segments.map(segment => {
+      const pair = bilingualPair(segment);
+      return [
+        ...(includeTimestamps ? [this.paragraph(this.formatTimestamp(segment.timestamp), { style: 'Timestamp' })] : []),
+        this.segmentParagraph(segment, 'TableText', pair.zh),
+        this.segmentParagraph(segment, 'TableText', pair.en),
+      ];
+    });
+
+    return this.table(
+      [...timeColumn, textColumn, textColumn],
+      rows,
+      { style: layout === 'clean' ? 'TranscriptPlain' : 'LectureTable', header }
+    );
   }
 
-  private static createWordParagraph(
-    segment: TranscriptSegment,
-    includeTimestamps: boolean,
-    layout: string
-  ): string {
-    let paragraph = `
-    <w:p>
-      <w:pPr>
-        <w:spacing w:after="120"/>
-      </w:pPr>`;
-
-    // Add timestamp if requested
-    if (includeTimestamps) {
-      const timestamp = this.formatTimestamp(segment.timestamp);
-      paragraph += `
-      <w:r>
-        <w:rPr>
-          <w:shd w:val="clear" w:color="auto" w:fill="E3F2FD"/>
-          <w:color w:val="1565C0"/>
-          <w:sz w:val="16"/>
-          <w:szCs w:val="16"/>
-        </w:rPr>
-        <w:t>[${timestamp}] </w:t>
-      </w:r>`;
+  private static segmentParagraph(segment: TranscriptSegment, style = 'Normal', text: string | undefined = segment.text): string {
+    const runs: string[] = [];
+    if (segment.speaker && text) {
+      runs.push(this.run(`${segment.speaker}: `, 'SpeakerChar'));
     }
+    runs.push(this.run((text || '').trim()));
 
-    // Add speaker if available
-    if (segment.speaker) {
-      paragraph += `
-      <w:r>
-        <w:rPr>
-          <w:b/>
-          <w:color w:val="D32F2F"/>
-        </w:rPr>
-        <w:t>${this.escapeXML(segment.speaker)}: </w:t>
-      </w:r>`;
-    }
+    return `    <w:p><w:pPr><w:pStyle w:val="${style}"/></w:pPr>${runs.join('')}</w:p>`;
+  }
 
-    // Add main text
-    paragraph += `
-      <w:r>
-        <w:t>${this.escapeXML(segment.text)}</w:t>
-      </w:r>
-    </w:p>`;
+  // XML building blocks
 
-    return paragraph;
+  private static paragraph(
+    text: string,
+    options: { style?: string; align?: 'left' | 'center' | 'right'; bullet?: boolean; spaceBefore?: number } = {}
+  ): string {
+    const properties: string[] = [];
+    if (options.style) properties.push(`<w:pStyle w:val="${options.style}"/>`);
+    if (options.bullet) properties.push(`<w:numPr><w:ilvl w:val="0"/><w:numId w:val="${BULLET_NUM_ID}"/></w:numPr>`);
+    if (options.spaceBefore !== undefined) properties.push(`<w:spacing w:before="${options.spaceBefore}"/>`);
+    if (options.align) properties.push(`<w:jc w:val="${options.align}"/>`);
+
+    const pPr = properties.length > 0 ? `<w:pPr>${properties.join('')}</w:pPr>` : '';
+    return `    <w:p>${pPr}${this.run(text)}</w:p>`;
   }
 
-  private static createWordFooter(): string {
-    const exportDate = new Date().toLocaleString('zh-HK');
-    return `
-    <w:p>
-      <w:pPr>
-        <w:jc w:val="center"/>
-        <w:spacing w:before="480"/>
-        <w:pBdr>
-          <w:top w:val="single" w:sz="6" w:space="1" w:color="CCCCCC"/>
-        </w:pBdr>
-      </w:pPr>
-      <w:r>
-        <w:rPr>
-          <w:sz w:val="16"/>
-          <w:szCs w:val="16"/>
-          <w:color w:val="666666"/>
-        </w:rPr>
-        <w:t>Generated by Lecture Transcription PWA on ${exportDate}</w:t>
-      </w:r>
-    </w:p>`;
+  /**
+   * A text run; line breaks inside the text become <w:br/>
+   */
+  private static run(text: string, characterStyle?: string): string {
+    const rPr = characterStyle ? `<w:rPr><w:rStyle w:val="${characterStyle}"/></w:rPr>` : '';
+    const content = text
+      .split('\n')
+      .map(line => `<w:t xml:space="preserve">${this.escapeXML(line)}</w:t>`)
+      .join('<w:br/>');
+    return `<w:r>${rPr}${content}</w:r>`;
   }
 
-  private static async createDOCXBlob(documentXML: string, title: string): Promise<Blob> {
-    // For a full DOCX implementation, you would need to create a proper ZIP structure
-    // with relationships, content types, etc. For now, we'll create a simple RTF file
-    // that can be opened by Word
+  private static table(
+    columnWidths: number[],
+    rows: string[][],
+    options: { style: string; header?: string[] }
+  ): string {
+    const grid = columnWidths.map(width => `<w:gridCol w:w="${width}"/>`).join('');
+
+    const renderRow = (cells: string[], isHeader: boolean) => {
+      const trPr = isHeader ? '<w:trPr><w:tblHeader/><w:cantSplit/></w:trPr>' : '<w:trPr><w:cantSplit/></w:trPr>';
+      const tcs = cells.map((cell, index) =>
+        `<w:tc><w:tcPr><w:tcW w:w="${columnWidths[index]}" w:type="dxa"/>${isHeader ? '<w:shd w:val="clear" w:color="auto" w:fill="DEEAF6"/>' : ''}</w:tcPr>\n${cell}\n</w:tc>`
+      ).join('');
+      return `<w:tr>${trPr}${tcs}</w:tr>`;
+    };
+
+    const body = [
+      ...(options.header ? [renderRow(options.header, true)] : []),
+      ...rows.map(cells => renderRow(cells, false)),
+    ].join('\n');
+
+    return `    <w:tbl>
+      <w:tblPr><w:tblStyle w:val="${options.style}"/><w:tblW w:w="${TEXT_WIDTH}" w:type="dxa"/><w:tblLayout w:type="fixed"/><w:tblLook w:val="04A0" w:firstRow="1" w:lastRow="0" w:firstColumn="1" w:lastColumn="0" w:noHBand="0" w:noVBand="1"/></w:tblPr>
+      <w:tblGrid>${grid}</w:tblGrid>
+${body}
+    </w:tbl>
+    <w:p><w:pPr><w:spacing w:after="0"/></w:pPr></w:p>`;
+  }
 
-    const rtfContent = this.convertXMLToRTF(documentXML, title);
-    return new Blob([rtfContent], {
-      type: 'application/rtf'
+  // Package parts
+
+  private static async createDOCXBlob(documentXML: string, session: LectureSession): Promise<Blob> {
+    const zip = new ZipWriter();
+
+    zip.addFile('[Content_Types].xml', this.contentTypesXML());
+    zip.addFile('_rels/.rels', this.rootRelationshipsXML());
+    zip.addFile('docProps/core.xml', this.corePropertiesXML(session));
+    zip.addFile('docProps/app.xml', this.appPropertiesXML());
+    zip.addFile('word/document.xml', documentXML);
+    zip.addFile('word/_rels/document.xml.rels', this.documentRelationshipsXML());
+    zip.addFile('word/styles.xml', this.stylesXML());
+    zip.addFile('word/numbering.xml', this.numberingXML());
+    zip.addFile('word/settings.xml', this.settingsXML());
+    zip.addFile('word/fontTable.xml', this.fontTableXML());
+    zip.addFile('word/footer1.xml', this.footerXML());
+
+    const archive = await zip.generate();
+    return new Blob([archive], {
+      type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
     });
   }
 
-  private static convertXMLToRTF(xml: string, title: string): string {
-    // Simple RTF conversion for demonstration
-    // In production, you'd want to use a proper DOCX library like docx.js
-    let rtf = '{\\rtf1\\ansi\\deff0 {\\fonttbl {\\f0 Times New Roman;} {\\f1 Microsoft JhengHei;}}';
-    rtf += '\\f1\\fs24'; // Set default font and size
+  private static contentTypesXML(): string {
+    const main = 'application/vnd.openxmlformats-officedocument.wordprocessingml';
+    return `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="${main}.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="${main}.styles+xml"/>
+  <Override PartName="/word/numbering.xml" ContentType="${main}.numbering+xml"/>
+  <Override PartName="/word/settings.xml" ContentType="${main}.settings+xml"/>
+  <Override PartName="/word/fontTable.xml" ContentType="${main}.fontTable+xml"/>
+  <Override PartName="/word/footer1.xml" ContentType="${main}.footer+xml"/>
+  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+  <Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>
+</Types>`;
+  }
+
+  private static rootRelationshipsXML(): string {
+    return `${XML_HEADER}<Relationships xmlns="${NS_PKG_REL}">
+  <Relationship Id="rId1" Type="${REL_TYPE}/officeDocument" Target="word/document.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+  <Relationship Id="rId3" Type="${REL_TYPE}/extended-properties" Target="docProps/app.xml"/>
+</Relationships>`;
+  }
+
+  private static documentRelationshipsXML(): string {
+    return `${XML_HEADER}<Relationships xmlns="${NS_PKG_REL}">
+  <Relationship Id="rIdStyles" Type="${REL_TYPE}/styles" Target="styles.xml"/>
+  <Relationship Id="rIdNumbering" Type="${REL_TYPE}/numbering" Target="numbering.xml"/>
+  <Relationship Id="rIdSettings" Type="${REL_TYPE}/settings" Target="settings.xml"/>
+  <Relationship Id="rIdFontTable" Type="${REL_TYPE}/fontTable" Target="fontTable.xml"/>
+  <Relationship Id="rIdFooter1" Type="${REL_TYPE}/footer" Target="footer1.xml"/>
+</Relationships>`;
+  }
+
+  private static corePropertiesXML(session: LectureSession): string {
+    const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    return `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:dcmitype="http://purl.org/dc/dcmitype/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <dc:title>${this.escapeXML(session.name)}</dc:title>
+  <dc:subject>Lecture transcript</dc:subject>
+  <dc:creator>LectureScript</dc:creator>
+  <cp:keywords>${this.escapeXML((session.keyTopics || []).join(', '))}</cp:keywords>
+  <dc:language>${session.language === 'en' ? 'en-US' : 'zh-HK'}</dc:language>
+  <dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>
+  <dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>
+</cp:coreProperties>`;
+  }
+
+  private static appPropertiesXML(): string {
+    return `${XML_HEADER}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">
+  <Application>LectureScript</Application>
+</Properties>`;
+  }
 
-    // Title
-    rtf += `{\\b\\fs32\\qc ${this.escapeRTF(title)}}\\par\\par`;
+  private static stylesXML(): string {
+    const fonts = `<w:rFonts w:ascii="${LATIN_FONT}" w:hAnsi="${LATIN_FONT}" w:eastAsia="${EAST_ASIA_FONT}" w:cs="${LATIN_FONT}"/>`;
+
+    const paragraphStyle = (id: string, name: string, pPr: string, rPr: string, extra = '') =>
+      `  <w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>${extra}<w:qFormat/><w:pPr>${pPr}</w:pPr><w:rPr>${rPr}</w:rPr></w:style>`;
+
+    const tableBorders = (color: string) =>
+      `<w:tblBorders><w:top w:val="single" w:sz="4" w:space="0" w:color="${color}"/><w:left w:val="single" w:sz="4" w:space="0" w:color="${color}"/><w:bottom w:val="single" w:sz="4" w:space="0" w:color="${color}"/><w:right w:val="single" w:sz="4" w:space="0" w:color="${color}"/><w:insideH w:val="single" w:sz="4" w:space="0" w:color="${color}"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="${color}"/></w:tblBorders>`;
+
+    return `${XML_HEADER}<w:styles xmlns:w="${NS_W}">
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr>${fonts}<w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US" w:eastAsia="zh-HK" w:bidi="ar-SA"/></w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+${paragraphStyle('Title', 'Title', '<w:spacing w:after="120"/><w:jc w:val="center"/>', '<w:b/><w:color w:val="1F4E79"/><w:sz w:val="40"/><w:szCs w:val="40"/>')}
+${paragraphStyle('Subtitle', 'Subtitle', '<w:spacing w:after="360"/><w:jc w:val="center"/>', '<w:color w:val="666666"/><w:sz w:val="20"/><w:szCs w:val="20"/>')}
+${paragraphStyle('Heading1', 'heading 1', '<w:keepNext/><w:keepLines/><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="2F5496"/></w:pBdr><w:spacing w:before="360" w:after="160"/><w:outlineLvl w:val="0"/>', '<w:b/><w:color w:val="2F5496"/><w:sz w:val="28"/><w:szCs w:val="28"/>', '<w:uiPriority w:val="9"/>')}
+${paragraphStyle('Heading2', 'heading 2', '<w:keepNext/><w:keepLines/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="1"/>', '<w:b/><w:color w:val="2F5496"/><w:sz w:val="24"/><w:szCs w:val="24"/>', '<w:uiPriority w:val="9"/>')}
+${paragraphStyle('Summary', 'Summary', '<w:shd w:val="clear" w:color="auto" w:fill="E7F3FF"/><w:spacing w:after="160"/><w:ind w:left="144" w:right="144"/>', '')}
+${paragraphStyle('ListParagraph', 'List Paragraph', '<w:spacing w:after="60"/><w:ind w:left="720"/><w:contextualSpacing/>', '')}
+${paragraphStyle('TableText', 'Table Text', '<w:spacing w:before="40" w:after="40"/>', '')}
+${paragraphStyle('TableLabel', 'Table Label', '<w:spacing w:before="40" w:after="40"/>', '<w:b/><w:color w:val="2F5496"/>')}
+${paragraphStyle('Timestamp', 'Timestamp', '<w:spacing w:before="40" w:after="40"/>', '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/><w:color w:val="1565C0"/><w:sz w:val="18"/><w:szCs w:val="18"/>')}
+${paragraphStyle('Caption', 'caption', '<w:spacing w:after="0"/>', '<w:color w:val="666666"/><w:sz w:val="16"/><w:szCs w:val="16"/>')}
+${paragraphStyle('Footer', 'footer', '<w:spacing w:after="0"/><w:jc w:val="center"/>', '<w:color w:val="666666"/><w:sz w:val="16"/><w:szCs w:val="16"/>')}
+  <w:style w:type="character" w:styleId="SpeakerChar"><w:name w:val="Speaker"/><w:qFormat/><w:rPr><w:b/><w:color w:val="D32F2F"/></w:rPr></w:style>
+  <w:style w:type="table" w:default="1" w:styleId="TableNormal"><w:name w:val="Normal Table"/><w:tblPr><w:tblInd w:w="0" w:type="dxa"/><w:tblCellMar><w:top w:w="0" w:type="dxa"/><w:left w:w="108" w:type="dxa"/><w:bottom w:w="0" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+  <w:style w:type="table" w:styleId="LectureTable"><w:name w:val="Lecture Table"/><w:basedOn w:val="TableNormal"/><w:tblPr>${tableBorders('BFBFBF')}</w:tblPr></w:style>
+  <w:style w:type="table" w:styleId="TranscriptPlain"><w:name w:val="Transcript Plain"/><w:basedOn w:val="TableNormal"/><w:tblPr><w:tblBorders><w:insideH w:val="single" w:sz="2" w:space="0" w:color="EEEEEE"/></w:tblBorders></w:tblPr></w:style>
+  <w:style w:type="numbering" w:default="1" w:styleId="NoList"><w:name w:val="No List"/></w:style>
+</w:styles>`;
+  }
 
-    // Extract text content from XML (simplified)
-    const textContent = xml.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim();
-    rtf += textContent.replace(/\n/g, '\\par');
+  private static numberingXML(): string {
+    return `${XML_HEADER}<w:numbering xmlns:w="${NS_W}">
+  <w:abstractNum w:abstractNumId="0">
+    <w:multiLevelType w:val="hybridMultilevel"/>
+    <w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl>
+    <w:lvl w:ilvl="1"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="◦"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="1440" w:hanging="360"/></w:pPr></w:lvl>
+  </w:abstractNum>
+  <w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>
+</w:numbering>`;
+  }
+
+  private static settingsXML(): string {
+    return `${XML_HEADER}<w:settings xmlns:w="${NS_W}">
+  <w:defaultTabStop w:val="720"/>
+  <w:characterSpacingControl w:val="compressPunctuation"/>
+  <w:compat><w:compatSetting w:name="compatibilityMode" w:uri="http://schemas.microsoft.com/office/word" w:val="15"/></w:compat>
+  <w:themeFontLang w:val="en-US" w:eastAsia="zh-HK"/>
+</w:settings>`;
+  }
 
-    rtf += '}';
-    return rtf;
+  private static fontTableXML(): string {
+    return `${XML_HEADER}<w:fonts xmlns:w="${NS_W}">
+  <w:font w:name="${LATIN_FONT}"><w:charset w:val="00"/><w:family w:val="swiss"/><w:pitch w:val="variable"/></w:font>
+  <w:font w:name="${EAST_ASIA_FONT}"><w:altName w:val="PMingLiU"/><w:charset w:val="88"/><w:family w:val="swiss"/><w:pitch w:val="variable"/></w:font>
+  <w:font w:name="Consolas"><w:charset w:val="00"/><w:family w:val="modern"/><w:pitch w:val="fixed"/></w:font>
+</w:fonts>`;
+  }
+
+  /**
+   * Page numbers as a PAGE field, so Word and LibreOffice both compute them
+   */
+  private static footerXML(): string {
+    return `${XML_HEADER}<w:ftr xmlns:w="${NS_W}" xmlns:r="${NS_R}">
+  <w:p>
+    <w:pPr><w:pStyle w:val="Footer"/></w:pPr>
+    <w:r><w:fldChar w:fldCharType="begin"/></w:r>
+    <w:r><w:instrText xml:space="preserve"> PAGE </w:instrText></w:r>
+    <w:r><w:fldChar w:fldCharType="separate"/></w:r>
+    <w:r><w:t>1</w:t></w:r>
+    <w:r><w:fldChar w:fldCharType="end"/></w:r>
+  </w:p>
+</w:ftr>`;
   }
 
   private static formatDuration(seconds: number): string {
@@ -363,8 +443,13 @@ export class DOCXFormatter {
     return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
   }
 
+  /**
+   * Escape markup and drop control characters, which are not allowed anywhere in XML 1.0
+   */
   private static escapeXML(text: string): string {
     return text
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
       .replace(/&/g, '&amp;')
       .replace(/</g, '&lt;')
       .replace(/>/g, '&gt;')
@@ -372,10 +457,6 @@ export class DOCXFormatter {
       .replace(/'/g, '&apos;');
   }
 
-  private static escapeRTF(text: string): string {
-    return text.replace(/[{}\\]/g, '\\$&');
-  }
-
   private static sanitizeFilename(filename: string): string {
     return filename
       .replace(/[^a-z0-9\u4e00-\u9fff]/gi, '_')
@@ -383,4 +464,4 @@ export class DOCXFormatter {
       .replace(/^_|_$/g, '')
       .substring(0, 100);
   }
-}
\ No newline at end of file
+}
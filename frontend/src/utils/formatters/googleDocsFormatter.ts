@@ -0,0 +1,482 @@
+import type { LectureSession, ExportOptions, TranscriptSegment, TimestampLinker } from '../../types';
+import { ZipWriter } from '../zipWriter';
+import { bilingualPair } from '../bilingual';
+
+// Google Docs keeps headings, links and tables from both of these on import: semantic HTML with
+// inline styles (it drops stylesheet classes), and OpenDocument Text, which Docs, Word and
+// LibreOffice all open. Both are rendered from the same blocks so they carry the same content.
+
+type DocRun = {
+  text: string;
+  style?: 'timestamp' | 'speaker' | 'strong';
+  href?: string;
+};
+
+type DocBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; runs: DocRun[]; style?: 'subtitle' | 'summary' | 'caption' }
+  | { type: 'list'; items: string[] }
+  | { type: 'table'; name: string; widths: number[]; header?: DocRun[][]; rows: DocRun[][][] };
+
+const ODT_MIME = 'application/vnd.oasis.opendocument.text';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8"?>\n';
+
+const ODF_NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"',
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"',
+  'xmlns:svg="urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0"',
+  'xmlns:xlink="http://www.w3.org/1999/xlink"',
+  'xmlns:dc="http://purl.org/dc/elements/1.1/"',
+  'xmlns:meta="urn:oasis:names:tc:opendocument:xmlns:meta:1.0"',
+].join(' ');
+
+// Same pairing as the DOCX export: Latin text in Arial, Chinese in JhengHei with PMingLiU behind it
+const LATIN_FONT = 'Arial';
+const EAST_ASIA_FONT = 'Microsoft JhengHei';
+
+// A4 with 2cm margins
+const TEXT_WIDTH_CM = 17;
+
+const COLORS = {
+  heading: '#2f5496',
+  timestamp: '#1565c0',
+  speaker: '#d32f2f',
+  muted: '#666666',
+  border: '#bfbfbf',
+  headerFill: '#deeaf6',
+  summaryFill: '#e7f3ff',
+};
+
+export class GoogleDocsFormatter {
+  static generateHTML(
+    session: LectureSession,
+    segments: TranscriptSegment[],
+    options: ExportOptions,
+    linkFor?: TimestampLinker
+  ): { data: string; filename: string; mimeType: string } {
+    const blocks = this.buildBlocks(session, segments, options, linkFor);
+    const body = blocks.map(block => this.blockToHTML(block)).join('\n');
+
+    const html = `<!DOCTYPE html>
+<html lang="${session.language === 'en' ? 'en' : 'zh-HK'}">
+<head>
+<meta charset="UTF-8">
+<title>${this.escapeHTML(session.name)}</title>
+</head>
+<body style="font-family: ${LATIN_FONT}, '${EAST_ASIA_FONT}', PMingLiU, sans-serif; font-size: 11pt; line-height: 1.5; color: #333333;">
+${body}
+</body>
+</html>
+`;
+
+    return {
+      data: html,
+      filename: `${this.sanitizeFilename(session.name)}.html`,
+      mimeType: 'text/html;charset=utf-8',
+    };
+  }
+
+  static async generateODT(
+    session: LectureSession,
+    segments: TranscriptSegment[],
+    options: ExportOptions,
+    linkFor?: TimestampLinker
+  ): Promise<{ data: Blob; filename: string; mimeType: string }> {
+    const blocks = this.buildBlocks(session, segments, options, linkFor);
+    const zip = new ZipWriter();
+
+    // The mimetype entry must come first and be stored, so it can be sniffed at a fixed offset
+    zip.addFile('mimetype', ODT_MIME, { compression: 'store' });
+    zip.addFile('META-INF/manifest.xml', this.manifestXML());
+    zip.addFile('meta.xml', this.metaXML(session));
+    zip.addFile('styles.xml', this.stylesXML());
+    zip.addFile('content.xml', this.contentXML(blocks));
+
+    const archive = await zip.generate();
+    return {
+      data: new Blob([archive], { type: ODT_MIME }),
+      filename: `${this.sanitizeFilename(session.name)}.odt`,
+      mimeType: ODT_MIME,
+    };
+  }
+
+  /**
+   * Document content shared by the HTML and ODT outputs. Timestamps link back to the recording
+   * when a linker is given.
+   */
+  private static buildBlocks(
+    session: LectureSession,
+    segments: TranscriptSegment[],
+    options: ExportOptions,
+    linkFor?: TimestampLinker
+  ): DocBlock[] {
+    const { includeTimestamps, includeSummary, includeMetadata, includeBranding = true, layout = 'professional' } = options;
+    const blocks: DocBlock[] = [];
+
+    blocks.push({ type: 'heading', level: 1, text: session.name });
+    blocks.push({ type: 'paragraph', style: 'subtitle', runs: [{ text: new Date(session.startTime).toLocaleString('zh-HK') }] });
+
+    if (includeMetadata) {
+      blocks.push({ type: 'heading', level: 2, text: '講座資訊 Lecture Information' });
+      blocks.push({
+        type: 'table',
+        name: 'LectureInformation',
+        widths: [0.3, 0.7],
+        rows: [
+          ['日期 Date', new Date(session.startTime).toLocaleString('zh-HK')],
+          ['時長 Duration', this.formatDuration(session.duration)],
+          ['字數 Word Count', `${session.wordCount.toLocaleString()} words`],
+          ['語言 Language', this.getLanguageDisplay(session.language)],
+          ['成本 Cost', `$${session.cost.toFixed(4)}`],
+        ].map(([label, value]) => [[{ text: label, style: 'strong' }], [{ text: value }]]),
+      });
+    }
+
+    if (includeSummary && session.summary) {
+      blocks.push({ type: 'heading', level: 2, text: '講座摘要 Summary' });
+      session.summary
+        .split(/\n{2,}/)
+        .filter(text => text.trim())
+        .forEach(text => blocks.push({ type: 'paragraph', style: 'summary', runs: [{ text: text.trim() }] }));
+    }
+
+    if (includeSummary && session.keyTopics && session.keyTopics.length > 0) {
+      blocks.push({ type: 'heading', level: 2, text: '重點 Key Topics' });
+      blocks.push({ type: 'list', items: session.keyTopics });
+    }
+
+    blocks.push({ type: 'heading', level: 2, text: '完整逐字稿 Full Transcript' });
+
+    const timestampRun = (segment: TranscriptSegment): DocRun => ({
+      text: this.formatTimestamp(segment.timestamp),
+      style: 'timestamp',
+      href: linkFor?.(segment.timestamp),
+    });
+    const textRuns = (segment: TranscriptSegment, text: string | undefined = segment.text): DocRun[] => [
+      ...(segment.speaker && text ? [{ text: `${segment.speaker}: `, style: 'speaker' as const }] : []),
+      { text: (text || '').trim() },
+    ];
+
+    if (segments.length === 0) {
+      blocks.push({ type: 'paragraph', style: 'caption', runs: [{ text: '(No transcript content)' }] });
+    } else if (options.language === 'both' && options.bilingual) {
+      // Parallel columns like the DOCX export; untranslated segments leave their cell empty
+      const columns = segments.map(segment => bilingualPair(segment));
+      blocks.push({
+        type: 'table',
+        name: 'Transcript',
+        widths: includeTimestamps ? [0.14, 0.43, 0.43] : [0.5, 0.5],
+        header: [
+          ...(includeTimestamps ? [[{ text: '時間 Time', style: 'strong' as const }]] : []),
+          [{ text: '中文', style: 'strong' }],
+          [{ text: 'English', style: 'strong' }],
+        ],
+        rows: segments.map((segment, index) => [
+          ...(includeTimestamps ? [[timestampRun(segment)]] : []),
+          textRuns(segment, columns[index].zh),
+          textRuns(segment, columns[index].en),
+        ]),
+      });
+    } else if (includeTimestamps && layout !== 'clean') {
+      // Two columns like the DOCX export; the header row repeats on every page
+      blocks.push({
+        type: 'table',
+        name: 'Transcript',
+        widths: [0.15, 0.85],
+        header: [[{ text: '時間 Time', style: 'strong' }], [{ text: '內容 Transcript', style: 'strong' }]],
+        rows: segments.map(segment => [[timestampRun(segment)], textRuns(segment)]),
+      });
+    } else {
+      segments.forEach((segment, index) => {
+        if (layout === 'academic') {
+          blocks.push({ type: 'heading', level: 3, text: `Segment ${index + 1}` });
+        }
+        blocks.push({
+          type: 'paragraph',
+          runs: includeTimestamps ? [timestampRun(segment), { text: ' ' }, ...textRuns(segment)] : textRuns(segment),
+        });
+      });
+    }
+
+    if (includeBranding) {
+      blocks.push({
+        type: 'paragraph',
+        style: 'caption',
+        runs: [{ text: `Generated by LectureScript on ${new Date().toLocaleString('zh-HK')}` }],
+      });
+    }
+
+    return blocks;
+  }
+
+  // HTML
+
+  private static blockToHTML(block: DocBlock): string {
+    switch (block.type) {
+      case 'heading': {
+        const size = { 1: '20pt', 2: '14pt', 3: '12pt' }[block.level];
+        const rule = block.level === 2 ? ` border-bottom: 1px solid ${COLORS.heading}; padding-bottom: 2pt;` : '';
+        return `<h${block.level} style="color: ${COLORS.heading}; font-size: ${size};${rule}">${this.escapeHTML(block.text)}</h${block.level}>`;
+      }
+
+      case 'paragraph': {
+        const style = {
+          subtitle: ` style="color: ${COLORS.muted}; font-size: 10pt;"`,
+          summary: ` style="background-color: ${COLORS.summaryFill}; padding: 6pt;"`,
+          caption: ` style="color: ${COLORS.muted}; font-size: 8pt; text-align: center;"`,
+        }[block.style || ''] || '';
+        return `<p${style}>${this.runsToHTML(block.runs)}</p>`;
+      }
+
+      case 'list':
+        return `<ul>\n${block.items.map(item => `<li>${this.escapeHTML(item)}</li>`).join('\n')}\n</ul>`;
+
+      case 'table': {
+        const cellStyle = `border: 1px solid ${COLORS.border}; padding: 4pt; vertical-align: top;`;
+        const columns = block.widths.map(width => `<col style="width: ${Math.round(width * 100)}%;">`).join('');
+        const header = block.header
+          ? `<thead>\n<tr>${block.header.map(cell => `<th style="${cellStyle} background-color: ${COLORS.headerFill}; text-align: left;">${this.runsToHTML(cell)}</th>`).join('')}</tr>\n</thead>\n`
+          : '';
+        const rows = block.rows
+          .map(row => `<tr>${row.map(cell => `<td style="${cellStyle}">${this.runsToHTML(cell)}</td>`).join('')}</tr>`)
+          .join('\n');
+        return `<table style="border-collapse: collapse; width: 100%;">\n<colgroup>${columns}</colgroup>\n${header}<tbody>\n${rows}\n</tbody>\n</table>`;
+      }
+    }
+  }
+
+  private static runsToHTML(runs: DocRun[]): string {
+    return runs.map(run => {
+      let html = this.escapeHTML(run.text).replace(/\n/g, '<br>');
+      if (run.style === 'timestamp') {
+        html = `<span style="color: ${COLORS.timestamp}; font-family: Consolas, monospace;">${html}</span>`;
+      } else if (run.style === 'speaker') {
+        html = `<b style="color: ${COLORS.speaker};">${html}</b>`;
+      } else if (run.style === 'strong') {
+        html = `<b>${html}</b>`;
+      }
+      return run.href ? `<a href="${this.escapeHTML(run.href)}">${html}</a>` : html;
+    }).join('');
+  }
+
+  // OpenDocument Text
+
+  private static contentXML(blocks: DocBlock[]): string {
+    const tableStyles: string[] = [];
+    let tableCount = 0;
+
+    const body = blocks.map(block => {
+      switch (block.type) {
+        case 'heading':
+          return `<text:h text:style-name="Heading_20_${block.level}" text:outline-level="${block.level}">${this.odtText(block.text)}</text:h>`;
+
+        case 'paragraph': {
+          const style = { subtitle: 'Subtitle', summary: 'Summary', caption: 'Caption' }[block.style || ''] || 'Text_20_body';
+          return `<text:p text:style-name="${style}">${this.runsToODT(block.runs)}</text:p>`;
+        }
+
+        case 'list':
+          return `<text:list text:style-name="Bullets">${block.items
+            .map(item => `<text:list-item><text:p text:style-name="List_20_Paragraph">${this.odtText(item)}</text:p></text:list-item>`)
+            .join('')}</text:list>`;
+
+        case 'table': {
+          const name = `${block.name}${++tableCount}`;
+          const column = (index: number) => `${name}.${String.fromCharCode(65 + index)}`;
+
+          tableStyles.push(`<style:style style:name="${name}" style:family="table"><style:table-properties style:width="${TEXT_WIDTH_CM}cm" table:align="margins" fo:margin-bottom="0.3cm"/></style:style>`);
+          block.widths.forEach((width, index) => {
+            tableStyles.push(`<style:style style:name="${column(index)}" style:family="table-column"><style:table-column-properties style:column-width="${(width * TEXT_WIDTH_CM).toFixed(2)}cm" style:rel-column-width="${Math.round(width * 1000)}*"/></style:style>`);
+          });
+
+          const row = (cells: DocRun[][], header: boolean) => `<table:table-row>${cells
+            .map(cell => `<table:table-cell table:style-name="${header ? 'HeaderCell' : 'Cell'}" office:value-type="string"><text:p text:style-name="${header ? 'Table_20_Heading' : 'Table_20_Contents'}">${this.runsToODT(cell)}</text:p></table:table-cell>`)
+            .join('')}</table:table-row>`;
+
+          return [
+            `<table:table table:name="${name}" table:style-name="${name}">`,
+            ...block.widths.map((_, index) => `<table:table-column table:style-name="${column(index)}"/>`),
+            ...(block.header ? [`<table:table-header-rows>${row(block.header, true)}</table:table-header-rows>`] : []),
+            ...block.rows.map(cells => row(cells, false)),
+            '</table:table>',
+          ].join('\n');
+        }
+      }
+    }).join('\n');
+
+    return `${XML_HEADER}<office:document-content ${ODF_NAMESPACES} office:version="1.3">
+<office:font-face-decls>${this.fontFaceDecls()}</office:font-face-decls>
+<office:automatic-styles>
+<style:style style:name="Cell" style:family="table-cell"><style:table-cell-properties fo:padding="0.1cm" fo:border="0.5pt solid ${COLORS.border}"/></style:style>
+<style:style style:name="HeaderCell" style:family="table-cell"><style:table-cell-properties fo:padding="0.1cm" fo:border="0.5pt solid ${COLORS.border}" fo:background-color="${COLORS.headerFill}"/></style:style>
+${tableStyles.join('\n')}
+</office:automatic-styles>
+<office:body>
+<office:text>
+${body}
+</office:text>
+</office:body>
+</office:document-content>`;
+  }
+
+  private static runsToODT(runs: DocRun[]): string {
+    return runs.map(run => {
+      let xml = this.odtText(run.text);
+      if (run.style) {
+        const style = { timestamp: 'Timestamp', speaker: 'Speaker', strong: 'Strong_20_Emphasis' }[run.style];
+        xml = `<text:span text:style-name="${style}">${xml}</text:span>`;
+      }
+      return run.href
+        ? `<text:a xlink:type="simple" xlink:href="${this.escapeXML(run.href)}" text:style-name="Internet_20_link">${xml}</text:a>`
+        : xml;
+    }).join('');
+  }
+
+  /**
+   * ODF collapses whitespace like HTML, so repeated spaces, tabs and line breaks need elements
+   */
+  private static odtText(text: string): string {
+    return this.escapeXML(text)
+      .replace(/\t/g, '<text:tab/>')
+      .replace(/\r?\n/g, '<text:line-break/>')
+      .replace(/^ | {2,}/g, spaces =>
+        spaces === ' ' ? '<text:s/>' : ` <text:s text:c="${spaces.length - 1}"/>`
+      );
+  }
+
+  private static manifestXML(): string {
+    return `${XML_HEADER}<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.3">
+ <manifest:file-entry manifest:full-path="/" manifest:version="1.3" manifest:media-type="${ODT_MIME}"/>
+ <manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>
+ <manifest:file-entry manifest:full-path="styles.xml" manifest:media-type="text/xml"/>
+ <manifest:file-entry manifest:full-path="meta.xml" manifest:media-type="text/xml"/>
+</manifest:manifest>`;
+  }
+
+  private static metaXML(session: LectureSession): string {
+    const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    return `${XML_HEADER}<office:document-meta ${ODF_NAMESPACES} office:version="1.3">
+<office:meta>
+<meta:generator>LectureScript</meta:generator>
+<dc:title>${this.escapeXML(session.name)}</dc:title>
+<dc:subject>Lecture transcript</dc:subject>
+${(session.keyTopics || []).map(topic => `<meta:keyword>${this.escapeXML(topic)}</meta:keyword>`).join('\n')}
+<dc:language>${session.language === 'en' ? 'en-US' : 'zh-HK'}</dc:language>
+<meta:creation-date>${now}</meta:creation-date>
+<dc:date>${now}</dc:date>
+</office:meta>
+</office:document-meta>`;
+  }
+
+  private static stylesXML(): string {
+    const paragraphStyle = (name: string, displayName: string, paragraph: string, textProps: string, extra = '') =>
+      `<style:style style:name="${name}" style:display-name="${displayName}" style:family="paragraph" style:parent-style-name="Standard"${extra}><style:paragraph-properties ${paragraph}/><style:text-properties ${textProps}/></style:style>`;
+
+    const heading = (level: number, size: string, border = '') => paragraphStyle(
+      `Heading_20_${level}`,
+      `Heading ${level}`,
+      `fo:margin-top="${level === 1 ? '0' : '0.4cm'}" fo:margin-bottom="0.2cm" fo:keep-with-next="always"${border}`,
+      `fo:color="${COLORS.heading}" fo:font-size="${size}" fo:font-weight="bold" style:font-size-asian="${size}" style:font-weight-asian="bold"`,
+      ` style:next-style-name="Text_20_body" style:default-outline-level="${level}" style:class="text"`
+    );
+
+    return `${XML_HEADER}<office:document-styles ${ODF_NAMESPACES} office:version="1.3">
+<office:font-face-decls>${this.fontFaceDecls()}</office:font-face-decls>
+<office:styles>
+<style:default-style style:family="paragraph"><style:paragraph-properties fo:margin-bottom="0.2cm" fo:line-height="115%"/><style:text-properties style:font-name="${LATIN_FONT}" fo:font-size="11pt" style:font-name-asian="${EAST_ASIA_FONT}" style:font-size-asian="11pt" fo:language="en" fo:country="US" style:language-asian="zh" style:country-asian="HK" fo:color="#333333"/></style:default-style>
+<style:style style:name="Standard" style:family="paragraph" style:class="text"/>
+${paragraphStyle('Text_20_body', 'Text body', 'fo:margin-bottom="0.2cm"', '', ' style:class="text"')}
+${heading(1, '20pt')}
+${heading(2, '14pt', ` fo:border-bottom="0.75pt solid ${COLORS.heading}" fo:padding-bottom="0.05cm"`)}
+${heading(3, '12pt')}
+${paragraphStyle('Subtitle', 'Subtitle', 'fo:margin-bottom="0.4cm"', `fo:color="${COLORS.muted}" fo:font-size="10pt" style:font-size-asian="10pt"`)}
+${paragraphStyle('Summary', 'Summary', `fo:background-color="${COLORS.summaryFill}" fo:padding="0.15cm" fo:margin-bottom="0.2cm"`, '')}
+${paragraphStyle('List_20_Paragraph', 'List Paragraph', 'fo:margin-bottom="0.1cm"', '')}
+${paragraphStyle('Table_20_Contents', 'Table Contents', 'fo:margin-bottom="0cm"', '')}
+${paragraphStyle('Table_20_Heading', 'Table Heading', 'fo:margin-bottom="0cm"', `fo:font-weight="bold" style:font-weight-asian="bold" fo:color="${COLORS.heading}"`)}
+${paragraphStyle('Caption', 'Caption', 'fo:margin-top="0.5cm" fo:text-align="center"', `fo:color="${COLORS.muted}" fo:font-size="8pt" style:font-size-asian="8pt"`)}
+${paragraphStyle('Footer', 'Footer', 'fo:text-align="center"', `fo:color="${COLORS.muted}" fo:font-size="8pt" style:font-size-asian="8pt"`)}
+<style:style style:name="Timestamp" style:family="text"><style:text-properties style:font-name="Consolas" fo:color="${COLORS.timestamp}" fo:font-size="9pt"/></style:style>
+<style:style style:name="Speaker" style:display-name="Speaker" style:family="text"><style:text-properties fo:font-weight="bold" style:font-weight-asian="bold" fo:color="${COLORS.speaker}"/></style:style>
+<style:style style:name="Strong_20_Emphasis" style:display-name="Strong Emphasis" style:family="text"><style:text-properties fo:font-weight="bold" style:font-weight-asian="bold"/></style:style>
+<style:style style:name="Internet_20_link" style:display-name="Internet link" style:family="text"><style:text-properties fo:color="${COLORS.timestamp}" style:text-underline-style="solid" style:text-underline-width="auto" style:text-underline-color="font-color"/></style:style>
+<text:list-style style:name="Bullets">
+<text:list-level-style-bullet text:level="1" text:bullet-char="•"><style:list-level-properties text:list-level-position-and-space-mode="label-alignment"><style:list-level-label-alignment text:label-followed-by="listtab" text:list-tab-stop-position="1.27cm" fo:text-indent="-0.635cm" fo:margin-left="1.27cm"/></style:list-level-properties></text:list-level-style-bullet>
+</text:list-style>
+</office:styles>
+<office:automatic-styles>
+<style:page-layout style:name="A4"><style:page-layout-properties fo:page-width="21cm" fo:page-height="29.7cm" style:print-orientation="portrait" fo:margin-top="2cm" fo:margin-bottom="1.5cm" fo:margin-left="2cm" fo:margin-right="2cm"/><style:footer-style><style:header-footer-properties fo:min-height="0.5cm" fo:margin-top="0.3cm"/></style:footer-style></style:page-layout>
+</office:automatic-styles>
+<office:master-styles>
+<style:master-page style:name="Standard" style:page-layout-name="A4"><style:footer><text:p text:style-name="Footer"><text:page-number text:select-page="current">1</text:page-number></text:p></style:footer></style:master-page>
+</office:master-styles>
+</office:document-styles>`;
+  }
+
+  private static fontFaceDecls(): string {
+    return [
+      `<style:font-face style:name="${LATIN_FONT}" svg:font-family="${LATIN_FONT}" style:font-family-generic="swiss" style:font-pitch="variable"/>`,
+      `<style:font-face style:name="${EAST_ASIA_FONT}" svg:font-family="'${EAST_ASIA_FONT}', PMingLiU" style:font-family-generic="swiss" style:font-pitch="variable"/>`,
+      '<style:font-face style:name="Consolas" svg:font-family="Consolas" style:font-family-generic="modern" style:font-pitch="fixed"/>',
+    ].join('');
+  }
+
+  private static formatDuration(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const remainingSeconds = Math.floor(seconds % 60);
+
+    if (hours > 0) {
+      return `${hours}:${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
+    }
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  }
+
+  private static formatTimestamp(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = Math.floor(seconds % 60);
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  }
+
+  private static getLanguageDisplay(language: string): string {
+    const languageMap = {
+      'zh': '中文',
+      'en': 'English',
+      'mixed': '中英文混合'
+    };
+    return languageMap[language as keyof typeof languageMap] || language;
+  }
+
+  private static escapeHTML(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Escape markup and drop control characters, which are not allowed anywhere in XML 1.0
+   */
+  private static escapeXML(text: string): string {
+    return text
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  private static sanitizeFilename(filename: string): string {
+    return filename
+      .replace(/[^a-z0-9\u4e00-\u9fff]/gi, '_')
+      .replace(/_+/g, '_')
+      .replace(/^_|_$/g, '')
+      .substring(0, 100);
+  }
+}
@@ -0,0 +1,425 @@
+import { readZip } from '../zipReader';
+import type { ZipReadEntry } from '../zipReader';
+import { NOTION_COLUMNS } from './notionFormatter';
+
+// Structural checks for the files other apps import: what Notion's Markdown & CSV importer,
+// Google Docs' HTML import and OpenDocument readers need in order to keep headings, links,
+// tables and properties. Errors mean content would be lost or mangled; warnings mean it imports
+// but looks different.
+
+export type ImportTarget = 'notion' | 'gdocs' | 'odt';
+
+export interface ImportValidationResult {
+  target: ImportTarget;
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+const ODT_MIME = 'application/vnd.oasis.opendocument.text';
+
+// Notion writes dates as "October 19, 2026" or "October 19, 2026 2:05 PM"
+const NOTION_DATE = /^(January|February|March|April|May|June|July|August|September|October|November|December) \d{1,2}, \d{4}( \d{1,2}:\d{2} (AM|PM))?$/;
+
+const XML_ENTITIES = new Set(['amp', 'lt', 'gt', 'quot', 'apos']);
+
+class Report {
+  readonly errors: string[] = [];
+  readonly warnings: string[] = [];
+  private target: ImportTarget;
+
+  constructor(target: ImportTarget) {
+    this.target = target;
+  }
+
+  error(message: string) {
+    this.errors.push(message);
+  }
+
+  warn(message: string) {
+    this.warnings.push(message);
+  }
+
+  result(): ImportValidationResult {
+    return { target: this.target, valid: this.errors.length === 0, errors: this.errors, warnings: this.warnings };
+  }
+}
+
+export class ImportValidator {
+  static async validate(target: ImportTarget, data: string | Blob): Promise<ImportValidationResult> {
+    switch (target) {
+      case 'notion':
+        return await this.validateNotionArchive(data instanceof Blob ? data : new Blob([data]));
+      case 'odt':
+        return await this.validateODT(data instanceof Blob ? data : new Blob([data]));
+      case 'gdocs':
+        return this.validateGoogleDocsHTML(typeof data === 'string' ? data : await data.text());
+    }
+  }
+
+  /**
+   * One CSV database at the root, one page per row in the folder of the same name
+   */
+  static async validateNotionArchive(archive: Blob | Uint8Array): Promise<ImportValidationResult> {
+    const report = new Report('notion');
+    const entries = await this.readArchive(archive, report);
+    if (!entries) return report.result();
+
+    const csvFiles = entries.filter(entry => !entry.path.includes('/') && entry.path.toLowerCase().endsWith('.csv'));
+    if (csvFiles.length !== 1) {
+      report.error(`Expected one CSV database at the archive root, found ${csvFiles.length}`);
+      return report.result();
+    }
+
+    const csv = csvFiles[0];
+    const folder = `${csv.path.slice(0, -4)}/`;
+    const rows = this.parseCSV(csv.text().replace(/^\uFEFF/, ''), report);
+    if (!rows) return report.result();
+
+    const [header, ...records] = rows;
+    if (header[0] !== 'Name') {
+      report.error(`The first CSV column must be the title column "Name", found "${header[0]}"`);
+    }
+    NOTION_COLUMNS
+      .filter(column => !header.includes(column))
+      .forEach(column => report.error(`CSV is missing the "${column}" property`));
+
+    const column = (name: string) => header.indexOf(name);
+    const names = new Map<string, number>();
+
+    records.forEach((record, index) => {
+      const rowLabel = `CSV row ${index + 2}`;
+      if (record.length !== header.length) {
+        report.error(`${rowLabel} has ${record.length} fields, the header has ${header.length}`);
+        return;
+      }
+
+      const name = record[0];
+      if (!name.trim()) report.error(`${rowLabel} has no Name`);
+      const key = name.toLowerCase();
+      if (names.has(key)) report.error(`${rowLabel} repeats the Name "${name}"; Notion would attach both pages to one row`);
+      names.set(key, index);
+
+      const date = record[column('Date')];
+      if (date !== undefined && date !== '' && (!NOTION_DATE.test(date) || isNaN(Date.parse(date)))) {
+        report.error(`${rowLabel}: "${date}" is not a date Notion recognises`);
+      }
+
+      const duration = record[column('Duration (min)')];
+      if (duration !== undefined && !/^\d+(\.\d+)?$/.test(duration)) {
+        report.error(`${rowLabel}: duration "${duration}" is not a number`);
+      }
+
+      const tags = record[column('Tags')];
+      if (tags) {
+        const values = tags.split(',').map(tag => tag.trim());
+        if (values.some(tag => !tag)) report.error(`${rowLabel}: empty tag in "${tags}"`);
+        if (new Set(values).size !== values.length) report.warn(`${rowLabel}: repeated tags in "${tags}"`);
+      }
+
+      const link = record[column('Link')];
+      if (link && !/^https?:\/\/\S+$/.test(link)) {
+        report.error(`${rowLabel}: link "${link}" is not an absolute URL`);
+      }
+    });
+
+    const paths = new Set(entries.map(entry => entry.path));
+    const pageTitles = new Set<string>();
+
+    entries
+      .filter(entry => entry.path.toLowerCase().endsWith('.md'))
+      .forEach(entry => {
+        if (!entry.path.startsWith(folder) || entry.path.slice(folder.length).includes('/')) {
+          report.warn(`${entry.path} is outside "${folder}" and will import as a loose page`);
+          return;
+        }
+
+        const markdown = entry.text();
+        const heading = markdown.match(/^# (.+)$/m);
+        const firstLine = markdown.split('\n', 1)[0];
+        if (!heading || firstLine !== heading[0]) {
+          report.error(`${entry.path} must start with a "# Title" heading`);
+          return;
+        }
+
+        const title = heading[1].replace(/\\(.)/g, '$1').trim();
+        if (!names.has(title.toLowerCase())) {
+          report.error(`${entry.path}: no CSV row is named "${title}"`);
+        }
+        pageTitles.add(title.toLowerCase());
+
+        this.checkNotionMarkdown(entry.path, markdown, folder, paths, report);
+      });
+
+    names.forEach((index, name) => {
+      if (!pageTitles.has(name)) report.warn(`CSV row ${index + 2} has no page and will import empty`);
+    });
+
+    return report.result();
+  }
+
+  /**
+   * ODF package rules plus the content Google Docs keeps: headings, links and regular tables
+   */
+  static async validateODT(archive: Blob | Uint8Array): Promise<ImportValidationResult> {
+    const report = new Report('odt');
+    const entries = await this.readArchive(archive, report);
+    if (!entries) return report.result();
+
+    const first = entries[0];
+    if (!first || first.path !== 'mimetype') {
+      report.error('"mimetype" must be the first entry in the package');
+    } else {
+      if (first.method !== 'store') report.error('"mimetype" must be stored without compression');
+      if (first.text() !== ODT_MIME) report.error(`"mimetype" must contain ${ODT_MIME}`);
+    }
+
+    const byPath = new Map(entries.map(entry => [entry.path, entry]));
+    entries
+      .filter(entry => entry.path.endsWith('.xml'))
+      .forEach(entry => {
+        const problem = this.checkXML(entry.text());
+        if (problem) report.error(`${entry.path} is not well-formed XML: ${problem}`);
+      });
+
+    const manifest = byPath.get('META-INF/manifest.xml')?.text();
+    if (!manifest) {
+      report.error('META-INF/manifest.xml is missing');
+    } else {
+      const listed = [...manifest.matchAll(/manifest:full-path="([^"]*)"/g)].map(match => match[1]);
+      if (!new RegExp(`manifest:full-path="/"[^>]*manifest:media-type="${ODT_MIME.replace(/\./g, '\\.')}"`).test(manifest)) {
+        report.error(`The manifest must declare "/" as ${ODT_MIME}`);
+      }
+      listed
+        .filter(path => path !== '/' && !byPath.has(path))
+        .forEach(path => report.error(`The manifest lists ${path}, which is not in the package`));
+      entries
+        .filter(entry => entry.path !== 'mimetype' && !entry.path.startsWith('META-INF/') && !listed.includes(entry.path))
+        .forEach(entry => report.warn(`${entry.path} is not listed in the manifest`));
+    }
+
+    const content = byPath.get('content.xml')?.text();
+    const styles = byPath.get('styles.xml')?.text() || '';
+    if (!content) {
+      report.error('content.xml is missing');
+      return report.result();
+    }
+    if (!content.includes('<office:text')) report.error('content.xml has no <office:text> body');
+
+    if (!/<text:h [^>]*text:outline-level="\d+"/.test(content)) {
+      report.warn('No headings with an outline level; Google Docs will show no document outline');
+    }
+
+    [...content.matchAll(/xlink:href="([^"]*)"/g)].forEach(([, href]) => {
+      if (!/^https?:\/\//.test(href.replace(/&amp;/g, '&'))) {
+        report.error(`Link "${href}" is not an absolute URL and will break after import`);
+      }
+    });
+
+    [...content.matchAll(/<table:table [^>]*>([\s\S]*?)<\/table:table>/g)].forEach(([table, body], index) => {
+      const name = table.match(/table:name="([^"]*)"/)?.[1] || `table ${index + 1}`;
+      const columns = [...body.matchAll(/<table:table-column\b([^>]*)\/>/g)]
+        .reduce((total, [, attributes]) => total + Number(attributes.match(/table:number-columns-repeated="(\d+)"/)?.[1] || 1), 0);
+
+      [...body.matchAll(/<table:table-row\b[^>]*>([\s\S]*?)<\/table:table-row>/g)].forEach(([, row], rowIndex) => {
+        const cells = [...row.matchAll(/<table:(?:covered-)?table-cell\b([^>]*?)\/?>/g)]
+          .reduce((total, [, attributes]) => total + Number(attributes.match(/table:number-columns-repeated="(\d+)"/)?.[1] || 1), 0);
+        if (cells !== columns) {
+          report.error(`${name}, row ${rowIndex + 1}: ${cells} cells for ${columns} columns`);
+        }
+      });
+    });
+
+    const defined = new Set([...`${styles}${content}`.matchAll(/<(?:style:style|text:list-style)\b[^>]*style:name="([^"]*)"/g)].map(match => match[1]));
+    new Set([...content.matchAll(/(?:text|table):style-name="([^"]*)"/g)].map(match => match[1])).forEach(style => {
+      if (!defined.has(style)) report.warn(`Style "${style}" is used but not defined`);
+    });
+
+    return report.result();
+  }
+
+  /**
+   * Google Docs reads inline styles and semantic tags; it drops scripts and stylesheet classes
+   */
+  static validateGoogleDocsHTML(html: string): ImportValidationResult {
+    const report = new Report('gdocs');
+
+    if (!/^\s*<!DOCTYPE html>/i.test(html)) report.warn('Missing <!DOCTYPE html>');
+    if (!/<meta charset="utf-8"\s*\/?>/i.test(html)) {
+      report.error('Missing <meta charset="UTF-8">; Chinese text would be misread on import');
+    }
+    if (/<script\b/i.test(html)) report.error('Contains <script>, which Google Docs strips');
+    if (/\bclass="/i.test(html)) report.warn('Uses class attributes; Google Docs ignores stylesheet rules, so use inline styles');
+
+    const headings = [...html.matchAll(/<h([1-6])\b/gi)].map(match => Number(match[1]));
+    const titles = headings.filter(level => level === 1).length;
+    if (titles !== 1) report.warn(`Expected one <h1> title, found ${titles}`);
+    headings.forEach((level, index) => {
+      const previous = index > 0 ? headings[index - 1] : 0;
+      if (level > previous + 1) report.warn(`Heading level jumps from h${previous || 0} to h${level}`);
+    });
+
+    const stack: string[] = [];
+    [...html.matchAll(/<(\/?)(h[1-6]|p|ul|ol|li|table|thead|tbody|tr|td|th|a)\b[^>]*>/gi)].forEach(([, closing, name]) => {
+      const tag = name.toLowerCase();
+      if (!closing) {
+        stack.push(tag);
+      } else if (stack[stack.length - 1] === tag) {
+        stack.pop();
+      } else {
+        report.error(`Unexpected </${tag}>${stack.length ? ` inside <${stack[stack.length - 1]}>` : ''}`);
+      }
+    });
+    if (stack.length) report.error(`Unclosed <${stack.join('>, <')}>`);
+
+    [...html.matchAll(/<a\b[^>]*?href="([^"]*)"/gi)].forEach(([, href]) => {
+      const url = href.replace(/&amp;/g, '&');
+      if (/^javascript:/i.test(url)) report.error(`Link "${href}" uses javascript:`);
+      else if (!/^(https?:|mailto:|#)/i.test(url)) report.error(`Link "${href}" is not an absolute URL and will break after import`);
+    });
+
+    [...html.matchAll(/<table\b[\s\S]*?<\/table>/gi)].forEach(([table], index) => {
+      const widths = [...table.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi)].map(([, row]) =>
+        [...row.matchAll(/<t[dh]\b([^>]*)>/gi)]
+          .reduce((total, [, attributes]) => total + Number(attributes.match(/colspan="(\d+)"/i)?.[1] || 1), 0)
+      );
+      if (widths.length === 0) report.error(`Table ${index + 1} has no rows`);
+      else if (widths.some(width => width !== widths[0])) report.error(`Table ${index + 1} has rows of different widths (${widths.join(', ')})`);
+    });
+
+    return report.result();
+  }
+
+  private static async readArchive(archive: Blob | Uint8Array, report: Report): Promise<ZipReadEntry[] | null> {
+    try {
+      const entries = await readZip(archive);
+      entries.filter(entry => !entry.crcValid).forEach(entry => report.error(`${entry.path} fails its CRC check`));
+      if (entries.length === 0) report.error('The archive is empty');
+      return entries;
+    } catch (error) {
+      report.error(`Not a readable ZIP archive: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  private static checkNotionMarkdown(path: string, markdown: string, folder: string, paths: Set<string>, report: Report) {
+    const html = markdown.match(/(^|[^\\`])<\/?(aside|details|summary|div|span|p|br|table)\b[^>]*>/i);
+    if (html) {
+      report.error(`${path} contains <${html[2]}>, which Notion imports as literal text`);
+    }
+
+    [...markdown.matchAll(/(^|[^\\!])\[[^\]\n]*\]\(([^)\s]*)\)/g)].forEach(([, , target]) => {
+      if (/^https?:\/\//.test(target)) return;
+      const resolved = decodeURI(target.startsWith('/') ? target.slice(1) : `${folder}${target}`);
+      if (!paths.has(resolved)) report.error(`${path}: link "${target}" points to nothing in the archive`);
+    });
+
+    // eslint-disable-next-line no-control-regex
+    if (/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/.test(markdown)) report.error(`${path} contains control characters`);
+    if (markdown.includes('\uFFFD')) report.warn(`${path} contains characters that did not decode as UTF-8`);
+  }
+
+  /**
+   * RFC 4180: quoted fields may hold commas, quotes and line breaks
+   */
+  private static parseCSV(text: string, report: Report): string[][] | null {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        quoted = true;
+      } else if (char === '"') {
+        report.error(`CSV has a stray quote in "${field}"`);
+        return null;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (quoted) {
+      report.error('CSV ends inside a quoted field');
+      return null;
+    }
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+    if (rows.length === 0) {
+      report.error('CSV is empty');
+      return null;
+    }
+    return rows;
+  }
+
+  /**
+   * Well-formedness without a DOM: balanced tags, quoted and unique attributes, known entities
+   * and declared namespace prefixes. Returns the first problem, or null.
+   */
+  static checkXML(xml: string): string | null {
+    const stack: string[] = [];
+    const prefixes = new Set(['xml', 'xmlns']);
+    const tokens = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[[\s\S]*?\]\]>|<!DOCTYPE[^>]*>|<(\/?)([^\s/>]+)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|<|&(#x[0-9a-fA-F]+|#\d+|[A-Za-z]\w*)?;?/g;
+    let sawRoot = false;
+
+    for (const match of xml.matchAll(tokens)) {
+      const [token, closing, name, attributes, selfClosing, entity] = match;
+
+      if (token === '<') return `stray "<" at offset ${match.index}`;
+      if (token.startsWith('&')) {
+        if (!token.endsWith(';') || !entity) return `unescaped "&" at offset ${match.index}`;
+        if (!entity.startsWith('#') && !XML_ENTITIES.has(entity)) return `undefined entity &${entity};`;
+        continue;
+      }
+      if (!name) continue;
+
+      if (closing) {
+        if (stack.pop() !== name) return `</${name}> does not close the open element`;
+        continue;
+      }
+      if (sawRoot && stack.length === 0) return `second root element <${name}>`;
+      sawRoot = true;
+
+      const seen = new Set<string>();
+      const rest = attributes.replace(/\s+([^\s=]+)\s*=\s*("[^"<]*"|'[^'<]*')/g, (_, attribute: string) => {
+        if (seen.has(attribute)) return ` duplicate:${attribute}`;
+        seen.add(attribute);
+        if (attribute.startsWith('xmlns:')) prefixes.add(attribute.slice(6));
+        return '';
+      });
+      if (rest.trim()) return `malformed attributes on <${name}>: ${rest.trim()}`;
+
+      for (const qualified of [name, ...seen]) {
+        const prefix = qualified.includes(':') ? qualified.split(':')[0] : '';
+        if (prefix && !prefixes.has(prefix)) return `undeclared namespace prefix "${prefix}" on <${name}>`;
+      }
+
+      if (!selfClosing) stack.push(name);
+    }
+
+    if (!sawRoot) return 'no root element';
+    if (stack.length) return `<${stack[stack.length - 1]}> is never closed`;
+    return null;
+  }
+}
@@ -1,4 +1,5 @@
 import type { LectureSession, ExportOptions, TranscriptSegment } from '../../types';
+import type { SegmentTranslations } from '../../types/transcription';
 
 export interface JSONExportData {
   metadata: {
@@ -28,6 +29,7 @@ export interface JSONExportData {
     confidence?: number;
     language?: string;
     speaker?: string;
+    translations?: SegmentTranslations;
     wordCount: number;
     characterCount: number;
   }>;
@@ -101,6 +103,7 @@ export class JSONFormatter {
         confidence: segment.confidence,
         language: segment.language,
         speaker: segment.speaker,
+        translations: segment.translations,
         wordCount: segment.text.split(' ').length,
         characterCount: segment.text.length
       };
@@ -141,7 +144,8 @@ export class JSONFormatter {
               words: segment.text.split(' '),
               wordCount: segment.text.split(' ').length,
               characterCount: segment.text.length,
-              sentences: this.splitIntoSentences(segment.text)
+              sentences: this.splitIntoSentences(segment.text),
+              translations: segment.translations
             },
             metadata: {
               confidence: segment.confidence,
@@ -191,6 +195,7 @@ export class JSONFormatter {
         confidence: segment.confidence,
         language: segment.language,
         speaker: segment.speaker,
+        translations: segment.translations,
         wordCount: segment.text.split(' ').length,
         characterCount: segment.text.length
       })),
@@ -317,7 +322,8 @@ export class JSONFormatter {
           text: segment.text,
           confidence: segment.confidence,
           language: segment.language,
-          speaker: segment.speaker
+          speaker: segment.speaker,
+          translations: segment.translations
         })),
         summary: session.summary && options.includeSummary ? session.summary : undefined
       },
@@ -0,0 +1,209 @@
+import type { LectureSession, ExportOptions, TranscriptSegment, TimestampLinker } from '../../types';
+import { ZipWriter } from '../zipWriter';
+import { bilingualPair } from '../bilingual';
+
+// Notion's "Markdown & CSV" import: a CSV at the archive root becomes a database, and the
+// Markdown files in the folder of the same name become its rows' pages, matched by title.
+// Lecture details are database properties, so the pages themselves hold only the content.
+
+export interface NotionPage {
+  session: LectureSession;
+  markdown: string;
+  tags: string[];
+  url?: string; // Opens the lecture in LectureScript
+}
+
+export const NOTION_DATABASE_NAME = 'LectureScript Lectures';
+
+export const NOTION_COLUMNS = ['Name', 'Date', 'Duration (min)', 'Tags', 'Language', 'Words', 'Link'] as const;
+
+export class NotionFormatter {
+  /**
+   * Page body in the Markdown subset Notion imports: headings, quotes, lists and links.
+   * Raw HTML such as <aside> or <details> would be imported as literal text.
+   */
+  static generatePage(
+    session: LectureSession,
+    segments: TranscriptSegment[],
+    options: ExportOptions,
+    linkFor?: TimestampLinker
+  ): string {
+    const lines: string[] = [`# ${this.escapeMarkdown(session.name)}`, ''];
+
+    if (options.includeSummary && session.summary) {
+      lines.push('## 講座摘要 Summary', '');
+      session.summary
+        .split(/\n{2,}/)
+        .filter(text => text.trim())
+        .forEach((text, index) => lines.push(`> ${index === 0 ? '💡 ' : ''}${this.escapeMarkdown(text.trim()).replace(/\n/g, '\n> ')}`, ''));
+    }
+
+    if (options.includeSummary && session.keyTopics && session.keyTopics.length > 0) {
+      lines.push('## 重點 Key Topics', '');
+      session.keyTopics.forEach(topic => lines.push(`- ${this.escapeMarkdown(topic)}`));
+      lines.push('');
+    }
+
+    lines.push('## 完整逐字稿 Full Transcript', '');
+
+    if (segments.length === 0) {
+      lines.push('*(No transcript content)*', '');
+    }
+
+    const timestampLink = (segment: TranscriptSegment) => {
+      const timestamp = this.formatTimestamp(segment.timestamp);
+      const href = linkFor?.(segment.timestamp);
+      return href ? `[${timestamp}](${encodeURI(href)})` : `**${timestamp}**`;
+    };
+    const speakerPrefix = (segment: TranscriptSegment) =>
+      segment.speaker ? `**${this.escapeMarkdown(segment.speaker)}:** ` : '';
+
+    if (segments.length > 0 && options.language === 'both' && options.bilingual) {
+      // Notion imports pipe tables as simple tables; cells are single lines
+      const cell = (segment: TranscriptSegment, text?: string) =>
+        text ? `${speakerPrefix(segment)}${this.escapeMarkdown(text.trim()).replace(/\s*\n\s*/g, ' ')}` : '';
+      const header = options.includeTimestamps ? ['Time', '中文', 'English'] : ['中文', 'English'];
+
+      lines.push(`| ${header.join(' | ')} |`, `|${header.map(() => ' --- ').join('|')}|`);
+      segments.forEach(segment => {
+        const pair = bilingualPair(segment);
+        const cells = [cell(segment, pair.zh), cell(segment, pair.en)];
+        lines.push(`| ${(options.includeTimestamps ? [timestampLink(segment), ...cells] : cells).join(' | ')} |`);
+      });
+      lines.push('');
+    } else {
+      segments.forEach((segment, index) => {
+        if (options.layout === 'academic') {
+          lines.push(`### Segment ${index + 1}`, '');
+        }
+
+        const timestamp = options.includeTimestamps ? `${timestampLink(segment)} ` : '';
+        lines.push(`${timestamp}${speakerPrefix(segment)}${this.escapeMarkdown(segment.text.trim())}`, '');
+      });
+    }
+
+    if (options.includeBranding) {
+      lines.push('---', '', `*Generated by LectureScript on ${new Date().toLocaleString('zh-HK')}*`, '');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * One database for all pages: `<name>.csv` plus `<name>/<page>.md`. Titles that repeat get a
+   * number so every row still matches exactly one page.
+   */
+  static async generateDatabase(pages: NotionPage[], databaseName = NOTION_DATABASE_NAME): Promise<Blob> {
+    const zip = new ZipWriter();
+    const usedTitles = new Set<string>();
+    const rows: string[][] = [];
+
+    pages.forEach(page => {
+      const title = this.uniqueTitle(page.session.name.trim() || 'Untitled lecture', usedTitles);
+
+      zip.addFile(
+        `${databaseName}/${this.pageFileName(title)}`,
+        this.withTitle(page.markdown, title),
+        { date: new Date(page.session.startTime) }
+      );
+
+      rows.push([
+        title,
+        this.formatDate(page.session.startTime),
+        String(Math.round(page.session.duration / 6) / 10),
+        page.tags.map(tag => tag.replace(/[,\s]+/g, ' ').trim()).filter(Boolean).join(', '),
+        this.getLanguageDisplay(page.session.language),
+        String(page.session.wordCount),
+        page.url || '',
+      ]);
+    });
+
+    // UTF-8 BOM so spreadsheet apps opening the CSV directly also read the Chinese correctly
+    zip.addFile(`${databaseName}.csv`, `\uFEFF${[[...NOTION_COLUMNS], ...rows].map(row => row.map(field => this.csvField(field)).join(',')).join('\r\n')}\r\n`);
+
+    return await zip.generate();
+  }
+
+  /**
+   * File name for a page; Notion matches pages to rows by title, not by file name
+   */
+  static pageFileName(title: string): string {
+    const safe = title
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u001F/\\:*?"<>|#%]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .substring(0, 100);
+    return `${safe || 'Untitled'}.md`;
+  }
+
+  /**
+   * Notion's own export format for date properties, in Hong Kong time: "October 19, 2026 2:05 PM"
+   */
+  static formatDate(timestamp: number): string {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: 'Asia/Hong_Kong',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+    }).formatToParts(new Date(timestamp));
+    const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+
+    return `${part('month')} ${part('day')}, ${part('year')} ${part('hour')}:${part('minute')} ${part('dayPeriod').toUpperCase()}`;
+  }
+
+  /**
+   * Template output may start without the title; Notion names the row's page after its first H1
+   */
+  private static withTitle(markdown: string, title: string): string {
+    const body = markdown.replace(/^\s+/, '');
+    const firstLine = body.split('\n', 1)[0];
+    if (/^#\s/.test(firstLine)) {
+      return `# ${this.escapeMarkdown(title)}${body.slice(firstLine.length)}`;
+    }
+    return `# ${this.escapeMarkdown(title)}\n\n${body}`;
+  }
+
+  private static uniqueTitle(title: string, used: Set<string>): string {
+    let unique = title;
+    for (let n = 2; used.has(unique.toLowerCase()); n++) {
+      unique = `${title} (${n})`;
+    }
+    used.add(unique.toLowerCase());
+    return unique;
+  }
+
+  /**
+   * Backslash-escape characters that would otherwise turn transcript text into formatting
+   */
+  private static escapeMarkdown(text: string): string {
+    return text
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+      .replace(/([\\`*_[\]<>|~&])/g, '\\$1')
+      .replace(/^(\s*)(#|[-+](?=\s))/gm, '$1\\$2')
+      .replace(/^(\s*\d+)\.(?=\s)/gm, '$1\\.');
+  }
+
+  private static csvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+
+  private static formatTimestamp(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = Math.floor(seconds % 60);
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  }
+
+  private static getLanguageDisplay(language: string): string {
+    const languageMap = {
+      'zh': '中文',
+      'en': 'English',
+      'mixed': '中英文混合'
+    };
+    return languageMap[language as keyof typeof languageMap] || language;
+  }
+}
@@ -1,37 +1,727 @@
-import type { LectureSession, ExportOptions } from '../../types';
+import type { LectureSession, ExportOptions, TranscriptSegment } from '../../types';
 import { TemplateEngine, type TemplateData } from './templateEngine';
+import { PdfFontSet, StandardCJKFont, StandardLatinFont, TrueTypeFont, type PdfFont } from '../pdfFonts';
+import { PdfDocument, hexColor, type PdfColor, type PdfOutlineItem, type PdfPage } from '../pdfWriter';
+import type { TemplateSyntax } from '../../types/templates';
+import bundledFontUrl from '@expo-google-fonts/noto-sans-tc/400Regular/NotoSansTC_400Regular.ttf?url';
 
-// Simple Mustache-like template engine
-class MustacheRenderer {
-  static render(template: string, data: any): string {
-    return template.replace(/\{\{\{([^}]+)\}\}\}/g, (match, key) => {
-      return this.getValue(data, key.trim()) || '';
-    }).replace(/\{\{#([^}]+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (match, key, content) => {
-      const value = this.getValue(data, key.trim());
-      if (Array.isArray(value)) {
-        return value.map(item => this.render(content, item)).join('');
-      } else if (value) {
-        return this.render(content, data);
+// Embedded font for CJK text: Noto Sans TC, bundled as a build asset, unless VITE_PDF_FONT_URL
+// points at another TrueType font. If it can't be loaded the PDF falls back to the standard
+// Helvetica and MSung-Light fonts, which viewers substitute locally.
+const PDF_FONT_URL = import.meta.env.VITE_PDF_FONT_URL || bundledFontUrl;
+
+type PdfLayoutName = 'academic' | 'professional' | 'clean';
+
+interface PdfTheme {
+  titleAlign: 'left' | 'center';
+  headerBand?: [PdfColor, PdfColor]; // Gradient across the first page's title block
+  title: PdfColor;
+  subtitle: PdfColor;
+  heading: PdfColor;
+  text: PdfColor;
+  muted: PdfColor;
+  rule: PdfColor;
+  panel: PdfColor;
+  timestampFill: PdfColor;
+  timestampText: PdfColor;
+  speaker: PdfColor;
+  summaryFill: PdfColor;
+  summaryBorder: PdfColor;
+  summaryTitle: PdfColor;
+}
+
+// Colours follow the HTML templates in TemplateEngine
+const THEMES: Record<PdfLayoutName, PdfTheme> = {
+  academic: {
+    titleAlign: 'center',
+    title: hexColor('#202124'),
+    subtitle: hexColor('#5f6368'),
+    heading: hexColor('#1a73e8'),
+    text: hexColor('#202124'),
+    muted: hexColor('#5f6368'),
+    rule: hexColor('#dadce0'),
+    panel: hexColor('#f8f9fa'),
+    timestampFill: hexColor('#e3f2fd'),
+    timestampText: hexColor('#1565c0'),
+    speaker: hexColor('#d32f2f'),
+    summaryFill: hexColor('#f1f8e9'),
+    summaryBorder: hexColor('#81c784'),
+    summaryTitle: hexColor('#2e7d32'),
+  },
+  professional: {
+    titleAlign: 'left',
+    headerBand: [hexColor('#667eea'), hexColor('#764ba2')],
+    title: hexColor('#ffffff'),
+    subtitle: hexColor('#e8eaf6'),
+    heading: hexColor('#495057'),
+    text: hexColor('#333333'),
+    muted: hexColor('#6c757d'),
+    rule: hexColor('#e9ecef'),
+    panel: hexColor('#f8f9fa'),
+    timestampFill: hexColor('#eef0fc'),
+    timestampText: hexColor('#667eea'),
+    speaker: hexColor('#764ba2'),
+    summaryFill: hexColor('#f8f9fa'),
+    summaryBorder: hexColor('#667eea'),
+    summaryTitle: hexColor('#495057'),
+  },
+  clean: {
+    titleAlign: 'left',
+    title: hexColor('#2c3e50'),
+    subtitle: hexColor('#7f8c8d'),
+    heading: hexColor('#2c3e50'),
+    text: hexColor('#2c3e50'),
+    muted: hexColor('#95a5a6'),
+    rule: hexColor('#ecf0f1'),
+    panel: hexColor('#ffffff'),
+    timestampFill: hexColor('#ecf0f1'),
+    timestampText: hexColor('#7f8c8d'),
+    speaker: hexColor('#2c3e50'),
+    summaryFill: hexColor('#fff3cd'),
+    summaryBorder: hexColor('#ffc107'),
+    summaryTitle: hexColor('#856404'),
+  },
+};
+
+const MARGIN_X = 56;
+const MARGIN_TOP = 64;
+const MARGIN_BOTTOM = 72;
+const BODY_SIZE = 10.5;
+const LINE_HEIGHT = 1.55;
+const TIMESTAMP_COLUMN = 54;
+
+// Characters that may break anywhere, and closing punctuation that must not start a line
+const CJK_CHAR = /[\u2e80-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/;
+const NO_LINE_START = /^[,.;:!?)\]}\u3001\u3002\uff0c\uff0e\uff1a\uff1b\uff01\uff1f\uff09\u300d\u300f\u3011]$/;
+const TOKEN = /[\u2e80-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]|[^\s\u2e80-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]+|\s+/g;
+
+let embeddedFontData: Promise<Uint8Array | null> | null = null;
+
+/**
+ * Fetched once per session; the service worker keeps it for offline exports
+ */
+const loadEmbeddedFontData = (): Promise<Uint8Array | null> => {
+  if (!embeddedFontData) {
+    embeddedFontData = fetch(PDF_FONT_URL)
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.arrayBuffer();
+      })
+      .then(buffer => new Uint8Array(buffer))
+      .catch(error => {
+        console.error(`❌ PDF font ${PDF_FONT_URL} could not be loaded; Chinese text falls back to the viewer's fonts:`, error);
+        return null;
+      });
+  }
+  return embeddedFontData;
+};
+
+const createFontSet = async (): Promise<PdfFontSet> => {
+  const fonts: PdfFont[] = [];
+  const data = await loadEmbeddedFontData();
+  if (data) {
+    try {
+      fonts.push(new TrueTypeFont('F1', data));
+    } catch (error) {
+      // Dev servers answer missing files with index.html; anything unparsable is skipped
+      console.error(`❌ PDF font ${PDF_FONT_URL} is not a usable TrueType font:`, error);
+    }
+  }
+  fonts.push(new StandardLatinFont('F2'), new StandardCJKFont('F3'));
+  return new PdfFontSet(fonts);
+};
+
+/**
+ * Break text into lines no wider than `maxWidth`. Latin text breaks at spaces (or inside
+ * words too long for a line); CJK text breaks between any two characters.
+ */
+const wrapText = (text: string, fonts: PdfFontSet, size: number, maxWidth: number, firstLineIndent = 0): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    let lineWidth = 0;
+    const available = () => maxWidth - (lines.length === 0 ? firstLineIndent : 0);
+
+    const flush = () => {
+      lines.push(line.trimEnd());
+      line = '';
+      lineWidth = 0;
+    };
+
+    for (const token of paragraph.match(TOKEN) || []) {
+      const tokenWidth = fonts.measure(token, size);
+      const isSpace = /^\s+$/.test(token);
+
+      if (lineWidth + tokenWidth <= available() || (line && NO_LINE_START.test(token))) {
+        if (!isSpace || line) {
+          line += token;
+          lineWidth += tokenWidth;
+        }
+        continue;
+      }
+
+      if (isSpace) {
+        flush();
+        continue;
+      }
+      if (line) flush();
+
+      if (tokenWidth <= available() || CJK_CHAR.test(token)) {
+        line = token;
+        lineWidth = tokenWidth;
+        continue;
+      }
+
+      // A single word wider than the line: split it by character
+      for (const char of token) {
+        const charWidth = fonts.measure(char, size);
+        if (line && lineWidth + charWidth > available()) flush();
+        line += char;
+        lineWidth += charWidth;
+      }
+    }
+
+    if (line || lines.length === 0 || paragraph === '') flush();
+  }
+
+  return lines;
+};
+
+/**
+ * Shorten text to one line, ending in "..." when cut
+ */
+const fitText = (text: string, fonts: PdfFontSet, size: number, maxWidth: number): string => {
+  if (fonts.measure(text, size) <= maxWidth) return text;
+  const chars = Array.from(text);
+  while (chars.length > 0 && fonts.measure(`${chars.join('')}...`, size) > maxWidth) {
+    chars.pop();
+  }
+  return `${chars.join('').trimEnd()}...`;
+};
+
+// Rendered user templates are laid out as a flat list of blocks in the PDF theme's style
+type PdfBlock =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'bullet'; text: string }
+  | { kind: 'rule' };
+
+const decodeEntities = (text: string): string => {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/&amp;/g, '&');
+};
+
+/**
+ * Templates decorate headings with emoji the PDF fonts don't have; drop those rather than
+ * print '?', and use '|' for separator dots
+ */
+const drawableText = (text: string, fonts: PdfFontSet): string => {
+  const covered = (char: string) => fonts.all.some(font => font.covers(char.codePointAt(0)!));
+  return Array.from(text)
+    .map(char => {
+      if (covered(char)) return char;
+      if (/[\p{Extended_Pictographic}\uFE0E\uFE0F\u200D]/u.test(char)) return '';
+      if (/[\u00B7\u2022\u30FB]/.test(char)) return '|';
+      return char;
+    })
+    .join('')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+};
+
+/**
+ * Block structure of template HTML: headings, list items and rules, with every other block
+ * element ending a paragraph. Whitespace is collapsed first, as a browser would.
+ */
+const htmlToBlocks = (html: string): PdfBlock[] => {
+  const marked = html
+    .replace(/<(head|style|script|title)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/<h([1-6])\b[^>]*>/gi, '\n\u0001H$1')
+    .replace(/<li\b[^>]*>/gi, '\n\u0001L')
+    .replace(/<hr\b[^>]*>/gi, '\n\u0001R\n')
+    .replace(/<br\s*\/?>|<\/?(p|div|h[1-6]|li|ul|ol|tr|table|section|header|footer|article|aside|blockquote|pre)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, '');
+
+  const blocks: PdfBlock[] = [];
+  for (const rawLine of decodeEntities(marked).split('\n')) {
+    const line = rawLine.replace(/\s+/g, ' ').trim();
+    if (line.startsWith('\u0001H')) {
+      const text = line.slice(3).trim();
+      if (text) blocks.push({ kind: 'heading', level: Number(line.charAt(2)), text });
+    } else if (line.startsWith('\u0001L')) {
+      const text = line.slice(2).trim();
+      if (text) blocks.push({ kind: 'bullet', text });
+    } else if (line === '\u0001R') {
+      blocks.push({ kind: 'rule' });
+    } else if (line) {
+      blocks.push({ kind: 'paragraph', text: line });
+    }
+  }
+  return blocks;
+};
+
+/**
+ * Headings, list items, rules and paragraphs (consecutive lines join); inline emphasis is dropped
+ */
+const markdownToBlocks = (markdown: string): PdfBlock[] => {
+  const blocks: PdfBlock[] = [];
+  let paragraph: string[] = [];
+
+  const inline = (text: string) => decodeEntities(text.replace(/<[^>]+>/g, ''))
+    .replace(/\*\*|__|`/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .trim();
+
+  const flush = () => {
+    const text = inline(paragraph.join(' '));
+    if (text) blocks.push({ kind: 'paragraph', text });
+    paragraph = [];
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^\s*(?:[-*+]|\d+[.)])\s+(.*)$/);
+
+    if (heading) {
+      flush();
+      blocks.push({ kind: 'heading', level: heading[1].length, text: inline(heading[2]) });
+    } else if (/^\s*(?:-{3,}|\*{3,}|_{3,})\s*$/.test(line)) {
+      flush();
+      blocks.push({ kind: 'rule' });
+    } else if (bullet) {
+      flush();
+      blocks.push({ kind: 'bullet', text: inline(bullet[1]) });
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      paragraph.push(line.replace(/^\s*>\s?/, ''));
+    }
+  }
+  flush();
+
+  return blocks;
+};
+
+/**
+ * Flows TemplateData onto A4 pages: a cursor moves down the page and a new page is started
+ * whenever the next line does not fit. Headers, footers and page numbers are drawn at the end,
+ * once the page count is known.
+ */
+class PdfLayout {
+  readonly document: PdfDocument;
+  private page: PdfPage;
+  private y = MARGIN_TOP;
+  private readonly left = MARGIN_X;
+  private readonly width: number;
+  private data: TemplateData;
+  private fonts: PdfFontSet;
+  private theme: PdfTheme;
+  private layout: PdfLayoutName;
+
+  constructor(data: TemplateData, fonts: PdfFontSet, theme: PdfTheme, layout: PdfLayoutName) {
+    this.data = data;
+    this.fonts = fonts;
+    this.theme = theme;
+    this.layout = layout;
+    this.document = new PdfDocument({
+      title: data.title,
+      subject: 'Lecture transcript',
+      keywords: data.keyTopics?.join(', '),
+      language: 'zh-HK',
+    });
+    this.page = this.document.addPage();
+    this.width = this.page.width - MARGIN_X * 2;
+  }
+
+  render(): PdfDocument {
+    const outline = this.document.outline;
+
+    this.renderTitleBlock();
+    this.renderMetadata();
+
+    if (this.data.summary) {
+      outline.push(this.bookmark('Summary 講座摘要'));
+      // Plain text, drawn glyph by glyph: "<", "&" and the like print as typed
+      this.renderSummary(this.data.summary.trim());
+    }
+
+    if (this.data.keyTopics && this.data.keyTopics.length > 0) {
+      outline.push(this.bookmark('Key Topics 重點'));
+      this.renderKeyTopics(this.data.keyTopics);
+    }
+
+    const transcript = this.bookmark('Full Transcript 完整逐字稿');
+    outline.push(transcript);
+    this.renderTranscript(transcript);
+
+    this.renderPageFurniture();
+    return this.document;
+  }
+
+  /**
+   * Lay out a rendered user template instead of the built-in sections. The template supplies
+   * its own title; headings of level 1 and 2 become bookmarks.
+   */
+  renderBlocks(blocks: PdfBlock[]): PdfDocument {
+    const size = BODY_SIZE;
+    const lineHeight = size * LINE_HEIGHT;
+    const indent = 14;
+    let parent: PdfOutlineItem | null = null;
+
+    for (const original of blocks) {
+      const block = original.kind === 'rule' ? original : { ...original, text: drawableText(original.text, this.fonts) };
+      if (block.kind !== 'rule' && !block.text) continue;
+
+      switch (block.kind) {
+        case 'heading': {
+          if (block.level === 2) {
+            const bookmark = this.bookmark(block.text);
+            (parent ? (parent.children ||= []) : this.document.outline).push(bookmark);
+            this.renderHeading(block.text);
+            break;
+          }
+
+          const headingSize = block.level === 1 ? 20 : 12;
+          const headingHeight = headingSize * 1.4;
+          const lines = wrapText(block.text, this.fonts, headingSize, this.width);
+          this.ensure(headingHeight * lines.length + lineHeight * 2);
+
+          if (block.level === 1) {
+            parent = this.bookmark(block.text);
+            this.document.outline.push(parent);
+          }
+          for (const line of lines) {
+            const color = block.level === 1 ? this.theme.heading : this.theme.text;
+            this.page.text(this.left, this.baseline(headingSize, headingHeight), line, this.fonts, headingSize, color, { bold: true });
+            this.y += headingHeight;
+          }
+          this.y += block.level === 1 ? 12 : 4;
+          break;
+        }
+        case 'paragraph':
+        case 'bullet': {
+          const left = block.kind === 'bullet' ? this.left + indent : this.left;
+          const lines = wrapText(block.text, this.fonts, size, this.left + this.width - left);
+          this.ensure(lineHeight * Math.min(lines.length, 2));
+
+          lines.forEach((line, index) => {
+            this.ensure(lineHeight);
+            const baseline = this.baseline(size, lineHeight);
+            if (index === 0 && block.kind === 'bullet') {
+              this.page.text(this.left + 2, baseline, '-', this.fonts, size, this.theme.heading, { bold: true });
+            }
+            this.page.text(left, baseline, line, this.fonts, size, this.theme.text);
+            this.y += lineHeight;
+          });
+          this.y += block.kind === 'bullet' ? 2 : 8;
+          break;
+        }
+        case 'rule':
+          this.ensure(16);
+          this.y += 6;
+          this.page.line(this.left, this.y, this.left + this.width, this.y, this.theme.rule, 0.75);
+          this.y += 10;
+          break;
+      }
+    }
+
+    this.renderPageFurniture();
+    return this.document;
+  }
+
+  private get bottom(): number {
+    return this.page.height - MARGIN_BOTTOM;
+  }
+
+  private bookmark(title: string): PdfOutlineItem {
+    return { title, pageIndex: this.document.pages.indexOf(this.page), y: Math.max(0, this.y - 8) };
+  }
+
+  private newPage(): void {
+    this.page = this.document.addPage();
+    this.y = MARGIN_TOP;
+  }
+
+  /**
+   * Start a new page unless `height` more points fit on this one
+   */
+  private ensure(height: number): void {
+    if (this.y + height > this.bottom) this.newPage();
+  }
+
+  private baseline(size: number, lineHeight: number): number {
+    return this.y + (lineHeight - size) / 2 + size * 0.8;
+  }
+
+  private renderTitleBlock(): void {
+    const { theme, data, fonts, page } = this;
+    const titleSize = 22;
+    const titleLines = wrapText(data.title, fonts, titleSize, this.width);
+    const subtitle = this.layout === 'clean'
+      ? [data.metadata.date, data.metadata.duration, `${data.metadata.wordCount} words`, data.metadata.language].join(' | ')
+      : data.metadata.date;
+
+    if (theme.headerBand) {
+      const bandHeight = MARGIN_TOP + titleLines.length * titleSize * 1.3 + 48;
+      const steps = 48;
+      const [from, to] = theme.headerBand;
+      for (let i = 0; i < steps; i++) {
+        const t = i / (steps - 1);
+        const color: PdfColor = [from[0] + (to[0] - from[0]) * t, from[1] + (to[1] - from[1]) * t, from[2] + (to[2] - from[2]) * t];
+        page.fillRect((page.width / steps) * i, 0, page.width / steps + 0.5, bandHeight, color);
+      }
+      this.y = MARGIN_TOP - 16;
+    }
+
+    for (const line of titleLines) {
+      const lineHeight = titleSize * 1.3;
+      const x = theme.titleAlign === 'center'
+        ? this.left + (this.width - fonts.measure(line, titleSize)) / 2
+        : this.left;
+      page.text(x, this.baseline(titleSize, lineHeight), line, fonts, titleSize, theme.title, { bold: true });
+      this.y += lineHeight;
+    }
+
+    const subtitleSize = 10;
+    const subtitleText = fitText(subtitle, fonts, subtitleSize, this.width);
+    const subtitleX = theme.titleAlign === 'center'
+      ? this.left + (this.width - fonts.measure(subtitleText, subtitleSize)) / 2
+      : this.left;
+    page.text(subtitleX, this.baseline(subtitleSize, 18), subtitleText, fonts, subtitleSize, theme.subtitle);
+    this.y += 18;
+
+    if (theme.headerBand) {
+      this.y += 48;
+    } else {
+      this.y += 8;
+      page.line(this.left, this.y, this.left + this.width, this.y, this.layout === 'academic' ? theme.heading : theme.rule, this.layout === 'academic' ? 1.5 : 0.75);
+      this.y += 20;
+    }
+  }
+
+  private renderMetadata(): void {
+    if (this.layout === 'clean') return; // The subtitle line already carries it
+
+    const { metadata } = this.data;
+    const items: [string, string][] = this.layout === 'academic'
+      ? [
+          ['日期 Date', metadata.date],
+          ['時長 Duration', metadata.duration],
+          ['字數 Word Count', `${metadata.wordCount} words`],
+          ['語言 Language', metadata.language],
+          ['成本 Cost', metadata.cost],
+          ['導出日期 Export Date', metadata.exportDate],
+        ]
+      : [
+          ['Duration 時長', metadata.duration],
+          ['Words 字數', String(metadata.wordCount)],
+          ['Language 語言', metadata.language],
+          ['Cost 成本', metadata.cost],
+        ];
+
+    const columns = this.layout === 'academic' ? 2 : items.length;
+    const rows = Math.ceil(items.length / columns);
+    const cellWidth = this.width / columns;
+    const rowHeight = this.layout === 'academic' ? 20 : 40;
+    const padding = 10;
+    const height = rows * rowHeight + padding * 2;
+
+    this.ensure(height);
+    this.page.fillRect(this.left, this.y, this.width, height, this.theme.panel);
+
+    items.forEach(([label, value], index) => {
+      const x = this.left + (index % columns) * cellWidth + padding;
+      const top = this.y + padding + Math.floor(index / columns) * rowHeight;
+      const maxWidth = cellWidth - padding * 2;
+
+      if (this.layout === 'academic') {
+        const labelText = `${label}: `;
+        const labelWidth = this.page.text(x, top + 14, labelText, this.fonts, 9, this.theme.muted, { bold: true });
+        this.page.text(x + labelWidth, top + 14, fitText(value, this.fonts, 9, maxWidth - labelWidth), this.fonts, 9, this.theme.text);
+      } else {
+        this.page.text(x, top + 16, fitText(value, this.fonts, 13, maxWidth), this.fonts, 13, this.theme.heading, { bold: true });
+        this.page.text(x, top + 32, fitText(label, this.fonts, 8, maxWidth), this.fonts, 8, this.theme.muted);
       }
-      return '';
-    }).replace(/\{\{([^}]+)\}\}/g, (match, key) => {
-      const value = this.getValue(data, key.trim());
-      return this.escapeHtml(value) || '';
     });
+
+    this.y += height + 24;
+  }
+
+  private renderHeading(text: string): void {
+    const size = 14;
+    // Keep a heading together with at least two lines of what follows
+    this.ensure(size * 1.6 + BODY_SIZE * LINE_HEIGHT * 2 + 10);
+    this.page.text(this.left, this.baseline(size, size * 1.6), text, this.fonts, size, this.theme.heading, { bold: true });
+    this.y += size * 1.6;
+    this.page.line(this.left, this.y, this.left + this.width, this.y, this.theme.rule, 0.75);
+    this.y += 10;
+  }
+
+  /**
+   * Shaded box with a coloured left border; long summaries continue in a new box on the next page
+   */
+  private renderSummary(summary: string): void {
+    const padding = 12;
+    const size = BODY_SIZE;
+    const lineHeight = size * LINE_HEIGHT;
+    const titleHeight = 20;
+    const lines = wrapText(summary, this.fonts, size, this.width - padding * 2 - 4);
+
+    this.ensure(padding * 2 + titleHeight + lineHeight * Math.min(lines.length, 2));
+
+    let index = 0;
+    let first = true;
+    while (index < lines.length || first) {
+      const headerHeight = first ? titleHeight : 0;
+      const fitting = Math.max(1, Math.floor((this.bottom - this.y - padding * 2 - headerHeight) / lineHeight));
+      const chunk = lines.slice(index, index + fitting);
+      const height = padding * 2 + headerHeight + chunk.length * lineHeight;
+
+      this.page.fillRect(this.left, this.y, this.width, height, this.theme.summaryFill);
+      this.page.fillRect(this.left, this.y, 4, height, this.theme.summaryBorder);
+
+      let y = this.y + padding;
+      if (first) {
+        this.page.text(this.left + padding + 4, y + 13, 'Summary 講座摘要', this.fonts, 11, this.theme.summaryTitle, { bold: true });
+        y += headerHeight;
+      }
+      for (const line of chunk) {
+        this.page.text(this.left + padding + 4, y + (lineHeight - size) / 2 + size * 0.8, line, this.fonts, size, this.theme.text);
+        y += lineHeight;
+      }
+
+      this.y += height;
+      index += chunk.length;
+      first = false;
+      if (index < lines.length) this.newPage();
+    }
+
+    this.y += 24;
+  }
+
+  private renderKeyTopics(topics: string[]): void {
+    this.renderHeading('Key Topics 重點');
+    const size = BODY_SIZE;
+    const lineHeight = size * LINE_HEIGHT;
+    const indent = 14;
+
+    for (const topic of topics) {
+      const lines = wrapText(topic, this.fonts, size, this.width - indent);
+      lines.forEach((line, index) => {
+        this.ensure(lineHeight);
+        const baseline = this.baseline(size, lineHeight);
+        if (index === 0) this.page.text(this.left + 2, baseline, '-', this.fonts, size, this.theme.heading, { bold: true });
+        this.page.text(this.left + indent, baseline, line, this.fonts, size, this.theme.text);
+        this.y += lineHeight;
+      });
+    }
+
+    this.y += 20;
   }
 
-  private static getValue(obj: any, path: string): any {
-    return path.split('.').reduce((current, key) => current?.[key], obj);
+  /**
+   * One block per segment. With timestamps the time sits in a pill in its own column and each
+   * segment gets a bookmark under "Full Transcript". Bilingual exports split the text into
+   * parallel 中文 / English columns whose lines advance together.
+   */
+  private renderTranscript(bookmark: PdfOutlineItem): void {
+    this.renderHeading('Full Transcript 完整逐字稿');
+    const size = BODY_SIZE;
+    const lineHeight = size * LINE_HEIGHT;
+    const columnGap = 12;
+    const children: PdfOutlineItem[] = [];
+
+    for (const segment of this.data.segments) {
+      const textLeft = segment.timestamp ? this.left + TIMESTAMP_COLUMN : this.left;
+      const texts = this.data.bilingual ? [segment.zh || '', segment.en || ''] : [segment.text];
+      const columnWidth = (this.left + this.width - textLeft - columnGap * (texts.length - 1)) / texts.length;
+      const speaker = segment.speaker ? `${segment.speaker}: ` : '';
+      const speakerWidth = speaker ? this.fonts.measure(speaker, size) : 0;
+      const columns = texts.map((text, index) => ({
+        x: textLeft + index * (columnWidth + columnGap),
+        speaker: text ? speaker : '',
+        lines: text ? wrapText(text, this.fonts, size, columnWidth, speakerWidth) : [],
+      }));
+      const rows = Math.max(1, ...columns.map(column => column.lines.length));
+
+      // Avoid leaving a lone first line at the bottom of a page
+      this.ensure(lineHeight * Math.min(rows, 2));
+
+      if (segment.timestamp) {
+        children.push({
+          title: `[${segment.timestamp}] ${this.previewText(segment.text)}`,
+          pageIndex: this.document.pages.indexOf(this.page),
+          y: Math.max(0, this.y - 4),
+        });
+
+        const pillSize = 8;
+        const pillWidth = this.fonts.measure(segment.timestamp, pillSize) + 10;
+        this.page.fillRect(this.left, this.y + 2, pillWidth, lineHeight - 3, this.theme.timestampFill);
+        this.page.text(this.left + 5, this.baseline(pillSize, lineHeight) + 0.5, segment.timestamp, this.fonts, pillSize, this.theme.timestampText, { bold: true });
+      }
+
+      for (let row = 0; row < rows; row++) {
+        this.ensure(lineHeight);
+        const baseline = this.baseline(size, lineHeight);
+        for (const column of columns) {
+          if (row >= column.lines.length) continue;
+          let x = column.x;
+          if (row === 0 && column.speaker) {
+            x += this.page.text(x, baseline, column.speaker, this.fonts, size, this.theme.speaker, { bold: true });
+          }
+          this.page.text(x, baseline, column.lines[row], this.fonts, size, this.theme.text);
+        }
+        this.y += lineHeight;
+      }
+
+      this.y += this.layout === 'clean' ? 8 : 6;
+    }
+
+    if (children.length > 0) bookmark.children = children;
   }
 
-  private static escapeHtml(str: any): string {
-    if (typeof str !== 'string') return String(str || '');
-    return str
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#039;');
+  private previewText(text: string): string {
+    const chars = Array.from(text.replace(/\s+/g, ' ').trim());
+    return chars.length > 48 ? `${chars.slice(0, 48).join('').trimEnd()}…` : chars.join('');
+  }
+
+  /**
+   * Running header (from page 2) and footer with "Page n of N", branding and watermark
+   */
+  private renderPageFurniture(): void {
+    const { pages } = this.document;
+    const { theme, fonts, data } = this;
+    const right = this.left + this.width;
+
+    pages.forEach((page, index) => {
+      if (index > 0) {
+        const date = fitText(data.metadata.date, fonts, 8, this.width / 3);
+        const dateWidth = fonts.measure(date, 8);
+        page.text(this.left, 40, fitText(data.title, fonts, 8, this.width - dateWidth - 16), fonts, 8, theme.muted);
+        page.text(right - dateWidth, 40, date, fonts, 8, theme.muted);
+        page.line(this.left, 46, right, 46, theme.rule, 0.5);
+      }
+
+      const footerTop = page.height - MARGIN_BOTTOM + 24;
+      page.line(this.left, footerTop, right, footerTop, theme.rule, 0.5);
+
+      const pageLabel = `Page ${index + 1} of ${pages.length}`;
+      page.text(right - fonts.measure(pageLabel, 8), footerTop + 14, pageLabel, fonts, 8, theme.muted);
+      page.text(this.left, footerTop + 14, fitText(`Generated by ${data.branding.appName}`, fonts, 8, this.width - 80), fonts, 8, theme.muted);
+
+      if (data.branding.watermark) {
+        const watermark = fitText(data.branding.watermark, fonts, 7, this.width);
+        page.text(this.left + (this.width - fonts.measure(watermark, 7)) / 2, footerTop + 28, watermark, fonts, 7, theme.muted);
+      }
+    });
   }
 }
 
@@ -43,27 +733,14 @@ export class PDFFormatter {
   ): Promise<{ data: Blob; filename: string; mimeType: string }> {
     const templateData = TemplateEngine.generateTemplateData(session, segments, options);
 
-    // Select template based on layout
-    let template: string;
-    switch (options.layout) {
-      case 'academic':
-        template = TemplateEngine.getAcademicTemplate();
-        break;
-      case 'clean':
-        template = TemplateEngine.getCleanTemplate();
-        break;
-      case 'professional':
-      default:
-        template = TemplateEngine.getProfessionalTemplate();
-        break;
-    }
+    // Select theme based on layout; the remaining layouts share the professional look
+    const layout: PdfLayoutName = options.layout === 'academic' || options.layout === 'clean'
+      ? options.layout
+      : 'professional';
 
-    // Render HTML with template data
-    const html = MustacheRenderer.render(template, templateData);
-
-    // For now, we'll use the browser's print functionality to generate PDF
-    // In a production environment, you might want to use a server-side solution
-    const pdfBlob = await this.htmlToPdf(html);
+    const fonts = await createFontSet();
+    const document = new PdfLayout(templateData, fonts, THEMES[layout], layout).render();
+    const pdfBlob = await document.toBlob();
 
     return {
       data: pdfBlob,
@@ -72,71 +749,31 @@ export class PDFFormatter {
     };
   }
 
-  private static async htmlToPdf(html: string): Promise<Blob> {
-    // Create a temporary iframe to render the HTML
-    const iframe = document.createElement('iframe');
-    iframe.style.position = 'absolute';
-    iframe.style.left = '-9999px';
-    iframe.style.width = '210mm';
-    iframe.style.height = '297mm';
-    document.body.appendChild(iframe);
-
-    const iframeDoc = iframe.contentDocument!;
-    iframeDoc.open();
-    iframeDoc.write(html);
-    iframeDoc.close();
-
-    // Wait for fonts and styles to load
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
-    // Use the Print API to generate PDF
-    return new Promise((resolve, reject) => {
-      try {
-        // For now, we'll create a simple fallback
-        // In production, you'd want to use a proper PDF generation library
-        const printWindow = window.open('', '_blank');
-        if (!printWindow) {
-          reject(new Error('Could not open print window'));
-          return;
-        }
+  /**
+   * Client-side PDF from a rendered user template, in the look of the chosen layout
+   */
+  static async generateTemplatePDF(
+    session: LectureSession,
+    segments: TranscriptSegment[],
+    options: ExportOptions,
+    rendered: string,
+    syntax: TemplateSyntax
+  ): Promise<{ data: Blob; filename: string; mimeType: string }> {
+    const templateData = TemplateEngine.generateTemplateData(session, segments, options);
+    const layout: PdfLayoutName = options.layout === 'academic' || options.layout === 'clean'
+      ? options.layout
+      : 'professional';
+    const blocks = syntax === 'html' ? htmlToBlocks(rendered) : markdownToBlocks(rendered);
 
-        printWindow.document.write(html);
-        printWindow.document.close();
+    const fonts = await createFontSet();
+    const document = new PdfLayout(templateData, fonts, THEMES[layout], layout).renderBlocks(blocks);
+    const pdfBlob = await document.toBlob();
 
-        // Add print styles
-        const style = printWindow.document.createElement('style');
-        style.textContent = `
-          @media print {
-            @page {
-              size: A4;
-              margin: 20mm;
-            }
-            body {
-              -webkit-print-color-adjust: exact;
-              print-color-adjust: exact;
-            }
-          }
-        `;
-        printWindow.document.head.appendChild(style);
-
-        // Trigger print dialog
-        printWindow.onload = () => {
-          printWindow.print();
-          setTimeout(() => {
-            printWindow.close();
-            document.body.removeChild(iframe);
-          }, 100);
-        };
-
-        // For now, return the HTML as a blob
-        // This is a fallback - in production you'd generate actual PDF
-        const blob = new Blob([html], { type: 'text/html' });
-        resolve(blob);
-      } catch (error) {
-        document.body.removeChild(iframe);
-        reject(error);
-      }
-    });
+    return {
+      data: pdfBlob,
+      filename: `${this.sanitizeFilename(session.name)}.pdf`,
+      mimeType: 'application/pdf'
+    };
   }
 
   // Server-side PDF generation function (for backend implementation)
@@ -191,4 +828,4 @@ export class PDFFormatter {
       .replace(/^_|_$/g, '')
       .substring(0, 100);
   }
-}
\ No newline at end of file
+}
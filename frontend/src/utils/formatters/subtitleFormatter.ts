@@ -0,0 +1,387 @@
+import type { LectureSession, ExportFormat, ExportOptions, TranscriptSegment, SubtitleFormat, SubtitleOptions } from '../../types';
+import type { TranscriptionSegment } from '../../types/transcription';
+import { fromTranscriptSegments, needsSpaceBefore, toTranscriptionSegments } from '../transcriptDocument';
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
+  speaker?: string; // Set on the first cue after the speaker changes
+}
+
+// Broadcast-style defaults: two lines of 42 columns, at most six seconds on screen
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  maxLineLength: 42,
+  maxLines: 2,
+  maxCueDuration: 6,
+  minCueDuration: 1,
+  includeSpeakers: true,
+};
+
+const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip;charset=utf-8',
+  vtt: 'text/vtt;charset=utf-8',
+  ttml: 'application/ttml+xml;charset=utf-8',
+};
+
+interface CueToken {
+  text: string;
+  start: number;
+  end: number;
+  space: boolean; // Joined to the previous token with a space
+}
+
+// Wide characters take two columns of line length
+const WIDE_CHAR = /[\u1100-\u115f\u2e80-\u303e\u3040-\u33ff\u3400-\u4dbf\u4e00-\u9fff\ua960-\ua97f\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/;
+const CJK_UNIT = /[\u2e80-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/;
+// One CJK character, or a run of anything else up to the next space or CJK character
+const TEXT_UNIT = /[\u2e80-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]|[^\s\u2e80-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]+/g;
+// Closing punctuation stays on the line of the text before it
+const NO_LINE_START = /^[,.;:!?)\]}\u3001\u3002\uff0c\uff0e\uff1a\uff1b\uff01\uff1f\uff09\u300d\u300f\u3011]+$/;
+const SENTENCE_END = /[.!?\u3002\uff01\uff1f]["'\u300d\u300f)\uff09]*$/;
+
+const displayWidth = (text: string): number => {
+  let width = 0;
+  for (const char of text) {
+    width += WIDE_CHAR.test(char) ? 2 : 1;
+  }
+  return width;
+};
+
+const joinTokens = (tokens: CueToken[]): string => {
+  return tokens.reduce((text, token) => (text && token.space ? `${text} ${token.text}` : text + token.text), '');
+};
+
+/**
+ * Text of one caption line; the first token never carries a leading space
+ */
+const lineText = (tokens: CueToken[]): string => {
+  return joinTokens(tokens.map((token, index) => (index === 0 ? { ...token, space: false } : token)));
+};
+
+const formatCueTime = (seconds: number, separator: ',' | '.'): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}${separator}${ms.toString().padStart(3, '0')}`;
+};
+
+const escapeXML = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+const escapeVTT = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+/**
+ * Split text into units, remembering whether each was preceded by whitespace
+ */
+const textUnits = (text: string): Array<{ text: string; space: boolean }> => {
+  return Array.from(text.matchAll(TEXT_UNIT), match => ({
+    text: match[0],
+    space: (match.index ?? 0) > 0 && /\s/.test(text[(match.index ?? 0) - 1]),
+  }));
+};
+
+/**
+ * Spread `start`..`end` over `units` in proportion to their width
+ */
+const interpolateTokens = (units: Array<{ text: string; space: boolean }>, start: number, end: number): CueToken[] => {
+  const widths = units.map(unit => Math.max(1, displayWidth(unit.text)));
+  const total = widths.reduce((sum, width) => sum + width, 0);
+  const span = Math.max(0, end - start);
+
+  let cursor = start;
+  return units.map((unit, index) => {
+    const tokenStart = cursor;
+    cursor += (span * widths[index]) / total;
+    return { ...unit, start: tokenStart, end: index === units.length - 1 ? end : cursor };
+  });
+};
+
+export class SubtitleFormatter {
+  /**
+   * Session-level export used by EnhancedExportService
+   */
+  static generateSubtitles(
+    session: LectureSession,
+    segments: TranscriptSegment[],
+    format: SubtitleFormat,
+    options: ExportOptions
+  ): { data: string; filename: string; mimeType: string } {
+    const timed = toTranscriptionSegments(fromTranscriptSegments(segments, { duration: session.duration }));
+    const data = this.render(format, timed, {
+      ...options.subtitles,
+      title: session.name,
+      language: session.language,
+    });
+
+    return {
+      data,
+      filename: `${this.sanitizeFilename(session.name)}.${format}`,
+      mimeType: SUBTITLE_MIME_TYPES[format],
+    };
+  }
+
+  static render(
+    format: SubtitleFormat,
+    segments: TranscriptionSegment[],
+    options: Partial<SubtitleOptions> & { title?: string; language?: string } = {}
+  ): string {
+    const cues = this.buildCues(segments, options);
+
+    switch (format) {
+      case 'srt':
+        return this.toSRT(cues);
+      case 'vtt':
+        return this.toVTT(cues, options.title);
+      case 'ttml':
+        return this.toTTML(cues, options.title, options.language);
+      default:
+        throw new Error(`Unsupported subtitle format: ${format}`);
+    }
+  }
+
+  static isSubtitleFormat(format: ExportFormat): format is SubtitleFormat {
+    return format === 'srt' || format === 'vtt' || format === 'ttml';
+  }
+
+  static mimeType(format: SubtitleFormat): string {
+    return SUBTITLE_MIME_TYPES[format];
+  }
+
+  /**
+   * Split segments into cues that respect the line, line-count and duration limits. Cue timing
+   * comes from word timings when the transcriber provided them, otherwise it is interpolated
+   * across the segment by text width. Cues never span two segments.
+   */
+  static buildCues(segments: TranscriptionSegment[], options: Partial<SubtitleOptions> = {}): SubtitleCue[] {
+    const settings = { ...DEFAULT_SUBTITLE_OPTIONS, ...options };
+    const maxLineLength = Math.max(8, settings.maxLineLength);
+    const maxLines = Math.max(1, settings.maxLines);
+    const maxCueDuration = Math.max(1, settings.maxCueDuration);
+    const capacity = maxLineLength * maxLines;
+
+    const cues: SubtitleCue[] = [];
+    let lastSpeaker: string | undefined;
+
+    const sorted = [...segments].sort((a, b) => a.start - b.start);
+    for (const segment of sorted) {
+      const tokens = this.tokenize(segment, maxLineLength);
+      if (tokens.length === 0) continue;
+
+      let speaker = settings.includeSpeakers && segment.speaker && segment.speaker !== lastSpeaker
+        ? segment.speaker
+        : undefined;
+      lastSpeaker = segment.speaker;
+
+      let current: CueToken[] = [];
+      const close = () => {
+        if (current.length === 0) return;
+        cues.push({
+          start: current[0].start,
+          end: current[current.length - 1].end,
+          lines: this.wrapLines(current, maxLineLength),
+          speaker,
+        });
+        speaker = undefined;
+        current = [];
+      };
+
+      for (const token of tokens) {
+        if (current.length > 0) {
+          const tooLong = token.end - current[0].start > maxCueDuration && !NO_LINE_START.test(token.text);
+          const candidate = [...current, token];
+          const overflows = !NO_LINE_START.test(token.text) && this.wrapLines(candidate, maxLineLength).length > maxLines;
+          if (tooLong || overflows) close();
+        }
+
+        current.push(token);
+
+        // Prefer ending cues at sentence boundaries once they are reasonably full
+        if (SENTENCE_END.test(token.text) && displayWidth(joinTokens(current)) >= capacity / 2) {
+          close();
+        }
+      }
+      close();
+    }
+
+    return this.fixTimings(cues, settings.minCueDuration);
+  }
+
+  static toSRT(cues: SubtitleCue[]): string {
+    const blocks = cues.map((cue, index) => {
+      const lines = cue.speaker ? [`${cue.speaker}: ${cue.lines[0]}`, ...cue.lines.slice(1)] : cue.lines;
+      return `${index + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${lines.join('\n')}`;
+    });
+
+    // The BOM lets desktop players detect UTF-8 for Chinese captions
+    return `\ufeff${blocks.join('\n\n')}\n`;
+  }
+
+  static toVTT(cues: SubtitleCue[], title?: string): string {
+    const header = title ? `WEBVTT\n\nNOTE ${title.replace(/-->/g, '->').replace(/\n/g, ' ')}` : 'WEBVTT';
+    const blocks = cues.map((cue, index) => {
+      const text = cue.lines.map(escapeVTT).join('\n');
+      const body = cue.speaker ? `<v ${escapeVTT(cue.speaker)}>${text}` : text;
+      return `${index + 1}\n${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${body}`;
+    });
+
+    return `${[header, ...blocks].join('\n\n')}\n`;
+  }
+
+  static toTTML(cues: SubtitleCue[], title?: string, language?: string): string {
+    const lang = this.ttmlLanguage(language);
+    const paragraphs = cues.map(cue => {
+      const lines = cue.lines.map(escapeXML);
+      if (cue.speaker) {
+        lines[0] = `<span tts:fontWeight="bold">${escapeXML(cue.speaker)}:</span> ${lines[0]}`;
+      }
+      return `      <p begin="${formatCueTime(cue.start, '.')}" end="${formatCueTime(cue.end, '.')}">${lines.join('<br/>')}</p>`;
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<tt xmlns="http://www.w3.org/ns/ttml" xmlns:tts="http://www.w3.org/ns/ttml#styling" xmlns:ttm="http://www.w3.org/ns/ttml#metadata" xml:lang="${lang}">
+  <head>
+    <metadata>
+      <ttm:title>${escapeXML(title || 'Lecture captions')}</ttm:title>
+    </metadata>
+    <styling>
+      <style xml:id="caption" tts:textAlign="center" tts:color="white" tts:backgroundColor="black" tts:fontSize="100%"/>
+    </styling>
+    <layout>
+      <region xml:id="bottom" tts:origin="10% 80%" tts:extent="80% 15%" tts:displayAlign="after"/>
+    </layout>
+  </head>
+  <body region="bottom" style="caption">
+    <div>
+${paragraphs.join('\n')}
+    </div>
+  </body>
+</tt>
+`;
+  }
+
+  /**
+   * Timed units for one segment: its words, with CJK words longer than a line split into
+   * characters, or text units with interpolated times when there are no word timings
+   */
+  private static tokenize(segment: TranscriptionSegment, maxLineLength: number): CueToken[] {
+    const words = (segment.words || []).filter(word => word.word.trim());
+
+    if (words.length === 0) {
+      return interpolateTokens(textUnits(segment.text.trim()), segment.start, segment.end);
+    }
+
+    const tokens: CueToken[] = [];
+    for (const word of words) {
+      const text = word.word.trim();
+      const previous = tokens[tokens.length - 1];
+      // Whisper puts the space inside Latin words; other providers need one inserted
+      const space = Boolean(previous) && (/^\s/.test(word.word) || (needsSpaceBefore(word.word) && !CJK_UNIT.test(previous.text.slice(-1))));
+      const start = Math.max(word.start, segment.start);
+      const end = Math.max(start, word.end);
+
+      if (displayWidth(text) > maxLineLength || (CJK_UNIT.test(text) && text.length > 1 && displayWidth(text) > maxLineLength / 2)) {
+        const units = textUnits(text);
+        if (units.length > 0) units[0].space = space;
+        tokens.push(...interpolateTokens(units, start, end));
+      } else {
+        tokens.push({ text, start, end, space });
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Greedy line breaking, then an even split for two-line cues so the lines are similar in width
+   */
+  private static wrapLines(tokens: CueToken[], maxLineLength: number): string[] {
+    const lines: CueToken[][] = [];
+    let line: CueToken[] = [];
+
+    for (const token of tokens) {
+      const candidate = joinTokens([...line, token]);
+      if (line.length > 0 && displayWidth(candidate) > maxLineLength && !NO_LINE_START.test(token.text)) {
+        lines.push(line);
+        line = [token];
+      } else if (line.length === 0 && displayWidth(token.text) > maxLineLength) {
+        // Only a run without break opportunities (a long URL) gets here; it is cut by column
+        let chunk = '';
+        for (const char of token.text) {
+          if (chunk && displayWidth(chunk + char) > maxLineLength) {
+            lines.push([{ ...token, text: chunk }]);
+            chunk = '';
+          }
+          chunk += char;
+        }
+        line = [{ ...token, text: chunk }];
+      } else {
+        line.push(token);
+      }
+    }
+    if (line.length > 0) lines.push(line);
+
+    if (lines.length === 2) {
+      const all = [...lines[0], ...lines[1]];
+      let best = lines;
+      let bestDifference = Math.abs(displayWidth(lineText(lines[0])) - displayWidth(lineText(lines[1])));
+
+      for (let split = 1; split < all.length; split++) {
+        if (NO_LINE_START.test(all[split].text)) continue;
+        const first = displayWidth(joinTokens(all.slice(0, split)));
+        const second = displayWidth(lineText(all.slice(split)));
+        if (first > maxLineLength || second > maxLineLength) continue;
+        if (Math.abs(first - second) < bestDifference) {
+          bestDifference = Math.abs(first - second);
+          best = [all.slice(0, split), all.slice(split)];
+        }
+      }
+
+      return best.map(lineText);
+    }
+
+    return lines.map(lineText);
+  }
+
+  /**
+   * Cues must not overlap; short ones are held on screen until the minimum duration or the next cue
+   */
+  private static fixTimings(cues: SubtitleCue[], minCueDuration: number): SubtitleCue[] {
+    return cues.map((cue, index) => {
+      const next = cues[index + 1];
+      let end = Math.min(Math.max(cue.end, cue.start + minCueDuration), next ? next.start : Infinity);
+      if (end <= cue.start) end = cue.start + 0.001;
+      return { ...cue, end };
+    });
+  }
+
+  private static ttmlLanguage(language?: string): string {
+    switch (language) {
+      case 'en':
+        return 'en';
+      case 'zh':
+      case 'mixed':
+        return 'zh-HK';
+      default:
+        return language || 'und';
+    }
+  }
+
+  private static sanitizeFilename(filename: string): string {
+    return filename
+      .replace(/[^a-z0-9\u4e00-\u9fff]/gi, '_')
+      .replace(/_+/g, '_')
+      .replace(/^_|_$/g, '')
+      .substring(0, 100);
+  }
+}
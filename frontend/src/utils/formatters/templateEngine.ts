@@ -1,4 +1,15 @@
-import type { LectureSession, ExportOptions, TranscriptSegment } from '../../types';
+import type { LectureSession, ExportOptions, ExportFormat, TranscriptSegment } from '../../types';
+import type { ExportTemplate, TemplateContext, TemplateSyntax } from '../../types/templates';
+import { TemplateLanguage } from './templateLanguage';
+import { bilingualPair } from '../bilingual';
+
+// Which exporters can use a template of each syntax
+const TEMPLATE_FORMATS: Record<TemplateSyntax, ExportFormat[]> = {
+  html: ['gdocs', 'pdf'],
+  markdown: ['md', 'notion', 'pdf'],
+};
+
+const BUILT_IN_DATE = Date.UTC(2024, 0, 1);
 
 export interface TemplateData {
   title: string;
@@ -16,8 +27,12 @@ export interface TemplateData {
     text: string;
     speaker?: string;
     language?: string;
+    zh?: string;
+    en?: string;
   }[];
+  bilingual: boolean;
   summary?: string;
+  keyTopics?: string[];
   branding: {
     appName: string;
     logoUrl?: string;
@@ -52,12 +67,17 @@ export class TemplateEngine {
     };
 
     // Process segments
-    const segments = filteredSegments.map(segment => ({
-      timestamp: includeTimestamps ? this.formatTimestamp(segment.timestamp) : undefined,
-      text: segment.text.trim(),
-      speaker: segment.speaker,
-      language: segment.language
-    }));
+    const segments = filteredSegments.map(segment => {
+      const pair = bilingualPair(segment);
+      return {
+        timestamp: includeTimestamps ? this.formatTimestamp(segment.timestamp) : undefined,
+        text: segment.text.trim(),
+        speaker: segment.speaker,
+        language: segment.language,
+        zh: pair.zh?.trim(),
+        en: pair.en?.trim()
+      };
+    });
 
     return {
       title: session.name,
@@ -71,7 +91,62 @@ export class TemplateEngine {
         layout
       },
       segments,
+      bilingual: options.language === 'both' && Boolean(options.bilingual),
+      summary: session.summary,
+      keyTopics: session.keyTopics,
+      branding: {
+        appName: 'Lecture Transcription PWA',
+        watermark: options.includeWatermark ? 'Generated by Lecture Transcription PWA for Hong Kong Universities' : undefined
+      }
+    };
+  }
+
+  /**
+   * Raw values for user templates; unlike TemplateData nothing is pre-formatted
+   */
+  static generateTemplateContext(
+    session: LectureSession,
+    filteredSegments: TranscriptSegment[],
+    options: ExportOptions
+  ): TemplateContext {
+    const speakers = Array.from(new Set(
+      filteredSegments.map(segment => segment.speaker).filter((speaker): speaker is string => !!speaker)
+    ));
+
+    return {
+      title: session.name,
+      date: session.startTime,
+      exportDate: Date.now(),
+      duration: session.duration,
+      wordCount: session.wordCount || session.segments.reduce((acc, seg) => acc + seg.text.split(' ').length, 0),
+      language: session.language,
+      cost: session.cost,
       summary: session.summary,
+      keyTopics: session.keyTopics || [],
+      speakers,
+      segments: filteredSegments.map((segment, index) => {
+        const pair = bilingualPair(segment);
+        return {
+          index: index + 1,
+          start: segment.timestamp,
+          end: segment.end,
+          text: segment.text.trim(),
+          speaker: segment.speaker,
+          language: segment.language,
+          zh: pair.zh?.trim(),
+          en: pair.en?.trim(),
+        };
+      }),
+      options: {
+        format: options.format,
+        layout: options.layout || 'professional',
+        includeTimestamps: options.includeTimestamps,
+        includeSummary: options.includeSummary,
+        includeMetadata: options.includeMetadata,
+        includeBranding: options.includeBranding ?? true,
+        includeWatermark: options.includeWatermark ?? false,
+        bilingual: options.language === 'both' && Boolean(options.bilingual),
+      },
       branding: {
         appName: 'Lecture Transcription PWA',
         watermark: options.includeWatermark ? 'Generated by Lecture Transcription PWA for Hong Kong Universities' : undefined
@@ -79,6 +154,43 @@ export class TemplateEngine {
     };
   }
 
+  static renderTemplate(
+    template: ExportTemplate,
+    session: LectureSession,
+    filteredSegments: TranscriptSegment[],
+    options: ExportOptions
+  ): string {
+    const context = this.generateTemplateContext(session, filteredSegments, options);
+    return TemplateLanguage.render(template.body, template.syntax, context);
+  }
+
+  static supportsFormat(template: Pick<ExportTemplate, 'syntax'>, format: ExportFormat): boolean {
+    return TEMPLATE_FORMATS[template.syntax].includes(format);
+  }
+
+  /**
+   * Starting points for user templates; the ids are stable so saved export settings keep working
+   */
+  static getBuiltInTemplates(): ExportTemplate[] {
+    const builtIn = (id: string, name: string, description: string, syntax: TemplateSyntax, body: string): ExportTemplate => ({
+      id: `builtin-${id}`,
+      name,
+      description,
+      syntax,
+      body: body.trimStart(),
+      builtIn: true,
+      createdAt: BUILT_IN_DATE,
+      updatedAt: BUILT_IN_DATE,
+    });
+
+    return [
+      builtIn('academic', '🎓 Academic', 'University paper format', 'html', this.getAcademicTemplate()),
+      builtIn('professional', '💼 Professional', 'Clean corporate style', 'html', this.getProfessionalTemplate()),
+      builtIn('clean', '✨ Minimal', 'Simple and clean design', 'html', this.getCleanTemplate()),
+      builtIn('study-notes', '📋 Study Notes', 'Markdown notes with key topics and a heading per speaker', 'markdown', this.getStudyNotesTemplate()),
+    ];
+  }
+
   private static formatDuration(seconds: number): string {
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
@@ -104,7 +216,7 @@ export class TemplateEngine {
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>{{title}}</title>
+    <title>{{ title }}</title>
     <style>
         @import url('https://fonts.googleapis.com/css2?family=Noto+Sans+TC:wght@300;400;500;700&family=Inter:wght@300;400;500;600;700&display=swap');
 
@@ -247,64 +359,64 @@ export class TemplateEngine {
 </head>
 <body>
     <div class="header">
-        <h1 class="title">{{title}}</h1>
+        <h1 class="title">{{ title }}</h1>
         <div class="subtitle">講座逐字稿 | Lecture Transcript</div>
     </div>
 
-    {{#metadata}}
+    {% if options.includeMetadata %}
     <div class="metadata">
         <div class="metadata-grid">
             <div class="metadata-item">
                 <span class="metadata-label">日期 Date:</span>
-                <span>{{date}}</span>
+                <span>{{ date | date }}</span>
             </div>
             <div class="metadata-item">
                 <span class="metadata-label">時長 Duration:</span>
-                <span>{{duration}}</span>
+                <span>{{ duration | duration }}</span>
             </div>
             <div class="metadata-item">
                 <span class="metadata-label">字數 Word Count:</span>
-                <span>{{wordCount}} words</span>
+                <span>{{ wordCount }} words</span>
             </div>
             <div class="metadata-item">
                 <span class="metadata-label">語言 Language:</span>
-                <span>{{language}}</span>
+                <span>{{ language | language }}</span>
             </div>
             <div class="metadata-item">
                 <span class="metadata-label">成本 Cost:</span>
-                <span>{{cost}}</span>
+                <span>\${{ cost | fixed: 4 }}</span>
             </div>
             <div class="metadata-item">
                 <span class="metadata-label">導出日期 Export Date:</span>
-                <span>{{exportDate}}</span>
+                <span>{{ exportDate | date }}</span>
             </div>
         </div>
     </div>
-    {{/metadata}}
+    {% endif %}
 
-    {{#summary}}
+    {% if summary and options.includeSummary %}
     <div class="summary">
         <div class="summary-title">講座摘要 Summary</div>
-        <div>{{{summary}}}</div>
+        <div>{{ summary }}</div>
     </div>
-    {{/summary}}
+    {% endif %}
 
     <h2 class="section-title">完整逐字稿 Full Transcript</h2>
     <div class="transcript-content">
-        {{#segments}}
+        {% for segment in segments %}
         <div class="transcript-segment">
-            {{#timestamp}}<span class="timestamp">{{timestamp}}</span>{{/timestamp}}
-            {{#speaker}}<span class="speaker">{{speaker}}:</span>{{/speaker}}
-            <span>{{text}}</span>
+            {% if options.includeTimestamps %}<span class="timestamp">{{ segment.start | timestamp }}</span>{% endif %}
+            {% if segment.speaker %}<span class="speaker">{{ segment.speaker }}:</span>{% endif %}
+            <span>{{ segment.text }}</span>
         </div>
-        {{/segments}}
+        {% endfor %}
     </div>
 
     <div class="footer">
-        <div>{{branding.appName}}</div>
-        {{#branding.watermark}}
-        <div class="watermark">{{branding.watermark}}</div>
-        {{/branding.watermark}}
+        <div>{{ branding.appName }}</div>
+        {% if branding.watermark %}
+        <div class="watermark">{{ branding.watermark }}</div>
+        {% endif %}
     </div>
 </body>
 </html>`;
@@ -318,7 +430,7 @@ export class TemplateEngine {
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>{{title}}</title>
+    <title>{{ title }}</title>
     <style>
         @import url('https://fonts.googleapis.com/css2?family=Noto+Sans+TC:wght@300;400;500;600;700&family=Inter:wght@300;400;500;600;700&display=swap');
 
@@ -468,42 +580,42 @@ export class TemplateEngine {
 <body>
     <div class="container">
         <div class="header">
-            <h1 class="title">{{title}}</h1>
+            <h1 class="title">{{ title }}</h1>
         </div>
 
         <div class="content">
-            {{#metadata}}
+            {% if options.includeMetadata %}
             <div class="info-card">
                 <div class="info-grid">
                     <div class="info-item">
-                        <span class="info-value">{{date}}</span>
+                        <span class="info-value">{{ date | date }}</span>
                         <div class="info-label">Date 日期</div>
                     </div>
                     <div class="info-item">
-                        <span class="info-value">{{duration}}</span>
+                        <span class="info-value">{{ duration | duration }}</span>
                         <div class="info-label">Duration 時長</div>
                     </div>
                     <div class="info-item">
-                        <span class="info-value">{{wordCount}}</span>
+                        <span class="info-value">{{ wordCount }}</span>
                         <div class="info-label">Words 字數</div>
                     </div>
                     <div class="info-item">
-                        <span class="info-value">{{language}}</span>
+                        <span class="info-value">{{ language | language }}</span>
                         <div class="info-label">Language 語言</div>
                     </div>
                 </div>
             </div>
-            {{/metadata}}
+            {% endif %}
 
-            {{#summary}}
+            {% if summary and options.includeSummary %}
             <div class="summary-box">
                 <div class="summary-header">
                     <span class="section-icon">📋</span>
                     Lecture Summary 講座摘要
                 </div>
-                <div class="summary-content">{{{summary}}}</div>
+                <div class="summary-content">{{ summary }}</div>
             </div>
-            {{/summary}}
+            {% endif %}
 
             <div class="section">
                 <div class="section-header">
@@ -511,19 +623,19 @@ export class TemplateEngine {
                     <h2 class="section-title">Full Transcript 完整逐字稿</h2>
                 </div>
 
-                {{#segments}}
+                {% for segment in segments %}
                 <div class="transcript-item">
-                    {{#timestamp}}<span class="timestamp">{{timestamp}}</span>{{/timestamp}}
-                    {{#speaker}}<strong>{{speaker}}:</strong> {{/speaker}}
-                    {{text}}
+                    {% if options.includeTimestamps %}<span class="timestamp">{{ segment.start | timestamp }}</span>{% endif %}
+                    {% if segment.speaker %}<strong>{{ segment.speaker }}:</strong> {% endif %}
+                    {{ segment.text }}
                 </div>
-                {{/segments}}
+                {% endfor %}
             </div>
         </div>
 
         <div class="footer">
-            Generated by {{branding.appName}}
-            {{#branding.watermark}}<br><em>{{branding.watermark}}</em>{{/branding.watermark}}
+            Generated by {{ branding.appName }}
+            {% if branding.watermark %}<br><em>{{ branding.watermark }}</em>{% endif %}
         </div>
     </div>
 </body>
@@ -538,7 +650,7 @@ export class TemplateEngine {
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>{{title}}</title>
+    <title>{{ title }}</title>
     <style>
         body {
             font-family: 'SF Pro Text', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, 'Noto Sans TC', sans-serif;
@@ -599,34 +711,77 @@ export class TemplateEngine {
     </style>
 </head>
 <body>
-    <h1 class="title">{{title}}</h1>
+    <h1 class="title">{{ title }}</h1>
 
-    {{#metadata}}
+    {% if options.includeMetadata %}
     <div class="meta">
-        {{date}} • {{duration}} • {{wordCount}} words • {{language}}
+        {{ date | date }} • {{ duration | duration }} • {{ wordCount }} words • {{ language | language }}
     </div>
-    {{/metadata}}
+    {% endif %}
 
-    {{#summary}}
+    {% if summary and options.includeSummary %}
     <div class="summary">
-        <strong>Summary:</strong> {{{summary}}}
+        <strong>Summary:</strong> {{ summary }}
     </div>
-    {{/summary}}
+    {% endif %}
 
     <div class="transcript">
-        {{#segments}}
+        {% for segment in segments %}
         <p>
-            {{#timestamp}}<span class="time">{{timestamp}}</span>{{/timestamp}}
-            {{text}}
+            {% if options.includeTimestamps %}<span class="time">{{ segment.start | timestamp }}</span>{% endif %}
+            {{ segment.text }}
         </p>
-        {{/segments}}
+        {% endfor %}
     </div>
 
     <div class="footer">
-        {{branding.appName}}
-        {{#branding.watermark}}<br>{{branding.watermark}}{{/branding.watermark}}
+        {{ branding.appName }}
+        {% if branding.watermark %}<br>{{ branding.watermark }}{% endif %}
     </div>
 </body>
 </html>`;
   }
-}
\ No newline at end of file
+
+  // Markdown study notes template
+  static getStudyNotesTemplate(): string {
+    return `
+# {{ title }}
+
+{% if options.includeMetadata %}
+> 📅 {{ date | date }} · ⏱️ {{ duration | duration }} · 🗣️ {{ language | language }} · 📝 {{ wordCount }} words
+
+{% endif %}
+{% if keyTopics %}
+## 🔑 Key Topics
+
+{% for topic in keyTopics %}
+- {{ topic }}
+{% endfor %}
+
+{% endif %}
+{% if summary and options.includeSummary %}
+## 📋 Summary
+
+{{ summary }}
+
+{% endif %}
+## 🎙️ Transcript
+
+{% for segment in segments %}
+{% if segment.speaker and segment.speaker != loop.previous.speaker %}
+### {{ segment.speaker }}
+
+{% endif %}
+{% if options.includeTimestamps %}**[{{ segment.start | timestamp }}]** {% endif %}{{ segment.text }}{% if segment.language == 'en' and language == 'zh' %} _(English)_{% endif %}
+
+{% else %}
+_No transcript yet._
+{% endfor %}
+{% if options.includeBranding %}
+---
+
+*Generated by {{ branding.appName }} on {{ exportDate | date }}*
+{% endif %}
+`;
+  }
+}
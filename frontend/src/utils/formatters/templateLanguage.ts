@@ -0,0 +1,702 @@
+import type { TemplateSyntax } from '../../types/templates';
+
+// A small, sandboxed template language for user-defined export templates.
+//
+//   {{ title }}                         output, HTML-escaped in HTML templates
+//   {{ segment.start | timestamp }}     filters, with arguments as `| truncate: 80`
+//   {% for segment in segments %} ... {% else %} ... {% endfor %}
+//       loop.index, loop.index0, loop.first, loop.last, loop.length, loop.previous, loop.next
+//   {% if segment.speaker == 'Professor' and not options.includeTimestamps %} ... {% elif ... %} ... {% else %} ... {% endif %}
+//   {# comment #}
+//
+// Templates can only read data they are given: no function calls, no assignment and no
+// prototype access, and loops and output are capped so a template cannot hang the export.
+// A tag alone on its line leaves no blank line behind; `{%-` / `-%}` trim whitespace explicitly.
+
+const MAX_SOURCE_LENGTH = 200_000;
+const MAX_NESTING = 32;
+const MAX_LOOP_ITERATIONS = 100_000;
+const MAX_OUTPUT_LENGTH = 20_000_000;
+
+const FORBIDDEN_NAMES = new Set(['__proto__', 'prototype', 'constructor']);
+
+export class TemplateError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line = 0, column = 0) {
+    super(line > 0 ? `${message} (line ${line}, column ${column})` : message);
+    this.name = 'TemplateError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+type Expr =
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'path'; parts: string[] }
+  | { kind: 'filter'; input: Expr; name: string; args: Expr[] }
+  | { kind: 'not'; operand: Expr }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr };
+
+type Node =
+  | { kind: 'text'; value: string }
+  | { kind: 'output'; expr: Expr; line: number; column: number }
+  | { kind: 'if'; branches: { condition: Expr; body: Node[] }[]; otherwise: Node[] }
+  | { kind: 'for'; variable: string; iterable: Expr; body: Node[]; empty: Node[]; line: number; column: number };
+
+interface Tag {
+  type: 'output' | 'block' | 'comment';
+  content: string;
+  start: number;
+  end: number;
+  trimBefore: boolean;
+  trimAfter: boolean;
+}
+
+// Marks filter output that must not be escaped again
+class SafeString {
+  value: string;
+
+  constructor(value: string) {
+    this.value = value;
+  }
+}
+
+const escapeHTML = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+const toText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof SafeString) return value.value;
+  if (Array.isArray(value)) return value.map(toText).join(', ');
+  if (typeof value === 'object') return '';
+  return String(value);
+};
+
+const isTruthy = (value: unknown): boolean => {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value instanceof SafeString) return value.value.length > 0;
+  return Boolean(value);
+};
+
+const toNumber = (value: unknown): number => {
+  const parsed = Number(toText(value));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  zh: '中文',
+  en: 'English',
+  mixed: '中英文混合',
+};
+
+type Filter = (value: unknown, args: unknown[]) => unknown;
+
+const FILTERS: Record<string, Filter> = {
+  // Seconds as a clock position: 4:05 or 1:04:05
+  timestamp: value => {
+    const seconds = Math.max(0, Math.floor(toNumber(value)));
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds % 60)}` : `${minutes}:${pad(seconds % 60)}`;
+  },
+  // Seconds as a length: 1h 05m, 42m 10s or 8s
+  duration: value => {
+    const seconds = Math.max(0, Math.round(toNumber(value)));
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (hours > 0) return `${hours}h ${pad(minutes)}m`;
+    if (minutes > 0) return `${minutes}m ${pad(seconds % 60)}s`;
+    return `${seconds}s`;
+  },
+  // Milliseconds since the epoch, shown in Hong Kong time; 'date', 'time' or 'datetime'
+  date: (value, [style]) => {
+    const time = toNumber(value);
+    if (!time) return '';
+    const parts: Intl.DateTimeFormatOptions = style === 'time'
+      ? { hour: '2-digit', minute: '2-digit' }
+      : style === 'date'
+        ? { year: 'numeric', month: 'long', day: 'numeric' }
+        : { year: 'numeric', month: 'long', day: 'numeric', hour: '2-digit', minute: '2-digit' };
+    return new Date(time).toLocaleString('zh-HK', { ...parts, timeZone: 'Asia/Hong_Kong' });
+  },
+  language: value => LANGUAGE_NAMES[toText(value)] || toText(value),
+  upper: value => toText(value).toUpperCase(),
+  lower: value => toText(value).toLowerCase(),
+  capitalize: value => {
+    const text = toText(value);
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  },
+  trim: value => toText(value).trim(),
+  default: (value, [fallback]) => (value === null || value === undefined || toText(value) === '' ? fallback : value),
+  truncate: (value, [length]) => {
+    const chars = Array.from(toText(value));
+    const max = Math.max(1, Math.floor(toNumber(length ?? 80)));
+    return chars.length > max ? `${chars.slice(0, max).join('').trimEnd()}…` : chars.join('');
+  },
+  join: (value, [separator]) => (Array.isArray(value) ? value.map(toText).join(separator === undefined ? ', ' : toText(separator)) : toText(value)),
+  length: value => (Array.isArray(value) ? value.length : Array.from(toText(value)).length),
+  first: value => (Array.isArray(value) ? value[0] : Array.from(toText(value))[0]),
+  last: value => (Array.isArray(value) ? value[value.length - 1] : Array.from(toText(value)).pop()),
+  round: (value, [decimals]) => {
+    const factor = 10 ** Math.max(0, Math.floor(toNumber(decimals ?? 0)));
+    return Math.round(toNumber(value) * factor) / factor;
+  },
+  fixed: (value, [decimals]) => toNumber(value).toFixed(Math.min(10, Math.max(0, Math.floor(toNumber(decimals ?? 2))))),
+  escape: value => new SafeString(escapeHTML(toText(value))),
+  raw: value => new SafeString(toText(value)),
+};
+
+// ---------------------------------------------------------------------------
+// Expressions
+
+type ExprToken = { type: 'string' | 'number' | 'name' | 'op'; value: string };
+
+const EXPR_TOKEN = /\s*(?:("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|(-?\d+(?:\.\d+)?)|([A-Za-z_][\w]*(?:\.(?:[A-Za-z_]\w*|\d+))*)|(==|!=|<=|>=|<|>|\||:|,|\(|\)))/y;
+
+class ExpressionParser {
+  private tokens: ExprToken[] = [];
+  private index = 0;
+  private line: number;
+  private column: number;
+
+  constructor(source: string, line: number, column: number) {
+    this.line = line;
+    this.column = column;
+    this.tokenize(source);
+  }
+
+  parse(): Expr {
+    const expr = this.parseOr();
+    if (this.peek()) this.fail(`Unexpected "${this.peek()!.value}"`);
+    return expr;
+  }
+
+  private tokenize(source: string): void {
+    EXPR_TOKEN.lastIndex = 0;
+    let position = 0;
+    while (position < source.length) {
+      if (/^\s*$/.test(source.slice(position))) break;
+      EXPR_TOKEN.lastIndex = position;
+      const match = EXPR_TOKEN.exec(source);
+      if (!match) this.fail(`Cannot read "${source.slice(position).trim()}"`);
+
+      if (match![1] !== undefined) {
+        this.tokens.push({ type: 'string', value: match![1].slice(1, -1).replace(/\\(.)/g, '$1') });
+      } else if (match![2] !== undefined) {
+        this.tokens.push({ type: 'number', value: match![2] });
+      } else if (match![3] !== undefined) {
+        this.tokens.push({ type: 'name', value: match![3] });
+      } else {
+        this.tokens.push({ type: 'op', value: match![4] });
+      }
+      position = EXPR_TOKEN.lastIndex;
+    }
+  }
+
+  private peek(): ExprToken | undefined {
+    return this.tokens[this.index];
+  }
+
+  private accept(type: ExprToken['type'], value?: string): ExprToken | null {
+    const token = this.peek();
+    if (token && token.type === type && (value === undefined || token.value === value)) {
+      this.index++;
+      return token;
+    }
+    return null;
+  }
+
+  private fail(message: string): never {
+    throw new TemplateError(message, this.line, this.column);
+  }
+
+  private parseOr(): Expr {
+    let left = this.parseAnd();
+    while (this.accept('name', 'or')) {
+      left = { kind: 'binary', op: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseNot();
+    while (this.accept('name', 'and')) {
+      left = { kind: 'binary', op: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Expr {
+    if (this.accept('name', 'not')) {
+      return { kind: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expr {
+    const left = this.parseFiltered();
+    const token = this.peek();
+    if (token && token.type === 'op' && ['==', '!=', '<', '>', '<=', '>='].includes(token.value)) {
+      this.index++;
+      return { kind: 'binary', op: token.value, left, right: this.parseFiltered() };
+    }
+    return left;
+  }
+
+  private parseFiltered(): Expr {
+    let expr = this.parsePrimary();
+    while (this.accept('op', '|')) {
+      const name = this.accept('name');
+      if (!name) this.fail('Expected a filter name after "|"');
+      if (!Object.prototype.hasOwnProperty.call(FILTERS, name!.value)) this.fail(`Unknown filter "${name!.value}"`);
+
+      const args: Expr[] = [];
+      if (this.accept('op', ':')) {
+        do {
+          args.push(this.parsePrimary());
+        } while (this.accept('op', ','));
+      }
+      expr = { kind: 'filter', input: expr, name: name!.value, args };
+    }
+    return expr;
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.peek();
+    if (!token) this.fail('Expected a value');
+
+    if (this.accept('op', '(')) {
+      const inner = this.parseOr();
+      if (!this.accept('op', ')')) this.fail('Expected ")"');
+      return inner;
+    }
+
+    this.index++;
+    switch (token!.type) {
+      case 'string':
+        return { kind: 'literal', value: token!.value };
+      case 'number':
+        return { kind: 'literal', value: Number(token!.value) };
+      case 'name': {
+        if (token!.value === 'true' || token!.value === 'false') return { kind: 'literal', value: token!.value === 'true' };
+        if (token!.value === 'null') return { kind: 'literal', value: null };
+        if (['and', 'or', 'not'].includes(token!.value)) this.fail(`Unexpected "${token!.value}"`);
+
+        const parts = token!.value.split('.');
+        const forbidden = parts.find(part => FORBIDDEN_NAMES.has(part));
+        if (forbidden) this.fail(`"${forbidden}" cannot be used in templates`);
+        return { kind: 'path', parts };
+      }
+      default:
+        return this.fail(`Unexpected "${token!.value}"`);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Template structure
+
+class TemplateParser {
+  private source: string;
+  private tags: Tag[] = [];
+  private index = 0;
+  private depth = 0;
+
+  constructor(source: string) {
+    if (source.length > MAX_SOURCE_LENGTH) {
+      throw new TemplateError(`Templates are limited to ${MAX_SOURCE_LENGTH.toLocaleString()} characters`);
+    }
+    this.source = source;
+  }
+
+  parse(): Node[] {
+    this.tags = this.scan();
+    const { nodes, closedBy } = this.parseUntil([]);
+    if (closedBy) {
+      this.failAt(closedBy.start, `Unexpected {% ${closedBy.content} %}`);
+    }
+    return nodes;
+  }
+
+  private position(offset: number): { line: number; column: number } {
+    const before = this.source.slice(0, offset);
+    const line = before.split('\n').length;
+    return { line, column: offset - before.lastIndexOf('\n') };
+  }
+
+  private failAt(offset: number, message: string): never {
+    const { line, column } = this.position(offset);
+    throw new TemplateError(message, line, column);
+  }
+
+  /**
+   * Find every tag, and apply whitespace control and the standalone-line rule to its edges
+   */
+  private scan(): Tag[] {
+    const tags: Tag[] = [];
+    const opener = /\{\{|\{%|\{#/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = opener.exec(this.source))) {
+      const start = match.index;
+      const type = match[0] === '{{' ? 'output' : match[0] === '{%' ? 'block' : 'comment';
+      const closer = type === 'output' ? '}}' : type === 'block' ? '%}' : '#}';
+      const close = this.source.indexOf(closer, start + 2);
+      if (close === -1) this.failAt(start, `Unclosed ${match[0]}`);
+
+      let inner = this.source.slice(start + 2, close);
+      const trimBefore = inner.startsWith('-');
+      const trimAfter = inner.endsWith('-');
+      if (trimBefore) inner = inner.slice(1);
+      if (trimAfter) inner = inner.slice(0, -1);
+
+      tags.push({ type, content: inner.trim(), start, end: close + 2, trimBefore, trimAfter });
+      opener.lastIndex = close + 2;
+    }
+
+    return tags;
+  }
+
+  /**
+   * Text between tag `index - 1` and tag `index`, after whitespace handling
+   */
+  private textBefore(index: number): string {
+    const previous = this.tags[index - 1];
+    const next = this.tags[index];
+    let from = previous ? previous.end : 0;
+    let to = next ? next.start : this.source.length;
+
+    if (previous && previous.type !== 'output' && this.isStandalone(index - 1)) {
+      const newline = this.source.indexOf('\n', from);
+      from = newline === -1 ? to : Math.min(to, newline + 1);
+    }
+    if (next && next.type !== 'output' && this.isStandalone(index)) {
+      to = Math.max(from, this.source.lastIndexOf('\n', next.start - 1) + 1);
+    }
+
+    let text = this.source.slice(from, Math.max(from, to));
+    if (previous?.trimAfter) text = text.replace(/^\s+/, '');
+    if (next?.trimBefore) text = text.replace(/\s+$/, '');
+    return text;
+  }
+
+  /**
+   * A block or comment tag with nothing but whitespace around it on its line
+   */
+  private isStandalone(index: number): boolean {
+    const tag = this.tags[index];
+    const lineStart = this.source.lastIndexOf('\n', tag.start - 1) + 1;
+    const lineEndIndex = this.source.indexOf('\n', tag.end);
+    const lineEnd = lineEndIndex === -1 ? this.source.length : lineEndIndex;
+
+    // Tags are in source order, so only the adjacent ones can share the line
+    const previous = this.tags[index - 1];
+    const next = this.tags[index + 1];
+    if ((previous && previous.end > lineStart) || (next && next.start < lineEnd)) return false;
+
+    return /^[ \t]*$/.test(this.source.slice(lineStart, tag.start)) &&
+      /^[ \t]*\r?$/.test(this.source.slice(tag.end, lineEnd));
+  }
+
+  private parseExpression(content: string, offset: number): Expr {
+    const { line, column } = this.position(offset);
+    return new ExpressionParser(content, line, column).parse();
+  }
+
+  /**
+   * Parse nodes until one of `terminators` ({% else %}, {% endif %}, ...) or the end of the template
+   */
+  private parseUntil(terminators: string[]): { nodes: Node[]; closedBy: Tag | null } {
+    const nodes: Node[] = [];
+
+    while (this.index <= this.tags.length) {
+      const text = this.textBefore(this.index);
+      if (text) nodes.push({ kind: 'text', value: text });
+
+      const tag = this.tags[this.index];
+      if (!tag) {
+        this.index++;
+        break;
+      }
+      this.index++;
+
+      if (tag.type === 'comment') continue;
+
+      if (tag.type === 'output') {
+        if (!tag.content) this.failAt(tag.start, 'Empty {{ }}');
+        const { line, column } = this.position(tag.start);
+        nodes.push({ kind: 'output', expr: this.parseExpression(tag.content, tag.start), line, column });
+        continue;
+      }
+
+      const keyword = tag.content.split(/\s+/)[0];
+      if (terminators.includes(keyword)) {
+        return { nodes, closedBy: tag };
+      }
+
+      switch (keyword) {
+        case 'if':
+          nodes.push(this.parseIf(tag));
+          break;
+        case 'for':
+          nodes.push(this.parseFor(tag));
+          break;
+        case 'elif':
+        case 'else':
+        case 'endif':
+        case 'endfor':
+          this.failAt(tag.start, `{% ${keyword} %} without a matching opening tag`);
+          break;
+        default:
+          this.failAt(tag.start, `Unknown tag "${keyword}"`);
+      }
+    }
+
+    if (terminators.length > 0) {
+      this.failAt(this.source.length, `Missing {% ${terminators[terminators.length - 1]} %}`);
+    }
+    return { nodes, closedBy: null };
+  }
+
+  private enter(tag: Tag): void {
+    this.depth++;
+    if (this.depth > MAX_NESTING) this.failAt(tag.start, `Blocks may be nested at most ${MAX_NESTING} deep`);
+  }
+
+  private parseIf(tag: Tag): Node {
+    this.enter(tag);
+    const branches: { condition: Expr; body: Node[] }[] = [];
+    let condition = this.parseExpression(tag.content.slice(2).trim() || this.failAt(tag.start, 'Missing condition'), tag.start);
+    let otherwise: Node[] = [];
+
+    for (;;) {
+      const { nodes, closedBy } = this.parseUntil(['elif', 'else', 'endif']);
+      branches.push({ condition, body: nodes });
+      const keyword = closedBy!.content.split(/\s+/)[0];
+
+      if (keyword === 'elif') {
+        condition = this.parseExpression(closedBy!.content.slice(4).trim() || this.failAt(closedBy!.start, 'Missing condition'), closedBy!.start);
+        continue;
+      }
+      if (keyword === 'else') {
+        otherwise = this.parseUntil(['endif']).nodes;
+      }
+      break;
+    }
+
+    this.depth--;
+    return { kind: 'if', branches, otherwise };
+  }
+
+  private parseFor(tag: Tag): Node {
+    this.enter(tag);
+    const match = tag.content.match(/^for\s+([A-Za-z_]\w*)\s+in\s+(.+)$/);
+    if (!match) this.failAt(tag.start, 'Expected {% for item in list %}');
+    if (FORBIDDEN_NAMES.has(match![1]) || match![1] === 'loop') {
+      this.failAt(tag.start, `"${match![1]}" cannot be used as a loop variable`);
+    }
+
+    const iterable = this.parseExpression(match![2], tag.start);
+    const { nodes, closedBy } = this.parseUntil(['else', 'endfor']);
+    const empty = closedBy!.content === 'else' ? this.parseUntil(['endfor']).nodes : [];
+
+    this.depth--;
+    const { line, column } = this.position(tag.start);
+    return { kind: 'for', variable: match![1], iterable, body: nodes, empty, line, column };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+
+class TemplateRenderer {
+  private syntax: TemplateSyntax;
+  private scopes: Record<string, unknown>[];
+  private output: string[] = [];
+  private length = 0;
+  private iterations = 0;
+
+  constructor(syntax: TemplateSyntax, context: Record<string, unknown>) {
+    this.syntax = syntax;
+    this.scopes = [context];
+  }
+
+  render(nodes: Node[]): string {
+    this.renderNodes(nodes);
+    return this.output.join('');
+  }
+
+  private write(text: string): void {
+    this.length += text.length;
+    if (this.length > MAX_OUTPUT_LENGTH) {
+      throw new TemplateError('Template output is too large');
+    }
+    this.output.push(text);
+  }
+
+  private renderNodes(nodes: Node[]): void {
+    for (const node of nodes) {
+      switch (node.kind) {
+        case 'text':
+          this.write(node.value);
+          break;
+        case 'output': {
+          const value = this.evaluate(node.expr);
+          const text = toText(value);
+          this.write(value instanceof SafeString || this.syntax !== 'html' ? text : escapeHTML(text));
+          break;
+        }
+        case 'if': {
+          const branch = node.branches.find(candidate => isTruthy(this.evaluate(candidate.condition)));
+          this.renderNodes(branch ? branch.body : node.otherwise);
+          break;
+        }
+        case 'for':
+          this.renderLoop(node);
+          break;
+      }
+    }
+  }
+
+  private renderLoop(node: Extract<Node, { kind: 'for' }>): void {
+    const value = this.evaluate(node.iterable);
+    const items = Array.isArray(value) ? value : [];
+
+    if (items.length === 0) {
+      this.renderNodes(node.empty);
+      return;
+    }
+
+    items.forEach((item, index) => {
+      this.iterations++;
+      if (this.iterations > MAX_LOOP_ITERATIONS) {
+        throw new TemplateError('Template loops ran too many times', node.line, node.column);
+      }
+
+      this.scopes.push({
+        [node.variable]: item,
+        loop: {
+          index: index + 1,
+          index0: index,
+          first: index === 0,
+          last: index === items.length - 1,
+          length: items.length,
+          previous: items[index - 1],
+          next: items[index + 1],
+        },
+      });
+      this.renderNodes(node.body);
+      this.scopes.pop();
+    });
+  }
+
+  private lookup(parts: string[]): unknown {
+    let value: unknown = undefined;
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      if (Object.prototype.hasOwnProperty.call(this.scopes[i], parts[0])) {
+        value = this.scopes[i][parts[0]];
+        break;
+      }
+    }
+
+    for (const part of parts.slice(1)) {
+      if (value === null || typeof value !== 'object' || value instanceof SafeString) return undefined;
+      if (!Object.prototype.hasOwnProperty.call(value, part)) return undefined;
+      value = (value as Record<string, unknown>)[part];
+    }
+
+    return typeof value === 'function' ? undefined : value;
+  }
+
+  private evaluate(expr: Expr): unknown {
+    switch (expr.kind) {
+      case 'literal':
+        return expr.value;
+      case 'path':
+        return this.lookup(expr.parts);
+      case 'filter':
+        return FILTERS[expr.name](this.evaluate(expr.input), expr.args.map(arg => this.evaluate(arg)));
+      case 'not':
+        return !isTruthy(this.evaluate(expr.operand));
+      case 'binary': {
+        if (expr.op === 'and') return isTruthy(this.evaluate(expr.left)) && isTruthy(this.evaluate(expr.right));
+        if (expr.op === 'or') return isTruthy(this.evaluate(expr.left)) || isTruthy(this.evaluate(expr.right));
+
+        const left = this.evaluate(expr.left);
+        const right = this.evaluate(expr.right);
+        switch (expr.op) {
+          case '==':
+            return this.compare(left, right) === 0;
+          case '!=':
+            return this.compare(left, right) !== 0;
+          case '<':
+            return this.compare(left, right) < 0;
+          case '>':
+            return this.compare(left, right) > 0;
+          case '<=':
+            return this.compare(left, right) <= 0;
+          default:
+            return this.compare(left, right) >= 0;
+        }
+      }
+    }
+  }
+
+  /**
+   * Numbers compare numerically, everything else as text; missing values equal only each other
+   */
+  private compare(left: unknown, right: unknown): number {
+    const missing = (value: unknown) => value === null || value === undefined;
+    if (missing(left) || missing(right)) {
+      return missing(left) && missing(right) ? 0 : missing(left) ? -1 : 1;
+    }
+    if (typeof left === 'number' && typeof right === 'number') return left - right;
+    if (typeof left === 'boolean' || typeof right === 'boolean') return isTruthy(left) === isTruthy(right) ? 0 : 1;
+    return toText(left).localeCompare(toText(right));
+  }
+}
+
+export interface CompiledTemplate {
+  render(context: Record<string, unknown>): string;
+}
+
+export class TemplateLanguage {
+  static readonly filters = Object.keys(FILTERS);
+
+  /**
+   * Parse once, render many times (batch exports reuse one compiled template)
+   */
+  static compile(source: string, syntax: TemplateSyntax): CompiledTemplate {
+    const nodes = new TemplateParser(source).parse();
+    return {
+      render: context => new TemplateRenderer(syntax, context).render(nodes),
+    };
+  }
+
+  static render(source: string, syntax: TemplateSyntax, context: Record<string, unknown>): string {
+    return this.compile(source, syntax).render(context);
+  }
+
+  /**
+   * The first syntax error, or null when the template parses
+   */
+  static validate(source: string): TemplateError | null {
+    try {
+      new TemplateParser(source).parse();
+      return null;
+    } catch (error) {
+      if (error instanceof TemplateError) return error;
+      throw error;
+    }
+  }
+}
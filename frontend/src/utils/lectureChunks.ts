@@ -0,0 +1,115 @@
+// 🎯 LectureScript - Lecture Chunking
+// Split recordings into passages small enough to embed and cite
+// Author: Peter Levler
+
+import type { RecordingEntry, LectureChunk } from '../types/library';
+import { hashContent } from './searchIndex';
+
+// Roughly a minute of lecture; Chinese packs more per character, so this is counted in characters
+const TARGET_CHUNK_CHARS = 600;
+
+const SENTENCE_PATTERN = /[^.!?\u3002\uff01\uff1f\n]+[.!?\u3002\uff01\uff1f]*\s*/g;
+
+const sentencesOf = (text: string): string[] => text.match(SENTENCE_PATTERN) ?? [];
+
+interface Piece {
+  text: string;
+  start?: number;
+  end?: number;
+  segmentId?: string;
+}
+
+/**
+ * Greedily pack pieces into chunks of about TARGET_CHUNK_CHARS. Each chunk repeats the last piece
+ * of the one before, so an explanation that straddles a boundary is whole in at least one chunk.
+ */
+const packPieces = (pieces: Piece[]): Piece[][] => {
+  const groups: Piece[][] = [];
+  let current: Piece[] = [];
+  let length = 0;
+
+  pieces.forEach(piece => {
+    if (current.length > 0 && length + piece.text.length > TARGET_CHUNK_CHARS) {
+      groups.push(current);
+      const overlap = current[current.length - 1];
+      current = overlap.text.length < TARGET_CHUNK_CHARS / 2 ? [overlap] : [];
+      length = current.reduce((sum, item) => sum + item.text.length, 0);
+    }
+    current.push(piece);
+    length += piece.text.length;
+  });
+
+  if (current.length > 0) {
+    groups.push(current);
+  }
+
+  return groups;
+};
+
+const joinPieces = (pieces: Piece[]): string => {
+  // Chinese sentences run on without a space; English ones need one
+  return pieces.reduce((text, piece) => {
+    const next = piece.text.trim();
+    if (!text) return next;
+    return /[\u3000-\u303f\u3400-\u9fff\uff00-\uffef]$/.test(text) || /^[\u3400-\u9fff]/.test(next)
+      ? text + next
+      : `${text} ${next}`;
+  }, '');
+};
+
+const transcriptPieces = (recording: RecordingEntry): Piece[] => {
+  if (recording.segments && recording.segments.length > 0) {
+    return recording.segments
+      .filter(segment => segment.text.trim())
+      .map(segment => ({ text: segment.text, start: segment.start, end: segment.end, segmentId: segment.id }));
+  }
+
+  // Live recordings only keep the running text, so sentences stand in for segments
+  return sentencesOf(recording.transcript || '')
+    .filter(sentence => sentence.trim())
+    .map(text => ({ text }));
+};
+
+export const chunkRecording = (recording: RecordingEntry): LectureChunk[] => {
+  const chunks: LectureChunk[] = packPieces(transcriptPieces(recording)).map(group => ({
+    id: '',
+    recordingId: recording.id,
+    source: 'transcript',
+    text: joinPieces(group),
+    start: group[0].start,
+    end: group[group.length - 1].end,
+    segmentId: group[0].segmentId,
+  }));
+
+  if (recording.pdfContext?.summary) {
+    chunks.push({
+      id: '',
+      recordingId: recording.id,
+      source: 'slides',
+      text: `${recording.pdfContext.title}\n${recording.pdfContext.summary}`,
+    });
+  }
+
+  return chunks.map((chunk, index) => ({ ...chunk, id: `${recording.id}:${index}` }));
+};
+
+/**
+ * Changes whenever the chunks would, so stored vectors can be checked without re-embedding
+ */
+export const chunksHash = (chunks: LectureChunk[]): string =>
+  hashContent(chunks.map(chunk => chunk.text).join('\u0000'));
+
+/**
+ * Split a passage into sentences, for quoting the part that answers a question
+ */
+export const splitSentences = (text: string): string[] =>
+  sentencesOf(text).map(sentence => sentence.trim()).filter(Boolean);
+
+/** One row of the lectureChunks store */
+export interface LectureChunkRecord extends LectureChunk {
+  /** EmbeddingProvider.model the vector came from */
+  model: string;
+  /** chunksHash of the recording when it was embedded */
+  contentHash: string;
+  vector: Float32Array;
+}
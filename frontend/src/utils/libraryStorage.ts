@@ -1,52 +1,76 @@
-import { openDB, type IDBPDatabase } from 'idb';
-import type { RecordingEntry, LibraryFilters, LibraryStats } from '../types/library';
-
-const DB_NAME = 'LectureLibraryDB';
-const DB_VERSION = 1;
+import type { IDBPDatabase, IDBPTransaction } from 'idb';
+import type {
+  RecordingEntry,
+  Course,
+  Term,
+  LibraryFilters,
+  LibraryStats,
+  LibrarySearchResult,
+  TranscriptionStatus,
+  StudyViewState
+} from '../types/library';
+import type { TranscriptionSegment } from '../types/transcription';
+import {
+  SEARCH_INDEX_VERSION,
+  SEARCH_META_ID,
+  buildSnippet,
+  hasTextClauses,
+  indexDocument,
+  matchesSearchOperators,
+  parseSearchQuery,
+  queryTerms,
+  rankDocuments,
+  type ParsedSearchQuery,
+  type SearchDocRecord,
+  type SearchHit,
+  type SearchIndexMeta,
+  type SearchTermRecord
+} from './searchIndex';
+import type { LectureChunkRecord } from './lectureChunks';
+import { matchCourse } from './courseSchedule';
+import { lectureDatabase } from './database/lectureDatabase';
+
+// Stores a recording write touches, so the search index changes in the same transaction
+const RECORDING_WRITE_STORES = [
+  'recordings',
+  'recordingAudio',
+  'recordingPdf',
+  'searchTerms',
+  'searchDocs',
+  'libraryStats',
+  'lectureChunks',
+  'courses',
+  'terms'
+];
+
+type LibraryTransaction = IDBPTransaction<unknown, string[], 'readwrite'>;
 
 class LibraryStorageManager {
   private db: IDBPDatabase | null = null;
+  private searchIndexBuild: Promise<void> | null = null;
 
   async initialize(): Promise<void> {
     if (this.db) return;
 
-    this.db = await openDB(DB_NAME, DB_VERSION, {
-      upgrade(db) {
-        // Recordings store
-        if (!db.objectStoreNames.contains('recordings')) {
-          const recordingStore = db.createObjectStore('recordings', { keyPath: 'id' });
-          recordingStore.createIndex('dateCreated', 'dateCreated');
-          recordingStore.createIndex('title', 'title');
-          recordingStore.createIndex('duration', 'duration');
-          recordingStore.createIndex('wordCount', 'wordCount');
-          recordingStore.createIndex('tags', 'tags', { multiEntry: true });
-          recordingStore.createIndex('hasPdfContext', 'pdfContext', { unique: false });
-          recordingStore.createIndex('hasAudio', 'hasAudio');
-          recordingStore.createIndex('isFavorited', 'isFavorited');
-          recordingStore.createIndex('isArchived', 'isArchived');
-        }
-
-        // Library stats store
-        if (!db.objectStoreNames.contains('libraryStats')) {
-          db.createObjectStore('libraryStats', { keyPath: 'id' });
-        }
-
-        // Audio blobs store for recordings
-        if (!db.objectStoreNames.contains('recordingAudio')) {
-          db.createObjectStore('recordingAudio', { keyPath: 'recordingId' });
-        }
-      },
-    });
+    this.db = await lectureDatabase.open();
   }
 
   // Recording CRUD operations
   async saveRecording(recording: RecordingEntry): Promise<void> {
     if (!this.db) await this.initialize();
 
-    // Separate audio blob from main record for storage efficiency
-    const { audioBlob, ...recordingData } = recording;
+    // Separate audio and PDF blobs from main record for storage efficiency
+    const { audioBlob, pdfBlob, ...recordingData } = recording;
+
+    const tx = this.db!.transaction(RECORDING_WRITE_STORES, 'readwrite');
 
-    const tx = this.db!.transaction(['recordings', 'recordingAudio'], 'readwrite');
+    const previous: RecordingEntry | undefined = await tx.objectStore('recordings').get(recording.id);
+    if (!previous && recordingData.courseId === undefined) {
+      const course = await this.autoAssignCourse(tx, recordingData);
+      if (course) {
+        recordingData.courseId = course;
+      }
+    }
 
     await tx.objectStore('recordings').put(recordingData);
 
@@ -58,22 +82,47 @@ class LibraryStorageManager {
       });
     }
 
+    if (pdfBlob) {
+      await tx.objectStore('recordingPdf').put({
+        recordingId: recording.id,
+        pdfBlob,
+        timestamp: Date.now()
+      });
+    }
+
+    await this.updateSearchIndex(tx, recording.id, recordingData);
+
+    // Lecture numbers follow the course's recordings by date
+    if (previous?.courseId !== recordingData.courseId || previous?.dateCreated !== recordingData.dateCreated) {
+      const affected = new Set([previous?.courseId, recordingData.courseId].filter((id): id is string => Boolean(id)));
+      for (const courseId of affected) {
+        await this.renumberLectures(tx, courseId);
+      }
+      if (!recordingData.courseId && recordingData.lectureNumber !== undefined) {
+        await tx.objectStore('recordings').put({ ...recordingData, lectureNumber: undefined });
+      }
+    }
+
+    await tx.done;
+
     await this.updateLibraryStats();
   }
 
   async getRecording(id: string): Promise<RecordingEntry | undefined> {
     if (!this.db) await this.initialize();
 
-    const tx = this.db!.transaction(['recordings', 'recordingAudio'], 'readonly');
+    const tx = this.db!.transaction(['recordings', 'recordingAudio', 'recordingPdf'], 'readonly');
 
     const recording = await tx.objectStore('recordings').get(id);
     if (!recording) return undefined;
 
     const audioData = await tx.objectStore('recordingAudio').get(id);
+    const pdfData = recording.hasPdf ? await tx.objectStore('recordingPdf').get(id) : undefined;
 
     return {
       ...recording,
-      audioBlob: audioData?.audioBlob
+      audioBlob: audioData?.audioBlob,
+      pdfBlob: pdfData?.pdfBlob
     };
   }
 
@@ -100,23 +149,30 @@ class LibraryStorageManager {
   }
 
   async getFilteredRecordings(filters: LibraryFilters): Promise<RecordingEntry[]> {
+    const results = await this.getSearchResults(filters);
+    return results.map(result => result.recording);
+  }
+
+  /**
+   * Filtered recordings with their search score and a snippet of the first transcript match.
+   * The search box goes through the full-text index; see parseSearchQuery for its operators.
+   */
+  async getSearchResults(filters: LibraryFilters): Promise<LibrarySearchResult[]> {
     if (!this.db) await this.initialize();
 
+    const query = parseSearchQuery(filters.search || '');
+    const hits = hasTextClauses(query) ? await this.queryIndex(query) : null;
+
     let recordings = await this.getAllRecordings();
 
     // Apply filters
     recordings = recordings.filter(recording => {
+      // Course filter
+      if (filters.courseId && recording.courseId !== filters.courseId) return false;
+
       // Search filter
-      if (filters.search) {
-        const searchLower = filters.search.toLowerCase();
-        const matches =
-          recording.title.toLowerCase().includes(searchLower) ||
-          recording.transcript.toLowerCase().includes(searchLower) ||
-          recording.keyTopics.some(topic => topic.toLowerCase().includes(searchLower)) ||
-          recording.tags.some(tag => tag.toLowerCase().includes(searchLower));
-
-        if (!matches) return false;
-      }
+      if (hits && !hits.has(recording.id)) return false;
+      if (!matchesSearchOperators(recording, query)) return false;
 
       // Date range filter
       if (filters.dateRange.start && recording.dateCreated < filters.dateRange.start) {
@@ -165,12 +221,24 @@ class LibraryStorageManager {
       return true;
     });
 
+    // Relevance needs words to rank by; operator-only searches keep the newest first
+    const sortBy = filters.sortBy === 'relevance' && !hits ? 'dateCreated' : filters.sortBy;
+
     // Apply sorting
     recordings.sort((a, b) => {
       let aValue: any;
       let bValue: any;
 
-      switch (filters.sortBy) {
+      switch (sortBy) {
+        case 'relevance':
+          aValue = hits!.get(a.id)!.score;
+          bValue = hits!.get(b.id)!.score;
+          break;
+        case 'lectureNumber':
+          // Recordings outside a course sort after the numbered lectures
+          aValue = a.lectureNumber ?? Number.MAX_SAFE_INTEGER;
+          bValue = b.lectureNumber ?? Number.MAX_SAFE_INTEGER;
+          break;
         case 'dateCreated':
           aValue = a.dateCreated;
           bValue = b.dateCreated;
@@ -199,7 +267,20 @@ class LibraryStorageManager {
       }
     });
 
-    return recordings;
+    if (!hits) {
+      return recordings.map(recording => ({ recording, score: 0 }));
+    }
+
+    const tx = this.db!.transaction('searchDocs', 'readonly');
+    return Promise.all(recordings.map(async recording => {
+      const hit = hits.get(recording.id)!;
+      const doc: SearchDocRecord | undefined = await tx.store.get(recording.id);
+      return {
+        recording,
+        score: hit.score,
+        snippet: doc ? buildSnippet(recording, doc, hit, query) : undefined
+      };
+    }));
   }
 
   async updateRecording(id: string, updates: Partial<RecordingEntry>): Promise<void> {
@@ -215,12 +296,16 @@ class LibraryStorageManager {
   async deleteRecording(id: string): Promise<void> {
     if (!this.db) await this.initialize();
 
-    const tx = this.db!.transaction(['recordings', 'recordingAudio'], 'readwrite');
+    const tx = this.db!.transaction(RECORDING_WRITE_STORES, 'readwrite');
 
     await Promise.all([
       tx.objectStore('recordings').delete(id),
-      tx.objectStore('recordingAudio').delete(id)
+      tx.objectStore('recordingAudio').delete(id),
+      tx.objectStore('recordingPdf').delete(id),
+      this.updateSearchIndex(tx, id),
+      this.deleteLectureChunks(tx, id)
     ]);
+    await tx.done;
 
     await this.updateLibraryStats();
   }
@@ -257,6 +342,106 @@ class LibraryStorageManager {
     }
   }
 
+  // Courses and terms
+  async getCourses(): Promise<Course[]> {
+    if (!this.db) await this.initialize();
+    const courses: Course[] = await this.db!.getAll('courses');
+    return courses.sort((a, b) => a.code.localeCompare(b.code));
+  }
+
+  async saveCourse(course: Course): Promise<void> {
+    if (!this.db) await this.initialize();
+    await this.db!.put('courses', course);
+  }
+
+  /**
+   * Delete a course; its recordings stay in the library, unassigned
+   */
+  async deleteCourse(id: string): Promise<void> {
+    if (!this.db) await this.initialize();
+
+    const tx = this.db!.transaction(['courses', 'recordings'], 'readwrite');
+    const recordings = tx.objectStore('recordings');
+    const assigned: RecordingEntry[] = await recordings.index('courseId').getAll(id);
+
+    await Promise.all([
+      tx.objectStore('courses').delete(id),
+      ...assigned.map(recording => recordings.put({ ...recording, courseId: undefined, lectureNumber: undefined }))
+    ]);
+    await tx.done;
+  }
+
+  async getCourseRecordings(courseId: string): Promise<RecordingEntry[]> {
+    if (!this.db) await this.initialize();
+    const recordings: RecordingEntry[] = await this.db!.getAllFromIndex('recordings', 'courseId', courseId);
+    return recordings.sort((a, b) => (a.lectureNumber ?? 0) - (b.lectureNumber ?? 0));
+  }
+
+  /**
+   * Move a recording into a course (or out of every course with null); lecture numbers follow
+   */
+  async assignRecordingToCourse(recordingId: string, courseId: string | null): Promise<void> {
+    await this.updateRecording(recordingId, { courseId: courseId ?? undefined });
+  }
+
+  async getTerms(): Promise<Term[]> {
+    if (!this.db) await this.initialize();
+    const terms: Term[] = await this.db!.getAll('terms');
+    return terms.sort((a, b) => b.startDate - a.startDate);
+  }
+
+  async saveTerm(term: Term): Promise<void> {
+    if (!this.db) await this.initialize();
+    await this.db!.put('terms', term);
+  }
+
+  /**
+   * Delete a term; its courses are kept without one
+   */
+  async deleteTerm(id: string): Promise<void> {
+    if (!this.db) await this.initialize();
+
+    const tx = this.db!.transaction(['terms', 'courses'], 'readwrite');
+    const courses = tx.objectStore('courses');
+    const inTerm: Course[] = await courses.index('termId').getAll(id);
+
+    await Promise.all([
+      tx.objectStore('terms').delete(id),
+      ...inTerm.map(course => courses.put({ ...course, termId: undefined }))
+    ]);
+    await tx.done;
+  }
+
+  /**
+   * Course for a recording saved for the first time, from the timetable and its slides
+   */
+  private async autoAssignCourse(tx: LibraryTransaction, recording: RecordingEntry): Promise<string | undefined> {
+    const [courses, terms] = await Promise.all([
+      tx.objectStore('courses').getAll() as Promise<Course[]>,
+      tx.objectStore('terms').getAll() as Promise<Term[]>
+    ]);
+    if (courses.length === 0) return undefined;
+
+    const match = matchCourse(recording, courses, terms);
+    if (!match) return undefined;
+
+    const course = courses.find(c => c.id === match.courseId);
+    console.log(`🎓 Assigned "${recording.title}" to ${course?.code} (${match.reason})`);
+    return match.courseId;
+  }
+
+  private async renumberLectures(tx: LibraryTransaction, courseId: string): Promise<void> {
+    const store = tx.objectStore('recordings');
+    const recordings: RecordingEntry[] = await store.index('courseId').getAll(courseId);
+
+    recordings.sort((a, b) => a.dateCreated - b.dateCreated);
+    await Promise.all(recordings.map((recording, index) =>
+      recording.lectureNumber === index + 1
+        ? Promise.resolve()
+        : store.put({ ...recording, lectureNumber: index + 1 })
+    ));
+  }
+
   // Stats and analytics
   async updateLibraryStats(): Promise<void> {
     if (!this.db) await this.initialize();
@@ -316,6 +501,37 @@ class LibraryStorageManager {
       .slice(0, 10); // Top 10 tags
   }
 
+  // Study mode
+  async getStudyRecording(transcriptId: string): Promise<RecordingEntry | undefined> {
+    return this.getRecording(this.studyRecordingId(transcriptId));
+  }
+
+  /**
+   * Save the reader's position without rewriting blobs or recomputing stats
+   */
+  async updateStudyState(id: string, studyState: StudyViewState): Promise<void> {
+    if (!this.db) await this.initialize();
+
+    const tx = this.db!.transaction('recordings', 'readwrite');
+    const recording = await tx.store.get(id);
+    if (!recording) return;
+
+    await tx.store.put({ ...recording, studyState });
+    await tx.done;
+  }
+
+  studyRecordingId(transcriptId: string): string {
+    return `study_${transcriptId}`;
+  }
+
+  // Background transcription
+  async getRecordingsByTranscriptionStatus(status: TranscriptionStatus): Promise<RecordingEntry[]> {
+    const recordings = await this.getAllRecordings();
+    return recordings
+      .filter(recording => recording.transcriptionStatus === status)
+      .sort((a, b) => a.dateCreated - b.dateCreated);
+  }
+
   // Utility methods
   async getAllTags(): Promise<string[]> {
     const recordings = await this.getAllRecordings();
@@ -324,16 +540,166 @@ class LibraryStorageManager {
   }
 
   async searchRecordings(query: string, limit: number = 20): Promise<RecordingEntry[]> {
-    const recordings = await this.getAllRecordings();
-    const queryLower = query.toLowerCase();
+    const results = await this.getSearchResults({
+      search: query,
+      dateRange: {},
+      tags: [],
+      sortBy: 'relevance',
+      sortOrder: 'desc',
+      showArchived: true,
+      showFavorites: false
+    });
 
-    return recordings
-      .filter(recording =>
-        recording.title.toLowerCase().includes(queryLower) ||
-        recording.transcript.toLowerCase().includes(queryLower) ||
-        recording.keyTopics.some(topic => topic.toLowerCase().includes(queryLower))
-      )
-      .slice(0, limit);
+    return results.slice(0, limit).map(result => result.recording);
+  }
+
+  // Full-text search index
+  /**
+   * Index every recording from scratch, e.g. after SEARCH_INDEX_VERSION changes
+   */
+  async rebuildSearchIndex(): Promise<void> {
+    if (!this.db) await this.initialize();
+
+    // One transaction, so a recording saved meanwhile is either in the snapshot or indexed after it
+    const tx = this.db!.transaction(['recordings', 'searchTerms', 'searchDocs', 'libraryStats'], 'readwrite');
+    const recordings: RecordingEntry[] = await tx.objectStore('recordings').getAll();
+
+    const termRecords = new Map<string, SearchTermRecord>();
+    const lengths: Record<string, number> = {};
+    const docs = recordings.map(recording => {
+      const indexed = indexDocument(recording);
+      indexed.postings.forEach((posting, term) => {
+        const record = termRecords.get(term) || { term, postings: {} };
+        record.postings[recording.id] = posting;
+        termRecords.set(term, record);
+      });
+      lengths[recording.id] = indexed.length;
+      return indexed.doc;
+    });
+
+    const meta: SearchIndexMeta = { id: SEARCH_META_ID, version: SEARCH_INDEX_VERSION, lengths };
+
+    await Promise.all([
+      tx.objectStore('searchTerms').clear(),
+      tx.objectStore('searchDocs').clear()
+    ]);
+    await Promise.all([
+      ...Array.from(termRecords.values(), record => tx.objectStore('searchTerms').put(record)),
+      ...docs.map(doc => tx.objectStore('searchDocs').put(doc)),
+      tx.objectStore('libraryStats').put(meta)
+    ]);
+    await tx.done;
+
+    console.log(`🔎 Search index built: ${recordings.length} recordings, ${termRecords.size} terms`);
+  }
+
+  /**
+   * Build the index on first use; libraries saved before it existed have no postings yet
+   */
+  private async ensureSearchIndex(): Promise<void> {
+    if (!this.db) await this.initialize();
+
+    const meta: SearchIndexMeta | undefined = await this.db!.get('libraryStats', SEARCH_META_ID);
+    if (meta?.version === SEARCH_INDEX_VERSION) return;
+
+    if (!this.searchIndexBuild) {
+      this.searchIndexBuild = this.rebuildSearchIndex().finally(() => {
+        this.searchIndexBuild = null;
+      });
+    }
+    await this.searchIndexBuild;
+  }
+
+  private async queryIndex(query: ParsedSearchQuery): Promise<Map<string, SearchHit>> {
+    await this.ensureSearchIndex();
+
+    const terms = queryTerms(query);
+    const tx = this.db!.transaction(['searchTerms', 'libraryStats'], 'readonly');
+    const [meta, ...records] = await Promise.all([
+      tx.objectStore('libraryStats').get(SEARCH_META_ID) as Promise<SearchIndexMeta>,
+      ...terms.map(term => tx.objectStore('searchTerms').get(term) as Promise<SearchTermRecord | undefined>)
+    ]);
+
+    const termRecords = new Map<string, SearchTermRecord>();
+    records.forEach((record, index) => {
+      if (record) termRecords.set(terms[index], record);
+    });
+
+    return new Map(rankDocuments(query, termRecords, meta).map(hit => [hit.recordingId, hit]));
+  }
+
+  /**
+   * Replace one recording's postings inside the caller's transaction; no recording removes them.
+   * Does nothing until the index has been built, since the first search indexes everything.
+   */
+  private async updateSearchIndex(tx: LibraryTransaction, recordingId: string, recording?: RecordingEntry): Promise<void> {
+    const stats = tx.objectStore('libraryStats');
+    const meta: SearchIndexMeta | undefined = await stats.get(SEARCH_META_ID);
+    if (!meta || meta.version !== SEARCH_INDEX_VERSION) return;
+
+    const docs = tx.objectStore('searchDocs');
+    const terms = tx.objectStore('searchTerms');
+    const previous: SearchDocRecord | undefined = await docs.get(recordingId);
+    const next = recording ? indexDocument(recording) : undefined;
+
+    // Favorites, exports and study state re-save the recording without touching its text
+    if (previous && next && previous.contentHash === next.doc.contentHash) return;
+
+    const touched = new Set([...(previous?.terms || []), ...(next?.doc.terms || [])]);
+    await Promise.all(Array.from(touched, async term => {
+      const record: SearchTermRecord = (await terms.get(term)) || { term, postings: {} };
+      delete record.postings[recordingId];
+
+      const posting = next?.postings.get(term);
+      if (posting) record.postings[recordingId] = posting;
+
+      if (Object.keys(record.postings).length > 0) {
+        await terms.put(record);
+      } else {
+        await terms.delete(term);
+      }
+    }));
+
+    const lengths = { ...meta.lengths };
+    if (next) {
+      lengths[recordingId] = next.length;
+      await docs.put(next.doc);
+    } else {
+      delete lengths[recordingId];
+      await docs.delete(recordingId);
+    }
+    await stats.put({ ...meta, lengths });
+  }
+
+  // Lecture Q&A vectors
+  async getLectureChunks(): Promise<LectureChunkRecord[]> {
+    if (!this.db) await this.initialize();
+    return this.db!.getAll('lectureChunks');
+  }
+
+  /**
+   * Swap a recording's embedded passages for freshly embedded ones
+   */
+  async replaceLectureChunks(recordingId: string, chunks: LectureChunkRecord[]): Promise<void> {
+    if (!this.db) await this.initialize();
+
+    const tx = this.db!.transaction(['recordings', 'lectureChunks'], 'readwrite');
+
+    // The recording may have been deleted while its passages were being embedded
+    if (!(await tx.objectStore('recordings').getKey(recordingId))) {
+      await tx.done;
+      return;
+    }
+
+    await this.deleteLectureChunks(tx, recordingId);
+    await Promise.all(chunks.map(chunk => tx.objectStore('lectureChunks').put(chunk)));
+    await tx.done;
+  }
+
+  private async deleteLectureChunks(tx: LibraryTransaction, recordingId: string): Promise<void> {
+    const store = tx.objectStore('lectureChunks');
+    const keys = await store.index('recordingId').getAllKeys(recordingId);
+    await Promise.all(keys.map(key => store.delete(key)));
   }
 
   async exportLibraryData(): Promise<string> {
@@ -374,13 +740,80 @@ class LibraryStorageManager {
   async clearAllData(): Promise<void> {
     if (!this.db) await this.initialize();
 
-    const tx = this.db!.transaction(['recordings', 'libraryStats', 'recordingAudio'], 'readwrite');
+    const tx = this.db!.transaction(RECORDING_WRITE_STORES, 'readwrite');
 
     await Promise.all([
       tx.objectStore('recordings').clear(),
       tx.objectStore('libraryStats').clear(),
-      tx.objectStore('recordingAudio').clear()
+      tx.objectStore('recordingAudio').clear(),
+      tx.objectStore('recordingPdf').clear(),
+      tx.objectStore('searchTerms').clear(),
+      tx.objectStore('searchDocs').clear(),
+      tx.objectStore('lectureChunks').clear(),
+      tx.objectStore('courses').clear(),
+      tx.objectStore('terms').clear()
     ]);
+
+    // An empty library has an up-to-date (empty) index, so new recordings are indexed as they're saved
+    const meta: SearchIndexMeta = { id: SEARCH_META_ID, version: SEARCH_INDEX_VERSION, lengths: {} };
+    await tx.objectStore('libraryStats').put(meta);
+    await tx.done;
+  }
+
+  createCourse(fields: Omit<Course, 'id' | 'createdAt'>): Course {
+    return {
+      ...fields,
+      id: `course_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: Date.now()
+    };
+  }
+
+  createTerm(fields: Omit<Term, 'id'>): Term {
+    return {
+      ...fields,
+      id: `term_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    };
+  }
+
+  // Helper to create a study-mode recording; the id derives from transcriptId so re-saving replaces it
+  createStudyRecordingEntry(
+    transcriptId: string,
+    segments: TranscriptionSegment[],
+    audioFile: { name: string; blob: Blob; duration?: number },
+    pdfFile?: { name: string; blob: Blob; pageCount?: number }
+  ): RecordingEntry {
+    const transcript = segments.map(seg => seg.text).join(' ');
+    const duration = audioFile.duration || (segments.length > 0 ? segments[segments.length - 1].end : 0);
+    const title = audioFile.name.replace(/\.[^.]+$/, '');
+
+    return {
+      ...this.createRecordingEntry(transcript, title, [], duration, 0, undefined, audioFile.blob),
+      id: this.studyRecordingId(transcriptId),
+      source: 'study',
+      transcriptId,
+      segments,
+      pdfBlob: pdfFile?.blob,
+      hasPdf: !!pdfFile,
+      audioFileName: audioFile.name,
+      pdfFileName: pdfFile?.name,
+      studyState: { playbackPosition: 0, pdfPage: 1 },
+      transcriptionStatus: 'completed'
+    };
+  }
+
+  // Helper to create a recording whose transcript will be filled in once the backend is reachable
+  createPendingRecordingEntry(
+    audioBlob: Blob,
+    duration: number,
+    title: string = 'Untitled Recording',
+    pdfContext?: RecordingEntry['pdfContext']
+  ): RecordingEntry {
+    return {
+      ...this.createRecordingEntry('', title, [], duration, 0, pdfContext, audioBlob),
+      wordCount: 0,
+      transcriptionStatus: 'pending',
+      transcriptionAttempts: 0
+    };
   }
 
   // Helper to create a new recording entry
@@ -0,0 +1,242 @@
+// 🎯 LectureScript - PCM Chunker
+// Ring-buffered PCM cut into upload chunks at pauses the speech detector finds, with overlap
+// Author: Peter Levler
+
+import { SpeechDetector, type SpeechDecision, type SpeechDetectorConfig } from './speechDetector';
+
+export interface PcmChunkerConfig {
+  sampleRate: number;
+  /** A pause only ends a chunk once it is at least this long */
+  minChunkMs: number;
+  /** Chunks are cut at their quietest frame when nobody pauses for this long */
+  maxChunkMs: number;
+  /** Audio from the end of the previous chunk repeated at the start of the next */
+  overlapMs: number;
+  /** Non-speech this long (after the detector's hangover) counts as a pause */
+  minPauseMs: number;
+  /** Chunks without a single speech frame are not emitted; they would only cost an upload */
+  dropSilentChunks: boolean;
+  detector?: Partial<Omit<SpeechDetectorConfig, 'sampleRate'>>;
+}
+
+export type PcmChunkCut = 'pause' | 'max-length' | 'end';
+
+export interface PcmChunk {
+  /** Counts emitted chunks only, so indexes stay contiguous when silent chunks are dropped */
+  index: number;
+  samples: Float32Array;
+  sampleRate: number;
+  /** Milliseconds since capture started, overlap included */
+  startMs: number;
+  endMs: number;
+  /** Leading milliseconds repeated from the end of the previous chunk */
+  overlapMs: number;
+  hasSpeech: boolean;
+  cut: PcmChunkCut;
+}
+
+export const DEFAULT_PCM_CHUNKER_CONFIG: Omit<PcmChunkerConfig, 'sampleRate'> = {
+  minChunkMs: 4000,
+  maxChunkMs: 15000,
+  overlapMs: 750,
+  minPauseMs: 300,
+  dropSilentChunks: true,
+};
+
+/**
+ * Fixed-size sample history addressed by absolute position since the first write
+ */
+export class PcmRingBuffer {
+  readonly capacity: number;
+  private buffer: Float32Array;
+  private total = 0;
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+    this.buffer = new Float32Array(capacity);
+  }
+
+  /** Samples written so far; also the position the next write starts at */
+  get written(): number {
+    return this.total;
+  }
+
+  /** Oldest position still held */
+  get oldest(): number {
+    return Math.max(0, this.total - this.capacity);
+  }
+
+  write(samples: Float32Array): void {
+    // Only the newest `capacity` samples of an oversized write survive anyway
+    const input = samples.length > this.capacity ? samples.subarray(samples.length - this.capacity) : samples;
+    this.total += samples.length - input.length;
+
+    const offset = this.total % this.capacity;
+    const head = Math.min(input.length, this.capacity - offset);
+    this.buffer.set(input.subarray(0, head), offset);
+    this.buffer.set(input.subarray(head), 0);
+    this.total += input.length;
+  }
+
+  /**
+   * Copy of positions [from, to). Throws when part of the range has been overwritten or not written yet.
+   */
+  read(from: number, to: number): Float32Array {
+    if (from < this.oldest || to > this.total || from > to) {
+      throw new RangeError(`Samples ${from}-${to} are not in the buffer (${this.oldest}-${this.total})`);
+    }
+
+    const out = new Float32Array(to - from);
+    const offset = from % this.capacity;
+    const head = Math.min(out.length, this.capacity - offset);
+    out.set(this.buffer.subarray(offset, offset + head));
+    out.set(this.buffer.subarray(0, out.length - head), head);
+    return out;
+  }
+}
+
+interface FrameRecord {
+  start: number;
+  end: number;
+  rms: number;
+  speech: boolean;
+}
+
+export class PcmChunker {
+  readonly config: PcmChunkerConfig;
+
+  private detector: SpeechDetector;
+  private ring: PcmRingBuffer;
+  private frames: FrameRecord[] = [];
+  private chunkStart = 0;
+  private pauseStart: number | null = null;
+  private nextIndex = 0;
+  private previousEmitted = false;
+
+  constructor(config: Partial<PcmChunkerConfig> & { sampleRate: number }) {
+    this.config = { ...DEFAULT_PCM_CHUNKER_CONFIG, ...config };
+    this.detector = new SpeechDetector({ ...this.config.detector, sampleRate: this.config.sampleRate });
+    // Room for the longest chunk, its overlap and a frame still being decided
+    this.ring = new PcmRingBuffer(this.samplesFor(this.config.maxChunkMs + this.config.overlapMs + 1000));
+  }
+
+  get isSpeaking(): boolean {
+    return this.detector.isSpeaking;
+  }
+
+  get isCalibrated(): boolean {
+    return this.detector.isCalibrated;
+  }
+
+  get noiseFloorDb(): number {
+    return this.detector.noiseFloorDb;
+  }
+
+  /**
+   * Add captured samples; returns the chunks they completed together with the detector's decisions
+   */
+  push(samples: Float32Array): { chunks: PcmChunk[]; decisions: SpeechDecision[] } {
+    this.ring.write(samples);
+    const decisions = this.detector.process(samples);
+    const chunks: PcmChunk[] = [];
+
+    for (const decision of decisions) {
+      const chunk = this.handleDecision(decision);
+      if (chunk) chunks.push(chunk);
+    }
+
+    return { chunks, decisions };
+  }
+
+  /**
+   * Emit whatever has not been cut yet, e.g. when recording stops
+   */
+  flush(): PcmChunk | null {
+    const end = this.ring.written;
+    if (end <= this.chunkStart) return null;
+    return this.cut(end, 'end');
+  }
+
+  reset(): void {
+    this.detector.reset();
+    this.ring = new PcmRingBuffer(this.ring.capacity);
+    this.frames = [];
+    this.chunkStart = 0;
+    this.pauseStart = null;
+    this.nextIndex = 0;
+    this.previousEmitted = false;
+  }
+
+  private samplesFor(ms: number): number {
+    return Math.round((ms / 1000) * this.config.sampleRate);
+  }
+
+  private handleDecision(decision: SpeechDecision): PcmChunk | null {
+    const start = this.samplesFor(decision.time);
+    const end = start + this.detector.frameSize;
+    // Nothing has been ruled out while the room is still being measured
+    const speech = decision.isSpeech || decision.calibrating;
+
+    this.frames.push({ start, end, rms: decision.features.rms, speech });
+    if (speech) {
+      this.pauseStart = null;
+    } else if (this.pauseStart === null) {
+      this.pauseStart = start;
+    }
+
+    const length = end - this.chunkStart;
+    if (length < this.samplesFor(this.config.minChunkMs)) return null;
+
+    if (this.pauseStart !== null && end - this.pauseStart >= this.samplesFor(this.config.minPauseMs)) {
+      // Middle of the pause, so neither chunk ends right against a word
+      return this.cut(Math.round((this.pauseStart + end) / 2), 'pause');
+    }
+
+    if (length >= this.samplesFor(this.config.maxChunkMs)) {
+      return this.cut(this.quietestBoundary(), 'max-length');
+    }
+
+    return null;
+  }
+
+  /**
+   * End of the quietest frame past the minimum length, the least bad place to cut through speech
+   */
+  private quietestBoundary(): number {
+    const earliest = this.chunkStart + this.samplesFor(this.config.minChunkMs);
+    const candidates = this.frames.filter(frame => frame.end >= earliest);
+    if (candidates.length === 0) return this.frames[this.frames.length - 1].end;
+
+    return candidates.reduce((quietest, frame) => (frame.rms < quietest.rms ? frame : quietest)).end;
+  }
+
+  private cut(position: number, cut: PcmChunkCut): PcmChunk | null {
+    const hasSpeech = this.frames.some(frame => frame.speech && frame.start < position);
+    const keep = this.config.dropSilentChunks ? hasSpeech : true;
+
+    // Only repeat audio the previous chunk actually carried
+    const overlap = this.previousEmitted ? this.samplesFor(this.config.overlapMs) : 0;
+    const from = Math.max(this.ring.oldest, this.chunkStart - overlap);
+
+    let chunk: PcmChunk | null = null;
+    if (keep) {
+      chunk = {
+        index: this.nextIndex++,
+        samples: this.ring.read(from, position),
+        sampleRate: this.config.sampleRate,
+        startMs: (from / this.config.sampleRate) * 1000,
+        endMs: (position / this.config.sampleRate) * 1000,
+        overlapMs: ((this.chunkStart - from) / this.config.sampleRate) * 1000,
+        hasSpeech,
+        cut,
+      };
+    }
+
+    this.previousEmitted = keep;
+    this.chunkStart = position;
+    this.frames = this.frames.filter(frame => frame.end > position);
+    if (this.pauseStart !== null && this.pauseStart < position) this.pauseStart = position;
+
+    return chunk;
+  }
+}
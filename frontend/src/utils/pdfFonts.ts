@@ -0,0 +1,561 @@
+// Fonts for the PDF writer.
+// The primary font is an embedded TrueType font, subset to the glyphs a document uses, so
+// Cantonese/Mandarin transcripts render identically everywhere. Without one, text falls back to
+// the standard Helvetica and the Adobe CNS1 "MSung-Light" font that PDF viewers ship with.
+
+import type { PdfObjectSink } from './pdfWriter';
+
+export interface PdfFont {
+  /** Resource name used in content streams, e.g. "F1" */
+  resourceName: string;
+  covers(codePoint: number): boolean;
+  /** Advance width in 1/1000 em */
+  advance(codePoint: number): number;
+  /** Hex string for a Tj operator; records the glyphs as used */
+  encode(codePoints: number[]): string;
+  /** Write the font objects and return the font dictionary's object id */
+  write(sink: PdfObjectSink): number;
+}
+
+export interface PdfTextRun {
+  font: PdfFont;
+  codePoints: number[];
+  width: number; // 1/1000 em
+}
+
+const toHex = (value: number, digits: number) => value.toString(16).toUpperCase().padStart(digits, '0');
+
+/**
+ * UTF-16BE hex for PDF text strings and ToUnicode maps
+ */
+export const utf16Hex = (codePoints: number[]): string => {
+  return codePoints.map(cp => {
+    if (cp < 0x10000) return toHex(cp, 4);
+    const offset = cp - 0x10000;
+    return toHex(0xd800 + (offset >> 10), 4) + toHex(0xdc00 + (offset & 0x3ff), 4);
+  }).join('');
+};
+
+const isCJK = (cp: number) =>
+  (cp >= 0x2e80 && cp <= 0x9fff) ||   // Radicals, CJK punctuation, kana, bopomofo, unified ideographs
+  (cp >= 0xf900 && cp <= 0xfaff) ||   // Compatibility ideographs
+  (cp >= 0xfe30 && cp <= 0xfe4f) ||   // Vertical forms
+  (cp >= 0xff00 && cp <= 0xffef);     // Full-width and half-width forms
+
+// Standard fallbacks
+
+// Helvetica advance widths for ASCII 32..126, from the Adobe core font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+export class StandardLatinFont implements PdfFont {
+  resourceName: string;
+
+  constructor(resourceName: string) {
+    this.resourceName = resourceName;
+  }
+
+  covers(codePoint: number): boolean {
+    return codePoint >= 32 && codePoint <= 126;
+  }
+
+  advance(codePoint: number): number {
+    return HELVETICA_WIDTHS[codePoint - 32] ?? 556;
+  }
+
+  encode(codePoints: number[]): string {
+    return codePoints.map(cp => toHex(cp, 2)).join('');
+  }
+
+  write(sink: PdfObjectSink): number {
+    const id = sink.allocate();
+    sink.set(id, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    return id;
+  }
+}
+
+/**
+ * Traditional Chinese without embedding: Acrobat and pdf.js both provide MSung-Light.
+ * UniCNS-UCS2-H maps UCS-2 code units straight to CNS1 glyphs.
+ */
+export class StandardCJKFont implements PdfFont {
+  resourceName: string;
+
+  constructor(resourceName: string) {
+    this.resourceName = resourceName;
+  }
+
+  covers(codePoint: number): boolean {
+    return isCJK(codePoint);
+  }
+
+  advance(codePoint: number): number {
+    // Half-width katakana and forms are the only narrow glyphs in this range
+    return codePoint >= 0xff61 && codePoint <= 0xffdc ? 500 : 1000;
+  }
+
+  encode(codePoints: number[]): string {
+    return codePoints.map(cp => toHex(cp, 4)).join('');
+  }
+
+  write(sink: PdfObjectSink): number {
+    const descriptor = sink.allocate();
+    const cidFont = sink.allocate();
+    const font = sink.allocate();
+
+    sink.set(descriptor, '<< /Type /FontDescriptor /FontName /MSung-Light /Flags 6 /FontBBox [-160 -259 1015 888] /ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 880 /StemV 93 >>');
+    sink.set(cidFont, `<< /Type /Font /Subtype /CIDFontType0 /BaseFont /MSung-Light /CIDSystemInfo << /Registry (Adobe) /Ordering (CNS1) /Supplement 0 >> /FontDescriptor ${descriptor} 0 R /DW 1000 /W [1 95 500] >>`);
+    sink.set(font, `<< /Type /Font /Subtype /Type0 /BaseFont /MSung-Light /Encoding /UniCNS-UCS2-H /DescendantFonts [${cidFont} 0 R] >>`);
+    return font;
+  }
+}
+
+// Embedded TrueType
+
+interface TableRecord {
+  offset: number;
+  length: number;
+}
+
+// Tables a CIDFontType2 program needs; cmap/name/post are not used by PDF viewers
+const SUBSET_TABLES = ['cvt ', 'fpgm', 'glyf', 'head', 'hhea', 'hmtx', 'loca', 'maxp', 'prep'];
+
+// Composite glyph flags
+const ARG_1_AND_2_ARE_WORDS = 0x0001;
+const WE_HAVE_A_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const WE_HAVE_AN_X_AND_Y_SCALE = 0x0040;
+const WE_HAVE_A_TWO_BY_TWO = 0x0080;
+
+export class TrueTypeFont implements PdfFont {
+  resourceName: string;
+  private data: Uint8Array;
+  private view: DataView;
+  private tables = new Map<string, TableRecord>();
+  private cmap = new Map<number, number>();
+  private advances: number[] = [];
+  private glyphOffsets: number[] = [];
+  private usedGlyphs = new Map<number, number>(); // glyph id -> code point, for ToUnicode
+  private unitsPerEm = 1000;
+  private bbox = [0, 0, 0, 0];
+  private ascent = 0;
+  private descent = 0;
+  private capHeight = 0;
+  private postScriptName = 'EmbeddedFont';
+
+  constructor(resourceName: string, data: Uint8Array) {
+    this.resourceName = resourceName;
+    this.data = data;
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    this.parse();
+  }
+
+  covers(codePoint: number): boolean {
+    return this.cmap.has(codePoint);
+  }
+
+  advance(codePoint: number): number {
+    const glyph = this.cmap.get(codePoint) ?? 0;
+    return this.scale(this.advances[glyph] ?? this.advances[this.advances.length - 1] ?? 0);
+  }
+
+  encode(codePoints: number[]): string {
+    return codePoints.map(cp => {
+      const glyph = this.cmap.get(cp) ?? 0;
+      if (!this.usedGlyphs.has(glyph)) this.usedGlyphs.set(glyph, cp);
+      return toHex(glyph, 4);
+    }).join('');
+  }
+
+  write(sink: PdfObjectSink): number {
+    const fontFile = sink.allocate();
+    const descriptor = sink.allocate();
+    const cidFont = sink.allocate();
+    const toUnicode = sink.allocate();
+    const font = sink.allocate();
+
+    // Subset fonts carry a six-letter tag so viewers don't confuse them with the full font
+    const tag = Array.from({ length: 6 }, (_, i) => String.fromCharCode(65 + ((this.usedGlyphs.size * 7 + i * 5) % 26))).join('');
+    const baseFont = `${tag}+${this.postScriptName}`;
+    const [xMin, yMin, xMax, yMax] = this.bbox.map(value => Math.round(this.scale(value)));
+
+    sink.setStream(fontFile, '', this.subset());
+    sink.set(descriptor, `<< /Type /FontDescriptor /FontName /${baseFont} /Flags 4 /FontBBox [${xMin} ${yMin} ${xMax} ${yMax}] /ItalicAngle 0 /Ascent ${Math.round(this.scale(this.ascent))} /Descent ${Math.round(this.scale(this.descent))} /CapHeight ${Math.round(this.scale(this.capHeight))} /StemV 80 /FontFile2 ${fontFile} 0 R >>`);
+    sink.set(cidFont, `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${baseFont} /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> /FontDescriptor ${descriptor} 0 R /DW 1000 /W ${this.widthArray()} /CIDToGIDMap /Identity >>`);
+    sink.setStream(toUnicode, '', this.toUnicodeCMap());
+    sink.set(font, `<< /Type /Font /Subtype /Type0 /BaseFont /${baseFont} /Encoding /Identity-H /DescendantFonts [${cidFont} 0 R] /ToUnicode ${toUnicode} 0 R >>`);
+    return font;
+  }
+
+  private scale(units: number): number {
+    return (units * 1000) / this.unitsPerEm;
+  }
+
+  private table(tag: string): TableRecord {
+    const record = this.tables.get(tag);
+    if (!record) throw new Error(`Font is missing the "${tag}" table`);
+    return record;
+  }
+
+  private parse(): void {
+    const version = this.view.getUint32(0);
+    if (version === 0x4f54544f) {
+      throw new Error('CFF-based OpenType fonts (.otf) are not supported; use a TrueType (.ttf) font');
+    }
+    if (version !== 0x00010000 && version !== 0x74727565) {
+      throw new Error('Not a TrueType font');
+    }
+
+    const numTables = this.view.getUint16(4);
+    for (let i = 0; i < numTables; i++) {
+      const record = 12 + i * 16;
+      const tag = String.fromCharCode(...this.data.subarray(record, record + 4));
+      this.tables.set(tag, { offset: this.view.getUint32(record + 8), length: this.view.getUint32(record + 12) });
+    }
+
+    const head = this.table('head').offset;
+    this.unitsPerEm = this.view.getUint16(head + 18);
+    this.bbox = [
+      this.view.getInt16(head + 36), this.view.getInt16(head + 38),
+      this.view.getInt16(head + 40), this.view.getInt16(head + 42),
+    ];
+    const longLoca = this.view.getInt16(head + 50) === 1;
+
+    const hhea = this.table('hhea').offset;
+    this.ascent = this.view.getInt16(hhea + 4);
+    this.descent = this.view.getInt16(hhea + 6);
+    const numberOfHMetrics = this.view.getUint16(hhea + 34);
+
+    const numGlyphs = this.view.getUint16(this.table('maxp').offset + 4);
+
+    const hmtx = this.table('hmtx').offset;
+    for (let glyph = 0; glyph < numberOfHMetrics; glyph++) {
+      this.advances.push(this.view.getUint16(hmtx + glyph * 4));
+    }
+
+    const loca = this.table('loca').offset;
+    for (let glyph = 0; glyph <= numGlyphs; glyph++) {
+      this.glyphOffsets.push(longLoca ? this.view.getUint32(loca + glyph * 4) : this.view.getUint16(loca + glyph * 2) * 2);
+    }
+
+    const os2 = this.tables.get('OS/2');
+    this.capHeight = os2 && this.view.getUint16(os2.offset) >= 2 && os2.length >= 90
+      ? this.view.getInt16(os2.offset + 88)
+      : this.ascent;
+
+    this.postScriptName = this.readPostScriptName() || this.postScriptName;
+    this.parseCmap();
+  }
+
+  /**
+   * Unicode subtables only: format 12 (full range) preferred over format 4 (BMP)
+   */
+  private parseCmap(): void {
+    const cmap = this.table('cmap').offset;
+    const count = this.view.getUint16(cmap + 2);
+    let format4 = -1;
+    let format12 = -1;
+
+    for (let i = 0; i < count; i++) {
+      const platform = this.view.getUint16(cmap + 4 + i * 8);
+      const encoding = this.view.getUint16(cmap + 6 + i * 8);
+      const offset = cmap + this.view.getUint32(cmap + 8 + i * 8);
+      const format = this.view.getUint16(offset);
+      const unicode = platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10));
+      if (!unicode) continue;
+      if (format === 12) format12 = offset;
+      if (format === 4) format4 = offset;
+    }
+
+    if (format12 !== -1) {
+      const groups = this.view.getUint32(format12 + 12);
+      for (let i = 0; i < groups; i++) {
+        const group = format12 + 16 + i * 12;
+        const start = this.view.getUint32(group);
+        const end = this.view.getUint32(group + 4);
+        const glyph = this.view.getUint32(group + 8);
+        for (let cp = start; cp <= end; cp++) this.cmap.set(cp, glyph + cp - start);
+      }
+    } else if (format4 !== -1) {
+      const segCount = this.view.getUint16(format4 + 6) / 2;
+      const endCodes = format4 + 14;
+      const startCodes = endCodes + segCount * 2 + 2;
+      const idDeltas = startCodes + segCount * 2;
+      const idRangeOffsets = idDeltas + segCount * 2;
+
+      for (let s = 0; s < segCount; s++) {
+        const start = this.view.getUint16(startCodes + s * 2);
+        const end = this.view.getUint16(endCodes + s * 2);
+        const delta = this.view.getInt16(idDeltas + s * 2);
+        const rangeOffset = this.view.getUint16(idRangeOffsets + s * 2);
+
+        for (let cp = start; cp <= end && cp !== 0xffff; cp++) {
+          let glyph: number;
+          if (rangeOffset === 0) {
+            glyph = (cp + delta) & 0xffff;
+          } else {
+            const address = idRangeOffsets + s * 2 + rangeOffset + (cp - start) * 2;
+            glyph = this.view.getUint16(address);
+            if (glyph !== 0) glyph = (glyph + delta) & 0xffff;
+          }
+          if (glyph !== 0) this.cmap.set(cp, glyph);
+        }
+      }
+    } else {
+      throw new Error('Font has no Unicode character map');
+    }
+  }
+
+  private readPostScriptName(): string | null {
+    const name = this.tables.get('name');
+    if (!name) return null;
+
+    const count = this.view.getUint16(name.offset + 2);
+    const strings = name.offset + this.view.getUint16(name.offset + 4);
+
+    for (let i = 0; i < count; i++) {
+      const record = name.offset + 6 + i * 12;
+      if (this.view.getUint16(record + 6) !== 6) continue; // PostScript name
+
+      const platform = this.view.getUint16(record);
+      const length = this.view.getUint16(record + 8);
+      const offset = strings + this.view.getUint16(record + 10);
+      const bytes = this.data.subarray(offset, offset + length);
+      const text = platform === 3 || platform === 0
+        ? String.fromCharCode(...Array.from({ length: length / 2 }, (_, j) => (bytes[j * 2] << 8) | bytes[j * 2 + 1]))
+        : String.fromCharCode(...bytes);
+      return text.replace(/[^A-Za-z0-9-]/g, '') || null;
+    }
+    return null;
+  }
+
+  private glyphData(glyph: number): Uint8Array {
+    const glyf = this.table('glyf').offset;
+    return this.data.subarray(glyf + this.glyphOffsets[glyph], glyf + this.glyphOffsets[glyph + 1]);
+  }
+
+  /**
+   * Used glyphs plus the components composite glyphs are built from
+   */
+  private glyphClosure(): Set<number> {
+    const included = new Set<number>([0]);
+    const queue = [...this.usedGlyphs.keys()];
+
+    while (queue.length > 0) {
+      const glyph = queue.pop()!;
+      if (included.has(glyph) && glyph !== 0) continue;
+      included.add(glyph);
+
+      const data = this.glyphData(glyph);
+      if (data.length < 10) continue;
+      const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+      if (view.getInt16(0) >= 0) continue;
+
+      let offset = 10;
+      let flags: number;
+      do {
+        flags = view.getUint16(offset);
+        const component = view.getUint16(offset + 2);
+        if (!included.has(component)) queue.push(component);
+        offset += 4 + (flags & ARG_1_AND_2_ARE_WORDS ? 4 : 2);
+        if (flags & WE_HAVE_A_SCALE) offset += 2;
+        else if (flags & WE_HAVE_AN_X_AND_Y_SCALE) offset += 4;
+        else if (flags & WE_HAVE_A_TWO_BY_TWO) offset += 8;
+      } while (flags & MORE_COMPONENTS);
+    }
+
+    return included;
+  }
+
+  /**
+   * Same glyph ids as the original font (unused glyphs emptied), so CID = GID still holds
+   */
+  private subset(): Uint8Array {
+    const included = this.glyphClosure();
+    const numGlyphs = this.glyphOffsets.length - 1;
+
+    const glyphParts: Uint8Array[] = [];
+    const loca = new Uint8Array((numGlyphs + 1) * 4);
+    const locaView = new DataView(loca.buffer);
+    let glyfLength = 0;
+
+    for (let glyph = 0; glyph < numGlyphs; glyph++) {
+      locaView.setUint32(glyph * 4, glyfLength);
+      if (!included.has(glyph)) continue;
+      const data = this.glyphData(glyph);
+      const padded = new Uint8Array((data.length + 3) & ~3);
+      padded.set(data);
+      glyphParts.push(padded);
+      glyfLength += padded.length;
+    }
+    locaView.setUint32(numGlyphs * 4, glyfLength);
+
+    const glyf = new Uint8Array(glyfLength);
+    let position = 0;
+    for (const part of glyphParts) {
+      glyf.set(part, position);
+      position += part.length;
+    }
+
+    const head = this.data.slice(this.table('head').offset, this.table('head').offset + this.table('head').length);
+    const headView = new DataView(head.buffer);
+    headView.setUint32(8, 0); // checkSumAdjustment, recomputed below
+    headView.setInt16(50, 1); // long loca
+
+    const tables = new Map<string, Uint8Array>();
+    for (const tag of SUBSET_TABLES) {
+      if (tag === 'glyf') tables.set(tag, glyf);
+      else if (tag === 'loca') tables.set(tag, loca);
+      else if (tag === 'head') tables.set(tag, head);
+      else {
+        const record = this.tables.get(tag);
+        if (record) tables.set(tag, this.data.subarray(record.offset, record.offset + record.length));
+      }
+    }
+
+    return this.buildFontFile(tables);
+  }
+
+  private buildFontFile(tables: Map<string, Uint8Array>): Uint8Array {
+    const tags = [...tables.keys()].sort();
+    const headerLength = 12 + tags.length * 16;
+    const totalLength = headerLength + tags.reduce((sum, tag) => sum + ((tables.get(tag)!.length + 3) & ~3), 0);
+
+    const output = new Uint8Array(totalLength);
+    const view = new DataView(output.buffer);
+    const entrySelector = Math.floor(Math.log2(tags.length));
+    const searchRange = 2 ** entrySelector * 16;
+
+    view.setUint32(0, 0x00010000);
+    view.setUint16(4, tags.length);
+    view.setUint16(6, searchRange);
+    view.setUint16(8, entrySelector);
+    view.setUint16(10, tags.length * 16 - searchRange);
+
+    let offset = headerLength;
+    let headOffset = 0;
+    tags.forEach((tag, i) => {
+      const table = tables.get(tag)!;
+      const record = 12 + i * 16;
+      for (let c = 0; c < 4; c++) output[record + c] = tag.charCodeAt(c);
+      view.setUint32(record + 4, checksum(table));
+      view.setUint32(record + 8, offset);
+      view.setUint32(record + 12, table.length);
+      output.set(table, offset);
+      if (tag === 'head') headOffset = offset;
+      offset += (table.length + 3) & ~3;
+    });
+
+    view.setUint32(headOffset + 8, (0xb1b0afba - checksum(output)) >>> 0);
+    return output;
+  }
+
+  private widthArray(): string {
+    const glyphs = [...this.usedGlyphs.keys()].sort((a, b) => a - b);
+    const entries = glyphs.map(glyph => {
+      const advance = this.advances[glyph] ?? this.advances[this.advances.length - 1] ?? 0;
+      return `${glyph} [${Math.round(this.scale(advance))}]`;
+    });
+    return `[${entries.join(' ')}]`;
+  }
+
+  /**
+   * Lets viewers copy and search text drawn with glyph ids
+   */
+  private toUnicodeCMap(): string {
+    const entries = [...this.usedGlyphs.entries()].sort((a, b) => a[0] - b[0]);
+    const blocks: string[] = [];
+    for (let i = 0; i < entries.length; i += 100) {
+      const chunk = entries.slice(i, i + 100);
+      blocks.push(`${chunk.length} beginbfchar\n${chunk.map(([glyph, cp]) => `<${toHex(glyph, 4)}> <${utf16Hex([cp])}>`).join('\n')}\nendbfchar`);
+    }
+
+    return `/CIDInit /ProcSet findresource begin
+12 dict begin
+begincmap
+/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def
+/CMapName /Adobe-Identity-UCS def
+/CMapType 2 def
+1 begincodespacerange
+<0000> <FFFF>
+endcodespacerange
+${blocks.join('\n')}
+endcmap
+CMapName currentdict /CMap defineresource pop
+end
+end`;
+  }
+}
+
+const checksum = (bytes: Uint8Array): number => {
+  let sum = 0;
+  const padded = bytes.length % 4 === 0 ? bytes : (() => {
+    const copy = new Uint8Array((bytes.length + 3) & ~3);
+    copy.set(bytes);
+    return copy;
+  })();
+  const view = new DataView(padded.buffer, padded.byteOffset, padded.byteLength);
+  for (let i = 0; i < padded.length; i += 4) {
+    sum = (sum + view.getUint32(i)) >>> 0;
+  }
+  return sum;
+};
+
+/**
+ * Picks a font per character: the first font that has the glyph, else '?' in the first font
+ */
+export class PdfFontSet {
+  private fonts: PdfFont[];
+
+  constructor(fonts: PdfFont[]) {
+    if (fonts.length === 0) throw new Error('PdfFontSet needs at least one font');
+    this.fonts = fonts;
+  }
+
+  get all(): PdfFont[] {
+    return this.fonts;
+  }
+
+  runs(text: string): PdfTextRun[] {
+    const runs: PdfTextRun[] = [];
+
+    for (const char of text) {
+      let codePoint = char.codePointAt(0)!;
+      let font = this.fonts.find(candidate => candidate.covers(codePoint));
+
+      // Tabs, no-break and ideographic spaces become plain spaces when no font has them
+      if (!font && /\s/.test(char)) {
+        codePoint = 0x20;
+        font = this.fonts.find(candidate => candidate.covers(codePoint));
+      }
+      if (!font) {
+        font = this.fonts[0];
+        codePoint = 0x3f; // '?'
+      }
+
+      const last = runs[runs.length - 1];
+      const width = font.advance(codePoint);
+      if (last && last.font === font) {
+        last.codePoints.push(codePoint);
+        last.width += width;
+      } else {
+        runs.push({ font, codePoints: [codePoint], width });
+      }
+    }
+
+    return runs;
+  }
+
+  /**
+   * Width of `text` in points at `size`
+   */
+  measure(text: string, size: number): number {
+    return this.runs(text).reduce((sum, run) => sum + run.width, 0) * size / 1000;
+  }
+}
@@ -0,0 +1,300 @@
+// Minimal PDF 1.7 writer: pages with text and filled shapes, fonts and an outline (bookmarks).
+// Page coordinates are in points with the origin at the top-left, like the DOM; the writer flips
+// them into PDF space. Streams are Flate-compressed with CompressionStream where available.
+
+import { utf16Hex, type PdfFont, type PdfFontSet } from './pdfFonts';
+
+export type PdfColor = [number, number, number]; // RGB, 0..1
+
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+export interface PdfOutlineItem {
+  title: string;
+  pageIndex: number;
+  y: number; // Top-based, like page coordinates
+  children?: PdfOutlineItem[];
+  open?: boolean;
+}
+
+/**
+ * Where fonts write their dictionaries and font programs
+ */
+export interface PdfObjectSink {
+  allocate(): number;
+  set(id: number, body: string): void;
+  setStream(id: number, dictionary: string, data: string | Uint8Array): void;
+}
+
+export interface PdfDocumentInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  language?: string;
+}
+
+interface PdfObject {
+  body?: string;
+  stream?: { dictionary: string; data: Uint8Array };
+}
+
+const encoder = new TextEncoder();
+
+const formatNumber = (value: number) => {
+  const rounded = Math.round(value * 100) / 100;
+  return Number.isInteger(rounded) ? String(rounded) : rounded.toFixed(2).replace(/0$/, '');
+};
+
+const colorOperands = ([r, g, b]: PdfColor) => `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)}`;
+
+/**
+ * "#1a73e8" -> PdfColor
+ */
+export const hexColor = (hex: string): PdfColor => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255];
+};
+
+const pdfTextString = (text: string) => `<FEFF${utf16Hex(Array.from(text, char => char.codePointAt(0)!))}>`;
+
+const canCompress = (): boolean => {
+  if (typeof CompressionStream === 'undefined') return false;
+  try {
+    new CompressionStream('deflate');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export class PdfPage {
+  readonly operations: string[] = [];
+  readonly fonts = new Set<PdfFont>();
+  readonly width: number;
+  readonly height: number;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: PdfColor): void {
+    this.operations.push(`${colorOperands(color)} rg ${formatNumber(x)} ${formatNumber(this.height - y - height)} ${formatNumber(width)} ${formatNumber(height)} re f`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: PdfColor, lineWidth = 0.5): void {
+    this.operations.push(`${colorOperands(color)} RG ${formatNumber(lineWidth)} w ${formatNumber(x1)} ${formatNumber(this.height - y1)} m ${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`);
+  }
+
+  /**
+   * Draw one line of text with its baseline at `y`. Bold is simulated with a thin outline so
+   * it works for any font, embedded or not. Returns the width drawn.
+   */
+  text(
+    x: number,
+    y: number,
+    text: string,
+    fonts: PdfFontSet,
+    size: number,
+    color: PdfColor,
+    options: { bold?: boolean } = {}
+  ): number {
+    const runs = fonts.runs(text);
+    if (runs.length === 0) return 0;
+
+    // The rendering mode is text state and outlives ET, so it is set on every call
+    const parts = [`BT ${colorOperands(color)} rg`];
+    if (options.bold) {
+      parts.push(`${colorOperands(color)} RG 2 Tr ${formatNumber(size * 0.03)} w`);
+    } else {
+      parts.push('0 Tr');
+    }
+    parts.push(`1 0 0 1 ${formatNumber(x)} ${formatNumber(this.height - y)} Tm`);
+
+    let width = 0;
+    for (const run of runs) {
+      this.fonts.add(run.font);
+      parts.push(`/${run.font.resourceName} ${formatNumber(size)} Tf <${run.font.encode(run.codePoints)}> Tj`);
+      width += (run.width * size) / 1000;
+    }
+    parts.push('ET');
+
+    this.operations.push(parts.join(' '));
+    return width;
+  }
+}
+
+export class PdfDocument {
+  readonly pages: PdfPage[] = [];
+  readonly outline: PdfOutlineItem[] = [];
+  private info: PdfDocumentInfo;
+
+  constructor(info: PdfDocumentInfo = {}) {
+    this.info = info;
+  }
+
+  addPage(width = A4_WIDTH, height = A4_HEIGHT): PdfPage {
+    const page = new PdfPage(width, height);
+    this.pages.push(page);
+    return page;
+  }
+
+  async toBlob(): Promise<Blob> {
+    if (this.pages.length === 0) this.addPage();
+
+    const objects = new Map<number, PdfObject>();
+    let nextId = 1;
+    const sink: PdfObjectSink = {
+      allocate: () => nextId++,
+      set: (id, body) => { objects.set(id, { body }); },
+      setStream: (id, dictionary, data) => {
+        objects.set(id, { stream: { dictionary, data: typeof data === 'string' ? encoder.encode(data) : data } });
+      },
+    };
+
+    const catalogId = sink.allocate();
+    const pagesId = sink.allocate();
+    const infoId = sink.allocate();
+    const pageIds = this.pages.map(() => sink.allocate());
+
+    // Fonts after content has been laid out, so embedded fonts know which glyphs to keep
+    const fontEntries: string[] = [];
+    const usedFonts = new Set<PdfFont>();
+    const contentIds = this.pages.map(page => {
+      page.fonts.forEach(font => usedFonts.add(font));
+      const contentId = sink.allocate();
+      sink.setStream(contentId, '', page.operations.join('\n'));
+      return contentId;
+    });
+    usedFonts.forEach(font => {
+      fontEntries.push(`/${font.resourceName} ${font.write(sink)} 0 R`);
+    });
+
+    const resourcesId = sink.allocate();
+    sink.set(resourcesId, `<< /ProcSet [/PDF /Text] /Font << ${fontEntries.join(' ')} >> >>`);
+
+    this.pages.forEach((page, index) => {
+      sink.set(pageIds[index], `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}] /Resources ${resourcesId} 0 R /Contents ${contentIds[index]} 0 R >>`);
+    });
+    sink.set(pagesId, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+
+    const outlineId = this.writeOutline(sink, pageIds);
+    const catalogEntries = [`/Type /Catalog /Pages ${pagesId} 0 R`];
+    if (outlineId) catalogEntries.push(`/Outlines ${outlineId} 0 R /PageMode /UseOutlines`);
+    if (this.info.language) catalogEntries.push(`/Lang ${pdfTextString(this.info.language)}`);
+    sink.set(catalogId, `<< ${catalogEntries.join(' ')} >>`);
+
+    const infoEntries = ['/Producer (LectureScript)', '/Creator (LectureScript)', `/CreationDate (${this.pdfDate(new Date())})`];
+    if (this.info.title) infoEntries.push(`/Title ${pdfTextString(this.info.title)}`);
+    if (this.info.author) infoEntries.push(`/Author ${pdfTextString(this.info.author)}`);
+    if (this.info.subject) infoEntries.push(`/Subject ${pdfTextString(this.info.subject)}`);
+    if (this.info.keywords) infoEntries.push(`/Keywords ${pdfTextString(this.info.keywords)}`);
+    sink.set(infoId, `<< ${infoEntries.join(' ')} >>`);
+
+    return this.serialize(objects, nextId - 1, catalogId, infoId);
+  }
+
+  /**
+   * Outline tree; returns the root's object id, or null without bookmarks
+   */
+  private writeOutline(sink: PdfObjectSink, pageIds: number[]): number | null {
+    if (this.outline.length === 0) return null;
+
+    const rootId = sink.allocate();
+
+    // Visible descendants: open items count their children
+    const visibleCount = (items: PdfOutlineItem[]): number =>
+      items.reduce((sum, item) => sum + 1 + (item.open && item.children ? visibleCount(item.children) : 0), 0);
+
+    const writeLevel = (items: PdfOutlineItem[], parentId: number): { first: number; last: number } => {
+      const ids = items.map(() => sink.allocate());
+
+      items.forEach((item, index) => {
+        const page = this.pages[item.pageIndex] || this.pages[0];
+        const pageId = pageIds[item.pageIndex] ?? pageIds[0];
+        const entries = [
+          `/Title ${pdfTextString(item.title)}`,
+          `/Parent ${parentId} 0 R`,
+          `/Dest [${pageId} 0 R /XYZ 0 ${formatNumber(page.height - item.y)} 0]`,
+        ];
+        if (index > 0) entries.push(`/Prev ${ids[index - 1]} 0 R`);
+        if (index < items.length - 1) entries.push(`/Next ${ids[index + 1]} 0 R`);
+
+        if (item.children && item.children.length > 0) {
+          const { first, last } = writeLevel(item.children, ids[index]);
+          const count = item.open ? visibleCount(item.children) : -item.children.length;
+          entries.push(`/First ${first} 0 R /Last ${last} 0 R /Count ${count}`);
+        }
+
+        sink.set(ids[index], `<< ${entries.join(' ')} >>`);
+      });
+
+      return { first: ids[0], last: ids[ids.length - 1] };
+    };
+
+    const { first, last } = writeLevel(this.outline, rootId);
+    sink.set(rootId, `<< /Type /Outlines /First ${first} 0 R /Last ${last} 0 R /Count ${visibleCount(this.outline)} >>`);
+    return rootId;
+  }
+
+  private async serialize(objects: Map<number, PdfObject>, count: number, catalogId: number, infoId: number): Promise<Blob> {
+    const compress = canCompress();
+    const parts: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const push = (chunk: string | Uint8Array) => {
+      const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+      parts.push(bytes);
+      length += bytes.length;
+    };
+
+    // The binary comment tells transfer tools the file is not plain text
+    push('%PDF-1.7\n');
+    push(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+    for (let id = 1; id <= count; id++) {
+      const object = objects.get(id);
+      offsets[id] = length;
+      push(`${id} 0 obj\n`);
+
+      if (object?.stream) {
+        let data = object.stream.data;
+        let filter = '';
+        if (compress && data.length > 64) {
+          data = await deflate(data);
+          filter = ' /Filter /FlateDecode';
+        }
+        const dictionary = object.stream.dictionary.replace(/^<<|>>$/g, '').trim();
+        push(`<< ${dictionary ? `${dictionary} ` : ''}/Length ${data.length}${filter} >>\nstream\n`);
+        push(data);
+        push('\nendstream\n');
+      } else {
+        push(`${object?.body ?? 'null'}\n`);
+      }
+
+      push('endobj\n');
+    }
+
+    const xrefOffset = length;
+    const xref = [`xref\n0 ${count + 1}\n`, '0000000000 65535 f \n'];
+    for (let id = 1; id <= count; id++) {
+      xref.push(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    push(xref.join(''));
+    push(`trailer\n<< /Size ${count + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(parts, { type: 'application/pdf' });
+  }
+
+  private pdfDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+  }
+}
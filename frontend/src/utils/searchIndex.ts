@@ -0,0 +1,483 @@
+// 🎯 LectureScript - Library Search Index
+// CJK bigram + stemmed English tokenizer, query operators and BM25 ranking for the library's inverted index
+// Author: Peter Levler
+
+import type { RecordingEntry, SearchSnippet } from '../types/library';
+import { stem } from './stemmer';
+
+/** Bump when tokenization changes; a stale index is rebuilt on the next search */
+export const SEARCH_INDEX_VERSION = 1;
+
+export const SEARCH_META_ID = 'searchIndex';
+
+export interface SearchToken {
+  term: string;
+  position: number;
+  /** Character range in the tokenized text */
+  start: number;
+  end: number;
+}
+
+export interface SearchPosting {
+  /** Occurrences weighted by field, so a title match outranks a passing mention */
+  tf: number;
+  positions: number[];
+}
+
+/** One row of the searchTerms store */
+export interface SearchTermRecord {
+  term: string;
+  postings: Record<string, SearchPosting>;
+}
+
+/** One row of the searchDocs store */
+export interface SearchDocRecord {
+  recordingId: string;
+  contentHash: string;
+  /** Terms with a posting for this recording, so it can be removed again */
+  terms: string[];
+  transcriptStart: number;
+  /** First position of every transcript segment */
+  segmentStarts: number[];
+}
+
+/** Kept in libraryStats under SEARCH_META_ID */
+export interface SearchIndexMeta {
+  id: typeof SEARCH_META_ID;
+  version: number;
+  /** Token count per recording, for BM25 length normalisation */
+  lengths: Record<string, number>;
+}
+
+export type SearchHasOperator = 'pdf' | 'audio' | 'translation';
+
+export interface ParsedSearchQuery {
+  /** Every clause must match; a clause's tokens must appear at their relative positions */
+  clauses: SearchToken[][];
+  tags: string[];
+  before?: number;
+  after?: number;
+  has: SearchHasOperator[];
+}
+
+export interface SearchHit {
+  recordingId: string;
+  score: number;
+  /** Positions where a clause matched, ascending */
+  matchPositions: number[];
+}
+
+const CJK_RUN = /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/;
+const TOKEN_PATTERN = /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]+|[a-z0-9\u00c0-\u024f]+(?:['\u2019][a-z]+)*/gi;
+
+// Keeps phrases from matching across a title and a topic, or two topics
+const FIELD_GAP = 16;
+
+const FIELD_WEIGHTS = {
+  title: 3,
+  topics: 2,
+  tags: 2,
+  transcript: 1,
+};
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const HAS_OPERATORS: SearchHasOperator[] = ['pdf', 'audio', 'translation'];
+
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 50;
+
+// Function words, as tokenize returns them (stemmed), for callers that compare bags of terms
+const STOPWORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'at', 'for', 'is', 'are', 'wa', 'be', 'it',
+  'thi', 'that', 'with', 'as', 'by', 'we', 'you', 'i', 'so', 'do', 'did', 'what', 'where', 'when', 'how',
+  'why', 'who', 'which', 'doe',
+  '嘅', '係', '呢', '我', '哋', '你', '他', '啲', '的', '了', '就', '都',
+]);
+
+export const isStopword = (term: string): boolean => STOPWORDS.has(term);
+
+const normalizeWord = (word: string): string => {
+  const lower = word.toLowerCase().replace(/\u2019/g, "'").replace(/'s$/, '').replace(/'/g, '');
+  return stem(lower);
+};
+
+/**
+ * Split text into index terms. Chinese has no spaces, so every character is a unigram and every
+ * adjacent pair a bigram at the same position; queries look up the bigrams, which keeps 市場 from
+ * matching 市 ... 場. English words are lowercased and stemmed.
+ *
+ * With `bigramsOnly`, runs of two or more CJK characters yield just their bigrams (query side).
+ */
+export const tokenize = (text: string, firstPosition: number = 0, bigramsOnly: boolean = false): SearchToken[] => {
+  const tokens: SearchToken[] = [];
+  let position = firstPosition;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const run = match[0];
+    const offset = match.index ?? 0;
+
+    if (CJK_RUN.test(run[0])) {
+      const chars = Array.from(run);
+      let charOffset = offset;
+      chars.forEach((char, index) => {
+        const next = chars[index + 1];
+        if (!bigramsOnly || chars.length === 1) {
+          tokens.push({ term: char, position, start: charOffset, end: charOffset + char.length });
+        }
+        if (next) {
+          tokens.push({ term: char + next, position, start: charOffset, end: charOffset + char.length + next.length });
+        }
+        charOffset += char.length;
+        position++;
+      });
+    } else {
+      tokens.push({ term: normalizeWord(run), position, start: offset, end: offset + run.length });
+      position++;
+    }
+  }
+
+  return tokens;
+};
+
+const positionCount = (tokens: SearchToken[], firstPosition: number): number =>
+  tokens.length > 0 ? tokens[tokens.length - 1].position + 1 - firstPosition : 0;
+
+/**
+ * Text segments that make up a recording's transcript; live recordings have a single one
+ */
+const transcriptParts = (recording: RecordingEntry): string[] =>
+  recording.segments && recording.segments.length > 0
+    ? recording.segments.map(segment => segment.text)
+    : [recording.transcript || ''];
+
+// FNV-1a, enough to notice that a re-saved recording's text didn't change
+export const hashContent = (content: string): string => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < content.length; index++) {
+    hash ^= content.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+export interface IndexedDocument {
+  doc: SearchDocRecord;
+  postings: Map<string, SearchPosting>;
+  length: number;
+}
+
+export const indexDocument = (recording: RecordingEntry): IndexedDocument => {
+  const postings = new Map<string, SearchPosting>();
+  let position = 0;
+  let length = 0;
+
+  const addField = (text: string, weight: number): void => {
+    const tokens = tokenize(text, position);
+    tokens.forEach(token => {
+      const posting = postings.get(token.term) || { tf: 0, positions: [] };
+      posting.tf += weight;
+      posting.positions.push(token.position);
+      postings.set(token.term, posting);
+    });
+    const count = positionCount(tokens, position);
+    length += count;
+    position += count;
+  };
+
+  const fieldBreak = (): void => {
+    position += FIELD_GAP;
+  };
+
+  addField(recording.title || '', FIELD_WEIGHTS.title);
+  fieldBreak();
+  (recording.keyTopics || []).forEach(topic => {
+    addField(topic, FIELD_WEIGHTS.topics);
+    fieldBreak();
+  });
+  (recording.tags || []).forEach(tag => {
+    addField(tag, FIELD_WEIGHTS.tags);
+    fieldBreak();
+  });
+
+  const transcriptStart = position;
+  const parts = transcriptParts(recording);
+  const segmentStarts = parts.map(text => {
+    const start = position;
+    // Segments run on into each other, so a phrase may span a segment boundary
+    addField(text, FIELD_WEIGHTS.transcript);
+    return start;
+  });
+
+  const contentHash = hashContent([
+    recording.title,
+    ...(recording.keyTopics || []),
+    ...(recording.tags || []),
+    ...parts,
+  ].join('\u0000'));
+
+  return {
+    doc: {
+      recordingId: recording.id,
+      contentHash,
+      terms: Array.from(postings.keys()),
+      transcriptStart,
+      segmentStarts,
+    },
+    postings,
+    length,
+  };
+};
+
+// before:2026-03-01, after:2026-03 or before:2026; bounds are local midnight
+const parseDateBound = (value: string, edge: 'start' | 'end'): number | undefined => {
+  const match = value.match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/);
+  if (!match) return undefined;
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : undefined;
+  const day = match[3] ? Number(match[3]) : undefined;
+
+  if (edge === 'start') {
+    return new Date(year, month ?? 0, day ?? 1).getTime();
+  }
+  if (day !== undefined) return new Date(year, month!, day + 1).getTime();
+  if (month !== undefined) return new Date(year, month + 1, 1).getTime();
+  return new Date(year + 1, 0, 1).getTime();
+};
+
+const QUERY_PATTERN = /([a-z]+):(?:"([^"]*)"?|(\S+))|"([^"]*)"?|(\S+)/gi;
+
+/**
+ * Parse the library search box: free words, "quoted phrases", tag:x, before:/after: dates and
+ * has:pdf|audio|translation. Unknown or malformed operators are searched as plain text.
+ */
+export const parseSearchQuery = (query: string): ParsedSearchQuery => {
+  const parsed: ParsedSearchQuery = { clauses: [], tags: [], has: [] };
+
+  const addText = (text: string): void => {
+    const tokens = tokenize(text, 0, true);
+    if (tokens.length > 0) parsed.clauses.push(tokens);
+  };
+
+  for (const match of query.matchAll(QUERY_PATTERN)) {
+    const [whole, operator, quotedValue, plainValue, phrase, word] = match;
+
+    if (operator) {
+      const value = (quotedValue ?? plainValue ?? '').trim();
+      const name = operator.toLowerCase();
+
+      if (name === 'tag' && value) {
+        parsed.tags.push(value.replace(/^#/, '').toLowerCase());
+        continue;
+      }
+      if (name === 'before' || name === 'after') {
+        const bound = parseDateBound(value, name === 'before' ? 'start' : 'end');
+        if (bound !== undefined) {
+          parsed[name] = bound;
+          continue;
+        }
+      }
+      if (name === 'has' && HAS_OPERATORS.includes(value.toLowerCase() as SearchHasOperator)) {
+        parsed.has.push(value.toLowerCase() as SearchHasOperator);
+        continue;
+      }
+      addText(whole);
+      continue;
+    }
+
+    addText(phrase ?? word ?? '');
+  }
+
+  return parsed;
+};
+
+export const hasTextClauses = (query: ParsedSearchQuery): boolean => query.clauses.length > 0;
+
+/**
+ * Whether a recording passes the tag:, before:, after: and has: operators
+ */
+export const matchesSearchOperators = (recording: RecordingEntry, query: ParsedSearchQuery): boolean => {
+  if (query.tags.length > 0) {
+    const tags = recording.tags.map(tag => tag.toLowerCase());
+    if (!query.tags.every(tag => tags.includes(tag))) return false;
+  }
+
+  if (query.before !== undefined && recording.dateCreated >= query.before) return false;
+  if (query.after !== undefined && recording.dateCreated < query.after) return false;
+
+  return query.has.every(feature => {
+    switch (feature) {
+      case 'pdf':
+        return Boolean(recording.hasPdf || recording.pdfContext);
+      case 'audio':
+        return recording.hasAudio;
+      case 'translation':
+        return (recording.segments || []).some(segment =>
+          segment.translations && Object.values(segment.translations).some(Boolean));
+      default:
+        return true;
+    }
+  });
+};
+
+/**
+ * Distinct terms the index has to be read for
+ */
+export const queryTerms = (query: ParsedSearchQuery): string[] =>
+  Array.from(new Set(query.clauses.flatMap(clause => clause.map(token => token.term))));
+
+/**
+ * Start positions where every token of the clause sits at its offset from the first
+ */
+const clauseMatches = (clause: SearchToken[], postings: Record<string, SearchPosting> | undefined): number[] => {
+  if (!postings) return [];
+  const [first, ...rest] = clause;
+  const firstPositions = postings[first.term]?.positions || [];
+  if (rest.length === 0) return firstPositions;
+
+  const others = rest.map(token => ({
+    offset: token.position - first.position,
+    positions: new Set(postings[token.term]?.positions || []),
+  }));
+
+  return firstPositions.filter(position =>
+    others.every(({ offset, positions }) => positions.has(position + offset)));
+};
+
+/**
+ * Rank recordings that match every clause with BM25 over the field-weighted term frequencies
+ */
+export const rankDocuments = (
+  query: ParsedSearchQuery,
+  termRecords: Map<string, SearchTermRecord>,
+  meta: SearchIndexMeta
+): SearchHit[] => {
+  const documentCount = Object.keys(meta.lengths).length;
+  if (documentCount === 0 || !hasTextClauses(query)) return [];
+
+  const averageLength = Object.values(meta.lengths).reduce((sum, length) => sum + length, 0) / documentCount || 1;
+
+  // Candidates must contain every term before positions are checked
+  const terms = queryTerms(query);
+  const [firstTerm, ...otherTerms] = terms;
+  const candidates = Object.keys(termRecords.get(firstTerm)?.postings || {})
+    .filter(recordingId => otherTerms.every(term => termRecords.get(term)?.postings[recordingId]));
+
+  const hits: SearchHit[] = [];
+
+  candidates.forEach(recordingId => {
+    const postings: Record<string, SearchPosting> = {};
+    terms.forEach(term => {
+      postings[term] = termRecords.get(term)!.postings[recordingId];
+    });
+
+    const matchPositions: number[] = [];
+    for (const clause of query.clauses) {
+      const matches = clauseMatches(clause, postings);
+      if (matches.length === 0) return;
+      matchPositions.push(...matches);
+    }
+
+    const length = meta.lengths[recordingId] ?? averageLength;
+    const score = terms.reduce((sum, term) => {
+      const documentFrequency = Object.keys(termRecords.get(term)!.postings).length;
+      const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      const tf = postings[term].tf;
+      return sum + idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+    }, 0);
+
+    hits.push({ recordingId, score, matchPositions: matchPositions.sort((a, b) => a - b) });
+  });
+
+  return hits.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Character ranges of every clause occurrence in a piece of text, merged and in order
+ */
+const highlightRanges = (text: string, query: ParsedSearchQuery): Array<[number, number]> => {
+  const tokens = tokenize(text);
+  const byTerm = new Map<string, SearchToken[]>();
+  tokens.forEach(token => {
+    byTerm.set(token.term, [...(byTerm.get(token.term) || []), token]);
+  });
+
+  const ranges: Array<[number, number]> = [];
+  query.clauses.forEach(clause => {
+    const [first, ...rest] = clause;
+    (byTerm.get(first.term) || []).forEach(start => {
+      const matched = rest.map(token => (byTerm.get(token.term) || [])
+        .find(candidate => candidate.position === start.position + token.position - first.position));
+      if (matched.every(Boolean)) {
+        const end = Math.max(start.end, ...matched.map(token => token!.end));
+        ranges.push([start.start, end]);
+      }
+    });
+  });
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  return ranges.reduce<Array<[number, number]>>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+    return merged;
+  }, []);
+};
+
+/**
+ * Snippet around the first transcript match, with the segment's start time when the recording
+ * has timed segments. Undefined when the query only matched the title, topics or tags.
+ */
+export const buildSnippet = (
+  recording: RecordingEntry,
+  doc: SearchDocRecord,
+  hit: SearchHit,
+  query: ParsedSearchQuery
+): SearchSnippet | undefined => {
+  const firstMatch = hit.matchPositions.find(position => position >= doc.transcriptStart);
+  if (firstMatch === undefined) return undefined;
+
+  let segmentIndex = 0;
+  doc.segmentStarts.forEach((start, index) => {
+    if (start <= firstMatch) segmentIndex = index;
+  });
+
+  const segment = recording.segments?.[segmentIndex];
+  const text = transcriptParts(recording)[segmentIndex] || '';
+  const ranges = highlightRanges(text, query);
+
+  let from = 0;
+  let to = text.length;
+  if (text.length > SNIPPET_LENGTH) {
+    const anchor = ranges[0]?.[0] ?? 0;
+    from = Math.max(0, Math.min(anchor - SNIPPET_LEAD, text.length - SNIPPET_LENGTH));
+    to = Math.min(text.length, from + SNIPPET_LENGTH);
+
+    // Don't cut English words in half; Chinese can break anywhere
+    const firstSpace = text.indexOf(' ', from);
+    if (from > 0 && firstSpace !== -1 && firstSpace < anchor) from = firstSpace + 1;
+    const lastSpace = text.lastIndexOf(' ', to);
+    if (to < text.length && lastSpace > Math.max(anchor, from + SNIPPET_LENGTH / 2)) to = lastSpace;
+  }
+
+  const window = text.slice(from, to);
+  const body = window.trim();
+  const prefix = from > 0 ? '…' : '';
+  const suffix = to < text.length ? '…' : '';
+  // Highlights move with the ellipsis and the whitespace trimmed off the front of the window
+  const shift = prefix.length - (window.length - window.trimStart().length) - from;
+
+  return {
+    text: prefix + body + suffix,
+    highlights: ranges
+      .filter(([start, end]) => start >= from && end <= to)
+      .map(([start, end]) => [start + shift, end + shift] as [number, number]),
+    timestamp: segment?.start,
+    segmentId: segment?.id,
+  };
+};
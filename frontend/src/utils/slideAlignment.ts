@@ -0,0 +1,203 @@
+// Slide-to-transcript alignment.
+// Scores every (segment, slide) pair by weighted keyword overlap, then picks the best
+// non-decreasing slide sequence over the lecture with dynamic programming.
+
+import type { PageTimestamp, TranscriptionSegment } from '../types/transcription';
+
+/**
+ * Manual correction: this segment is where the lecturer is on this page
+ */
+export interface AlignmentAnchor {
+  segmentId: string;
+  pageNumber: number;
+}
+
+// Cost of advancing one slide, so noise alone doesn't flip pages back and forth
+const TRANSITION_PENALTY = 0.15;
+// Extra cost per slide skipped when jumping ahead
+const SKIP_PENALTY = 0.05;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one',
+  'our', 'out', 'has', 'have', 'this', 'that', 'with', 'from', 'they', 'will', 'would', 'there',
+  'their', 'what', 'about', 'which', 'when', 'your', 'been', 'were', 'then', 'than', 'them',
+  'into', 'some', 'could', 'these', 'those', 'also', 'just', 'like', 'very', 'okay', 'right',
+  'here', 'where', 'because', 'let', 'now', 'see', 'how', 'its', 'it\'s', 'don\'t', 'going',
+]);
+
+// Particles that carry no topic in spoken Cantonese/Mandarin
+const CJK_FILLER = /[的了是我你佢哋呢嘅咗喺就都好啦呀吖咁噉個一不在有這那]/;
+
+/**
+ * Latin words (3+ letters, no stop words) plus CJK character bigrams
+ */
+export const tokenizeForAlignment = (text: string): string[] => {
+  const tokens: string[] = [];
+  const lower = text.toLowerCase();
+
+  for (const word of lower.match(/[a-z][a-z0-9'-]{2,}/g) || []) {
+    if (!STOP_WORDS.has(word)) tokens.push(word);
+  }
+
+  for (const run of lower.match(/[\u4e00-\u9fff]+/g) || []) {
+    for (let i = 0; i < run.length - 1; i++) {
+      const bigram = run.slice(i, i + 2);
+      if (!CJK_FILLER.test(bigram[0]) || !CJK_FILLER.test(bigram[1])) tokens.push(bigram);
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Score matrix [segment][slide], each row normalised to 0..1
+ */
+const buildScores = (slideTexts: string[], segments: TranscriptionSegment[]): number[][] => {
+  const slideTerms = slideTexts.map(text => new Set(tokenizeForAlignment(text)));
+
+  // Terms that appear on many slides (course title, lecturer name) say little about position
+  const documentFrequency = new Map<string, number>();
+  slideTerms.forEach(terms => terms.forEach(term => {
+    documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+  }));
+  const idf = (term: string) => Math.log(1 + slideTexts.length / (documentFrequency.get(term) || 1));
+
+  return segments.map(segment => {
+    const segmentTerms = new Set(tokenizeForAlignment(segment.text));
+    const row = slideTerms.map(terms => {
+      if (terms.size === 0) return 0;
+      let score = 0;
+      segmentTerms.forEach(term => {
+        if (terms.has(term)) score += idf(term);
+      });
+      return score / Math.sqrt(terms.size);
+    });
+
+    const max = Math.max(0, ...row);
+    return max > 0 ? row.map(value => value / max) : row;
+  });
+};
+
+/**
+ * Align slides to transcript segments and return the time each slide starts being discussed.
+ * Slides are visited in order; anchors force a segment onto a page and the rest of the
+ * lecture is re-aligned around them.
+ */
+export const alignSlidesToTranscript = (
+  slideTexts: string[],
+  segments: TranscriptionSegment[],
+  anchors: AlignmentAnchor[] = []
+): PageTimestamp[] => {
+  const pageCount = slideTexts.length;
+  if (pageCount === 0 || segments.length === 0) return [];
+
+  const scores = buildScores(slideTexts, segments);
+  const anchorBySegment = new Map(anchors.map(anchor => [anchor.segmentId, anchor.pageNumber - 1]));
+
+  // best[p] = best total score with the current segment on slide p
+  let best = new Array<number>(pageCount).fill(-Infinity);
+  const backPointers: Int32Array[] = [];
+
+  segments.forEach((segment, i) => {
+    const anchoredPage = anchorBySegment.get(segment.id);
+    const allowed = (p: number) => anchoredPage === undefined || anchoredPage === p;
+    const next = new Array<number>(pageCount).fill(-Infinity);
+    const pointers = new Int32Array(pageCount).fill(-1);
+
+    if (i === 0) {
+      for (let p = 0; p < pageCount; p++) {
+        // Lectures usually open on the first slides
+        if (allowed(p)) next[p] = scores[0][p] - SKIP_PENALTY * p;
+      }
+    } else {
+      // Running best over earlier slides q < p, adjusted so the skip penalty is linear in p - q
+      let runningBest = -Infinity;
+      let runningFrom = -1;
+
+      for (let p = 0; p < pageCount; p++) {
+        const stay = best[p];
+        const advance = runningBest - SKIP_PENALTY * p - TRANSITION_PENALTY;
+
+        if (allowed(p)) {
+          if (stay >= advance && stay > -Infinity) {
+            next[p] = stay + scores[i][p];
+            pointers[p] = p;
+          } else if (advance > -Infinity) {
+            next[p] = advance + scores[i][p];
+            pointers[p] = runningFrom;
+          }
+        }
+
+        const candidate = best[p] + SKIP_PENALTY * (p + 1);
+        if (candidate > runningBest) {
+          runningBest = candidate;
+          runningFrom = p;
+        }
+      }
+    }
+
+    best = next;
+    backPointers.push(pointers);
+  });
+
+  // Trace back the best path
+  let page = best.indexOf(Math.max(...best));
+  if (page === -1 || best[page] === -Infinity) return [];
+
+  const assignment = new Array<number>(segments.length);
+  for (let i = segments.length - 1; i >= 0; i--) {
+    assignment[i] = page;
+    if (i > 0) page = backPointers[i][page];
+  }
+
+  const mapping: PageTimestamp[] = [];
+  assignment.forEach((p, i) => {
+    if (i === 0 || assignment[i - 1] !== p) {
+      mapping.push({ pageNumber: p + 1, timestamp: segments[i].start, segmentId: segments[i].id });
+    }
+  });
+
+  return mapping;
+};
+
+/**
+ * Add a manual correction, dropping older anchors it contradicts (same segment, same page,
+ * or out of order with it) so the anchors always admit a monotonic alignment
+ */
+export const addAnchor = (
+  anchors: AlignmentAnchor[],
+  anchor: AlignmentAnchor,
+  segments: TranscriptionSegment[]
+): AlignmentAnchor[] => {
+  const order = new Map(segments.map((segment, index) => [segment.id, index]));
+  const anchorIndex = order.get(anchor.segmentId);
+  if (anchorIndex === undefined) return anchors;
+
+  const kept = anchors.filter(existing => {
+    const index = order.get(existing.segmentId);
+    if (index === undefined || existing.segmentId === anchor.segmentId) return false;
+    if (existing.pageNumber === anchor.pageNumber) return false;
+    return index < anchorIndex ? existing.pageNumber < anchor.pageNumber : existing.pageNumber > anchor.pageNumber;
+  });
+
+  return [...kept, anchor];
+};
+
+/**
+ * Slide on screen at `time`, or null before the first mapped slide
+ */
+export const pageAtTime = (mapping: PageTimestamp[], time: number): number | null => {
+  let page: number | null = null;
+  for (const entry of mapping) {
+    if (entry.timestamp > time) break;
+    page = entry.pageNumber;
+  }
+  return page;
+};
+
+/**
+ * Where a slide was first discussed, or null if the alignment never reached it
+ */
+export const timestampForPage = (mapping: PageTimestamp[], pageNumber: number): PageTimestamp | null => {
+  return mapping.find(entry => entry.pageNumber === pageNumber) || null;
+};
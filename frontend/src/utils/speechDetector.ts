@@ -0,0 +1,424 @@
+// 🎯 LectureScript - Speech Detector
+// Sample-buffer speech detection: adaptive noise floor, speech-band spectral features and hangover smoothing
+// Author: Peter Levler
+
+export interface SpeechDetectorConfig {
+  sampleRate: number;
+  /** Analysis frame length; rounded down to a power of two for the FFT */
+  frameMs: number;
+  /** The room is measured for this long before anything counts as speech */
+  calibrationMs: number;
+  /** The noise floor follows the quietest moment of this window */
+  noiseWindowMs: number;
+  /** How fast the floor may rise when the room gets louder (a fan switching on) */
+  noiseRiseDbPerSecond: number;
+  /** Speech-band energy above the noise floor for a frame to count as speech */
+  speechSnrDb: number;
+  /** Above this, a frame is speech whatever its spectrum looks like */
+  loudSnrDb: number;
+  /** Frames quieter than this RMS are never speech, however quiet the room */
+  minRms: number;
+  speechBandHz: [number, number];
+  /** Share of the spectrum's energy inside the speech band */
+  minSpeechBandRatio: number;
+  /** Broadband noise (fans, HVAC) is flat; voiced speech has harmonic peaks */
+  maxSpectralFlatness: number;
+  maxZeroCrossingRate: number;
+  /** Speech must last this long to start a segment, so clicks and coughs do not */
+  minSpeechMs: number;
+  /** Speech carries on this long after the last speech frame, bridging stops and short pauses */
+  hangoverMs: number;
+}
+
+export interface FrameFeatures {
+  rms: number;
+  /** Energy in the speech band, dB relative to full scale */
+  bandEnergyDb: number;
+  speechBandRatio: number;
+  zeroCrossingRate: number;
+  spectralFlatness: number;
+}
+
+export interface SpeechDecision {
+  /** Milliseconds since the detector started (or the time passed to processFrame) */
+  time: number;
+  /** Smoothed: what callers should act on */
+  isSpeech: boolean;
+  /** This frame alone looked like speech */
+  isSpeechFrame: boolean;
+  calibrating: boolean;
+  noiseFloorDb: number;
+  snrDb: number;
+  features: FrameFeatures;
+}
+
+export interface SpeechSegment {
+  start: number;
+  end: number;
+}
+
+export const DEFAULT_SPEECH_DETECTOR_CONFIG: Omit<SpeechDetectorConfig, 'sampleRate'> = {
+  frameMs: 32,
+  calibrationMs: 1500,
+  noiseWindowMs: 5000,
+  noiseRiseDbPerSecond: 3,
+  speechSnrDb: 6,
+  loudSnrDb: 20,
+  minRms: 0.001,
+  speechBandHz: [300, 3400],
+  minSpeechBandRatio: 0.5,
+  maxSpectralFlatness: 0.45,
+  maxZeroCrossingRate: 0.3,
+  minSpeechMs: 90,
+  hangoverMs: 400,
+};
+
+const EPSILON = 1e-12;
+
+// Calibration takes a low percentile, so a lecture that is already under way still finds the pauses
+const CALIBRATION_PERCENTILE = 0.2;
+
+// Frame-to-frame energy jitters; the floor follows the smoothed energy
+const ENERGY_SMOOTHING = 0.3;
+
+// Flatness is measured per sub-band and averaged by power, so pink or brown noise (fans,
+// ventilation) sloping across the band does not pass for voiced speech, and the weak upper
+// harmonics of speech drowned in that noise do not hide the peaks below them
+const FLATNESS_SUBBAND_HZ = 500;
+
+const toDb = (power: number): number => 10 * Math.log10(power + EPSILON);
+
+const frameSizeFor = (sampleRate: number, frameMs: number): number =>
+  2 ** Math.max(6, Math.floor(Math.log2((sampleRate * frameMs) / 1000)));
+
+/**
+ * In-place iterative radix-2 FFT; `real.length` must be a power of two
+ */
+const fft = (real: Float32Array, imag: Float32Array): void => {
+  const n = real.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+
+    for (let start = 0; start < n; start += size) {
+      let wReal = 1;
+      let wImag = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const even = start + k;
+        const odd = even + size / 2;
+        const tReal = wReal * real[odd] - wImag * imag[odd];
+        const tImag = wReal * imag[odd] + wImag * real[odd];
+        real[odd] = real[even] - tReal;
+        imag[odd] = imag[even] - tImag;
+        real[even] += tReal;
+        imag[even] += tImag;
+
+        const nextReal = wReal * stepReal - wImag * stepImag;
+        wImag = wReal * stepImag + wImag * stepReal;
+        wReal = nextReal;
+      }
+    }
+  }
+};
+
+/**
+ * Features of one frame of samples; `window` must be as long as the frame
+ */
+export const analyzeFrame = (
+  frame: Float32Array,
+  sampleRate: number,
+  window: Float32Array,
+  speechBandHz: [number, number] = DEFAULT_SPEECH_DETECTOR_CONFIG.speechBandHz
+): FrameFeatures => {
+  const n = frame.length;
+  const real = new Float32Array(n);
+  const imag = new Float32Array(n);
+
+  let sumSquares = 0;
+  let crossings = 0;
+  for (let i = 0; i < n; i++) {
+    sumSquares += frame[i] * frame[i];
+    real[i] = frame[i] * window[i];
+    if (i > 0 && (frame[i] >= 0) !== (frame[i - 1] >= 0)) crossings++;
+  }
+
+  fft(real, imag);
+
+  const binHz = sampleRate / n;
+  const lowBin = Math.max(1, Math.ceil(speechBandHz[0] / binHz));
+  const highBin = Math.min(n / 2, Math.floor(speechBandHz[1] / binHz));
+
+  const subbandBins = Math.max(4, Math.round(FLATNESS_SUBBAND_HZ / binHz));
+
+  let totalPower = 0;
+  let bandPower = 0;
+  let weightedFlatness = 0;
+  let subbandPower = 0;
+  let subbandLogSum = 0;
+  let subbandCount = 0;
+
+  // DC is skipped: a microphone offset is not sound
+  for (let bin = 1; bin <= n / 2; bin++) {
+    const power = real[bin] * real[bin] + imag[bin] * imag[bin];
+    totalPower += power;
+    if (bin < lowBin || bin > highBin) continue;
+
+    bandPower += power;
+    subbandPower += power;
+    subbandLogSum += Math.log(power + EPSILON);
+    subbandCount++;
+
+    if (subbandCount === subbandBins || bin === highBin) {
+      const mean = subbandPower / subbandCount;
+      weightedFlatness += mean > EPSILON ? (Math.exp(subbandLogSum / subbandCount) / mean) * subbandPower : 0;
+      subbandPower = 0;
+      subbandLogSum = 0;
+      subbandCount = 0;
+    }
+  }
+
+  // Normalised so a full-scale sine in the band reads about 0 dB
+  const windowGain = window.reduce((sum, w) => sum + w, 0);
+  const bandEnergyDb = toDb((2 * bandPower) / (windowGain * windowGain));
+
+  return {
+    rms: Math.sqrt(sumSquares / n),
+    bandEnergyDb,
+    speechBandRatio: totalPower > EPSILON ? bandPower / totalPower : 0,
+    zeroCrossingRate: n > 1 ? crossings / (n - 1) : 0,
+    spectralFlatness: bandPower > EPSILON ? weightedFlatness / bandPower : 1,
+  };
+};
+
+/**
+ * Decides frame by frame whether someone is speaking. Feed it contiguous samples with `process`,
+ * or the latest frame of a live analyser with `processFrame` and the current time.
+ */
+export class SpeechDetector {
+  readonly config: SpeechDetectorConfig;
+  readonly frameSize: number;
+
+  private window: Float32Array;
+  private pending: Float32Array;
+  private pendingLength = 0;
+  private samplesProcessed = 0;
+
+  private startTime: number | null = null;
+  private lastTime = 0;
+  private calibration: number[] = [];
+  private calibrated = false;
+  private smoothedEnergyDb: number | null = null;
+  private recentEnergy: { time: number; energyDb: number }[] = [];
+  private floorDb = -Infinity;
+
+  private speaking = false;
+  private speechRunStart: number | null = null;
+  private lastSpeechFrame = -Infinity;
+
+  constructor(config: Partial<SpeechDetectorConfig> & { sampleRate: number }) {
+    this.config = { ...DEFAULT_SPEECH_DETECTOR_CONFIG, ...config };
+    this.frameSize = frameSizeFor(this.config.sampleRate, this.config.frameMs);
+    this.pending = new Float32Array(this.frameSize);
+
+    // Hann window
+    this.window = new Float32Array(this.frameSize);
+    for (let i = 0; i < this.frameSize; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (this.frameSize - 1));
+    }
+  }
+
+  get noiseFloorDb(): number {
+    return this.floorDb;
+  }
+
+  get isCalibrated(): boolean {
+    return this.calibrated;
+  }
+
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  reset(): void {
+    this.pendingLength = 0;
+    this.samplesProcessed = 0;
+    this.startTime = null;
+    this.lastTime = 0;
+    this.calibration = [];
+    this.calibrated = false;
+    this.smoothedEnergyDb = null;
+    this.recentEnergy = [];
+    this.floorDb = -Infinity;
+    this.speaking = false;
+    this.speechRunStart = null;
+    this.lastSpeechFrame = -Infinity;
+  }
+
+  /**
+   * Consume a contiguous block of samples; returns a decision for each complete frame.
+   * Leftover samples wait for the next block.
+   */
+  process(samples: Float32Array): SpeechDecision[] {
+    const decisions: SpeechDecision[] = [];
+    let offset = 0;
+
+    while (offset < samples.length) {
+      const take = Math.min(this.frameSize - this.pendingLength, samples.length - offset);
+      this.pending.set(samples.subarray(offset, offset + take), this.pendingLength);
+      this.pendingLength += take;
+      offset += take;
+
+      if (this.pendingLength === this.frameSize) {
+        const time = (this.samplesProcessed / this.config.sampleRate) * 1000;
+        decisions.push(this.processFrame(this.pending, time));
+        this.samplesProcessed += this.frameSize;
+        this.pendingLength = 0;
+      }
+    }
+
+    return decisions;
+  }
+
+  /**
+   * Decide one frame. Longer frames are cut to their latest `frameSize` samples, shorter ones zero-padded.
+   */
+  processFrame(frame: Float32Array, time: number = this.lastTime + this.config.frameMs): SpeechDecision {
+    if (this.startTime === null) this.startTime = time;
+    const elapsed = time - this.startTime;
+    const deltaSeconds = Math.max(0, time - this.lastTime) / 1000;
+    this.lastTime = time;
+
+    const features = analyzeFrame(this.fitFrame(frame), this.config.sampleRate, this.window, this.config.speechBandHz);
+    const calibrating = this.updateNoiseFloor(features.bandEnergyDb, elapsed, time, deltaSeconds);
+    const snrDb = calibrating ? 0 : features.bandEnergyDb - this.floorDb;
+
+    const isSpeechFrame = !calibrating && this.looksLikeSpeech(features, snrDb);
+    const isSpeech = this.smooth(isSpeechFrame, time);
+
+    return {
+      time,
+      isSpeech,
+      isSpeechFrame,
+      calibrating,
+      noiseFloorDb: this.floorDb,
+      snrDb,
+      features,
+    };
+  }
+
+  private fitFrame(frame: Float32Array): Float32Array {
+    if (frame.length === this.frameSize) return frame;
+    if (frame.length > this.frameSize) return frame.subarray(frame.length - this.frameSize);
+
+    const padded = new Float32Array(this.frameSize);
+    padded.set(frame);
+    return padded;
+  }
+
+  /**
+   * Minimum statistics: the floor drops at once to the quietest recent (smoothed) frame, and rises
+   * towards it at a limited rate, since during speech the quietest frame is still the room
+   */
+  private updateNoiseFloor(energyDb: number, elapsed: number, time: number, deltaSeconds: number): boolean {
+    this.smoothedEnergyDb = this.smoothedEnergyDb === null
+      ? energyDb
+      : this.smoothedEnergyDb + ENERGY_SMOOTHING * (energyDb - this.smoothedEnergyDb);
+
+    this.recentEnergy.push({ time, energyDb: this.smoothedEnergyDb });
+    while (this.recentEnergy.length > 0 && this.recentEnergy[0].time < time - this.config.noiseWindowMs) {
+      this.recentEnergy.shift();
+    }
+
+    if (!this.calibrated) {
+      this.calibration.push(energyDb);
+      if (elapsed < this.config.calibrationMs) return true;
+
+      const sorted = [...this.calibration].sort((a, b) => a - b);
+      this.floorDb = sorted[Math.floor((sorted.length - 1) * CALIBRATION_PERCENTILE)];
+      this.calibrated = true;
+      this.calibration = [];
+      return false;
+    }
+
+    const windowMin = this.recentEnergy.reduce((min, entry) => Math.min(min, entry.energyDb), Infinity);
+    if (windowMin < this.floorDb) {
+      this.floorDb = windowMin;
+    } else {
+      this.floorDb += Math.min(windowMin - this.floorDb, this.config.noiseRiseDbPerSecond * deltaSeconds);
+    }
+    return false;
+  }
+
+  private looksLikeSpeech(features: FrameFeatures, snrDb: number): boolean {
+    const { config } = this;
+    if (features.rms < config.minRms || snrDb < config.speechSnrDb) return false;
+    if (snrDb >= config.loudSnrDb) return true;
+
+    // Two of three: fricatives fail flatness and zero-crossings, hum fails the band ratio
+    const votes = [
+      features.speechBandRatio >= config.minSpeechBandRatio,
+      features.spectralFlatness <= config.maxSpectralFlatness,
+      features.zeroCrossingRate <= config.maxZeroCrossingRate,
+    ].filter(Boolean).length;
+    return votes >= 2;
+  }
+
+  private smooth(isSpeechFrame: boolean, time: number): boolean {
+    if (isSpeechFrame) {
+      this.lastSpeechFrame = time;
+      if (this.speechRunStart === null) this.speechRunStart = time;
+
+      // The first frame of a run counts as one frame's worth of speech
+      if (!this.speaking && time - this.speechRunStart + this.config.frameMs >= this.config.minSpeechMs) {
+        this.speaking = true;
+      }
+    } else {
+      this.speechRunStart = null;
+      if (this.speaking && time - this.lastSpeechFrame > this.config.hangoverMs) {
+        this.speaking = false;
+      }
+    }
+
+    return this.speaking;
+  }
+}
+
+/**
+ * Speech segments of a whole recording, in seconds, e.g. a decoded WAV fixture
+ */
+export const detectSpeechSegments = (
+  samples: Float32Array,
+  sampleRate: number,
+  config: Partial<SpeechDetectorConfig> = {}
+): SpeechSegment[] => {
+  const detector = new SpeechDetector({ ...config, sampleRate });
+  const frameSeconds = detector.frameSize / sampleRate;
+  const segments: SpeechSegment[] = [];
+  let current: SpeechSegment | null = null;
+
+  detector.process(samples).forEach(decision => {
+    const seconds = decision.time / 1000;
+    if (decision.isSpeech && !current) {
+      current = { start: seconds, end: seconds + frameSeconds };
+      segments.push(current);
+    } else if (decision.isSpeech && current) {
+      current.end = seconds + frameSeconds;
+    } else if (!decision.isSpeech) {
+      current = null;
+    }
+  });
+
+  return segments;
+};
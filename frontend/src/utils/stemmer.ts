@@ -0,0 +1,151 @@
+// 🎯 LectureScript - English Stemmer
+// Porter (1980) stemmer, so "pricing", "priced" and "prices" share one index term
+// Author: Peter Levler
+
+const VOWELS = 'aeiou';
+
+const isConsonant = (word: string, index: number): boolean => {
+  const char = word[index];
+  if (VOWELS.includes(char)) return false;
+  if (char === 'y') return index === 0 || !isConsonant(word, index - 1);
+  return true;
+};
+
+/**
+ * Number of vowel-consonant sequences, the m in [C](VC){m}[V]
+ */
+const measure = (stem: string): number => {
+  let count = 0;
+  let index = 0;
+
+  while (index < stem.length && isConsonant(stem, index)) index++;
+  while (index < stem.length) {
+    while (index < stem.length && !isConsonant(stem, index)) index++;
+    if (index >= stem.length) break;
+    while (index < stem.length && isConsonant(stem, index)) index++;
+    count++;
+  }
+
+  return count;
+};
+
+const containsVowel = (stem: string): boolean => {
+  for (let index = 0; index < stem.length; index++) {
+    if (!isConsonant(stem, index)) return true;
+  }
+  return false;
+};
+
+const endsWithDoubleConsonant = (word: string): boolean => {
+  const last = word.length - 1;
+  return last > 0 && word[last] === word[last - 1] && isConsonant(word, last);
+};
+
+// consonant-vowel-consonant, where the last consonant is not w, x or y (hop, but not snow)
+const endsCvc = (word: string): boolean => {
+  const last = word.length - 1;
+  return last >= 2 &&
+    isConsonant(word, last - 2) &&
+    !isConsonant(word, last - 1) &&
+    isConsonant(word, last) &&
+    !'wxy'.includes(word[last]);
+};
+
+// Longest suffixes first: the first suffix that matches is the only one tried
+const STEP_2: [string, string][] = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+  ['bli', 'ble'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'],
+  ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'],
+  ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'],
+  ['logi', 'log'],
+].sort((a, b) => b[0].length - a[0].length) as [string, string][];
+
+const STEP_3: [string, string][] = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', ''],
+];
+
+const STEP_4 = [
+  'ement', 'ance', 'ence', 'able', 'ible', 'ment', 'ant', 'ent', 'ion', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize',
+  'al', 'er', 'ic', 'ou',
+];
+
+const replaceSuffix = (word: string, rules: [string, string][], minMeasure: number): string => {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return measure(stem) > minMeasure ? stem + replacement : word;
+    }
+  }
+  return word;
+};
+
+const step1a = (word: string): string => {
+  if (word.endsWith('sses')) return word.slice(0, -2);
+  if (word.endsWith('ies')) return word.slice(0, -2);
+  if (word.endsWith('ss')) return word;
+  if (word.endsWith('s')) return word.slice(0, -1);
+  return word;
+};
+
+const step1b = (word: string): string => {
+  if (word.endsWith('eed')) {
+    return measure(word.slice(0, -3)) > 0 ? word.slice(0, -1) : word;
+  }
+
+  let stem: string | null = null;
+  if (word.endsWith('ed') && containsVowel(word.slice(0, -2))) {
+    stem = word.slice(0, -2);
+  } else if (word.endsWith('ing') && containsVowel(word.slice(0, -3))) {
+    stem = word.slice(0, -3);
+  }
+  if (stem === null) return word;
+
+  if (stem.endsWith('at') || stem.endsWith('bl') || stem.endsWith('iz')) return stem + 'e';
+  if (endsWithDoubleConsonant(stem) && !'lsz'.includes(stem[stem.length - 1])) return stem.slice(0, -1);
+  if (measure(stem) === 1 && endsCvc(stem)) return stem + 'e';
+  return stem;
+};
+
+const step1c = (word: string): string =>
+  word.endsWith('y') && containsVowel(word.slice(0, -1)) ? word.slice(0, -1) + 'i' : word;
+
+const step4 = (word: string): string => {
+  for (const suffix of STEP_4) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      if (measure(stem) <= 1) return word;
+      if (suffix === 'ion' && !/[st]$/.test(stem)) return word;
+      return stem;
+    }
+  }
+  return word;
+};
+
+const step5 = (word: string): string => {
+  if (word.endsWith('e')) {
+    const stem = word.slice(0, -1);
+    const m = measure(stem);
+    if (m > 1 || (m === 1 && !endsCvc(stem))) word = stem;
+  }
+
+  if (measure(word) > 1 && word.endsWith('ll')) {
+    word = word.slice(0, -1);
+  }
+
+  return word;
+};
+
+/**
+ * Stem a lowercase English word; short words and anything with digits are returned unchanged
+ */
+export const stem = (word: string): string => {
+  if (word.length <= 2 || !/^[a-z]+$/.test(word)) return word;
+
+  let result = step1a(word);
+  result = step1b(result);
+  result = step1c(result);
+  result = replaceSuffix(result, STEP_2, 0);
+  result = replaceSuffix(result, STEP_3, 0);
+  result = step4(result);
+  return step5(result);
+};
@@ -1,8 +1,8 @@
-import { openDB, type IDBPDatabase } from 'idb';
+import type { IDBPDatabase } from 'idb';
 import type { LectureSession, UsageStats, AppSettings } from '../types';
-
-const DB_NAME = 'LectureTranscriptionDB';
-const DB_VERSION = 1;
+import type { QueuedChunk } from '../types/chunkQueue';
+import type { ExportTemplate } from '../types/templates';
+import { lectureDatabase } from './database/lectureDatabase';
 
 class StorageManager {
   private db: IDBPDatabase | null = null;
@@ -10,31 +10,7 @@ class StorageManager {
   async initialize(): Promise<void> {
     if (this.db) return;
 
-    this.db = await openDB(DB_NAME, DB_VERSION, {
-      upgrade(db) {
-        // Sessions store
-        if (!db.objectStoreNames.contains('sessions')) {
-          const sessionStore = db.createObjectStore('sessions', { keyPath: 'id' });
-          sessionStore.createIndex('timestamp', 'startTime');
-          sessionStore.createIndex('status', 'status');
-        }
-
-        // Settings store
-        if (!db.objectStoreNames.contains('settings')) {
-          db.createObjectStore('settings', { keyPath: 'key' });
-        }
-
-        // Usage stats store
-        if (!db.objectStoreNames.contains('usage')) {
-          db.createObjectStore('usage', { keyPath: 'id' });
-        }
-
-        // Audio blobs store (temporary)
-        if (!db.objectStoreNames.contains('audio')) {
-          db.createObjectStore('audio', { keyPath: 'sessionId' });
-        }
-      },
-    });
+    this.db = await lectureDatabase.open();
   }
 
   // Session management
@@ -174,6 +150,57 @@ class StorageManager {
     }
   }
 
+  // Chunk queue management
+  async putQueuedChunk(chunk: QueuedChunk): Promise<void> {
+    if (!this.db) await this.initialize();
+    await this.db!.put('chunkQueue', chunk);
+  }
+
+  async getQueuedChunk(sessionId: string, chunkIndex: number): Promise<QueuedChunk | undefined> {
+    if (!this.db) await this.initialize();
+    return await this.db!.get('chunkQueue', [sessionId, chunkIndex]);
+  }
+
+  async getQueuedChunks(sessionId: string): Promise<QueuedChunk[]> {
+    if (!this.db) await this.initialize();
+    const chunks: QueuedChunk[] = await this.db!.getAllFromIndex('chunkQueue', 'sessionId', sessionId);
+    return chunks.sort((a, b) => a.chunkIndex - b.chunkIndex);
+  }
+
+  async getQueuedChunksByStatus(status: QueuedChunk['status']): Promise<QueuedChunk[]> {
+    if (!this.db) await this.initialize();
+    return await this.db!.getAllFromIndex('chunkQueue', 'status', status);
+  }
+
+  async deleteQueuedChunks(sessionId: string): Promise<void> {
+    if (!this.db) await this.initialize();
+    const tx = this.db!.transaction('chunkQueue', 'readwrite');
+    const keys = await tx.store.index('sessionId').getAllKeys(sessionId);
+    await Promise.all([...keys.map(key => tx.store.delete(key)), tx.done]);
+  }
+
+  // Export template management
+  async saveTemplate(template: ExportTemplate): Promise<void> {
+    if (!this.db) await this.initialize();
+    await this.db!.put('templates', { ...template, builtIn: false });
+  }
+
+  async getTemplate(id: string): Promise<ExportTemplate | undefined> {
+    if (!this.db) await this.initialize();
+    return await this.db!.get('templates', id);
+  }
+
+  async getAllTemplates(): Promise<ExportTemplate[]> {
+    if (!this.db) await this.initialize();
+    const templates: ExportTemplate[] = await this.db!.getAll('templates');
+    return templates.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    if (!this.db) await this.initialize();
+    await this.db!.delete('templates', id);
+  }
+
   // Utility methods
   getDefaultSettings(): AppSettings {
     return {
@@ -194,12 +221,14 @@ class StorageManager {
   async clearAllData(): Promise<void> {
     if (!this.db) await this.initialize();
 
-    const tx = this.db!.transaction(['sessions', 'settings', 'usage', 'audio'], 'readwrite');
+    const tx = this.db!.transaction(['sessions', 'settings', 'usage', 'audio', 'chunkQueue', 'templates'], 'readwrite');
     await Promise.all([
       tx.objectStore('sessions').clear(),
       tx.objectStore('settings').clear(),
       tx.objectStore('usage').clear(),
       tx.objectStore('audio').clear(),
+      tx.objectStore('chunkQueue').clear(),
+      tx.objectStore('templates').clear(),
     ]);
   }
 
@@ -207,11 +236,13 @@ class StorageManager {
     const sessions = await this.getAllSessions();
     const settings = await this.getSettings();
     const usage = await this.getUsageStats();
+    const templates = await this.getAllTemplates();
 
     return JSON.stringify({
       sessions,
       settings,
       usage,
+      templates,
       exportDate: new Date().toISOString(),
     }, null, 2);
   }
@@ -228,6 +259,12 @@ class StorageManager {
     if (data.settings) {
       await this.saveSettings(data.settings);
     }
+
+    if (data.templates) {
+      for (const template of data.templates) {
+        await this.saveTemplate(template);
+      }
+    }
   }
 }
 
@@ -0,0 +1,480 @@
+// Canonical transcript document converters
+// Every transcription producer maps into TranscriptDocument, and every viewer or
+// exporter reads from it through the legacy adapters below.
+
+import type { LectureSession, TranscriptSegment } from '../types';
+import type {
+  TranscriptDocument,
+  TranscriptDocumentSegment,
+  TranscriptLanguage,
+  TranscriptSource,
+  TranscriptionSegment,
+  TranscriptionWord,
+} from '../types/transcription';
+
+/**
+ * Word as returned by Whisper verbose_json or the backend
+ */
+export interface RawTranscriptWord {
+  word?: string;
+  text?: string;
+  start?: number;
+  end?: number;
+  confidence?: number;
+  probability?: number;
+}
+
+/**
+ * Segment as returned by Whisper verbose_json or the backend
+ */
+export interface RawTranscriptSegment {
+  id?: string | number;
+  text?: string;
+  start?: number;
+  end?: number;
+  speaker?: string;
+  language?: string;
+  confidence?: number;
+  avg_logprob?: number;
+  words?: RawTranscriptWord[];
+}
+
+/**
+ * Response body shared by /api/transcribe, /api/transcribe/stream,
+ * /api/transcribe/enhanced, /api/transcription/:id and Whisper verbose_json
+ */
+export interface RawTranscriptPayload {
+  text?: string;
+  language?: string;
+  duration?: number;
+  segments?: RawTranscriptSegment[];
+  words?: RawTranscriptWord[];
+}
+
+interface ConvertOptions {
+  source: TranscriptSource;
+  idPrefix?: string;
+  timeOffset?: number;
+  defaultSpeaker?: string;
+  documentId?: string;
+}
+
+// Whisper returns ~30s segments; word-only responses are grouped at sentence ends or after this long
+const MAX_GROUPED_SEGMENT_SECONDS = 10;
+
+export const detectTranscriptLanguage = (text: string): TranscriptLanguage => {
+  if (!text) return 'en';
+
+  const chineseChars = text.match(/[\u4e00-\u9fff]/g) || [];
+  const englishWords = text.match(/[a-zA-Z]+/g) || [];
+
+  const chineseRatio = chineseChars.length / text.length;
+  const englishRatio = englishWords.join('').length / text.length;
+
+  if (chineseRatio > 0.3 && englishRatio > 0.3) {
+    return 'mixed';
+  } else if (chineseRatio > englishRatio) {
+    return 'zh';
+  }
+  return 'en';
+};
+
+const normalizeLanguage = (language: string | undefined, text: string): TranscriptLanguage => {
+  const value = (language || '').toLowerCase();
+
+  if (value === 'mixed') return 'mixed';
+  if (value.startsWith('zh') || value === 'chinese' || value === 'cantonese' || value === 'yue') return 'zh';
+  if (value.startsWith('en') || value === 'english') return 'en';
+
+  return detectTranscriptLanguage(text);
+};
+
+const convertWord = (word: RawTranscriptWord, timeOffset: number): TranscriptionWord => ({
+  word: word.word ?? word.text ?? '',
+  start: (word.start || 0) + timeOffset,
+  end: (word.end ?? word.start ?? 0) + timeOffset,
+  confidence: word.confidence ?? word.probability,
+});
+
+/**
+ * Whisper only returns top-level words when segment granularity is not requested,
+ * so group them into sentence-sized segments
+ */
+const groupWordsIntoSegments = (words: TranscriptionWord[]): TranscriptionWord[][] => {
+  const groups: TranscriptionWord[][] = [];
+  let current: TranscriptionWord[] = [];
+
+  for (const word of words) {
+    current.push(word);
+
+    const endsSentence = /[.!?。！？]$/.test(word.word.trim());
+    const tooLong = word.start - current[0].start > MAX_GROUPED_SEGMENT_SECONDS;
+
+    if (endsSentence || tooLong) {
+      groups.push(current);
+      current = [];
+    }
+  }
+
+  if (current.length > 0) {
+    groups.push(current);
+  }
+
+  return groups;
+};
+
+/**
+ * Whisper words carry their own leading space for Latin scripts; CJK characters do not.
+ * Returns whether a space must be inserted before this word when joining.
+ */
+export const needsSpaceBefore = (word: string): boolean => {
+  return !/^\s/.test(word) && !/[\u4e00-\u9fff]/.test(word);
+};
+
+const joinWords = (words: TranscriptionWord[]): string => {
+  return words.reduce((text, { word }) => {
+    if (!text) return word.trim();
+    return needsSpaceBefore(word) ? `${text} ${word}` : text + word;
+  }, '').trim();
+};
+
+const averageConfidence = (words: TranscriptionWord[]): number | undefined => {
+  const scored = words.filter(word => word.confidence !== undefined);
+  if (scored.length === 0) return undefined;
+  return scored.reduce((sum, word) => sum + (word.confidence as number), 0) / scored.length;
+};
+
+/**
+ * Convert any raw transcription payload into a canonical document without dropping fields
+ */
+export const fromRawPayload = (
+  payload: RawTranscriptPayload,
+  options: ConvertOptions
+): TranscriptDocument => {
+  const { source, idPrefix = 'segment-', timeOffset = 0, defaultSpeaker } = options;
+  const topLevelWords = (payload.words || []).map(word => convertWord(word, timeOffset));
+  const rawSegments = payload.segments || [];
+
+  let segments: TranscriptDocumentSegment[];
+
+  if (rawSegments.length > 0) {
+    segments = rawSegments.map((seg, index) => {
+      const start = (seg.start || 0) + timeOffset;
+      const end = (seg.end ?? seg.start ?? 0) + timeOffset;
+      const text = (seg.text || '').trim();
+
+      // Prefer per-segment words; otherwise claim the top-level words inside this time range
+      const words = seg.words && seg.words.length > 0
+        ? seg.words.map(word => convertWord(word, timeOffset))
+        : topLevelWords.filter(word => word.start >= start && word.start < end);
+
+      return {
+        id: `${idPrefix}${index}`,
+        text,
+        start,
+        end,
+        speaker: seg.speaker || defaultSpeaker,
+        language: normalizeLanguage(seg.language, text),
+        confidence: seg.confidence ?? averageConfidence(words) ?? 1,
+        words,
+      };
+    });
+  } else if (topLevelWords.length > 0) {
+    segments = groupWordsIntoSegments(topLevelWords).map((words, index) => {
+      const text = joinWords(words);
+      return {
+        id: `${idPrefix}${index}`,
+        text,
+        start: words[0].start,
+        end: words[words.length - 1].end,
+        speaker: defaultSpeaker,
+        language: normalizeLanguage(undefined, text),
+        confidence: averageConfidence(words) ?? 1,
+        words,
+      };
+    });
+  } else {
+    const text = (payload.text || '').trim();
+    segments = text
+      ? [{
+          id: `${idPrefix}0`,
+          text,
+          start: timeOffset,
+          end: timeOffset + (payload.duration || 0),
+          speaker: defaultSpeaker,
+          language: normalizeLanguage(payload.language, text),
+          confidence: 1,
+          words: [],
+        }]
+      : [];
+  }
+
+  const text = payload.text ?? segments.map(seg => seg.text).join(' ');
+  const lastEnd = segments.length > 0 ? segments[segments.length - 1].end - timeOffset : 0;
+
+  return {
+    id: options.documentId || `transcript_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    source,
+    language: payload.language || 'unknown',
+    duration: payload.duration || lastEnd,
+    text,
+    segments,
+    createdAt: Date.now(),
+  };
+};
+
+// Producer-specific converters
+
+/**
+ * `backendService.transcribeAudio` - POST /api/transcribe
+ */
+export const fromBackendTranscription = (data: RawTranscriptPayload): TranscriptDocument => {
+  return fromRawPayload(data, { source: 'backend' });
+};
+
+/**
+ * `streamingService.transcribeStreamChunk` - POST /api/transcribe/stream
+ */
+export const fromStreamChunk = (
+  data: RawTranscriptPayload & { sessionId?: string },
+  chunkIndex: number
+): TranscriptDocument => {
+  return fromRawPayload(data, {
+    source: 'stream',
+    idPrefix: `chunk-${chunkIndex}-segment-`,
+    documentId: data.sessionId ? `${data.sessionId}_chunk_${chunkIndex}` : undefined,
+  });
+};
+
+/**
+ * `pdfBackendService.transcribeWithPdfContext` - POST /api/transcribe/enhanced
+ */
+export const fromEnhancedTranscription = (data: RawTranscriptPayload): TranscriptDocument => {
+  return fromRawPayload(data, { source: 'enhanced' });
+};
+
+/**
+ * `WhisperService` - OpenAI verbose_json response
+ */
+export const fromWhisperResponse = (
+  response: RawTranscriptPayload,
+  timeOffset: number = 0
+): TranscriptDocument => {
+  return fromRawPayload(response, { source: 'whisper', timeOffset });
+};
+
+/**
+ * Study mode poller - GET /api/transcription/:id
+ */
+export const fromStudyModeTranscription = (
+  transcription: RawTranscriptPayload,
+  transcriptId?: string
+): TranscriptDocument => {
+  return fromRawPayload(transcription, {
+    source: 'study-mode',
+    idPrefix: 'seg-',
+    defaultSpeaker: 'Professor',
+    documentId: transcriptId,
+  });
+};
+
+// Legacy adapters
+
+/**
+ * Live/library segment list (`types/index.ts`)
+ */
+export const toTranscriptSegments = (document: TranscriptDocument): TranscriptSegment[] => {
+  return document.segments.map(seg => ({
+    id: seg.id,
+    text: seg.text,
+    timestamp: seg.start,
+    end: seg.end,
+    confidence: seg.confidence,
+    language: seg.language,
+    speaker: seg.speaker,
+    words: seg.words,
+    translations: seg.translations,
+  }));
+};
+
+/**
+ * Study-mode segment list (`types/transcription.ts`)
+ */
+export const toTranscriptionSegments = (document: TranscriptDocument): TranscriptionSegment[] => {
+  return document.segments.map(seg => ({ ...seg, words: [...seg.words] }));
+};
+
+export const fromTranscriptSegments = (
+  segments: TranscriptSegment[],
+  options: { duration?: number; language?: string; source?: TranscriptSource } = {}
+): TranscriptDocument => {
+  const sorted = [...segments].sort((a, b) => a.timestamp - b.timestamp);
+  const lastStart = sorted.length > 0 ? sorted[sorted.length - 1].timestamp : 0;
+  const duration = options.duration ?? sorted[sorted.length - 1]?.end ?? lastStart;
+
+  return {
+    id: `transcript_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    source: options.source || 'legacy',
+    language: options.language || 'unknown',
+    duration,
+    text: sorted.map(seg => seg.text).join(' '),
+    segments: sorted.map((seg, index) => ({
+      id: seg.id,
+      text: seg.text,
+      start: seg.timestamp,
+      // Legacy segments only carry a start time, so close each one at the next segment
+      end: seg.end ?? sorted[index + 1]?.timestamp ?? Math.max(duration, seg.timestamp),
+      speaker: seg.speaker,
+      language: seg.language ?? detectTranscriptLanguage(seg.text),
+      confidence: seg.confidence,
+      words: seg.words || [],
+      translations: seg.translations,
+    })),
+    createdAt: Date.now(),
+  };
+};
+
+export const fromTranscriptionSegments = (
+  segments: TranscriptionSegment[],
+  options: { language?: string; source?: TranscriptSource } = {}
+): TranscriptDocument => {
+  const duration = segments.reduce((max, seg) => Math.max(max, seg.end), 0);
+
+  return {
+    id: `transcript_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    source: options.source || 'study-mode',
+    language: options.language || 'unknown',
+    duration,
+    text: segments.map(seg => seg.text).join(' '),
+    segments: segments.map(seg => ({
+      ...seg,
+      language: seg.language ?? detectTranscriptLanguage(seg.text),
+      words: seg.words || [],
+    })),
+    createdAt: Date.now(),
+  };
+};
+
+/**
+ * Wrap a document as a LectureSession so it can go through EnhancedExportService
+ */
+export const toLectureSession = (
+  document: TranscriptDocument,
+  meta: { name: string; startTime?: number; cost?: number; summary?: string; keyTopics?: string[] }
+): LectureSession => {
+  const segments = toTranscriptSegments(document);
+  const languages = new Set(document.segments.map(seg => seg.language));
+  const language: TranscriptLanguage = languages.size > 1
+    ? 'mixed'
+    : (document.segments[0]?.language || detectTranscriptLanguage(document.text));
+  const startTime = meta.startTime ?? document.createdAt;
+
+  return {
+    id: document.id,
+    name: meta.name,
+    startTime,
+    endTime: startTime + document.duration * 1000,
+    segments,
+    summary: meta.summary,
+    keyTopics: meta.keyTopics,
+    language,
+    duration: document.duration,
+    wordCount: document.text.split(/\s+/).filter(Boolean).length,
+    cost: meta.cost || 0,
+    status: 'completed',
+  };
+};
+
+/**
+ * Join chunk documents (each timed from zero) into one document, shifting every chunk
+ * by the total duration of the chunks before it. Callers pass chunks in recording order.
+ * `offsets` places each chunk where it starts in the recording instead, leaving gaps
+ * for chunks that are missing.
+ */
+export const concatTranscriptDocuments = (
+  documents: TranscriptDocument[],
+  options: { documentId?: string; source?: TranscriptSource; offsets?: number[] } = {}
+): TranscriptDocument => {
+  let offset = 0;
+  let duration = 0;
+  const segments: TranscriptDocumentSegment[] = [];
+
+  documents.forEach((document, index) => {
+    offset = options.offsets?.[index] ?? offset;
+    for (const seg of document.segments) {
+      segments.push({
+        ...seg,
+        start: seg.start + offset,
+        end: seg.end + offset,
+        words: seg.words.map(word => ({ ...word, start: word.start + offset, end: word.end + offset })),
+      });
+    }
+    offset += document.duration;
+    duration = Math.max(duration, offset);
+  });
+
+  const languages = new Set(documents.map(doc => doc.language).filter(lang => lang !== 'unknown'));
+
+  return {
+    id: options.documentId || `transcript_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    source: options.source || documents[0]?.source || 'stream',
+    language: languages.size === 1 ? [...languages][0] : languages.size > 1 ? 'mixed' : 'unknown',
+    duration,
+    text: documents.map(doc => doc.text.trim()).filter(Boolean).join(' '),
+    segments,
+    createdAt: Date.now(),
+  };
+};
+
+const shiftRawWord = (word: RawTranscriptWord, offset: number): RawTranscriptWord => ({
+  ...word,
+  start: word.start !== undefined ? word.start + offset : undefined,
+  end: word.end !== undefined ? word.end + offset : undefined,
+});
+
+/**
+ * Join the payloads of separately transcribed parts of one recording, shifting each by the time
+ * its part starts in the original audio. Unlike concatTranscriptDocuments, the offsets come from
+ * where the audio was cut rather than from each transcript's reported duration.
+ */
+export const mergeTranscriptPayloads = (
+  parts: { payload: RawTranscriptPayload; offset: number }[]
+): RawTranscriptPayload => {
+  const segments: RawTranscriptSegment[] = [];
+  const words: RawTranscriptWord[] = [];
+  let duration = 0;
+
+  for (const { payload, offset } of parts) {
+    const partSegments: RawTranscriptSegment[] = payload.segments && payload.segments.length > 0
+      ? payload.segments.map(seg => ({
+          ...seg,
+          start: (seg.start || 0) + offset,
+          end: (seg.end ?? seg.start ?? 0) + offset,
+          words: seg.words?.map(word => shiftRawWord(word, offset)),
+        }))
+      // A part with only words or text would vanish beside parts with segments, so it gets its own
+      : fromRawPayload(payload, { source: 'study-mode', timeOffset: offset }).segments.map(seg => ({
+          text: seg.text,
+          start: seg.start,
+          end: seg.end,
+          words: seg.words,
+        }));
+
+    partSegments.forEach(seg => segments.push({ ...seg, id: segments.length }));
+    words.push(...(payload.words || []).map(word => shiftRawWord(word, offset)));
+
+    const lastEnd = (partSegments[partSegments.length - 1]?.end ?? offset) - offset;
+    duration = Math.max(duration, offset + (payload.duration ?? lastEnd));
+  }
+
+  const languages = new Set(parts.map(part => part.payload.language).filter(Boolean));
+
+  return {
+    text: parts.map(part => (part.payload.text || '').trim()).filter(Boolean).join(' '),
+    // Mixed or missing languages are left for the converters to detect from the text
+    language: languages.size === 1 ? [...languages][0] : undefined,
+    duration,
+    segments,
+    words: words.length > 0 ? words : undefined,
+  };
+};
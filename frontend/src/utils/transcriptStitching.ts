@@ -0,0 +1,185 @@
+// Stitch transcripts of overlapping audio chunks back together
+// Each chunk repeats the end of the one before it, so the words in that overlap come back twice,
+// and a word cut at the boundary often comes back once truncated and once whole.
+
+import type { TranscriptDocument, TranscriptDocumentSegment, TranscriptionWord } from '../types/transcription';
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Generous for English; Chinese runs around five characters a second
+const TOKENS_PER_SECOND = 6;
+
+/**
+ * Words and single CJK characters, lowercased, with their position in `text`
+ */
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /[\u4e00-\u9fff]|[a-z0-9\u00c0-\u024f]+(?:'[a-z]+)?/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push({ text: match[0].toLowerCase(), start: match.index, end: match.index + match[0].length });
+  }
+
+  return tokens;
+};
+
+/**
+ * A word cut at the boundary is transcribed as a prefix of itself ("derivat" / "derivative")
+ */
+const isTruncationOf = (partial: string, whole: string): boolean =>
+  partial.length >= 2 && whole.length > partial.length && whole.startsWith(partial);
+
+export interface OverlapMatch {
+  /** Tokens to drop from the end of the earlier transcript (a truncated last word) */
+  dropFromPrevious: number;
+  /** Tokens to drop from the start of the later transcript */
+  dropFromNext: number;
+}
+
+/**
+ * Longest run of tokens the end of `previous` and the start of `next` share. The last shared
+ * token of `previous` may be a truncation of its partner, in which case the whole word in `next`
+ * is kept instead; `next` may also open with one fragment of the cut word before the run starts.
+ */
+export const findTranscriptOverlap = (previous: string, next: string, maxTokens: number): OverlapMatch | null => {
+  const tail = tokenize(previous).slice(-maxTokens).map(token => token.text);
+  const head = tokenize(next).slice(0, maxTokens + 1).map(token => token.text);
+
+  for (let length = Math.min(tail.length, head.length); length >= 1; length--) {
+    for (const skip of [0, 1]) {
+      if (skip + length > head.length) continue;
+
+      const shared = tail.slice(tail.length - length);
+      const candidate = head.slice(skip, skip + length);
+      const leading = shared.slice(0, -1).every((token, i) => token === candidate[i]);
+      if (!leading) continue;
+
+      const last = shared[length - 1];
+      const partner = candidate[length - 1];
+      const truncated = last !== partner && isTruncationOf(last, partner);
+      if (last !== partner && !truncated) continue;
+
+      // One short shared word ("the", a single character) is as likely chance as overlap
+      if (length === 1 && !truncated && last.length < 3) continue;
+
+      return truncated
+        ? { dropFromPrevious: 1, dropFromNext: skip + length - 1 }
+        : { dropFromPrevious: 0, dropFromNext: skip + length };
+    }
+  }
+
+  return null;
+};
+
+const dropLeadingTokens = (text: string, count: number): string => {
+  if (count <= 0) return text;
+  const tokens = tokenize(text);
+  if (tokens.length <= count) return '';
+  return text.slice(tokens[count - 1].end).replace(/^[\s,.;:!?\u3001\u3002\uff0c\uff1b\uff1a\uff01\uff1f]+/, '');
+};
+
+const dropTrailingTokens = (text: string, count: number): string => {
+  if (count <= 0) return text;
+  const tokens = tokenize(text);
+  if (tokens.length <= count) return '';
+  return text.slice(0, tokens[tokens.length - count].start).trimEnd();
+};
+
+const tokenCount = (word: TranscriptionWord) => tokenize(word.word).length;
+
+/**
+ * Drop `count` tokens from the start (or end) of a document's segments, words and text alike
+ */
+const trimSegments = (
+  segments: TranscriptDocumentSegment[],
+  count: number,
+  fromEnd: boolean
+): TranscriptDocumentSegment[] => {
+  const ordered = fromEnd ? [...segments].reverse() : segments;
+  const trimmed: TranscriptDocumentSegment[] = [];
+  let remaining = count;
+
+  for (const segment of ordered) {
+    if (remaining <= 0) {
+      trimmed.push(segment);
+      continue;
+    }
+
+    const segmentTokens = tokenize(segment.text).length;
+    const take = Math.min(remaining, segmentTokens);
+    remaining -= take;
+    if (take === segmentTokens) continue;
+
+    const text = fromEnd ? dropTrailingTokens(segment.text, take) : dropLeadingTokens(segment.text, take);
+    const words = fromEnd ? [...segment.words].reverse() : [...segment.words];
+    let wordTokens = take;
+    while (wordTokens > 0 && words.length > 0) {
+      wordTokens -= tokenCount(words.shift()!);
+    }
+    if (fromEnd) words.reverse();
+
+    trimmed.push({
+      ...segment,
+      text,
+      words,
+      start: !fromEnd && words.length > 0 ? words[0].start : segment.start,
+      end: fromEnd && words.length > 0 ? words[words.length - 1].end : segment.end,
+    });
+  }
+
+  return fromEnd ? trimmed.reverse() : trimmed;
+};
+
+const shiftDocument = (document: TranscriptDocument, seconds: number): TranscriptDocument => ({
+  ...document,
+  duration: Math.max(0, document.duration - seconds),
+  segments: document.segments.map(segment => ({
+    ...segment,
+    start: Math.max(0, segment.start - seconds),
+    end: Math.max(0, segment.end - seconds),
+    words: segment.words.map(word => ({
+      ...word,
+      start: Math.max(0, word.start - seconds),
+      end: Math.max(0, word.end - seconds),
+    })),
+  })),
+});
+
+/**
+ * Remove what `next` repeats of `previous` after `overlapSeconds` of shared audio, and move
+ * `next` onto the timeline right after `previous` so concatTranscriptDocuments lines them up.
+ * Pass `previous` as null when the chunk before is missing: only the timing is adjusted then.
+ */
+export const stitchTranscriptDocuments = (
+  previous: TranscriptDocument | null,
+  next: TranscriptDocument,
+  overlapSeconds: number
+): { previous: TranscriptDocument | null; next: TranscriptDocument } => {
+  if (overlapSeconds <= 0) return { previous, next };
+
+  const shifted = shiftDocument(next, overlapSeconds);
+  if (!previous) return { previous, next: shifted };
+
+  const match = findTranscriptOverlap(previous.text, next.text, Math.ceil(overlapSeconds * TOKENS_PER_SECOND) + 2);
+  if (!match) return { previous, next: shifted };
+
+  return {
+    previous: match.dropFromPrevious > 0
+      ? {
+          ...previous,
+          text: dropTrailingTokens(previous.text, match.dropFromPrevious),
+          segments: trimSegments(previous.segments, match.dropFromPrevious, true),
+        }
+      : previous,
+    next: {
+      ...shifted,
+      text: dropLeadingTokens(shifted.text, match.dropFromNext),
+      segments: trimSegments(shifted.segments, match.dropFromNext, false),
+    },
+  };
+};
@@ -0,0 +1,126 @@
+// 🎯 LectureScript - WAV Encoding and Decoding
+// Read PCM and float WAV files into mono samples, and write captured PCM chunks for upload
+// Author: Peter Levler
+
+export interface DecodedWav {
+  sampleRate: number;
+  channels: number;
+  /** Mono, -1..1; multi-channel files are averaged */
+  samples: Float32Array;
+}
+
+const FORMAT_PCM = 1;
+const FORMAT_FLOAT = 3;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+const readTag = (view: DataView, offset: number): string =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+export const decodeWav = (data: ArrayBuffer): DecodedWav => {
+  const view = new DataView(data);
+  if (data.byteLength < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  // Chunks are word-aligned; "LIST" and other metadata chunks are skipped
+  for (let offset = 12; offset + 8 <= data.byteLength;) {
+    const tag = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (tag === 'fmt ') {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      if (format === FORMAT_EXTENSIBLE && size >= 26) {
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (tag === 'data') {
+      dataOffset = body;
+      // Streams written live sometimes leave the size at 0 or past the end
+      dataLength = Math.min(size || data.byteLength - body, data.byteLength - body);
+      break;
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  if (dataOffset < 0 || channels === 0) {
+    throw new Error('WAV file has no audio data');
+  }
+  if (format !== FORMAT_PCM && format !== FORMAT_FLOAT) {
+    throw new Error(`Unsupported WAV encoding (format ${format})`);
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const frameCount = Math.floor(dataLength / (bytesPerSample * channels));
+  const samples = new Float32Array(frameCount);
+
+  const readSample = (position: number): number => {
+    if (format === FORMAT_FLOAT) {
+      return bitsPerSample === 64 ? view.getFloat64(position, true) : view.getFloat32(position, true);
+    }
+    switch (bitsPerSample) {
+      case 8: return (view.getUint8(position) - 128) / 128;
+      case 16: return view.getInt16(position, true) / 32768;
+      case 24: {
+        const value = view.getUint8(position) | (view.getUint8(position + 1) << 8) | (view.getInt8(position + 2) << 16);
+        return value / 8388608;
+      }
+      case 32: return view.getInt32(position, true) / 2147483648;
+      default: throw new Error(`Unsupported WAV bit depth (${bitsPerSample})`);
+    }
+  };
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += readSample(dataOffset + (frame * channels + channel) * bytesPerSample);
+    }
+    samples[frame] = sum / channels;
+  }
+
+  return { sampleRate, channels, samples };
+};
+
+/**
+ * 16-bit PCM mono WAV; samples outside -1..1 are clipped
+ */
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const dataLength = samples.length * 2;
+  const buffer = new ArrayBuffer(44 + dataLength);
+  const view = new DataView(buffer);
+
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, FORMAT_PCM, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 32768 : sample * 32767, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
@@ -0,0 +1,58 @@
+// Playback-time lookups for karaoke highlighting.
+// Binary searches, since the player asks on every animation frame.
+
+import type { TranscriptionSegment, TranscriptionWord } from '../types/transcription';
+
+export interface WordPosition {
+  segmentIndex: number;
+  wordIndex: number; // -1 when the segment has no word timings or the first word hasn't started
+}
+
+/**
+ * Index of the last item whose start is <= time, or -1
+ */
+const lastStartedIndex = (items: Array<{ start: number }>, time: number): number => {
+  let low = 0;
+  let high = items.length - 1;
+  let result = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (items[mid].start <= time) {
+      result = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Segment playing at `time`. Segments must be sorted by start; gaps between segments return -1.
+ */
+export const findSegmentIndexAt = (segments: TranscriptionSegment[], time: number): number => {
+  const index = lastStartedIndex(segments, time);
+  if (index === -1 || time >= segments[index].end) return -1;
+  return index;
+};
+
+/**
+ * Word spoken at `time`. The previous word stays highlighted through short pauses so the
+ * highlight doesn't flicker between words.
+ */
+export const findWordIndexAt = (words: TranscriptionWord[], time: number): number => {
+  return lastStartedIndex(words, time);
+};
+
+export const findWordPositionAt = (
+  segments: TranscriptionSegment[],
+  time: number
+): WordPosition | null => {
+  const segmentIndex = findSegmentIndexAt(segments, time);
+  if (segmentIndex === -1) return null;
+
+  const words = segments[segmentIndex].words || [];
+  return { segmentIndex, wordIndex: findWordIndexAt(words, time) };
+};
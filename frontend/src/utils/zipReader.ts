@@ -0,0 +1,93 @@
+// ZIP archive reader for the archives ZipWriter produces (PKWARE APPNOTE 6.3.x, without ZIP64).
+// Reads the central directory, inflates with the browser's DecompressionStream and checks CRCs.
+
+import { crc32 } from './zipWriter';
+
+export interface ZipReadEntry {
+  path: string;
+  method: 'store' | 'deflate';
+  data: Uint8Array;
+  crcValid: boolean;
+  text(): string;
+}
+
+const SIG_LOCAL = 0x04034b50;
+const SIG_CENTRAL = 0x02014b50;
+const SIG_END = 0x06054b50;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+const decoder = new TextDecoder('utf-8');
+
+const inflateRaw = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot read deflated ZIP entries');
+  }
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Entries in local-header order, which is the order the archive was written in. Throws on
+ * anything that isn't a well-formed archive.
+ */
+export const readZip = async (archive: Blob | Uint8Array): Promise<ZipReadEntry[]> => {
+  const bytes = archive instanceof Uint8Array ? archive : new Uint8Array(await archive.arrayBuffer());
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end record sits in the last 22 bytes plus up to 64KB of comment
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === SIG_END) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a ZIP archive: end of central directory not found');
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: Array<{ localOffset: number; entry: ZipReadEntry }> = [];
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== SIG_CENTRAL) {
+      throw new Error(`Corrupt central directory at entry ${i + 1}`);
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const crc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (method !== METHOD_STORE && method !== METHOD_DEFLATE) {
+      throw new Error(`${path}: unsupported compression method ${method}`);
+    }
+    if (view.getUint32(localOffset, true) !== SIG_LOCAL) {
+      throw new Error(`${path}: local header missing`);
+    }
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+    const data = method === METHOD_DEFLATE ? await inflateRaw(raw) : raw;
+
+    entries.push({
+      localOffset,
+      entry: {
+        path,
+        method: method === METHOD_DEFLATE ? 'deflate' : 'store',
+        data,
+        crcValid: crc32(data) === crc,
+        text: () => decoder.decode(data),
+      },
+    });
+  }
+
+  return entries
+    .sort((a, b) => a.localOffset - b.localOffset)
+    .map(({ entry }) => entry);
+};
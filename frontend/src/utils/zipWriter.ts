@@ -0,0 +1,204 @@
+// ZIP archive writer (PKWARE APPNOTE 6.3.x, without ZIP64).
+// Entries are stored or deflated with the browser's CompressionStream; names are UTF-8.
+
+export type ZipCompression = 'store' | 'deflate';
+
+export type ZipData = string | Blob | Uint8Array;
+
+export interface ZipEntryOptions {
+  compression?: ZipCompression;
+  date?: Date;
+}
+
+interface ZipEntry {
+  path: string;
+  data: ZipData;
+  compression: ZipCompression;
+  date: Date;
+}
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_UTF8 = 0x0800;
+const VERSION = 20; // 2.0: deflate and folders
+const MAX_32 = 0xffffffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const encoder = new TextEncoder();
+
+const toBytes = async (data: ZipData): Promise<Uint8Array> => {
+  if (typeof data === 'string') return encoder.encode(data);
+  if (data instanceof Uint8Array) return data;
+  return new Uint8Array(await data.arrayBuffer());
+};
+
+const canDeflate = (): boolean => {
+  if (typeof CompressionStream === 'undefined') return false;
+  try {
+    new CompressionStream('deflate-raw');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const deflateRaw = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * MS-DOS time and date fields, local time with two-second resolution
+ */
+const dosDateTime = (date: Date): { time: number; date: number } => {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+const normalizePath = (path: string): string => {
+  return path.replace(/\\/g, '/').replace(/^\/+/, '').replace(/\/{2,}/g, '/');
+};
+
+export class ZipWriter {
+  private entries: ZipEntry[] = [];
+  private paths = new Set<string>();
+
+  /**
+   * Queue a file. Parent folders are implied by the path ("Lecture 1/notes.md").
+   */
+  addFile(path: string, data: ZipData, options: ZipEntryOptions = {}): void {
+    const normalized = normalizePath(path);
+    if (!normalized || normalized.endsWith('/')) {
+      throw new Error(`Invalid ZIP entry path: "${path}"`);
+    }
+    if (this.paths.has(normalized)) {
+      throw new Error(`Duplicate ZIP entry: "${normalized}"`);
+    }
+
+    this.paths.add(normalized);
+    this.entries.push({
+      path: normalized,
+      data,
+      compression: options.compression || 'deflate',
+      date: options.date || new Date(),
+    });
+  }
+
+  has(path: string): boolean {
+    return this.paths.has(normalizePath(path));
+  }
+
+  get fileCount(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Build the archive. Entries are written in the order they were added, which matters for
+   * formats like ODT and EPUB that require an uncompressed "mimetype" entry first.
+   */
+  async generate(onProgress?: (done: number, total: number, path: string) => void): Promise<Blob> {
+    const deflateAvailable = canDeflate();
+    const parts: Uint8Array[] = [];
+    const centralDirectory: Uint8Array[] = [];
+    let offset = 0;
+
+    for (let i = 0; i < this.entries.length; i++) {
+      const entry = this.entries[i];
+      const raw = await toBytes(entry.data);
+      const crc = crc32(raw);
+
+      let method = METHOD_STORE;
+      let body = raw;
+      if (entry.compression === 'deflate' && deflateAvailable && raw.length > 0) {
+        const deflated = await deflateRaw(raw);
+        // Already-compressed payloads (PDF images, DOCX) can grow; keep them stored
+        if (deflated.length < raw.length) {
+          method = METHOD_DEFLATE;
+          body = deflated;
+        }
+      }
+
+      if (raw.length > MAX_32 || offset + body.length > MAX_32) {
+        throw new Error('Archive is larger than 4 GB, which needs ZIP64');
+      }
+
+      const name = encoder.encode(entry.path);
+      const { time, date } = dosDateTime(entry.date);
+
+      const local = new Uint8Array(30 + name.length);
+      const localView = new DataView(local.buffer);
+      localView.setUint32(0, 0x04034b50, true);
+      localView.setUint16(4, VERSION, true);
+      localView.setUint16(6, FLAG_UTF8, true);
+      localView.setUint16(8, method, true);
+      localView.setUint16(10, time, true);
+      localView.setUint16(12, date, true);
+      localView.setUint32(14, crc, true);
+      localView.setUint32(18, body.length, true);
+      localView.setUint32(22, raw.length, true);
+      localView.setUint16(26, name.length, true);
+      localView.setUint16(28, 0, true);
+      local.set(name, 30);
+
+      const central = new Uint8Array(46 + name.length);
+      const centralView = new DataView(central.buffer);
+      centralView.setUint32(0, 0x02014b50, true);
+      centralView.setUint16(4, VERSION, true);
+      centralView.setUint16(6, VERSION, true);
+      centralView.setUint16(8, FLAG_UTF8, true);
+      centralView.setUint16(10, method, true);
+      centralView.setUint16(12, time, true);
+      centralView.setUint16(14, date, true);
+      centralView.setUint32(16, crc, true);
+      centralView.setUint32(20, body.length, true);
+      centralView.setUint32(24, raw.length, true);
+      centralView.setUint16(28, name.length, true);
+      // Extra field, comment, disk number, internal and external attributes stay zero
+      centralView.setUint32(42, offset, true);
+      central.set(name, 46);
+
+      parts.push(local, body);
+      centralDirectory.push(central);
+      offset += local.length + body.length;
+
+      onProgress?.(i + 1, this.entries.length, entry.path);
+    }
+
+    const centralSize = centralDirectory.reduce((sum, record) => sum + record.length, 0);
+    if (this.entries.length > 0xffff || offset + centralSize > MAX_32) {
+      throw new Error('Archive has too many entries or is too large for ZIP without ZIP64');
+    }
+
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054b50, true);
+    endView.setUint16(8, this.entries.length, true);
+    endView.setUint16(10, this.entries.length, true);
+    endView.setUint32(12, centralSize, true);
+    endView.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...centralDirectory, end], { type: 'application/zip' });
+  }
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { AnkiFormatter } from '../src/utils/formatters/ankiFormatter';
+import type { TranscriptionSegment } from '../src/types/transcription';
+
+/**
+ * One segment whose words are one second each, starting at `start`
+ */
+const timedSegment = (text: string, start: number): TranscriptionSegment => {
+  const words = text.split(' ').map((word, index) => ({ word, start: start + index, end: start + index + 1 }));
+  return { id: 'seg-1', text, start, end: start + words.length, words };
+};
+
+describe('AnkiFormatter excerpts', () => {
+  const segment = timedSegment('We now look at how options are priced. So it is a key input to the model.', 100);
+
+  it('times an excerpt from the first word of its sentence', () => {
+    expect(AnkiFormatter.findLiteral([segment], 'key input')).toEqual({
+      text: 'So it is a key input to the model.',
+      start: 108,
+    });
+  });
+
+  it('times the best matching sentence the same way', () => {
+    expect(AnkiFormatter.findExcerpt([segment], 'Why is volatility a key input to the model?')?.start).toBe(108);
+  });
+
+  it('falls back to the position in the segment without word timings', () => {
+    const untimed = { ...segment, words: undefined, end: 100 + segment.text.length };
+
+    expect(AnkiFormatter.findLiteral([untimed], 'key input')?.start).toBe(138);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { downmixToMono, resample } from '../src/utils/audioEncoding/resample';
+import { encodeFlac } from '../src/utils/audioEncoding/flac';
+import { decodeFlac } from './helpers/flacDecoder';
+import { concat, mix, noise, rms, SAMPLE_RATE, tone, voice } from './helpers/signals';
+
+// The filter needs this many output samples of real input on each side before it settles
+const EDGE = 64;
+
+const interior = (samples: Float32Array) => samples.subarray(EDGE, samples.length - EDGE);
+
+const maxError = (actual: Float32Array, expected: Float32Array): number =>
+  interior(actual).reduce((max, value, i) => Math.max(max, Math.abs(value - expected[i + EDGE])), 0);
+
+/**
+ * What the encoder stores for each sample
+ */
+const toPcm = (samples: Float32Array): Int32Array =>
+  Int32Array.from(samples, sample => {
+    const clipped = Math.max(-1, Math.min(1, sample));
+    return Math.round(clipped < 0 ? clipped * 32768 : clipped * 32767);
+  });
+
+describe('downmixToMono', () => {
+  it('averages the channels over the shortest one', () => {
+    const mono = downmixToMono([Float32Array.of(1, 0.5, 0, 1), Float32Array.of(0, 0.5, -1)]);
+    expect(Array.from(mono)).toEqual([0.5, 0.5, -0.5]);
+  });
+
+  it('passes a single channel through', () => {
+    const channel = Float32Array.of(0.1, 0.2);
+    expect(downmixToMono([channel])).toBe(channel);
+  });
+});
+
+describe('resample', () => {
+  it('returns the input when the rates match', () => {
+    const samples = tone(0.1, 440, 0.5);
+    expect(resample(samples, SAMPLE_RATE, SAMPLE_RATE)).toBe(samples);
+  });
+
+  it.each([
+    [48000, 16000, 1000],
+    [44100, 16000, 440],
+    [16000, 48000, 3000],
+    [22050, 16000, 2500],
+  ])('keeps a passband tone from %i Hz to %i Hz (%i Hz)', (fromRate, toRate, frequency) => {
+    const output = resample(tone(1, frequency, 0.5, fromRate), fromRate, toRate);
+
+    expect(output.length).toBe(toRate);
+    expect(maxError(output, tone(1, frequency, 0.5, toRate))).toBeLessThan(0.005);
+  });
+
+  it('removes a tone above the new Nyquist frequency instead of folding it down', () => {
+    const output = resample(tone(1, 10000, 0.5, 48000), 48000, 16000);
+    expect(rms(interior(output))).toBeLessThan(0.001);
+  });
+
+  it('keeps only the passband of a mix', () => {
+    const output = resample(mix(tone(1, 1000, 0.3, 48000), tone(1, 12000, 0.3, 48000)), 48000, 16000);
+    expect(maxError(output, tone(1, 1000, 0.3, 16000))).toBeLessThan(0.005);
+  });
+});
+
+describe('encodeFlac', () => {
+  const decode = async (samples: Float32Array, blockSize?: number) =>
+    decodeFlac(await encodeFlac(samples, SAMPLE_RATE, { blockSize }).arrayBuffer());
+
+  it('round-trips speech sample for sample', async () => {
+    const samples = mix(voice(2, 0.4), noise(2, 0.01));
+    const decoded = await decode(samples);
+
+    expect(decoded).toMatchObject({ sampleRate: SAMPLE_RATE, channels: 1, bitsPerSample: 16, totalSamples: samples.length, maxBlockSize: 4096 });
+    expect(decoded.samples).toEqual(toPcm(samples));
+    expect(decoded.subframes).toContain('fixed');
+  });
+
+  it('uses CONSTANT for silence and VERBATIM for full-scale noise', async () => {
+    const samples = concat(new Float32Array(1024), noise(1024 / SAMPLE_RATE, 1, 3), tone(1024 / SAMPLE_RATE, 200, 0.5));
+    const decoded = await decode(samples, 1024);
+
+    expect(decoded.subframes).toEqual(['constant', 'verbatim', 'fixed']);
+    expect(decoded.samples).toEqual(toPcm(samples));
+  });
+
+  it('clips samples outside -1..1 and keeps a short final block', async () => {
+    const samples = concat(tone(0.25, 300, 1.5), Float32Array.of(-1, 1, 0.25));
+    const decoded = await decode(samples, 1000);
+
+    expect(decoded.samples).toEqual(toPcm(samples));
+    expect(decoded.samples.length % 1000).toBe(3);
+  });
+
+  it('is smaller than 16-bit PCM for speech', async () => {
+    const samples = mix(voice(2, 0.4), noise(2, 0.005));
+    expect(encodeFlac(samples, SAMPLE_RATE).size).toBeLessThan(samples.length * 2 * 0.75);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from 'vitest';
+import { planAudioParts, type AudioPart } from '../src/utils/audioSplitting';
+import { uploadService } from '../src/services/uploadService';
+import { UniversalAudioProcessor } from '../src/services/audioProcessor';
+import { UPLOAD_LIMITS } from '../src/types/upload';
+import type { AudioUploadFormat } from '../src/utils/audioEncoding/formats';
+import { concat, noise, SAMPLE_RATE, voice } from './helpers/signals';
+
+vi.mock('../src/services/audioProcessor', () => ({
+  UniversalAudioProcessor: { encodeSamples: vi.fn() },
+}));
+vi.mock('../src/utils/audioEncoding/oggOpus', () => ({
+  isOpusEncodingSupported: () => true,
+}));
+
+const room = (seconds: number, seed: number) => noise(seconds, 0.003, seed);
+
+/**
+ * Parts must cover the recording end to end, in order
+ */
+const expectContiguous = (parts: AudioPart[], length: number) => {
+  expect(parts[0].start).toBe(0);
+  parts.slice(1).forEach((part, i) => expect(part.start).toBe(parts[i].end));
+  expect(parts[parts.length - 1].end).toBe(length);
+};
+
+describe('planAudioParts', () => {
+  it('cuts in the pause before the limit', () => {
+    const samples = concat(voice(50, 0.3), room(0.6, 1), voice(30, 0.3));
+
+    const parts = planAudioParts(samples, SAMPLE_RATE, { maxPartSeconds: 60 });
+
+    expect(parts).toHaveLength(2);
+    expectContiguous(parts, samples.length);
+    expect(parts[0].duration).toBeGreaterThan(50);
+    expect(parts[0].duration).toBeLessThan(50.6);
+    expect(parts[1].startTime).toBe(parts[0].duration);
+  });
+
+  it('cuts at the quietest pause when there are several', () => {
+    const samples = concat(voice(35, 0.3), noise(0.6, 0.02, 1), voice(15, 0.3), room(0.6, 2), voice(30, 0.3));
+
+    const [first] = planAudioParts(samples, SAMPLE_RATE, { maxPartSeconds: 60 });
+
+    expect(first.duration).toBeGreaterThan(50.6);
+    expect(first.duration).toBeLessThan(51.2);
+  });
+
+  it('cuts at the limit when no pause is within reach', () => {
+    const samples = concat(voice(20, 0.3), room(1, 1), voice(70, 0.3));
+
+    const parts = planAudioParts(samples, SAMPLE_RATE, { maxPartSeconds: 60, searchSeconds: 10 });
+
+    expectContiguous(parts, samples.length);
+    parts.forEach(part => expect(part.duration).toBeLessThanOrEqual(60));
+    expect(parts[0].duration).toBeGreaterThan(50);
+  });
+
+  it('keeps a short recording whole', () => {
+    const samples = voice(5, 0.3);
+    expect(planAudioParts(samples, SAMPLE_RATE, { maxPartSeconds: 60 })).toEqual([
+      { index: 0, start: 0, end: samples.length, startTime: 0, duration: 5 },
+    ]);
+  });
+
+  it('has no parts for empty audio', () => {
+    expect(planAudioParts(new Float32Array(0), SAMPLE_RATE, { maxPartSeconds: 60 })).toEqual([]);
+  });
+});
+
+describe('uploadService.encodeAudioParts', () => {
+  // A low rate keeps half an hour of audio small; the encoder is stubbed, so only lengths matter
+  const RATE = 100;
+  const LECTURE_SECONDS = 1500;
+
+  /**
+   * Stub encoder producing `bytesPerSecond[format]` bytes per second of audio
+   */
+  const stubEncoder = (bytesPerSecond: Partial<Record<AudioUploadFormat, number>>) => {
+    const encodeSamples = vi.mocked(UniversalAudioProcessor.encodeSamples);
+    encodeSamples.mockReset();
+    encodeSamples.mockImplementation(async (samples, sampleRate, format) => {
+      const rate = bytesPerSecond[format];
+      if (rate === undefined) throw new Error(`${format} encoder unavailable`);
+      return { size: Math.round((samples.length / sampleRate) * rate), type: `audio/${format}` } as Blob;
+    });
+    return encodeSamples;
+  };
+
+  const encodeLecture = () =>
+    uploadService['encodeAudioParts'](noise(LECTURE_SECONDS, 0.1, 1, RATE), RATE, new AbortController().signal, () => {});
+
+  it('re-splits into shorter parts when a part encodes over the limit', async () => {
+    // Far above the size the first plan assumes
+    const encodeSamples = stubEncoder({ opus: 40000 });
+
+    const encoded = await encodeLecture();
+
+    expectContiguous(encoded.map(({ part }) => part), LECTURE_SECONDS * RATE);
+    expect(encoded.length).toBeGreaterThan(2);
+    encoded.forEach(({ blob }) => {
+      expect(blob.size).toBeLessThanOrEqual(UPLOAD_LIMITS.MAX_AUDIO_SIZE);
+      expect(blob.type).toBe('audio/opus');
+    });
+    // The first, too-long part plus every part of the second plan
+    expect(encodeSamples).toHaveBeenCalledTimes(encoded.length + 1);
+  });
+
+  it('falls back to WAV parts when Opus encoding fails', async () => {
+    const encodeSamples = stubEncoder({ wav: 32000 });
+
+    const encoded = await encodeLecture();
+
+    expect(encodeSamples.mock.calls[0][2]).toBe('opus');
+    expectContiguous(encoded.map(({ part }) => part), LECTURE_SECONDS * RATE);
+    encoded.forEach(({ part, blob }) => {
+      expect(blob.type).toBe('audio/wav');
+      expect(blob.size).toBeLessThanOrEqual(UPLOAD_LIMITS.MAX_AUDIO_SIZE);
+      expect(part.duration).toBeLessThanOrEqual(UPLOAD_LIMITS.MAX_AUDIO_SIZE / 32000);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { backgroundTranscription } from '../src/services/backgroundTranscription';
+import { MockTranscriptionProvider, setTranscriptionProvider } from '../src/services/providers';
+import { libraryStorage } from '../src/utils/libraryStorage';
+
+vi.mock('../src/services/audioProcessor', () => ({
+  UniversalAudioProcessor: { prepareForUpload: async (audio: Blob) => audio },
+}));
+
+/**
+ * A provider that is reachable until its transcription fails, then reachable or not as `outage` says
+ */
+const failingProvider = (outage: boolean) => {
+  const provider = new MockTranscriptionProvider();
+  let available = true;
+  vi.spyOn(provider, 'isAvailable').mockImplementation(async () => available);
+  vi.spyOn(provider, 'transcribe').mockImplementation(async () => {
+    available = !outage;
+    throw new Error('Failed to fetch');
+  });
+  return provider;
+};
+
+const saveAndProcess = async () => {
+  const entry = await backgroundTranscription.savePendingRecording(new Blob(['audio'], { type: 'audio/webm' }), 60);
+  await backgroundTranscription.processPending();
+  return (await libraryStorage.getRecording(entry.id))!;
+};
+
+describe('backgroundTranscription attempts', () => {
+  // Node has no navigator; the service checks it before asking the provider
+  beforeAll(() => {
+    vi.stubGlobal('navigator', { onLine: true });
+  });
+
+  afterEach(async () => {
+    for (const recording of await libraryStorage.getRecordingsByTranscriptionStatus('pending')) {
+      await libraryStorage.deleteRecording(recording.id);
+    }
+  });
+
+  it('counts a failure while the provider is reachable', async () => {
+    setTranscriptionProvider(failingProvider(false));
+
+    const recording = await saveAndProcess();
+
+    expect(recording.transcriptionStatus).toBe('pending');
+    expect(recording.transcriptionAttempts).toBe(1);
+    expect(recording.transcriptionError).toBe('Failed to fetch');
+  });
+
+  it('does not count a failure caused by an outage', async () => {
+    setTranscriptionProvider(failingProvider(true));
+
+    const recording = await saveAndProcess();
+
+    expect(recording.transcriptionStatus).toBe('pending');
+    expect(recording.transcriptionAttempts).toBe(0);
+  });
+});
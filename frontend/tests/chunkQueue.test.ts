@@ -0,0 +1,122 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { chunkQueue } from '../src/services/chunkQueue';
+import { OpenAITranscriptionProvider } from '../src/services/providers';
+import { storage } from '../src/utils/storage';
+import type { QueuedChunk } from '../src/types/chunkQueue';
+import type { TranscriptDocument } from '../src/types/transcription';
+
+const SESSION_ID = 'session_chunks';
+
+// Whisper answers every chunk with one 4 s sentence timed from the start of the uploaded file
+const whisperCreate = vi.hoisted(() => vi.fn());
+vi.mock('openai', () => ({
+  default: class {
+    audio = { transcriptions: { create: whisperCreate } };
+  },
+}));
+vi.mock('../src/utils/audioProcessor', () => ({
+  calculateAudioDuration: async () => 10,
+}));
+
+/**
+ * A chunk transcript timed from zero, one segment per sentence, each `seconds` long
+ */
+const chunkDocument = (sentences: string[], seconds: number): TranscriptDocument => ({
+  id: `doc_${sentences[0]}`,
+  source: 'stream',
+  language: 'en',
+  duration: sentences.length * seconds,
+  text: sentences.join(' '),
+  segments: sentences.map((text, index) => ({
+    id: `seg_${text}`,
+    text,
+    start: index * seconds,
+    end: (index + 1) * seconds,
+    words: [{ word: text, start: index * seconds, end: (index + 1) * seconds }],
+  })),
+  createdAt: 0,
+});
+
+const queueChunk = (chunkIndex: number, chunk: Partial<QueuedChunk>) =>
+  storage.putQueuedChunk({
+    sessionId: SESSION_ID,
+    chunkIndex,
+    audio: new Blob(['audio']),
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: 0,
+    createdAt: 0,
+    ...chunk,
+  });
+
+const segmentStarts = (document: TranscriptDocument) =>
+  Object.fromEntries(document.segments.map(segment => [segment.text, segment.start]));
+
+describe('chunkQueue.assemble', () => {
+  // The queue reports online state with its counts; Node has no navigator
+  beforeAll(() => {
+    vi.stubGlobal('navigator', { onLine: true });
+  });
+  afterEach(() => chunkQueue.clearSession(SESSION_ID));
+
+  it('places chunks after a pending one where they were recorded', async () => {
+    await queueChunk(0, { status: 'done', startTime: 0, duration: 10, document: chunkDocument(['zero', 'one'], 5) });
+    await queueChunk(1, { status: 'pending', startTime: 10, duration: 12 });
+    await queueChunk(2, { status: 'done', startTime: 22, duration: 8, document: chunkDocument(['two'], 8) });
+
+    const { document, pendingIndexes } = await chunkQueue.assemble(SESSION_ID);
+
+    expect(pendingIndexes).toEqual([1]);
+    expect(segmentStarts(document)).toEqual({ zero: 0, one: 5, two: 22 });
+    expect(document.segments[2].words[0].start).toBe(22);
+    expect(document.duration).toBe(30);
+  });
+
+  it('skips the repeated overlap when placing a chunk', async () => {
+    await queueChunk(0, { status: 'failed', startTime: 0, duration: 10 });
+    // Starts 0.75 s before chunk 0 ends; stitching trims that much off its transcript
+    await queueChunk(1, { status: 'done', startTime: 9.25, duration: 6.75, overlap: 0.75, document: chunkDocument(['after'], 6.75) });
+
+    const { document, failedIndexes } = await chunkQueue.assemble(SESSION_ID);
+
+    expect(failedIndexes).toEqual([0]);
+    expect(document.segments[0].start).toBe(10);
+  });
+
+  it('places OpenAI chunk transcripts once, at their recorded start', async () => {
+    const provider = new OpenAITranscriptionProvider('sk-test');
+    const timings = [{ startTime: 0, duration: 10 }, { startTime: 10, duration: 10 }, { startTime: 20, duration: 10 }];
+
+    for (const [chunkIndex, timing] of timings.entries()) {
+      whisperCreate.mockResolvedValueOnce({
+        text: `chunk${chunkIndex}`,
+        language: 'en',
+        duration: 10,
+        segments: [{ start: 1, end: 5, text: `chunk${chunkIndex}` }],
+        words: [{ word: `chunk${chunkIndex}`, start: 1, end: 5 }],
+      });
+      const { document, cost } = await provider.transcribeChunk({
+        audio: new Blob(['audio'], { type: 'audio/webm' }),
+        sessionId: SESSION_ID,
+        chunkIndex,
+      });
+      await queueChunk(chunkIndex, { status: 'done', ...timing, document, cost });
+    }
+
+    const { document } = await chunkQueue.assemble(SESSION_ID);
+
+    expect(segmentStarts(document)).toEqual({ chunk0: 1, chunk1: 11, chunk2: 21 });
+    expect(document.segments[2].words[0].start).toBe(21);
+  });
+
+  it('leaves a typical chunk length for a missing chunk queued without timing', async () => {
+    await queueChunk(0, { status: 'done', document: chunkDocument(['zero'], 3) });
+    await queueChunk(1, { status: 'failed' });
+    await queueChunk(2, { status: 'done', document: chunkDocument(['two'], 3) });
+
+    const { document } = await chunkQueue.assemble(SESSION_ID);
+
+    expect(segmentStarts(document)).toEqual({ zero: 0, two: 6 });
+  });
+});
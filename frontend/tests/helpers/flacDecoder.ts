@@ -0,0 +1,195 @@
+// Minimal FLAC reader for checking the encoder: STREAMINFO plus mono 16-bit frames with CONSTANT,
+// VERBATIM and FIXED subframes. It shares no code with the encoder and checks every CRC.
+
+export type SubframeType = 'constant' | 'verbatim' | 'fixed';
+
+export interface DecodedFlac {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  totalSamples: number;
+  maxBlockSize: number;
+  samples: Int32Array;
+  subframes: SubframeType[];
+}
+
+class BitReader {
+  position = 0;
+  private bytes: Uint8Array;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  read(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      if (this.position >= this.bytes.length * 8) throw new Error('Unexpected end of FLAC data');
+      const bit = (this.bytes[this.position >> 3] >> (7 - (this.position & 7))) & 1;
+      value = value * 2 + bit;
+      this.position++;
+    }
+    return value;
+  }
+
+  readSigned(count: number): number {
+    const value = this.read(count);
+    return value >= 2 ** (count - 1) ? value - 2 ** count : value;
+  }
+
+  readUnary(): number {
+    let zeros = 0;
+    while (this.read(1) === 0) zeros++;
+    return zeros;
+  }
+
+  alignToByte(): void {
+    this.position = Math.ceil(this.position / 8) * 8;
+  }
+
+  get byteOffset(): number {
+    return this.position >> 3;
+  }
+}
+
+const crc = (data: Uint8Array, width: 8 | 16, polynomial: number): number => {
+  const top = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  let value = 0;
+  for (const byte of data) {
+    for (let bit = 7; bit >= 0; bit--) {
+      const feedback = ((value & top) !== 0) !== (((byte >> bit) & 1) === 1);
+      value = ((value << 1) & mask) ^ (feedback ? polynomial : 0);
+    }
+  }
+  return value;
+};
+
+const readUtf8Number = (reader: BitReader): number => {
+  const first = reader.read(8);
+  let continuation = 0;
+  while (continuation < 7 && (first & (0x80 >> continuation))) continuation++;
+  if (continuation === 0) return first;
+
+  let value = first & (0xff >> (continuation + 1));
+  for (let i = 1; i < continuation; i++) {
+    const byte = reader.read(8);
+    if ((byte & 0xc0) !== 0x80) throw new Error('Bad frame number');
+    value = value * 64 + (byte & 0x3f);
+  }
+  return value;
+};
+
+const FIXED_COEFFICIENTS = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]];
+
+const readSubframe = (reader: BitReader, blockSize: number, bitsPerSample: number, subframes: SubframeType[]): Int32Array => {
+  if (reader.read(1) !== 0) throw new Error('Subframe padding bit set');
+  const type = reader.read(6);
+  if (reader.read(1) !== 0) throw new Error('Wasted bits are not supported');
+  const block = new Int32Array(blockSize);
+
+  if (type === 0) {
+    subframes.push('constant');
+    block.fill(reader.readSigned(bitsPerSample));
+    return block;
+  }
+  if (type === 1) {
+    subframes.push('verbatim');
+    for (let i = 0; i < blockSize; i++) block[i] = reader.readSigned(bitsPerSample);
+    return block;
+  }
+  if (type < 8 || type > 12) throw new Error(`Unsupported subframe type ${type}`);
+
+  subframes.push('fixed');
+  const order = type - 8;
+  for (let i = 0; i < order; i++) block[i] = reader.readSigned(bitsPerSample);
+
+  if (reader.read(2) !== 0) throw new Error('Only 4-bit Rice parameters are supported');
+  const partitionOrder = reader.read(4);
+  const partitions = 2 ** partitionOrder;
+  let index = order;
+  for (let p = 0; p < partitions; p++) {
+    const k = reader.read(4);
+    if (k === 15) throw new Error('Escaped partitions are not supported');
+    const count = blockSize / partitions - (p === 0 ? order : 0);
+    for (let i = 0; i < count; i++) {
+      const folded = reader.readUnary() * 2 ** k + reader.read(k);
+      block[index++] = folded % 2 === 0 ? folded / 2 : -(folded + 1) / 2;
+    }
+  }
+
+  const coefficients = FIXED_COEFFICIENTS[order];
+  for (let i = order; i < blockSize; i++) {
+    let prediction = 0;
+    coefficients.forEach((c, j) => { prediction += c * block[i - 1 - j]; });
+    block[i] += prediction;
+  }
+  return block;
+};
+
+export const decodeFlac = (data: ArrayBuffer): DecodedFlac => {
+  const bytes = new Uint8Array(data);
+  const reader = new BitReader(bytes);
+  if (reader.read(32) !== 0x664c6143) throw new Error('Missing fLaC marker');
+
+  let streamInfo: Omit<DecodedFlac, 'samples' | 'subframes'> | null = null;
+  let last = 0;
+  while (!last) {
+    last = reader.read(1);
+    const type = reader.read(7);
+    const length = reader.read(24);
+    if (type !== 0) {
+      reader.position += length * 8;
+      continue;
+    }
+    reader.read(16);
+    const maxBlockSize = reader.read(16);
+    reader.read(48);
+    const sampleRate = reader.read(20);
+    const channels = reader.read(3) + 1;
+    const bitsPerSample = reader.read(5) + 1;
+    const totalSamples = reader.read(36);
+    reader.position += 128;
+    streamInfo = { sampleRate, channels, bitsPerSample, totalSamples, maxBlockSize };
+  }
+  if (!streamInfo) throw new Error('Missing STREAMINFO');
+  if (streamInfo.channels !== 1) throw new Error('Only mono is supported');
+
+  const samples = new Int32Array(streamInfo.totalSamples);
+  const subframes: SubframeType[] = [];
+  let written = 0;
+  let expectedFrame = 0;
+
+  while (reader.byteOffset < bytes.length) {
+    const frameStart = reader.byteOffset;
+    if (reader.read(14) !== 0b11111111111110) throw new Error(`Lost sync at byte ${frameStart}`);
+    reader.read(2);
+    const blockSizeCode = reader.read(4);
+    const sampleRateCode = reader.read(4);
+    const channelCode = reader.read(4);
+    const sampleSizeCode = reader.read(3);
+    reader.read(1);
+    const frameNumber = readUtf8Number(reader);
+    if (frameNumber !== expectedFrame++) throw new Error(`Frame ${frameNumber} out of order`);
+
+    let blockSize: number;
+    if (blockSizeCode === 0b0110) blockSize = reader.read(8) + 1;
+    else if (blockSizeCode === 0b0111) blockSize = reader.read(16) + 1;
+    else throw new Error(`Unsupported block size code ${blockSizeCode}`);
+    if (sampleRateCode !== 0 || channelCode !== 0) throw new Error('Expected STREAMINFO rate and mono');
+    const bitsPerSample = sampleSizeCode === 0 ? streamInfo.bitsPerSample : ([0, 8, 12, 0, 16, 20, 24][sampleSizeCode]);
+
+    const headerCrc = crc(bytes.subarray(frameStart, reader.byteOffset), 8, 0x07);
+    if (reader.read(8) !== headerCrc) throw new Error(`Header CRC mismatch in frame ${frameNumber}`);
+
+    samples.set(readSubframe(reader, blockSize, bitsPerSample, subframes), written);
+    written += blockSize;
+
+    reader.alignToByte();
+    const frameCrc = crc(bytes.subarray(frameStart, reader.byteOffset), 16, 0x8005);
+    if (reader.read(16) !== frameCrc) throw new Error(`Frame CRC mismatch in frame ${frameNumber}`);
+  }
+
+  if (written !== streamInfo.totalSamples) throw new Error(`Decoded ${written} of ${streamInfo.totalSamples} samples`);
+  return { ...streamInfo, samples, subframes };
+};
@@ -0,0 +1,64 @@
+import { decodeWav, encodeWav } from '../../src/utils/wav';
+
+// Synthetic recordings with known content, so audio code can be checked against what went in
+
+export const SAMPLE_RATE = 16000;
+
+/**
+ * Deterministic white noise in -1..1 (mulberry32), so failures reproduce
+ */
+export const noise = (seconds: number, amplitude: number, seed = 1, sampleRate = SAMPLE_RATE): Float32Array => {
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  let state = seed;
+  for (let i = 0; i < samples.length; i++) {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    samples[i] = amplitude * ((((t ^ (t >>> 14)) >>> 0) / 4294967296) * 2 - 1);
+  }
+  return samples;
+};
+
+export const tone = (seconds: number, frequency: number, amplitude: number, sampleRate = SAMPLE_RATE): Float32Array =>
+  Float32Array.from({ length: Math.round(seconds * sampleRate) }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+
+/**
+ * Voiced speech stand-in: a 140 Hz fundamental with falling harmonics up to 3 kHz, its pitch
+ * drifting and its loudness following a four-syllables-a-second envelope
+ */
+export const voice = (seconds: number, amplitude: number, sampleRate = SAMPLE_RATE): Float32Array => {
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  let phase = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / sampleRate;
+    phase += (2 * Math.PI * (140 + 15 * Math.sin(2 * Math.PI * 0.7 * t))) / sampleRate;
+    let value = 0;
+    for (let harmonic = 1; harmonic * 140 < 3000; harmonic++) value += Math.sin(harmonic * phase) / harmonic;
+    samples[i] = amplitude * (0.6 + 0.4 * Math.sin(2 * Math.PI * 4 * t)) * value * 0.5;
+  }
+  return samples;
+};
+
+export const concat = (...parts: Float32Array[]): Float32Array => {
+  const joined = new Float32Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    joined.set(part, offset);
+    offset += part.length;
+  });
+  return joined;
+};
+
+/**
+ * `a + b`, sample by sample, over the length of `a`
+ */
+export const mix = (a: Float32Array, b: Float32Array): Float32Array => a.map((value, i) => value + (b[i] ?? 0));
+
+/**
+ * Round-trip through a 16-bit WAV file, as a recorded fixture would arrive
+ */
+export const wavFixture = async (samples: Float32Array, sampleRate = SAMPLE_RATE) =>
+  decodeWav(await encodeWav(samples, sampleRate).arrayBuffer());
+
+export const rms = (samples: Float32Array): number =>
+  Math.sqrt(samples.reduce((total, value) => total + value * value, 0) / Math.max(1, samples.length));
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import type { LectureSession, ExportOptions, TranscriptSegment } from '../src/types';
+import { NotionFormatter } from '../src/utils/formatters/notionFormatter';
+import type { NotionPage } from '../src/utils/formatters/notionFormatter';
+import { GoogleDocsFormatter } from '../src/utils/formatters/googleDocsFormatter';
+import { ImportValidator } from '../src/utils/formatters/importValidator';
+import type { ImportValidationResult } from '../src/utils/formatters/importValidator';
+
+// Lectures that have broken imports before: bilingual text with speakers, markup characters in
+// titles and transcripts, repeated titles, empty lectures, side-by-side translations and long
+// academic-layout transcripts. Each is rendered through the Notion, Google Docs and ODT exporters
+// and validated the way the importing app reads it.
+
+interface ImportLecture {
+  name: string;
+  session: LectureSession;
+  tags: string[];
+  options: ExportOptions;
+}
+
+const BASE_OPTIONS: ExportOptions = {
+  format: 'gdocs',
+  includeTimestamps: true,
+  includeSummary: true,
+  includeMetadata: true,
+  language: 'both',
+  layout: 'professional',
+  includeBranding: true,
+};
+
+const RECORDED_AT = 1789353000000;
+
+const lecture = (id: string, name: string, segments: TranscriptSegment[], extra: Partial<LectureSession> = {}): LectureSession => {
+  const duration = segments.length ? (segments[segments.length - 1].end ?? segments[segments.length - 1].timestamp) : 0;
+  return {
+    id,
+    name,
+    startTime: RECORDED_AT,
+    endTime: RECORDED_AT + duration * 1000,
+    segments,
+    language: 'mixed',
+    duration,
+    wordCount: segments.reduce((total, segment) => total + segment.text.split(/\s+/).length, 0),
+    cost: duration / 60 * 0.006,
+    status: 'completed',
+    ...extra,
+  };
+};
+
+const LECTURES: ImportLecture[] = [
+  {
+    name: 'bilingual-speakers',
+    session: lecture('fixture_bilingual', '經濟學原理 Lecture 3：供求關係', [
+      { id: 's1', timestamp: 0, end: 14.2, text: '今日我哋講 supply and demand，即係供求關係。', speaker: 'Prof. Chan', language: 'mixed' },
+      { id: 's2', timestamp: 14.2, end: 31.5, text: 'When price goes up, quantity demanded goes down.', speaker: 'Prof. Chan', language: 'en' },
+      { id: 's3', timestamp: 31.5, end: 40, text: '咁如果政府設定價格上限呢？', speaker: 'Student', language: 'zh' },
+    ], {
+      summary: '供求關係決定市場價格。\n\nPrice ceilings below equilibrium cause shortages.',
+      keyTopics: ['供求關係 Supply and demand', 'Price ceilings', 'Elasticity'],
+    }),
+    tags: ['ECON1001', 'Midterm, revision', '經濟'],
+    options: BASE_OPTIONS,
+  },
+  {
+    name: 'markup-in-text',
+    session: lecture('fixture_markup', 'C++ & <templates> #3 / "quotes" | 100%', [
+      { id: 'm1', timestamp: 5, end: 20, text: '# not a heading, *not bold*, _not italic_ and [1] is a citation' },
+      { id: 'm2', timestamp: 20, end: 35, text: '<aside>raw HTML</aside> stays text; so does <script>alert(1)</script> & &amp;' },
+      { id: 'm3', timestamp: 35, end: 50, text: '1. not a list\n- nor this\n> nor a quote\twith a tab and  two   spaces\u0007' },
+    ], { summary: 'Summary with `code`, ~strike~ and a | pipe.' }),
+    tags: ['COMP2113', 'C++'],
+    options: { ...BASE_OPTIONS, layout: 'clean' },
+  },
+  {
+    // Same title as the first fixture; Notion would merge the pages if the rows weren't renamed
+    name: 'repeated-title',
+    session: lecture('fixture_repeat', '經濟學原理 Lecture 3：供求關係', [
+      { id: 'r1', timestamp: 0, end: 12, text: 'Tutorial recording for the same lecture.' },
+    ]),
+    tags: [],
+    options: { ...BASE_OPTIONS, includeSummary: false },
+  },
+  {
+    name: 'empty-lecture',
+    session: lecture('fixture_empty', '   ', []),
+    tags: [' ', ','],
+    options: { ...BASE_OPTIONS, includeTimestamps: false, includeSummary: false, includeMetadata: false, includeBranding: false },
+  },
+  {
+    // Parallel 中文 / English columns, including a segment whose translation is missing
+    name: 'bilingual-columns',
+    session: lecture('fixture_columns', 'Microeconomics 微觀經濟學 | Week 2', [
+      { id: 'c1', timestamp: 0, end: 9, text: '今日我哋講 elasticity。', speaker: 'Prof. Chan', language: 'mixed', translations: { en: 'Today we talk about elasticity.', zh: '今日我哋講彈性。' } },
+      { id: 'c2', timestamp: 9, end: 18, text: 'Demand is elastic when | % change > 1.', language: 'en', translations: { zh: '當 | % 變化 > 1 時，需求有彈性。' } },
+      { id: 'c3', timestamp: 18, end: 24, text: '有冇問題？', language: 'zh' },
+    ]),
+    tags: ['ECON1002'],
+    options: { ...BASE_OPTIONS, bilingual: true },
+  },
+  {
+    name: 'long-academic',
+    session: lecture(
+      'fixture_long',
+      'Linear Algebra — Eigenvalues',
+      Array.from({ length: 120 }, (_, index) => ({
+        id: `l${index}`,
+        timestamp: index * 45,
+        end: index * 45 + 44,
+        text: `Segment ${index + 1}: det(A − λI) = 0 gives the characteristic polynomial.`,
+        speaker: index % 10 === 0 ? 'Dr. Wong' : undefined,
+      })),
+      { language: 'en', summary: 'Eigenvalues, eigenvectors and diagonalisation.', keyTopics: ['Eigenvalues'] }
+    ),
+    tags: ['MATH2101'],
+    options: { ...BASE_OPTIONS, layout: 'academic' },
+  },
+];
+
+const lectureLink = (fixture: ImportLecture) => (seconds: number) =>
+  `https://lecturescript.app/library/${fixture.session.id}?t=${Math.floor(seconds)}`;
+
+const notionPage = (fixture: ImportLecture): NotionPage => ({
+  session: fixture.session,
+  markdown: NotionFormatter.generatePage(fixture.session, fixture.session.segments, fixture.options, lectureLink(fixture)),
+  tags: fixture.tags,
+  url: `https://lecturescript.app/library/${fixture.session.id}`,
+});
+
+const expectValid = (result: ImportValidationResult) => {
+  expect(result.errors, `${result.target} errors`).toEqual([]);
+  expect(result.valid).toBe(true);
+};
+
+describe('export output imports cleanly', () => {
+  it.each(LECTURES.map(fixture => [fixture.name, fixture] as const))('%s', async (_, fixture) => {
+    const { session, options } = fixture;
+    const html = GoogleDocsFormatter.generateHTML(session, session.segments, options, lectureLink(fixture));
+    const odt = await GoogleDocsFormatter.generateODT(session, session.segments, options, lectureLink(fixture));
+    const notion = await NotionFormatter.generateDatabase([notionPage(fixture)]);
+
+    expectValid(ImportValidator.validateGoogleDocsHTML(html.data));
+    expectValid(await ImportValidator.validateODT(odt.data));
+    expectValid(await ImportValidator.validateNotionArchive(notion));
+  });
+
+  it('keeps every lecture as its own page in one Notion database', async () => {
+    expectValid(await ImportValidator.validateNotionArchive(await NotionFormatter.generateDatabase(LECTURES.map(notionPage))));
+  });
+});
@@ -0,0 +1,169 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { openDB, deleteDB } from 'idb';
+import { LectureDatabase, MigrationError, peekVersion } from '../src/utils/database/lectureDatabase';
+import { MIGRATIONS, type Migration } from '../src/utils/database/migrations';
+
+// Databases as earlier builds left them: the two pre-merge databases with records that lack later
+// fields, a merged database one schema behind, and migrations that fail part-way or lose data.
+
+const DB_NAME = 'LectureScriptDB';
+const LEGACY_TRANSCRIPTION = 'LectureTranscriptionDB';
+const LEGACY_LIBRARY = 'LectureLibraryDB';
+const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// A recording saved before tags, favourites and export counts existed
+const EARLY_RECORDING = {
+  id: 'rec_early',
+  title: 'Options pricing',
+  transcript: 'Today we price a European call.',
+  intelligentTitle: 'Options pricing',
+  dateCreated: Date.UTC(2025, 8, 1),
+  duration: 5400,
+  wordCount: 6,
+  cost: 0.54,
+  hasAudio: true,
+};
+
+const CURRENT_RECORDING = {
+  ...EARLY_RECORDING,
+  id: 'rec_current',
+  keyTopics: ['Black-Scholes'],
+  tags: ['finance'],
+  isFavorited: true,
+  isArchived: false,
+  exportCount: 2,
+  source: 'study',
+  transcriptId: 'tr_1',
+};
+
+const SESSION_WITHOUT_SEGMENTS = {
+  id: 'session_1',
+  name: 'Lecture 1',
+  startTime: Date.UTC(2025, 8, 1),
+  language: 'mixed',
+  duration: 5400,
+  wordCount: 6,
+  cost: 0.54,
+  status: 'completed',
+};
+
+const createLegacyDatabase = async (
+  name: string,
+  version: number,
+  stores: Record<string, { options: IDBObjectStoreParameters; records: unknown[] }>
+) => {
+  const db = await openDB(name, version, {
+    upgrade(database) {
+      Object.entries(stores).forEach(([storeName, { options }]) => database.createObjectStore(storeName, options));
+    },
+  });
+  for (const [storeName, { records }] of Object.entries(stores)) {
+    for (const record of records) await db.put(storeName, record);
+  }
+  db.close();
+};
+
+/**
+ * The merged database as `migrations` leave it, with `records` written afterwards
+ */
+const createMergedDatabase = async (migrations: Migration[], records: Record<string, unknown[]>) => {
+  const db = await new LectureDatabase({ name: DB_NAME, legacyNames: [], migrations }).open();
+  for (const [storeName, storeRecords] of Object.entries(records)) {
+    for (const record of storeRecords) await db.put(storeName, record);
+  }
+  db.close();
+};
+
+// Fails after it has already rewritten records, so only a real rollback keeps them
+const THROWING_MIGRATION: Migration = {
+  version: LATEST_VERSION + 1,
+  description: 'Step that throws',
+  transform: async tx => {
+    await tx.objectStore('recordings').put({ ...CURRENT_RECORDING, title: 'Half migrated' });
+    throw new Error('step failed');
+  },
+};
+
+const DATA_LOSING_MIGRATION: Migration = {
+  version: LATEST_VERSION + 1,
+  description: 'Step that drops recordings',
+  transform: async tx => {
+    await tx.objectStore('recordings').clear();
+  },
+  verify: async db => await db.count('recordings') > 0,
+};
+
+const deleteAll = () => Promise.all(
+  [DB_NAME, `${DB_NAME}-backup`, LEGACY_TRANSCRIPTION, LEGACY_LIBRARY].map(name => deleteDB(name))
+);
+
+describe('LectureDatabase migrations', () => {
+  beforeEach(deleteAll);
+  afterEach(deleteAll);
+
+  it('merges the legacy databases and fills in later fields', async () => {
+    await createLegacyDatabase(LEGACY_TRANSCRIPTION, 3, {
+      sessions: { options: { keyPath: 'id' }, records: [SESSION_WITHOUT_SEGMENTS] },
+      settings: { options: { keyPath: 'key' }, records: [{ key: 'app', value: { theme: 'dark' } }] },
+      templates: { options: { keyPath: 'id' }, records: [{ id: 'tpl_1', name: 'Notes', updatedAt: Date.UTC(2025, 8, 1) }] },
+    });
+    await createLegacyDatabase(LEGACY_LIBRARY, 1, {
+      recordings: { options: { keyPath: 'id' }, records: [EARLY_RECORDING] },
+      recordingAudio: {
+        options: { keyPath: 'recordingId' },
+        records: [{ recordingId: EARLY_RECORDING.id, audioBlob: new Blob(['audio'], { type: 'audio/webm' }) }],
+      },
+    });
+
+    const db = await new LectureDatabase({ name: DB_NAME, legacyNames: [LEGACY_TRANSCRIPTION, LEGACY_LIBRARY] }).open();
+    const recording = await db.get('recordings', EARLY_RECORDING.id);
+
+    expect(db.version).toBe(LATEST_VERSION);
+    expect(recording).toMatchObject({ title: EARLY_RECORDING.title, tags: [], isFavorited: false, source: 'live' });
+    expect((await db.get('sessions', SESSION_WITHOUT_SEGMENTS.id))?.segments).toEqual([]);
+    expect(await db.get('recordingAudio', EARLY_RECORDING.id)).toBeDefined();
+    expect((await db.get('settings', 'app'))?.value).toEqual({ theme: 'dark' });
+    expect(await db.count('templates')).toBe(1);
+    db.close();
+  });
+
+  it('upgrades an older merged schema without losing or overwriting records', async () => {
+    // v7 predates the backfill step
+    await createMergedDatabase(MIGRATIONS.filter(m => m.version <= 7), { recordings: [EARLY_RECORDING, CURRENT_RECORDING] });
+
+    const db = await new LectureDatabase({ name: DB_NAME, legacyNames: [] }).open();
+    const early = await db.get('recordings', EARLY_RECORDING.id);
+    const current = await db.get('recordings', CURRENT_RECORDING.id);
+
+    expect(await db.count('recordings')).toBe(2);
+    expect(early).toMatchObject({ keyTopics: [], exportCount: 0 });
+    expect(current).toMatchObject({ isFavorited: true, source: 'study', tags: ['finance'] });
+    db.close();
+  });
+
+  it('rolls back a step that throws', async () => {
+    await createMergedDatabase(MIGRATIONS, { recordings: [CURRENT_RECORDING] });
+
+    const failing = new LectureDatabase({ name: DB_NAME, legacyNames: [], migrations: [...MIGRATIONS, THROWING_MIGRATION] });
+    await expect(failing.open()).rejects.toBeInstanceOf(MigrationError);
+
+    expect(await peekVersion(DB_NAME)).toBe(LATEST_VERSION);
+    const db = await openDB(DB_NAME);
+    expect((await db.get('recordings', CURRENT_RECORDING.id))?.title).toBe(CURRENT_RECORDING.title);
+    db.close();
+  });
+
+  it('restores the backup when a step fails verification', async () => {
+    await createMergedDatabase(MIGRATIONS, { recordings: [EARLY_RECORDING, CURRENT_RECORDING] });
+
+    const losing = new LectureDatabase({ name: DB_NAME, legacyNames: [], migrations: [...MIGRATIONS, DATA_LOSING_MIGRATION] });
+    await expect(losing.open()).rejects.toBeInstanceOf(MigrationError);
+
+    expect(await peekVersion(DB_NAME)).toBe(LATEST_VERSION);
+    const db = await openDB(DB_NAME);
+    expect(await db.count('recordings')).toBe(2);
+    expect(db.objectStoreNames.contains('courses')).toBe(true);
+    db.close();
+  });
+});
@@ -0,0 +1,56 @@
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { describe, expect, it } from 'vitest';
+import { PdfFontSet, StandardCJKFont, StandardLatinFont, TrueTypeFont } from '../src/utils/pdfFonts';
+import type { PdfObjectSink } from '../src/utils/pdfWriter';
+
+// The font PDF exports embed by default, as the build bundles it
+const BUNDLED_FONT = createRequire(import.meta.url).resolve('@expo-google-fonts/noto-sans-tc/400Regular/NotoSansTC_400Regular.ttf');
+
+const memorySink = () => {
+  const streams = new Map<number, Uint8Array | string>();
+  let nextId = 1;
+  const sink: PdfObjectSink = {
+    allocate: () => nextId++,
+    set: () => {},
+    setStream: (id, _, data) => {
+      streams.set(id, data);
+    },
+  };
+  return { sink, streams };
+};
+
+describe('bundled PDF font', () => {
+  const data = new Uint8Array(readFileSync(BUNDLED_FONT));
+
+  it('covers Traditional Chinese, Cantonese and Latin text', () => {
+    const font = new TrueTypeFont('F1', data);
+    for (const char of '講座摘要粵語嘅咗冇Supply & <demand>') {
+      expect(font.covers(char.codePointAt(0)!), char).toBe(true);
+    }
+  });
+
+  it('embeds a subset of the used glyphs that can be copied back as text', () => {
+    const font = new TrueTypeFont('F1', data);
+    font.encode(Array.from('供求關係', char => char.codePointAt(0)!));
+
+    const { sink, streams } = memorySink();
+    font.write(sink);
+    const subset = [...streams.values()].find((stream): stream is Uint8Array => stream instanceof Uint8Array)!;
+    const toUnicode = [...streams.values()].find((stream): stream is string => typeof stream === 'string')!;
+
+    const view = new DataView(subset.buffer, subset.byteOffset, subset.byteLength);
+    const tags = Array.from({ length: view.getUint16(4) }, (_, i) => String.fromCharCode(...subset.subarray(12 + i * 16, 16 + i * 16)));
+    expect(view.getUint32(0)).toBe(0x00010000);
+    expect(tags).toEqual(expect.arrayContaining(['glyf', 'head', 'hhea', 'hmtx', 'loca', 'maxp']));
+    expect(subset.length).toBeLessThan(data.length / 2);
+    // 供 U+4F9B, 係 U+4FC2
+    expect(toUnicode).toMatch(/<4F9B>/);
+    expect(toUnicode).toMatch(/<4FC2>/);
+  });
+
+  it('takes characters from the bundled font before the standard fallbacks', () => {
+    const fonts = new PdfFontSet([new TrueTypeFont('F1', data), new StandardLatinFont('F2'), new StandardCJKFont('F3')]);
+    expect(fonts.runs('Lecture 3：供求').map(run => run.font.resourceName)).toEqual(['F1']);
+  });
+});
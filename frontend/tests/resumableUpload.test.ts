@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { LocalUploadServer } from '../src/services/localUploadServer';
+import {
+  ResumableUpload,
+  ResumableUploadError,
+  type ResumableSessionStore,
+  type ResumableUploadOptions,
+  type UploadTransport,
+} from '../src/services/resumableUpload';
+import type { UploadProgress } from '../src/types/upload';
+
+const CHUNK_SIZE = 1024;
+const ENDPOINT = 'http://localhost:3001/api/upload/resumable';
+
+// Two and a half parts, so the last part is short
+const lectureFile = () => {
+  const bytes = new Uint8Array(CHUNK_SIZE * 2 + CHUNK_SIZE / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = (i * 31 + 7) % 251;
+  return new File([bytes], 'lecture.webm', { type: 'audio/webm', lastModified: 1789353000000 });
+};
+
+// Stands in for localStorage; a second upload sharing it behaves like the page after a reload
+class MemorySessionStore implements ResumableSessionStore {
+  private items: Map<string, string> = new Map();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+const bytesOf = async (blob: Blob | undefined) => (blob ? new Uint8Array(await blob.arrayBuffer()) : undefined);
+
+const sentParts = (server: LocalUploadServer) =>
+  server.requests.filter(request => request.method === 'PUT').map(request => Number(request.path.split('/').pop()));
+
+const upload = (file: File, server: LocalUploadServer, options: Partial<ResumableUploadOptions> = {}) =>
+  new ResumableUpload(file, {
+    endpoint: ENDPOINT,
+    kind: 'audio',
+    fields: { fileId: 'file-1', originalName: file.name },
+    chunkSize: CHUNK_SIZE,
+    retryDelayMs: 1,
+    transport: server.handle,
+    sessionStore: new MemorySessionStore(),
+    ...options,
+  }).start<{ success: boolean; fileId: string; transcriptId?: string }>();
+
+/**
+ * Passes requests through until `parts` parts have been sent, then fails every part like a lost connection
+ */
+const cutOffAfter = (server: LocalUploadServer, parts: number): UploadTransport => {
+  let sent = 0;
+  return async request => {
+    if (request.method === 'PUT' && sent++ >= parts) throw new Error('Network error during upload');
+    return server.handle(request);
+  };
+};
+
+describe('ResumableUpload', () => {
+  it('uploads every part and reports speed and remaining time', async () => {
+    const file = lectureFile();
+    const server = new LocalUploadServer();
+    const progress: UploadProgress[] = [];
+
+    const result = await upload(file, server, { onProgress: update => progress.push(update) });
+
+    expect(result).toMatchObject({ success: true, fileId: 'file-1', transcriptId: 'local-transcript-local-upload-1' });
+    expect(await bytesOf(server.getUpload('local-upload-1')?.completed)).toEqual(await bytesOf(file));
+    expect(sentParts(server)).toEqual([0, 1, 2]);
+    expect(progress[progress.length - 1].percentage).toBe(100);
+    for (const update of progress) {
+      expect(update.speed).toBeTypeOf('number');
+      expect(update.remainingTime).toBeTypeOf('number');
+    }
+  });
+
+  it('retries a part whose connection dropped', async () => {
+    const file = lectureFile();
+    const server = new LocalUploadServer({ dropPartIndexes: [1] });
+
+    await upload(file, server);
+
+    expect(await bytesOf(server.getUpload('local-upload-1')?.completed)).toEqual(await bytesOf(file));
+    expect(sentParts(server)).toEqual([0, 1, 1, 2]);
+  });
+
+  it('resends a part that arrived damaged', async () => {
+    const file = lectureFile();
+    const server = new LocalUploadServer({ corruptPartIndexes: [2] });
+
+    await upload(file, server);
+
+    expect(await bytesOf(server.getUpload('local-upload-1')?.completed)).toEqual(await bytesOf(file));
+    expect(sentParts(server)).toEqual([0, 1, 2, 2]);
+  });
+
+  it('sends only the missing parts after a reload', async () => {
+    const file = lectureFile();
+    const server = new LocalUploadServer();
+    const sessionStore = new MemorySessionStore();
+
+    await expect(upload(file, server, { sessionStore, transport: cutOffAfter(server, 2), maxRetries: 0 }))
+      .rejects.toThrow('Network error');
+
+    const sentBefore = sentParts(server).length;
+    await upload(file, server, { sessionStore });
+
+    expect(sentParts(server).slice(sentBefore)).toEqual([2]);
+    expect(await bytesOf(server.getUpload('local-upload-1')?.completed)).toEqual(await bytesOf(file));
+    expect(sessionStore.getItem('lecturescript-resumable-uploads')).toBeNull();
+  });
+
+  it('starts over when the server has expired the session', async () => {
+    const file = lectureFile();
+    const server = new LocalUploadServer();
+    const sessionStore = new MemorySessionStore();
+
+    await upload(file, server, { sessionStore, transport: cutOffAfter(server, 1), maxRetries: 0 }).catch(() => undefined);
+    server.expire('local-upload-1');
+    await upload(file, server, { sessionStore });
+
+    expect(await bytesOf(server.getUpload('local-upload-2')?.completed)).toEqual(await bytesOf(file));
+  });
+
+  it('pauses mid-part and finishes after resuming', async () => {
+    const file = lectureFile();
+    const server = new LocalUploadServer({ latencyMs: 20 });
+    const progress: UploadProgress[] = [];
+
+    const resumable = new ResumableUpload(file, {
+      endpoint: ENDPOINT,
+      kind: 'audio',
+      chunkSize: CHUNK_SIZE,
+      transport: server.handle,
+      sessionStore: null,
+      onProgress: update => progress.push(update),
+    });
+    const done = resumable.start();
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    resumable.pause();
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(resumable.isPaused).toBe(true);
+    expect(progress[progress.length - 1].paused).toBe(true);
+
+    resumable.resume();
+    await done;
+
+    expect(await bytesOf(server.getUpload('local-upload-1')?.completed)).toEqual(await bytesOf(file));
+    expect(progress[progress.length - 1].paused).toBe(false);
+  });
+
+  it('reports a backend without the resumable endpoints as unsupported', async () => {
+    const server = new LocalUploadServer({ unsupported: true });
+
+    const error = await upload(lectureFile(), server).catch((failure: unknown) => failure);
+
+    expect(error).toBeInstanceOf(ResumableUploadError);
+    expect((error as ResumableUploadError).unsupported).toBe(true);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { detectSpeechSegments, SpeechDetector } from '../src/utils/speechDetector';
+import { concat, mix, noise, SAMPLE_RATE, voice, wavFixture } from './helpers/signals';
+
+// Speech edges may land a frame early and the hangover keeps a segment open after the last
+// voiced frame, so boundaries are checked to within half a second
+const expectNear = (seconds: number, expected: number) => expect(Math.abs(seconds - expected)).toBeLessThan(0.5);
+
+describe('detectSpeechSegments', () => {
+  it('finds the speech in a lecture with a quiet room between sentences', async () => {
+    const room = (seconds: number, seed: number) => noise(seconds, 0.003, seed);
+    const wav = await wavFixture(concat(room(2, 1), mix(voice(3, 0.3), room(3, 2)), room(2, 3), mix(voice(2, 0.3), room(2, 4)), room(2, 5)));
+
+    const segments = detectSpeechSegments(wav.samples, wav.sampleRate);
+
+    expect(segments).toHaveLength(2);
+    expectNear(segments[0].start, 2);
+    expectNear(segments[0].end, 5);
+    expectNear(segments[1].start, 7);
+    expectNear(segments[1].end, 9);
+  });
+
+  it('finds nothing in a silent recording', async () => {
+    const wav = await wavFixture(new Float32Array(SAMPLE_RATE * 5));
+    expect(detectSpeechSegments(wav.samples, wav.sampleRate)).toEqual([]);
+  });
+
+  it('ignores a fan switching on', async () => {
+    // 14 dB louder: below the level where loudness alone counts as speech
+    const wav = await wavFixture(concat(noise(3, 0.003, 1), noise(5, 0.015, 2)));
+    expect(detectSpeechSegments(wav.samples, wav.sampleRate)).toEqual([]);
+  });
+
+  it('ignores a click shorter than the minimum speech length', async () => {
+    const click = new Float32Array(Math.round(SAMPLE_RATE * 0.03)).fill(0.8);
+    const wav = await wavFixture(concat(noise(2, 0.003, 1), click, noise(2, 0.003, 2)));
+    expect(detectSpeechSegments(wav.samples, wav.sampleRate)).toEqual([]);
+  });
+
+  it('hears speech over a noisy room once it has calibrated', async () => {
+    const fan = noise(6, 0.02, 7);
+    const wav = await wavFixture(concat(fan.subarray(0, SAMPLE_RATE * 3), mix(voice(3, 0.3), fan.subarray(SAMPLE_RATE * 3))));
+
+    const segments = detectSpeechSegments(wav.samples, wav.sampleRate);
+
+    expect(segments).toHaveLength(1);
+    expectNear(segments[0].start, 3);
+  });
+});
+
+describe('SpeechDetector', () => {
+  it('gives the same decisions however the samples are split into blocks', async () => {
+    const { samples } = await wavFixture(concat(noise(2, 0.003, 1), voice(1, 0.3), noise(1, 0.003, 2)));
+    const whole = new SpeechDetector({ sampleRate: SAMPLE_RATE }).process(samples).map(decision => decision.isSpeech);
+
+    const streaming = new SpeechDetector({ sampleRate: SAMPLE_RATE });
+    const blocks: boolean[] = [];
+    for (let offset = 0; offset < samples.length; offset += 1000) {
+      blocks.push(...streaming.process(samples.subarray(offset, offset + 1000)).map(decision => decision.isSpeech));
+    }
+
+    expect(blocks).toEqual(whole);
+  });
+});
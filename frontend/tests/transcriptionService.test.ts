@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { transcriptionService } from '../src/services/transcriptionService';
+import type { RawTranscriptPayload } from '../src/utils/transcriptDocument';
+
+const SPLIT_TRANSCRIPTS_KEY = 'lecturescript-split-transcripts';
+
+class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+}
+
+const PART_TRANSCRIPTS: Record<string, RawTranscriptPayload> = {
+  'part-a': { text: 'First half.', language: 'en', duration: 600, segments: [{ text: 'First half.', start: 2, end: 5, words: [{ word: 'First', start: 2, end: 3 }] }] },
+  'part-b': { text: 'Second half.', language: 'en', duration: 300, segments: [{ text: 'Second half.', start: 1, end: 4 }] },
+  // Word timings but no segments
+  'part-words': { text: 'Third part.', language: 'en', duration: 200, words: [{ word: 'Third', start: 1, end: 2 }, { word: 'part.', start: 2, end: 3 }] },
+};
+
+/**
+ * The backend's /api/transcription/:id, answering with each part's finished transcript
+ */
+const completedTranscripts = (url: string | URL | Request) => {
+  const id = String(url).split('/').pop()!;
+  const transcription = PART_TRANSCRIPTS[id];
+  return Promise.resolve(transcription
+    ? new Response(JSON.stringify({ status: 'completed', transcription }), { status: 200 })
+    : new Response('{}', { status: 500 }));
+};
+
+describe('split transcripts', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', new MemoryStorage());
+    vi.stubGlobal('fetch', vi.fn(completedTranscripts));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('saves the part list so it outlives the page', () => {
+    transcriptionService.registerSplitTranscript('split-saved', [{ transcriptId: 'part-a', offset: 0 }]);
+
+    const saved = JSON.parse(localStorage.getItem(SPLIT_TRANSCRIPTS_KEY)!);
+    expect(saved['split-saved'].parts).toEqual([{ transcriptId: 'part-a', offset: 0 }]);
+  });
+
+  it('resolves a split id saved by an earlier page load and merges the parts by offset', async () => {
+    // As a reload or a shared /study/split-... link finds it: in storage, not in memory
+    localStorage.setItem(SPLIT_TRANSCRIPTS_KEY, JSON.stringify({
+      'split-reloaded': {
+        parts: [{ transcriptId: 'part-a', offset: 0 }, { transcriptId: 'part-b', offset: 598.5 }],
+        savedAt: Date.now(),
+      },
+    }));
+
+    const result = await transcriptionService.pollTranscriptionStatus('split-reloaded');
+
+    expect(result.status).toBe('completed');
+    expect(result.transcription).toMatchObject({ text: 'First half. Second half.', language: 'en', duration: 898.5 });
+    expect(result.transcription!.segments!.map(segment => [segment.start, segment.end])).toEqual([[2, 5], [599.5, 602.5]]);
+    expect(result.transcription!.segments![0].words).toEqual([{ word: 'First', start: 2, end: 3 }]);
+  });
+
+  it('keeps the words of a part transcribed without segments', async () => {
+    transcriptionService.registerSplitTranscript('split-words', [
+      { transcriptId: 'part-a', offset: 0 },
+      { transcriptId: 'part-words', offset: 600 },
+    ]);
+
+    const result = await transcriptionService.pollTranscriptionStatus('split-words');
+
+    const segments = result.transcription!.segments!;
+    expect(segments.map(segment => [segment.text, segment.start, segment.end])).toEqual([
+      ['First half.', 2, 5],
+      ['Third part.', 601, 603],
+    ]);
+    expect(segments[1].words!.map(word => word.start)).toEqual([601, 602]);
+    expect(result.transcription!.duration).toBe(800);
+  });
+});
@@ -41,6 +41,15 @@ export default defineConfig({
       workbox: {
         globPatterns: ['**/*.{js,css,html,ico,png,svg}'],
         runtimeCaching: [
+          {
+            // PDF export font, too large to precache; kept after the first export
+            urlPattern: /\.(ttf|otf)$/i,
+            handler: 'CacheFirst',
+            options: {
+              cacheName: 'pdf-fonts',
+              expiration: { maxEntries: 4 }
+            }
+          },
           {
             urlPattern: /^https:\/\/api\.openai\.com\/.*/i,
             handler: 'NetworkOnly',
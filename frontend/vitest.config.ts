@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config'
+
+// Tests run in Node: Blob, File, WebCrypto and fetch's Response are built in, and IndexedDB
+// comes from fake-indexeddb in the tests that need it
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+  },
+})